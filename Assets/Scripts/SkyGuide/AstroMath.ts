@@ -1,6 +1,8 @@
 // AstroMath.ts — Pure astronomy math (no Lens Studio dependencies)
 // Ported from astronomy-engine core transforms
 
+import { BoundaryRecord, RiseTransitSet } from './Types';
+
 const DEG_TO_RAD = Math.PI / 180;
 const RAD_TO_DEG = 180 / Math.PI;
 const TWO_PI = 2 * Math.PI;
@@ -14,12 +16,18 @@ export function julianDate(date: Date): number {
 
 /**
  * Greenwich Mean Sidereal Time in radians.
- * Simplified IAU formula — accurate to ~1 arcminute.
+ * IAU 2006: Earth rotation angle plus the accumulated precession in RA —
+ * accurate to ~0.1 second of time (UT1 ≈ UTC). Meeus example 12.a:
+ * 1987 April 10, 0h UT (JD 2446895.5) -> 13h10m46.3668s.
  */
 export function gmst(jd: number): number {
   const t = jd - 2451545.0;
-  const f = t - Math.floor(t) + 0.5;
-  const theta = TWO_PI * (f + 0.7790572732640 + 0.00273781191135448 * t);
+  // Earth rotation angle: fractional day since J2000.0 (12h UT) plus sidereal excess
+  const f = t - Math.floor(t);
+  const era = TWO_PI * (f + 0.7790572732640 + 0.00273781191135448 * t);
+  const T = t / 36525;
+  const precessionArcsec = 0.014506 + 4612.156534 * T + 1.3915817 * T * T;
+  const theta = era + precessionArcsec * (DEG_TO_RAD / 3600);
   return ((theta % TWO_PI) + TWO_PI) % TWO_PI; // normalize to [0, 2π)
 }
 
@@ -76,6 +84,34 @@ export function equatorialToHorizontal(
   return [alt, az];
 }
 
+/**
+ * Convert horizontal coordinates (Alt, Az) back to equatorial (RA, Dec).
+ * Inverse of equatorialToHorizontal.
+ * @returns [raRad, decRad] — RA normalized to [0, 2π)
+ */
+export function horizontalToEquatorial(
+  altRad: number,
+  azRad: number,
+  lstRad: number,
+  latRad: number
+): [number, number] {
+  const sinLat = Math.sin(latRad);
+  const cosLat = Math.cos(latRad);
+  const sinAlt = Math.sin(altRad);
+  const cosAlt = Math.cos(altRad);
+
+  const sinDec = sinLat * sinAlt + cosLat * cosAlt * Math.cos(azRad);
+  const dec = Math.asin(Math.max(-1, Math.min(1, sinDec)));
+
+  // Hour angle, measured westward from the meridian
+  const ha = Math.atan2(
+    -Math.sin(azRad) * cosAlt,
+    cosLat * sinAlt - sinLat * cosAlt * Math.cos(azRad)
+  );
+  const ra = lstRad - ha;
+  return [((ra % TWO_PI) + TWO_PI) % TWO_PI, dec];
+}
+
 /**
  * Convert altitude/azimuth to 3D position on a celestial sphere.
  *
@@ -101,6 +137,229 @@ export function horizontalToCartesian(
   return [x, y, z];
 }
 
+/**
+ * equatorialToHorizontal() for a whole catalog, writing into preallocated arrays.
+ * Takes the sines and cosines of the declinations, which change only with the
+ * apparent places, so each star costs one hour-angle sin/cos, an asin and an atan2.
+ * @param outAlt — true (unrefracted) altitude in radians
+ * @param outAz — azimuth in radians from North, clockwise (0 at the zenith)
+ */
+export function equatorialToHorizontalArrays(
+  raRad: ArrayLike<number>,
+  sinDec: ArrayLike<number>,
+  cosDec: ArrayLike<number>,
+  count: number,
+  lstRad: number,
+  latRad: number,
+  outAlt: Float32Array,
+  outAz: Float32Array
+): void {
+  const sinLat = Math.sin(latRad);
+  const cosLat = Math.cos(latRad);
+
+  for (let i = 0; i < count; i++) {
+    const ha = lstRad - raRad[i];
+    const cosHA = Math.cos(ha);
+    // Direction as east, north and up components
+    const east = -cosDec[i] * Math.sin(ha);
+    const north = sinDec[i] * cosLat - cosDec[i] * cosHA * sinLat;
+    const up = sinLat * sinDec[i] + cosLat * cosDec[i] * cosHA;
+
+    outAlt[i] = Math.asin(Math.max(-1, Math.min(1, up)));
+    const az = Math.atan2(east, north);
+    outAz[i] = az < 0 ? az + TWO_PI : az;
+  }
+}
+
+/** Sidereal rotation rate in radians per millisecond of UT */
+const SIDEREAL_RAD_PER_MS = TWO_PI * 1.00273790935 / 86400000;
+
+/**
+ * Rise, transit and set times for a fixed RA/Dec (coordinates of date).
+ *
+ * If the object is currently up, the current pass is returned (rise may be in
+ * the past); otherwise the next pass. Circumpolar objects report only the
+ * next upper culmination.
+ * @param h0Rad — altitude of the rise/set event (-0.5667° for stars with refraction)
+ * @param timeMs — reference time in ms since epoch
+ */
+export function riseTransitSet(
+  raRad: number,
+  decRad: number,
+  latRad: number,
+  lonRad: number,
+  timeMs: number,
+  h0Rad: number
+): RiseTransitSet {
+  const jd = timeMs / 86400000 + 2440587.5;
+  const lst = localSiderealTime(gmst(jd), lonRad);
+
+  // Hour angle now, in (-π, π]
+  let ha = ((lst - raRad) % TWO_PI + TWO_PI) % TWO_PI;
+  if (ha > Math.PI) ha -= TWO_PI;
+
+  const transitAlt = Math.PI / 2 - Math.abs(latRad - decRad);
+  const cosH0 = (Math.sin(h0Rad) - Math.sin(latRad) * Math.sin(decRad)) /
+    (Math.cos(latRad) * Math.cos(decRad));
+
+  if (cosH0 > 1) {
+    return { kind: 'neverRises', riseMs: NaN, transitMs: NaN, setMs: NaN, transitAlt };
+  }
+
+  if (cosH0 < -1) {
+    // Next upper culmination
+    const toTransit = ((-ha % TWO_PI) + TWO_PI) % TWO_PI;
+    return {
+      kind: 'circumpolar',
+      riseMs: NaN,
+      transitMs: timeMs + toTransit / SIDEREAL_RAD_PER_MS,
+      setMs: NaN,
+      transitAlt,
+    };
+  }
+
+  const h0 = Math.acos(cosH0);
+  const isUp = Math.abs(ha) < h0;
+  // Current pass if up, otherwise the next one
+  const toTransit = isUp ? -ha : ((-ha % TWO_PI) + TWO_PI) % TWO_PI;
+  const transitMs = timeMs + toTransit / SIDEREAL_RAD_PER_MS;
+  const halfArcMs = h0 / SIDEREAL_RAD_PER_MS;
+
+  return {
+    kind: 'normal',
+    riseMs: transitMs - halfArcMs,
+    transitMs,
+    setMs: transitMs + halfArcMs,
+    transitAlt,
+  };
+}
+
+/**
+ * Atmospheric refraction for a true (geometric) altitude — Saemundsson (1986).
+ * Scaled for temperature and pressure; ignored more than 2° below the horizon.
+ * @param altRad — true altitude in radians
+ * @param temperatureC — air temperature in °C
+ * @param pressureMbar — air pressure in millibars
+ * @returns refraction in radians (add to the true altitude)
+ */
+export function refractionFromTrue(
+  altRad: number,
+  temperatureC: number,
+  pressureMbar: number
+): number {
+  const h = altRad * RAD_TO_DEG;
+  if (h < -2) return 0;
+  const rArcmin = 1.02 / Math.tan((h + 10.3 / (h + 5.11)) * DEG_TO_RAD);
+  const scale = (pressureMbar / 1010) * (283 / (273 + temperatureC));
+  return Math.max(0, rArcmin * scale) / 60 * DEG_TO_RAD;
+}
+
+/**
+ * Atmospheric refraction for an apparent (observed) altitude — Bennett (1982).
+ * @param altRad — apparent altitude in radians
+ * @returns refraction in radians (subtract from the apparent altitude)
+ */
+export function refractionFromApparent(
+  altRad: number,
+  temperatureC: number,
+  pressureMbar: number
+): number {
+  const h = altRad * RAD_TO_DEG;
+  if (h < -2) return 0;
+  const rArcmin = 1.0 / Math.tan((h + 7.31 / (h + 4.4)) * DEG_TO_RAD);
+  const scale = (pressureMbar / 1010) * (283 / (273 + temperatureC));
+  return Math.max(0, rArcmin * scale) / 60 * DEG_TO_RAD;
+}
+
+/**
+ * Relative airmass for an apparent altitude — Kasten & Young (1989).
+ * Finite at the horizon (~38); clamped there for objects below it.
+ */
+export function airmass(altRad: number): number {
+  const h = Math.max(0, altRad * RAD_TO_DEG);
+  return 1 / (Math.sin(h * DEG_TO_RAD) + 0.50572 * Math.pow(h + 6.07995, -1.6364));
+}
+
+/**
+ * Atmospheric extinction in magnitudes.
+ * @param altRad — apparent altitude in radians
+ * @param coefficient — extinction coefficient in magnitudes per airmass
+ *   (~0.2 at a dark mountain site, ~0.3–0.4 at sea level)
+ * @returns magnitudes to add to the catalog magnitude
+ */
+export function extinction(altRad: number, coefficient: number): number {
+  return coefficient * airmass(altRad);
+}
+
+/**
+ * Convert ecliptic coordinates to equatorial coordinates.
+ * @param lonRad — ecliptic longitude in radians
+ * @param latRad — ecliptic latitude in radians
+ * @param obliquityRad — obliquity of the ecliptic in radians
+ * @returns [raRad, decRad] — RA normalized to [0, 2π)
+ */
+export function eclipticToEquatorial(
+  lonRad: number,
+  latRad: number,
+  obliquityRad: number
+): [number, number] {
+  const sinEps = Math.sin(obliquityRad);
+  const cosEps = Math.cos(obliquityRad);
+  const sinLon = Math.sin(lonRad);
+  const ra = Math.atan2(
+    sinLon * cosEps - Math.tan(latRad) * sinEps,
+    Math.cos(lonRad)
+  );
+  const dec = Math.asin(
+    Math.sin(latRad) * cosEps + Math.cos(latRad) * sinEps * sinLon
+  );
+  return [((ra % TWO_PI) + TWO_PI) % TWO_PI, dec];
+}
+
+/**
+ * Convert equatorial coordinates to ecliptic coordinates.
+ * @param obliquityRad — obliquity of the ecliptic in radians
+ * @returns [lonRad, latRad] — longitude normalized to [0, 2π)
+ */
+export function equatorialToEcliptic(
+  raRad: number,
+  decRad: number,
+  obliquityRad: number
+): [number, number] {
+  const sinEps = Math.sin(obliquityRad);
+  const cosEps = Math.cos(obliquityRad);
+  const sinRA = Math.sin(raRad);
+  const lon = Math.atan2(
+    sinRA * cosEps + Math.tan(decRad) * sinEps,
+    Math.cos(raRad)
+  );
+  const lat = Math.asin(
+    Math.sin(decRad) * cosEps - Math.cos(decRad) * sinEps * sinRA
+  );
+  return [((lon % TWO_PI) + TWO_PI) % TWO_PI, lat];
+}
+
+// North galactic pole and the galactic longitude of the north celestial pole (J2000)
+const GALACTIC_POLE_RA = 192.85948 * DEG_TO_RAD;
+const GALACTIC_POLE_DEC = 27.12825 * DEG_TO_RAD;
+const GALACTIC_NCP_LON = 122.93192 * DEG_TO_RAD;
+
+/**
+ * Convert galactic coordinates to J2000 equatorial coordinates.
+ * @returns [raRad, decRad] — RA normalized to [0, 2π)
+ */
+export function galacticToEquatorial(lonRad: number, latRad: number): [number, number] {
+  const sinB = Math.sin(latRad), cosB = Math.cos(latRad);
+  const sinP = Math.sin(GALACTIC_POLE_DEC), cosP = Math.cos(GALACTIC_POLE_DEC);
+  const dLon = GALACTIC_NCP_LON - lonRad;
+  const dec = Math.asin(sinB * sinP + cosB * cosP * Math.cos(dLon));
+  const ra = GALACTIC_POLE_RA + Math.atan2(
+    cosB * Math.sin(dLon),
+    sinB * cosP - cosB * sinP * Math.cos(dLon)
+  );
+  return [((ra % TWO_PI) + TWO_PI) % TWO_PI, dec];
+}
+
 /**
  * Map B-V color index to approximate RGB color.
  * B-V ranges from ~-0.4 (hot blue) to ~+2.0 (cool red).
@@ -155,6 +414,46 @@ export function magnitudeToScale(mag: number): number {
   return Math.max(0.5, 3.0 - (mag + 1.5) * 0.385);
 }
 
+// Naked-eye limiting magnitude vs. Sun altitude (deg), interpolated linearly
+const TWILIGHT_LIMIT_TABLE: number[][] = [
+  [5, -4.0],
+  [0, -1.0],
+  [-6, 2.0],
+  [-12, 4.5],
+  [-18, 6.5],
+];
+
+/**
+ * Approximate naked-eye limiting magnitude set by sky brightness from the Sun.
+ * Ranges from -4 (only Venus in daylight) to 6.5 once astronomical twilight ends.
+ * @param sunAltRad — geometric altitude of the Sun's center in radians
+ */
+export function twilightLimitingMagnitude(sunAltRad: number): number {
+  const h = sunAltRad * RAD_TO_DEG;
+  const table = TWILIGHT_LIMIT_TABLE;
+  if (h >= table[0][0]) return table[0][1];
+  for (let i = 1; i < table.length; i++) {
+    const [h1, m1] = table[i];
+    if (h >= h1) {
+      const [h0, m0] = table[i - 1];
+      return m1 + (m0 - m1) * (h - h1) / (h0 - h1);
+    }
+  }
+  return table[table.length - 1][1];
+}
+
+// Naked-eye limiting magnitude at the zenith per Bortle class (middle of each range)
+const BORTLE_LIMITS = [7.8, 7.3, 6.8, 6.3, 5.8, 5.3, 4.8, 4.3, 4.0];
+
+/**
+ * Approximate naked-eye limiting magnitude under a light-polluted sky.
+ * @param bortleClass — 1 (excellent dark site) to 9 (inner city)
+ */
+export function bortleLimitingMagnitude(bortleClass: number): number {
+  const i = Math.max(1, Math.min(9, Math.round(bortleClass))) - 1;
+  return BORTLE_LIMITS[i];
+}
+
 /**
  * Angular distance between two points on the celestial sphere.
  * Uses the haversine formula for numerical stability.
@@ -192,6 +491,54 @@ export function angularDistanceAltAz(
   return 2 * Math.asin(Math.sqrt(Math.min(1, a)));
 }
 
+/**
+ * Angle between two direction vectors (need not be unit length).
+ * Uses atan2(|a×b|, a·b), which stays accurate for tiny and near-π angles.
+ */
+export function angularDistanceVectors(
+  ax: number, ay: number, az: number,
+  bx: number, by: number, bz: number
+): number {
+  const cx = ay * bz - az * by;
+  const cy = az * bx - ax * bz;
+  const cz = ax * by - ay * bx;
+  return Math.atan2(Math.sqrt(cx * cx + cy * cy + cz * cz), ax * bx + ay * by + az * bz);
+}
+
+/**
+ * Angular distance from direction g to the shorter great-circle arc a→b.
+ * Falls back to the nearer endpoint when g projects outside the arc.
+ */
+export function angularDistanceToArc(
+  gx: number, gy: number, gz: number,
+  ax: number, ay: number, az: number,
+  bx: number, by: number, bz: number
+): number {
+  // Pole of the arc's great circle
+  const nx = ay * bz - az * by;
+  const ny = az * bx - ax * bz;
+  const nz = ax * by - ay * bx;
+  const nLen = Math.sqrt(nx * nx + ny * ny + nz * nz);
+  const gLen = Math.sqrt(gx * gx + gy * gy + gz * gz);
+
+  if (nLen > 1e-12 && gLen > 1e-12) {
+    // g lies between a and b when (a×g)·n and (g×b)·n are both non-negative
+    const agN =
+      (ay * gz - az * gy) * nx + (az * gx - ax * gz) * ny + (ax * gy - ay * gx) * nz;
+    const gbN =
+      (gy * bz - gz * by) * nx + (gz * bx - gx * bz) * ny + (gx * by - gy * bx) * nz;
+    if (agN >= 0 && gbN >= 0) {
+      const sinDist = Math.abs(gx * nx + gy * ny + gz * nz) / (gLen * nLen);
+      return Math.asin(Math.min(1, sinDist));
+    }
+  }
+
+  return Math.min(
+    angularDistanceVectors(gx, gy, gz, ax, ay, az),
+    angularDistanceVectors(gx, gy, gz, bx, by, bz)
+  );
+}
+
 /**
  * Exponential smoothing for compass heading stabilization.
  * Handles the 0°/360° wraparound correctly.
@@ -214,3 +561,275 @@ export function smoothHeading(
   if (result >= 360) result -= 360;
   return result;
 }
+
+// --- Apparent place: proper motion, aberration, precession, nutation ---
+
+const ARCSEC_TO_RAD = DEG_TO_RAD / 3600;
+const SPEED_OF_LIGHT_AU_PER_DAY = 173.1446327;
+
+/** Row-major 3×3 rotation matrix */
+export type Matrix3 = number[];
+
+export interface Nutation {
+  dPsi: number;           // nutation in longitude, radians
+  dEps: number;           // nutation in obliquity, radians
+  meanObliquity: number;  // mean obliquity of date, radians
+}
+
+// IAU 1980 nutation, truncated to terms ≥ 5 mas:
+// [D, M, M', F, Ω, Δψ (0.1 mas), Δψ·T, Δε (0.1 mas), Δε·T]
+const NUTATION_TERMS: number[][] = [
+  [0, 0, 0, 0, 1, -171996, -174.2, 92025, 8.9],
+  [-2, 0, 0, 2, 2, -13187, -1.6, 5736, -3.1],
+  [0, 0, 0, 2, 2, -2274, -0.2, 977, -0.5],
+  [0, 0, 0, 0, 2, 2062, 0.2, -895, 0.5],
+  [0, 1, 0, 0, 0, 1426, -3.4, 54, -0.1],
+  [0, 0, 1, 0, 0, 712, 0.1, -7, 0],
+  [-2, 1, 0, 2, 2, -517, 1.2, 224, -0.6],
+  [0, 0, 0, 2, 1, -386, -0.4, 200, 0],
+  [0, 0, 1, 2, 2, -301, 0, 129, -0.1],
+  [-2, -1, 0, 2, 2, 217, -0.5, -95, 0.3],
+  [-2, 0, 1, 0, 0, -158, 0, 0, 0],
+  [-2, 0, 0, 2, 1, 129, 0.1, -70, 0],
+  [0, 0, -1, 2, 2, 123, 0, -53, 0],
+  [2, 0, 0, 0, 0, 63, 0, 0, 0],
+  [0, 0, 1, 0, 1, 63, 0.1, -33, 0],
+  [2, 0, -1, 2, 2, -59, 0, 26, 0],
+  [0, 0, -1, 0, 1, -58, -0.1, 32, 0],
+  [0, 0, 1, 2, 1, -51, 0, 27, 0],
+];
+
+function rotX(angle: number): Matrix3 {
+  const c = Math.cos(angle), s = Math.sin(angle);
+  return [1, 0, 0, 0, c, s, 0, -s, c];
+}
+
+function rotY(angle: number): Matrix3 {
+  const c = Math.cos(angle), s = Math.sin(angle);
+  return [c, 0, -s, 0, 1, 0, s, 0, c];
+}
+
+function rotZ(angle: number): Matrix3 {
+  const c = Math.cos(angle), s = Math.sin(angle);
+  return [c, s, 0, -s, c, 0, 0, 0, 1];
+}
+
+/**
+ * Multiply two 3×3 matrices (a · b).
+ */
+export function multiplyMatrix(a: Matrix3, b: Matrix3): Matrix3 {
+  const m: Matrix3 = new Array(9);
+  for (let r = 0; r < 3; r++) {
+    for (let c = 0; c < 3; c++) {
+      m[r * 3 + c] =
+        a[r * 3] * b[c] + a[r * 3 + 1] * b[3 + c] + a[r * 3 + 2] * b[6 + c];
+    }
+  }
+  return m;
+}
+
+/**
+ * Unit vector for equatorial coordinates.
+ */
+export function equatorialToVector(
+  raRad: number,
+  decRad: number
+): [number, number, number] {
+  const cosDec = Math.cos(decRad);
+  return [cosDec * Math.cos(raRad), cosDec * Math.sin(raRad), Math.sin(decRad)];
+}
+
+/**
+ * Equatorial coordinates of a (not necessarily unit) vector.
+ * @returns [raRad, decRad] — RA normalized to [0, 2π)
+ */
+export function vectorToEquatorial(
+  x: number,
+  y: number,
+  z: number
+): [number, number] {
+  const ra = Math.atan2(y, x);
+  const dec = Math.atan2(z, Math.sqrt(x * x + y * y));
+  return [((ra % TWO_PI) + TWO_PI) % TWO_PI, dec];
+}
+
+/**
+ * Precession matrix from the J2000 mean equator to the mean equator of date.
+ * IAU 2006 (Capitaine et al. 2003) equatorial precession angles.
+ */
+export function precessionMatrix(jd: number): Matrix3 {
+  const T = (jd - 2451545.0) / 36525;
+  const zeta = (2.650545 + T * (2306.083227 + T * (0.2988499 +
+    T * (0.01801828 + T * (-0.000005971 + T * -0.0000003173))))) * ARCSEC_TO_RAD;
+  const z = (-2.650545 + T * (2306.077181 + T * (1.0927348 +
+    T * (0.01826837 + T * (-0.000028596 + T * -0.0000002904))))) * ARCSEC_TO_RAD;
+  const theta = T * (2004.191903 + T * (-0.4294934 +
+    T * (-0.04182264 + T * (-0.000007089 + T * -0.0000001274)))) * ARCSEC_TO_RAD;
+
+  // P = R3(−z) · R2(θ) · R3(−ζ)
+  return multiplyMatrix(rotZ(-z), multiplyMatrix(rotY(theta), rotZ(-zeta)));
+}
+
+/**
+ * Nutation in longitude and obliquity (IAU 1980, truncated — ~0.1" accuracy)
+ * with IAU 2006 mean obliquity.
+ */
+export function nutation(jd: number): Nutation {
+  const T = (jd - 2451545.0) / 36525;
+  const D = (297.85036 + 445267.111480 * T - 0.0019142 * T * T) * DEG_TO_RAD;
+  const M = (357.52772 + 35999.050340 * T - 0.0001603 * T * T) * DEG_TO_RAD;
+  const Mp = (134.96298 + 477198.867398 * T + 0.0086972 * T * T) * DEG_TO_RAD;
+  const F = (93.27191 + 483202.017538 * T - 0.0036825 * T * T) * DEG_TO_RAD;
+  const Om = (125.04452 - 1934.136261 * T + 0.0020708 * T * T) * DEG_TO_RAD;
+
+  let dPsi = 0, dEps = 0;
+  for (const [d, m, mp, f, om, ps, psT, ep, epT] of NUTATION_TERMS) {
+    const arg = d * D + m * M + mp * Mp + f * F + om * Om;
+    dPsi += (ps + psT * T) * Math.sin(arg);
+    dEps += (ep + epT * T) * Math.cos(arg);
+  }
+
+  const meanObliquity = (84381.406 + T * (-46.836769 + T * (-0.0001831 +
+    T * 0.0020034))) * ARCSEC_TO_RAD;
+
+  return {
+    dPsi: dPsi * 0.0001 * ARCSEC_TO_RAD,
+    dEps: dEps * 0.0001 * ARCSEC_TO_RAD,
+    meanObliquity,
+  };
+}
+
+/**
+ * Nutation matrix from the mean equator of date to the true equator of date.
+ */
+export function nutationMatrix(n: Nutation): Matrix3 {
+  // N = R1(−(ε + Δε)) · R3(−Δψ) · R1(ε)
+  return multiplyMatrix(
+    rotX(-(n.meanObliquity + n.dEps)),
+    multiplyMatrix(rotZ(-n.dPsi), rotX(n.meanObliquity))
+  );
+}
+
+/**
+ * Combined J2000 → true equator and equinox of date matrix.
+ */
+export function precessionNutationMatrix(jd: number): Matrix3 {
+  return multiplyMatrix(nutationMatrix(nutation(jd)), precessionMatrix(jd));
+}
+
+/**
+ * Apparent place of a J2000 catalog position at the given epoch.
+ * Applies proper motion, annual aberration, then precession + nutation.
+ * @param pmRA — proper motion in RA·cos(Dec), radians per Julian year
+ * @param pmDec — proper motion in Dec, radians per Julian year
+ * @param years — Julian years since J2000.0
+ * @param pnMatrix — from precessionNutationMatrix()
+ * @param earthVelocity — Earth's barycentric velocity (J2000 equatorial, AU/day)
+ * @returns [raRad, decRad] of date
+ */
+export function apparentPlace(
+  raRad: number,
+  decRad: number,
+  pmRA: number,
+  pmDec: number,
+  years: number,
+  pnMatrix: Matrix3,
+  earthVelocity: [number, number, number]
+): [number, number] {
+  const sinRA = Math.sin(raRad), cosRA = Math.cos(raRad);
+  const sinDec = Math.sin(decRad), cosDec = Math.cos(decRad);
+
+  // Position plus proper motion along the local east / north unit vectors
+  const dRA = pmRA * years;
+  const dDec = pmDec * years;
+  let x = cosDec * cosRA - dRA * sinRA - dDec * sinDec * cosRA;
+  let y = cosDec * sinRA + dRA * cosRA - dDec * sinDec * sinRA;
+  let z = sinDec + dDec * cosDec;
+  let len = Math.sqrt(x * x + y * y + z * z);
+  x /= len; y /= len; z /= len;
+
+  // Annual aberration (first order in v/c)
+  const bx = earthVelocity[0] / SPEED_OF_LIGHT_AU_PER_DAY;
+  const by = earthVelocity[1] / SPEED_OF_LIGHT_AU_PER_DAY;
+  const bz = earthVelocity[2] / SPEED_OF_LIGHT_AU_PER_DAY;
+  const dot = x * bx + y * by + z * bz;
+  x += bx - dot * x;
+  y += by - dot * y;
+  z += bz - dot * z;
+
+  // Precession + nutation
+  const m = pnMatrix;
+  return vectorToEquatorial(
+    m[0] * x + m[1] * y + m[2] * z,
+    m[3] * x + m[4] * y + m[5] * z,
+    m[6] * x + m[7] * y + m[8] * z
+  );
+}
+
+// --- Constellation boundaries ---
+
+// The IAU boundaries (Delporte 1930) run along meridians and parallels of B1875.0
+const B1875_JD = 2405889.258550475;
+let j2000ToB1875: Matrix3 | null = null;
+
+/**
+ * IAU constellation containing a J2000 direction.
+ * Boundary edges are straight lines in B1875 RA/Dec, so after precessing the
+ * point to B1875 a plain polygon test is exact.
+ * @returns the matching BoundaryRecord's abbr, or '' (no boundary data)
+ */
+export function constellationAt(
+  raRad: number,
+  decRad: number,
+  boundaries: BoundaryRecord[]
+): string {
+  if (boundaries.length === 0) return '';
+  if (!j2000ToB1875) j2000ToB1875 = precessionMatrix(B1875_JD);
+
+  const [x, y, z] = equatorialToVector(raRad, decRad);
+  const m = j2000ToB1875;
+  const [ra, dec] = vectorToEquatorial(
+    m[0] * x + m[1] * y + m[2] * z,
+    m[3] * x + m[4] * y + m[5] * z,
+    m[6] * x + m[7] * y + m[8] * z
+  );
+
+  for (const b of boundaries) {
+    if (insideBoundary(ra, dec, b)) return b.abbr;
+  }
+  return '';
+}
+
+/**
+ * Count crossings of the ray running north along the point's meridian.
+ * An odd count means inside, except for the polygon around the north pole
+ * (Ursa Minor), where the ray ends inside and the parity flips.
+ */
+function insideBoundary(raRad: number, decRad: number, b: BoundaryRecord): boolean {
+  const n = b.ra.length;
+  let inside = false;
+  let winding = 0;
+
+  for (let i = 0, j = n - 1; i < n; j = i++) {
+    const d1 = wrapAngle(b.ra[j] - raRad);
+    const d2 = wrapAngle(b.ra[i] - raRad);
+    winding += wrapAngle(b.ra[i] - b.ra[j]);
+
+    // The edge spans the point's meridian (and not the opposite one)
+    if ((d1 > 0) !== (d2 > 0) && Math.abs(d2 - d1) < Math.PI) {
+      const t = d1 / (d1 - d2);
+      if (b.dec[j] + t * (b.dec[i] - b.dec[j]) > decRad) inside = !inside;
+    }
+  }
+
+  // Edges going all the way round in RA enclose a pole
+  if (Math.abs(winding) > Math.PI && b.dec[0] > 0) inside = !inside;
+  return inside;
+}
+
+/**
+ * Wrap an angle difference to [−π, π].
+ */
+function wrapAngle(a: number): number {
+  return a - TWO_PI * Math.round(a / TWO_PI);
+}
@@ -0,0 +1,2588 @@
+// BoundaryData.ts — Auto-generated from VizieR VI/49 (d3-celestial constellations.bounds.json)
+// 89 IAU boundary polygons, 2482 overlay dashes
+
+import { BoundaryRecord } from './Types';
+
+// Polygons in B1875 coordinates for AstroMath.constellationAt()
+// Format: [abbr, [ra_rad...], [dec_rad...]]
+const RAW: [string, number[], number[]][] = [
+  ["And",[5.986482,5.986483,6.108653,6.108654,6.174104,6.174104,0.043636,0.043636,0.226896,0.226896,0.292345,0.292346,0.357795,0.436335,0.436335,0.534510,0.534510,0.658865,0.658864,0.523601,0.523602,0.368701,0.368702,0.187626,0.187626,0.222532,0.222531,0.037091,0.037090,0.017456,0.017455,0.000002,0.000002,6.217736,6.217737,6.152288,6.152288],[0.602139,0.916298,0.916299,0.872665,0.872665,0.837759,0.837758,0.802852,0.802853,0.837758,0.837759,0.872665,0.872666,0.872665,0.820305,0.820306,0.881392,0.881392,0.641410,0.641410,0.610865,0.610865,0.575960,0.575960,0.414516,0.414516,0.366519,0.366520,0.383973,0.383974,0.488694,0.488692,0.546871,0.546871,0.559960,0.559960,0.602139]],
+  ["Ant",[2.452190,2.452190,2.452190,2.879795,2.879795,2.836161,2.836161,2.770711,2.770711,2.683445,2.683445,2.552546,2.552546],[-0.418879,-0.641409,-0.693769,-0.693769,-0.610867,-0.610866,-0.543962,-0.543962,-0.509055,-0.509055,-0.462514,-0.462513,-0.418880]],
+  ["Aps",[3.577929,4.712397,4.712395,4.712394,4.581493,4.450594,4.450594,3.861544,3.577929,3.577928],[-1.439898,-1.439897,-1.308997,-1.178098,-1.178097,-1.178098,-1.221730,-1.221730,-1.221731,-1.308998]],
+  ["Aqr",[5.375614,5.375615,5.454155,5.585055,5.619964,5.619962,5.672322,5.672323,5.759589,5.759589,5.955938,5.955938,5.955938,6.239553,6.239553,6.239554,6.021389,5.724683,5.724684,5.585055,5.585056,5.375615,5.375614],[0.000001,0.034907,0.034907,0.034907,0.034907,0.047997,0.047998,0.030544,0.030544,0.034907,0.034907,0.000000,-0.069813,-0.069812,-0.122172,-0.445058,-0.445057,-0.445058,-0.157079,-0.157079,-0.261799,-0.261798,-0.157079]],
+  ["Aql",[4.865106,4.865106,4.939284,4.939285,4.885760,4.885759,4.939285,4.939284,4.974190,4.974190,5.192356,5.192355,5.273079,5.273079,5.314530,5.314529,5.375615,5.375614,5.375614,5.235990,5.235990,4.939286,4.939285,4.865106],[0.000000,0.034906,0.034907,0.109083,0.109083,0.209440,0.209440,0.322886,0.322886,0.282162,0.282161,0.274890,0.274889,0.148353,0.148353,0.034906,0.034907,0.000001,-0.157079,-0.157080,-0.210020,-0.210021,-0.069814,-0.069813]],
+  ["Ara",[4.298966,4.298965,4.668758,4.712392,4.712393,4.581492,4.581493,4.450594,4.406960,4.406960,4.385143,4.385143,4.341509,4.341508,4.298966],[-1.047199,-0.794126,-0.794124,-0.794125,-0.994838,-0.994838,-1.178097,-1.178098,-1.178098,-1.134464,-1.134465,-1.109739,-1.109739,-1.064652,-1.064651]],
+  ["Ari",[0.523600,0.436335,0.436336,0.501785,0.501785,0.632684,0.632685,0.711225,0.881395,0.881394,0.859575,0.859576],[0.173079,0.173079,0.436333,0.436334,0.475603,0.475604,0.535235,0.535235,0.535236,0.331613,0.331613,0.173079]],
+  ["Aur",[1.178099,1.178099,1.228278,1.228279,1.309000,1.309001,1.596980,1.596980,1.701699,1.701700,1.780240,1.780239,1.928592,1.928592,1.710425,1.710425,1.540255,1.540255,1.243550,1.243549,1.178100],[0.535235,0.628319,0.628320,0.916297,0.916299,0.977384,0.977384,0.942479,0.942477,0.872665,0.872665,0.776671,0.776671,0.619591,0.619593,0.488692,0.488693,0.497418,0.497419,0.523599,0.523600]],
+  ["Boo",[3.948809,3.534293,3.534293,3.534294,3.654284,3.654285,3.673918,3.673918,3.673919,3.774276,3.992443,3.992443,4.123342,4.123342,4.123341,4.040439,4.040438,3.974988,3.974988,3.948808],[0.139626,0.139626,0.261799,0.497418,0.497419,0.536688,0.536687,0.846483,0.968657,0.968656,0.968658,0.925024,0.925024,0.898844,0.698131,0.698131,0.575958,0.575958,0.453786,0.453785]],
+  ["Cae",[1.117013,1.117013,1.178098,1.178099,1.265364,1.265365,1.308997,1.308998,1.265364,1.230458,1.230458,1.199915,1.199915,1.117014],[-0.698131,-0.855211,-0.855210,-0.811578,-0.811578,-0.750492,-0.750492,-0.475602,-0.475602,-0.475602,-0.523598,-0.523599,-0.645771,-0.645771]],
+  ["Cam",[1.596980,1.309001,1.309000,1.228279,0.872667,0.872666,0.829034,0.829035,0.811580,0.811582,0.894485,0.894486,0.918483,0.918484,1.309003,1.309009,2.094405,2.094413,3.796087,3.796092,3.556108,3.556108,3.403394,3.010696,3.010697,2.792532,2.792532,2.399835,2.399833,2.085673,2.085672,1.832599,1.832600,1.596981],[0.977384,0.977384,0.916299,0.916297,0.916298,0.959932,0.959933,0.994839,0.994838,1.186825,1.186824,1.343904,1.343904,1.396265,1.396265,1.483529,1.483530,1.509709,1.509709,1.396263,1.396262,1.343903,1.343903,1.343902,1.396262,1.396263,1.431169,1.431170,1.282816,1.282817,1.047197,1.047197,1.082103,1.082104]],
+  ["Cnc",[2.421647,2.116213,2.074761,2.074763,2.044218,2.044218,2.044217,2.063853,2.063852,2.094398,2.094397,2.421647],[0.122173,0.122172,0.122173,0.174532,0.174532,0.235619,0.349065,0.349065,0.488692,0.488692,0.584685,0.584684]],
+  ["CVn",[3.141595,3.141595,3.163410,3.163410,3.534294,3.534293,3.673918,3.673918,3.654285,3.654284,3.534294,3.468844,3.468843,3.228860,3.228861],[0.593412,0.785398,0.785397,0.925023,0.925024,0.846483,0.846483,0.536687,0.536688,0.497419,0.497418,0.497418,0.558504,0.558504,0.593411]],
+  ["CMa",[1.601342,1.928591,1.928591,1.723514,1.601342,1.601343],[-0.191987,-0.191986,-0.575959,-0.575958,-0.575958,-0.475602]],
+  ["CMi",[2.116213,1.884958,1.884957,1.836962,1.836962,1.832597,1.832598,1.832597,1.963497,1.963497,2.044218,2.044218,2.074763,2.074761,2.116213],[-0.000000,0.000000,0.026180,0.026179,0.095994,0.095993,0.174533,0.218166,0.218166,0.235619,0.235619,0.174532,0.174532,0.122173,0.122172]],
+  ["Cap",[5.375614,5.235990,5.235990,5.235991,5.323256,5.585055,5.585056,5.724683,5.724684,5.585055,5.585056,5.375615],[-0.157079,-0.157080,-0.210020,-0.488692,-0.488691,-0.488692,-0.445059,-0.445058,-0.157079,-0.157079,-0.261799,-0.261798]],
+  ["Car",[2.945244,2.879795,2.312562,2.312562,2.212206,2.212206,2.138030,2.138030,2.094396,1.570797,1.570797,1.614432,1.614431,1.701697,1.701697,1.788962,1.788962,2.364920,2.364920,2.945244,2.945244],[-0.986111,-0.986111,-0.986112,-0.951205,-0.951205,-0.925025,-0.925024,-0.885754,-0.885755,-0.885754,-0.916297,-0.916298,-0.959930,-0.959932,-1.012290,-1.012291,-1.117011,-1.117010,-1.308998,-1.308997,-1.117012]],
+  ["Cas",[5.986483,5.986481,5.986481,6.065022,6.065022,6.174103,6.174104,0.087268,0.087267,0.894486,0.894485,0.811582,0.811580,0.637046,0.637048,0.499602,0.499602,0.445061,0.445061,0.357795,0.357795,0.292346,0.292345,0.226896,0.226896,0.043636,0.043636,6.174104,6.174104,6.108654,6.108653],[0.916298,0.981749,1.031199,1.031200,1.099558,1.099559,1.151919,1.151917,1.343904,1.343904,1.186824,1.186825,0.994838,0.994838,1.021019,1.021018,1.003566,1.003565,0.942479,0.942479,0.872666,0.872665,0.837759,0.837758,0.802853,0.802852,0.837758,0.837759,0.872665,0.872665,0.916299]],
+  ["Cen",[2.879795,2.879795,2.879795,2.945244,2.945244,3.097961,3.097961,3.359760,3.359760,3.534294,3.804820,3.804820,3.708828,3.708828,3.905178,3.905178,3.294310,3.294310,3.207044,3.207044],[-0.610867,-0.693769,-0.986111,-0.986111,-1.117012,-1.117012,-0.959932,-0.959932,-1.117012,-1.117011,-1.117011,-0.959932,-0.959933,-0.733038,-0.733039,-0.514873,-0.514873,-0.575960,-0.575960,-0.610866]],
+  ["Cep",[5.235989,5.235988,5.345073,5.345072,5.410522,5.410520,5.279621,5.279620,5.497785,5.497779,5.497778,6.021383,6.021379,6.270932,0.280230,0.737863,2.094423,2.094413,2.094405,1.309009,1.309003,0.918484,0.918483,0.894486,0.087267,0.087268,6.174104,6.174103,6.065022,6.065022,5.986481,5.986481,5.842491,5.842492,5.794493,5.794494,5.750862,5.750862,5.393069,5.393068,5.376488,5.376488],[1.038472,1.073377,1.073378,1.169372,1.169371,1.308997,1.308998,1.396264,1.396264,1.500983,1.503892,1.503893,1.535891,1.534374,1.530701,1.528129,1.535889,1.509709,1.483530,1.483529,1.396265,1.396265,1.343904,1.343904,1.343904,1.151917,1.151919,1.099559,1.099558,1.031200,1.031199,0.981749,0.981749,0.959931,0.959931,0.920661,0.920662,0.957023,0.957022,1.063197,1.063196,1.038471]],
+  ["Cet",[0.087267,0.087268,0.523601,0.523600,0.859576,0.859576,0.859576,0.693770,0.693771,0.436335,0.436335,6.239554,6.239553,0.087267],[0.000000,0.034907,0.034908,0.173079,0.173079,0.000001,-0.030543,-0.030542,-0.425569,-0.425569,-0.445058,-0.445058,-0.122172,-0.122173]],
+  ["Cha",[2.007125,3.577929,3.577928,2.945244,2.364920,2.007128],[-1.439897,-1.439898,-1.308998,-1.308997,-1.308998,-1.308997]],
+  ["Cir",[3.534294,3.534294,3.577928,3.577929,3.861544,3.861544,3.905178,3.905177,3.970628,3.970628,4.014260,4.014260,4.014259,3.940083,3.804820,3.804820],[-1.117011,-1.134465,-1.134466,-1.221731,-1.221730,-1.178098,-1.178097,-1.109739,-1.109740,-1.064651,-1.064651,-1.047198,-0.959932,-0.959932,-0.959932,-1.117011]],
+  ["Col",[1.308997,1.308998,1.601343,1.601342,1.723514,1.723513,1.570798],[-0.750492,-0.475602,-0.475602,-0.575958,-0.575958,-0.750491,-0.750492]],
+  ["Com",[3.106688,3.106688,3.141595,3.141595,3.228861,3.228860,3.468843,3.468844,3.534294,3.534293,3.359760,3.359759],[0.244344,0.506144,0.506145,0.593412,0.593411,0.558504,0.558504,0.497418,0.497418,0.261799,0.261798,0.244345]],
+  ["CrA",[4.668758,5.017825,5.017825,4.712392,4.668758],[-0.645773,-0.645772,-0.794125,-0.794125,-0.794124]],
+  ["CrB",[3.974988,3.974988,4.040438,4.040439,4.123341,4.276056,4.276058,4.232426,4.232426,4.197517],[0.453786,0.575958,0.575958,0.698131,0.698131,0.698131,0.471239,0.471238,0.453785,0.453784]],
+  ["Crv",[3.359761,3.097961,3.097960,3.294310,3.294310,3.359760],[-0.191987,-0.191987,-0.427607,-0.427606,-0.383973,-0.383973]],
+  ["Crt",[2.814345,2.814345,2.814344,2.836161,2.836161,3.097960,3.097961,3.097960,3.015059],[-0.104721,-0.191986,-0.331614,-0.331613,-0.427607,-0.427607,-0.191987,-0.104721,-0.104721]],
+  ["Cru",[3.097961,3.097961,3.359760,3.359760],[-0.959932,-1.117012,-1.117012,-0.959932]],
+  ["Cyg",[5.041820,5.041821,5.068001,5.068000,5.078910,5.078908,5.017823,5.017823,4.996004,4.996006,5.083273,5.083274,5.174904,5.174902,5.235989,5.376488,5.376488,5.393068,5.393069,5.750862,5.750862,5.750863,5.735589,5.735588,5.726862,5.726863,5.689775,5.689774,5.606873,5.475973,5.475973,5.148723,5.148724],[0.479966,0.523599,0.523599,0.637045,0.637045,0.759218,0.759218,0.829032,0.829032,0.968657,0.968658,1.012292,1.012292,1.038470,1.038472,1.038471,1.063196,1.063197,0.957022,0.957023,0.920662,0.767945,0.767946,0.763583,0.763582,0.628319,0.628318,0.488693,0.488694,0.488693,0.506145,0.506146,0.479966]],
+  ["Del",[5.375615,5.314529,5.314530,5.273079,5.273079,5.301438,5.301438,5.384343,5.384344,5.510879,5.510880,5.465064,5.465064,5.454155,5.454155],[0.034907,0.034906,0.148353,0.148353,0.274889,0.274890,0.357793,0.357792,0.340340,0.340339,0.206532,0.206532,0.104721,0.104721,0.034907]],
+  ["Dor",[1.003565,1.047199,1.047198,1.134465,1.134464,1.199913,1.199913,1.199913,1.723511,1.723511,1.570796,1.570797,1.439897,1.439897,1.308997,1.308998,1.178097,1.178098,1.117013,1.069014,1.069014,1.003565],[-0.927932,-0.927933,-0.986111,-0.986111,-1.029745,-1.029744,-1.178096,-1.221730,-1.221730,-1.117010,-1.117011,-1.064651,-1.064651,-1.003565,-1.003563,-0.942477,-0.942477,-0.855210,-0.855211,-0.855211,-0.890117,-0.890118]],
+  ["Dra",[2.399833,2.399835,2.792532,2.792532,3.010697,3.010696,3.403394,3.403394,3.665192,3.665194,4.101526,4.101524,4.328416,4.328415,4.581488,4.581486,4.712385,4.712380,5.497779,5.497785,5.279620,5.279621,5.410520,5.410522,5.345072,5.345073,5.235988,5.235989,5.174902,5.174904,5.083274,5.083273,4.996006,4.996004,4.773476,4.773476,4.450592,4.450590,4.123342,4.123342,3.992443,3.992443,3.774276,3.774277,3.534293,3.534293,3.141596,3.141596,2.967061,2.967062],[1.282816,1.431170,1.431169,1.396263,1.396262,1.343902,1.343903,1.221730,1.221729,1.151917,1.151916,1.221729,1.221730,1.308997,1.308996,1.396262,1.396262,1.500984,1.500983,1.396264,1.396264,1.308998,1.308997,1.169371,1.169372,1.073378,1.073377,1.038472,1.038470,1.012292,1.012292,0.968658,0.968657,0.829032,0.829031,0.881391,0.881390,0.898845,0.898844,0.925024,0.925024,0.968658,0.968656,1.099557,1.099557,1.117009,1.117011,1.160644,1.160643,1.282816]],
+  ["Equ",[5.454155,5.454155,5.465064,5.465064,5.510880,5.528334,5.528333,5.585055,5.585055],[0.034907,0.104721,0.104721,0.206532,0.206532,0.206532,0.218167,0.218167,0.034907]],
+  ["Eri",[0.938116,1.208644,1.221733,1.221734,1.330815,1.330814,1.287184,1.287183,1.265365,1.265364,1.230458,1.230458,1.199915,1.199915,1.117014,1.117013,1.012293,1.012294,0.894484,0.894483,0.785400,0.785399,0.698134,0.698134,0.632684,0.632683,0.567234,0.567234,0.349066,0.349067,0.414517,0.414516,0.479967,0.479966,0.610865,0.610866,0.785400,0.785399,0.916300,0.916299,0.981749,0.981749,0.693771,0.693770,0.859576,0.938116],[0.000000,0.000000,0.000000,-0.069812,-0.069812,-0.191985,-0.191986,-0.253073,-0.253073,-0.475602,-0.475602,-0.523598,-0.523599,-0.645771,-0.645771,-0.698131,-0.698131,-0.767944,-0.767944,-0.802850,-0.802851,-0.855210,-0.855210,-0.890118,-0.890118,-0.942478,-0.942478,-1.021018,-1.021017,-0.933751,-0.933751,-0.898843,-0.898843,-0.840666,-0.840666,-0.698131,-0.698131,-0.690860,-0.690859,-0.628317,-0.628317,-0.425569,-0.425569,-0.030542,-0.030543,-0.030543]],
+  ["For",[0.436335,0.693771,0.981749,0.981749,0.916299,0.916300,0.785399,0.785400,0.610866,0.436334,0.436335],[-0.425569,-0.425569,-0.425569,-0.628317,-0.628317,-0.690859,-0.690860,-0.698131,-0.698131,-0.698130,-0.445058]],
+  ["Gem",[1.651520,1.651519,1.627523,1.627522,1.540255,1.540254,1.540255,1.710425,1.710425,1.928592,2.028948,2.028948,2.094397,2.094398,2.063852,2.063853,2.044217,2.044218,1.963497,1.963497,1.832597,1.832598,1.815144,1.815143],[0.209440,0.305433,0.305433,0.375246,0.375246,0.398517,0.488693,0.488692,0.619593,0.619591,0.619592,0.584685,0.584685,0.488692,0.488692,0.349065,0.349065,0.235619,0.235619,0.218166,0.218166,0.174533,0.174533,0.209439]],
+  ["Gru",[5.585056,5.585055,5.585056,5.759588,5.759589,6.108654,6.108654,6.108654,6.021388],[-0.645771,-0.794125,-0.872665,-0.872664,-0.994836,-0.994837,-0.698132,-0.645772,-0.645771]],
+  ["Her",[4.258606,4.210608,4.210607,4.166977,4.166976,4.197518,4.197517,4.232426,4.232426,4.276058,4.276056,4.123341,4.123342,4.450590,4.450592,4.773476,4.773476,4.758206,4.758206,4.808385,4.808385,4.939285,4.939285,4.939284,4.939284,4.939285,4.885759,4.777841,4.777841,4.516041,4.516040,4.385142,4.385142],[0.069813,0.069812,0.279252,0.279252,0.383972,0.383972,0.453784,0.453785,0.471238,0.471239,0.698131,0.698131,0.898844,0.898845,0.881390,0.881391,0.829031,0.829031,0.523599,0.523599,0.453786,0.453786,0.445058,0.367973,0.322886,0.209440,0.209440,0.209439,0.250164,0.250163,0.223983,0.223983,0.069813]],
+  ["Hor",[1.117013,1.117013,1.069014,1.069014,1.003565,1.003565,0.916299,0.916299,0.837759,0.837759,0.567235,0.567234,0.567234,0.632683,0.632684,0.698134,0.698134,0.785399,0.785400,0.894483,0.894484,1.012294,1.012293],[-0.698131,-0.855211,-0.855211,-0.890117,-0.890118,-0.927932,-0.927933,-1.003564,-1.003564,-1.178096,-1.178097,-1.021018,-0.942478,-0.942478,-0.890118,-0.890118,-0.855210,-0.855210,-0.802851,-0.802850,-0.767944,-0.767944,-0.698131]],
+  ["Hya",[2.116213,2.116213,2.421647,2.508912,2.508912,2.508912,2.814345,2.814344,2.836161,2.836161,3.097960,3.294310,3.294310,3.359760,3.730644,3.730644,3.905178,3.905178,3.294310,3.294310,3.207044,3.207044,2.879795,2.836161,2.836161,2.770711,2.770711,2.683445,2.683445,2.552546,2.552546,2.452190,2.378012,2.378012,2.247112,2.247112,2.190391,2.190391,2.116213],[-0.000000,0.122172,0.122173,0.122173,-0.000001,-0.191987,-0.191986,-0.331614,-0.331613,-0.427607,-0.427607,-0.427606,-0.383973,-0.383973,-0.383974,-0.427606,-0.427606,-0.514873,-0.514873,-0.575960,-0.575960,-0.610866,-0.610867,-0.610866,-0.543962,-0.543962,-0.509055,-0.509055,-0.462514,-0.462513,-0.418880,-0.418879,-0.418879,-0.331613,-0.331613,-0.296707,-0.296707,-0.191987,-0.191987]],
+  ["Hyi",[1.199913,1.199913,1.199913,0.916298,0.916297,0.000003,0.000003,0.196351,0.196351,0.349067,0.349066,0.567234,0.567235,0.837759],[-1.178096,-1.221730,-1.308997,-1.308996,-1.439897,-1.439897,-1.308997,-1.308996,-1.326449,-1.326449,-1.021017,-1.021018,-1.178097,-1.178096]],
+  ["Ind",[5.585058,6.108654,6.108654,5.759590,5.759589,5.759588,5.585056,5.585055,5.323256,5.323256,5.323256,5.585057],[-1.308997,-1.308997,-1.178096,-1.178097,-0.994836,-0.872664,-0.872665,-0.794125,-0.794124,-0.994838,-1.047198,-1.047197]],
+  ["Lac",[5.726863,5.726862,5.735588,5.735589,5.750863,5.750862,5.794494,5.794493,5.842492,5.842491,5.986481,5.986483,5.986482,5.973392,5.973391,5.759589,5.759588],[0.628319,0.763582,0.763583,0.767946,0.767945,0.920662,0.920661,0.959931,0.959931,0.981749,0.981749,0.916298,0.602139,0.602139,0.610866,0.610865,0.628319]],
+  ["Leo",[2.814345,2.814345,2.508912,2.421647,2.421647,2.587452,2.587451,2.748896,2.748896,2.814345,2.814346,2.879795,2.879795,3.106688,3.106688,3.106688,3.015059,3.015059,3.015059,2.814345],[-0.000000,0.122172,0.122173,0.122173,0.584684,0.584685,0.497418,0.497418,0.410152,0.410152,0.445058,0.445057,0.506144,0.506144,0.244344,0.191985,0.191986,-0.000001,-0.104721,-0.104721]],
+  ["LMi",[2.421647,2.421646,2.508913,2.508912,2.661630,2.661630,2.823072,2.823071,2.879795,2.879795,2.879795,2.814346,2.814345,2.748896,2.748896,2.587451,2.587452],[0.584684,0.693768,0.693768,0.733038,0.733038,0.698131,0.698131,0.593412,0.593411,0.506144,0.445057,0.445058,0.410152,0.410152,0.497418,0.497418,0.584685]],
+  ["Lep",[1.265364,1.308998,1.601343,1.601342,1.527164,1.330814,1.287184,1.287183,1.265365],[-0.475602,-0.475602,-0.475602,-0.191987,-0.191985,-0.191985,-0.191986,-0.253073,-0.253073]],
+  ["Lib",[3.948808,3.839727,3.839727,3.730643,3.730644,3.730644,3.905178,3.905178,4.101527,4.101528,4.166977,4.166977,4.166977,3.948809],[-0.000001,-0.000000,-0.139627,-0.139627,-0.383974,-0.427606,-0.427606,-0.514873,-0.514872,-0.349066,-0.349066,-0.139627,-0.056724,-0.056725]],
+  ["Lup",[3.708828,3.804820,3.940083,3.940083,4.014260,4.014258,4.101528,4.101528,4.188793,4.188792,4.101527,3.905178,3.905178,3.708828],[-0.959933,-0.959932,-0.959932,-0.942478,-0.942478,-0.837759,-0.837758,-0.733038,-0.733039,-0.514873,-0.514872,-0.514873,-0.733039,-0.733038]],
+  ["Lyn",[1.928592,1.928592,1.780239,1.780240,1.701700,1.701699,1.596980,1.596980,1.596981,1.832600,1.832599,2.085672,2.203482,2.203482,2.399831,2.399831,2.508912,2.508913,2.421646,2.421647,2.094397,2.028948,2.028948],[0.619591,0.776671,0.776671,0.872665,0.872665,0.942477,0.942479,0.977384,1.082104,1.082103,1.047197,1.047197,1.047197,0.820304,0.820305,0.733038,0.733038,0.693768,0.693768,0.584684,0.584685,0.584685,0.619592]],
+  ["Lyr",[4.939285,4.939285,4.808385,4.808385,4.758206,4.758206,4.773476,4.996004,5.017823,5.017823,5.078908,5.078910,5.068000,5.068001,5.041821,5.041820,5.041820],[0.445058,0.453786,0.453786,0.523599,0.523599,0.829031,0.829031,0.829032,0.829032,0.759218,0.759218,0.637045,0.637045,0.523599,0.523599,0.479966,0.445060]],
+  ["Men",[2.007121,0.916293,0.916297,0.916298,1.199913,1.199913,1.723511,1.723510,2.007128,2.007125],[-1.483529,-1.483529,-1.439897,-1.308996,-1.308997,-1.221730,-1.221730,-1.308996,-1.308997,-1.439897]],
+  ["Mic",[5.323256,5.585055,5.585056,5.585055,5.323256],[-0.488691,-0.488692,-0.645771,-0.794125,-0.794124]],
+  ["Mon",[1.634068,1.634067,1.651520,1.651520,1.815143,1.815144,1.832598,1.832597,1.836962,1.836962,1.884957,1.884958,2.116213,2.116213,1.928591,1.601342,1.527164,1.527165,1.634066],[0.000000,0.174532,0.174532,0.209440,0.209439,0.174533,0.174533,0.095993,0.095994,0.026179,0.026180,0.000000,-0.000000,-0.191987,-0.191986,-0.191987,-0.191985,-0.069814,-0.069813]],
+  ["Mus",[2.945244,2.945244,3.577928,3.577929,3.577928,3.534294,3.534294,3.359760,3.097961],[-1.117012,-1.308997,-1.308998,-1.221731,-1.134466,-1.134465,-1.117011,-1.117012,-1.117012]],
+  ["Nor",[4.014260,4.298966,4.298965,4.298966,4.188793,4.101528,4.101528,4.014258,4.014260,3.940083,3.940083,4.014259],[-1.047198,-1.047199,-0.794126,-0.733039,-0.733039,-0.733038,-0.837758,-0.837759,-0.942478,-0.942478,-0.959932,-0.959932]],
+  ["Oct",[0.000003,0.916297,0.916293,2.007121,2.007125,3.577929,4.712397,4.712395,5.585058,6.108654,0.000003],[-1.439897,-1.439897,-1.483529,-1.483529,-1.439897,-1.439898,-1.439897,-1.308997,-1.308997,-1.308997,-1.308997]],
+  ["Oph",[4.258606,4.258606,4.385142,4.385142,4.516040,4.516041,4.777841,4.777841,4.885759,4.885760,4.777840,4.777841,4.823656,4.823655,4.777840,4.777840,4.668756,4.668757,4.703666,4.703665,4.625127,4.625126,4.603307,4.603307,4.494226,4.494225,4.607672,4.607671,4.385141,4.385143,4.258605,4.258607,4.286967,4.286967,4.258607,4.258606,4.166977,4.166977,4.258606],[-0.000001,0.069813,0.069813,0.223983,0.223983,0.250163,0.250164,0.209439,0.209440,0.109083,0.109084,0.078540,0.078539,0.052359,0.052360,-0.000001,0.000001,-0.069814,-0.069814,-0.174533,-0.174533,-0.203622,-0.203622,-0.174534,-0.174533,-0.279253,-0.279253,-0.523600,-0.523599,-0.429061,-0.429060,-0.335977,-0.335977,-0.318523,-0.318523,-0.139627,-0.139627,-0.056724,-0.056724]],
+  ["Ori",[1.208644,1.208643,1.300273,1.300274,1.396264,1.396264,1.466078,1.466079,1.509713,1.509714,1.492259,1.492259,1.540254,1.540255,1.627522,1.627523,1.651519,1.651520,1.651520,1.634067,1.634068,1.634066,1.527165,1.527164,1.330814,1.330815,1.221734,1.221733],[0.000000,0.270527,0.270526,0.279253,0.279253,0.270526,0.270526,0.218167,0.218167,0.314159,0.314159,0.398517,0.398517,0.375246,0.375246,0.305433,0.305433,0.209440,0.174532,0.174532,0.000000,-0.069813,-0.069814,-0.191985,-0.191985,-0.069812,-0.069812,0.000000]],
+  ["Pav",[4.712395,5.585058,5.585057,5.323256,5.323256,4.712393,4.581492,4.581493,4.712394],[-1.308997,-1.308997,-1.047197,-1.047198,-0.994838,-0.994838,-0.994838,-1.178097,-1.178098]],
+  ["Peg",[5.585055,5.585055,5.528333,5.528334,5.510880,5.510879,5.563239,5.563239,5.606872,5.606873,5.689774,5.689775,5.726863,5.759588,5.759589,5.973391,5.973392,5.986482,6.152288,6.152288,6.217737,6.217736,0.000002,0.000002,0.017455,0.017456,0.037090,0.037091,0.037091,0.000002,0.000001,6.239553,6.239552,5.955938,5.955938,5.759589,5.759589,5.672323,5.672322,5.619962,5.619964],[0.034907,0.218167,0.218167,0.206532,0.206532,0.340339,0.340340,0.410152,0.410153,0.488694,0.488693,0.628318,0.628319,0.628319,0.610865,0.610866,0.602139,0.602139,0.602139,0.559960,0.559960,0.546871,0.546871,0.488692,0.488694,0.383974,0.383973,0.366520,0.218167,0.218166,0.174533,0.174534,0.130901,0.130901,0.034907,0.034907,0.030544,0.030544,0.047998,0.047997,0.034907]],
+  ["Per",[0.711225,0.711225,0.671955,0.671956,0.658864,0.658865,0.534510,0.534510,0.436335,0.436335,0.357795,0.357795,0.445061,0.445061,0.499602,0.499602,0.637048,0.637046,0.811580,0.829035,0.829034,0.872666,0.872667,1.228279,1.228278,1.178099,1.178099,0.881395],[0.535235,0.593413,0.593412,0.641409,0.641410,0.881392,0.881392,0.820306,0.820305,0.872665,0.872666,0.942479,0.942479,1.003565,1.003566,1.021018,1.021019,0.994838,0.994838,0.994839,0.959933,0.959932,0.916298,0.916297,0.628320,0.628319,0.535235,0.535236]],
+  ["Phe",[6.108654,6.108654,6.108654,0.349066,0.349067,0.414517,0.414516,0.479967,0.479966,0.610865,0.610866,0.436334,6.265733],[-0.698132,-0.994837,-1.021017,-1.021017,-0.933751,-0.933751,-0.898843,-0.898843,-0.840666,-0.840666,-0.698131,-0.698130,-0.698131]],
+  ["Pic",[1.570798,1.308997,1.265365,1.265364,1.178099,1.178098,1.178097,1.308998,1.308997,1.439897,1.439897,1.570797,1.570796,1.723511,1.788962,1.788962,1.701697,1.701697,1.614431,1.614432,1.570797,1.570797],[-0.750492,-0.750492,-0.750492,-0.811578,-0.811578,-0.855210,-0.942477,-0.942477,-1.003563,-1.003565,-1.064651,-1.064651,-1.117011,-1.117010,-1.117011,-1.012291,-1.012290,-0.959932,-0.959930,-0.916298,-0.916297,-0.885754]],
+  ["Psc",[5.955938,5.955938,5.955938,6.239552,6.239553,0.000001,0.000002,0.037091,0.037091,0.222531,0.222532,0.187626,0.187626,0.368702,0.368702,0.436335,0.436336,0.436335,0.523600,0.523601,0.087268,0.087267,0.087267,6.239553,6.239553,5.955938],[0.000000,0.034907,0.130901,0.130901,0.174534,0.174533,0.218166,0.218167,0.366520,0.366519,0.414516,0.414516,0.575960,0.575960,0.488692,0.488693,0.436333,0.173079,0.173079,0.034908,0.034907,0.000000,-0.122173,-0.122172,-0.069812,-0.069813]],
+  ["PsA",[6.021389,5.724683,5.585056,5.585055,5.585056,6.021388],[-0.445057,-0.445058,-0.445059,-0.488692,-0.645771,-0.645771]],
+  ["Pup",[1.928591,1.928591,1.723514,1.723513,1.570798,1.570797,2.094396,2.094397,2.190390,2.190391,2.190391,2.190391,2.116213],[-0.191986,-0.575959,-0.575958,-0.750491,-0.750492,-0.885754,-0.885755,-0.750492,-0.750492,-0.641408,-0.296707,-0.191987,-0.191987]],
+  ["Pyx",[2.190391,2.247112,2.247112,2.378012,2.378012,2.452190,2.452190,2.190391],[-0.296707,-0.296707,-0.331613,-0.331613,-0.418879,-0.418879,-0.641409,-0.641408]],
+  ["Ret",[0.837759,1.199913,1.199913,1.134464,1.134465,1.047198,1.047199,1.003565,0.916299,0.916299,0.837759],[-1.178096,-1.178096,-1.029744,-1.029745,-0.986111,-0.986111,-0.927933,-0.927932,-0.927933,-1.003564,-1.003564]],
+  ["Sge",[4.939284,4.939284,5.039639,5.039640,5.192356,5.192356,5.301439,5.301438,5.301438,5.273079,5.192355,5.192356,4.974190,4.974190],[0.322886,0.367973,0.367973,0.334522,0.334521,0.370882,0.370884,0.357793,0.274890,0.274889,0.274890,0.282161,0.282162,0.322886]],
+  ["Sgr",[4.939286,4.939285,4.777840,4.607672,4.607671,4.668757,4.668758,5.017825,5.017825,5.323256,5.323256,5.235991,5.235990],[-0.210021,-0.279252,-0.279253,-0.279253,-0.523600,-0.523599,-0.645773,-0.645772,-0.794125,-0.794124,-0.488691,-0.488692,-0.210020]],
+  ["Sco",[4.166977,4.258606,4.258607,4.286967,4.286967,4.258607,4.258605,4.385143,4.385141,4.607671,4.668757,4.668758,4.668758,4.298965,4.298966,4.188793,4.188792,4.101527,4.101528,4.166977],[-0.139627,-0.139627,-0.318523,-0.318523,-0.335977,-0.335977,-0.429060,-0.429061,-0.523599,-0.523600,-0.523599,-0.645773,-0.794124,-0.794126,-0.733039,-0.733039,-0.514873,-0.514872,-0.349066,-0.349066]],
+  ["Scl",[6.021389,6.239554,0.436335,0.436334,6.265733,6.108654,6.108654,6.021388],[-0.445057,-0.445058,-0.445058,-0.698130,-0.698131,-0.698132,-0.645772,-0.645771]],
+  ["Sct",[4.777840,4.939285,4.939286,4.939285,4.865106,4.777840],[-0.279253,-0.279252,-0.210021,-0.069814,-0.069813,-0.069814]],
+  ["Ser",[3.948808,3.948809,3.948808,3.974988,4.197517,4.197518,4.166976,4.166977,4.210607,4.210608,4.258606,4.258606,4.258606,4.166977,3.948809],[-0.000001,0.139626,0.453785,0.453786,0.453784,0.383972,0.383972,0.279252,0.279252,0.069812,0.069813,-0.000001,-0.056724,-0.056724,-0.056725]],
+  ["Ser",[4.777840,4.777840,4.823655,4.823656,4.777841,4.777840,4.885760,4.939285,4.939284,4.865106,4.865106,4.865106,4.777840,4.777840,4.607672,4.494225,4.494226,4.603307,4.603307,4.625126,4.625127,4.703665,4.703666,4.668757,4.668756],[-0.000001,0.052360,0.052359,0.078539,0.078540,0.109084,0.109083,0.109083,0.034907,0.034906,0.000000,-0.069813,-0.069814,-0.279253,-0.279253,-0.279253,-0.174533,-0.174534,-0.203622,-0.203622,-0.174533,-0.174533,-0.069814,-0.069814,0.000001]],
+  ["Sex",[2.508912,2.508912,2.814345,2.814345,2.814345,2.814345,2.508912],[-0.000001,0.122173,0.122172,-0.000000,-0.104721,-0.191986,-0.191987]],
+  ["Tau",[0.859576,0.859576,0.859576,0.859575,0.881394,0.881395,1.178099,1.178100,1.243549,1.243550,1.540255,1.540255,1.540254,1.492259,1.492259,1.509714,1.509713,1.466079,1.466078,1.396264,1.396264,1.300274,1.300273,1.208643,1.208644,0.938116,0.938116],[-0.030543,0.000001,0.173079,0.331613,0.331613,0.535236,0.535235,0.523600,0.523599,0.497419,0.497418,0.488693,0.398517,0.398517,0.314159,0.314159,0.218167,0.218167,0.270526,0.270526,0.279253,0.279253,0.270526,0.270527,0.000000,0.000000,-0.030543]],
+  ["Tel",[5.323256,5.323256,5.017825,4.712392,4.712393],[-0.994838,-0.794124,-0.794125,-0.794125,-0.994838]],
+  ["Tri",[0.436336,0.436335,0.368702,0.368702,0.368701,0.523602,0.523601,0.658864,0.671956,0.671955,0.711225,0.711225,0.632685,0.632684,0.501785,0.501785],[0.436333,0.488693,0.488692,0.575960,0.610865,0.610865,0.641410,0.641410,0.641409,0.593412,0.593413,0.535235,0.535235,0.475604,0.475603,0.436334]],
+  ["TrA",[3.861544,3.861544,3.905178,3.905177,3.970628,3.970628,4.014260,4.014260,4.298966,4.298966,4.341508,4.341509,4.385143,4.385143,4.406960,4.406960,4.450594,4.450594],[-1.221730,-1.178098,-1.178097,-1.109739,-1.109740,-1.064651,-1.064651,-1.047198,-1.047199,-1.064651,-1.064652,-1.109739,-1.109739,-1.134465,-1.134464,-1.178098,-1.178098,-1.221730]],
+  ["Tuc",[6.108654,0.000003,0.196351,0.196351,0.349067,0.349066,6.108654,6.108654,5.759589,5.759590,6.108654],[-1.308997,-1.308997,-1.308996,-1.326449,-1.326449,-1.021017,-1.021017,-0.994837,-0.994836,-1.178097,-1.178096]],
+  ["UMa",[2.508912,2.399831,2.399831,2.203482,2.203482,2.085672,2.085673,2.399833,2.967062,2.967061,3.141596,3.141596,3.534293,3.534293,3.774277,3.774276,3.673919,3.673918,3.534293,3.534294,3.163410,3.163410,3.141595,3.141595,3.141595,3.106688,2.879795,2.879795,2.823071,2.823072,2.661630,2.661630],[0.733038,0.733038,0.820305,0.820304,1.047197,1.047197,1.282817,1.282816,1.282816,1.160643,1.160644,1.117011,1.117009,1.099557,1.099557,0.968656,0.968657,0.846483,0.846483,0.925024,0.925023,0.785397,0.785398,0.593412,0.506145,0.506144,0.506144,0.593411,0.593412,0.698131,0.698131,0.733038]],
+  ["UMi",[3.403394,3.403394,3.665192,3.665194,4.101526,4.101524,4.328416,4.328415,4.581488,4.581486,4.712385,4.712380,5.497779,5.497778,6.021383,6.021379,6.270932,0.280230,0.737863,2.094423,2.094413,3.796087,3.796092,3.556108,3.556108],[1.343903,1.221730,1.221729,1.151917,1.151916,1.221729,1.221730,1.308997,1.308996,1.396262,1.396262,1.500984,1.500983,1.503892,1.503893,1.535891,1.534374,1.530701,1.528129,1.535889,1.509709,1.509709,1.396263,1.396262,1.343903]],
+  ["Vel",[2.879795,2.879795,2.452190,2.452190,2.190391,2.190390,2.094397,2.094396,2.138030,2.138030,2.212206,2.212206,2.312562,2.312562],[-0.986111,-0.693769,-0.693769,-0.641409,-0.641408,-0.750492,-0.750492,-0.885755,-0.885754,-0.925024,-0.925025,-0.951205,-0.951205,-0.986112]],
+  ["Vir",[3.015059,3.015059,3.106688,3.106688,3.359759,3.359760,3.534293,3.534293,3.948809,3.948808,3.839727,3.839727,3.730643,3.730644,3.359760,3.359761,3.097961,3.097960,3.015059],[-0.000001,0.191986,0.191985,0.244344,0.244345,0.261798,0.261799,0.139626,0.139626,-0.000001,-0.000000,-0.139627,-0.139627,-0.383974,-0.383973,-0.191987,-0.191987,-0.104721,-0.104721]],
+  ["Vol",[1.723511,1.723511,1.723510,2.007128,2.364920,2.364920,1.788962],[-1.117010,-1.221730,-1.308996,-1.308997,-1.308998,-1.117010,-1.117011]],
+  ["Vul",[4.939284,4.939285,5.041820,5.041820,5.148724,5.148723,5.475973,5.475973,5.606873,5.606872,5.563239,5.563239,5.510879,5.384344,5.384343,5.301438,5.301439,5.192356,5.192356,5.039640,5.039639],[0.367973,0.445058,0.445060,0.479966,0.479966,0.506146,0.506145,0.488693,0.488694,0.410153,0.410152,0.340340,0.340339,0.340340,0.357792,0.357793,0.370884,0.370882,0.334521,0.334522,0.367973]],
+];
+
+export const BOUNDARIES: BoundaryRecord[] = RAW.map(b => ({
+  abbr: b[0], ra: b[1], dec: b[2],
+}));
+
+// Dashed overlay, J2000: [ra1, dec1, ra2, dec2] per dash (radians)
+export const BOUNDARY_DASHES: number[] = [
+  6.012054,0.613801,6.011964,0.631254,
+  6.011872,0.648707,6.011778,0.666160,
+  6.011681,0.683613,6.011581,0.701067,
+  6.011478,0.718520,6.011372,0.735973,
+  6.011263,0.753426,6.011150,0.770879,
+  6.011033,0.788332,6.010912,0.805785,
+  6.010786,0.823238,6.010656,0.840691,
+  6.010520,0.858144,6.010379,0.875598,
+  6.010232,0.893051,6.010078,0.910504,
+  6.009917,0.927957,6.040935,0.928056,
+  6.071957,0.928145,6.102982,0.928222,
+  6.134010,0.928288,6.134088,0.913744,
+  6.134162,0.899199,6.134234,0.884655,
+  6.134234,0.884655,6.167437,0.884713,
+  6.200642,0.884758,6.200691,0.867305,
+  6.200738,0.849851,6.226540,0.849877,
+  6.252342,0.849895,6.278145,0.849905,
+  0.020763,0.849907,0.046566,0.849900,
+  0.072368,0.849886,0.072341,0.832433,
+  0.072314,0.814980,0.098829,0.814957,
+  0.125343,0.814926,0.151855,0.814887,
+  0.178367,0.814839,0.204877,0.814783,
+  0.231385,0.814719,0.257892,0.814646,
+  0.257892,0.814646,0.258001,0.832099,
+  0.258115,0.849551,0.280221,0.849485,
+  0.302326,0.849413,0.324429,0.849335,
+  0.324429,0.849335,0.324578,0.866787,
+  0.324734,0.884240,0.357916,0.884112,
+  0.391092,0.883973,0.417628,0.883851,
+  0.444161,0.883722,0.470689,0.883585,
+  0.470689,0.883585,0.470464,0.866132,
+  0.470249,0.848680,0.470042,0.831227,
+  0.470042,0.831227,0.494875,0.831093,
+  0.519705,0.830952,0.544531,0.830805,
+  0.569353,0.830651,0.569643,0.851012,
+  0.569946,0.871373,0.570265,0.891734,
+  0.570265,0.891734,0.595450,0.891571,
+  0.620629,0.891402,0.645803,0.891227,
+  0.670971,0.891045,0.696133,0.890858,
+  0.696133,0.890858,0.695812,0.873718,
+  0.695503,0.856577,0.695206,0.839437,
+  0.694921,0.822296,0.694645,0.805156,
+  0.694380,0.788015,0.694123,0.770874,
+  0.693875,0.753734,0.693635,0.736593,
+  0.693402,0.719452,0.693176,0.702312,
+  0.692956,0.685171,0.692742,0.668030,
+  0.692534,0.650889,0.669828,0.651059,
+  0.647119,0.651223,0.624408,0.651382,
+  0.601693,0.651537,0.578976,0.651686,
+  0.556256,0.651830,0.556107,0.636558,
+  0.555962,0.621287,0.533669,0.621423,
+  0.511374,0.621554,0.489077,0.621679,
+  0.466778,0.621800,0.444477,0.621914,
+  0.422174,0.622024,0.399869,0.622128,
+  0.399869,0.622128,0.399751,0.604675,
+  0.399635,0.587223,0.379366,0.587313,
+  0.359095,0.587398,0.338823,0.587478,
+  0.318551,0.587553,0.298277,0.587624,
+  0.278002,0.587690,0.257727,0.587752,
+  0.237450,0.587808,0.217173,0.587860,
+  0.217173,0.587860,0.217111,0.569922,
+  0.217050,0.551984,0.216990,0.534046,
+  0.216932,0.516108,0.216875,0.498170,
+  0.216819,0.480231,0.216764,0.462293,
+  0.216710,0.444355,0.216656,0.426417,
+  0.216656,0.426417,0.234202,0.426373,
+  0.251748,0.426325,0.251693,0.410326,
+  0.251639,0.394327,0.251586,0.378328,
+  0.251586,0.378328,0.232956,0.378379,
+  0.214326,0.378426,0.195695,0.378469,
+  0.177064,0.378508,0.158433,0.378542,
+  0.139801,0.378573,0.121170,0.378599,
+  0.102538,0.378621,0.083906,0.378639,
+  0.065274,0.378653,0.065286,0.396106,
+  0.065286,0.396106,0.045553,0.396116,
+  0.045553,0.396116,0.045561,0.413570,
+  0.045569,0.431023,0.045577,0.448476,
+  0.045585,0.465930,0.045593,0.483383,
+  0.045602,0.500836,0.028033,0.500840,
+  0.028033,0.500840,0.028038,0.520233,
+  0.028043,0.539626,0.028047,0.559018,
+  0.028047,0.559018,0.006066,0.559019,
+  6.267270,0.559014,6.245289,0.559003,
+  6.245289,0.559003,6.245279,0.572093,
+  6.245279,0.572093,6.223293,0.572076,
+  6.201309,0.572053,6.179324,0.572025,
+  6.179324,0.572025,6.179281,0.593114,
+  6.179237,0.614204,6.158337,0.614172,
+  6.137437,0.614134,6.116538,0.614092,
+  6.095639,0.614044,6.074741,0.613991,
+  6.053845,0.613932,6.032949,0.613869,
+  2.476697,-0.428347,2.476539,-0.445464,
+  2.476378,-0.462582,2.476214,-0.479699,
+  2.476048,-0.496816,2.475878,-0.513933,
+  2.475705,-0.531050,2.475528,-0.548167,
+  2.475348,-0.565284,2.475163,-0.582401,
+  2.474975,-0.599517,2.474782,-0.616634,
+  2.474584,-0.633751,2.474381,-0.650868,
+  2.474381,-0.650868,2.474169,-0.668321,
+  2.473951,-0.685774,2.473727,-0.703226,
+  2.473727,-0.703226,2.496412,-0.703396,
+  2.519101,-0.703561,2.541793,-0.703721,
+  2.564488,-0.703876,2.587186,-0.704026,
+  2.609887,-0.704170,2.632591,-0.704309,
+  2.655297,-0.704443,2.678006,-0.704572,
+  2.700717,-0.704694,2.723431,-0.704812,
+  2.746147,-0.704923,2.768866,-0.705029,
+  2.791586,-0.705129,2.814308,-0.705224,
+  2.837032,-0.705312,2.859758,-0.705395,
+  2.882485,-0.705472,2.905214,-0.705542,
+  2.905214,-0.705542,2.905298,-0.688962,
+  2.905380,-0.672382,2.905460,-0.655802,
+  2.905538,-0.639221,2.905614,-0.622641,
+  2.905614,-0.622641,2.883614,-0.622572,
+  2.861616,-0.622498,2.861703,-0.605772,
+  2.861789,-0.589046,2.861872,-0.572320,
+  2.861954,-0.555594,2.839982,-0.555515,
+  2.818011,-0.555430,2.796042,-0.555339,
+  2.796042,-0.555339,2.796143,-0.537886,
+  2.796243,-0.520433,2.774286,-0.520337,
+  2.752331,-0.520236,2.730377,-0.520129,
+  2.708425,-0.520017,2.708531,-0.504504,
+  2.708636,-0.488990,2.708739,-0.473476,
+  2.708739,-0.473476,2.689936,-0.473376,
+  2.671134,-0.473272,2.652333,-0.473164,
+  2.633533,-0.473053,2.614735,-0.472938,
+  2.595937,-0.472819,2.577141,-0.472696,
+  2.577141,-0.472696,2.577321,-0.450881,
+  2.577497,-0.429065,2.557334,-0.428929,
+  2.537173,-0.428790,2.517013,-0.428646,
+  2.496854,-0.428499,2.476697,-0.428347,
+  3.649677,-1.450719,3.803431,-1.449789,
+  3.955783,-1.448649,4.106513,-1.447327,
+  4.255463,-1.445855,4.402531,-1.444268,
+  4.547671,-1.442601,4.690886,-1.440889,
+  4.832223,-1.439169,4.821949,-1.422869,
+  4.813701,-1.406556,4.806932,-1.390235,
+  4.801274,-1.373907,4.796473,-1.357574,
+  4.792345,-1.341236,4.788757,-1.324895,
+  4.785607,-1.308552,4.782447,-1.289871,
+  4.779671,-1.271188,4.777212,-1.252503,
+  4.775016,-1.233817,4.773043,-1.215129,
+  4.771259,-1.196440,4.769638,-1.177750,
+  4.769638,-1.177750,4.726035,-1.178280,
+  4.682376,-1.178809,4.638661,-1.179338,
+  4.638661,-1.179338,4.594891,-1.179865,
+  4.551064,-1.180389,4.507182,-1.180909,
+  4.507182,-1.180909,4.509061,-1.202714,
+  4.511165,-1.224518,4.461688,-1.225097,
+  4.412131,-1.225668,4.362495,-1.226231,
+  4.312781,-1.226783,4.262990,-1.227323,
+  4.213123,-1.227849,4.163182,-1.228361,
+  4.113170,-1.228857,4.063087,-1.229336,
+  4.012936,-1.229797,3.962720,-1.230238,
+  3.912442,-1.230658,3.863969,-1.231042,
+  3.815444,-1.231405,3.766869,-1.231746,
+  3.718247,-1.232064,3.669582,-1.232358,
+  3.620876,-1.232628,3.621758,-1.250079,
+  3.622738,-1.267530,3.623834,-1.284981,
+  3.625068,-1.302431,3.626470,-1.319881,
+  3.626470,-1.319881,3.627969,-1.336239,
+  3.629689,-1.352597,3.631682,-1.368955,
+  3.634022,-1.385311,3.636809,-1.401666,
+  3.640187,-1.418020,3.644367,-1.434371,
+  5.403518,0.007613,5.403354,0.025066,
+  5.403189,0.042518,5.422828,0.042702,
+  5.442469,0.042884,5.462109,0.043062,
+  5.481749,0.043237,5.500455,0.043401,
+  5.519160,0.043562,5.537866,0.043720,
+  5.556572,0.043875,5.575278,0.044027,
+  5.593985,0.044176,5.612691,0.044321,
+  5.612691,0.044321,5.630151,0.044453,
+  5.647611,0.044583,5.647514,0.057673,
+  5.647514,0.057673,5.664976,0.057800,
+  5.682438,0.057924,5.699900,0.058044,
+  5.699900,0.058044,5.700020,0.040591,
+  5.700020,0.040591,5.717479,0.040709,
+  5.734938,0.040823,5.752398,0.040935,
+  5.769857,0.041043,5.787316,0.041148,
+  5.787316,0.041148,5.787290,0.045511,
+  5.787290,0.045511,5.805147,0.045615,
+  5.823005,0.045716,5.840862,0.045813,
+  5.858720,0.045907,5.876577,0.045997,
+  5.894435,0.046084,5.912293,0.046167,
+  5.930151,0.046247,5.948009,0.046323,
+  5.965867,0.046395,5.983725,0.046464,
+  5.983725,0.046464,5.983791,0.029011,
+  5.983856,0.011558,5.983921,-0.005896,
+  5.983987,-0.023349,5.984052,-0.040802,
+  5.984118,-0.058256,6.001831,-0.058191,
+  6.019543,-0.058130,6.037256,-0.058073,
+  6.054968,-0.058019,6.072681,-0.057970,
+  6.090393,-0.057923,6.108105,-0.057881,
+  6.125818,-0.057842,6.143530,-0.057807,
+  6.161242,-0.057776,6.178955,-0.057749,
+  6.196667,-0.057725,6.214379,-0.057706,
+  6.232091,-0.057690,6.249804,-0.057678,
+  6.267516,-0.057669,6.267522,-0.075122,
+  6.267529,-0.092576,6.267535,-0.110029,
+  6.267535,-0.110029,6.267541,-0.127023,
+  6.267547,-0.144017,6.267554,-0.161011,
+  6.267560,-0.178005,6.267566,-0.194999,
+  6.267573,-0.211993,6.267579,-0.228987,
+  6.267586,-0.245981,6.267592,-0.262975,
+  6.267599,-0.279969,6.267606,-0.296963,
+  6.267613,-0.313957,6.267619,-0.330951,
+  6.267626,-0.347945,6.267633,-0.364939,
+  6.267640,-0.381933,6.267648,-0.398927,
+  6.267655,-0.415921,6.267662,-0.432915,
+  6.267662,-0.432915,6.247942,-0.432924,
+  6.228221,-0.432939,6.208501,-0.432957,
+  6.188780,-0.432981,6.169059,-0.433009,
+  6.149337,-0.433042,6.129616,-0.433080,
+  6.109894,-0.433123,6.090171,-0.433170,
+  6.070448,-0.433222,6.050725,-0.433278,
+  6.050725,-0.433278,6.031054,-0.433339,
+  6.011382,-0.433404,5.991709,-0.433474,
+  5.972036,-0.433549,5.952362,-0.433628,
+  5.932687,-0.433711,5.913012,-0.433799,
+  5.893336,-0.433891,5.873659,-0.433988,
+  5.853981,-0.434089,5.834302,-0.434194,
+  5.814623,-0.434304,5.794942,-0.434417,
+  5.775260,-0.434535,5.755578,-0.434657,
+  5.755578,-0.434657,5.755441,-0.416659,
+  5.755307,-0.398660,5.755174,-0.380662,
+  5.755044,-0.362664,5.754915,-0.344666,
+  5.754788,-0.326667,5.754663,-0.308669,
+  5.754539,-0.290671,5.754416,-0.272672,
+  5.754294,-0.254674,5.754174,-0.236676,
+  5.754055,-0.218678,5.753936,-0.200679,
+  5.753819,-0.182681,5.753702,-0.164683,
+  5.753586,-0.146684,5.736160,-0.146796,
+  5.718734,-0.146910,5.701308,-0.147028,
+  5.683882,-0.147148,5.666455,-0.147272,
+  5.649028,-0.147398,5.631600,-0.147528,
+  5.614173,-0.147660,5.614310,-0.165113,
+  5.614449,-0.182566,5.614588,-0.200018,
+  5.614728,-0.217471,5.614870,-0.234924,
+  5.615012,-0.252376,5.597602,-0.252511,
+  5.580192,-0.252649,5.562780,-0.252790,
+  5.545369,-0.252933,5.527956,-0.253080,
+  5.510543,-0.253228,5.493130,-0.253380,
+  5.475715,-0.253534,5.458300,-0.253690,
+  5.440884,-0.253849,5.423468,-0.254010,
+  5.406051,-0.254174,5.405875,-0.236722,
+  5.405701,-0.219269,5.405528,-0.201817,
+  5.405356,-0.184364,5.405186,-0.166912,
+  5.405016,-0.149460,5.404847,-0.132007,
+  5.404680,-0.114555,5.404513,-0.097102,
+  5.404346,-0.079649,5.404180,-0.062197,
+  5.404014,-0.044744,5.403849,-0.027292,
+  5.403684,-0.009839,5.403518,0.007613,
+  4.893034,0.002016,4.892825,0.019467,
+  4.892615,0.036919,4.911160,0.037141,
+  4.929705,0.037362,4.948250,0.037583,
+  4.966795,0.037802,4.966576,0.056345,
+  4.966357,0.074888,4.966136,0.093431,
+  4.965916,0.111973,4.948070,0.111762,
+  4.930224,0.111551,4.912379,0.111338,
+  4.912379,0.111338,4.912177,0.128063,
+  4.911973,0.144788,4.911768,0.161513,
+  4.911562,0.178238,4.911355,0.194963,
+  4.911147,0.211687,4.928997,0.211900,
+  4.946848,0.212112,4.964699,0.212323,
+  4.964699,0.212323,4.964464,0.231229,
+  4.964228,0.250135,4.963989,0.269042,
+  4.963747,0.287948,4.963503,0.306854,
+  4.963256,0.325760,4.980725,0.325966,
+  4.998195,0.326171,4.998459,0.305810,
+  4.998719,0.285450,5.016916,0.285662,
+  5.035114,0.285873,5.053314,0.286083,
+  5.071514,0.286292,5.089716,0.286499,
+  5.107919,0.286704,5.126123,0.286908,
+  5.144328,0.287111,5.162534,0.287312,
+  5.180741,0.287511,5.198950,0.287709,
+  5.217159,0.287904,5.217243,0.280633,
+  5.217243,0.280633,5.237456,0.280848,
+  5.257671,0.281061,5.277887,0.281271,
+  5.298104,0.281478,5.298303,0.263402,
+  5.298500,0.245327,5.298695,0.227251,
+  5.298888,0.209176,5.299080,0.191100,
+  5.299271,0.173024,5.299460,0.154949,
+  5.299460,0.154949,5.320206,0.155159,
+  5.340952,0.155366,5.341116,0.139160,
+  5.341279,0.122954,5.341442,0.106748,
+  5.341604,0.090542,5.341766,0.074336,
+  5.341927,0.058130,5.342088,0.041925,
+  5.342088,0.041925,5.362455,0.042125,
+  5.382822,0.042323,5.403189,0.042518,
+  5.405016,-0.149460,5.387584,-0.149626,
+  5.370152,-0.149794,5.352719,-0.149965,
+  5.335286,-0.150138,5.317852,-0.150313,
+  5.300418,-0.150490,5.282983,-0.150669,
+  5.265548,-0.150851,5.265737,-0.168496,
+  5.265928,-0.186142,5.266119,-0.203788,
+  5.266119,-0.203788,5.248689,-0.203971,
+  5.231259,-0.204156,5.213828,-0.204342,
+  5.196396,-0.204530,5.178964,-0.204720,
+  5.161531,-0.204912,5.144097,-0.205105,
+  5.126663,-0.205299,5.109228,-0.205495,
+  5.091792,-0.205693,5.074356,-0.205891,
+  5.056919,-0.206091,5.039481,-0.206292,
+  5.022042,-0.206495,5.004603,-0.206698,
+  4.987163,-0.206902,4.969722,-0.207108,
+  4.969722,-0.207108,4.969507,-0.189583,
+  4.969293,-0.172059,4.969081,-0.154534,
+  4.968869,-0.137009,4.968659,-0.119485,
+  4.968449,-0.101960,4.968241,-0.084435,
+  4.968033,-0.066911,4.949493,-0.067130,
+  4.930953,-0.067350,4.912412,-0.067570,
+  4.893872,-0.067792,4.893662,-0.050340,
+  4.893452,-0.032888,4.893243,-0.015436,
+  4.346475,-1.051814,4.345678,-1.033742,
+  4.344928,-1.015669,4.344220,-0.997597,
+  4.343551,-0.979524,4.342917,-0.961451,
+  4.342314,-0.943378,4.341742,-0.925304,
+  4.341195,-0.907231,4.340674,-0.889157,
+  4.340175,-0.871083,4.339698,-0.853009,
+  4.339239,-0.834935,4.338799,-0.816861,
+  4.338375,-0.798787,4.363139,-0.798508,
+  4.387896,-0.798226,4.412645,-0.797943,
+  4.437387,-0.797657,4.462122,-0.797368,
+  4.486850,-0.797078,4.511570,-0.796786,
+  4.536282,-0.796493,4.560987,-0.796198,
+  4.585685,-0.795902,4.610375,-0.795605,
+  4.635058,-0.795307,4.659733,-0.795008,
+  4.684401,-0.794709,4.709061,-0.794409,
+  4.709061,-0.794409,4.730878,-0.794145,
+  4.752689,-0.793880,4.753109,-0.810604,
+  4.753545,-0.827327,4.753997,-0.844051,
+  4.754466,-0.860774,4.754954,-0.877497,
+  4.755462,-0.894220,4.755991,-0.910943,
+  4.756544,-0.927666,4.757122,-0.944388,
+  4.757727,-0.961111,4.758362,-0.977833,
+  4.759029,-0.994555,4.726317,-0.994952,
+  4.693584,-0.995350,4.660831,-0.995747,
+  4.628058,-0.996143,4.628828,-1.014464,
+  4.629646,-1.032785,4.630514,-1.051106,
+  4.631441,-1.069426,4.632431,-1.087746,
+  4.633493,-1.106066,4.634636,-1.124385,
+  4.635870,-1.142703,4.637206,-1.161021,
+  4.507182,-1.180909,4.463243,-1.181424,
+  4.463243,-1.181424,4.462109,-1.166886,
+  4.461049,-1.152347,4.460056,-1.137808,
+  4.460056,-1.137808,4.438084,-1.138065,
+  4.438084,-1.138065,4.436541,-1.113347,
+  4.436541,-1.113347,4.392580,-1.113852,
+  4.392580,-1.113852,4.391727,-1.098828,
+  4.390923,-1.083803,4.390163,-1.068779,
+  4.390163,-1.068779,4.347294,-1.069262,
+  4.347294,-1.069262,4.346475,-1.051814,
+  0.552662,0.183511,0.535176,0.183618,
+  0.517690,0.183722,0.500204,0.183822,
+  0.482717,0.183920,0.465230,0.184014,
+  0.465230,0.184014,0.465326,0.201564,
+  0.465423,0.219114,0.465521,0.236664,
+  0.465620,0.254214,0.465719,0.271764,
+  0.465820,0.289314,0.465922,0.306864,
+  0.466024,0.324414,0.466128,0.341963,
+  0.466234,0.359513,0.466340,0.377063,
+  0.466449,0.394613,0.466558,0.412163,
+  0.466670,0.429713,0.466783,0.447263,
+  0.466783,0.447263,0.488712,0.447145,
+  0.510639,0.447022,0.532565,0.446893,
+  0.532565,0.446893,0.532711,0.466527,
+  0.532859,0.486161,0.551662,0.486047,
+  0.570463,0.485929,0.589262,0.485807,
+  0.608061,0.485682,0.626858,0.485553,
+  0.645654,0.485421,0.664449,0.485285,
+  0.664449,0.485285,0.664637,0.505162,
+  0.664829,0.525038,0.665026,0.544914,
+  0.665026,0.544914,0.684774,0.544768,
+  0.704520,0.544618,0.724264,0.544464,
+  0.744006,0.544307,0.765391,0.544133,
+  0.786774,0.543954,0.808154,0.543772,
+  0.829532,0.543586,0.850907,0.543396,
+  0.872280,0.543202,0.893651,0.543005,
+  0.915019,0.542804,0.914801,0.525837,
+  0.914588,0.508869,0.914379,0.491902,
+  0.914174,0.474934,0.913972,0.457966,
+  0.913774,0.440999,0.913578,0.424031,
+  0.913386,0.407063,0.913197,0.390096,
+  0.913010,0.373128,0.912825,0.356160,
+  0.912643,0.339193,0.890767,0.339398,
+  0.890767,0.339398,0.890584,0.321784,
+  0.890403,0.304170,0.890223,0.286556,
+  0.890046,0.268942,0.889870,0.251328,
+  0.889696,0.233714,0.889524,0.216100,
+  0.889352,0.198486,0.889182,0.180872,
+  0.889182,0.180872,0.871475,0.181036,
+  0.853768,0.181197,0.836060,0.181356,
+  0.818351,0.181512,0.800642,0.181665,
+  0.782932,0.181816,0.765222,0.181964,
+  0.747511,0.182109,0.729800,0.182252,
+  0.712088,0.182391,0.694376,0.182528,
+  0.676663,0.182661,0.658950,0.182792,
+  0.641236,0.182920,0.623522,0.183044,
+  0.605808,0.183166,0.588093,0.183284,
+  0.570378,0.183399,0.552662,0.183511,
+  1.212775,0.539689,1.213064,0.558304,
+  1.213360,0.576919,1.213662,0.595534,
+  1.213973,0.614149,1.214292,0.632764,
+  1.214292,0.632764,1.239458,0.632479,
+  1.264618,0.632191,1.264941,0.650188,
+  1.265272,0.668185,1.265613,0.686182,
+  1.265964,0.704178,1.266326,0.722175,
+  1.266700,0.740171,1.267086,0.758167,
+  1.267485,0.776164,1.267899,0.794160,
+  1.268328,0.812156,1.268774,0.830152,
+  1.269238,0.848148,1.269721,0.866144,
+  1.270225,0.884140,1.270752,0.902135,
+  1.271303,0.920131,1.298335,0.919819,
+  1.325356,0.919505,1.352365,0.919188,
+  1.352365,0.919188,1.353035,0.939546,
+  1.353743,0.959903,1.354494,0.980261,
+  1.354494,0.980261,1.386613,0.979881,
+  1.418713,0.979499,1.450795,0.979114,
+  1.482858,0.978728,1.514903,0.978341,
+  1.546929,0.977953,1.578937,0.977564,
+  1.610927,0.977176,1.642898,0.976787,
+  1.642898,0.976787,1.642238,0.959339,
+  1.641611,0.941890,1.667758,0.941572,
+  1.693894,0.941255,1.720019,0.940939,
+  1.746132,0.940624,1.745542,0.923175,
+  1.744979,0.905725,1.744440,0.888275,
+  1.743924,0.870825,1.770038,0.870512,
+  1.796141,0.870200,1.822235,0.869890,
+  1.822235,0.869890,1.821788,0.853893,
+  1.821357,0.837897,1.820941,0.821900,
+  1.820538,0.805904,1.820149,0.789907,
+  1.819773,0.773910,1.844425,0.773619,
+  1.869070,0.773330,1.893708,0.773042,
+  1.918339,0.772757,1.942963,0.772475,
+  1.967581,0.772195,1.967203,0.754744,
+  1.966836,0.737292,1.966481,0.719841,
+  1.966137,0.702390,1.965803,0.684939,
+  1.965478,0.667487,1.965162,0.650036,
+  1.964855,0.632584,1.964555,0.615133,
+  1.964555,0.615133,1.942807,0.615380,
+  1.921056,0.615629,1.899301,0.615881,
+  1.877542,0.616134,1.855779,0.616388,
+  1.834012,0.616644,1.812241,0.616902,
+  1.790467,0.617161,1.768688,0.617421,
+  1.746905,0.617682,1.746613,0.601322,
+  1.746327,0.584961,1.746048,0.568600,
+  1.745774,0.552239,1.745506,0.535878,
+  1.745243,0.519517,1.744984,0.503156,
+  1.744731,0.486795,1.725842,0.487022,
+  1.706952,0.487250,1.688059,0.487478,
+  1.669164,0.487707,1.650267,0.487936,
+  1.631368,0.488165,1.612466,0.488395,
+  1.593562,0.488625,1.574655,0.488855,
+  1.574655,0.488855,1.574791,0.497579,
+  1.574791,0.497579,1.555010,0.497820,
+  1.535226,0.498060,1.515439,0.498300,
+  1.495650,0.498539,1.475858,0.498778,
+  1.456064,0.499017,1.436267,0.499255,
+  1.416467,0.499492,1.396665,0.499729,
+  1.376861,0.499964,1.357053,0.500199,
+  1.337244,0.500433,1.317431,0.500665,
+  1.297617,0.500896,1.277799,0.501126,
+  1.277799,0.501126,1.277997,0.514215,
+  1.278197,0.527304,1.256334,0.527556,
+  1.234468,0.527806,1.212599,0.528055,
+  1.212599,0.528055,1.212775,0.539689,
+  3.975537,0.131343,3.958286,0.131191,
+  3.941035,0.131041,3.923785,0.130894,
+  3.906534,0.130750,3.889285,0.130608,
+  3.872035,0.130469,3.854786,0.130332,
+  3.837537,0.130199,3.820288,0.130068,
+  3.803039,0.129940,3.785791,0.129815,
+  3.768543,0.129692,3.751295,0.129573,
+  3.734048,0.129457,3.716801,0.129344,
+  3.699554,0.129234,3.682307,0.129127,
+  3.665060,0.129023,3.647814,0.128922,
+  3.630568,0.128824,3.613322,0.128730,
+  3.596076,0.128639,3.578831,0.128551,
+  3.561585,0.128467,3.561500,0.145920,
+  3.561414,0.163373,3.561328,0.180826,
+  3.561241,0.198279,3.561153,0.215732,
+  3.561065,0.233185,3.560976,0.250638,
+  3.560976,0.250638,3.560883,0.268762,
+  3.560789,0.286887,3.560694,0.305011,
+  3.560597,0.323135,3.560500,0.341260,
+  3.560401,0.359384,3.560301,0.377508,
+  3.560200,0.395633,3.560097,0.413757,
+  3.559992,0.431881,3.559886,0.450005,
+  3.559777,0.468130,3.559667,0.486254,
+  3.559667,0.486254,3.579546,0.486352,
+  3.599427,0.486454,3.619308,0.486561,
+  3.639190,0.486672,3.659074,0.486787,
+  3.678959,0.486907,3.678804,0.506541,
+  3.678646,0.526175,3.698159,0.526295,
+  3.698159,0.526295,3.698012,0.543506,
+  3.697862,0.560716,3.697709,0.577927,
+  3.697553,0.595137,3.697392,0.612347,
+  3.697228,0.629558,3.697060,0.646768,
+  3.696887,0.663978,3.696709,0.681189,
+  3.696527,0.698399,3.696339,0.715609,
+  3.696145,0.732820,3.695945,0.750030,
+  3.695739,0.767240,3.695526,0.784450,
+  3.695305,0.801660,3.695077,0.818871,
+  3.694839,0.836081,3.694589,0.853533,
+  3.694329,0.870986,3.694058,0.888439,
+  3.693775,0.905891,3.693479,0.923344,
+  3.693170,0.940796,3.692844,0.958249,
+  3.692844,0.958249,3.725802,0.958462,
+  3.758770,0.958687,3.791749,0.958922,
+  3.791749,0.958922,3.822484,0.959152,
+  3.853229,0.959391,3.883985,0.959639,
+  3.914752,0.959895,3.945530,0.960160,
+  3.976319,0.960434,4.007121,0.960715,
+  4.007121,0.960715,4.007522,0.946172,
+  4.007907,0.931629,4.008278,0.917087,
+  4.008278,0.917087,4.034187,0.917329,
+  4.060104,0.917576,4.086029,0.917829,
+  4.111963,0.918086,4.137905,0.918349,
+  4.137905,0.918349,4.138261,0.905260,
+  4.138605,0.892172,4.139029,0.875448,
+  4.139436,0.858724,4.139828,0.842000,
+  4.140205,0.825276,4.140569,0.808552,
+  4.140921,0.791827,4.141260,0.775103,
+  4.141589,0.758378,4.141908,0.741654,
+  4.142217,0.724929,4.142516,0.708205,
+  4.142808,0.691480,4.122200,0.691272,
+  4.101596,0.691066,4.080996,0.690863,
+  4.060399,0.690663,4.060677,0.673211,
+  4.060948,0.655760,4.061211,0.638307,
+  4.061468,0.620855,4.061718,0.603403,
+  4.061963,0.585951,4.062201,0.568499,
+  4.062201,0.568499,4.040492,0.568292,
+  4.018785,0.568089,3.997081,0.567890,
+  3.997081,0.567890,3.997303,0.550438,
+  3.997519,0.532986,3.997731,0.515533,
+  3.997939,0.498081,3.998143,0.480629,
+  3.998344,0.463176,3.998541,0.445724,
+  3.998541,0.445724,3.972465,0.445488,
+  3.972465,0.445488,3.972654,0.428036,
+  3.972840,0.410583,3.973024,0.393131,
+  3.973204,0.375678,3.973382,0.358226,
+  3.973558,0.340774,3.973732,0.323321,
+  3.973904,0.305869,3.974073,0.288416,
+  3.974241,0.270963,3.974408,0.253511,
+  3.974573,0.236058,3.974736,0.218606,
+  3.974899,0.201153,3.975060,0.183701,
+  3.975220,0.166248,3.975379,0.148796,
+  1.135797,-0.692908,1.135469,-0.710360,
+  1.135130,-0.727811,1.134780,-0.745263,
+  1.134419,-0.762714,1.134046,-0.780165,
+  1.133659,-0.797617,1.133259,-0.815068,
+  1.132843,-0.832519,1.132412,-0.849970,
+  1.132412,-0.849970,1.162773,-0.850306,
+  1.193145,-0.850646,1.193698,-0.828832,
+  1.194226,-0.807019,1.223177,-0.807348,
+  1.252137,-0.807680,1.281108,-0.808016,
+  1.281108,-0.808016,1.281594,-0.787657,
+  1.282061,-0.767297,1.282510,-0.746938,
+  1.282510,-0.746938,1.304254,-0.747192,
+  1.326003,-0.747448,1.326374,-0.730269,
+  1.326733,-0.713091,1.327081,-0.695912,
+  1.327420,-0.678734,1.327750,-0.661555,
+  1.328070,-0.644376,1.328383,-0.627197,
+  1.328688,-0.610018,1.328986,-0.592840,
+  1.329276,-0.575661,1.329561,-0.558482,
+  1.329839,-0.541303,1.330112,-0.524124,
+  1.330379,-0.506945,1.330642,-0.489765,
+  1.330899,-0.472586,1.309119,-0.472331,
+  1.287343,-0.472077,1.269923,-0.471874,
+  1.252506,-0.471673,1.252272,-0.487671,
+  1.252034,-0.503668,1.251792,-0.519665,
+  1.251792,-0.519665,1.236557,-0.519491,
+  1.221324,-0.519317,1.221057,-0.536769,
+  1.220786,-0.554221,1.220508,-0.571672,
+  1.220223,-0.589124,1.219933,-0.606575,
+  1.219635,-0.624027,1.219329,-0.641478,
+  1.219329,-0.641478,1.198674,-0.641244,
+  1.178023,-0.641012,1.157375,-0.640781,
+  1.136731,-0.640553,1.136428,-0.658005,
+  1.136117,-0.675456,1.135797,-0.692908,
+  1.271303,0.920131,1.241518,0.920471,
+  1.211720,0.920809,1.181909,0.921142,
+  1.152084,0.921471,1.122247,0.921796,
+  1.092396,0.922116,1.062533,0.922430,
+  1.032658,0.922740,1.002770,0.923043,
+  0.972871,0.923341,0.942959,0.923633,
+  0.913036,0.923918,0.913420,0.938461,
+  0.913820,0.953003,0.914237,0.967546,
+  0.914237,0.967546,0.870116,0.967954,
+  0.870116,0.967954,0.870622,0.985405,
+  0.871155,1.002856,0.853482,1.003015,
+  0.853482,1.003015,0.854036,1.020465,
+  0.854623,1.037916,0.855245,1.055367,
+  0.855907,1.072817,0.856613,1.090267,
+  0.857368,1.107717,0.858177,1.125167,
+  0.859048,1.142616,0.859988,1.160065,
+  0.861006,1.177514,0.862114,1.194962,
+  0.862114,1.194962,0.904386,1.194577,
+  0.946614,1.194179,0.947908,1.211626,
+  0.949327,1.229072,0.950893,1.246518,
+  0.952630,1.263963,0.954570,1.281407,
+  0.956751,1.298850,0.959224,1.316292,
+  0.962051,1.333732,0.965319,1.351169,
+  0.965319,1.351169,0.990059,1.350930,
+  0.990059,1.350930,0.993942,1.368365,
+  0.998547,1.385796,1.004097,1.403222,
+  1.004097,1.403222,1.105252,1.402199,
+  1.205764,1.401121,1.305615,1.399999,
+  1.404796,1.398845,1.412601,1.416252,
+  1.422369,1.433647,1.434952,1.451026,
+  1.451779,1.468379,1.475433,1.485692,
+  1.475433,1.485692,1.672071,1.483311,
+  1.863530,1.480970,2.050367,1.478751,
+  2.233212,1.476730,2.275958,1.502685,
+  2.275958,1.502685,2.523541,1.500329,
+  2.765201,1.498649,3.003306,1.497729,
+  3.240046,1.497612,3.477542,1.498306,
+  3.717953,1.499775,3.740314,1.480952,
+  3.754940,1.462100,3.765255,1.443231,
+  3.772924,1.424352,3.778853,1.405467,
+  3.783575,1.386577,3.670155,1.385789,
+  3.557142,1.385144,3.559508,1.367697,
+  3.561504,1.350249,3.563212,1.332800,
+  3.563212,1.332800,3.490420,1.332463,
+  3.417714,1.332191,3.343002,1.331978,
+  3.268341,1.331835,3.193711,1.331763,
+  3.119091,1.331763,3.044462,1.331833,
+  3.044462,1.331833,3.044937,1.349286,
+  3.045493,1.366738,3.046151,1.384191,
+  3.046151,1.384191,2.944006,1.384403,
+  2.841721,1.384748,2.843967,1.402196,
+  2.846726,1.419644,2.725585,1.420218,
+  2.603956,1.420967,2.481705,1.421881,
+  2.481705,1.421881,2.476251,1.405420,
+  2.471776,1.388954,2.468038,1.372485,
+  2.464865,1.356014,2.462138,1.339541,
+  2.459768,1.323067,2.457687,1.306592,
+  2.455846,1.290115,2.454203,1.273638,
+  2.454203,1.273638,2.393232,1.274149,
+  2.332158,1.274692,2.270976,1.275268,
+  2.209679,1.275873,2.148259,1.276506,
+  2.148259,1.276506,2.146271,1.259686,
+  2.144481,1.242866,2.142859,1.226044,
+  2.141383,1.209222,2.140032,1.192399,
+  2.138791,1.175576,2.137646,1.158752,
+  2.136586,1.141927,2.135602,1.125102,
+  2.134684,1.108277,2.133826,1.091452,
+  2.133022,1.074626,2.132267,1.057800,
+  2.131555,1.040974,2.095783,1.041353,
+  2.059988,1.041740,2.024169,1.042134,
+  1.988326,1.042534,1.952458,1.042941,
+  1.916566,1.043354,1.880648,1.043771,
+  1.880648,1.043771,1.881480,1.061220,
+  1.882366,1.078668,1.843343,1.079126,
+  1.804287,1.079590,1.765197,1.080058,
+  1.726073,1.080528,1.686915,1.081002,
+  1.647722,1.081478,1.646793,1.064030,
+  1.645921,1.046582,1.645100,1.029134,
+  1.644325,1.011685,1.643592,0.994236,
+  2.450517,0.112925,2.432571,0.113067,
+  2.414624,0.113213,2.396677,0.113362,
+  2.378729,0.113513,2.360781,0.113668,
+  2.342833,0.113825,2.324885,0.113985,
+  2.306936,0.114147,2.288987,0.114312,
+  2.271038,0.114480,2.253088,0.114650,
+  2.235138,0.114822,2.217188,0.114997,
+  2.199237,0.115174,2.181286,0.115353,
+  2.163335,0.115535,2.145383,0.115719,
+  2.145383,0.115719,2.124674,0.115934,
+  2.103965,0.116152,2.104152,0.133604,
+  2.104341,0.151056,2.104530,0.168508,
+  2.104530,0.168508,2.089275,0.168670,
+  2.074018,0.168833,2.074187,0.184103,
+  2.074357,0.199374,2.074529,0.214645,
+  2.074701,0.229916,2.074885,0.246121,
+  2.075071,0.262327,2.075258,0.278533,
+  2.075447,0.294738,2.075638,0.310944,
+  2.075831,0.327150,2.076026,0.343355,
+  2.076026,0.343355,2.095619,0.343146,
+  2.095619,0.343146,2.095829,0.360598,
+  2.096042,0.378050,2.096258,0.395502,
+  2.096477,0.412955,2.096700,0.430407,
+  2.096926,0.447859,2.097156,0.465311,
+  2.097390,0.482763,2.112613,0.482602,
+  2.127836,0.482442,2.128050,0.498440,
+  2.128268,0.514438,2.128490,0.530435,
+  2.128717,0.546433,2.128947,0.562431,
+  2.129183,0.578428,2.149549,0.578217,
+  2.169913,0.578009,2.190273,0.577803,
+  2.210631,0.577600,2.230987,0.577400,
+  2.251340,0.577203,2.271690,0.577009,
+  2.292038,0.576819,2.312383,0.576632,
+  2.332726,0.576448,2.353067,0.576267,
+  2.373405,0.576090,2.393741,0.575917,
+  2.414075,0.575747,2.434406,0.575582,
+  2.454736,0.575419,2.454539,0.557631,
+  2.454346,0.539843,2.454158,0.522055,
+  2.453973,0.504267,2.453792,0.486479,
+  2.453614,0.468690,2.453439,0.450902,
+  2.453268,0.433114,2.453099,0.415326,
+  2.452933,0.397537,2.452769,0.379749,
+  2.452608,0.361961,2.452449,0.344173,
+  2.452291,0.326384,2.452136,0.308596,
+  2.451982,0.290808,2.451830,0.273019,
+  2.451680,0.255231,2.451531,0.237443,
+  2.451383,0.219655,2.451236,0.201866,
+  2.451091,0.184078,2.450946,0.166290,
+  2.450803,0.148501,2.450660,0.130713,
+  3.169422,0.581264,3.169418,0.598718,
+  3.169413,0.616171,3.169409,0.633624,
+  3.169404,0.651078,3.169399,0.668531,
+  3.169395,0.685984,3.169390,0.703438,
+  3.169384,0.720891,3.169379,0.738344,
+  3.169374,0.755797,3.169368,0.773251,
+  3.169368,0.773251,3.190923,0.773256,
+  3.190923,0.773256,3.190908,0.790709,
+  3.190892,0.808162,3.190876,0.825616,
+  3.190859,0.843069,3.190842,0.860522,
+  3.190824,0.877976,3.190805,0.895429,
+  3.190785,0.912882,3.218864,0.912899,
+  3.246944,0.912926,3.275026,0.912963,
+  3.303109,0.913009,3.331193,0.913065,
+  3.359280,0.913130,3.387369,0.913205,
+  3.415461,0.913289,3.443557,0.913383,
+  3.471655,0.913486,3.499758,0.913599,
+  3.527865,0.913720,3.555976,0.913851,
+  3.555976,0.913851,3.556174,0.898143,
+  3.556365,0.882436,3.556548,0.866728,
+  3.556725,0.851020,3.556895,0.835313,
+  3.556895,0.835313,3.584475,0.835450,
+  3.612059,0.835595,3.639648,0.835749,
+  3.667241,0.835911,3.694839,0.836081,
+  3.559667,0.486254,3.537981,0.486153,
+  3.516297,0.486057,3.494613,0.485966,
+  3.494613,0.485966,3.494506,0.506328,
+  3.494396,0.526689,3.494284,0.547051,
+  3.494284,0.547051,3.474427,0.546972,
+  3.454570,0.546898,3.434715,0.546829,
+  3.414861,0.546765,3.395007,0.546705,
+  3.375154,0.546649,3.355301,0.546599,
+  3.335449,0.546553,3.315598,0.546512,
+  3.295747,0.546476,3.275896,0.546444,
+  3.256046,0.546417,3.256017,0.563871,
+  3.255987,0.581324,3.234345,0.581300,
+  3.212704,0.581283,3.191063,0.581271,
+  1.626919,-0.192513,1.645101,-0.192734,
+  1.663283,-0.192954,1.681466,-0.193174,
+  1.699649,-0.193394,1.717834,-0.193613,
+  1.736019,-0.193831,1.754206,-0.194049,
+  1.772392,-0.194266,1.790580,-0.194483,
+  1.808769,-0.194699,1.826958,-0.194913,
+  1.845148,-0.195127,1.863339,-0.195340,
+  1.881530,-0.195552,1.899723,-0.195762,
+  1.917916,-0.195972,1.936110,-0.196180,
+  1.954305,-0.196386,1.954098,-0.213838,
+  1.953891,-0.231291,1.953681,-0.248743,
+  1.953470,-0.266195,1.953257,-0.283647,
+  1.953041,-0.301099,1.952824,-0.318551,
+  1.952603,-0.336003,1.952380,-0.353455,
+  1.952154,-0.370908,1.951925,-0.388360,
+  1.951693,-0.405812,1.951457,-0.423264,
+  1.951218,-0.440716,1.950974,-0.458168,
+  1.950726,-0.475620,1.950474,-0.493072,
+  1.950217,-0.510523,1.949955,-0.527975,
+  1.949687,-0.545427,1.949414,-0.562879,
+  1.949135,-0.580331,1.928572,-0.580097,
+  1.908012,-0.579861,1.887456,-0.579624,
+  1.866903,-0.579386,1.846353,-0.579146,
+  1.825806,-0.578904,1.805263,-0.578662,
+  1.784722,-0.578418,1.764186,-0.578173,
+  1.743652,-0.577927,1.723268,-0.577683,
+  1.702887,-0.577437,1.682509,-0.577191,
+  1.662134,-0.576945,1.641763,-0.576698,
+  1.621395,-0.576451,1.621681,-0.559727,
+  1.621961,-0.543002,1.622235,-0.526278,
+  1.622504,-0.509554,1.622768,-0.492829,
+  1.623027,-0.476105,1.623297,-0.458381,
+  1.623562,-0.440656,1.623823,-0.422932,
+  1.624079,-0.405207,1.624332,-0.387483,
+  1.624581,-0.369759,1.624827,-0.352034,
+  1.625070,-0.334310,1.625309,-0.316585,
+  1.625546,-0.298861,1.625780,-0.281136,
+  1.626012,-0.263412,1.626242,-0.245687,
+  1.626469,-0.227962,1.626695,-0.210238,
+  2.144120,-0.006447,2.126331,-0.006263,
+  2.108543,-0.006077,2.090755,-0.005889,
+  2.072967,-0.005699,2.055179,-0.005507,
+  2.037391,-0.005313,2.019603,-0.005118,
+  2.001815,-0.004921,1.984027,-0.004723,
+  1.966239,-0.004523,1.948451,-0.004321,
+  1.930663,-0.004119,1.912876,-0.003915,
+  1.912876,-0.003915,1.913176,0.022263,
+  1.913176,0.022263,1.897180,0.022447,
+  1.881184,0.022633,1.865188,0.022818,
+  1.865188,0.022818,1.865392,0.040271,
+  1.865596,0.057723,1.865801,0.075176,
+  1.866007,0.092628,1.861643,0.092679,
+  1.861643,0.092679,1.861829,0.108386,
+  1.862015,0.124093,1.862202,0.139799,
+  1.862390,0.155506,1.862579,0.171213,
+  1.862579,0.171213,1.862842,0.193028,
+  1.863108,0.214843,1.881792,0.214625,
+  1.900476,0.214409,1.919159,0.214194,
+  1.937841,0.213980,1.956522,0.213767,
+  1.975202,0.213557,1.993882,0.213347,
+  1.993882,0.213347,1.994086,0.230799,
+  1.994086,0.230799,2.014241,0.230575,
+  2.034395,0.230353,2.054549,0.230133,
+  2.145383,0.115719,2.145201,0.098267,
+  2.145020,0.080814,2.144839,0.063362,
+  2.144659,0.045910,2.144479,0.028457,
+  2.144299,0.011005,2.144120,-0.006447,
+  5.266119,-0.203788,5.266309,-0.221204,
+  5.266501,-0.238620,5.266694,-0.256036,
+  5.266890,-0.273452,5.267087,-0.290868,
+  5.267286,-0.308284,5.267487,-0.325700,
+  5.267691,-0.343116,5.267897,-0.360531,
+  5.268106,-0.377947,5.268318,-0.395363,
+  5.268533,-0.412779,5.268751,-0.430195,
+  5.268973,-0.447611,5.269199,-0.465026,
+  5.269428,-0.482442,5.291170,-0.482217,
+  5.312909,-0.481994,5.334646,-0.481775,
+  5.356381,-0.481559,5.376441,-0.481363,
+  5.396500,-0.481170,5.416556,-0.480980,
+  5.436611,-0.480793,5.456664,-0.480609,
+  5.476714,-0.480428,5.496763,-0.480251,
+  5.516811,-0.480077,5.536856,-0.479907,
+  5.556900,-0.479740,5.576942,-0.479577,
+  5.596982,-0.479418,5.617021,-0.479262,
+  5.617021,-0.479262,5.616811,-0.457446,
+  5.616606,-0.435631,5.636463,-0.435480,
+  5.656318,-0.435333,5.676173,-0.435190,
+  5.696026,-0.435050,5.715877,-0.434915,
+  5.735728,-0.434784,5.755578,-0.434657,
+  2.969781,-0.998054,2.936455,-0.997974,
+  2.903134,-0.997882,2.871051,-0.997780,
+  2.838974,-0.997667,2.806902,-0.997542,
+  2.774838,-0.997405,2.742781,-0.997257,
+  2.710731,-0.997098,2.678690,-0.996928,
+  2.646658,-0.996747,2.614635,-0.996555,
+  2.582622,-0.996353,2.550620,-0.996140,
+  2.518628,-0.995918,2.486649,-0.995685,
+  2.454681,-0.995443,2.422725,-0.995192,
+  2.390783,-0.994931,2.358853,-0.994662,
+  2.326938,-0.994384,2.327443,-0.976932,
+  2.327924,-0.959481,2.294089,-0.959177,
+  2.260270,-0.958865,2.226466,-0.958544,
+  2.226466,-0.958544,2.226841,-0.945455,
+  2.227202,-0.932367,2.202240,-0.932124,
+  2.177287,-0.931877,2.152342,-0.931625,
+  2.152342,-0.931625,2.152888,-0.911993,
+  2.153406,-0.892361,2.131417,-0.892136,
+  2.109435,-0.891909,2.081676,-0.891617,
+  2.053928,-0.891320,2.026190,-0.891019,
+  1.998462,-0.890715,1.970745,-0.890406,
+  1.943039,-0.890094,1.915344,-0.889779,
+  1.887659,-0.889461,1.859986,-0.889140,
+  1.832324,-0.888816,1.804672,-0.888491,
+  1.777032,-0.888163,1.749403,-0.887833,
+  1.721786,-0.887502,1.694179,-0.887170,
+  1.666584,-0.886837,1.639001,-0.886503,
+  1.611428,-0.886168,1.583867,-0.885833,
+  1.583867,-0.885833,1.583395,-0.901102,
+  1.582904,-0.916371,1.604723,-0.916637,
+  1.626549,-0.916902,1.625813,-0.938713,
+  1.625031,-0.960525,1.654145,-0.960878,
+  1.683274,-0.961231,1.712418,-0.961582,
+  1.712418,-0.961582,1.711760,-0.979031,
+  1.711068,-0.996480,1.710337,-1.013928,
+  1.710337,-1.013928,1.739503,-1.014278,
+  1.768685,-1.014627,1.797883,-1.014974,
+  1.797883,-1.014974,1.797120,-1.032422,
+  1.796312,-1.049871,1.795452,-1.067319,
+  1.794537,-1.084767,1.793559,-1.102215,
+  1.792511,-1.119662,1.833881,-1.120149,
+  1.875294,-1.120630,1.916748,-1.121106,
+  1.958242,-1.121575,1.999778,-1.122036,
+  2.041353,-1.122489,2.082967,-1.122933,
+  2.124621,-1.123367,2.166311,-1.123790,
+  2.208039,-1.124202,2.249803,-1.124601,
+  2.291602,-1.124988,2.333435,-1.125361,
+  2.375301,-1.125720,2.374480,-1.143170,
+  2.373594,-1.160620,2.372635,-1.178069,
+  2.371590,-1.195518,2.370449,-1.212967,
+  2.369197,-1.230415,2.367814,-1.247862,
+  2.366279,-1.265309,2.364565,-1.282756,
+  2.362636,-1.300201,2.360448,-1.317645,
+  2.360448,-1.317645,2.427117,-1.318186,
+  2.493925,-1.318687,2.560863,-1.319147,
+  2.627920,-1.319564,2.695085,-1.319935,
+  2.762344,-1.320259,2.829686,-1.320535,
+  2.897097,-1.320761,2.964564,-1.320935,
+  2.964564,-1.320935,2.965153,-1.303482,
+  2.965671,-1.286030,2.966131,-1.268577,
+  2.966542,-1.251124,2.966912,-1.233672,
+  2.967246,-1.216219,2.967551,-1.198766,
+  2.967830,-1.181313,2.968085,-1.163860,
+  2.968321,-1.146407,2.968540,-1.128954,
+  2.968540,-1.128954,2.968730,-1.112592,
+  2.968909,-1.096229,2.969076,-1.079867,
+  2.969233,-1.063504,2.969382,-1.047142,
+  2.969522,-1.030779,2.969655,-1.014417,
+  6.009917,0.927957,6.009759,0.944319,
+  6.009594,0.960682,6.009420,0.977044,
+  6.009238,0.993407,6.009046,1.009889,
+  6.008843,1.026372,6.008629,1.042855,
+  6.008629,1.042855,6.048686,1.042982,
+  6.088750,1.043091,6.088579,1.060180,
+  6.088397,1.077270,6.088204,1.094359,
+  6.087996,1.111448,6.125231,1.111532,
+  6.162472,1.111600,6.199717,1.111651,
+  6.199717,1.111651,6.199611,1.129104,
+  6.199496,1.146557,6.199373,1.164011,
+  6.199373,1.164011,6.239744,1.164047,
+  6.280118,1.164065,0.037307,1.164063,
+  0.077680,1.164042,0.118051,1.164002,
+  0.118051,1.164002,0.118193,1.181455,
+  0.118348,1.198908,0.118518,1.216362,
+  0.118705,1.233815,0.118911,1.251268,
+  0.119140,1.268721,0.119397,1.286174,
+  0.119686,1.303627,0.120014,1.321080,
+  0.120391,1.338533,0.120827,1.355986,
+  0.120827,1.355986,0.205985,1.355841,
+  0.291066,1.355613,0.376037,1.355305,
+  0.460866,1.354919,0.545524,1.354458,
+  0.629982,1.353926,0.714213,1.353327,
+  0.798193,1.352664,0.881901,1.351943,
+  0.853482,1.003015,0.818125,1.003325,
+  0.782750,1.003625,0.747359,1.003915,
+  0.711952,1.004193,0.676530,1.004460,
+  0.676530,1.004460,0.676872,1.017549,
+  0.677230,1.030638,0.642315,1.030889,
+  0.607385,1.031128,0.572441,1.031355,
+  0.537485,1.031570,0.537101,1.014118,
+  0.537101,1.014118,0.509367,1.014279,
+  0.481627,1.014432,0.481246,0.994072,
+  0.480889,0.973711,0.480552,0.953349,
+  0.480552,0.953349,0.451018,0.953504,
+  0.421478,0.953649,0.391931,0.953784,
+  0.391931,0.953784,0.391706,0.936331,
+  0.391492,0.918878,0.391287,0.901426,
+  2.905214,-0.705542,2.905124,-0.722739,
+  2.905032,-0.739935,2.904936,-0.757132,
+  2.904838,-0.774328,2.904736,-0.791525,
+  2.904630,-0.808721,2.904521,-0.825918,
+  2.904407,-0.843114,2.904289,-0.860310,
+  2.904166,-0.877507,2.904038,-0.894703,
+  2.903904,-0.911900,2.903765,-0.929096,
+  2.903618,-0.946292,2.903465,-0.963489,
+  2.903303,-0.980685,2.903134,-0.997882,
+  2.968540,-1.128954,3.007683,-1.129031,
+  3.046832,-1.129090,3.085985,-1.129132,
+  3.125141,-1.129155,3.125174,-1.111701,
+  3.125205,-1.094248,3.125234,-1.076795,
+  3.125261,-1.059342,3.125287,-1.041888,
+  3.125311,-1.024435,3.125333,-1.006982,
+  3.125355,-0.989528,3.125375,-0.972075,
+  3.125375,-0.972075,3.154980,-0.972080,
+  3.184584,-0.972075,3.214188,-0.972060,
+  3.243791,-0.972034,3.273393,-0.971998,
+  3.302993,-0.971951,3.332590,-0.971894,
+  3.362185,-0.971826,3.391777,-0.971749,
+  3.391777,-0.971749,3.391934,-0.989202,
+  3.392101,-1.006655,3.392276,-1.024108,
+  3.392462,-1.041561,3.392659,-1.059014,
+  3.392869,-1.076467,3.393093,-1.093921,
+  3.393333,-1.111374,3.393590,-1.128827,
+  3.393590,-1.128827,3.438303,-1.128690,
+  3.483001,-1.128530,3.527682,-1.128348,
+  3.572345,-1.128144,3.611886,-1.127946,
+  3.651409,-1.127731,3.690914,-1.127499,
+  3.730397,-1.127252,3.769859,-1.126989,
+  3.809298,-1.126711,3.848713,-1.126418,
+  3.848713,-1.126418,3.848019,-1.108967,
+  3.847373,-1.091517,3.846768,-1.074066,
+  3.846201,-1.056615,3.845668,-1.039163,
+  3.845166,-1.021712,3.844692,-1.004261,
+  3.844243,-0.986809,3.843817,-0.969358,
+  3.843817,-0.969358,3.811379,-0.969600,
+  3.778929,-0.969832,3.746468,-0.970054,
+  3.746468,-0.970054,3.746113,-0.952602,
+  3.745774,-0.935149,3.745452,-0.917697,
+  3.745144,-0.900245,3.744849,-0.882792,
+  3.744566,-0.865340,3.744295,-0.847887,
+  3.744034,-0.830435,3.743783,-0.812982,
+  3.743541,-0.795530,3.743308,-0.778077,
+  3.743082,-0.760624,3.742864,-0.743172,
+  3.742864,-0.743172,3.767632,-0.743004,
+  3.792396,-0.742829,3.817156,-0.742649,
+  3.841911,-0.742463,3.866663,-0.742272,
+  3.891409,-0.742074,3.916151,-0.741872,
+  3.940889,-0.741664,3.940630,-0.724883,
+  3.940378,-0.708102,3.940134,-0.691321,
+  3.939896,-0.674540,3.939665,-0.657759,
+  3.939439,-0.640978,3.939219,-0.624197,
+  3.939005,-0.607416,3.938795,-0.590634,
+  3.938590,-0.573853,3.938389,-0.557072,
+  3.938193,-0.540291,3.938000,-0.523510,
+  3.938000,-0.523510,3.917537,-0.523682,
+  3.897072,-0.523851,3.876605,-0.524016,
+  3.856136,-0.524178,3.835665,-0.524335,
+  3.815192,-0.524489,3.794717,-0.524639,
+  3.774241,-0.524784,3.753762,-0.524925,
+  3.733283,-0.525063,3.712801,-0.525196,
+  3.692318,-0.525324,3.671833,-0.525449,
+  3.651347,-0.525568,3.630859,-0.525684,
+  3.610370,-0.525795,3.589880,-0.525901,
+  3.569388,-0.526003,3.548895,-0.526100,
+  3.528401,-0.526193,3.507906,-0.526280,
+  3.487410,-0.526363,3.466913,-0.526441,
+  3.446415,-0.526515,3.425916,-0.526583,
+  3.405416,-0.526647,3.384916,-0.526706,
+  3.364415,-0.526759,3.343913,-0.526808,
+  3.323411,-0.526852,3.323452,-0.542124,
+  3.323494,-0.557395,3.323538,-0.572667,
+  3.323582,-0.587939,3.301592,-0.587980,
+  3.279602,-0.588016,3.257611,-0.588045,
+  3.235621,-0.588069,3.235646,-0.605523,
+  3.235671,-0.622976,3.213666,-0.622994,
+  3.191661,-0.623007,3.169656,-0.623014,
+  3.147650,-0.623014,3.125645,-0.623010,
+  3.103640,-0.622999,3.081635,-0.622982,
+  3.059630,-0.622960,3.037626,-0.622931,
+  3.015622,-0.622897,2.993619,-0.622858,
+  2.971616,-0.622812,2.949614,-0.622761,
+  2.927614,-0.622704,2.905614,-0.622641,
+  5.245994,1.044599,5.245249,1.062048,
+  5.244456,1.079497,5.281237,1.079877,
+  5.318045,1.080248,5.354878,1.080610,
+  5.354878,1.080610,5.354156,1.096606,
+  5.353388,1.112601,5.352568,1.128596,
+  5.351692,1.144590,5.350751,1.160585,
+  5.349738,1.176579,5.416350,1.177207,
+  5.416350,1.177207,5.415211,1.194655,
+  5.413966,1.212103,5.412599,1.229550,
+  5.411092,1.246996,5.409419,1.264442,
+  5.407551,1.281886,5.405450,1.299330,
+  5.403068,1.316772,5.335790,1.316137,
+  5.268685,1.315470,5.265707,1.332909,
+  5.262268,1.350344,5.258249,1.367777,
+  5.253486,1.385206,5.247748,1.402630,
+  5.247748,1.402630,5.361100,1.403740,
+  5.475201,1.404760,5.469160,1.422187,
+  5.461527,1.439608,5.451573,1.457019,
+  5.438043,1.474415,5.418581,1.491785,
+  5.388198,1.509109,5.381398,1.511989,
+  5.381398,1.511989,5.682781,1.514187,
+  5.995393,1.515590,5.973365,1.531556,
+  5.921221,1.547477,0.016551,1.546522,
+  0.016551,1.546522,0.431231,1.542110,
+  0.431231,1.542110,1.006439,1.536000,
+  1.006439,1.536000,1.525222,1.533316,
+  1.974418,1.530410,2.370724,1.528366,
+  2.370724,1.528366,2.312337,1.515584,
+  6.009238,0.993407,5.979930,0.993302,
+  5.950627,0.993188,5.921329,0.993064,
+  5.892037,0.992931,5.862751,0.992789,
+  5.862751,0.992789,5.863107,0.970972,
+  5.863107,0.970972,5.838725,0.970846,
+  5.814348,0.970714,5.814681,0.951080,
+  5.814995,0.931446,5.792867,0.931321,
+  5.770743,0.931191,5.770428,0.949370,
+  5.770097,0.967549,5.739833,0.967362,
+  5.709577,0.967166,5.679331,0.966961,
+  5.649094,0.966747,5.618866,0.966523,
+  5.588649,0.966292,5.558442,0.966052,
+  5.528246,0.965804,5.498062,0.965548,
+  5.467889,0.965285,5.437727,0.965014,
+  5.407578,0.964736,5.407056,0.982429,
+  5.406505,1.000123,5.405922,1.017816,
+  5.405306,1.035509,5.404651,1.053201,
+  5.403955,1.070894,5.387147,1.070735,
+  5.387147,1.070735,5.388121,1.046014,
+  5.388121,1.046014,5.352556,1.045673,
+  5.317013,1.045323,5.281492,1.044965,
+  0.115214,0.012086,0.115236,0.029540,
+  0.115258,0.046993,0.132720,0.046970,
+  0.150182,0.046943,0.167644,0.046912,
+  0.185106,0.046878,0.202568,0.046840,
+  0.220029,0.046799,0.237491,0.046753,
+  0.254953,0.046705,0.272414,0.046652,
+  0.289876,0.046596,0.307338,0.046537,
+  0.324799,0.046474,0.342260,0.046407,
+  0.359722,0.046337,0.377183,0.046264,
+  0.394644,0.046187,0.412105,0.046106,
+  0.429566,0.046022,0.447027,0.045935,
+  0.464488,0.045844,0.481949,0.045750,
+  0.499410,0.045653,0.516870,0.045553,
+  0.534331,0.045449,0.551791,0.045342,
+  0.551791,0.045342,0.551899,0.062613,
+  0.552006,0.079884,0.552115,0.097155,
+  0.552223,0.114426,0.552332,0.131698,
+  0.552441,0.148969,0.552551,0.166240,
+  0.889182,0.180872,0.889016,0.163565,
+  0.888851,0.146258,0.888687,0.128951,
+  0.888524,0.111644,0.888361,0.094337,
+  0.888198,0.077030,0.888036,0.059723,
+  0.887875,0.042416,0.887713,0.025109,
+  0.887552,0.007802,0.887410,-0.007470,
+  0.887268,-0.022742,0.868850,-0.022571,
+  0.850431,-0.022404,0.832013,-0.022239,
+  0.813595,-0.022077,0.795177,-0.021917,
+  0.776759,-0.021761,0.758341,-0.021608,
+  0.739923,-0.021458,0.721505,-0.021310,
+  0.721505,-0.021310,0.721369,-0.038485,
+  0.721234,-0.055660,0.721097,-0.072834,
+  0.720961,-0.090009,0.720824,-0.107183,
+  0.720686,-0.124358,0.720548,-0.141532,
+  0.720410,-0.158707,0.720270,-0.175881,
+  0.720130,-0.193056,0.719989,-0.210230,
+  0.719846,-0.227405,0.719703,-0.244579,
+  0.719558,-0.261754,0.719412,-0.278928,
+  0.719265,-0.296103,0.719116,-0.313277,
+  0.718965,-0.330452,0.718812,-0.347626,
+  0.718658,-0.364801,0.718502,-0.381975,
+  0.718343,-0.399149,0.718182,-0.416324,
+  0.718182,-0.416324,0.698462,-0.416170,
+  0.678744,-0.416020,0.659027,-0.415873,
+  0.639311,-0.415731,0.619597,-0.415592,
+  0.599883,-0.415457,0.580171,-0.415326,
+  0.560460,-0.415199,0.540750,-0.415076,
+  0.521041,-0.414957,0.501332,-0.414842,
+  0.481625,-0.414732,0.461919,-0.414626,
+  0.461919,-0.414626,0.461795,-0.434114,
+  0.461795,-0.434114,0.442696,-0.434015,
+  0.423597,-0.433920,0.404499,-0.433829,
+  0.385402,-0.433743,0.366306,-0.433660,
+  0.347211,-0.433582,0.328116,-0.433507,
+  0.309021,-0.433437,0.289928,-0.433372,
+  0.270834,-0.433310,0.251742,-0.433253,
+  0.232650,-0.433201,0.213558,-0.433152,
+  0.194467,-0.433108,0.175376,-0.433068,
+  0.156285,-0.433033,0.137195,-0.433002,
+  0.118104,-0.432976,0.099014,-0.432954,
+  0.079925,-0.432936,0.060835,-0.432923,
+  0.041745,-0.432914,0.022656,-0.432910,
+  0.003567,-0.432910,6.267662,-0.432915,
+  6.267535,-0.110029,0.003023,-0.110025,
+  0.021697,-0.110024,0.040370,-0.110028,
+  0.059044,-0.110037,0.077717,-0.110049,
+  0.096391,-0.110066,0.115064,-0.110087,
+  0.115064,-0.110087,0.115086,-0.092633,
+  0.115107,-0.075180,0.115129,-0.057727,
+  0.115150,-0.040273,0.115172,-0.022820,
+  0.115193,-0.005367,0.115214,0.012086,
+  1.948697,-1.444712,2.084867,-1.446155,
+  2.222628,-1.447494,2.361894,-1.448702,
+  2.502535,-1.449754,2.644378,-1.450627,
+  2.787210,-1.451304,2.930783,-1.451768,
+  3.074820,-1.452010,3.219026,-1.452024,
+  3.363099,-1.451809,3.506742,-1.451371,
+  3.626470,-1.319881,3.553152,-1.320240,
+  3.479736,-1.320541,3.406238,-1.320783,
+  3.332677,-1.320965,3.259069,-1.321084,
+  3.185436,-1.321141,3.111794,-1.321135,
+  3.038164,-1.321066,2.964564,-1.320935,
+  2.360448,-1.317645,2.286636,-1.317002,
+  2.213018,-1.316318,2.139604,-1.315597,
+  2.066403,-1.314841,1.993423,-1.314057,
+  1.993423,-1.314057,1.990462,-1.330403,
+  1.987079,-1.346747,1.983173,-1.363088,
+  1.978610,-1.379426,1.973207,-1.395759,
+  1.966704,-1.412086,1.958725,-1.428404,
+  3.572345,-1.128144,3.572820,-1.145597,
+  3.572820,-1.145597,3.617509,-1.145372,
+  3.617509,-1.145372,3.618073,-1.162824,
+  3.618684,-1.180275,3.619349,-1.197726,
+  3.620077,-1.215177,3.620876,-1.232628,
+  3.912442,-1.230658,3.910939,-1.208848,
+  3.909600,-1.187037,3.954167,-1.186665,
+  3.954167,-1.186665,3.953172,-1.169580,
+  3.952254,-1.152494,3.951404,-1.135408,
+  3.950614,-1.118321,3.983900,-1.118034,
+  4.017165,-1.117737,4.016475,-1.102710,
+  4.015824,-1.087684,4.015210,-1.072657,
+  4.015210,-1.072657,4.059458,-1.072248,
+  4.059458,-1.072248,4.058761,-1.054798,
+  4.058761,-1.054798,4.058106,-1.037348,
+  4.057489,-1.019898,4.056906,-1.002447,
+  4.056353,-0.984997,4.055829,-0.967546,
+  4.055829,-0.967546,4.018328,-0.967894,
+  3.980808,-0.968230,3.946582,-0.968527,
+  3.912341,-0.968814,3.878086,-0.969091,
+  1.330899,-0.472586,1.350358,-0.472816,
+  1.369819,-0.473047,1.389283,-0.473279,
+  1.408749,-0.473511,1.428217,-0.473745,
+  1.447687,-0.473979,1.467160,-0.474214,
+  1.486635,-0.474449,1.506113,-0.474685,
+  1.525592,-0.474921,1.545075,-0.475158,
+  1.564559,-0.475395,1.584046,-0.475631,
+  1.603535,-0.475868,1.623027,-0.476105,
+  1.743652,-0.577927,1.743350,-0.595379,
+  1.743042,-0.612830,1.742725,-0.630282,
+  1.742400,-0.647733,1.742067,-0.665184,
+  1.741724,-0.682635,1.741372,-0.700086,
+  1.741009,-0.717537,1.740635,-0.734988,
+  1.740249,-0.752439,1.714757,-0.752133,
+  1.689272,-0.751827,1.663795,-0.751519,
+  1.638326,-0.751211,1.612863,-0.750902,
+  1.587408,-0.750593,1.563613,-0.750304,
+  1.539823,-0.750015,1.516040,-0.749726,
+  1.492264,-0.749438,1.468493,-0.749150,
+  1.444729,-0.748864,1.420972,-0.748578,
+  1.397220,-0.748293,1.373475,-0.748010,
+  1.349736,-0.747728,1.326003,-0.747448,
+  3.134690,0.232199,3.134695,0.249652,
+  3.134699,0.267105,3.134704,0.284558,
+  3.134709,0.302012,3.134714,0.319465,
+  3.134719,0.336918,3.134724,0.354372,
+  3.134729,0.371825,3.134734,0.389278,
+  3.134739,0.406732,3.134745,0.424185,
+  3.134750,0.441638,3.134755,0.459091,
+  3.134761,0.476545,3.134767,0.493998,
+  3.134767,0.493998,3.152105,0.493996,
+  3.169443,0.493998,3.169439,0.511451,
+  3.169435,0.528905,3.169431,0.546358,
+  3.169426,0.563811,3.169422,0.581264,
+  3.560976,0.250638,3.543574,0.250556,
+  3.526173,0.250478,3.508771,0.250402,
+  3.491370,0.250331,3.473970,0.250263,
+  3.456569,0.250198,3.439169,0.250137,
+  3.421769,0.250079,3.404370,0.250025,
+  3.386970,0.249975,3.387021,0.232521,
+  3.387021,0.232521,3.368996,0.232473,
+  3.350972,0.232428,3.332948,0.232388,
+  3.314924,0.232351,3.296900,0.232318,
+  3.278877,0.232289,3.260853,0.232264,
+  3.242830,0.232243,3.224806,0.232225,
+  3.206783,0.232212,3.188760,0.232203,
+  3.170736,0.232197,3.152713,0.232196,
+  4.705853,-0.646077,4.727670,-0.645812,
+  4.749482,-0.645547,4.771291,-0.645282,
+  4.793094,-0.645018,4.814894,-0.644753,
+  4.836689,-0.644490,4.858480,-0.644227,
+  4.880267,-0.643964,4.902049,-0.643703,
+  4.923828,-0.643442,4.945602,-0.643183,
+  4.967371,-0.642925,4.989137,-0.642668,
+  5.010898,-0.642413,5.032656,-0.642159,
+  5.054409,-0.641908,5.054747,-0.660450,
+  5.055095,-0.678992,5.055454,-0.697534,
+  5.055823,-0.716076,5.056205,-0.734618,
+  5.056601,-0.753160,5.057010,-0.771702,
+  5.057434,-0.790243,5.032080,-0.790537,
+  5.006720,-0.790833,4.981352,-0.791131,
+  4.955976,-0.791431,4.930592,-0.791733,
+  4.905201,-0.792037,4.879802,-0.792342,
+  4.854395,-0.792648,4.828981,-0.792955,
+  4.803558,-0.793263,4.778127,-0.793571,
+  4.709061,-0.794409,4.708610,-0.775868,
+  4.708176,-0.757327,4.707757,-0.738785,
+  4.707352,-0.720244,4.706960,-0.701702,
+  4.706580,-0.683161,4.706211,-0.664619,
+  4.142808,0.691480,4.164504,0.691703,
+  4.186204,0.691929,4.207908,0.692158,
+  4.229616,0.692389,4.251328,0.692623,
+  4.273044,0.692860,4.294765,0.693100,
+  4.294765,0.693100,4.295087,0.675648,
+  4.295400,0.658197,4.295705,0.640745,
+  4.296003,0.623294,4.296293,0.605842,
+  4.296575,0.588391,4.296852,0.570939,
+  4.297122,0.553487,4.297387,0.536035,
+  4.297646,0.518584,4.297900,0.501132,
+  4.298149,0.483680,4.298393,0.466228,
+  4.298393,0.466228,4.276636,0.465988,
+  4.254881,0.465750,4.255116,0.448298,
+  4.255116,0.448298,4.237710,0.448110,
+  4.220306,0.447923,4.200135,0.447709,
+  4.179967,0.447498,4.159801,0.447290,
+  4.139637,0.447084,4.119475,0.446881,
+  4.099314,0.446680,4.079156,0.446483,
+  4.058999,0.446289,4.038845,0.446097,
+  4.018692,0.445909,3.998541,0.445724,
+  3.388262,-0.203809,3.370767,-0.203856,
+  3.353272,-0.203900,3.335777,-0.203939,
+  3.318282,-0.203976,3.300786,-0.204008,
+  3.283291,-0.204037,3.265795,-0.204062,
+  3.248300,-0.204084,3.230804,-0.204101,
+  3.213308,-0.204115,3.195812,-0.204126,
+  3.178317,-0.204132,3.160821,-0.204135,
+  3.143325,-0.204135,3.125829,-0.204130,
+  3.125829,-0.204130,3.125822,-0.220960,
+  3.125816,-0.237790,3.125809,-0.254620,
+  3.125803,-0.271450,3.125796,-0.288280,
+  3.125789,-0.305110,3.125783,-0.321940,
+  3.125776,-0.338770,3.125769,-0.355600,
+  3.125762,-0.372430,3.125755,-0.389260,
+  3.125748,-0.406090,3.125740,-0.422920,
+  3.125733,-0.439750,3.145479,-0.439754,
+  3.165224,-0.439754,3.184970,-0.439750,
+  3.204716,-0.439740,3.224461,-0.439726,
+  3.244206,-0.439708,3.263952,-0.439684,
+  3.283697,-0.439656,3.303441,-0.439623,
+  3.323185,-0.439586,3.323150,-0.425041,
+  3.323115,-0.410497,3.323081,-0.395952,
+  3.323081,-0.395952,3.345005,-0.395905,
+  3.366929,-0.395852,3.388852,-0.395794,
+  3.388852,-0.395794,3.388795,-0.378340,
+  3.388739,-0.360887,3.388683,-0.343434,
+  3.388629,-0.325981,3.388575,-0.308528,
+  3.388521,-0.291075,3.388468,-0.273622,
+  3.388416,-0.256168,3.388364,-0.238715,
+  3.388313,-0.221262,3.388262,-0.203809,
+  2.841869,-0.116277,2.841803,-0.133730,
+  2.841736,-0.151183,2.841669,-0.168636,
+  2.841602,-0.186089,2.841534,-0.203542,
+  2.841534,-0.203542,2.841465,-0.220995,
+  2.841396,-0.238449,2.841327,-0.255902,
+  2.841257,-0.273355,2.841186,-0.290809,
+  2.841114,-0.308262,2.841042,-0.325715,
+  2.840968,-0.343168,2.862874,-0.343247,
+  2.862874,-0.343247,2.862811,-0.359246,
+  2.862747,-0.375245,2.862682,-0.391243,
+  2.862616,-0.407242,2.862549,-0.423241,
+  2.862481,-0.439240,2.881282,-0.439304,
+  2.900084,-0.439363,2.918886,-0.439418,
+  2.937689,-0.439470,2.956492,-0.439517,
+  2.975295,-0.439559,2.994099,-0.439598,
+  3.012903,-0.439632,3.031708,-0.439663,
+  3.050512,-0.439688,3.069317,-0.439710,
+  3.088122,-0.439728,3.106928,-0.439741,
+  3.125829,-0.204130,3.125835,-0.186677,
+  3.125842,-0.169224,3.125848,-0.151770,
+  3.125854,-0.134317,3.125860,-0.116864,
+  3.125860,-0.116864,3.109258,-0.116856,
+  3.092655,-0.116845,3.076052,-0.116831,
+  3.059450,-0.116813,3.042847,-0.116792,
+  3.042847,-0.116792,3.024576,-0.116765,
+  3.006305,-0.116734,2.988034,-0.116699,
+  2.969763,-0.116660,2.951492,-0.116618,
+  2.933221,-0.116571,2.914950,-0.116520,
+  2.896680,-0.116465,2.878409,-0.116406,
+  2.860139,-0.116344,2.841869,-0.116277,
+  3.125141,-1.129155,3.163499,-1.129160,
+  3.201857,-1.129148,3.240213,-1.129118,
+  3.278566,-1.129071,3.316914,-1.129007,
+  3.355256,-1.128925,3.393590,-1.128827,
+  5.063769,0.484022,5.063556,0.498565,
+  5.063339,0.513108,5.063118,0.527651,
+  5.063118,0.527651,5.089359,0.527950,
+  5.089359,0.527950,5.089111,0.544155,
+  5.088857,0.560360,5.088599,0.576565,
+  5.088334,0.592771,5.088064,0.608976,
+  5.087788,0.625181,5.087506,0.641386,
+  5.087506,0.641386,5.098451,0.641510,
+  5.098451,0.641510,5.098140,0.658961,
+  5.097820,0.676413,5.097491,0.693864,
+  5.097153,0.711315,5.096805,0.728767,
+  5.096445,0.746218,5.096073,0.763669,
+  5.096073,0.763669,5.075630,0.763437,
+  5.055191,0.763204,5.034757,0.762969,
+  5.034757,0.762969,5.034365,0.780420,
+  5.033959,0.797871,5.033538,0.815322,
+  5.033102,0.832773,5.011200,0.832520,
+  5.011200,0.832520,5.010744,0.849971,
+  5.010269,0.867421,5.009774,0.884871,
+  5.009258,0.902321,5.008719,0.919771,
+  5.008154,0.937221,5.007562,0.954671,
+  5.006939,0.972120,5.036177,0.972459,
+  5.065430,0.972794,5.094696,0.973126,
+  5.094696,0.973126,5.094168,0.987667,
+  5.093616,1.002209,5.093038,1.016750,
+  5.093038,1.016750,5.123803,1.017095,
+  5.154585,1.017434,5.185384,1.017770,
+  5.185384,1.017770,5.184312,1.043943,
+  5.184312,1.043943,5.215144,1.044273,
+  5.770743,0.931191,5.771023,0.914223,
+  5.771291,0.897255,5.771549,0.880287,
+  5.771795,0.863319,5.772033,0.846352,
+  5.772261,0.829384,5.772481,0.812416,
+  5.772693,0.795448,5.772898,0.778480,
+  5.772898,0.778480,5.757468,0.778387,
+  5.757468,0.778387,5.757520,0.774024,
+  5.757520,0.774024,5.748706,0.773968,
+  5.748706,0.773968,5.748910,0.757061,
+  5.749108,0.740154,5.749299,0.723246,
+  5.749485,0.706339,5.749666,0.689432,
+  5.749842,0.672525,5.750013,0.655617,
+  5.750179,0.638710,5.731495,0.638591,
+  5.712812,0.638468,5.712989,0.621015,
+  5.713163,0.603562,5.713332,0.586110,
+  5.713497,0.568657,5.713659,0.551205,
+  5.713817,0.533752,5.713972,0.516299,
+  5.714124,0.498847,5.693287,0.498706,
+  5.672451,0.498561,5.651617,0.498412,
+  5.630785,0.498258,5.611990,0.498116,
+  5.593196,0.497971,5.574404,0.497822,
+  5.555613,0.497670,5.536824,0.497515,
+  5.518037,0.497357,5.499251,0.497195,
+  5.499251,0.497195,5.499054,0.514647,
+  5.499054,0.514647,5.478506,0.514467,
+  5.457959,0.514284,5.437415,0.514098,
+  5.416873,0.513908,5.396333,0.513715,
+  5.375795,0.513519,5.355260,0.513319,
+  5.334727,0.513117,5.314197,0.512912,
+  5.293669,0.512704,5.273143,0.512493,
+  5.252620,0.512279,5.232100,0.512063,
+  5.211582,0.511845,5.191066,0.511624,
+  5.170554,0.511401,5.170741,0.498312,
+  5.170925,0.485222,5.149489,0.484987,
+  5.128055,0.484749,5.106623,0.484508,
+  5.085195,0.484266,5.063769,0.484022,
+  5.298104,0.281478,5.312310,0.281623,
+  5.326516,0.281766,5.326336,0.298346,
+  5.326153,0.314925,5.325968,0.331505,
+  5.325782,0.348084,5.325593,0.364664,
+  5.325593,0.364664,5.346373,0.364870,
+  5.367154,0.365073,5.387937,0.365273,
+  5.408721,0.365470,5.408910,0.348019,
+  5.408910,0.348019,5.427036,0.348188,
+  5.445163,0.348354,5.463291,0.348518,
+  5.481420,0.348679,5.499551,0.348838,
+  5.517682,0.348993,5.535814,0.349146,
+  5.535814,0.349146,5.535972,0.332421,
+  5.536127,0.315696,5.536281,0.298970,
+  5.536434,0.282245,5.536584,0.265520,
+  5.536734,0.248795,5.536882,0.232069,
+  5.537029,0.215344,5.521729,0.215215,
+  5.506430,0.215084,5.491130,0.214951,
+  5.491130,0.214951,5.491285,0.197983,
+  5.491439,0.181016,5.491592,0.164048,
+  5.491745,0.147080,5.491896,0.130112,
+  5.492047,0.113144,5.481128,0.113048,
+  5.481128,0.113048,5.481284,0.095596,
+  5.481439,0.078143,5.481595,0.060690,
+  1.017855,-0.921478,1.061124,-0.921932,
+  1.061124,-0.921932,1.060545,-0.941321,
+  1.059936,-0.960711,1.059291,-0.980100,
+  1.059291,-0.980100,1.088120,-0.980408,
+  1.116962,-0.980721,1.145817,-0.981039,
+  1.145817,-0.981039,1.145285,-0.995581,
+  1.144727,-1.010122,1.144144,-1.024664,
+  1.144144,-1.024664,1.176596,-1.025026,
+  1.209068,-1.025393,1.208259,-1.043933,
+  1.207396,-1.062472,1.206475,-1.081010,
+  1.205486,-1.099549,1.204423,-1.118087,
+  1.203276,-1.136624,1.202033,-1.155161,
+  1.200682,-1.173697,1.199535,-1.188235,
+  1.198302,-1.202773,1.196973,-1.217310,
+  1.196973,-1.217310,1.248718,-1.217904,
+  1.300547,-1.218510,1.352460,-1.219125,
+  1.404461,-1.219748,1.456550,-1.220376,
+  1.508728,-1.221009,1.560997,-1.221644,
+  1.613357,-1.222280,1.665809,-1.222915,
+  1.718353,-1.223547,1.720076,-1.206104,
+  1.721648,-1.188661,1.723089,-1.171216,
+  1.724416,-1.153771,1.725642,-1.136325,
+  1.726780,-1.118878,1.688487,-1.118418,
+  1.650230,-1.117956,1.612010,-1.117493,
+  1.573826,-1.117030,1.574892,-1.099583,
+  1.575887,-1.082135,1.576819,-1.064687,
+  1.576819,-1.064687,1.544114,-1.064290,
+  1.511432,-1.063893,1.478773,-1.063497,
+  1.446138,-1.063103,1.447141,-1.042747,
+  1.448076,-1.022390,1.448951,-1.002034,
+  1.448951,-1.002034,1.416323,-1.001640,
+  1.383714,-1.001249,1.351125,-1.000861,
+  1.318556,-1.000475,1.319354,-0.980118,
+  1.320105,-0.959760,1.320813,-0.939403,
+  1.320813,-0.939403,1.288241,-0.939020,
+  1.255685,-0.938642,1.223146,-0.938268,
+  1.190623,-0.937898,1.191174,-0.920448,
+  1.191699,-0.902997,1.192202,-0.885547,
+  1.192683,-0.868096,1.193145,-0.850646,
+  1.132412,-0.849970,1.108562,-0.849709,
+  1.084720,-0.849452,1.084282,-0.866902,
+  1.083825,-0.884353,1.051343,-0.884008,
+  1.018874,-0.883669,1.018377,-0.902574,
+  3.417714,1.332191,3.418679,1.314739,
+  3.419523,1.297287,3.420268,1.279835,
+  3.420931,1.262383,3.421525,1.244931,
+  3.422061,1.227479,3.422547,1.210026,
+  3.422547,1.210026,3.473288,1.210209,
+  3.524055,1.210423,3.574852,1.210667,
+  3.625682,1.210941,3.676550,1.211243,
+  3.676550,1.211243,3.677388,1.193792,
+  3.678156,1.176342,3.678862,1.158891,
+  3.679514,1.141440,3.722153,1.141715,
+  3.764819,1.142009,3.807512,1.142321,
+  3.850235,1.142651,3.892988,1.142999,
+  3.935775,1.143364,3.978595,1.143744,
+  4.021451,1.144140,4.064344,1.144551,
+  4.107276,1.144976,4.106207,1.162424,
+  4.105048,1.179872,4.103786,1.197318,
+  4.102407,1.214765,4.158085,1.215335,
+  4.213848,1.215926,4.269700,1.216536,
+  4.325643,1.217163,4.323913,1.234606,
+  4.322000,1.252049,4.319875,1.269490,
+  4.317496,1.286930,4.314815,1.304368,
+  4.314815,1.304368,4.377032,1.305082,
+  4.439411,1.305812,4.501957,1.306555,
+  4.564675,1.307309,4.561355,1.324742,
+  4.557541,1.342172,4.553108,1.359599,
+  4.547892,1.377021,4.541659,1.394436,
+  4.541659,1.394436,4.671478,1.396014,
+  4.671478,1.396014,4.663699,1.413420,
+  4.654003,1.430815,4.641578,1.448192,
+  4.625076,1.465545,4.602096,1.482859,
+  4.567914,1.500104,4.828403,1.503273,
+  5.101528,1.506355,5.388198,1.509109,
+  5.011200,0.832520,4.986388,0.832231,
+  4.961583,0.831940,4.936787,0.831647,
+  4.911999,0.831352,4.887218,0.831056,
+  4.862446,0.830759,4.837682,0.830461,
+  4.812926,0.830162,4.788178,0.829862,
+  4.788178,0.829862,4.787705,0.847313,
+  4.787213,0.864763,4.786700,0.882213,
+  4.786700,0.882213,4.759776,0.881887,
+  4.732863,0.881560,4.705961,0.881233,
+  4.679069,0.880906,4.652188,0.880580,
+  4.625318,0.880254,4.598458,0.879929,
+  4.571609,0.879605,4.544770,0.879283,
+  4.517941,0.878962,4.491123,0.878643,
+  4.464315,0.878326,4.463798,0.895778,
+  4.463798,0.895778,4.436642,0.895459,
+  4.409497,0.895143,4.382362,0.894830,
+  4.355238,0.894519,4.328124,0.894212,
+  4.301021,0.893909,4.273927,0.893609,
+  4.246843,0.893313,4.219770,0.893021,
+  4.192705,0.892733,4.165651,0.892450,
+  3.791749,0.958922,3.791377,0.975284,
+  3.790987,0.991645,3.790577,1.008006,
+  3.790146,1.024367,3.789690,1.040728,
+  3.789208,1.057088,3.788697,1.073449,
+  3.788155,1.089810,3.748922,1.089530,
+  3.709709,1.089266,3.670514,1.089019,
+  3.631337,1.088788,3.592176,1.088574,
+  3.553030,1.088377,3.552626,1.105828,
+  3.552626,1.105828,3.514243,1.105653,
+  3.475873,1.105494,3.437513,1.105352,
+  3.399163,1.105229,3.360822,1.105123,
+  3.322488,1.105035,3.284160,1.104964,
+  3.245836,1.104912,3.207515,1.104879,
+  3.169197,1.104863,3.169184,1.119408,
+  3.169171,1.133952,3.169157,1.148496,
+  3.169157,1.148496,3.126706,1.148500,
+  3.084253,1.148527,3.041797,1.148575,
+  2.999336,1.148647,2.999546,1.166100,
+  2.999775,1.183553,3.000023,1.201006,
+  3.000295,1.218459,3.000594,1.235912,
+  3.000925,1.253365,3.001293,1.270818,
+  3.001293,1.270818,2.940705,1.270958,
+  2.880087,1.271144,2.819430,1.271374,
+  2.758726,1.271649,2.697965,1.271966,
+  2.637141,1.272325,2.576244,1.272724,
+  2.515268,1.273162,2.454203,1.273638,
+  5.537029,0.215344,5.554516,0.215489,
+  5.554516,0.215489,5.554414,0.227123,
+  5.554414,0.227123,5.573360,0.227277,
+  5.592306,0.227428,5.611253,0.227575,
+  5.611253,0.227575,5.611387,0.210916,
+  5.611520,0.194256,5.611653,0.177597,
+  5.611785,0.160937,5.611916,0.144278,
+  5.612046,0.127618,5.612176,0.110959,
+  5.612305,0.094299,5.612434,0.077640,
+  5.612563,0.060980,5.612691,0.044321,
+  0.966090,0.007046,0.982998,0.006878,
+  0.999906,0.006707,1.016813,0.006535,
+  1.033721,0.006361,1.050628,0.006185,
+  1.067535,0.006008,1.084443,0.005828,
+  1.101350,0.005647,1.118257,0.005464,
+  1.135165,0.005280,1.152072,0.005095,
+  1.168979,0.004907,1.185886,0.004719,
+  1.202793,0.004529,1.219701,0.004338,
+  1.236608,0.004145,1.249696,0.003995,
+  1.249696,0.003995,1.249496,-0.013457,
+  1.249296,-0.030909,1.249095,-0.048361,
+  1.248895,-0.065813,1.267069,-0.066022,
+  1.285243,-0.066232,1.303418,-0.066444,
+  1.321593,-0.066657,1.339768,-0.066870,
+  1.357943,-0.067085,1.357735,-0.084537,
+  1.357526,-0.101989,1.357317,-0.119441,
+  1.357107,-0.136893,1.356896,-0.154345,
+  1.356684,-0.171798,1.356470,-0.189250,
+  1.356470,-0.189250,1.334668,-0.188992,
+  1.312868,-0.188736,1.312682,-0.204007,
+  1.312495,-0.219278,1.312306,-0.234549,
+  1.312116,-0.249819,1.290318,-0.249565,
+  1.290318,-0.249565,1.290105,-0.266681,
+  1.289890,-0.283797,1.289673,-0.300914,
+  1.289453,-0.318030,1.289231,-0.335147,
+  1.289007,-0.352263,1.288779,-0.369379,
+  1.288548,-0.386495,1.288315,-0.403612,
+  1.288077,-0.420728,1.287836,-0.437844,
+  1.287592,-0.454960,1.287343,-0.472077,
+  1.135797,-0.692908,1.114949,-0.692680,
+  1.094104,-0.692454,1.073263,-0.692231,
+  1.052426,-0.692011,1.031593,-0.691793,
+  1.031593,-0.691793,1.031282,-0.709244,
+  1.030963,-0.726696,1.030633,-0.744147,
+  1.030292,-0.761599,1.006878,-0.761357,
+  0.983470,-0.761120,0.960067,-0.760886,
+  0.936668,-0.760656,0.913275,-0.760429,
+  0.913275,-0.760429,0.912951,-0.777881,
+  0.912615,-0.795333,0.885560,-0.795076,
+  0.858512,-0.794826,0.831471,-0.794581,
+  0.804436,-0.794343,0.804121,-0.811795,
+  0.803794,-0.829246,0.803454,-0.846698,
+  0.803454,-0.846698,0.774653,-0.846450,
+  0.745859,-0.846211,0.717074,-0.845979,
+  0.717074,-0.845979,0.716752,-0.863431,
+  0.716418,-0.880883,0.684067,-0.880631,
+  0.651727,-0.880389,0.651405,-0.897842,
+  0.651068,-0.915294,0.650716,-0.932746,
+  0.650716,-0.932746,0.618430,-0.932515,
+  0.586153,-0.932294,0.585852,-0.948001,
+  0.585537,-0.963708,0.585208,-0.979415,
+  0.584863,-0.995122,0.584500,-1.010828,
+  0.584500,-1.010828,0.553849,-1.010629,
+  0.523207,-1.010439,0.492573,-1.010259,
+  0.461948,-1.010090,0.431331,-1.009931,
+  0.400721,-1.009783,0.370118,-1.009645,
+  0.370118,-1.009645,0.370377,-0.992193,
+  0.370622,-0.974740,0.370856,-0.957287,
+  0.371078,-0.939835,0.371289,-0.922382,
+  0.371289,-0.922382,0.403523,-0.922527,
+  0.435763,-0.922684,0.435999,-0.905231,
+  0.436224,-0.887777,0.468505,-0.887946,
+  0.500793,-0.888126,0.501066,-0.868735,
+  0.501328,-0.849343,0.501578,-0.829951,
+  0.501578,-0.829951,0.527451,-0.830104,
+  0.553328,-0.830264,0.579209,-0.830431,
+  0.605096,-0.830605,0.630987,-0.830785,
+  0.630987,-0.830785,0.631260,-0.812969,
+  0.631524,-0.795153,0.631777,-0.777337,
+  0.632022,-0.759521,0.632259,-0.741705,
+  0.632489,-0.723889,0.632711,-0.706073,
+  0.632926,-0.688257,0.654565,-0.688413,
+  0.676207,-0.688574,0.697852,-0.688739,
+  0.719499,-0.688908,0.741150,-0.689083,
+  0.762804,-0.689261,0.784460,-0.689444,
+  0.806120,-0.689630,0.806225,-0.682359,
+  0.806225,-0.682359,0.827891,-0.682550,
+  0.849560,-0.682744,0.871232,-0.682943,
+  0.892908,-0.683145,0.914587,-0.683351,
+  0.936270,-0.683560,0.936520,-0.667926,
+  0.936764,-0.652292,0.937002,-0.636657,
+  0.937235,-0.621023,0.958937,-0.621236,
+  0.980642,-0.621453,1.002351,-0.621672,
+  1.002351,-0.621672,1.002609,-0.604778,
+  1.002861,-0.587884,1.003107,-0.570989,
+  1.003347,-0.554095,1.003583,-0.537200,
+  1.003814,-0.520306,1.004041,-0.503411,
+  1.004263,-0.486517,1.004482,-0.469622,
+  1.004697,-0.452728,1.004908,-0.435833,
+  1.005116,-0.418938,0.985976,-0.418744,
+  0.966839,-0.418553,0.947702,-0.418364,
+  0.928568,-0.418178,0.909435,-0.417995,
+  0.890303,-0.417814,0.871173,-0.417636,
+  0.852044,-0.417461,0.832917,-0.417289,
+  0.813791,-0.417120,0.794667,-0.416955,
+  0.775543,-0.416792,0.756422,-0.416633,
+  0.737301,-0.416477,0.718182,-0.416324,
+  0.887268,-0.022742,0.906898,-0.022926,
+  0.926528,-0.023113,0.946158,-0.023303,
+  0.965788,-0.023496,0.965939,-0.008225,
+  0.632926,-0.688257,0.611290,-0.688105,
+  0.589657,-0.687958,0.568026,-0.687817,
+  0.546398,-0.687680,0.524772,-0.687548,
+  0.503148,-0.687420,0.481526,-0.687298,
+  0.459906,-0.687182,0.460064,-0.669105,
+  0.460217,-0.651029,0.460366,-0.632953,
+  0.460512,-0.614877,0.460653,-0.596800,
+  0.460791,-0.578724,0.460926,-0.560648,
+  0.461058,-0.542572,0.461187,-0.524495,
+  0.461313,-0.506419,0.461437,-0.488343,
+  0.461558,-0.470267,0.461678,-0.452190,
+  1.682023,0.208275,1.682225,0.224273,
+  1.682430,0.240271,1.682635,0.256268,
+  1.682843,0.272266,1.683052,0.288264,
+  1.683264,0.304262,1.659278,0.304551,
+  1.659278,0.304551,1.659511,0.322003,
+  1.659747,0.339455,1.659986,0.356907,
+  1.660229,0.374359,1.642782,0.374571,
+  1.625334,0.374783,1.607885,0.374994,
+  1.590434,0.375207,1.572981,0.375419,
+  1.572981,0.375419,1.573310,0.398687,
+  1.573310,0.398687,1.573570,0.416721,
+  1.573834,0.434754,1.574103,0.452788,
+  1.574377,0.470821,1.574655,0.488855,
+  1.964555,0.615133,1.984559,0.614907,
+  2.004560,0.614684,2.024558,0.614463,
+  2.044553,0.614243,2.064545,0.614026,
+  2.064545,0.614026,2.064266,0.596574,
+  2.063993,0.579121,2.085726,0.578887,
+  2.107456,0.578656,2.129183,0.578428,
+  1.862579,0.171213,1.845136,0.171418,
+  1.845136,0.171418,1.845347,0.188869,
+  1.845560,0.206321,1.827392,0.206535,
+  1.809224,0.206750,1.791055,0.206965,
+  1.772885,0.207182,1.754714,0.207400,
+  1.736543,0.207618,1.718370,0.207836,
+  1.700197,0.208056,1.682023,0.208275,
+  5.618705,-0.636335,5.618903,-0.652818,
+  5.619106,-0.669301,5.619315,-0.685784,
+  5.619529,-0.702267,5.619749,-0.718750,
+  5.619976,-0.735232,5.620209,-0.751715,
+  5.620450,-0.768198,5.620698,-0.784681,
+  5.620698,-0.784681,5.621006,-0.804315,
+  5.621326,-0.823948,5.621660,-0.843582,
+  5.622009,-0.863215,5.650770,-0.862999,
+  5.679523,-0.862790,5.708270,-0.862589,
+  5.737010,-0.862397,5.765744,-0.862214,
+  5.794472,-0.862039,5.794722,-0.879491,
+  5.794982,-0.896944,5.795253,-0.914396,
+  5.795538,-0.931848,5.795836,-0.949301,
+  5.796148,-0.966753,5.796478,-0.984205,
+  5.796478,-0.984205,5.827695,-0.984025,
+  5.858905,-0.983857,5.890107,-0.983698,
+  5.921303,-0.983551,5.952492,-0.983416,
+  5.983675,-0.983291,6.014852,-0.983178,
+  6.046025,-0.983076,6.077193,-0.982987,
+  6.108357,-0.982908,6.139519,-0.982842,
+  6.139519,-0.982842,6.139411,-0.965389,
+  6.139309,-0.947936,6.139212,-0.930483,
+  6.139119,-0.913029,6.139030,-0.895576,
+  6.138945,-0.878123,6.138864,-0.860670,
+  6.138786,-0.843217,6.138711,-0.825763,
+  6.138638,-0.808310,6.138569,-0.790857,
+  6.138501,-0.773404,6.138436,-0.755951,
+  6.138373,-0.738497,6.138312,-0.721044,
+  6.138253,-0.703591,6.138196,-0.686138,
+  6.138196,-0.686138,6.138140,-0.668685,
+  6.138086,-0.651231,6.138033,-0.633778,
+  6.138033,-0.633778,6.116410,-0.633823,
+  6.094787,-0.633873,6.073162,-0.633929,
+  6.051536,-0.633991,6.029910,-0.634058,
+  6.008282,-0.634131,5.986654,-0.634209,
+  5.965024,-0.634293,5.943392,-0.634382,
+  5.921760,-0.634476,5.900125,-0.634576,
+  5.878489,-0.634681,5.856852,-0.634792,
+  5.835213,-0.634907,5.813571,-0.635028,
+  5.791928,-0.635154,5.770283,-0.635284,
+  5.748636,-0.635420,5.726987,-0.635561,
+  5.705335,-0.635706,5.683681,-0.635856,
+  5.662025,-0.636011,5.640367,-0.636171,
+  4.285806,0.064637,4.269813,0.064461,
+  4.253821,0.064287,4.237829,0.064115,
+  4.237829,0.064115,4.237640,0.081567,
+  4.237451,0.099019,4.237262,0.116472,
+  4.237072,0.133924,4.236880,0.151376,
+  4.236688,0.168828,4.236495,0.186281,
+  4.236300,0.203733,4.236104,0.221185,
+  4.235906,0.238637,4.235707,0.256090,
+  4.235506,0.273542,4.213728,0.273309,
+  4.191951,0.273079,4.191753,0.290532,
+  4.191553,0.307984,4.191350,0.325437,
+  4.191145,0.342889,4.190938,0.360342,
+  4.190728,0.377794,4.205960,0.377954,
+  4.221194,0.378115,4.220977,0.395567,
+  4.220757,0.413019,4.220533,0.430471,
+  4.788178,0.829862,4.772898,0.829677,
+  4.772898,0.829677,4.773367,0.811713,
+  4.773818,0.793750,4.774253,0.775786,
+  4.774674,0.757822,4.775080,0.739857,
+  4.775473,0.721893,4.775853,0.703929,
+  4.776223,0.685965,4.776581,0.668000,
+  4.776930,0.650036,4.777269,0.632071,
+  4.777600,0.614107,4.777922,0.596142,
+  4.778236,0.578177,4.778543,0.560213,
+  4.778844,0.542248,4.779137,0.524283,
+  4.779137,0.524283,4.804236,0.524587,
+  4.829340,0.524890,4.829619,0.507439,
+  4.829892,0.489987,4.830160,0.472536,
+  4.830424,0.455084,4.849135,0.455310,
+  4.867848,0.455535,4.886564,0.455759,
+  4.905281,0.455983,4.924001,0.456206,
+  4.942722,0.456428,4.961446,0.456650,
+  4.961446,0.456650,4.961573,0.447923,
+  4.961573,0.447923,4.961850,0.428653,
+  4.962122,0.409384,4.962390,0.390114,
+  4.962653,0.370844,4.962856,0.355816,
+  4.963057,0.340788,4.963256,0.325760,
+  4.911147,0.211687,4.893154,0.211472,
+  4.875161,0.211256,4.857170,0.211040,
+  4.839179,0.210823,4.821189,0.210605,
+  4.803200,0.210387,4.802941,0.230748,
+  4.802680,0.251109,4.785224,0.250898,
+  4.767770,0.250686,4.750316,0.250474,
+  4.732863,0.250262,4.715411,0.250050,
+  4.697960,0.249838,4.680510,0.249626,
+  4.663061,0.249414,4.645613,0.249202,
+  4.628166,0.248991,4.610719,0.248780,
+  4.593274,0.248570,4.575830,0.248360,
+  4.558386,0.248150,4.540944,0.247941,
+  4.540944,0.247941,4.541109,0.234852,
+  4.541273,0.221763,4.522585,0.221540,
+  4.503897,0.221318,4.485211,0.221097,
+  4.466525,0.220877,4.447840,0.220658,
+  4.429156,0.220440,4.410473,0.220224,
+  4.410473,0.220224,4.410680,0.203095,
+  4.410886,0.185966,4.411090,0.168837,
+  4.411293,0.151709,4.411495,0.134580,
+  4.411696,0.117451,4.411897,0.100322,
+  4.412096,0.083193,4.412295,0.066064,
+  4.412295,0.066064,4.394225,0.065856,
+  4.376154,0.065649,4.358084,0.065444,
+  4.340014,0.065240,4.321945,0.065037,
+  4.303875,0.064836,4.285806,0.064637,
+  1.017855,-0.921478,0.989024,-0.921183,
+  0.960204,-0.920894,0.931395,-0.920611,
+  0.931395,-0.920611,0.930879,-0.939516,
+  0.930336,-0.958421,0.929763,-0.977326,
+  0.929157,-0.996230,0.890351,-0.995858,
+  0.851565,-0.995497,0.851011,-1.012948,
+  0.850426,-1.030399,0.849805,-1.047849,
+  0.849145,-1.065299,0.848443,-1.082749,
+  0.847693,-1.100199,0.846889,-1.117649,
+  0.846026,-1.135098,0.845095,-1.152547,
+  0.844088,-1.169995,0.799897,-1.169600,
+  0.755745,-1.169221,0.711630,-1.168860,
+  0.667551,-1.168517,0.623505,-1.168194,
+  0.579491,-1.167891,0.580219,-1.150440,
+  0.580891,-1.132989,0.581516,-1.115538,
+  0.582097,-1.098086,0.582640,-1.080635,
+  0.583149,-1.063184,0.583626,-1.045732,
+  0.584076,-1.028280,0.584500,-1.010828,
+  2.450517,0.112925,2.467950,0.112789,
+  2.485383,0.112655,2.502816,0.112525,
+  2.520249,0.112398,2.537681,0.112274,
+  2.537681,0.112274,2.537557,0.094820,
+  2.537433,0.077367,2.537309,0.059914,
+  2.537186,0.042461,2.537063,0.025008,
+  2.536940,0.007555,2.536817,-0.009898,
+  2.536817,-0.009898,2.536694,-0.027351,
+  2.536571,-0.044803,2.536448,-0.062256,
+  2.536324,-0.079709,2.536200,-0.097162,
+  2.536076,-0.114615,2.535951,-0.132068,
+  2.535826,-0.149520,2.535699,-0.166973,
+  2.535573,-0.184426,2.535445,-0.201879,
+  2.535445,-0.201879,2.553447,-0.202004,
+  2.571449,-0.202126,2.589452,-0.202245,
+  2.607455,-0.202360,2.625459,-0.202472,
+  2.643463,-0.202580,2.661468,-0.202686,
+  2.679473,-0.202787,2.697478,-0.202886,
+  2.715484,-0.202980,2.733490,-0.203071,
+  2.751497,-0.203159,2.769504,-0.203243,
+  2.787511,-0.203323,2.805518,-0.203400,
+  2.823526,-0.203473,2.841534,-0.203542,
+  3.388852,-0.395794,3.407486,-0.395739,
+  3.426120,-0.395681,3.444753,-0.395619,
+  3.463385,-0.395553,3.482018,-0.395483,
+  3.500649,-0.395409,3.519280,-0.395330,
+  3.537910,-0.395248,3.556540,-0.395162,
+  3.575169,-0.395073,3.593797,-0.394979,
+  3.612425,-0.394882,3.631051,-0.394780,
+  3.649677,-0.394675,3.668302,-0.394567,
+  3.686926,-0.394455,3.705549,-0.394339,
+  3.724172,-0.394219,3.742793,-0.394096,
+  3.761413,-0.393970,3.761591,-0.415785,
+  3.761773,-0.437601,3.781254,-0.437465,
+  3.800734,-0.437325,3.820212,-0.437182,
+  3.839690,-0.437035,3.859166,-0.436884,
+  3.878640,-0.436730,3.898113,-0.436572,
+  3.917584,-0.436411,3.937054,-0.436247,
+  3.937054,-0.436247,3.937237,-0.453699,
+  3.937423,-0.471152,3.937612,-0.488605,
+  3.937804,-0.506057,3.938000,-0.523510,
+  2.476697,-0.428347,2.458075,-0.428204,
+  2.439454,-0.428058,2.420834,-0.427908,
+  2.402215,-0.427756,2.402388,-0.410303,
+  2.402559,-0.392851,2.402727,-0.375398,
+  2.402893,-0.357945,2.403057,-0.340493,
+  2.403057,-0.340493,2.384300,-0.340336,
+  2.365544,-0.340176,2.346789,-0.340014,
+  2.328036,-0.339848,2.309283,-0.339679,
+  2.290532,-0.339508,2.271782,-0.339334,
+  2.271782,-0.339334,2.271964,-0.321881,
+  2.272145,-0.304429,2.253194,-0.304250,
+  2.234244,-0.304069,2.215296,-0.303885,
+  2.215296,-0.303885,2.215483,-0.286432,
+  2.215667,-0.268980,2.215850,-0.251527,
+  2.216032,-0.234075,2.216212,-0.216622,
+  2.216390,-0.199170,2.197820,-0.198987,
+  2.179252,-0.198801,2.160683,-0.198613,
+  2.142116,-0.198423,2.142302,-0.180971,
+  2.142487,-0.163518,2.142671,-0.146066,
+  2.142854,-0.128614,2.143037,-0.111161,
+  2.143218,-0.093709,2.143399,-0.076257,
+  2.143580,-0.058804,2.143760,-0.041352,
+  2.143940,-0.023900,2.144120,-0.006447,
+  1.196973,-1.217310,1.195233,-1.234753,
+  1.193309,-1.252196,1.191171,-1.269637,
+  1.188779,-1.287077,1.186082,-1.304515,
+  1.186082,-1.304515,1.116508,-1.303733,
+  1.047124,-1.302978,0.977923,-1.302254,
+  0.908894,-1.301564,0.906499,-1.317915,
+  0.903781,-1.334264,0.900667,-1.350611,
+  0.897062,-1.366956,0.892839,-1.383298,
+  0.887819,-1.399637,0.881751,-1.415970,
+  0.874265,-1.432296,0.751295,-1.431157,
+  0.629191,-1.430162,0.507815,-1.429326,
+  0.387027,-1.428658,0.266685,-1.428169,
+  0.146644,-1.427865,0.026763,-1.427749,
+  0.026763,-1.427749,0.026886,-1.411387,
+  0.026986,-1.395024,0.027069,-1.378662,
+  0.027139,-1.362299,0.027199,-1.345937,
+  0.027251,-1.329574,0.027297,-1.313212,
+  0.027337,-1.296849,0.089955,-1.296885,
+  0.152587,-1.296970,0.215241,-1.297104,
+  0.215241,-1.297104,0.214595,-1.314556,
+  0.214595,-1.314556,0.287505,-1.314774,
+  0.360482,-1.315057,0.361616,-1.297093,
+  0.362613,-1.279128,0.363497,-1.261163,
+  0.364288,-1.243198,0.364999,-1.225233,
+  0.365642,-1.207268,0.366228,-1.189303,
+  0.366763,-1.171337,0.367254,-1.153372,
+  0.367707,-1.135406,0.368127,-1.117440,
+  0.368517,-1.099475,0.368880,-1.081509,
+  0.369219,-1.063543,0.369537,-1.045577,
+  0.369836,-1.027611,0.370118,-1.009645,
+  0.844088,-1.169995,0.888500,-1.170409,
+  0.932954,-1.170839,0.977454,-1.171284,
+  1.022000,-1.171742,1.066594,-1.172214,
+  1.111239,-1.172697,1.155934,-1.173192,
+  5.640639,-1.299476,5.703768,-1.299011,
+  5.766801,-1.298588,5.829746,-1.298207,
+  5.892615,-1.297871,5.955416,-1.297582,
+  6.018161,-1.297339,6.080859,-1.297144,
+  6.143521,-1.296998,6.143110,-1.280636,
+  6.142742,-1.264273,6.142410,-1.247911,
+  6.142109,-1.231549,6.141835,-1.215187,
+  6.141584,-1.198824,6.141353,-1.182462,
+  6.141140,-1.166100,6.098728,-1.166193,
+  6.056307,-1.166309,6.013873,-1.166446,
+  5.971425,-1.166605,5.928961,-1.166785,
+  5.886478,-1.166987,5.843975,-1.167209,
+  5.801450,-1.167451,5.800833,-1.150793,
+  5.800260,-1.134134,5.799727,-1.117476,
+  5.799229,-1.100817,5.798763,-1.084159,
+  5.798325,-1.067500,5.797913,-1.050841,
+  5.797524,-1.034182,5.797157,-1.017523,
+  5.796808,-1.000864,5.796478,-0.984205,
+  5.620698,-0.784681,5.597123,-0.784864,
+  5.573544,-0.785053,5.549960,-0.785247,
+  5.526372,-0.785446,5.502779,-0.785650,
+  5.479181,-0.785858,5.455578,-0.786072,
+  5.431970,-0.786289,5.408357,-0.786512,
+  5.384739,-0.786738,5.361116,-0.786969,
+  5.361116,-0.786969,5.361452,-0.803693,
+  5.361800,-0.820418,5.362161,-0.837142,
+  5.362536,-0.853866,5.362925,-0.870591,
+  5.363330,-0.887315,5.363752,-0.904039,
+  5.364192,-0.920763,5.364652,-0.937487,
+  5.365133,-0.954210,5.365638,-0.970934,
+  5.366168,-0.987657,5.366751,-1.005108,
+  5.367367,-1.022558,5.368018,-1.040009,
+  5.368018,-1.040009,5.400327,-1.039694,
+  5.432619,-1.039387,5.464895,-1.039089,
+  5.497155,-1.038799,5.529399,-1.038518,
+  5.561629,-1.038247,5.593844,-1.037985,
+  5.626046,-1.037733,5.626581,-1.055184,
+  5.627150,-1.072635,5.627756,-1.090086,
+  5.628405,-1.107537,5.629101,-1.124987,
+  5.629849,-1.142438,5.630656,-1.159888,
+  5.631532,-1.177338,5.632483,-1.194788,
+  5.633523,-1.212237,5.634665,-1.229686,
+  5.635924,-1.247134,5.637322,-1.264582,
+  5.638883,-1.282030,5.640639,-1.299476,
+  6.012054,0.613801,5.998857,0.613756,
+  5.998857,0.613756,5.998810,0.622482,
+  5.998810,0.622482,5.977254,0.622403,
+  5.955699,0.622319,5.934145,0.622229,
+  5.912593,0.622134,5.891043,0.622034,
+  5.869494,0.621929,5.847947,0.621819,
+  5.826401,0.621703,5.804858,0.621583,
+  5.783316,0.621458,5.783157,0.638911,
+  5.783157,0.638911,5.766668,0.638812,
+  2.842263,-0.011558,2.842329,0.005895,
+  2.842394,0.023349,2.842460,0.040802,
+  2.842525,0.058255,2.842591,0.075708,
+  2.842656,0.093161,2.842722,0.110614,
+  2.842722,0.110614,2.824780,0.110683,
+  2.806838,0.110756,2.788895,0.110832,
+  2.770952,0.110912,2.753009,0.110996,
+  2.735066,0.111083,2.717123,0.111174,
+  2.699180,0.111269,2.681236,0.111367,
+  2.663293,0.111468,2.645349,0.111573,
+  2.627404,0.111682,2.609460,0.111793,
+  2.591516,0.111909,2.573571,0.112027,
+  2.555626,0.112149,2.537681,0.112274,
+  2.454736,0.575419,2.475334,0.575259,
+  2.495930,0.575103,2.516524,0.574951,
+  2.537117,0.574803,2.557707,0.574659,
+  2.578295,0.574519,2.598882,0.574384,
+  2.619467,0.574253,2.619314,0.556801,
+  2.619164,0.539348,2.619017,0.521895,
+  2.618873,0.504442,2.618732,0.486989,
+  2.618732,0.486989,2.638799,0.486865,
+  2.658865,0.486746,2.678929,0.486632,
+  2.698992,0.486521,2.719054,0.486416,
+  2.739115,0.486314,2.759175,0.486217,
+  2.779234,0.486125,2.779135,0.468672,
+  2.779038,0.451219,2.778942,0.433766,
+  2.778847,0.416313,2.778754,0.398860,
+  2.778754,0.398860,2.800465,0.398765,
+  2.822174,0.398675,2.843883,0.398591,
+  2.843883,0.398591,2.843961,0.416045,
+  2.844040,0.433498,2.865738,0.433419,
+  2.887434,0.433346,2.909131,0.433278,
+  2.909131,0.433278,2.909186,0.448550,
+  2.909243,0.463821,2.909301,0.479093,
+  2.909359,0.494365,2.929853,0.494306,
+  2.950346,0.494252,2.970839,0.494204,
+  2.991331,0.494160,3.011823,0.494122,
+  3.032314,0.494088,3.052805,0.494060,
+  3.073296,0.494037,3.093786,0.494019,
+  3.114276,0.494006,3.134767,0.493998,
+  3.134690,0.232199,3.134685,0.214745,
+  3.134681,0.197292,3.134676,0.179839,
+  3.134676,0.179839,3.116392,0.179846,
+  3.098108,0.179857,3.079824,0.179872,
+  3.061540,0.179891,3.043256,0.179914,
+  3.043256,0.179914,3.043231,0.162460,
+  3.043207,0.145007,3.043182,0.127554,
+  3.043158,0.110101,3.043134,0.092647,
+  3.043110,0.075194,3.043086,0.057741,
+  3.043062,0.040287,3.043038,0.022834,
+  3.043014,0.005381,3.042990,-0.012072,
+  3.042990,-0.012072,3.042967,-0.029526,
+  3.042943,-0.046979,3.042919,-0.064432,
+  3.042895,-0.081886,3.042871,-0.099339,
+  2.841869,-0.116277,2.841935,-0.098824,
+  2.842001,-0.081371,2.842067,-0.063917,
+  2.842133,-0.046464,2.842198,-0.029011,
+  2.454736,0.575419,2.454942,0.593599,
+  2.455153,0.611779,2.455369,0.629958,
+  2.455592,0.648138,2.455820,0.666318,
+  2.456055,0.684497,2.477703,0.684329,
+  2.499348,0.684165,2.520991,0.684006,
+  2.542631,0.683851,2.542864,0.703486,
+  2.543105,0.723120,2.564728,0.722970,
+  2.586347,0.722824,2.607965,0.722684,
+  2.629579,0.722548,2.651191,0.722418,
+  2.672801,0.722292,2.694408,0.722172,
+  2.694408,0.722172,2.694241,0.704719,
+  2.694080,0.687265,2.716934,0.687143,
+  2.739786,0.687027,2.762636,0.686917,
+  2.785485,0.686813,2.808331,0.686714,
+  2.831175,0.686622,2.854018,0.686536,
+  2.854018,0.686536,2.853913,0.669083,
+  2.853811,0.651630,2.853712,0.634177,
+  2.853615,0.616724,2.853521,0.599271,
+  2.853428,0.581818,2.872190,0.581751,
+  2.890951,0.581689,2.909712,0.581631,
+  2.909712,0.581631,2.909638,0.564178,
+  2.909566,0.546724,2.909496,0.529271,
+  2.909427,0.511818,2.909359,0.494365,
+  1.626919,-0.192513,1.608375,-0.192288,
+  1.589831,-0.192062,1.571288,-0.191837,
+  1.552746,-0.191611,1.534899,-0.191394,
+  1.517053,-0.191178,1.499207,-0.190962,
+  1.481363,-0.190746,1.463519,-0.190530,
+  1.445675,-0.190315,1.427833,-0.190101,
+  1.409991,-0.189887,1.392150,-0.189674,
+  1.374310,-0.189461,1.356470,-0.189250,
+  3.976785,-0.008278,3.958605,-0.008438,
+  3.940425,-0.008596,3.922245,-0.008750,
+  3.904064,-0.008902,3.885884,-0.009050,
+  3.867704,-0.009196,3.867842,-0.026649,
+  3.867981,-0.044102,3.868120,-0.061555,
+  3.868259,-0.079008,3.868399,-0.096460,
+  3.868539,-0.113913,3.868679,-0.131366,
+  3.868821,-0.148819,3.850616,-0.148962,
+  3.832411,-0.149102,3.814206,-0.149238,
+  3.796000,-0.149372,3.777794,-0.149502,
+  3.759588,-0.149629,3.759711,-0.167082,
+  3.759835,-0.184535,3.759960,-0.201988,
+  3.760086,-0.219441,3.760212,-0.236894,
+  3.760340,-0.254346,3.760469,-0.271799,
+  3.760599,-0.289252,3.760731,-0.306705,
+  3.760864,-0.324158,3.760999,-0.341611,
+  3.761135,-0.359064,3.761273,-0.376517,
+  3.938000,-0.523510,3.957731,-0.523340,
+  3.977459,-0.523167,3.997185,-0.522990,
+  4.016909,-0.522811,4.036631,-0.522628,
+  4.056351,-0.522443,4.076069,-0.522254,
+  4.095784,-0.522063,4.115498,-0.521869,
+  4.135209,-0.521672,4.134965,-0.503250,
+  4.134726,-0.484829,4.134492,-0.466407,
+  4.134262,-0.447985,4.134036,-0.429563,
+  4.133814,-0.411142,4.133596,-0.392720,
+  4.133380,-0.374298,4.133168,-0.355876,
+  4.133168,-0.355876,4.149570,-0.355710,
+  4.165971,-0.355543,4.182371,-0.355373,
+  4.198770,-0.355202,4.198563,-0.337750,
+  4.198359,-0.320298,4.198157,-0.302846,
+  4.197958,-0.285393,4.197760,-0.267941,
+  4.197565,-0.250489,4.197371,-0.233037,
+  4.197178,-0.215584,4.196988,-0.198132,
+  4.196798,-0.180680,4.196610,-0.163227,
+  4.196423,-0.145775,4.196246,-0.129196,
+  4.196069,-0.112616,4.195894,-0.096036,
+  4.195719,-0.079457,4.195545,-0.062877,
+  4.195545,-0.062877,4.177358,-0.063067,
+  4.159171,-0.063254,4.140984,-0.063439,
+  4.122797,-0.063622,4.104610,-0.063803,
+  4.086422,-0.063982,4.068234,-0.064158,
+  4.050046,-0.064331,4.031858,-0.064502,
+  4.013669,-0.064671,3.995480,-0.064836,
+  3.977291,-0.065000,3.977122,-0.046092,
+  3.976954,-0.027185,3.976785,-0.008278,
+  3.980808,-0.968230,3.980340,-0.950779,
+  3.980340,-0.950779,4.017845,-0.950442,
+  4.055332,-0.950094,4.054857,-0.932643,
+  4.054405,-0.915192,4.053972,-0.897741,
+  4.053558,-0.880290,4.053161,-0.862838,
+  4.052780,-0.845387,4.082112,-0.845107,
+  4.111434,-0.844822,4.140747,-0.844530,
+  4.140747,-0.844530,4.140356,-0.827079,
+  4.139981,-0.809627,4.139619,-0.792176,
+  4.139269,-0.774724,4.138932,-0.757272,
+  4.138605,-0.739821,4.160552,-0.739599,
+  4.182494,-0.739374,4.204431,-0.739146,
+  4.226364,-0.738915,4.226017,-0.720736,
+  4.225680,-0.702557,4.225354,-0.684379,
+  4.225038,-0.666200,4.224730,-0.648021,
+  4.224431,-0.629842,4.224140,-0.611663,
+  4.223855,-0.593484,4.223578,-0.575305,
+  4.223308,-0.557126,4.223043,-0.538947,
+  4.222784,-0.520768,4.200894,-0.520998,
+  4.179002,-0.521226,4.157107,-0.521450,
+  2.131555,1.040974,2.170385,1.040571,
+  2.209189,1.040179,2.247968,1.039797,
+  2.247968,1.039797,2.247327,1.022347,
+  2.246722,1.004897,2.246149,0.987446,
+  2.245606,0.969995,2.245089,0.952545,
+  2.244598,0.935094,2.244129,0.917643,
+  2.243681,0.900191,2.243252,0.882740,
+  2.242841,0.865289,2.242447,0.847837,
+  2.242068,0.830386,2.241703,0.812934,
+  2.241703,0.812934,2.266049,0.812700,
+  2.290390,0.812471,2.314725,0.812247,
+  2.339054,0.812027,2.363378,0.811812,
+  2.387696,0.811603,2.412009,0.811398,
+  2.436317,0.811199,2.436025,0.793747,
+  2.435743,0.776295,2.435471,0.758843,
+  2.435208,0.741390,2.434952,0.723938,
+  2.434952,0.723938,2.456589,0.723765,
+  2.478223,0.723597,2.499853,0.723433,
+  2.521481,0.723274,2.543105,0.723120,
+  5.063769,0.484022,5.064022,0.466570,
+  5.064270,0.449119,5.043726,0.448882,
+  5.023184,0.448645,5.002645,0.448406,
+  4.982108,0.448165,4.961573,0.447923,
+  1.902753,-1.488092,1.678186,-1.485503,
+  1.460506,-1.482858,1.249095,-1.480283,
+  1.043161,-1.477888,0.841823,-1.475770,
+  0.841823,-1.475770,0.861050,-1.454048,
+  1.718353,-1.223547,1.716456,-1.240989,
+  1.714355,-1.258430,1.712015,-1.275869,
+  1.709389,-1.293307,1.706421,-1.310742,
+  1.706421,-1.310742,1.777828,-1.311593,
+  1.849465,-1.312432,1.921331,-1.313254,
+  1.948697,-1.444712,1.930481,-1.466428,
+  5.617021,-0.479262,5.617193,-0.496715,
+  5.617368,-0.514167,5.617547,-0.531620,
+  5.617729,-0.549072,5.617916,-0.566525,
+  5.618106,-0.583977,5.618301,-0.601430,
+  5.618501,-0.618882,5.618705,-0.636335,
+  5.361116,-0.786969,5.360786,-0.770002,
+  5.360467,-0.753035,5.360157,-0.736068,
+  5.359858,-0.719101,5.359567,-0.702134,
+  5.359284,-0.685167,5.359009,-0.668200,
+  5.358741,-0.651233,5.358480,-0.634265,
+  5.358226,-0.617298,5.357977,-0.600331,
+  5.357734,-0.583363,5.357497,-0.566396,
+  5.357265,-0.549429,5.357037,-0.532461,
+  5.356814,-0.515494,5.356595,-0.498526,
+  1.662002,-0.000937,1.662213,0.016515,
+  1.662425,0.033967,1.662636,0.051418,
+  1.662849,0.068870,1.663061,0.086322,
+  1.663274,0.103774,1.663488,0.121226,
+  1.663703,0.138678,1.663919,0.156130,
+  1.664137,0.173582,1.681585,0.173371,
+  1.681585,0.173371,1.681803,0.190823,
+  2.142116,-0.198423,2.125039,-0.198246,
+  2.107963,-0.198067,2.090887,-0.197887,
+  2.073812,-0.197705,2.056737,-0.197521,
+  2.039664,-0.197336,2.022590,-0.197149,
+  2.005518,-0.196960,1.988446,-0.196770,
+  1.971375,-0.196579,1.954305,-0.196386,
+  1.552746,-0.191611,1.552965,-0.174159,
+  1.553183,-0.156707,1.553400,-0.139256,
+  1.553616,-0.121804,1.553830,-0.104352,
+  1.554044,-0.086900,1.554258,-0.069448,
+  1.554258,-0.069448,1.572073,-0.069665,
+  1.589889,-0.069881,1.607704,-0.070097,
+  1.625521,-0.070313,1.643337,-0.070529,
+  1.661154,-0.070745,1.661366,-0.053293,
+  1.661578,-0.035841,1.661790,-0.018389,
+  4.058761,-1.054798,4.094808,-1.054454,
+  4.130832,-1.054101,4.166833,-1.053739,
+  4.202810,-1.053368,4.238763,-1.052990,
+  4.274692,-1.052605,4.310596,-1.052212,
+  4.338375,-0.798787,4.338030,-0.783517,
+  4.337694,-0.768247,4.337369,-0.752977,
+  4.337052,-0.737707,4.314925,-0.737954,
+  4.292792,-0.738198,4.270654,-0.738439,
+  4.248511,-0.738678,4.226364,-0.738915,
+  4.785607,-1.308552,4.852450,-1.307740,
+  4.919093,-1.306935,4.985541,-1.306140,
+  5.051798,-1.305360,5.117870,-1.304596,
+  5.183764,-1.303853,5.249485,-1.303134,
+  5.315041,-1.302441,5.380440,-1.301779,
+  5.445691,-1.301148,5.510801,-1.300553,
+  5.575781,-1.299994,5.640639,-1.299476,
+  6.143521,-1.296998,6.199198,-1.296909,
+  6.254863,-1.296860,0.027337,-1.296849,
+  4.286574,-0.005173,4.286382,0.012279,
+  4.286190,0.029732,4.285998,0.047184,
+  4.912379,0.111338,4.894390,0.111123,
+  4.876400,0.110907,4.858412,0.110691,
+  4.840423,0.110474,4.822436,0.110257,
+  4.804448,0.110040,4.804635,0.094769,
+  4.804822,0.079498,4.820094,0.079683,
+  4.835366,0.079867,4.850638,0.080051,
+  4.850638,0.080051,4.850796,0.066962,
+  4.850954,0.053873,4.835682,0.053689,
+  4.820411,0.053505,4.805139,0.053320,
+  4.805139,0.053320,4.805351,0.035868,
+  4.805563,0.018416,4.805775,0.000963,
+  4.805775,0.000963,4.787595,0.000743,
+  4.769416,0.000523,4.751237,0.000302,
+  4.733057,0.000082,4.714878,-0.000139,
+  4.696698,-0.000360,4.696911,-0.017812,
+  4.697123,-0.035264,4.697335,-0.052717,
+  4.697548,-0.070169,4.715002,-0.069957,
+  4.732455,-0.069745,4.732668,-0.087197,
+  4.732882,-0.104649,4.733097,-0.122101,
+  4.733312,-0.139552,4.733529,-0.157004,
+  4.733747,-0.174456,4.714113,-0.174695,
+  4.694479,-0.174933,4.674844,-0.175171,
+  4.655209,-0.175409,4.655390,-0.189953,
+  4.655573,-0.204497,4.633751,-0.204760,
+  4.633751,-0.204760,4.633569,-0.190217,
+  4.633387,-0.175674,4.615204,-0.175894,
+  4.597020,-0.176113,4.578836,-0.176332,
+  4.560651,-0.176549,4.542466,-0.176767,
+  4.524279,-0.176983,4.524494,-0.194436,
+  4.524710,-0.211888,4.524928,-0.229340,
+  4.525148,-0.246792,4.525370,-0.264244,
+  4.525593,-0.281696,4.544512,-0.281471,
+  4.563430,-0.281244,4.582347,-0.281017,
+  4.601262,-0.280790,4.620176,-0.280562,
+  4.639089,-0.280333,4.639318,-0.297785,
+  4.639551,-0.315237,4.639786,-0.332689,
+  4.640023,-0.350141,4.640264,-0.367593,
+  4.640508,-0.385044,4.640756,-0.402496,
+  4.641007,-0.419948,4.641262,-0.437400,
+  4.641522,-0.454851,4.641786,-0.472303,
+  4.642054,-0.489755,4.642328,-0.507207,
+  4.642607,-0.524658,4.622365,-0.524903,
+  4.602121,-0.525147,4.581873,-0.525390,
+  4.561623,-0.525633,4.541369,-0.525875,
+  4.521113,-0.526116,4.500854,-0.526356,
+  4.480592,-0.526595,4.460328,-0.526833,
+  4.440060,-0.527069,4.419790,-0.527304,
+  4.419790,-0.527304,4.419501,-0.508398,
+  4.419217,-0.489492,4.418940,-0.470586,
+  4.418668,-0.451680,4.418400,-0.432774,
+  4.418400,-0.432774,4.400293,-0.432982,
+  4.382185,-0.433190,4.364074,-0.433396,
+  4.345962,-0.433600,4.327848,-0.433803,
+  4.309732,-0.434005,4.291615,-0.434205,
+  4.291615,-0.434205,4.291368,-0.415589,
+  4.291126,-0.396974,4.290887,-0.378359,
+  4.290652,-0.359743,4.290421,-0.341128,
+  4.290421,-0.341128,4.304625,-0.340972,
+  4.318829,-0.340814,4.318611,-0.323361,
+  4.318611,-0.323361,4.304409,-0.323518,
+  4.290206,-0.323675,4.289988,-0.305786,
+  4.289773,-0.287898,4.289561,-0.270010,
+  4.289350,-0.252121,4.289141,-0.234233,
+  4.288934,-0.216344,4.288728,-0.198456,
+  4.288524,-0.180568,4.288322,-0.162679,
+  4.288120,-0.144791,4.269782,-0.144991,
+  4.251443,-0.145190,4.233103,-0.145387,
+  4.214763,-0.145582,4.196423,-0.145775,
+  4.195545,-0.062877,4.213876,-0.062684,
+  4.232207,-0.062489,4.250538,-0.062292,
+  4.268868,-0.062093,4.287199,-0.061893,
+  4.287199,-0.061893,4.286990,-0.042986,
+  4.286782,-0.024080,4.286574,-0.005173,
+  1.236608,0.004145,1.236801,0.021052,
+  1.236994,0.037959,1.237187,0.054866,
+  1.237381,0.071772,1.237575,0.088679,
+  1.237770,0.105586,1.237966,0.122493,
+  1.238162,0.139400,1.238359,0.156306,
+  1.238558,0.173213,1.238757,0.190120,
+  1.238958,0.207027,1.239160,0.223934,
+  1.239364,0.240840,1.239570,0.257747,
+  1.239777,0.274654,1.258122,0.274443,
+  1.276467,0.274232,1.294810,0.274019,
+  1.313152,0.273804,1.331492,0.273589,
+  1.331492,0.273589,1.331604,0.282316,
+  1.331604,0.282316,1.350817,0.282089,
+  1.370029,0.281862,1.389240,0.281634,
+  1.408449,0.281404,1.427657,0.281174,
+  1.427657,0.281174,1.427543,0.272448,
+  1.427543,0.272448,1.445004,0.272238,
+  1.462464,0.272028,1.479923,0.271817,
+  1.497381,0.271606,1.497155,0.254155,
+  1.496931,0.236703,1.496709,0.219252,
+  1.496709,0.219252,1.518529,0.218988,
+  1.540347,0.218723,1.540593,0.237920,
+  1.540841,0.257117,1.541091,0.276314,
+  1.541344,0.295510,1.541600,0.314707,
+  1.541600,0.314707,1.524144,0.314918,
+  1.524144,0.314918,1.524371,0.331789,
+  1.524601,0.348659,1.524834,0.365530,
+  1.525070,0.382400,1.525310,0.399270,
+  1.525310,0.399270,1.541311,0.399076,
+  1.557311,0.398882,1.573310,0.398687,
+  5.366168,-0.987657,5.334366,-0.987974,
+  5.302549,-0.988298,5.270715,-0.988629,
+  5.238866,-0.988967,5.207001,-0.989310,
+  5.175119,-0.989659,5.143220,-0.990014,
+  5.111304,-0.990373,5.079371,-0.990738,
+  5.047420,-0.991106,5.015451,-0.991479,
+  4.983463,-0.991855,4.951458,-0.992234,
+  4.919434,-0.992616,4.887391,-0.993001,
+  4.855329,-0.993387,4.823248,-0.993775,
+  4.791148,-0.994165,4.759029,-0.994555,
+  5.535814,0.349146,5.553323,0.349291,
+  5.570832,0.349434,5.588342,0.349574,
+  5.588342,0.349574,5.588185,0.367026,
+  5.588026,0.384479,5.587865,0.401931,
+  5.587701,0.419383,5.609607,0.419554,
+  5.631514,0.419720,5.631373,0.435428,
+  5.631229,0.451136,5.631083,0.466843,
+  5.630935,0.482551,5.630785,0.498258,
+  0.065274,0.378653,0.065262,0.362169,
+  0.065250,0.345685,0.065239,0.329202,
+  0.065227,0.312718,0.065216,0.296234,
+  0.065205,0.279751,0.065194,0.263267,
+  0.065183,0.246783,0.065172,0.230300,
+  0.065172,0.230300,0.046577,0.230309,
+  0.027981,0.230314,0.027978,0.215769,
+  0.027975,0.201225,0.027972,0.186680,
+  0.027972,0.186680,0.006107,0.186682,
+  6.267427,0.186677,6.267432,0.172133,
+  6.267437,0.157588,6.267442,0.143044,
+  6.267442,0.143044,6.249687,0.143035,
+  6.231931,0.143023,6.214176,0.143007,
+  6.196420,0.142988,6.178665,0.142964,
+  6.160909,0.142937,6.143154,0.142906,
+  6.125399,0.142871,6.107644,0.142832,
+  6.089889,0.142790,6.072134,0.142744,
+  6.054379,0.142694,6.036625,0.142640,
+  6.018870,0.142583,6.001116,0.142522,
+  5.983362,0.142457,5.983423,0.126458,
+  5.983484,0.110460,5.983545,0.094461,
+  5.983605,0.078462,5.983665,0.062463,
+  0.744006,0.544307,0.744222,0.563699,
+  0.744444,0.583091,0.744671,0.602482,
+  0.744671,0.602482,0.724914,0.602640,
+  0.705155,0.602793,0.705339,0.618791,
+  0.705526,0.634790,0.705719,0.650788,
+  0.705719,0.650788,0.692534,0.650889,
+  1.212775,0.539689,1.192943,0.539912,
+  1.173108,0.540133,1.153270,0.540352,
+  1.133429,0.540570,1.113586,0.540785,
+  1.093741,0.540998,1.073893,0.541209,
+  1.054042,0.541417,1.034189,0.541623,
+  1.014333,0.541827,0.994475,0.542028,
+  0.974614,0.542226,0.954751,0.542422,
+  0.934886,0.542614,0.915019,0.542804,
+  6.139519,-0.982842,6.139603,-0.995932,
+  6.139691,-1.009022,6.171788,-1.008966,
+  6.203883,-1.008922,6.235976,-1.008892,
+  6.268068,-1.008874,0.016974,-1.008869,
+  0.049065,-1.008876,0.081157,-1.008896,
+  0.113250,-1.008929,0.145345,-1.008975,
+  0.177443,-1.009033,0.209544,-1.009104,
+  0.241648,-1.009188,0.273757,-1.009284,
+  0.305872,-1.009392,0.337992,-1.009512,
+  0.459906,-0.687182,0.437424,-0.687065,
+  0.414943,-0.686955,0.392465,-0.686850,
+  0.369988,-0.686751,0.347513,-0.686658,
+  0.325040,-0.686571,0.302568,-0.686490,
+  0.280098,-0.686414,0.257628,-0.686345,
+  0.235160,-0.686281,0.212694,-0.686224,
+  0.190228,-0.686172,0.167763,-0.686127,
+  0.145298,-0.686088,0.122835,-0.686055,
+  0.100372,-0.686028,0.077909,-0.686007,
+  0.055447,-0.685993,0.032985,-0.685985,
+  0.010523,-0.685982,6.271493,-0.685987,
+  6.249277,-0.685997,6.227062,-0.686013,
+  6.204846,-0.686035,6.182630,-0.686063,
+  6.160413,-0.686098,6.138196,-0.686138,
+  1.726780,-1.118878,1.759632,-1.119271,
+  1.583867,-0.885833,1.584370,-0.868928,
+  1.584853,-0.852024,1.585318,-0.835119,
+  1.585766,-0.818214,1.586198,-0.801309,
+  1.586615,-0.784403,1.587018,-0.767498,
+  0.399635,0.587223,0.399522,0.569770,
+  0.399412,0.552316,0.399304,0.534863,
+  0.399198,0.517410,0.399094,0.499957,
+  0.399094,0.499957,0.421775,0.499851,
+  0.444454,0.499740,0.467132,0.499623,
+  0.467132,0.499623,0.467014,0.482170,
+  0.466897,0.464717,0.466783,0.447263,
+  6.051536,-0.633991,6.051461,-0.617265,
+  6.051387,-0.600539,6.051314,-0.583813,
+  6.051244,-0.567087,6.051174,-0.550361,
+  6.051107,-0.533634,6.051040,-0.516908,
+  6.050975,-0.500182,6.050911,-0.483456,
+  6.050848,-0.466730,6.050786,-0.450004,
+  2.109435,-0.891909,2.109873,-0.875003,
+  2.110294,-0.858097,2.110699,-0.841191,
+  2.111089,-0.824286,2.111464,-0.807380,
+  2.111827,-0.790474,2.112178,-0.773567,
+  2.112517,-0.756661,2.136655,-0.756911,
+  2.160799,-0.757158,2.184948,-0.757400,
+  2.209103,-0.757639,2.209435,-0.739460,
+  2.209756,-0.721281,2.210067,-0.703102,
+  2.210368,-0.684923,2.210660,-0.666744,
+  2.210945,-0.648564,2.211207,-0.631331,
+  2.211463,-0.614097,2.211712,-0.596863,
+  2.211956,-0.579629,2.212195,-0.562395,
+  2.212428,-0.545161,2.212656,-0.527927,
+  2.212880,-0.510693,2.213100,-0.493459,
+  2.213316,-0.476225,2.213527,-0.458991,
+  2.213736,-0.441757,2.213940,-0.424523,
+  2.214142,-0.407289,2.214341,-0.390055,
+  2.214537,-0.372821,2.214730,-0.355587,
+  2.214921,-0.338353,2.215109,-0.321119,
+  2.474381,-0.650868,2.452411,-0.650699,
+  2.430443,-0.650525,2.408479,-0.650347,
+  2.386518,-0.650165,2.364559,-0.649979,
+  2.342604,-0.649788,2.320652,-0.649594,
+  2.298704,-0.649395,2.276759,-0.649193,
+  2.254817,-0.648987,2.232879,-0.648777,
+  4.962653,0.370844,4.982746,0.371081,
+  5.002841,0.371316,5.022937,0.371550,
+  5.043035,0.371782,5.063136,0.372013,
+  5.063136,0.372013,5.063355,0.355289,
+  5.063572,0.338564,5.082688,0.338782,
+  5.101805,0.338999,5.120924,0.339214,
+  5.140044,0.339427,5.159166,0.339638,
+  5.178289,0.339848,5.197414,0.340055,
+  5.216540,0.340261,5.216319,0.358440,
+  5.216096,0.376619,5.234317,0.376814,
+  5.252540,0.377006,5.270763,0.377196,
+  5.288988,0.377384,5.307215,0.377570,
+  5.325443,0.377754,5.325593,0.364664,
+  4.969722,-0.207108,4.969936,-0.224414,
+  4.970151,-0.241721,4.970368,-0.259028,
+  4.970588,-0.276334,4.952665,-0.276546,
+  4.934742,-0.276759,4.916817,-0.276973,
+  4.898891,-0.277187,4.880964,-0.277403,
+  4.863036,-0.277618,4.845107,-0.277835,
+  4.827177,-0.278051,4.809246,-0.278268,
+  4.809246,-0.278268,4.790345,-0.278497,
+  4.771442,-0.278727,4.752538,-0.278956,
+  4.733633,-0.279186,4.714727,-0.279416,
+  4.695819,-0.279645,4.676910,-0.279875,
+  4.658000,-0.280104,4.639089,-0.280333,
+  4.642607,-0.524658,4.662978,-0.524411,
+  4.683346,-0.524164,4.703711,-0.523916,
+  4.703711,-0.523916,4.703997,-0.541368,
+  4.704289,-0.558820,4.704587,-0.576271,
+  4.704892,-0.593723,4.705204,-0.611174,
+  4.705524,-0.628626,4.705853,-0.646077,
+  5.057434,-0.790243,5.082779,-0.789952,
+  5.108117,-0.789664,5.133448,-0.789378,
+  5.158772,-0.789096,5.184089,-0.788816,
+  5.209398,-0.788541,5.234701,-0.788269,
+  5.259997,-0.788000,5.285287,-0.787736,
+  5.310569,-0.787476,5.335846,-0.787220,
+  4.893872,-0.067792,4.876422,-0.068002,
+  4.858972,-0.068212,4.841522,-0.068422,
+  4.824072,-0.068633,4.806621,-0.068845,
+  4.806621,-0.068845,4.806834,-0.086297,
+  4.807047,-0.103749,4.807261,-0.121201,
+  4.807476,-0.138653,4.807692,-0.156105,
+  4.807909,-0.173557,4.808128,-0.191009,
+  4.808348,-0.208461,4.808570,-0.225912,
+  4.808793,-0.243364,4.809019,-0.260816,
+  3.976785,-0.008278,3.976630,0.009175,
+  3.976475,0.026627,3.976319,0.044080,
+  3.976164,0.061532,3.976008,0.078985,
+  3.975852,0.096438,3.975695,0.113890,
+];
@@ -0,0 +1,229 @@
+// Calibration.ts — Star-alignment compass correction
+// The user looks at a bright star the app names and pinches; the difference
+// between where they look and where the star should be gives a heading offset
+// that is added to the magnetometer heading and persists across sessions.
+//
+// Heading only: world tracking already provides a gravity-aligned up vector,
+// so the sky is never tilted — only rotated about the vertical.
+
+import { STARS } from './StarData';
+import { CalibrationEvent } from './Types';
+import * as Engine from './SkyEngine';
+
+const STORAGE_KEY = 'skyGuide.headingOffsetDeg';
+const SAMPLES_PER_RUN = 2;
+
+// Calibration stars: bright, named, and at an altitude where azimuth is well defined
+const MAX_TARGET_MAG = 1.5;
+const MIN_TARGET_ALT_RAD = 15 * (Math.PI / 180);
+const MAX_TARGET_ALT_RAD = 70 * (Math.PI / 180);
+const MIN_SECOND_STAR_SEPARATION_DEG = 60; // azimuth spread between the two stars
+
+// Reject pinches that can't be aimed at the named star
+const MAX_AZIMUTH_ERROR_DEG = 45;
+const MAX_ALTITUDE_ERROR_RAD = 10 * (Math.PI / 180);
+
+// Persistent correction (degrees, added to the compass heading)
+let headingOffsetDeg = 0;
+
+// Active run state
+let active = false;
+let targetIndex = -1;
+let previousOffsetDeg = 0;
+let samples: number[] = []; // implied heading offsets, degrees
+let firstTargetAzDeg = NaN;
+
+/**
+ * Load the saved heading correction. Call once at startup.
+ */
+export function init(): void {
+  try {
+    const store = global.persistentStorageSystem.store;
+    if (store.has(STORAGE_KEY)) {
+      headingOffsetDeg = store.getFloat(STORAGE_KEY);
+      print('[SkyGuide] Compass correction loaded: ' + headingOffsetDeg.toFixed(1) + '°');
+    }
+  } catch (e) {
+    print('[SkyGuide] Persistent storage not available: ' + e);
+  }
+}
+
+/**
+ * Heading correction in degrees to add to the compass heading.
+ */
+export function getHeadingOffsetDeg(): number {
+  return headingOffsetDeg;
+}
+
+/**
+ * Compass heading with the calibration applied, in degrees.
+ */
+export function getCorrectedHeadingDeg(): number {
+  return Engine.getObserver().headingDeg + headingOffsetDeg;
+}
+
+export function isCalibrating(): boolean {
+  return active;
+}
+
+/**
+ * Index into STARS of the star the user should look at, or -1.
+ */
+export function getTargetIndex(): number {
+  return active ? targetIndex : -1;
+}
+
+/**
+ * 1-based number of the star being aimed at in the current run.
+ */
+export function getStep(): number {
+  return samples.length + 1;
+}
+
+export function getStepCount(): number {
+  return SAMPLES_PER_RUN;
+}
+
+/**
+ * Start a calibration run on the brightest suitable star.
+ * @returns false if no bright star is high enough right now
+ */
+export function start(): boolean {
+  previousOffsetDeg = headingOffsetDeg;
+  samples = [];
+  firstTargetAzDeg = NaN;
+  targetIndex = pickTarget(NaN);
+  active = targetIndex >= 0;
+  if (active) {
+    print('[SkyGuide] Calibration started on ' + STARS[targetIndex].name);
+  }
+  return active;
+}
+
+/**
+ * Record where the user is looking as the position of the target star.
+ * @param gazeAlt — apparent gaze altitude in radians
+ * @param gazeAz — gaze azimuth in radians, computed with the corrected heading
+ */
+export function capture(gazeAlt: number, gazeAz: number): CalibrationEvent {
+  if (!active || targetIndex < 0) return 'rejected';
+
+  const [starAlt, starAz] = targetAltAz(targetIndex);
+  // The gaze is on the real star; the difference to the drawn star is the heading error
+  const errorDeg = wrapDegrees((gazeAz - starAz) * (180 / Math.PI));
+  if (Math.abs(errorDeg) > MAX_AZIMUTH_ERROR_DEG ||
+    Math.abs(gazeAlt - starAlt) > MAX_ALTITUDE_ERROR_RAD) {
+    print('[SkyGuide] Calibration pinch rejected: ' + errorDeg.toFixed(1) + '° off');
+    return 'rejected';
+  }
+
+  samples.push(wrapDegrees(headingOffsetDeg + errorDeg));
+  headingOffsetDeg = circularMeanDegrees(samples);
+
+  if (samples.length === 1) {
+    firstTargetAzDeg = starAz * (180 / Math.PI);
+  }
+  if (samples.length >= SAMPLES_PER_RUN) {
+    finish();
+    return 'finished';
+  }
+
+  // Second star: well separated in azimuth so compass errors average out
+  const next = pickTarget(firstTargetAzDeg);
+  if (next < 0) {
+    finish();
+    return 'finished';
+  }
+  targetIndex = next;
+  return 'captured';
+}
+
+/**
+ * End the run early. Keeps a one-star result if there is one,
+ * otherwise restores the previous correction.
+ */
+export function stop(): CalibrationEvent {
+  if (active && samples.length > 0) {
+    finish();
+    return 'finished';
+  }
+  headingOffsetDeg = previousOffsetDeg;
+  active = false;
+  targetIndex = -1;
+  return 'cancelled';
+}
+
+/**
+ * Forget the saved correction and trust the compass again.
+ */
+export function reset(): void {
+  headingOffsetDeg = 0;
+  save();
+}
+
+function finish(): void {
+  active = false;
+  targetIndex = -1;
+  save();
+  print('[SkyGuide] Compass correction: ' + headingOffsetDeg.toFixed(1) + '° from ' +
+    samples.length + ' star(s)');
+}
+
+function save(): void {
+  try {
+    global.persistentStorageSystem.store.putFloat(STORAGE_KEY, headingOffsetDeg);
+  } catch (e) {
+    print('[SkyGuide] Could not save compass correction: ' + e);
+  }
+}
+
+/**
+ * Brightest named, visible star in the calibration altitude band. When
+ * awayFromAzDeg is given, the star must sit at least
+ * MIN_SECOND_STAR_SEPARATION_DEG from it in azimuth.
+ */
+function pickTarget(awayFromAzDeg: number): number {
+  const positions = Engine.getStarPositions();
+  const limitingMag = Engine.getLimitingMagnitude();
+  let best = -1;
+
+  for (let i = 0; i < positions.count; i++) {
+    const star = STARS[i];
+    if (!star.name || star.mag > MAX_TARGET_MAG) continue;
+    if (star.mag + positions.extinction[i] > limitingMag) continue;
+
+    const alt = positions.alt[i], az = positions.az[i];
+    if (alt < MIN_TARGET_ALT_RAD || alt > MAX_TARGET_ALT_RAD) continue;
+    if (!isNaN(awayFromAzDeg) && Math.abs(
+      wrapDegrees(az * (180 / Math.PI) - awayFromAzDeg)
+    ) < MIN_SECOND_STAR_SEPARATION_DEG) continue;
+
+    if (best < 0 || star.mag < STARS[best].mag) {
+      best = i;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Apparent altitude and azimuth (radians) of a star from the engine's current positions.
+ */
+export function targetAltAz(index: number): [number, number] {
+  const positions = Engine.getStarPositions();
+  return [positions.alt[index], positions.az[index]];
+}
+
+function wrapDegrees(deg: number): number {
+  return ((deg % 360) + 540) % 360 - 180;
+}
+
+function circularMeanDegrees(values: number[]): number {
+  let s = 0;
+  let c = 0;
+  for (const v of values) {
+    s += Math.sin(v * (Math.PI / 180));
+    c += Math.cos(v * (Math.PI / 180));
+  }
+  return Math.atan2(s, c) * (180 / Math.PI);
+}
@@ -0,0 +1,4494 @@
+// CityData.ts — Auto-generated from GeoNames cities15000 (population >= 100000, or among a country's 3 largest)
+// 4471 cities for choosing a location without GPS
+
+import { CityRecord } from './Types';
+
+// Format: [name, country, lat_deg, lon_deg, elevation_m, timezone, population]
+const RAW: [string, string, number, number, number, string, number][] = [
+  ["Kabul","Afghanistan",34.5281,69.1723,1798,"Asia/Kabul",3043532],
+  ["Kandahar","Afghanistan",31.6133,65.7101,1007,"Asia/Kabul",391190],
+  ["Mazar-e Sharif","Afghanistan",36.7090,67.1109,361,"Asia/Kabul",303282],
+  ["Herat","Afghanistan",34.3482,62.1997,927,"Asia/Kabul",272806],
+  ["Jalalabad","Afghanistan",34.4265,70.4515,575,"Asia/Kabul",200331],
+  ["Kunduz","Afghanistan",36.7290,68.8570,402,"Asia/Kabul",161902],
+  ["Ghazni","Afghanistan",33.5539,68.4210,2179,"Asia/Kabul",141000],
+  ["Balkh","Afghanistan",36.7563,66.8972,348,"Asia/Kabul",114883],
+  ["Baghlan","Afghanistan",36.1307,68.7083,531,"Asia/Kabul",108449],
+  ["Gardez","Afghanistan",33.5974,69.2259,2308,"Asia/Kabul",103601],
+  ["Tirana","Albania",41.3275,19.8189,113,"Europe/Tirane",374801],
+  ["Durres","Albania",41.3231,19.4414,13,"Europe/Tirane",122034],
+  ["Elbasan","Albania",41.1125,20.0822,128,"Europe/Tirane",100903],
+  ["Algiers","Algeria",36.7525,3.0420,186,"Africa/Algiers",1977663],
+  ["Boumerdas","Algeria",36.7664,3.4772,5,"Africa/Algiers",786499],
+  ["Oran","Algeria",35.6911,-0.6417,109,"Africa/Algiers",645984],
+  ["Tebessa","Algeria",35.4042,8.1242,867,"Africa/Algiers",634332],
+  ["Constantine","Algeria",36.3650,6.6147,574,"Africa/Algiers",450097],
+  ["Biskra","Algeria",34.8504,5.7280,115,"Africa/Algiers",307987],
+  ["Setif","Algeria",36.1911,5.4137,1096,"Africa/Algiers",288461],
+  ["Batna","Algeria",35.5560,6.1741,1037,"Africa/Algiers",280798],
+  ["Bab Ezzouar","Algeria",36.7261,3.1829,20,"Africa/Algiers",275630],
+  ["Annaba","Algeria",36.9000,7.7667,5,"Africa/Algiers",206570],
+  ["Sidi Bel Abbes","Algeria",35.1899,-0.6309,492,"Africa/Algiers",191769],
+  ["Blida","Algeria",36.4700,2.8277,256,"Africa/Algiers",182447],
+  ["Tiaret","Algeria",35.3710,1.3170,1031,"Africa/Algiers",178915],
+  ["Chlef","Algeria",36.1653,1.3345,116,"Africa/Algiers",178616],
+  ["Bordj Bou Arreridj","Algeria",36.0732,4.7611,906,"Africa/Algiers",168346],
+  ["Ech Chettia","Algeria",36.1959,1.2554,140,"Africa/Algiers",167955],
+  ["Bejaia","Algeria",36.7559,5.0843,86,"Africa/Algiers",164103],
+  ["Skikda","Algeria",36.8762,6.9092,24,"Africa/Algiers",162702],
+  ["El Achir","Algeria",36.0639,4.6274,998,"Africa/Algiers",158333],
+  ["Souk Ahras","Algeria",36.2864,7.9511,697,"Africa/Algiers",156745],
+  ["Djelfa","Algeria",34.6728,3.2630,1138,"Africa/Algiers",154265],
+  ["Mascara","Algeria",35.3966,0.1403,590,"Africa/Algiers",150000],
+  ["Jijel","Algeria",36.8205,5.7667,9,"Africa/Algiers",148000],
+  ["Medea","Algeria",36.2642,2.7539,910,"Africa/Algiers",147707],
+  ["Tizi Ouzou","Algeria",36.7118,4.0459,206,"Africa/Algiers",144000],
+  ["Bechar","Algeria",31.6167,-2.2167,780,"Africa/Algiers",143382],
+  ["El Oued","Algeria",33.3561,6.8632,84,"Africa/Algiers",134699],
+  ["Tlemcen","Algeria",34.8783,-1.3150,811,"Africa/Algiers",132341],
+  ["Relizane","Algeria",35.7373,0.5560,98,"Africa/Algiers",130094],
+  ["Mostaganem","Algeria",35.9312,0.0892,102,"Africa/Algiers",130000],
+  ["Ouargla","Algeria",31.9493,5.3250,138,"Africa/Algiers",129402],
+  ["El Eulma","Algeria",36.1528,5.6902,959,"Africa/Algiers",128351],
+  ["Saida","Algeria",34.8303,0.1517,840,"Africa/Algiers",127497],
+  ["Guelma","Algeria",36.4621,7.4261,305,"Africa/Algiers",123590],
+  ["Bordj el Kiffan","Algeria",36.7487,3.1925,11,"Africa/Algiers",123246],
+  ["Ain Oussera","Algeria",35.4514,2.9058,685,"Africa/Algiers",118687],
+  ["Khenchela","Algeria",35.4358,7.1433,1128,"Africa/Algiers",117000],
+  ["Laghouat","Algeria",33.8000,2.8651,764,"Africa/Algiers",113872],
+  ["Ain Beida","Algeria",35.7964,7.3928,1008,"Africa/Algiers",105765],
+  ["Baraki","Algeria",36.6666,3.0961,22,"Africa/Algiers",105402],
+  ["Oum el Bouaghi","Algeria",35.8754,7.1135,925,"Africa/Algiers",100821],
+  ["M'Sila","Algeria",35.7058,4.5419,477,"Africa/Algiers",100000],
+  ["Andorra la Vella","Andorra",42.5078,1.5211,1037,"Europe/Andorra",20430],
+  ["les Escaldes","Andorra",42.5073,1.5341,1033,"Europe/Andorra",15853],
+  ["Luanda","Angola",-8.8368,13.2343,73,"Africa/Luanda",2776168],
+  ["N'dalatando","Angola",-9.2978,14.9116,795,"Africa/Luanda",383100],
+  ["Huambo","Angola",-12.7761,15.7392,1716,"Africa/Luanda",226145],
+  ["Lobito","Angola",-12.3644,13.5360,4,"Africa/Luanda",207932],
+  ["Benguela","Angola",-12.5763,13.4055,11,"Africa/Luanda",151226],
+  ["Cuito","Angola",-12.3833,16.9333,1715,"Africa/Luanda",113624],
+  ["Lubango","Angola",-14.9172,13.4925,1760,"Africa/Luanda",102541],
+  ["Saint John's","Antigua and Barbuda",17.1172,-61.8457,1,"America/Antigua",24226],
+  ["Buenos Aires","Argentina",-34.6131,-58.3772,31,"America/Argentina/Buenos_Aires",13076300],
+  ["Cordoba","Argentina",-31.4135,-64.1810,395,"America/Argentina/Cordoba",1428214],
+  ["Rosario","Argentina",-32.9468,-60.6393,38,"America/Argentina/Cordoba",1173533],
+  ["Mendoza","Argentina",-32.8908,-68.8272,746,"America/Argentina/Mendoza",876884],
+  ["San Miguel de Tucuman","Argentina",-26.8241,-65.2226,452,"America/Argentina/Tucuman",781023],
+  ["La Plata","Argentina",-34.9215,-57.9545,27,"America/Argentina/Buenos_Aires",694167],
+  ["Mar del Plata","Argentina",-38.0023,-57.5575,15,"America/Argentina/Buenos_Aires",553935],
+  ["Quilmes","Argentina",-34.7242,-58.2527,24,"America/Argentina/Buenos_Aires",518788],
+  ["Salta","Argentina",-24.7859,-65.4117,1183,"America/Argentina/Salta",512686],
+  ["Santa Fe de la Vera Cruz","Argentina",-31.6333,-60.7000,21,"America/Argentina/Cordoba",489505],
+  ["San Juan","Argentina",-31.5375,-68.5364,649,"America/Argentina/San_Juan",447048],
+  ["Resistencia","Argentina",-27.4606,-58.9839,56,"America/Argentina/Cordoba",387158],
+  ["Santiago del Estero","Argentina",-27.7951,-64.2615,188,"America/Argentina/Cordoba",354692],
+  ["Corrientes","Argentina",-27.4806,-58.8341,63,"America/Argentina/Cordoba",339067],
+  ["Moron","Argentina",-34.6534,-58.6198,29,"America/Argentina/Buenos_Aires",319934],
+  ["Posadas","Argentina",-27.3671,-55.8961,127,"America/Argentina/Cordoba",312060],
+  ["San Salvador de Jujuy","Argentina",-24.1946,-65.2971,1260,"America/Argentina/Jujuy",305891],
+  ["Bahia Blanca","Argentina",-38.7196,-62.2724,24,"America/Argentina/Buenos_Aires",276546],
+  ["Parana","Argentina",-31.7320,-60.5238,60,"America/Argentina/Cordoba",262295],
+  ["Neuquen","Argentina",-38.9516,-68.0591,281,"America/Argentina/Salta",242092],
+  ["Formosa","Argentina",-26.1775,-58.1781,70,"America/Argentina/Cordoba",221383],
+  ["San Fernando del Valle de Catamarca","Argentina",-28.4696,-65.7852,545,"America/Argentina/Catamarca",188812],
+  ["San Luis","Argentina",-33.2950,-66.3356,729,"America/Argentina/San_Luis",183982],
+  ["La Rioja","Argentina",-29.4110,-66.8507,502,"America/Argentina/La_Rioja",162620],
+  ["Rio Cuarto","Argentina",-33.1307,-64.3499,441,"America/Argentina/Cordoba",153757],
+  ["Concordia","Argentina",-31.3930,-58.0209,30,"America/Argentina/Cordoba",145210],
+  ["Comodoro Rivadavia","Argentina",-45.8641,-67.4966,65,"America/Argentina/Catamarca",140850],
+  ["San Nicolas de los Arroyos","Argentina",-33.3358,-60.2252,25,"America/Argentina/Buenos_Aires",127742],
+  ["Villa Lugano","Argentina",-34.6791,-58.4726,19,"America/Argentina/Buenos_Aires",114000],
+  ["Santa Rosa","Argentina",-36.6167,-64.2833,179,"America/Argentina/Salta",111424],
+  ["San Rafael","Argentina",-34.6177,-68.3301,702,"America/Argentina/Mendoza",109163],
+  ["Tandil","Argentina",-37.3217,-59.1332,192,"America/Argentina/Buenos_Aires",104325],
+  ["Yerevan","Armenia",40.1811,44.5136,994,"Asia/Yerevan",1093485],
+  ["Gyumri","Armenia",40.7942,43.8453,1549,"Asia/Yerevan",148381],
+  ["Vanadzor","Armenia",40.8046,44.4939,1344,"Asia/Yerevan",101098],
+  ["Babijn","Aruba",12.5333,-69.9833,28,"America/Aruba",40627],
+  ["Oranjestad","Aruba",12.5240,-70.0270,5,"America/Aruba",29998],
+  ["Angochi","Aruba",12.5167,-69.9500,83,"America/Aruba",29442],
+  ["Sydney","Australia",-33.8678,151.2073,58,"Australia/Sydney",4627345],
+  ["Melbourne","Australia",-37.8140,144.9633,25,"Australia/Melbourne",4246375],
+  ["Brisbane","Australia",-27.4679,153.0281,27,"Australia/Brisbane",2189878],
+  ["Perth","Australia",-31.9522,115.8614,34,"Australia/Perth",1896548],
+  ["Adelaide","Australia",-34.9287,138.5986,59,"Australia/Adelaide",1225235],
+  ["Gold Coast","Australia",-28.0003,153.4309,12,"Australia/Brisbane",591473],
+  ["Canberra","Australia",-35.2835,149.1281,571,"Australia/Sydney",367752],
+  ["Newcastle","Australia",-32.9271,151.7765,21,"Australia/Sydney",308308],
+  ["Wollongong","Australia",-34.4240,150.8935,29,"Australia/Sydney",292190],
+  ["Logan City","Australia",-27.6392,153.1094,39,"Australia/Brisbane",282673],
+  ["Geelong","Australia",-38.1471,144.3607,23,"Australia/Melbourne",226034],
+  ["Hobart","Australia",-42.8794,147.3294,19,"Australia/Hobart",216656],
+  ["Townsville","Australia",-19.2664,146.8057,15,"Australia/Brisbane",196219],
+  ["Cairns","Australia",-16.9230,145.7663,7,"Australia/Brisbane",153075],
+  ["Toowoomba","Australia",-27.5606,151.9539,599,"Australia/Brisbane",131258],
+  ["Darwin","Australia",-12.4611,130.8418,31,"Australia/Darwin",129062],
+  ["Rockingham","Australia",-32.2768,115.7298,8,"Australia/Perth",108022],
+  ["Launceston","Australia",-41.4388,147.1347,11,"Australia/Hobart",106153],
+  ["Bendigo","Australia",-36.7582,144.2802,221,"Australia/Melbourne",100617],
+  ["Vienna","Austria",48.2085,16.3721,171,"Europe/Vienna",1691468],
+  ["Graz","Austria",47.0667,15.4500,363,"Europe/Vienna",222326],
+  ["Linz","Austria",48.3064,14.2861,266,"Europe/Vienna",181162],
+  ["Salzburg","Austria",47.7994,13.0440,424,"Europe/Vienna",150269],
+  ["Innsbruck","Austria",47.2627,11.3945,570,"Europe/Vienna",112467],
+  ["Baku","Azerbaijan",40.3777,49.8920,-23,"Asia/Baku",1116513],
+  ["Ganja","Azerbaijan",40.6828,46.3606,417,"Asia/Baku",313300],
+  ["Sumqayit","Azerbaijan",40.5897,49.6686,-11,"Asia/Baku",265150],
+  ["Lǝnkǝran","Azerbaijan",38.7543,48.8506,-16,"Asia/Baku",240300],
+  ["Nassau","Bahamas",25.0582,-77.3431,5,"America/Nassau",227940],
+  ["Lucaya","Bahamas",26.5333,-78.6667,7,"America/Nassau",46525],
+  ["Freeport","Bahamas",26.5333,-78.7000,6,"America/Nassau",26910],
+  ["Manama","Bahrain",26.2154,50.5832,5,"Asia/Bahrain",147074],
+  ["Al Muharraq","Bahrain",26.2572,50.6119,7,"Asia/Bahrain",97458],
+  ["Ar Rifa'","Bahrain",26.1300,50.5550,43,"Asia/Bahrain",79550],
+  ["Dhaka","Bangladesh",23.7104,90.4074,23,"Asia/Dhaka",10356500],
+  ["Chittagong","Bangladesh",22.3384,91.8317,15,"Asia/Dhaka",3920222],
+  ["Khulna","Bangladesh",22.8098,89.5644,8,"Asia/Dhaka",1342339],
+  ["Rajshahi","Bangladesh",24.3740,88.6011,23,"Asia/Dhaka",700133],
+  ["Comilla","Bangladesh",23.4619,91.1850,17,"Asia/Dhaka",389411],
+  ["Rangpur","Bangladesh",25.7466,89.2517,36,"Asia/Dhaka",343122],
+  ["Tungi","Bangladesh",23.8915,90.4023,13,"Asia/Dhaka",337579],
+  ["Narsingdi","Bangladesh",23.9230,90.7177,13,"Asia/Dhaka",281080],
+  ["Cox's Bazar","Bangladesh",21.4539,91.9677,8,"Asia/Dhaka",253788],
+  ["Jessore","Bangladesh",23.1697,89.2137,15,"Asia/Dhaka",243987],
+  ["Nagarpur","Bangladesh",24.0578,89.8770,15,"Asia/Dhaka",238422],
+  ["Sylhet","Bangladesh",24.8990,91.8720,26,"Asia/Dhaka",237000],
+  ["Mymensingh","Bangladesh",24.7564,90.4065,19,"Asia/Dhaka",225126],
+  ["Narayanganj","Bangladesh",23.6135,90.5030,13,"Asia/Dhaka",223622],
+  ["Bogra","Bangladesh",24.8510,89.3711,26,"Asia/Dhaka",210000],
+  ["Dinajpur","Bangladesh",25.6274,88.6378,42,"Asia/Dhaka",206234],
+  ["Barisal","Bangladesh",22.7050,90.3701,10,"Asia/Dhaka",202242],
+  ["Saidpur","Bangladesh",25.7777,88.8917,43,"Asia/Dhaka",199422],
+  ["Par Naogaon","Bangladesh",24.8042,88.9488,20,"Asia/Dhaka",192464],
+  ["Pabna","Bangladesh",24.0064,89.2372,19,"Asia/Dhaka",186781],
+  ["Tangail","Bangladesh",24.2498,89.9166,17,"Asia/Dhaka",180144],
+  ["Jamalpur","Bangladesh",24.9197,89.9481,23,"Asia/Dhaka",167900],
+  ["Nawabganj","Bangladesh",24.5903,88.2744,28,"Asia/Dhaka",142361],
+  ["Kushtia","Bangladesh",23.9028,89.1194,17,"Asia/Dhaka",135724],
+  ["Satkhira","Bangladesh",22.7082,89.0718,11,"Asia/Dhaka",128918],
+  ["Sirajganj","Bangladesh",24.4577,89.7080,19,"Asia/Dhaka",127481],
+  ["Faridpur","Bangladesh",23.6061,89.8406,15,"Asia/Dhaka",112187],
+  ["Sherpur","Bangladesh",25.0188,90.0175,25,"Asia/Dhaka",107419],
+  ["Bhairab Bazar","Bangladesh",24.0524,90.9764,12,"Asia/Dhaka",105457],
+  ["Shahzadpur","Bangladesh",24.1769,89.5988,16,"Asia/Dhaka",102420],
+  ["Bridgetown","Barbados",13.1000,-59.6167,10,"America/Barbados",98511],
+  ["Minsk","Belarus",53.9000,27.5667,222,"Europe/Minsk",1742124],
+  ["Homyel'","Belarus",52.4345,30.9754,138,"Europe/Minsk",480951],
+  ["Mahilyow","Belarus",53.9168,30.3449,184,"Europe/Minsk",369200],
+  ["Vitebsk","Belarus",55.1904,30.2049,150,"Europe/Minsk",342700],
+  ["Hrodna","Belarus",53.6884,23.8258,139,"Europe/Minsk",317365],
+  ["Brest","Belarus",52.0975,23.6878,142,"Europe/Minsk",300715],
+  ["Babruysk","Belarus",53.1384,29.2214,159,"Europe/Minsk",220517],
+  ["Baranavichy","Belarus",53.1327,26.0139,199,"Europe/Minsk",168772],
+  ["Pinsk","Belarus",52.1229,26.0951,139,"Europe/Minsk",130777],
+  ["Orsha","Belarus",54.5081,30.4172,159,"Europe/Minsk",125347],
+  ["Novoye Medvezhino","Belarus",53.8833,27.4500,242,"Europe/Minsk",120000],
+  ["Mazyr","Belarus",52.0495,29.2456,152,"Europe/Minsk",112137],
+  ["Malinovka","Belarus",53.8579,27.4374,238,"Europe/Minsk",105000],
+  ["Salihorsk","Belarus",52.7876,27.5415,157,"Europe/Minsk",101614],
+  ["Maladzyechna","Belarus",54.3167,26.8540,161,"Europe/Minsk",101300],
+  ["Navapolatsk","Belarus",55.5318,28.5987,131,"Europe/Minsk",100885],
+  ["Horad Barysaw","Belarus",54.2279,28.5050,172,"Europe/Minsk",100000],
+  ["Brussels","Belgium",50.8505,4.3488,28,"Europe/Brussels",1019022],
+  ["Antwerpen","Belgium",51.2199,4.4035,10,"Europe/Brussels",459805],
+  ["Gent","Belgium",51.0500,3.7167,10,"Europe/Brussels",231493],
+  ["Charleroi","Belgium",50.4114,4.4445,136,"Europe/Brussels",200132],
+  ["Liege","Belgium",50.6337,5.5675,66,"Europe/Brussels",182597],
+  ["Brugge","Belgium",51.2089,3.2242,13,"Europe/Brussels",116709],
+  ["Namur","Belgium",50.4669,4.8675,88,"Europe/Brussels",106284],
+  ["Belize City","Belize",17.4995,-88.1976,6,"America/Belize",61461],
+  ["San Ignacio","Belize",17.1561,-89.0714,85,"America/Belize",16812],
+  ["Orange Walk","Belize",18.0812,-88.5633,16,"America/Belize",15298],
+  ["Cotonou","Benin",6.3654,2.4183,7,"Africa/Porto-Novo",690584],
+  ["Abomey-Calavi","Benin",6.4485,2.3557,11,"Africa/Porto-Novo",385755],
+  ["Djougou","Benin",9.7085,1.6660,444,"Africa/Porto-Novo",237040],
+  ["Porto-Novo","Benin",6.4965,2.6036,20,"Africa/Porto-Novo",234168],
+  ["Parakou","Benin",9.3372,2.6303,369,"Africa/Porto-Novo",163753],
+  ["Bohicon","Benin",7.1783,2.0667,166,"Africa/Porto-Novo",125092],
+  ["Kandi","Benin",11.1342,2.9386,294,"Africa/Porto-Novo",109701],
+  ["Thimphu","Bhutan",27.4661,89.6419,2320,"Asia/Thimphu",98676],
+  ["Punakha","Bhutan",27.5914,89.8774,1293,"Asia/Thimphu",21500],
+  ["Tsirang","Bhutan",27.0219,90.1229,1410,"Asia/Thimphu",18667],
+  ["Santa Cruz de la Sierra","Bolivia",-17.7863,-63.1812,433,"America/La_Paz",1364389],
+  ["Cochabamba","Bolivia",-17.3895,-66.1568,2577,"America/La_Paz",900414],
+  ["La Paz","Bolivia",-16.5000,-68.1500,3782,"America/La_Paz",812799],
+  ["Sucre","Bolivia",-19.0333,-65.2627,2798,"America/La_Paz",224838],
+  ["Oruro","Bolivia",-17.9833,-67.1500,3936,"America/La_Paz",208684],
+  ["Tarija","Bolivia",-21.5355,-64.7296,1870,"America/La_Paz",159269],
+  ["Potosi","Bolivia",-19.5836,-65.7531,3967,"America/La_Paz",141251],
+  ["Sarajevo","Bosnia and Herzegovina",43.8486,18.3564,509,"Europe/Sarajevo",696731],
+  ["Banja Luka","Bosnia and Herzegovina",44.7758,17.1856,166,"Europe/Sarajevo",221106],
+  ["Zenica","Bosnia and Herzegovina",44.2017,17.9040,325,"Europe/Sarajevo",164423],
+  ["Tuzla","Bosnia and Herzegovina",44.5384,18.6671,225,"Europe/Sarajevo",142486],
+  ["Mostar","Bosnia and Herzegovina",43.3433,17.8081,66,"Europe/Sarajevo",104518],
+  ["Gaborone","Botswana",-24.6545,25.9086,1011,"Africa/Gaborone",208411],
+  ["Francistown","Botswana",-21.1700,27.5079,989,"Africa/Gaborone",89979],
+  ["Molepolole","Botswana",-24.4066,25.4951,1146,"Africa/Gaborone",63248],
+  ["Sao Paulo","Brazil",-23.5475,-46.6361,769,"America/Sao_Paulo",10021295],
+  ["Rio de Janeiro","Brazil",-22.9028,-43.2075,5,"America/Sao_Paulo",6023699],
+  ["Salvador","Brazil",-12.9711,-38.5108,10,"America/Bahia",2711840],
+  ["Fortaleza","Brazil",-3.7172,-38.5431,18,"America/Fortaleza",2400000],
+  ["Belo Horizonte","Brazil",-19.9208,-43.9378,888,"America/Sao_Paulo",2373224],
+  ["Brasilia","Brazil",-15.7797,-47.9297,1136,"America/Sao_Paulo",2207718],
+  ["Curitiba","Brazil",-25.4278,-49.2731,924,"America/Sao_Paulo",1718421],
+  ["Manaus","Brazil",-3.1019,-60.0250,20,"America/Manaus",1598210],
+  ["Recife","Brazil",-8.0539,-34.8811,8,"America/Recife",1478098],
+  ["Belem","Brazil",-1.4558,-48.5044,15,"America/Belem",1407737],
+  ["Porto Alegre","Brazil",-30.0331,-51.2300,46,"America/Sao_Paulo",1372741],
+  ["Goiania","Brazil",-16.6786,-49.2539,766,"America/Sao_Paulo",1171195],
+  ["Guarulhos","Brazil",-23.4628,-46.5333,774,"America/Sao_Paulo",1169577],
+  ["Campinas","Brazil",-22.9056,-47.0608,686,"America/Sao_Paulo",1031554],
+  ["Nova Iguacu","Brazil",-22.7592,-43.4511,36,"America/Sao_Paulo",1002118],
+  ["Maceio","Brazil",-9.6658,-35.7353,11,"America/Maceio",954991],
+  ["Sao Luis","Brazil",-2.5297,-44.3028,29,"America/Fortaleza",917237],
+  ["Duque de Caxias","Brazil",-22.7856,-43.3117,15,"America/Sao_Paulo",818329],
+  ["Natal","Brazil",-5.7950,-35.2094,32,"America/Fortaleza",763043],
+  ["Teresina","Brazil",-5.0892,-42.8019,87,"America/Fortaleza",744512],
+  ["Sao Bernardo do Campo","Brazil",-23.6939,-46.5650,796,"America/Sao_Paulo",743372],
+  ["Campo Grande","Brazil",-20.4428,-54.6464,592,"America/Campo_Grande",729151],
+  ["Jaboatao","Brazil",-8.1803,-35.0014,88,"America/Recife",702621],
+  ["Osasco","Brazil",-23.5325,-46.7917,750,"America/Sao_Paulo",677856],
+  ["Santo Andre","Brazil",-23.6639,-46.5383,801,"America/Sao_Paulo",662373],
+  ["Joao Pessoa","Brazil",-7.1150,-34.8631,45,"America/Fortaleza",650883],
+  ["Jaboatao dos Guararapes","Brazil",-8.1128,-35.0147,48,"America/Recife",630008],
+  ["Contagem","Brazil",-19.9317,-44.0536,945,"America/Sao_Paulo",627123],
+  ["Ribeirao Preto","Brazil",-21.1775,-47.8103,554,"America/Sao_Paulo",619746],
+  ["Sao Jose dos Campos","Brazil",-23.1794,-45.8869,20,"America/Sao_Paulo",613764],
+  ["Uberlandia","Brazil",-18.9186,-48.2772,867,"America/Sao_Paulo",563536],
+  ["Sorocaba","Brazil",-23.5017,-47.4581,602,"America/Sao_Paulo",558862],
+  ["Cuiaba","Brazil",-15.5961,-56.0967,193,"America/Cuiaba",521934],
+  ["Aparecida de Goiania","Brazil",-16.8233,-49.2439,829,"America/Sao_Paulo",510770],
+  ["Aracaju","Brazil",-10.9111,-37.0717,11,"America/Maceio",490175],
+  ["Feira de Santana","Brazil",-12.2667,-38.9667,223,"America/Bahia",481911],
+  ["Londrina","Brazil",-23.3103,-51.1628,605,"America/Sao_Paulo",471832],
+  ["Juiz de Fora","Brazil",-21.7642,-43.3503,707,"America/Sao_Paulo",470193],
+  ["Belford Roxo","Brazil",-22.7642,-43.3994,22,"America/Sao_Paulo",466096],
+  ["Joinville","Brazil",-26.3044,-48.8456,9,"America/Sao_Paulo",461304],
+  ["Niteroi","Brazil",-22.8833,-43.1036,44,"America/Sao_Paulo",456456],
+  ["Sao Joao de Meriti","Brazil",-22.8039,-43.3722,14,"America/Sao_Paulo",454849],
+  ["Ananindeua","Brazil",-1.3656,-48.3722,19,"America/Belem",433956],
+  ["Florianopolis","Brazil",-27.5967,-48.5492,26,"America/Sao_Paulo",412724],
+  ["Santos","Brazil",-23.9608,-46.3336,12,"America/Sao_Paulo",411403],
+  ["Ribeirao das Neves","Brazil",-19.7669,-44.0867,804,"America/Sao_Paulo",406802],
+  ["Vila Velha","Brazil",-20.3297,-40.2925,5,"America/Sao_Paulo",394930],
+  ["Serra","Brazil",-20.1286,-40.3078,57,"America/Sao_Paulo",394153],
+  ["Diadema","Brazil",-23.6861,-46.6228,784,"America/Sao_Paulo",390633],
+  ["Campos","Brazil",-21.7523,-41.3304,13,"America/Sao_Paulo",387417],
+  ["Maua","Brazil",-23.6678,-46.4614,773,"America/Sao_Paulo",386069],
+  ["Betim","Brazil",-19.9678,-44.1983,834,"America/Sao_Paulo",384000],
+  ["Caxias do Sul","Brazil",-29.1681,-51.1794,787,"America/Sao_Paulo",381270],
+  ["Sao Jose do Rio Preto","Brazil",-20.8197,-49.3794,505,"America/Sao_Paulo",374699],
+  ["Olinda","Brazil",-8.0089,-34.8553,37,"America/Recife",366754],
+  ["Carapicuiba","Brazil",-23.5227,-46.8350,630,"America/Sao_Paulo",361112],
+  ["Campina Grande","Brazil",-7.2306,-35.8811,508,"America/Fortaleza",348936],
+  ["Piracicaba","Brazil",-22.7253,-47.6492,530,"America/Sao_Paulo",342209],
+  ["Macapa","Brazil",0.0389,-51.0664,17,"America/Belem",338936],
+  ["Itaquaquecetuba","Brazil",-23.4861,-46.3483,748,"America/Sao_Paulo",336679],
+  ["Bauru","Brazil",-22.3147,-49.0606,530,"America/Sao_Paulo",335024],
+  ["Montes Claros","Brazil",-16.7350,-43.8617,686,"America/Sao_Paulo",332379],
+  ["Canoas","Brazil",-29.9178,-51.1836,25,"America/Sao_Paulo",328291],
+  ["Mogi das Cruzes","Brazil",-23.5228,-46.1883,759,"America/Sao_Paulo",325746],
+  ["Sao Vicente","Brazil",-23.9631,-46.3919,10,"America/Sao_Paulo",324457],
+  ["Jundiai","Brazil",-23.1864,-46.8842,753,"America/Sao_Paulo",321589],
+  ["Pelotas","Brazil",-31.7719,-52.3425,14,"America/Sao_Paulo",320674],
+  ["Anapolis","Brazil",-16.3267,-48.9528,1003,"America/Sao_Paulo",319587],
+  ["Vitoria","Brazil",-20.3194,-40.3378,16,"America/Sao_Paulo",312656],
+  ["Maringa","Brazil",-23.4253,-51.9386,556,"America/Sao_Paulo",311724],
+  ["Guaruja","Brazil",-23.9931,-46.2564,13,"America/Sao_Paulo",310424],
+  ["Porto Velho","Brazil",-8.7619,-63.9039,90,"America/Porto_Velho",306180],
+  ["Franca","Brazil",-20.5386,-47.4008,1002,"America/Sao_Paulo",305041],
+  ["Blumenau","Brazil",-26.9194,-49.0661,20,"America/Sao_Paulo",293949],
+  ["Foz do Iguacu","Brazil",-25.5478,-54.5881,179,"America/Sao_Paulo",293523],
+  ["Ponta Grossa","Brazil",-25.0950,-50.1619,954,"America/Sao_Paulo",292177],
+  ["Paulista","Brazil",-7.9408,-34.8731,20,"America/Recife",289971],
+  ["Limeira","Brazil",-22.5647,-47.4017,582,"America/Sao_Paulo",289665],
+  ["Viamao","Brazil",-30.0811,-51.0233,108,"America/Sao_Paulo",285269],
+  ["Suzano","Brazil",-23.5425,-46.3108,747,"America/Sao_Paulo",283314],
+  ["Caucaia","Brazil",-3.7361,-38.6531,35,"America/Fortaleza",275019],
+  ["Petropolis","Brazil",-22.5050,-43.1786,819,"America/Sao_Paulo",272691],
+  ["Uberaba","Brazil",-19.7483,-47.9319,772,"America/Sao_Paulo",260843],
+  ["Rio Branco","Brazil",-9.9747,-67.8100,153,"America/Rio_Branco",257642],
+  ["Cascavel","Brazil",-24.9558,-53.4553,786,"America/Sao_Paulo",257172],
+  ["Novo Hamburgo","Brazil",-29.6783,-51.1306,56,"America/Sao_Paulo",253841],
+  ["Vitoria da Conquista","Brazil",-14.8661,-40.8394,876,"America/Bahia",253137],
+  ["Barueri","Brazil",-23.5106,-46.8761,729,"America/Sao_Paulo",251994],
+  ["Taubate","Brazil",-23.0264,-45.5553,589,"America/Sao_Paulo",251641],
+  ["Governador Valadares","Brazil",-18.8511,-41.9494,169,"America/Sao_Paulo",250878],
+  ["Praia Grande","Brazil",-24.0058,-46.4028,11,"America/Sao_Paulo",250027],
+  ["Varzea Grande","Brazil",-15.6467,-56.1325,197,"America/Cuiaba",249752],
+  ["Volta Redonda","Brazil",-22.5231,-44.1042,400,"America/Sao_Paulo",249580],
+  ["Santa Maria","Brazil",-29.6842,-53.8069,146,"America/Sao_Paulo",249219],
+  ["Santa Luzia","Brazil",-19.7697,-43.8514,760,"America/Sao_Paulo",243503],
+  ["Gravatai","Brazil",-29.9444,-50.9919,41,"America/Sao_Paulo",238778],
+  ["Caruaru","Brazil",-8.2833,-35.9761,568,"America/Recife",235371],
+  ["Boa Vista","Brazil",2.8197,-60.6733,82,"America/Boa_Vista",235150],
+  ["Ipatinga","Brazil",-19.4683,-42.5367,229,"America/Sao_Paulo",228746],
+  ["Sumare","Brazil",-22.8219,-47.2669,573,"America/Sao_Paulo",227977],
+  ["Juazeiro do Norte","Brazil",-7.2131,-39.3153,413,"America/Fortaleza",225230],
+  ["Embu","Brazil",-23.6489,-46.8522,784,"America/Sao_Paulo",221733],
+  ["Imperatriz","Brazil",-5.5264,-47.4917,127,"America/Fortaleza",218106],
+  ["Colombo","Brazil",-25.2917,-49.2242,1007,"America/Sao_Paulo",217000],
+  ["Taboao da Serra","Brazil",-23.6261,-46.7917,795,"America/Sao_Paulo",214523],
+  ["Jacarei","Brazil",-23.3053,-45.9658,574,"America/Sao_Paulo",213110],
+  ["Marilia","Brazil",-22.2139,-49.9458,655,"America/Sao_Paulo",212218],
+  ["Presidente Prudente","Brazil",-22.1256,-51.3889,462,"America/Sao_Paulo",209502],
+  ["Sao Leopoldo","Brazil",-29.7603,-51.1472,10,"America/Sao_Paulo",209229],
+  ["Itabuna","Brazil",-14.7856,-39.2803,69,"America/Bahia",205660],
+  ["Sao Carlos","Brazil",-22.0175,-47.8908,838,"America/Sao_Paulo",205035],
+  ["Hortolandia","Brazil",-22.8583,-47.2200,584,"America/Sao_Paulo",203533],
+  ["Mossoro","Brazil",-5.1875,-37.3442,24,"America/Fortaleza",202005],
+  ["Itapevi","Brazil",-23.5489,-46.9342,772,"America/Sao_Paulo",201748],
+  ["Sete Lagoas","Brazil",-19.4658,-44.2467,764,"America/Sao_Paulo",201334],
+  ["Sao Jose","Brazil",-28.2117,-49.1632,80,"America/Sao_Paulo",200000],
+  ["Palmas","Brazil",-10.1675,-48.3277,220,"America/Araguaina",196272],
+  ["Americana","Brazil",-22.7392,-47.3314,563,"America/Sao_Paulo",196022],
+  ["Petrolina","Brazil",-9.3986,-40.5008,383,"America/Recife",194650],
+  ["Divinopolis","Brazil",-20.1389,-44.8839,721,"America/Sao_Paulo",193832],
+  ["Maracanau","Brazil",-3.8767,-38.6256,54,"America/Fortaleza",193529],
+  ["Santarem","Brazil",-2.4431,-54.7083,51,"America/Santarem",189047],
+  ["Camacari","Brazil",-12.6975,-38.3242,29,"America/Bahia",188758],
+  ["Santa Barbara d'Oeste","Brazil",-22.7536,-47.4136,565,"America/Sao_Paulo",188000],
+  ["Rio Grande","Brazil",-32.0350,-52.0986,7,"America/Sao_Paulo",187838],
+  ["Cachoeiro de Itapemirim","Brazil",-20.8489,-41.1128,39,"America/Sao_Paulo",187019],
+  ["Itaborai","Brazil",-22.7444,-42.8594,47,"America/Sao_Paulo",182498],
+  ["Rio Claro","Brazil",-22.4114,-47.5614,617,"America/Sao_Paulo",180147],
+  ["Indaiatuba","Brazil",-23.0903,-47.2181,629,"America/Sao_Paulo",179911],
+  ["Passo Fundo","Brazil",-28.2628,-52.4067,689,"America/Sao_Paulo",179529],
+  ["Cotia","Brazil",-23.6039,-46.9192,801,"America/Sao_Paulo",174828],
+  ["Francisco Morato","Brazil",-23.2817,-46.7453,803,"America/Sao_Paulo",171790],
+  ["Aracatuba","Brazil",-21.2089,-50.4328,392,"America/Sao_Paulo",170024],
+  ["Araraquara","Brazil",-21.7944,-48.1756,677,"America/Sao_Paulo",168468],
+  ["Ferraz de Vasconcelos","Brazil",-23.5408,-46.3686,759,"America/Sao_Paulo",167900],
+  ["Arapiraca","Brazil",-9.7525,-36.6611,275,"America/Maceio",166562],
+  ["Lages","Brazil",-27.8161,-50.3261,917,"America/Sao_Paulo",164676],
+  ["Barra Mansa","Brazil",-22.5442,-44.1714,380,"America/Sao_Paulo",164052],
+  ["Nossa Senhora do Socorro","Brazil",-10.8550,-37.1261,39,"America/Maceio",163993],
+  ["Dourados","Brazil",-22.2211,-54.8056,445,"America/Campo_Grande",162202],
+  ["Criciuma","Brazil",-28.6775,-49.3697,50,"America/Sao_Paulo",161954],
+  ["Chapeco","Brazil",-27.0964,-52.6183,668,"America/Sao_Paulo",160157],
+  ["Barreiras","Brazil",-12.1528,-44.9900,472,"America/Bahia",158292],
+  ["Sobral","Brazil",-3.6861,-40.3497,75,"America/Fortaleza",157996],
+  ["Itajai","Brazil",-26.9078,-48.6619,6,"America/Sao_Paulo",155716],
+  ["Ilheus","Brazil",-14.7889,-39.0494,23,"America/Bahia",155499],
+  ["Angra dos Reis","Brazil",-23.0067,-44.3181,8,"America/Sao_Paulo",153635],
+  ["Nova Friburgo","Brazil",-22.2819,-42.5311,858,"America/Sao_Paulo",153361],
+  ["Rondonopolis","Brazil",-16.4708,-54.6356,230,"America/Cuiaba",152912],
+  ["Itapecerica da Serra","Brazil",-23.7169,-46.8492,901,"America/Sao_Paulo",151605],
+  ["Guarapuava","Brazil",-25.3953,-51.4581,1121,"America/Sao_Paulo",150850],
+  ["Parnamirim","Brazil",-5.9156,-35.2628,56,"America/Fortaleza",150343],
+  ["Caxias","Brazil",-4.8589,-43.3561,83,"America/Fortaleza",148072],
+  ["Nilopolis","Brazil",-22.8075,-43.4139,27,"America/Sao_Paulo",147281],
+  ["Pocos de Caldas","Brazil",-21.7878,-46.5614,1222,"America/Sao_Paulo",146588],
+  ["Maraba","Brazil",-5.3686,-49.1178,101,"America/Belem",145860],
+  ["Luziania","Brazil",-16.2525,-47.9503,932,"America/Sao_Paulo",143601],
+  ["Cabo","Brazil",-8.2833,-35.0333,16,"America/Recife",143105],
+  ["Macae","Brazil",-22.3708,-41.7869,39,"America/Sao_Paulo",143029],
+  ["Ibirite","Brazil",-20.0219,-44.0589,883,"America/Sao_Paulo",141374],
+  ["Lauro de Freitas","Brazil",-12.8944,-38.3272,10,"America/Bahia",141280],
+  ["Paranagua","Brazil",-25.5194,-48.5199,14,"America/Sao_Paulo",141013],
+  ["Parnaiba","Brazil",-2.9047,-41.7767,9,"America/Fortaleza",138008],
+  ["Itu","Brazil",-23.2642,-47.2992,594,"America/Sao_Paulo",137586],
+  ["Castanhal","Brazil",-1.2939,-47.9264,46,"America/Belem",137406],
+  ["Sao Caetano do Sul","Brazil",-23.6231,-46.5511,770,"America/Sao_Paulo",136453],
+  ["Queimados","Brazil",-22.7161,-43.5553,37,"America/Sao_Paulo",135741],
+  ["Pindamonhangaba","Brazil",-22.9239,-45.4617,562,"America/Sao_Paulo",132218],
+  ["Sapucaia","Brazil",-29.8333,-51.1500,37,"America/Sao_Paulo",130937],
+  ["Jaragua do Sul","Brazil",-26.4861,-49.0667,27,"America/Sao_Paulo",130130],
+  ["Mogi Guacu","Brazil",-22.3722,-46.9422,595,"America/Sao_Paulo",128865],
+  ["Jequie","Brazil",-13.8575,-40.0836,214,"America/Bahia",127475],
+  ["Itapetininga","Brazil",-23.5917,-48.0531,670,"America/Sao_Paulo",126243],
+  ["Patos de Minas","Brazil",-18.5789,-46.5181,842,"America/Sao_Paulo",126234],
+  ["Braganca Paulista","Brazil",-22.9519,-46.5419,838,"America/Sao_Paulo",125096],
+  ["Timon","Brazil",-5.0942,-42.8367,76,"America/Fortaleza",124427],
+  ["Sao Jose dos Pinhais","Brazil",-25.5347,-49.2064,905,"America/Sao_Paulo",124224],
+  ["Teresopolis","Brazil",-22.4122,-42.9656,883,"America/Sao_Paulo",123979],
+  ["Uruguaiana","Brazil",-29.7547,-57.0883,79,"America/Sao_Paulo",123480],
+  ["Porto Seguro","Brazil",-16.4497,-39.0647,4,"America/Bahia",123173],
+  ["Alagoinhas","Brazil",-12.1356,-38.4192,158,"America/Bahia",122688],
+  ["Palhoca","Brazil",-27.6453,-48.6678,5,"America/Sao_Paulo",122423],
+  ["Barbacena","Brazil",-21.2258,-43.7736,1171,"America/Sao_Paulo",122211],
+  ["Cachoeirinha","Brazil",-29.9511,-51.0939,15,"America/Sao_Paulo",121084],
+  ["Santa Rita","Brazil",-7.1139,-34.9781,6,"America/Fortaleza",119893],
+  ["Toledo","Brazil",-24.7136,-53.7431,562,"America/Sao_Paulo",119313],
+  ["Jau","Brazil",-22.2964,-48.5578,528,"America/Sao_Paulo",119206],
+  ["Cubatao","Brazil",-23.8950,-46.4253,6,"America/Sao_Paulo",118410],
+  ["Pinhais","Brazil",-25.4447,-49.1925,887,"America/Sao_Paulo",117000],
+  ["Simoes Filho","Brazil",-12.7844,-38.4039,33,"America/Bahia",116662],
+  ["Varginha","Brazil",-21.5514,-45.4303,887,"America/Sao_Paulo",116571],
+  ["Sinop","Brazil",-11.8642,-55.5025,378,"America/Cuiaba",116013],
+  ["Pouso Alegre","Brazil",-22.2300,-45.9364,838,"America/Sao_Paulo",115201],
+  ["Botucatu","Brazil",-22.8858,-48.4450,837,"America/Sao_Paulo",113862],
+  ["Jandira","Brazil",-23.5275,-46.9025,733,"America/Sao_Paulo",113605],
+  ["Ribeirao Pires","Brazil",-23.7106,-46.4133,760,"America/Sao_Paulo",111888],
+  ["Conselheiro Lafaiete","Brazil",-20.6603,-43.7861,998,"America/Sao_Paulo",111596],
+  ["Resende","Brazil",-22.4689,-44.4467,408,"America/Sao_Paulo",111514],
+  ["Araucaria","Brazil",-25.5931,-49.4103,886,"America/Sao_Paulo",111302],
+  ["Atibaia","Brazil",-23.1169,-46.5503,817,"America/Sao_Paulo",110968],
+  ["Varzea Paulista","Brazil",-23.2114,-46.8283,755,"America/Sao_Paulo",110936],
+  ["Garanhuns","Brazil",-8.8903,-36.4928,855,"America/Recife",110085],
+  ["Araruama","Brazil",-22.8728,-42.3431,20,"America/Sao_Paulo",109637],
+  ["Catanduva","Brazil",-21.1378,-48.9728,517,"America/Sao_Paulo",109612],
+  ["Franco da Rocha","Brazil",-23.3217,-46.7269,762,"America/Sao_Paulo",108858],
+  ["Cabo Frio","Brazil",-22.8794,-42.0186,14,"America/Sao_Paulo",108239],
+  ["Ji Parana","Brazil",-10.8853,-61.9517,157,"America/Porto_Velho",107697],
+  ["Araras","Brazil",-22.3569,-47.3842,634,"America/Sao_Paulo",107463],
+  ["Poa","Brazil",-23.5281,-46.3447,764,"America/Sao_Paulo",107432],
+  ["Vitoria de Santo Antao","Brazil",-8.1181,-35.2914,156,"America/Recife",107383],
+  ["Apucarana","Brazil",-23.5508,-51.4608,871,"America/Sao_Paulo",107085],
+  ["Santa Cruz do Sul","Brazil",-29.7175,-52.4258,69,"America/Sao_Paulo",106113],
+  ["Guaratingueta","Brazil",-22.8164,-45.1925,545,"America/Sao_Paulo",105880],
+  ["Linhares","Brazil",-19.3911,-40.0722,36,"America/Sao_Paulo",105075],
+  ["Araguaina","Brazil",-7.1911,-48.2072,237,"America/Araguaina",105019],
+  ["Esmeraldas","Brazil",-19.7625,-44.3139,755,"America/Sao_Paulo",103206],
+  ["Birigui","Brazil",-21.2886,-50.3400,409,"America/Sao_Paulo",102277],
+  ["Barretos","Brazil",-20.5572,-48.5678,538,"America/Sao_Paulo",101220],
+  ["Colatina","Brazil",-19.5394,-40.6306,82,"America/Sao_Paulo",101190],
+  ["Teofilo Otoni","Brazil",-17.8575,-41.5053,343,"America/Sao_Paulo",101170],
+  ["Guaiba","Brazil",-30.1139,-51.3250,22,"America/Sao_Paulo",101024],
+  ["Guarapari","Brazil",-20.6537,-40.5020,13,"America/Sao_Paulo",100925],
+  ["Coronel Fabriciano","Brazil",-19.5186,-42.6289,239,"America/Sao_Paulo",100916],
+  ["Itaguai","Brazil",-22.8522,-43.7753,31,"America/Sao_Paulo",100752],
+  ["Tortola","British Virgin Islands",18.4388,-64.6038,288,"America/Tortola",23908],
+  ["Bandar Seri Begawan","Brunei",4.9403,114.9481,16,"Asia/Brunei",64409],
+  ["Kuala Belait","Brunei",4.5836,114.2312,5,"Asia/Brunei",31178],
+  ["Seria","Brunei",4.6064,114.3248,6,"Asia/Brunei",30097],
+  ["Sofia","Bulgaria",42.6975,23.3241,562,"Europe/Sofia",1152556],
+  ["Plovdiv","Bulgaria",42.1500,24.7500,169,"Europe/Sofia",340494],
+  ["Varna","Bulgaria",43.2167,27.9167,54,"Europe/Sofia",312770],
+  ["Burgas","Bulgaria",42.5061,27.4678,36,"Europe/Sofia",195966],
+  ["Ruse","Bulgaria",43.8564,25.9708,49,"Europe/Sofia",156238],
+  ["Stara Zagora","Bulgaria",42.4328,25.6419,205,"Europe/Sofia",143431],
+  ["Pleven","Bulgaria",43.4167,24.6167,97,"Europe/Sofia",118675],
+  ["Ouagadougou","Burkina Faso",12.3657,-1.5339,299,"Africa/Ouagadougou",1086505],
+  ["Bobo-Dioulasso","Burkina Faso",11.1771,-4.2979,423,"Africa/Ouagadougou",360106],
+  ["Koudougou","Burkina Faso",12.2526,-2.3627,303,"Africa/Ouagadougou",87347],
+  ["Bujumbura","Burundi",-3.3822,29.3644,805,"Africa/Bujumbura",331700],
+  ["Muyinga","Burundi",-2.8451,30.3414,1757,"Africa/Bujumbura",71076],
+  ["Ruyigi","Burundi",-3.4764,30.2486,1596,"Africa/Bujumbura",38458],
+  ["Phnom Penh","Cambodia",11.5625,104.9160,20,"Asia/Phnom_Penh",1573544],
+  ["Takeo","Cambodia",10.9908,104.7850,12,"Asia/Phnom_Penh",843931],
+  ["Sihanoukville","Cambodia",10.6093,103.5296,6,"Asia/Phnom_Penh",156691],
+  ["Battambang","Cambodia",13.1027,103.1982,18,"Asia/Phnom_Penh",150444],
+  ["Siem Reap","Cambodia",13.3618,103.8606,18,"Asia/Phnom_Penh",139458],
+  ["Douala","Cameroon",4.0483,9.7043,19,"Africa/Douala",1338082],
+  ["Yaounde","Cameroon",3.8667,11.5167,726,"Africa/Douala",1299369],
+  ["Garoua","Cameroon",9.3000,13.4000,195,"Africa/Douala",436899],
+  ["Kousseri","Cameroon",12.0769,15.0306,300,"Africa/Douala",435547],
+  ["Bamenda","Cameroon",5.9527,10.1582,1266,"Africa/Douala",393835],
+  ["Maroua","Cameroon",10.5909,14.3159,406,"Africa/Douala",319941],
+  ["Bafoussam","Cameroon",5.4778,10.4176,1470,"Africa/Douala",290768],
+  ["Mokolo","Cameroon",10.7398,13.8019,798,"Africa/Douala",275239],
+  ["Ngaoundere","Cameroon",7.3277,13.5847,1214,"Africa/Douala",231357],
+  ["Bertoua","Cameroon",4.5773,13.6846,665,"Africa/Douala",218111],
+  ["Edea","Cameroon",3.8000,10.1333,27,"Africa/Douala",203149],
+  ["Loum","Cameroon",4.7182,9.7351,235,"Africa/Douala",177429],
+  ["Kumba","Cameroon",4.6363,9.4469,244,"Africa/Douala",144413],
+  ["Nkongsamba","Cameroon",4.9547,9.9404,844,"Africa/Douala",117063],
+  ["Mbouda","Cameroon",5.6258,10.2552,1409,"Africa/Douala",111320],
+  ["Toronto","Canada",43.7001,-79.4163,175,"America/Toronto",4612191],
+  ["Montreal","Canada",45.5088,-73.5878,216,"America/Montreal",3268513],
+  ["Vancouver","Canada",49.2497,-123.1193,70,"America/Vancouver",1837969],
+  ["Calgary","Canada",51.0501,-114.0853,1048,"America/Edmonton",1019942],
+  ["Ottawa","Canada",45.4112,-75.6981,71,"America/Toronto",812129],
+  ["Edmonton","Canada",53.5501,-113.4687,668,"America/Edmonton",712391],
+  ["Mississauga","Canada",43.5789,-79.6583,159,"America/Toronto",668549],
+  ["North York","Canada",43.7668,-79.4163,180,"America/Toronto",636000],
+  ["Winnipeg","Canada",49.8844,-97.1470,245,"America/Winnipeg",632063],
+  ["Quebec","Canada",46.8123,-71.2145,54,"America/Montreal",528595],
+  ["Hamilton","Canada",43.2501,-79.8496,95,"America/Toronto",519949],
+  ["Brampton","Canada",43.6834,-79.7663,221,"America/Toronto",433806],
+  ["Kitchener","Canada",43.4254,-80.5112,336,"America/Toronto",409112],
+  ["Surrey","Canada",49.1063,-122.8251,82,"America/Vancouver",394976],
+  ["Laval","Canada",45.5699,-73.6920,34,"America/Montreal",376845],
+  ["Halifax","Canada",44.6453,-63.5724,23,"America/Halifax",359111],
+  ["Etobicoke","Canada",43.6542,-79.5671,148,"America/Toronto",347948],
+  ["London","Canada",42.9834,-81.2330,252,"America/Toronto",346765],
+  ["Okanagan","Canada",50.3639,-119.3500,598,"America/Vancouver",297601],
+  ["Victoria","Canada",48.4329,-123.3693,6,"America/Vancouver",289625],
+  ["Windsor","Canada",42.3001,-83.0165,190,"America/Toronto",278013],
+  ["Markham","Canada",43.8668,-79.2663,168,"America/Toronto",261573],
+  ["Oshawa","Canada",43.9001,-78.8496,105,"America/Toronto",247989],
+  ["Gatineau","Canada",45.4772,-75.7016,53,"America/Montreal",242124],
+  ["Vaughan","Canada",43.8361,-79.4983,218,"America/Toronto",238866],
+  ["Longueuil","Canada",45.5312,-73.5181,18,"America/Montreal",229330],
+  ["Burnaby","Canada",49.2664,-122.9526,87,"America/Vancouver",202799],
+  ["Ladner","Canada",49.0894,-123.0824,1,"America/Vancouver",200000],
+  ["Saskatoon","Canada",52.1168,-106.6345,501,"America/Regina",198958],
+  ["Richmond Hill","Canada",43.8711,-79.4373,232,"America/Toronto",185541],
+  ["Barrie","Canada",44.4001,-79.6663,269,"America/Toronto",182041],
+  ["Richmond","Canada",49.1700,-123.1368,9,"America/Vancouver",182000],
+  ["Regina","Canada",50.4501,-104.6178,577,"America/Regina",176183],
+  ["Oakville","Canada",43.4501,-79.6829,99,"America/Toronto",165697],
+  ["Burlington","Canada",43.3862,-79.8371,165,"America/Toronto",164415],
+  ["Greater Sudbury","Canada",46.4900,-80.9900,266,"America/Toronto",157857],
+  ["Abbotsford","Canada",49.0580,-122.2526,114,"America/Vancouver",151683],
+  ["Saguenay","Canada",48.4168,-71.0657,84,"America/Montreal",143692],
+  ["St. Catharines","Canada",43.1713,-79.2427,97,"America/Toronto",131989],
+  ["Sherbrooke","Canada",45.4001,-71.8991,175,"America/Montreal",129447],
+  ["Anmore","Canada",49.3164,-122.8526,183,"America/Vancouver",126456],
+  ["Levis","Canada",46.8033,-71.1779,87,"America/Montreal",126396],
+  ["Kelowna","Canada",49.8831,-119.4857,350,"America/Vancouver",125109],
+  ["Cambridge","Canada",43.3601,-80.3127,272,"America/Toronto",120372],
+  ["Trois-Rivieres","Canada",46.3451,-72.5477,29,"America/Montreal",119693],
+  ["Guelph","Canada",43.5459,-80.2560,334,"America/Toronto",115760],
+  ["Coquitlam","Canada",49.2830,-122.7526,33,"America/Vancouver",114565],
+  ["Kingston","Canada",44.2298,-76.4810,70,"America/Toronto",114195],
+  ["Sydney","Canada",46.1351,-60.1831,6,"America/Glace_Bay",105968],
+  ["Delta","Canada",49.1440,-122.9068,81,"America/Vancouver",101668],
+  ["Dartmouth","Canada",44.6713,-63.5772,35,"America/Halifax",101343],
+  ["Praia","Cape Verde",14.9315,-23.5125,0,"Atlantic/Cape_Verde",113364],
+  ["Mindelo","Cape Verde",16.8901,-24.9804,44,"Atlantic/Cape_Verde",70611],
+  ["Santa Maria","Cape Verde",16.6000,-22.9000,3,"Atlantic/Cape_Verde",17231],
+  ["Grand Cayman","Cayman Islands",19.3348,-81.2487,5,"America/Cayman",52601],
+  ["George Town","Cayman Islands",19.2869,-81.3671,10,"America/Cayman",29370],
+  ["Bangui","Central African Republic",4.3612,18.5550,351,"Africa/Bangui",542393],
+  ["Bimbo","Central African Republic",4.2567,18.4158,371,"Africa/Bangui",129655],
+  ["Mbaiki","Central African Republic",3.8678,17.9892,476,"Africa/Bangui",67132],
+  ["N'Djamena","Chad",12.1067,15.0444,299,"Africa/Ndjamena",721081],
+  ["Moundou","Chad",8.5667,16.0833,401,"Africa/Ndjamena",135167],
+  ["Sagh","Chad",9.1429,18.3923,369,"Africa/Ndjamena",102528],
+  ["Santiago","Chile",-33.4569,-70.6483,556,"America/Santiago",4837295],
+  ["Puente Alto","Chile",-33.6117,-70.5758,700,"America/Santiago",510417],
+  ["Antofagasta","Chile",-23.6524,-70.3954,31,"America/Santiago",309832],
+  ["Vina del Mar","Chile",-33.0246,-71.5518,17,"America/Santiago",294551],
+  ["Valparaiso","Chile",-33.0393,-71.6273,23,"America/Santiago",282448],
+  ["Talcahuano","Chile",-36.7249,-73.1168,15,"America/Santiago",252968],
+  ["San Bernardo","Chile",-33.5922,-70.6996,571,"America/Santiago",249858],
+  ["Temuco","Chile",-38.7396,-72.5984,114,"America/Santiago",238129],
+  ["Iquique","Chile",-20.2204,-70.1391,37,"America/Santiago",227499],
+  ["Concepcion","Chile",-36.8270,-73.0498,36,"America/Santiago",215413],
+  ["Rancagua","Chile",-34.1708,-70.7444,506,"America/Santiago",212695],
+  ["La Pintana","Chile",-33.5833,-70.6342,630,"America/Santiago",201178],
+  ["Talca","Chile",-35.4264,-71.6554,104,"America/Santiago",197479],
+  ["Arica","Chile",-18.4746,-70.2979,45,"America/Santiago",185999],
+  ["Coquimbo","Chile",-29.9533,-71.3395,22,"America/Santiago",161317],
+  ["Puerto Montt","Chile",-41.4657,-72.9429,21,"America/Santiago",160054],
+  ["La Serena","Chile",-29.9045,-71.2489,30,"America/Santiago",154521],
+  ["Chillan","Chile",-36.6066,-72.1034,132,"America/Santiago",150396],
+  ["Calama","Chile",-22.4559,-68.9301,2260,"America/Santiago",143084],
+  ["Osorno","Chile",-40.5740,-73.1335,37,"America/Santiago",135773],
+  ["Valdivia","Chile",-39.8142,-73.2459,17,"America/Santiago",133419],
+  ["Quilpue","Chile",-33.0475,-71.4425,113,"America/Santiago",130263],
+  ["Copiapo","Chile",-27.3668,-70.3314,397,"America/Santiago",129280],
+  ["Los Angeles","Chile",-37.4697,-72.3537,141,"America/Santiago",125430],
+  ["Punta Arenas","Chile",-53.1548,-70.9113,30,"America/Santiago",117430],
+  ["Lo Prado","Chile",-33.4443,-70.7255,508,"America/Santiago",104316],
+  ["Curico","Chile",-34.9828,-71.2394,217,"America/Santiago",102438],
+  ["Shanghai","China",31.2222,121.4581,12,"Asia/Shanghai",14608512],
+  ["Zhumadian","China",32.9794,114.0294,89,"Asia/Shanghai",8263100],
+  ["Beijing","China",39.9075,116.3972,49,"Asia/Shanghai",7480601],
+  ["Nanchong","China",30.7951,106.0847,287,"Asia/Chongqing",7150000],
+  ["Tai'an","China",36.1853,117.1200,143,"Asia/Shanghai",5499000],
+  ["Yueyang","China",29.3745,113.0948,32,"Asia/Shanghai",5000000],
+  ["Kaifeng","China",34.7986,114.3074,76,"Asia/Shanghai",4800000],
+  ["Wuhan","China",30.5833,114.2667,20,"Asia/Shanghai",4184206],
+  ["Chongqing","China",29.5628,106.5528,225,"Asia/Chongqing",3967028],
+  ["Chengdu","China",30.6667,104.0667,499,"Asia/Chongqing",3950437],
+  ["Tianjin","China",39.1422,117.1767,11,"Asia/Shanghai",3766207],
+  ["Puyang","China",29.4568,119.8887,76,"Asia/Shanghai",3590000],
+  ["Shenyang","China",41.7922,123.4328,53,"Asia/Shanghai",3512192],
+  ["Tianshui","China",34.5795,105.7424,1153,"Asia/Chongqing",3500000],
+  ["Shiyan","China",32.6475,110.7781,247,"Asia/Shanghai",3460000],
+  ["Harbin","China",45.7500,126.6500,140,"Asia/Harbin",3229883],
+  ["Xi'an","China",34.2583,108.9286,416,"Asia/Chongqing",3225812],
+  ["Lanzhou","China",36.0570,103.8399,1513,"Asia/Chongqing",3200000],
+  ["Guangzhou","China",23.1167,113.2500,15,"Asia/Shanghai",3152825],
+  ["Nanjing","China",32.0617,118.7778,22,"Asia/Shanghai",3087010],
+  ["Shenzhen","China",22.5455,114.0683,4,"Asia/Shanghai",3000000],
+  ["Taiyuan","China",37.8694,112.5603,795,"Asia/Shanghai",2722475],
+  ["Yunfu","China",22.9283,112.0395,67,"Asia/Chongqing",2612800],
+  ["Changchun","China",43.8800,125.3228,206,"Asia/Harbin",2537421],
+  ["Zhongshan","China",21.3199,110.5723,4,"Asia/Urumqi",2493400],
+  ["Changsha","China",28.1987,112.9709,67,"Asia/Shanghai",2073938],
+  ["Jinan","China",36.6683,116.9972,32,"Asia/Shanghai",2069266],
+  ["Dalian","China",38.9122,121.6022,33,"Asia/Shanghai",2035307],
+  ["Zhengzhou","China",34.7578,113.6486,104,"Asia/Shanghai",2014125],
+  ["Shijiazhuang","China",38.0414,114.4786,77,"Asia/Shanghai",1992474],
+  ["Ordos","China",39.6086,109.7816,2149,"Asia/Chongqing",1940653],
+  ["Jilin","China",43.8508,126.5603,196,"Asia/Harbin",1881977],
+  ["Hangzhou","China",30.2936,120.1614,12,"Asia/Shanghai",1878129],
+  ["Nanchang","China",28.6833,115.8833,38,"Asia/Shanghai",1871351],
+  ["Qingdao","China",36.0986,120.3719,36,"Asia/Shanghai",1642245],
+  ["Tangshan","China",39.6333,118.1833,36,"Asia/Shanghai",1596949],
+  ["Xinyang","China",32.1228,114.0656,89,"Asia/Shanghai",1590668],
+  ["UEruemqi","China",43.8010,87.6005,862,"Asia/Urumqi",1508225],
+  ["Fushun","China",41.8558,123.9233,83,"Asia/Shanghai",1400646],
+  ["Luoyang","China",34.6836,112.4536,149,"Asia/Shanghai",1390581],
+  ["Hefei","China",31.8639,117.2808,24,"Asia/Shanghai",1388904],
+  ["Guankou","China",28.1586,113.6271,75,"Asia/Shanghai",1380000],
+  ["Handan","China",36.6006,114.4678,66,"Asia/Shanghai",1358318],
+  ["Suzhou","China",31.3041,120.5954,10,"Asia/Shanghai",1343091],
+  ["Shantou","China",23.3681,116.7148,17,"Asia/Shanghai",1333973],
+  ["Baotou","China",40.6522,109.8222,1066,"Asia/Chongqing",1301768],
+  ["Anshan","China",41.1236,122.9900,55,"Asia/Shanghai",1199275],
+  ["Tongshan","China",34.1805,117.1571,37,"Asia/Shanghai",1199193],
+  ["Fuzhou","China",26.0614,119.3061,14,"Asia/Shanghai",1179720],
+  ["Guiyang","China",26.5833,106.7167,1087,"Asia/Chongqing",1171633],
+  ["Dayan","China",26.8688,100.2207,2397,"Asia/Chongqing",1137600],
+  ["Wuxi","China",31.5689,120.2886,10,"Asia/Shanghai",1108647],
+  ["Datong","China",40.0936,113.2914,1054,"Asia/Shanghai",1052678],
+  ["Changshu City","China",31.6461,120.7422,9,"Asia/Shanghai",1047700],
+  ["Xianyang","China",34.3378,108.7026,387,"Asia/Chongqing",1034081],
+  ["Huainan","China",32.6264,116.9969,47,"Asia/Shanghai",1027655],
+  ["Kunming","China",25.0389,102.7183,1895,"Asia/Chongqing",1023674],
+  ["Jieyang","China",23.5289,116.3642,10,"Asia/Shanghai",1001985],
+  ["Zhu Cheng City","China",35.9950,119.4026,67,"Asia/Shanghai",1000000],
+  ["Baoding","China",38.8511,115.4903,17,"Asia/Shanghai",995652],
+  ["Benxi","China",41.2886,123.7650,212,"Asia/Shanghai",987717],
+  ["Changzhou","China",31.7736,119.9540,9,"Asia/Shanghai",949018],
+  ["Huaibei","China",33.9744,116.7917,51,"Asia/Shanghai",903039],
+  ["Pingdingshan","China",33.7385,113.3012,88,"Asia/Shanghai",889675],
+  ["Qiqihar","China",47.3409,123.9604,151,"Asia/Harbin",882364],
+  ["Wenzhou","China",27.9994,120.6668,10,"Asia/Shanghai",865672],
+  ["Nanning","China",22.8167,108.3167,91,"Asia/Chongqing",803788],
+  ["Anyang","China",36.0994,114.3289,79,"Asia/Shanghai",781129],
+  ["Hohhot","China",40.8106,111.6522,1051,"Asia/Chongqing",774477],
+  ["Shangyu","China",30.0156,120.8711,13,"Asia/Shanghai",770000],
+  ["Xining","China",36.6255,101.7574,2257,"Asia/Chongqing",767531],
+  ["Qinhuangdao","China",39.9317,119.5883,6,"Asia/Shanghai",759718],
+  ["Hengyang","China",26.8881,112.6150,50,"Asia/Shanghai",759602],
+  ["Xinxiang","China",35.3089,113.8672,75,"Asia/Shanghai",743601],
+  ["Hegang","China",47.3512,130.3001,167,"Asia/Harbin",743307],
+  ["Langfang","China",39.5097,116.6947,18,"Asia/Shanghai",720119],
+  ["Ningbo","China",29.8782,121.5494,15,"Asia/Shanghai",719867],
+  ["Yantai","China",37.4765,121.4408,22,"Asia/Shanghai",719332],
+  ["Zhuzhou","China",27.8333,113.1500,54,"Asia/Shanghai",709358],
+  ["Changzhi","China",35.2089,111.7386,381,"Asia/Shanghai",699514],
+  ["Zhangjiakou","China",40.8100,114.8794,758,"Asia/Shanghai",692602],
+  ["Zigong","China",29.3416,104.7769,306,"Asia/Chongqing",689961],
+  ["Fuxin","China",42.0156,121.6589,142,"Asia/Shanghai",689050],
+  ["Huangshi","China",30.2471,115.0481,30,"Asia/Shanghai",688090],
+  ["Liaoyang","China",41.2719,123.1731,33,"Asia/Shanghai",687890],
+  ["Xiangtan","China",27.8500,112.9000,31,"Asia/Shanghai",674189],
+  ["Zibo","China",36.7906,118.0633,51,"Asia/Shanghai",669770],
+  ["Puyang","China",35.7028,115.0053,55,"Asia/Shanghai",666322],
+  ["Nantong","China",32.0303,120.8747,6,"Asia/Shanghai",666251],
+  ["Mudanjiang","China",44.5833,129.6000,242,"Asia/Harbin",665915],
+  ["Guilin","China",25.2819,110.2864,160,"Asia/Chongqing",649352],
+  ["Zhanjiang","China",21.2814,110.3427,29,"Asia/Urumqi",637790],
+  ["Zhenjiang","China",32.2109,119.4551,26,"Asia/Shanghai",632552],
+  ["Dandong","China",40.1292,124.3947,10,"Asia/Shanghai",631973],
+  ["Shaoguan","China",24.8000,113.5833,69,"Asia/Shanghai",628749],
+  ["Yancheng","China",33.3856,120.1253,6,"Asia/Shanghai",628441],
+  ["Foshan","China",23.0268,113.1315,5,"Asia/Shanghai",627348],
+  ["Panshan","China",41.1881,122.0494,9,"Asia/Shanghai",625040],
+  ["Haikou","China",20.0458,110.3417,14,"Asia/Chongqing",615835],
+  ["Taizhou","China",32.4907,119.9081,10,"Asia/Shanghai",612356],
+  ["Xingtai","China",37.0631,114.4942,76,"Asia/Shanghai",611739],
+  ["Jinzhou","China",41.1078,121.1417,26,"Asia/Shanghai",604269],
+  ["Shuangyashan","China",46.6361,131.1539,200,"Asia/Harbin",600000],
+  ["Luancheng","China",37.8792,114.6517,55,"Asia/Shanghai",597130],
+  ["Yingkou","China",40.6648,122.2283,4,"Asia/Shanghai",591159],
+  ["Zhangzhou","China",24.5133,117.6556,14,"Asia/Shanghai",589831],
+  ["Xiamen","China",24.4798,118.0819,12,"Asia/Shanghai",578337],
+  ["Bengbu","China",32.9408,117.3608,31,"Asia/Shanghai",576648],
+  ["Shihezi","China",44.3023,86.0369,467,"Asia/Urumqi",572772],
+  ["Siping","China",43.1633,124.3686,170,"Asia/Harbin",555609],
+  ["Huai'an","China",33.5886,119.0192,14,"Asia/Shanghai",555230],
+  ["Jiamusi","China",46.7993,130.3163,81,"Asia/Harbin",549549],
+  ["Neijiang","China",29.5835,105.0622,349,"Asia/Chongqing",546854],
+  ["Yangzhou","China",32.3972,119.4358,14,"Asia/Shanghai",539715],
+  ["Guli","China",28.8816,120.0331,121,"Asia/Shanghai",536000],
+  ["Tanggu","China",39.0211,117.6469,6,"Asia/Shanghai",535298],
+  ["Jiangmen","China",22.5833,113.0833,11,"Asia/Shanghai",532419],
+  ["Cangzhou","China",38.3167,116.8667,10,"Asia/Shanghai",527681],
+  ["Changde","China",29.0464,111.6783,35,"Asia/Shanghai",517780],
+  ["Jiaozuo","China",35.2397,113.2331,138,"Asia/Shanghai",517540],
+  ["Wuhu","China",31.3373,118.3735,19,"Asia/Shanghai",507524],
+  ["Zhuhai","China",22.2769,113.5678,35,"Asia/Shanghai",501199],
+  ["Shashi","China",30.3072,112.2447,45,"Asia/Shanghai",498780],
+  ["Wuwei","China",37.9267,102.6320,1515,"Asia/Chongqing",493092],
+  ["Yichang","China",30.7144,111.2847,63,"Asia/Shanghai",476725],
+  ["Yinchuan","China",38.4681,106.2731,1117,"Asia/Chongqing",475101],
+  ["Jiaojiang","China",28.6803,121.4428,12,"Asia/Shanghai",470804],
+  ["Zunyi","China",27.6867,106.9072,867,"Asia/Chongqing",466292],
+  ["Jiaxing","China",30.7522,120.7500,8,"Asia/Shanghai",466101],
+  ["Liaoyuan","China",42.9036,125.1358,263,"Asia/Harbin",465249],
+  ["Xiangyang","China",32.0422,112.1448,71,"Asia/Shanghai",462956],
+  ["Dadukou","China",26.5479,101.7054,1110,"Asia/Chongqing",461513],
+  ["Hengshui","China",37.7322,115.7011,25,"Asia/Shanghai",456356],
+  ["Jining","China",35.4050,116.5814,43,"Asia/Shanghai",450327],
+  ["Wenshan City","China",23.3631,104.2505,1257,"Asia/Chongqing",450000],
+  ["Chengde","China",40.9725,117.9361,332,"Asia/Shanghai",449325],
+  ["Xuchang","China",34.0167,113.8167,73,"Asia/Shanghai",449258],
+  ["Bei'an","China",48.2667,126.6000,273,"Asia/Harbin",436444],
+  ["Luqiao","China",28.5802,121.3749,7,"Asia/Shanghai",427890],
+  ["Chaozhou","China",23.6651,116.6379,20,"Asia/Shanghai",424787],
+  ["Shaoxing","China",30.0110,120.5715,12,"Asia/Shanghai",421283],
+  ["Luohe","China",33.5717,114.0353,64,"Asia/Shanghai",417356],
+  ["Yangquan","China",37.8575,113.5633,722,"Asia/Shanghai",413394],
+  ["Chaoyang","China",41.5703,120.4586,162,"Asia/Shanghai",410005],
+  ["Shiyan","China",32.5667,110.7833,318,"Asia/Shanghai",408055],
+  ["Jixi","China",45.3011,130.9572,228,"Asia/Harbin",403759],
+  ["Yangjiang","China",21.8556,111.9627,14,"Asia/Chongqing",399735],
+  ["Weifang","China",36.7100,119.1019,30,"Asia/Shanghai",394732],
+  ["Xinpu","China",34.5997,119.1594,6,"Asia/Shanghai",392444],
+  ["Dongguan","China",23.0489,113.7447,10,"Asia/Shanghai",390219],
+  ["Dezhou","China",37.4486,116.2925,27,"Asia/Shanghai",379555],
+  ["Zhoukou","China",33.6333,114.6333,54,"Asia/Shanghai",377061],
+  ["Putian","China",25.4394,119.0103,23,"Asia/Shanghai",376558],
+  ["Xuanhua","China",40.6103,115.0447,610,"Asia/Shanghai",373422],
+  ["Pingxiang","China",27.6167,113.8535,100,"Asia/Shanghai",372123],
+  ["Fenghuang","China",27.9356,109.5996,449,"Asia/Shanghai",370000],
+  ["Zhaoqing","China",23.0512,112.4597,16,"Asia/Shanghai",361969],
+  ["Anqing","China",30.5136,117.0472,13,"Asia/Shanghai",358661],
+  ["Anshun","China",26.2500,105.9333,1374,"Asia/Chongqing",351936],
+  ["Chifeng","China",42.2683,118.9636,570,"Asia/Shanghai",346654],
+  ["Taihe","China",45.7619,130.8513,197,"Asia/Harbin",345033],
+  ["Shiqi","China",22.5168,113.3852,8,"Asia/Shanghai",342306],
+  ["Yingbazha","China",41.1131,80.2692,1081,"Asia/Kashgar",340020],
+  ["Tieling","China",42.2931,123.8414,64,"Asia/Shanghai",333907],
+  ["Jincheng","China",35.5022,112.8328,711,"Asia/Shanghai",332650],
+  ["Yanji","China",42.9075,129.5078,178,"Asia/Harbin",326957],
+  ["Suizhou","China",31.7111,113.3631,67,"Asia/Shanghai",323945],
+  ["Shangrao","China",28.4532,117.9686,89,"Asia/Shanghai",318769],
+  ["Baicheng","China",45.6075,122.8208,152,"Asia/Harbin",316970],
+  ["Lianshan","China",40.7643,120.8533,17,"Asia/Shanghai",313247],
+  ["Wusong","China",30.9500,117.7833,7,"Asia/Shanghai",312588],
+  ["Jingdezhen","China",29.2947,117.2079,48,"Asia/Shanghai",310565],
+  ["Dongying","China",37.4564,118.4856,8,"Asia/Shanghai",306450],
+  ["Yangshuo","China",24.7808,110.4897,116,"Asia/Chongqing",300000],
+  ["Xiuying","China",20.0007,110.2936,16,"Asia/Chongqing",290000],
+  ["Beihai","China",21.4833,109.1000,3,"Asia/Chongqing",289568],
+  ["Huizhou","China",23.0833,114.4000,23,"Asia/Shanghai",289201],
+  ["Chuzhou","China",32.3219,118.2978,24,"Asia/Shanghai",280582],
+  ["Kashi","China",39.4547,75.9797,1288,"Asia/Kashgar",274717],
+  ["Linyi","China",35.0631,118.3428,69,"Asia/Shanghai",270669],
+  ["Chengzhong","China",30.9445,113.5528,34,"Asia/Shanghai",265886],
+  ["Wuzhou","China",23.4833,111.3167,75,"Asia/Chongqing",265846],
+  ["Hulan Ergi","China",47.2042,123.6333,152,"Asia/Harbin",265344],
+  ["Mianyang","China",31.4593,104.7542,468,"Asia/Chongqing",264136],
+  ["Tongliao","China",43.6125,122.2653,182,"Asia/Shanghai",261110],
+  ["Aral","China",40.5156,81.2636,1010,"Asia/Kashgar",260000],
+  ["Jiujiang","China",29.7333,115.9833,10,"Asia/Shanghai",258807],
+  ["Jining","China",41.0275,113.1058,1409,"Asia/Chongqing",258757],
+  ["Laochenglu","China",42.9251,89.1683,-4,"Asia/Urumqi",254900],
+  ["Heze","China",35.2431,115.4411,47,"Asia/Shanghai",254602],
+  ["Laohekou","China",32.3858,111.6678,93,"Asia/Shanghai",253112],
+  ["Suihua","China",46.6395,126.9951,183,"Asia/Harbin",252245],
+  ["Liupanshui","China",26.5944,104.8333,1799,"Asia/Chongqing",251900],
+  ["Nanyang","China",32.9947,112.5328,131,"Asia/Shanghai",251532],
+  ["Wafangdian","China",39.6183,122.0081,103,"Asia/Shanghai",250591],
+  ["Rizhao","China",35.4275,119.4553,16,"Asia/Shanghai",246387],
+  ["Ji'an","China",27.1172,114.9793,72,"Asia/Shanghai",245000],
+  ["Hebi","China",35.8992,114.1925,138,"Asia/Shanghai",244662],
+  ["Yibin","China",28.7667,104.6238,291,"Asia/Chongqing",242111],
+  ["Xiantao","China",30.3833,113.4000,30,"Asia/Shanghai",239406],
+  ["Yuci","China",37.6803,112.7319,798,"Asia/Shanghai",235929],
+  ["Linfen","China",36.0889,111.5189,451,"Asia/Shanghai",232566],
+  ["Liaocheng","China",36.4439,115.9647,39,"Asia/Shanghai",226930],
+  ["Fendou","China",46.6414,124.8628,147,"Asia/Harbin",226298],
+  ["Huanggang","China",23.6770,116.9996,13,"Asia/Shanghai",225956],
+  ["Jingling","China",30.6500,113.1000,30,"Asia/Shanghai",224871],
+  ["Tongchuan","China",35.0806,109.0897,851,"Asia/Chongqing",223603],
+  ["Xintai","China",35.9006,117.7519,197,"Asia/Shanghai",222459],
+  ["Wuxue","China",29.8506,115.5525,23,"Asia/Shanghai",220661],
+  ["Wuhai","China",39.6844,106.8158,1095,"Asia/Chongqing",218427],
+  ["Jinzhou","China",39.1000,121.7167,8,"Asia/Shanghai",215386],
+  ["Guangyuan","China",32.4420,105.8230,525,"Asia/Chongqing",213365],
+  ["Hailar","China",49.2000,119.7000,624,"Asia/Shanghai",211066],
+  ["Daliang","China",22.8407,113.2503,4,"Asia/Shanghai",210411],
+  ["Sanming","China",26.2486,117.6186,126,"Asia/Shanghai",209444],
+  ["Hangu","China",39.2489,117.7892,3,"Asia/Shanghai",208369],
+  ["Suzhou","China",33.6361,116.9789,34,"Asia/Shanghai",205130],
+  ["Gaoping","China",30.7758,106.1029,283,"Asia/Chongqing",204368],
+  ["Daqing","China",46.5833,125.0000,146,"Asia/Harbin",203488],
+  ["Yiyang","China",28.5892,112.3283,25,"Asia/Shanghai",202608],
+  ["Linxia Chengguanzhen","China",35.6003,103.2064,1893,"Asia/Chongqing",202402],
+  ["Yuncheng","China",35.0231,110.9928,361,"Asia/Shanghai",201950],
+  ["Yan'an Beilu","China",44.0078,87.3046,581,"Asia/Urumqi",198776],
+  ["Kaiyuan","China",23.6977,103.3037,1259,"Asia/Chongqing",198423],
+  ["Mentougou","China",39.9382,116.0931,111,"Asia/Shanghai",197772],
+  ["Xinhui","China",22.4560,113.0482,0,"Asia/Shanghai",195129],
+  ["Ezhou","China",30.4000,114.8333,25,"Asia/Shanghai",193652],
+  ["Humen","China",22.8190,113.6731,20,"Asia/Shanghai",191891],
+  ["Haicheng","China",40.8516,122.7475,33,"Asia/Shanghai",191651],
+  ["Zoucheng","China",35.4006,116.9656,76,"Asia/Shanghai",190537],
+  ["Wanxian","China",30.8154,108.3709,257,"Asia/Chongqing",188980],
+  ["Donghai","China",22.9459,115.6420,14,"Asia/Shanghai",188602],
+  ["Baiyin","China",36.5470,104.1702,1714,"Asia/Chongqing",188533],
+  ["Zaoyang","China",32.1272,112.7542,113,"Asia/Shanghai",184509],
+  ["Quanzhou","China",24.9139,118.5858,14,"Asia/Shanghai",184143],
+  ["Baishan","China",41.9385,126.4197,460,"Asia/Harbin",183880],
+  ["Zaozhuang","China",34.8647,117.5542,79,"Asia/Shanghai",183665],
+  ["Anda","China",46.4020,125.3145,148,"Asia/Harbin",181271],
+  ["Shangqiu","China",34.4500,115.6500,51,"Asia/Shanghai",181218],
+  ["Xianning","China",29.8833,114.2167,37,"Asia/Shanghai",179494],
+  ["Sayibage","China",41.7606,86.1523,943,"Asia/Urumqi",179465],
+  ["Yuanlin","China",30.4151,112.8859,34,"Asia/Shanghai",179079],
+  ["Chenzhou","China",25.8000,113.0333,180,"Asia/Shanghai",179038],
+  ["Jingzhou","China",30.3503,112.1903,39,"Asia/Shanghai",177878],
+  ["Zhenzhou","China",32.2803,119.1700,10,"Asia/Shanghai",176006],
+  ["Xindi","China",29.8167,113.4667,27,"Asia/Shanghai",175761],
+  ["Jiutai","China",44.1525,125.8328,180,"Asia/Harbin",175115],
+  ["Bozhou","China",33.8772,115.7703,40,"Asia/Shanghai",174140],
+  ["Licheng","China",23.2955,113.8247,10,"Asia/Shanghai",172775],
+  ["Weinan","China",34.5035,109.5089,354,"Asia/Chongqing",172321],
+  ["Nanping","China",26.6450,118.1736,102,"Asia/Shanghai",171674],
+  ["Dongling","China",41.8144,123.5758,53,"Asia/Shanghai",171454],
+  ["Fuyang","China",32.9000,115.8167,31,"Asia/Shanghai",170023],
+  ["Laiyang","China",36.9758,120.7136,40,"Asia/Shanghai",169594],
+  ["Jingmen","China",31.0336,112.2047,94,"Asia/Shanghai",167750],
+  ["Fuling","China",29.7060,107.3958,263,"Asia/Chongqing",166507],
+  ["Gaozhou","China",21.9392,110.8461,57,"Asia/Urumqi",166069],
+  ["Ulanhot","China",46.0833,122.0833,303,"Asia/Shanghai",165846],
+  ["Shanwei","China",22.7820,115.3475,9,"Asia/Shanghai",165699],
+  ["Jiaozhou","China",36.2839,120.0033,10,"Asia/Shanghai",165026],
+  ["Fendou","China",45.2124,130.9025,223,"Asia/Harbin",164844],
+  ["Tongzhou","China",39.9040,116.6618,33,"Asia/Shanghai",163326],
+  ["Anbu","China",23.4489,116.6809,15,"Asia/Shanghai",162964],
+  ["Xiaogan","China",30.9167,113.9000,28,"Asia/Shanghai",160437],
+  ["Zhicheng","China",30.2956,111.5047,51,"Asia/Shanghai",159383],
+  ["Huzhou","China",30.8703,120.0933,6,"Asia/Shanghai",158320],
+  ["Nanpiao","China",41.0982,120.7479,98,"Asia/Shanghai",157044],
+  ["Yichun","China",47.7214,128.8753,225,"Asia/Harbin",155762],
+  ["Lianghu","China",29.9915,120.8984,22,"Asia/Shanghai",155000],
+  ["Beipiao","China",41.7919,120.7792,266,"Asia/Shanghai",154999],
+  ["Guangshui","China",31.6199,113.9978,83,"Asia/Shanghai",154771],
+  ["Leshan","China",29.5623,103.7639,375,"Asia/Chongqing",154477],
+  ["Zhaodong","China",46.0677,125.9826,139,"Asia/Harbin",154406],
+  ["Xinzhou","China",38.4092,112.7333,794,"Asia/Shanghai",154003],
+  ["Sanshui","China",23.1549,112.8916,12,"Asia/Shanghai",153714],
+  ["Boshan","China",36.4833,117.8333,368,"Asia/Shanghai",153596],
+  ["Yangchun","China",22.1667,111.7833,22,"Asia/Chongqing",153547],
+  ["Linhai","China",28.8482,121.1281,18,"Asia/Shanghai",152937],
+  ["Dingzhou","China",38.5131,114.9956,64,"Asia/Shanghai",152934],
+  ["Weihai","China",37.5091,122.1136,14,"Asia/Shanghai",152595],
+  ["Chenghua","China",23.4613,116.7701,13,"Asia/Shanghai",152453],
+  ["Deyang","China",31.1302,104.3820,501,"Asia/Chongqing",152194],
+  ["Yichun","China",27.8333,114.4000,99,"Asia/Shanghai",152169],
+  ["Longfeng","China",46.5317,125.1038,147,"Asia/Harbin",152074],
+  ["Qingyuan","China",23.7000,113.0333,11,"Asia/Shanghai",151287],
+  ["Gaomi","China",36.3833,119.7528,24,"Asia/Shanghai",150793],
+  ["Loudi","China",27.7344,111.9944,135,"Asia/Shanghai",150684],
+  ["Huangyan","China",28.6501,121.2659,10,"Asia/Shanghai",150448],
+  ["Dunhua","China",43.3725,128.2425,501,"Asia/Harbin",148844],
+  ["Yulin","China",22.6333,110.1500,83,"Asia/Chongqing",148485],
+  ["Chizhou","China",30.6613,117.4778,22,"Asia/Shanghai",148375],
+  ["Sujiatun","China",41.6592,123.3392,40,"Asia/Shanghai",148113],
+  ["Honggang","China",46.4012,124.8832,143,"Asia/Harbin",147977],
+  ["Qujing","China",25.4833,103.7833,1887,"Asia/Chongqing",146015],
+  ["Hanzhong","China",33.0728,107.0303,515,"Asia/Chongqing",145986],
+  ["Xinji","China",37.9028,115.2036,40,"Asia/Shanghai",145911],
+  ["Taishan","China",22.2513,112.7799,3,"Asia/Chongqing",145440],
+  ["Sanya","China",18.2431,109.5050,11,"Asia/Chongqing",144753],
+  ["Acheng","China",45.5455,126.9770,139,"Asia/Harbin",144665],
+  ["Jinchang","China",38.4953,102.1739,1562,"Asia/Chongqing",144363],
+  ["Meizhou","China",24.2977,116.1072,83,"Asia/Shanghai",144212],
+  ["Jinhua","China",29.1068,119.6442,55,"Asia/Shanghai",142206],
+  ["Jieshou","China",33.2634,115.3611,42,"Asia/Shanghai",141993],
+  ["Gongzhuling","China",43.5007,124.8198,211,"Asia/Harbin",140909],
+  ["Altay","China",47.8486,88.1336,866,"Asia/Urumqi",139341],
+  ["Huadian","China",42.9633,126.7478,268,"Asia/Harbin",139047],
+  ["Fuyu","China",45.1833,124.8167,141,"Asia/Harbin",138704],
+  ["Chaohu","China",31.6000,117.8667,11,"Asia/Shanghai",138463],
+  ["Jieshi","China",22.8103,115.8306,9,"Asia/Shanghai",137444],
+  ["Jiashan","China",30.8492,120.9258,7,"Asia/Shanghai",137112],
+  ["Hami","China",42.8339,93.5060,762,"Asia/Urumqi",137072],
+  ["Shizuishan","China",39.2333,106.7694,1103,"Asia/Chongqing",136570],
+  ["Gejiu","China",23.3608,103.1537,1708,"Asia/Chongqing",136135],
+  ["Jagdaqi","China",50.4167,124.1167,381,"Asia/Shanghai",135760],
+  ["Shiqiao","China",22.9464,113.3577,4,"Asia/Shanghai",135308],
+  ["Dali","China",25.5847,100.2123,1977,"Asia/Chongqing",134040],
+  ["Puqi","China",29.7167,113.8833,40,"Asia/Shanghai",132891],
+  ["Ankang","China",32.6800,109.0172,273,"Asia/Chongqing",132654],
+  ["Zalantun","China",48.0000,122.7167,311,"Asia/Shanghai",132224],
+  ["Dawukou","China",39.0419,106.3958,1119,"Asia/Chongqing",131880],
+  ["Majie","China",25.0333,102.6361,1897,"Asia/Chongqing",131696],
+  ["Hepo","China",23.4308,115.8299,41,"Asia/Shanghai",131238],
+  ["Dazhou","China",31.2159,107.5009,309,"Asia/Chongqing",130749],
+  ["Shuangcheng","China",45.3500,126.2833,163,"Asia/Harbin",130710],
+  ["Dongyang","China",29.2678,120.2253,97,"Asia/Shanghai",130387],
+  ["Jiazi","China",22.8793,116.0732,7,"Asia/Shanghai",130298],
+  ["Songjiang","China",31.0359,121.2146,5,"Asia/Shanghai",130218],
+  ["Shangri-La","China",27.8251,99.7078,3283,"Asia/Chongqing",130000],
+  ["Wuda","China",39.4994,106.7117,1129,"Asia/Chongqing",129922],
+  ["Leiyang","China",26.4024,112.8591,69,"Asia/Shanghai",129116],
+  ["Xuanzhou","China",30.9525,118.7553,25,"Asia/Shanghai",127758],
+  ["Huaihua","China",27.5494,109.9592,245,"Asia/Shanghai",127322],
+  ["Jiangyou","China",31.7667,104.7167,527,"Asia/Chongqing",127225],
+  ["Xichang","China",27.8964,102.2634,1558,"Asia/Chongqing",126787],
+  ["Danshui","China",22.7984,114.4672,27,"Asia/Shanghai",126701],
+  ["Macheng","China",31.1783,115.0319,58,"Asia/Shanghai",126366],
+  ["Huicheng","China",23.0385,116.2899,10,"Asia/Shanghai",125919],
+  ["Xiazhen","China",34.8022,117.1117,39,"Asia/Shanghai",125667],
+  ["Haimen","China",23.1935,116.6122,17,"Asia/Shanghai",125427],
+  ["Shahecheng","China",36.9383,114.5058,73,"Asia/Shanghai",125132],
+  ["Suining","China",30.5080,105.5733,291,"Asia/Chongqing",124924],
+  ["Yushu","China",44.8000,126.5333,220,"Asia/Harbin",124736],
+  ["Lecheng","China",25.1137,113.3541,106,"Asia/Shanghai",124268],
+  ["Laiwu","China",36.1928,117.6569,182,"Asia/Shanghai",124108],
+  ["Jiupu","China",41.0667,122.9500,31,"Asia/Shanghai",123843],
+  ["Baoshan","China",46.5586,131.4244,167,"Asia/Harbin",123791],
+  ["Luoyang","China",23.1624,114.2734,16,"Asia/Shanghai",123144],
+  ["Jiaohe","China",43.7286,127.3447,274,"Asia/Harbin",123018],
+  ["Huangzhou","China",30.4500,114.8000,19,"Asia/Shanghai",122563],
+  ["Xiulin","China",29.7167,112.4000,36,"Asia/Shanghai",122411],
+  ["Zhoucun","China",36.8167,117.8167,53,"Asia/Shanghai",122402],
+  ["Jiayuguan","China",39.8112,98.2862,1635,"Asia/Chongqing",122396],
+  ["Lianhe","China",47.1333,129.2743,173,"Asia/Harbin",121367],
+  ["Xilin Hot","China",43.9667,116.0333,982,"Asia/Shanghai",120965],
+  ["Fengcheng","China",40.4536,124.0717,65,"Asia/Shanghai",120514],
+  ["Lhasa","China",29.6500,91.1000,3651,"Asia/Urumqi",118721],
+  ["Puning","China",23.3107,116.1687,12,"Asia/Shanghai",118023],
+  ["Shunyi","China",40.1217,116.6478,45,"Asia/Shanghai",117623],
+  ["Longjing","China",42.7714,129.4233,245,"Asia/Harbin",117185],
+  ["Qingzhou","China",36.6967,118.4797,98,"Asia/Shanghai",117056],
+  ["Dasha","China",23.1104,113.4418,13,"Asia/Shanghai",116307],
+  ["Yakeshi","China",49.2833,120.7333,661,"Asia/Shanghai",116284],
+  ["Binzhou","China",37.3667,118.0167,14,"Asia/Shanghai",115893],
+  ["Lengshuijiang","China",27.6881,111.4294,194,"Asia/Shanghai",115399],
+  ["Tianfu","China",37.1972,122.0523,41,"Asia/Shanghai",115370],
+  ["Mingshui","China",36.7167,117.5000,73,"Asia/Shanghai",114858],
+  ["Yuyao","China",30.0500,121.1494,59,"Asia/Shanghai",114177],
+  ["Hotan","China",37.0997,79.9269,1393,"Asia/Kashgar",114000],
+  ["Pingshan","China",22.9938,114.7131,22,"Asia/Shanghai",113631],
+  ["Qianguo","China",45.1171,124.8568,133,"Asia/Harbin",113611],
+  ["Maba","China",24.6841,113.5984,68,"Asia/Shanghai",113609],
+  ["Guangming","China",45.3333,122.7833,150,"Asia/Harbin",112819],
+  ["Haikou","China",24.7798,102.5755,1909,"Asia/Chongqing",112644],
+  ["Shaowu","China",27.3409,117.4831,196,"Asia/Shanghai",112585],
+  ["Kaiyuan","China",42.5331,124.0403,91,"Asia/Shanghai",112462],
+  ["Beibei","China",29.8274,106.4364,237,"Asia/Chongqing",112019],
+  ["Dongtai","China",32.8523,120.3095,7,"Asia/Shanghai",110988],
+  ["Encheng","China",22.1866,112.3042,19,"Asia/Chongqing",110921],
+  ["Zhuji","China",29.7188,120.2423,23,"Asia/Shanghai",110721],
+  ["Linqing","China",36.8456,115.7117,36,"Asia/Shanghai",110046],
+  ["Zhucheng","China",35.9947,119.3975,64,"Asia/Shanghai",109968],
+  ["Linshui","China",36.4247,114.2047,138,"Asia/Shanghai",109955],
+  ["Hailun","China",47.4565,126.9537,242,"Asia/Harbin",109881],
+  ["Shilong","China",23.1144,113.8472,14,"Asia/Shanghai",109733],
+  ["Tieli","China",46.9804,128.0450,214,"Asia/Harbin",109636],
+  ["Dongxing","China",45.3609,130.7868,217,"Asia/Harbin",109561],
+  ["Heihe","China",50.2441,127.4902,139,"Asia/Harbin",109427],
+  ["Zhaotong","China",27.3167,103.7167,1974,"Asia/Chongqing",109400],
+  ["Hulan","China",45.9833,126.6000,128,"Asia/Harbin",109104],
+  ["Zhongxiang","China",31.1661,112.5831,50,"Asia/Shanghai",108883],
+  ["Dehui","China",44.5333,125.7000,180,"Asia/Harbin",108818],
+  ["Nehe","China",48.4833,124.8333,197,"Asia/Harbin",108253],
+  ["Pingliang","China",35.5392,106.6861,1354,"Asia/Chongqing",108156],
+  ["Kunshan","China",31.3776,120.9543,10,"Asia/Shanghai",107986],
+  ["Chengjiang","China",31.9110,120.2630,7,"Asia/Shanghai",107918],
+  ["Jalai Nur","China",49.4500,117.7000,566,"Asia/Shanghai",107828],
+  ["Shaping","China",22.7702,112.9578,13,"Asia/Shanghai",107589],
+  ["Lianran","China",24.9227,102.4850,1836,"Asia/Chongqing",106795],
+  ["Longjiang","China",47.3307,123.1782,184,"Asia/Harbin",106384],
+  ["Buhe","China",30.2876,112.2298,39,"Asia/Shanghai",106347],
+  ["Xinghua","China",32.9392,119.8342,8,"Asia/Shanghai",105918],
+  ["Anqiu","China",36.4342,119.1925,58,"Asia/Shanghai",105665],
+  ["Tengzhou","China",35.0771,117.1518,68,"Asia/Shanghai",105456],
+  ["Daxing","China",39.7403,116.3269,42,"Asia/Shanghai",104904],
+  ["Pulandian","China",39.3953,121.9669,14,"Asia/Shanghai",104277],
+  ["Wuchuan","China",21.4571,110.7659,7,"Asia/Urumqi",104168],
+  ["Jishu","China",44.3167,126.8000,250,"Asia/Harbin",103988],
+  ["Yuxi","China",24.3550,102.5422,1638,"Asia/Chongqing",103829],
+  ["Qianzhou","China",28.3193,109.7335,201,"Asia/Shanghai",102332],
+  ["Qinzhou","China",21.9730,108.6261,11,"Asia/Chongqing",100996],
+  ["Luofeng","China",37.3650,120.4100,82,"Asia/Shanghai",100774],
+  ["Lianjiang","China",21.6467,110.2817,46,"Asia/Urumqi",100341],
+  ["Linxi","China",39.7000,118.4333,36,"Asia/Shanghai",100316],
+  ["Kangding","China",30.0513,101.9603,2530,"Asia/Chongqing",100000],
+  ["Bogota","Colombia",4.6097,-74.0817,2582,"America/Bogota",7674366],
+  ["Cali","Colombia",3.4372,-76.5225,967,"America/Bogota",2392877],
+  ["Medellin","Colombia",6.2518,-75.5636,1405,"America/Bogota",1999979],
+  ["Barranquilla","Colombia",10.9685,-74.7813,24,"America/Bogota",1380425],
+  ["Cartagena","Colombia",10.3997,-75.5144,34,"America/Bogota",952024],
+  ["Cucuta","Colombia",7.8939,-72.5078,309,"America/Bogota",721398],
+  ["Bucaramanga","Colombia",7.1254,-73.1198,993,"America/Bogota",571820],
+  ["Pereira","Colombia",4.8133,-75.6961,1414,"America/Bogota",440118],
+  ["Santa Marta","Colombia",11.2408,-74.1990,12,"America/Bogota",431781],
+  ["Ibague","Colombia",4.4389,-75.2322,1229,"America/Bogota",421685],
+  ["Bello","Colombia",6.3373,-75.5580,1456,"America/Bogota",392939],
+  ["Pasto","Colombia",1.2136,-77.2811,2545,"America/Bogota",382236],
+  ["Manizales","Colombia",5.0689,-75.5174,2119,"America/Bogota",357814],
+  ["Neiva","Colombia",2.9273,-75.2819,461,"America/Bogota",352855],
+  ["Soledad","Colombia",10.9184,-74.7646,15,"America/Bogota",342556],
+  ["Villavicencio","Colombia",4.1420,-73.6266,441,"America/Bogota",321717],
+  ["Armenia","Colombia",4.5339,-75.6811,1480,"America/Bogota",315328],
+  ["Soacha","Colombia",4.5794,-74.2168,2565,"America/Bogota",313945],
+  ["Valledupar","Colombia",10.4631,-73.2532,165,"America/Bogota",308237],
+  ["Itagui","Colombia",6.1846,-75.5991,1538,"America/Bogota",281853],
+  ["Monteria","Colombia",8.7480,-75.8814,19,"America/Bogota",272420],
+  ["Sincelejo","Colombia",9.3047,-75.3978,211,"America/Bogota",261187],
+  ["Popayan","Colombia",2.4382,-76.6132,1760,"America/Bogota",258653],
+  ["Floridablanca","Colombia",7.0622,-73.0864,928,"America/Bogota",252267],
+  ["Palmira","Colombia",3.5394,-76.3036,1005,"America/Bogota",247986],
+  ["Buenaventura","Colombia",3.8801,-77.0312,19,"America/Bogota",240387],
+  ["Barrancabermeja","Colombia",7.0653,-73.8547,83,"America/Bogota",191403],
+  ["Dos Quebradas","Colombia",4.8392,-75.6673,1454,"America/Bogota",179583],
+  ["Tulua","Colombia",4.0847,-76.1954,974,"America/Bogota",165501],
+  ["Envigado","Colombia",6.1759,-75.5917,1539,"America/Bogota",163007],
+  ["Cartago","Colombia",4.7464,-75.9117,915,"America/Bogota",134827],
+  ["Maicao","Colombia",11.3832,-72.2432,49,"America/Bogota",130348],
+  ["Florencia","Colombia",1.6144,-75.6062,270,"America/Bogota",130337],
+  ["Girardot","Colombia",4.2987,-74.8047,295,"America/Bogota",130289],
+  ["Sogamoso","Colombia",5.7143,-72.9339,2490,"America/Bogota",126551],
+  ["Buga","Colombia",3.9009,-76.2978,979,"America/Bogota",118004],
+  ["Tunja","Colombia",5.5353,-73.3678,2804,"America/Bogota",117479],
+  ["Giron","Colombia",7.0682,-73.1698,706,"America/Bogota",108466],
+  ["Malambo","Colombia",10.8595,-74.7739,17,"America/Bogota",101534],
+  ["Magangue","Colombia",9.2420,-74.7547,20,"America/Bogota",100313],
+  ["Moroni","Comoros",-11.7022,43.2551,27,"Indian/Comoro",42872],
+  ["Moutsamoudou","Comoros",-12.1667,44.3994,61,"Indian/Comoro",23594],
+  ["San Jose","Costa Rica",9.9333,-84.0833,1161,"America/Costa_Rica",335007],
+  ["Puerto Limon","Costa Rica",9.9929,-83.0305,5,"America/Costa_Rica",63081],
+  ["San Francisco","Costa Rica",9.9930,-84.1293,1128,"America/Costa_Rica",55923],
+  ["Zagreb - Centar","Croatia",45.8131,15.9775,134,"Europe/Zagreb",800000],
+  ["Zagreb","Croatia",45.8144,15.9780,135,"Europe/Zagreb",698966],
+  ["Split","Croatia",43.5089,16.4392,12,"Europe/Zagreb",176314],
+  ["Rijeka","Croatia",45.3431,14.4092,125,"Europe/Zagreb",141172],
+  ["Havana","Cuba",23.1330,-82.3830,41,"America/Havana",2163824],
+  ["Santiago de Cuba","Cuba",20.0247,-75.8219,69,"America/Havana",555865],
+  ["Camaguey","Cuba",21.3808,-77.9169,102,"America/Havana",347562],
+  ["Holguin","Cuba",20.8872,-76.2631,146,"America/Havana",319102],
+  ["Guantanamo","Cuba",20.1444,-75.2092,56,"America/Havana",272801],
+  ["Santa Clara","Cuba",22.4000,-79.9667,122,"America/Havana",250512],
+  ["Diez de Octubre","Cuba",23.0881,-82.3597,63,"America/Havana",227293],
+  ["Arroyo Naranjo","Cuba",23.0361,-82.3717,81,"America/Havana",210053],
+  ["Arroyo Naranjo","Cuba",23.0144,-82.3031,88,"America/Havana",210053],
+  ["Las Tunas","Cuba",20.9617,-76.9511,91,"America/Havana",203684],
+  ["Bayamo","Cuba",20.3792,-76.6433,58,"America/Havana",192632],
+  ["Boyeros","Cuba",23.0072,-82.4017,66,"America/Havana",188593],
+  ["Pinar del Rio","Cuba",22.4175,-83.6981,55,"America/Havana",186990],
+  ["Cienfuegos","Cuba",22.1461,-80.4356,23,"America/Havana",186644],
+  ["Habana del Este","Cuba",23.1592,-82.3306,19,"America/Havana",178041],
+  ["San Miguel del Padron","Cuba",23.0664,-82.2947,97,"America/Havana",159273],
+  ["Centro Habana","Cuba",23.1383,-82.3642,45,"America/Havana",158151],
+  ["Matanzas","Cuba",23.0411,-81.5775,6,"America/Havana",146733],
+  ["Ciego de Avila","Cuba",21.8400,-78.7619,49,"America/Havana",142027],
+  ["Cerro","Cuba",23.1086,-82.3778,26,"America/Havana",132351],
+  ["Manzanillo","Cuba",20.3433,-77.1167,16,"America/Havana",128188],
+  ["Sancti Spiritus","Cuba",21.9297,-79.4425,66,"America/Havana",127069],
+  ["Guanabacoa","Cuba",23.1239,-82.3003,34,"America/Havana",112964],
+  ["Palma Soriano","Cuba",20.2124,-75.9984,144,"America/Havana",102826],
+  ["Alamar","Cuba",23.1583,-82.2769,37,"America/Havana",100000],
+  ["Willemstad","Curaçao",12.1084,-68.9335,1,"America/Curacao",125000],
+  ["Nicosia","Cyprus",35.1667,33.3667,149,"Asia/Nicosia",200452],
+  ["Limassol","Cyprus",34.6750,33.0333,14,"Asia/Nicosia",154000],
+  ["Larnaca","Cyprus",34.9167,33.6292,13,"Asia/Nicosia",72000],
+  ["Prague","Czechia",50.0880,14.4208,202,"Europe/Prague",1165581],
+  ["Brno","Czechia",49.1952,16.6080,226,"Europe/Prague",369559],
+  ["Ostrava","Czechia",49.8347,18.2820,211,"Europe/Prague",313088],
+  ["Plzen","Czechia",49.7475,13.3776,316,"Europe/Prague",164180],
+  ["Olomouc","Czechia",49.5955,17.2518,223,"Europe/Prague",101268],
+  ["Copenhagen","Denmark",55.6759,12.5655,14,"Europe/Copenhagen",1153615],
+  ["Arhus","Denmark",56.1567,10.2108,10,"Europe/Copenhagen",237551],
+  ["Odense","Denmark",55.3959,10.3883,17,"Europe/Copenhagen",145931],
+  ["Aalborg","Denmark",57.0480,9.9187,10,"Europe/Copenhagen",122219],
+  ["Djibouti","Djibouti",11.5890,43.1450,6,"Africa/Djibouti",623891],
+  ["'Ali Sabieh","Djibouti",11.1558,42.7125,699,"Africa/Djibouti",40074],
+  ["Danan","Djibouti",11.1833,42.9333,450,"Africa/Djibouti",40074],
+  ["Roseau","Dominica",15.3017,-61.3881,11,"America/Dominica",16571],
+  ["Santo Domingo","Dominican Republic",18.5001,-69.9886,55,"America/Santo_Domingo",2201941],
+  ["Santiago de los Caballeros","Dominican Republic",19.4517,-70.6970,202,"America/Santo_Domingo",1200000],
+  ["Santo Domingo Oeste","Dominican Republic",18.5000,-70.0000,58,"America/Santo_Domingo",701269],
+  ["San Pedro de Macoris","Dominican Republic",18.4616,-69.2972,8,"America/Santo_Domingo",217899],
+  ["La Romana","Dominican Republic",18.4273,-68.9728,30,"America/Santo_Domingo",208437],
+  ["Bella Vista","Dominican Republic",18.4500,-69.9333,20,"America/Santo_Domingo",175683],
+  ["San Cristobal","Dominican Republic",18.4167,-70.1000,33,"America/Santo_Domingo",154040],
+  ["Puerto Plata","Dominican Republic",19.7934,-70.6884,34,"America/Santo_Domingo",146000],
+  ["San Francisco de Macoris","Dominican Republic",19.3010,-70.2526,153,"America/Santo_Domingo",124763],
+  ["Salvaleon de Higuey","Dominican Republic",18.6150,-68.7080,95,"America/Santo_Domingo",123787],
+  ["Concepcion de La Vega","Dominican Republic",19.2221,-70.5296,101,"America/Santo_Domingo",102426],
+  ["Punta Cana","Dominican Republic",18.5818,-68.4043,28,"America/Santo_Domingo",100023],
+  ["Kinshasa","DR Congo",-4.3214,15.3081,280,"Africa/Kinshasa",7785965],
+  ["Lubumbashi","DR Congo",-11.6609,27.4794,1260,"Africa/Lubumbashi",1373770],
+  ["Mbuji-Mayi","DR Congo",-6.1360,23.5898,621,"Africa/Lubumbashi",874761],
+  ["Kisangani","DR Congo",0.5153,25.1910,400,"Africa/Lubumbashi",539158],
+  ["Masina","DR Congo",-4.3836,15.3914,288,"Africa/Kinshasa",485167],
+  ["Kananga","DR Congo",-5.8962,22.4166,643,"Africa/Lubumbashi",463546],
+  ["Likasi","DR Congo",-10.9814,26.7333,1289,"Africa/Lubumbashi",422414],
+  ["Kolwezi","DR Congo",-10.7148,25.4667,1485,"Africa/Lubumbashi",418000],
+  ["Tshikapa","DR Congo",-6.4162,20.7999,484,"Africa/Lubumbashi",267462],
+  ["Bukavu","DR Congo",-2.4908,28.8428,1631,"Africa/Lubumbashi",225389],
+  ["Mwene-Ditu","DR Congo",-7.0091,23.4528,970,"Africa/Lubumbashi",189177],
+  ["Kikwit","DR Congo",-5.0410,18.8162,466,"Africa/Kinshasa",186991],
+  ["Mbandaka","DR Congo",0.0486,18.2603,315,"Africa/Kinshasa",184185],
+  ["Matadi","DR Congo",-5.7995,13.4407,342,"Africa/Kinshasa",180109],
+  ["Uvira","DR Congo",-3.3953,29.1378,806,"Africa/Lubumbashi",170391],
+  ["Butembo","DR Congo",0.1416,29.2912,1736,"Africa/Lubumbashi",154621],
+  ["Gandajika","DR Congo",-6.7500,23.9500,804,"Africa/Lubumbashi",154425],
+  ["Kalemie","DR Congo",-5.9475,29.1947,787,"Africa/Lubumbashi",146974],
+  ["Goma","DR Congo",-1.6741,29.2284,1518,"Africa/Lubumbashi",144124],
+  ["Kindu","DR Congo",-2.9437,25.9224,464,"Africa/Lubumbashi",135698],
+  ["Isiro","DR Congo",2.7739,27.6160,761,"Africa/Lubumbashi",127076],
+  ["Bandundu","DR Congo",-3.3169,17.3806,322,"Africa/Kinshasa",118211],
+  ["Gemena","DR Congo",3.2565,19.7723,420,"Africa/Kinshasa",117639],
+  ["Ilebo","DR Congo",-4.3311,20.5864,440,"Africa/Lubumbashi",107093],
+  ["Guayaquil","Ecuador",-2.2058,-79.9079,60,"America/Guayaquil",1952029],
+  ["Quito","Ecuador",-0.2298,-78.5250,2854,"America/Guayaquil",1399814],
+  ["Cuenca","Ecuador",-2.9005,-79.0045,2543,"America/Guayaquil",276964],
+  ["Santo Domingo de los Colorados","Ecuador",-0.2530,-79.1754,554,"America/Guayaquil",200421],
+  ["Machala","Ecuador",-3.2586,-79.9605,16,"America/Guayaquil",198123],
+  ["Manta","Ecuador",-0.9621,-80.7127,23,"America/Guayaquil",183166],
+  ["Portoviejo","Ecuador",-1.0546,-80.4544,90,"America/Guayaquil",170326],
+  ["Eloy Alfaro","Ecuador",-2.1758,-79.8552,7,"America/Guayaquil",167784],
+  ["Esmeraldas","Ecuador",0.9592,-79.6540,18,"America/Guayaquil",165216],
+  ["Ambato","Ecuador",-1.2491,-78.6167,2597,"America/Guayaquil",154369],
+  ["Ibarra","Ecuador",0.3517,-78.1223,2208,"America/Guayaquil",132977],
+  ["Riobamba","Ecuador",-1.6710,-78.6471,2745,"America/Guayaquil",124478],
+  ["Quevedo","Ecuador",-1.0286,-79.4635,51,"America/Guayaquil",119436],
+  ["Loja","Ecuador",-3.9931,-79.2042,2060,"America/Guayaquil",117796],
+  ["Cairo","Egypt",30.0626,31.2497,23,"Africa/Cairo",7734614],
+  ["Alexandria","Egypt",31.2156,29.9553,-1,"Africa/Cairo",3811516],
+  ["Al Jizah","Egypt",30.0081,31.2109,30,"Africa/Cairo",2443203],
+  ["Port Said","Egypt",31.2565,32.2841,6,"Africa/Cairo",538378],
+  ["Suez","Egypt",29.9737,32.5263,11,"Africa/Cairo",488125],
+  ["Al Mahallah al Kubra","Egypt",30.9745,31.1650,19,"Africa/Cairo",431052],
+  ["Luxor","Egypt",25.6989,32.6421,89,"Africa/Cairo",422407],
+  ["Asyut","Egypt",27.1810,31.1837,56,"Africa/Cairo",420585],
+  ["Al Mansurah","Egypt",31.0364,31.3807,15,"Africa/Cairo",420195],
+  ["Tanda","Egypt",30.7885,31.0019,18,"Africa/Cairo",404901],
+  ["Al Fayyum","Egypt",29.3100,30.8418,29,"Africa/Cairo",306393],
+  ["Zagazig","Egypt",30.5877,31.5020,16,"Africa/Cairo",285097],
+  ["Ismailia","Egypt",30.6043,32.2722,14,"Africa/Cairo",284813],
+  ["Kafr ad Dawwar","Egypt",31.1338,30.1284,0,"Africa/Cairo",267370],
+  ["Aswan","Egypt",24.0908,32.8994,79,"Africa/Cairo",241261],
+  ["Qina","Egypt",26.1642,32.7267,80,"Africa/Cairo",235362],
+  ["Halwan","Egypt",29.8414,31.3008,28,"Africa/Cairo",230000],
+  ["Damanhur","Egypt",31.0392,30.4691,9,"Africa/Cairo",227943],
+  ["Al Minya","Egypt",28.1099,30.7503,49,"Africa/Cairo",227150],
+  ["Sohag","Egypt",26.5570,31.6948,67,"Africa/Cairo",209419],
+  ["Bani Suwayf","Egypt",29.0744,31.0979,33,"Africa/Cairo",189624],
+  ["Shibin al Kawm","Egypt",30.5526,31.0090,23,"Africa/Cairo",186345],
+  ["Banha","Egypt",30.4591,31.1786,17,"Africa/Cairo",167029],
+  ["Idfu","Egypt",24.9803,32.8747,88,"Africa/Cairo",166102],
+  ["Talkha","Egypt",31.0539,31.3779,7,"Africa/Cairo",157737],
+  ["Kafr ash Shaykh","Egypt",31.1143,30.9401,14,"Africa/Cairo",143970],
+  ["Mallawi","Egypt",27.7314,30.8417,52,"Africa/Cairo",142504],
+  ["Dikirnis","Egypt",31.0890,31.5948,15,"Africa/Cairo",137542],
+  ["Bilbays","Egypt",30.4204,31.5622,17,"Africa/Cairo",129211],
+  ["Arish","Egypt",31.1316,33.7984,15,"Africa/Cairo",128855],
+  ["Jirja","Egypt",26.3383,31.8916,70,"Africa/Cairo",128250],
+  ["Al Hawamidiyah","Egypt",29.9000,31.2500,23,"Africa/Cairo",106841],
+  ["Idku","Egypt",31.3078,30.2990,7,"Africa/Cairo",105599],
+  ["Bilqas","Egypt",31.2145,31.3580,13,"Africa/Cairo",103596],
+  ["Disuq","Egypt",31.1331,30.6465,9,"Africa/Cairo",102037],
+  ["Abu Kabir","Egypt",30.7251,31.6715,17,"Africa/Cairo",100684],
+  ["Qalyub","Egypt",30.1792,31.2056,22,"Africa/Cairo",100495],
+  ["San Salvador","El Salvador",13.6893,-89.1872,653,"America/El_Salvador",525990],
+  ["Soyapango","El Salvador",13.7347,-89.1514,644,"America/El_Salvador",329708],
+  ["Santa Ana","El Salvador",13.9942,-89.5597,649,"America/El_Salvador",176661],
+  ["San Miguel","El Salvador",13.4833,-88.1833,130,"America/El_Salvador",161880],
+  ["Mejicanos","El Salvador",13.7403,-89.2131,723,"America/El_Salvador",160317],
+  ["Santa Tecla","El Salvador",13.6769,-89.2797,935,"America/El_Salvador",124694],
+  ["Apopa","El Salvador",13.8072,-89.1792,434,"America/El_Salvador",112158],
+  ["Bata","Equatorial Guinea",1.8639,9.7658,13,"Africa/Malabo",173046],
+  ["Malabo","Equatorial Guinea",3.7500,8.7833,40,"Africa/Malabo",155963],
+  ["Ebebiyin","Equatorial Guinea",2.1511,11.3353,561,"Africa/Malabo",24831],
+  ["Asmara","Eritrea",15.3381,38.9318,2334,"Africa/Asmara",563930],
+  ["Keren","Eritrea",15.7779,38.4511,1399,"Africa/Asmara",74800],
+  ["Massawa","Eritrea",15.6081,39.4746,9,"Africa/Asmara",23100],
+  ["Tallinn","Estonia",59.4370,24.7535,12,"Europe/Tallinn",394024],
+  ["Tartu","Estonia",58.3806,26.7251,39,"Europe/Tallinn",101092],
+  ["Narva","Estonia",59.3772,28.1903,30,"Europe/Tallinn",66980],
+  ["Manzini","Eswatini",-26.4988,31.3800,601,"Africa/Mbabane",110537],
+  ["Mbabane","Eswatini",-26.3167,31.1333,1209,"Africa/Mbabane",76218],
+  ["Addis Ababa","Ethiopia",9.0250,38.7469,2405,"Africa/Addis_Ababa",2757729],
+  ["Dire Dawa","Ethiopia",9.5931,41.8661,1204,"Africa/Addis_Ababa",252279],
+  ["Mekele","Ethiopia",13.4967,39.4753,2068,"Africa/Addis_Ababa",215546],
+  ["Nazret","Ethiopia",8.5500,39.2667,1627,"Africa/Addis_Ababa",213995],
+  ["Bahir Dar","Ethiopia",11.5936,37.3908,1799,"Africa/Addis_Ababa",168899],
+  ["Gondar","Ethiopia",12.6000,37.4667,2201,"Africa/Addis_Ababa",153914],
+  ["Dese","Ethiopia",11.1333,39.6333,2494,"Africa/Addis_Ababa",136056],
+  ["Hawassa","Ethiopia",7.0621,38.4763,1697,"Africa/Addis_Ababa",133097],
+  ["Jima","Ethiopia",7.6667,36.8333,1716,"Africa/Addis_Ababa",128306],
+  ["Debre Zeyit","Ethiopia",8.7500,38.9833,1916,"Africa/Addis_Ababa",104215],
+  ["Suva","Fiji",-18.1416,178.4415,57,"Pacific/Fiji",77366],
+  ["Lautoka","Fiji",-17.6167,177.4667,23,"Pacific/Fiji",52500],
+  ["Nadi","Fiji",-17.8000,177.4167,10,"Pacific/Fiji",42284],
+  ["Helsinki","Finland",60.1695,24.9354,26,"Europe/Helsinki",558457],
+  ["Espoo","Finland",60.2052,24.6522,16,"Europe/Helsinki",256760],
+  ["Tampere","Finland",61.4991,23.7871,114,"Europe/Helsinki",202687],
+  ["Vantaa","Finland",60.2941,25.0410,18,"Europe/Helsinki",190058],
+  ["Turku","Finland",60.4515,22.2687,22,"Europe/Helsinki",175945],
+  ["Oulu","Finland",65.0124,25.4682,15,"Europe/Helsinki",128618],
+  ["Paris","France",48.8534,2.3488,42,"Europe/Paris",2138551],
+  ["Marseille","France",43.2970,5.3811,28,"Europe/Paris",794811],
+  ["Lyon","France",45.7485,4.8467,173,"Europe/Paris",472317],
+  ["Toulouse","France",43.6043,1.4437,150,"Europe/Paris",433055],
+  ["Nice","France",43.7031,7.2661,25,"Europe/Paris",338620],
+  ["Nantes","France",47.2172,-1.5534,19,"Europe/Paris",277269],
+  ["Strasbourg","France",48.5834,7.7430,151,"Europe/Paris",274845],
+  ["Montpellier","France",43.6109,3.8772,56,"Europe/Paris",248252],
+  ["Bordeaux","France",44.8404,-0.5805,20,"Europe/Paris",231844],
+  ["Lille","France",50.6330,3.0586,27,"Europe/Paris",228328],
+  ["Rennes","France",48.1120,-1.6743,39,"Europe/Paris",209375],
+  ["Reims","France",49.2500,4.0333,84,"Europe/Paris",196565],
+  ["Le Havre","France",49.4938,0.1077,12,"Europe/Paris",185972],
+  ["Cergy-Pontoise","France",49.0389,2.0781,54,"Europe/Paris",183430],
+  ["Saint-Etienne","France",45.4333,4.4000,615,"Europe/Paris",176280],
+  ["Toulon","France",43.1167,5.9333,7,"Europe/Paris",168701],
+  ["Angers","France",47.4667,-0.5500,50,"Europe/Paris",168279],
+  ["Grenoble","France",45.1667,5.7167,218,"Europe/Paris",158552],
+  ["Dijon","France",47.3167,5.0167,242,"Europe/Paris",149782],
+  ["Nimes","France",43.8333,4.3500,54,"Europe/Paris",148236],
+  ["Aix-en-Provence","France",43.5283,5.4497,205,"Europe/Paris",146821],
+  ["Saint-Quentin-en-Yvelines","France",48.7719,2.0189,166,"Europe/Paris",146598],
+  ["Brest","France",48.4000,-4.4833,59,"Europe/Paris",144899],
+  ["Le Mans","France",48.0000,0.2000,61,"Europe/Paris",144515],
+  ["Amiens","France",49.9000,2.3000,28,"Europe/Paris",143086],
+  ["Tours","France",47.3833,0.6833,52,"Europe/Paris",141621],
+  ["Limoges","France",45.8315,1.2578,284,"Europe/Paris",141176],
+  ["Clermont-Ferrand","France",45.7797,3.0863,406,"Europe/Paris",138681],
+  ["Villeurbanne","France",45.7667,4.8833,173,"Europe/Paris",131445],
+  ["Besancon","France",47.2488,6.0182,300,"Europe/Paris",128426],
+  ["Orleans","France",47.9029,1.9039,115,"Europe/Paris",124149],
+  ["Metz","France",49.1191,6.1727,182,"Europe/Paris",123914],
+  ["Rouen","France",49.4431,1.0993,21,"Europe/Paris",112787],
+  ["Mulhouse","France",47.7500,7.3333,240,"Europe/Paris",111430],
+  ["Perpignan","France",42.6976,2.8954,43,"Europe/Paris",110706],
+  ["Caen","France",49.1859,-0.3591,21,"Europe/Paris",110624],
+  ["Boulogne-Billancourt","France",48.8333,2.2500,38,"Europe/Paris",108782],
+  ["Nancy","France",48.6844,6.1850,212,"Europe/Paris",105334],
+  ["Argenteuil","France",48.9500,2.2500,36,"Europe/Paris",101475],
+  ["Cayenne","French Guiana",4.9333,-52.3333,7,"America/Cayenne",61550],
+  ["Matoury","French Guiana",4.8470,-52.3216,10,"America/Cayenne",26350],
+  ["Saint-Laurent-du-Maroni","French Guiana",5.5000,-54.0333,6,"America/Cayenne",24287],
+  ["Faaa","French Polynesia",-17.5500,-149.6000,5,"Pacific/Tahiti",29851],
+  ["Papeete","French Polynesia",-17.5333,-149.5667,8,"Pacific/Tahiti",26357],
+  ["Punaauia","French Polynesia",-17.6333,-149.6000,24,"Pacific/Tahiti",25750],
+  ["Libreville","Gabon",0.3924,9.4536,8,"Africa/Libreville",578156],
+  ["Port-Gentil","Gabon",-0.7193,8.7815,4,"Africa/Libreville",109163],
+  ["Franceville","Gabon",-1.6333,13.5836,405,"Africa/Libreville",42967],
+  ["Brikama","Gambia",13.2714,-16.6494,24,"Africa/Banjul",77700],
+  ["Bakau","Gambia",13.4781,-16.6819,22,"Africa/Banjul",43098],
+  ["Banjul","Gambia",13.4527,-16.5780,5,"Africa/Banjul",34589],
+  ["Tbilisi","Georgia",41.6941,44.8337,491,"Asia/Tbilisi",1049498],
+  ["K'ut'aisi","Georgia",42.2679,42.6946,153,"Asia/Tbilisi",178338],
+  ["Batumi","Georgia",41.6416,41.6359,5,"Asia/Tbilisi",121806],
+  ["Berlin","Germany",52.5244,13.4105,74,"Europe/Berlin",3426354],
+  ["Hamburg","Germany",53.5753,10.0153,8,"Europe/Berlin",1739117],
+  ["Muenchen","Germany",48.1374,11.5755,524,"Europe/Berlin",1260391],
+  ["Koeln","Germany",50.9333,6.9500,58,"Europe/Berlin",963395],
+  ["Frankfurt am Main","Germany",50.1155,8.6842,113,"Europe/Berlin",650000],
+  ["Essen","Germany",51.4566,7.0123,83,"Europe/Berlin",593085],
+  ["Stuttgart","Germany",48.7823,9.1770,252,"Europe/Berlin",589793],
+  ["Dortmund","Germany",51.5149,7.4660,96,"Europe/Berlin",588462],
+  ["Dusseldorf","Germany",51.2217,6.7762,45,"Europe/Berlin",573057],
+  ["Bremen","Germany",53.0752,8.8078,18,"Europe/Berlin",546501],
+  ["Hannover","Germany",52.3705,9.7332,57,"Europe/Berlin",515140],
+  ["Leipzig","Germany",51.3396,12.3713,116,"Europe/Berlin",504971],
+  ["Duisburg","Germany",51.4325,6.7652,38,"Europe/Berlin",504358],
+  ["Nuernberg","Germany",49.4542,11.0775,300,"Europe/Berlin",499237],
+  ["Dresden","Germany",51.0509,13.7383,116,"Europe/Berlin",486854],
+  ["Wandsbek","Germany",53.5667,10.1000,18,"Europe/Berlin",411422],
+  ["Bochum","Germany",51.4817,7.2165,102,"Europe/Berlin",385729],
+  ["Bochum-Hordel","Germany",51.5017,7.1756,51,"Europe/Berlin",380000],
+  ["Wuppertal","Germany",51.2703,7.1676,189,"Europe/Berlin",360797],
+  ["Berlin Pankow","Germany",52.5693,13.4019,47,"Europe/Berlin",356019],
+  ["Bielefeld","Germany",52.0333,8.5333,111,"Europe/Berlin",331906],
+  ["Berlin Mitte","Germany",52.5200,13.4049,48,"Europe/Berlin",329078],
+  ["Berlin Wilmersdorf","Germany",52.5010,13.2910,42,"Europe/Berlin",317190],
+  ["Bonn","Germany",50.7344,7.0955,64,"Europe/Berlin",313125],
+  ["Mannheim","Germany",49.4967,8.4795,104,"Europe/Berlin",307960],
+  ["Berlin Steglitz Zehlendorf","Germany",52.4348,13.2418,45,"Europe/Berlin",290506],
+  ["Marienthal","Germany",53.5667,10.0833,16,"Europe/Berlin",287101],
+  ["Karlsruhe","Germany",49.0047,8.3858,115,"Europe/Berlin",283799],
+  ["Hamburg-Nord","Germany",53.5894,9.9840,11,"Europe/Berlin",280000],
+  ["Wiesbaden","Germany",50.0826,8.2493,128,"Europe/Berlin",272432],
+  ["Muenster","Germany",51.9624,7.6257,64,"Europe/Berlin",270184],
+  ["Gelsenkirchen","Germany",51.5075,7.1228,50,"Europe/Berlin",270028],
+  ["Aachen","Germany",50.7766,6.0834,266,"Europe/Berlin",265208],
+  ["Monchengladbach","Germany",51.1854,6.4417,57,"Europe/Berlin",261742],
+  ["Augsburg","Germany",48.3667,10.8833,485,"Europe/Berlin",259196],
+  ["Eimsbuettel","Germany",53.5667,9.9833,15,"Europe/Berlin",251907],
+  ["Altona","Germany",53.5500,9.9333,34,"Europe/Berlin",250192],
+  ["Chemnitz","Germany",50.8333,12.9167,300,"Europe/Berlin",247220],
+  ["Braunschweig","Germany",52.2659,10.5267,72,"Europe/Berlin",244715],
+  ["Berlin Reinickendorf","Germany",52.5667,13.3333,42,"Europe/Berlin",241756],
+  ["Halle Neustadt","Germany",51.4792,11.9161,85,"Europe/Berlin",240000],
+  ["Krefeld","Germany",51.3392,6.5861,38,"Europe/Berlin",237984],
+  ["Halle (Saale)","Germany",51.5000,12.0000,109,"Europe/Berlin",234107],
+  ["Hamburg-Mitte","Germany",53.5500,10.0167,8,"Europe/Berlin",233144],
+  ["Kiel","Germany",54.3213,10.1349,7,"Europe/Berlin",232758],
+  ["Magdeburg","Germany",52.1277,11.6292,57,"Europe/Berlin",229826],
+  ["Neue Neustadt","Germany",52.1500,11.6333,51,"Europe/Berlin",226851],
+  ["Berlin Spandau","Germany",52.5511,13.1992,35,"Europe/Berlin",223862],
+  ["Oberhausen","Germany",51.4731,6.8807,47,"Europe/Berlin",219176],
+  ["Freiburg","Germany",47.9959,7.8522,278,"Europe/Berlin",215966],
+  ["Luebeck","Germany",53.8689,10.6873,16,"Europe/Berlin",212207],
+  ["Erfurt","Germany",50.9787,11.0328,195,"Europe/Berlin",203254],
+  ["Harburg","Germany",53.4606,9.9839,10,"Europe/Berlin",202571],
+  ["Hagen","Germany",51.3608,7.4717,111,"Europe/Berlin",198972],
+  ["Rostock","Germany",54.0887,12.1405,18,"Europe/Berlin",198293],
+  ["Kassel","Germany",51.3167,9.5000,164,"Europe/Berlin",194501],
+  ["Hamm","Germany",51.6803,7.8209,66,"Europe/Berlin",185327],
+  ["Mainz","Germany",49.9842,8.2791,126,"Europe/Berlin",184997],
+  ["Saarbrucken","Germany",49.2354,6.9817,193,"Europe/Berlin",181227],
+  ["Herne","Germany",51.5388,7.2257,67,"Europe/Berlin",172108],
+  ["Muelheim (Ruhr)","Germany",51.4333,6.8833,43,"Europe/Berlin",171000],
+  ["Osnabruck","Germany",52.2726,8.0498,69,"Europe/Berlin",166462],
+  ["Solingen","Germany",51.1734,7.0845,229,"Europe/Berlin",164359],
+  ["Ludwigshafen am Rhein","Germany",49.4812,8.4464,97,"Europe/Berlin",163196],
+  ["Leverkusen","Germany",51.0303,6.9843,52,"Europe/Berlin",162738],
+  ["Oldenburg","Germany",53.1412,8.2147,10,"Europe/Berlin",159218],
+  ["Neuss","Germany",51.1981,6.6850,44,"Europe/Berlin",152457],
+  ["Prenzlauer Berg Bezirk","Germany",52.5388,13.4244,54,"Europe/Berlin",148878],
+  ["Bezirk Kreuzberg","Germany",52.4997,13.4034,40,"Europe/Berlin",147532],
+  ["Kreuzberg","Germany",52.4891,13.3874,48,"Europe/Berlin",147227],
+  ["Potsdam","Germany",52.3989,13.0657,34,"Europe/Berlin",145292],
+  ["Heidelberg","Germany",49.4077,8.6908,115,"Europe/Berlin",143345],
+  ["Paderborn","Germany",51.7191,8.7544,118,"Europe/Berlin",142161],
+  ["Prenzlauer Berg","Germany",52.5513,13.4234,55,"Europe/Berlin",140881],
+  ["Darmstadt","Germany",49.8706,8.6494,145,"Europe/Berlin",140385],
+  ["Wuerzburg","Germany",49.7878,9.9361,187,"Europe/Berlin",133731],
+  ["Regensburg","Germany",49.0150,12.0956,348,"Europe/Berlin",129151],
+  ["Wolfsburg","Germany",52.4245,10.7815,62,"Europe/Berlin",123064],
+  ["Recklinghausen","Germany",51.6138,7.1974,80,"Europe/Berlin",122438],
+  ["Gottingen","Germany",51.5344,9.9323,155,"Europe/Berlin",122149],
+  ["Heilbronn","Germany",49.1399,9.2205,173,"Europe/Berlin",120733],
+  ["Ingolstadt","Germany",48.7651,11.4237,379,"Europe/Berlin",120658],
+  ["Ulm","Germany",48.3984,9.9916,480,"Europe/Berlin",120451],
+  ["Bottrop","Germany",51.5239,6.9285,55,"Europe/Berlin",119909],
+  ["Charlottenburg Bezirk","Germany",52.5167,13.2833,46,"Europe/Berlin",119857],
+  ["Bergedorf","Germany",53.4846,10.2290,17,"Europe/Berlin",119665],
+  ["Pforzheim","Germany",48.8844,8.6989,256,"Europe/Berlin",119313],
+  ["Offenbach","Germany",50.1006,8.7665,113,"Europe/Berlin",119192],
+  ["Friedrichshain Bezirk","Germany",52.5333,13.4333,49,"Europe/Berlin",117829],
+  ["Bremerhaven","Germany",53.5502,8.5767,5,"Europe/Berlin",117446],
+  ["Remscheid","Germany",51.1798,7.1925,351,"Europe/Berlin",117118],
+  ["Berlin Schoeneberg","Germany",52.4839,13.3477,43,"Europe/Berlin",116286],
+  ["Schoneberg Bezirk","Germany",52.4667,13.3500,47,"Europe/Berlin",115976],
+  ["Friedrichshain","Germany",52.5152,13.4536,42,"Europe/Berlin",114050],
+  ["Reutlingen","Germany",48.4914,9.2043,374,"Europe/Berlin",112627],
+  ["Furth","Germany",49.4759,10.9886,302,"Europe/Berlin",112025],
+  ["Moers","Germany",51.4534,6.6326,29,"Europe/Berlin",107816],
+  ["Koblenz","Germany",50.3536,7.5788,75,"Europe/Berlin",107319],
+  ["Siegen","Germany",50.8748,8.0243,272,"Europe/Berlin",107242],
+  ["Bergisch Gladbach","Germany",50.9856,7.1330,98,"Europe/Berlin",106184],
+  ["Jena","Germany",50.9288,11.5899,149,"Europe/Berlin",104712],
+  ["Gera","Germany",50.8803,12.0819,203,"Europe/Berlin",104659],
+  ["Marzahn Bezirk","Germany",52.5500,13.5500,54,"Europe/Berlin",103768],
+  ["Hildesheim","Germany",52.1508,9.9511,93,"Europe/Berlin",103052],
+  ["Erlangen","Germany",49.5910,11.0078,290,"Europe/Berlin",102675],
+  ["Witten","Germany",51.4436,7.3526,119,"Europe/Berlin",101247],
+  ["Trier","Germany",49.7557,6.6394,141,"Europe/Berlin",100129],
+  ["Accra","Ghana",5.5560,-0.1969,33,"Africa/Accra",1963264],
+  ["Kumasi","Ghana",6.6885,-1.6244,270,"Africa/Accra",1468609],
+  ["Tamale","Ghana",9.4008,-0.8393,196,"Africa/Accra",360579],
+  ["Takoradi","Ghana",4.8845,-1.7554,22,"Africa/Accra",232919],
+  ["Achiaman","Ghana",5.7000,-0.3333,39,"Africa/Accra",202932],
+  ["Tema","Ghana",5.6698,-0.0166,27,"Africa/Accra",155782],
+  ["Teshi Old Town","Ghana",5.5836,-0.1072,13,"Africa/Accra",144013],
+  ["Cape Coast","Ghana",5.1053,-1.2466,21,"Africa/Accra",143015],
+  ["Sekondi-Takoradi","Ghana",4.9340,-1.7137,10,"Africa/Accra",138872],
+  ["Obuasi","Ghana",6.2060,-1.6619,233,"Africa/Accra",137856],
+  ["Medina Estates","Ghana",5.6658,-0.1631,86,"Africa/Accra",101207],
+  ["Gibraltar","Gibraltar",36.1447,-5.3526,11,"Europe/Gibraltar",26544],
+  ["Athens","Greece",37.9794,23.7162,70,"Europe/Athens",729137],
+  ["Thessaloniki","Greece",40.6403,22.9439,34,"Europe/Athens",354290],
+  ["Piraeus","Greece",37.9475,23.6371,12,"Europe/Athens",172429],
+  ["Patra","Greece",38.2444,21.7344,20,"Europe/Athens",163360],
+  ["Peristeri","Greece",38.0167,23.7000,61,"Europe/Athens",137659],
+  ["Irakleion","Greece",35.3279,25.1434,60,"Europe/Athens",137154],
+  ["Larisa","Greece",39.6372,22.4203,85,"Europe/Athens",128758],
+  ["Kallithea","Greece",37.9500,23.7000,28,"Europe/Athens",107767],
+  ["Les Abymes","Guadeloupe",16.2709,-61.5045,28,"America/Guadeloupe",63058],
+  ["Baie-Mahault","Guadeloupe",16.2674,-61.5854,18,"America/Guadeloupe",30551],
+  ["Le Gosier","Guadeloupe",16.2068,-61.4933,26,"America/Guadeloupe",28698],
+  ["Dededo Village","Guam",13.5178,144.8391,98,"Pacific/Guam",44943],
+  ["Yigo Village","Guam",13.5360,144.8886,140,"Pacific/Guam",20539],
+  ["Tamuning-Tumon-Harmon Village","Guam",13.4877,144.7814,13,"Pacific/Guam",19685],
+  ["Guatemala City","Guatemala",14.6407,-90.5133,1508,"America/Guatemala",994938],
+  ["Mixco","Guatemala",14.6333,-90.6064,1714,"America/Guatemala",473080],
+  ["Villa Nueva","Guatemala",14.5269,-90.5875,1334,"America/Guatemala",406830],
+  ["Petapa","Guatemala",14.5028,-90.5517,1229,"America/Guatemala",141455],
+  ["San Juan Sacatepequez","Guatemala",14.7189,-90.6442,1842,"America/Guatemala",136886],
+  ["Quetzaltenango","Guatemala",14.8347,-91.5181,2344,"America/Guatemala",132230],
+  ["Villa Canales","Guatemala",14.4814,-90.5317,1245,"America/Guatemala",122194],
+  ["Escuintla","Guatemala",14.3050,-90.7850,356,"America/Guatemala",103165],
+  ["Saint Peter Port","Guernsey",49.4598,-2.5353,10,"Europe/Guernsey",16488],
+  ["Camayenne","Guinea",9.5350,-13.6878,6,"Africa/Conakry",1871242],
+  ["Conakry","Guinea",9.5380,-13.6773,13,"Africa/Conakry",1767200],
+  ["Nzerekore","Guinea",7.7562,-8.8179,482,"Africa/Conakry",132728],
+  ["Kindia","Guinea",10.0569,-12.8658,415,"Africa/Conakry",117062],
+  ["Kankan","Guinea",10.3854,-9.3057,381,"Africa/Conakry",114009],
+  ["Bissau","Guinea-Bissau",11.8636,-15.5977,13,"Africa/Bissau",388028],
+  ["Bafata","Guinea-Bissau",12.1667,-14.6667,7,"Africa/Bissau",22521],
+  ["Georgetown","Guyana",6.8045,-58.1553,3,"America/Guyana",235017],
+  ["Linden","Guyana",6.0081,-58.3071,4,"America/Guyana",44690],
+  ["New Amsterdam","Guyana",6.2479,-57.5171,7,"America/Guyana",35039],
+  ["Port-au-Prince","Haiti",18.5392,-72.3350,44,"America/Port-au-Prince",1234742],
+  ["Carrefour","Haiti",18.5411,-72.3992,32,"America/Port-au-Prince",442156],
+  ["Delmas 73","Haiti",18.5447,-72.3028,129,"America/Port-au-Prince",382920],
+  ["Petionville","Haiti",18.5125,-72.2853,389,"America/Port-au-Prince",283052],
+  ["Port-de-Paix","Haiti",19.9389,-72.8326,10,"America/Port-au-Prince",250000],
+  ["Croix des Bouquets","Haiti",18.5751,-72.2230,58,"America/Port-au-Prince",229127],
+  ["Jacmel","Haiti",18.2342,-72.5347,33,"America/Port-au-Prince",137966],
+  ["Cap-Haitien","Haiti",19.7578,-72.2042,13,"America/Port-au-Prince",134815],
+  ["Leogane","Haiti",18.5096,-72.6315,18,"America/Port-au-Prince",134190],
+  ["Les Cayes","Haiti",18.2000,-73.7500,9,"America/Port-au-Prince",125799],
+  ["Petit Goave","Haiti",18.4294,-72.8630,66,"America/Port-au-Prince",117504],
+  ["Tegucigalpa","Honduras",14.0818,-87.2068,944,"America/Tegucigalpa",850848],
+  ["San Pedro Sula","Honduras",15.5042,-88.0250,92,"America/Tegucigalpa",489466],
+  ["Choloma","Honduras",15.6144,-87.9530,41,"America/Tegucigalpa",139100],
+  ["La Ceiba","Honduras",15.7597,-86.7822,14,"America/Tegucigalpa",130218],
+  ["El Progreso","Honduras",15.4000,-87.8000,48,"America/Tegucigalpa",100810],
+  ["Hong Kong","Hong Kong",22.2855,114.1577,3,"Asia/Hong_Kong",7012738],
+  ["Kowloon","Hong Kong",22.3167,114.1833,92,"Asia/Hong_Kong",2019533],
+  ["Tsuen Wan","Hong Kong",22.3707,114.1048,1,"Asia/Hong_Kong",288728],
+  ["Yuen Long Kau Hui","Hong Kong",22.4500,114.0333,4,"Asia/Hong_Kong",141900],
+  ["Budapest","Hungary",47.4980,19.0399,111,"Europe/Budapest",1741041],
+  ["Debrecen","Hungary",47.5333,21.6333,123,"Europe/Budapest",204124],
+  ["Miskolc","Hungary",48.1000,20.7833,131,"Europe/Budapest",172637],
+  ["Szeged","Hungary",46.2530,20.1482,84,"Europe/Budapest",164883],
+  ["Pecs","Hungary",46.0833,18.2333,193,"Europe/Budapest",156649],
+  ["Budapest XI. keruelet","Hungary",47.4760,19.0360,107,"Europe/Budapest",139049],
+  ["Gyor","Hungary",47.6833,17.6351,122,"Europe/Budapest",128265],
+  ["Budapest III. keruelet","Hungary",47.5416,19.0450,109,"Europe/Budapest",123723],
+  ["Budapest XIV. keruelet","Hungary",47.5183,19.1079,112,"Europe/Budapest",120148],
+  ["Nyiregyhaza","Hungary",47.9554,21.7167,111,"Europe/Budapest",116298],
+  ["Budapest XIII. keruelet","Hungary",47.5298,19.0807,106,"Europe/Budapest",113531],
+  ["Kecskemet","Hungary",46.9062,19.6913,120,"Europe/Budapest",109847],
+  ["Szekesfehervar","Hungary",47.1900,18.4103,117,"Europe/Budapest",101600],
+  ["Reykjavik","Iceland",64.1355,-21.8954,37,"Atlantic/Reykjavik",113906],
+  ["Kopavogur","Iceland",64.1123,-21.9130,37,"Atlantic/Reykjavik",26157],
+  ["Hafnarfjordur","Iceland",64.0671,-21.9377,39,"Atlantic/Reykjavik",22289],
+  ["Mumbai","India",19.0728,72.8826,8,"Asia/Kolkata",12691836],
+  ["Delhi","India",28.6538,77.2290,229,"Asia/Kolkata",10927986],
+  ["Bangalore","India",12.9719,77.5937,920,"Asia/Kolkata",5104047],
+  ["Kolkata","India",22.5626,88.3630,11,"Asia/Kolkata",4631392],
+  ["Chennai","India",13.0878,80.2785,14,"Asia/Kolkata",4328063],
+  ["Ahmedabad","India",23.0258,72.5873,56,"Asia/Kolkata",3719710],
+  ["Hyderabad","India",17.3840,78.4564,515,"Asia/Kolkata",3597816],
+  ["Pune","India",18.5196,73.8554,554,"Asia/Kolkata",2935744],
+  ["Surat","India",21.1959,72.8302,20,"Asia/Kolkata",2894504],
+  ["Kanpur","India",26.4478,80.3463,131,"Asia/Kolkata",2823249],
+  ["Jaipur","India",26.9196,75.7878,435,"Asia/Kolkata",2711758],
+  ["Navi Mumbai","India",19.0368,73.0158,14,"Asia/Kolkata",2600000],
+  ["Lucknow","India",26.8393,80.9231,126,"Asia/Kolkata",2472011],
+  ["Nagpur","India",21.1500,79.1000,310,"Asia/Kolkata",2228018],
+  ["Raigarh Fort","India",18.2500,73.4333,157,"Asia/Kolkata",2207929],
+  ["Indore","India",22.7179,75.8333,550,"Asia/Kolkata",1837041],
+  ["Patna","India",25.6022,85.1194,57,"Asia/Kolkata",1599920],
+  ["Bhopal","India",23.2547,77.4029,523,"Asia/Kolkata",1599914],
+  ["Ludhiana","India",30.9002,75.8523,248,"Asia/Kolkata",1545368],
+  ["Agra","India",27.1833,78.0167,166,"Asia/Kolkata",1430055],
+  ["Vadodara","India",22.2994,73.2081,46,"Asia/Kolkata",1409476],
+  ["Gorakhpur","India",29.4470,75.6718,221,"Asia/Kolkata",1324570],
+  ["Nasik","India",19.9833,73.8000,582,"Asia/Kolkata",1289497],
+  ["Pimpri","India",18.6229,73.8070,571,"Asia/Kolkata",1284606],
+  ["Kalyan","India",19.2437,73.1355,10,"Asia/Kolkata",1262255],
+  ["Thane","India",19.1970,72.9636,23,"Asia/Kolkata",1261517],
+  ["Meerut","India",28.9716,77.7193,224,"Asia/Kolkata",1223184],
+  ["Faridabad","India",28.4125,77.3198,205,"Asia/Kolkata",1220229],
+  ["Ghaziabad","India",28.6625,77.4378,215,"Asia/Kolkata",1199191],
+  ["Dombivli","India",19.2167,73.0833,11,"Asia/Kolkata",1193000],
+  ["Rajkot","India",22.2916,70.7932,140,"Asia/Kolkata",1177362],
+  ["Varanasi","India",25.3167,83.0104,86,"Asia/Kolkata",1164404],
+  ["Amritsar","India",31.6366,74.8748,234,"Asia/Kolkata",1092450],
+  ["Allahabad","India",25.4489,81.8333,104,"Asia/Kolkata",1073438],
+  ["Vishakhapatnam","India",17.6900,83.2092,38,"Asia/Kolkata",1063178],
+  ["Teni","India",10.0153,77.4820,312,"Asia/Kolkata",1034724],
+  ["Jabalpur","India",23.1670,79.9501,416,"Asia/Kolkata",1030168],
+  ["Haora","India",22.5769,88.3186,8,"Asia/Kolkata",1027672],
+  ["Aurangabad","India",19.8833,75.3333,573,"Asia/Kolkata",1016441],
+  ["Shivaji Nagar","India",18.5302,73.8526,1000,"Asia/Kolkata",1000000],
+  ["Solapur","India",17.6715,75.9104,473,"Asia/Kolkata",997281],
+  ["Srinagar","India",34.0884,74.8030,1591,"Asia/Kolkata",975857],
+  ["Chandigarh","India",30.7363,76.7884,351,"Asia/Kolkata",960787],
+  ["Coimbatore","India",11.0055,76.9661,425,"Asia/Kolkata",959823],
+  ["Jodhpur","India",26.2684,73.0059,237,"Asia/Kolkata",921476],
+  ["Madurai","India",9.9174,78.1196,144,"Asia/Kolkata",909908],
+  ["Guwahati","India",26.1862,91.7510,54,"Asia/Kolkata",899094],
+  ["Gwalior","India",26.2298,78.1734,220,"Asia/Kolkata",882458],
+  ["Vijayawada","India",16.5193,80.6305,25,"Asia/Kolkata",874587],
+  ["Mysore","India",12.2979,76.6393,757,"Asia/Kolkata",868313],
+  ["Ranchi","India",23.3478,85.3386,631,"Asia/Kolkata",846454],
+  ["Hubli","India",15.3478,75.1338,627,"Asia/Kolkata",840214],
+  ["Jalandhar","India",31.3256,75.5792,243,"Asia/Kolkata",785178],
+  ["Thiruvananthapuram","India",8.4855,76.9492,18,"Asia/Kolkata",784153],
+  ["Salem","India",11.6512,78.1587,279,"Asia/Kolkata",778396],
+  ["Tiruchirappalli","India",10.8155,78.6965,79,"Asia/Kolkata",775484],
+  ["Kota","India",25.1825,75.8391,267,"Asia/Kolkata",763088],
+  ["Bhubaneshwar","India",20.2724,85.8338,62,"Asia/Kolkata",762243],
+  ["Aligarh","India",27.8833,78.0747,189,"Asia/Kolkata",753207],
+  ["Bareilly","India",28.3470,79.4219,179,"Asia/Kolkata",745435],
+  ["Moradabad","India",28.8389,78.7768,205,"Asia/Kolkata",721139],
+  ["Bhiwandi","India",19.3002,73.0588,9,"Asia/Kolkata",707035],
+  ["Raipur","India",21.2333,81.6333,296,"Asia/Kolkata",679995],
+  ["Gorakhpur","India",26.7548,83.3723,85,"Asia/Kolkata",674246],
+  ["Bhilai","India",21.2167,81.4333,298,"Asia/Kolkata",625138],
+  ["Jamshedpur","India",22.8028,86.1855,171,"Asia/Kolkata",616338],
+  ["Borivli","India",19.2350,72.8598,22,"Asia/Kolkata",609617],
+  ["Cochin","India",9.9399,76.2602,9,"Asia/Kolkata",604696],
+  ["Amravati","India",20.9333,77.7500,341,"Asia/Kolkata",603837],
+  ["Sangli","India",16.8544,74.5642,553,"Asia/Kolkata",601214],
+  ["Cuttack","India",20.4650,85.8793,30,"Asia/Kolkata",580000],
+  ["Bikaner","India",28.0209,73.3075,230,"Asia/Kolkata",576015],
+  ["Warangal","India",18.0000,79.5833,258,"Asia/Kolkata",557802],
+  ["Bhavnagar","India",21.7745,72.1525,21,"Asia/Kolkata",554978],
+  ["Nanded","India",19.1602,77.3150,363,"Asia/Kolkata",550564],
+  ["Guntur","India",16.2997,80.4573,31,"Asia/Kolkata",530577],
+  ["Dehradun","India",30.3244,78.0339,664,"Asia/Kolkata",522081],
+  ["Bhayandar","India",19.3016,72.8511,9,"Asia/Kolkata",520301],
+  ["Durgapur","India",23.4996,87.3216,75,"Asia/Kolkata",518872],
+  ["Ajmer","India",26.4498,74.6412,475,"Asia/Kolkata",517911],
+  ["Ulhasnagar","India",19.2167,73.1500,10,"Asia/Kolkata",516584],
+  ["Kolhapur","India",16.6956,74.2317,559,"Asia/Kolkata",516142],
+  ["Shiliguri","India",26.7100,88.4285,124,"Asia/Kolkata",515574],
+  ["Bilimora","India",20.7696,72.9613,15,"Asia/Kolkata",510879],
+  ["Karol Bagh","India",28.6516,77.1886,232,"Asia/Kolkata",505241],
+  ["Asansol","India",23.6833,86.9833,119,"Asia/Kolkata",504271],
+  ["Jamnagar","India",22.4729,70.0667,18,"Asia/Kolkata",492056],
+  ["Saharanpur","India",29.9679,77.5452,280,"Asia/Kolkata",484873],
+  ["Gulbarga","India",17.3376,76.8379,474,"Asia/Kolkata",483615],
+  ["Bhatpara","India",22.8664,88.4011,14,"Asia/Kolkata",483129],
+  ["Jammu","India",32.7357,74.8691,379,"Asia/Kolkata",465567],
+  ["Ujjain","India",23.1824,75.7764,494,"Asia/Kolkata",457346],
+  ["Ramgundam","India",18.8008,79.4521,148,"Asia/Kolkata",452261],
+  ["Shyamnagar","India",22.8333,88.3667,8,"Asia/Kolkata",441956],
+  ["Nangi","India",22.5083,88.2153,10,"Asia/Kolkata",440894],
+  ["Kozhikode","India",11.2480,75.7804,9,"Asia/Kolkata",439922],
+  ["Tirunelveli","India",8.7252,77.6845,48,"Asia/Kolkata",435844],
+  ["Malegaon","India",20.5537,74.5288,432,"Asia/Kolkata",435362],
+  ["Jalgaon","India",21.0101,75.5684,225,"Asia/Kolkata",429298],
+  ["Akola","India",20.7096,76.9981,285,"Asia/Kolkata",428857],
+  ["Belgaum","India",15.8521,74.5045,769,"Asia/Kolkata",428720],
+  ["Gaya","India",24.7969,85.0038,117,"Asia/Kolkata",423692],
+  ["Udaipur","India",24.5712,73.6918,584,"Asia/Kolkata",422784],
+  ["Korba","India",22.3458,82.6963,289,"Asia/Kolkata",419146],
+  ["Bokaro","India",23.7873,85.9562,242,"Asia/Kolkata",418533],
+  ["Mangalore","India",12.9172,74.8560,27,"Asia/Kolkata",417387],
+  ["Jhansi","India",25.4545,78.5822,243,"Asia/Kolkata",412927],
+  ["Nellore","India",14.4536,79.9867,23,"Asia/Kolkata",404158],
+  ["Tiruppur","India",11.1154,77.3546,305,"Asia/Kolkata",397521],
+  ["Kollam","India",8.8811,76.5847,13,"Asia/Kolkata",394163],
+  ["Panihati","India",22.6909,88.3740,11,"Asia/Kolkata",378705],
+  ["Ahmadnagar","India",19.0946,74.7384,661,"Asia/Kolkata",367140],
+  ["Dhule","India",20.9025,74.7773,266,"Asia/Kolkata",366980],
+  ["Bhagalpur","India",25.2445,86.9718,52,"Asia/Kolkata",361548],
+  ["Punasa","India",22.2354,76.3929,275,"Asia/Kolkata",350000],
+  ["Muzaffarnagar","India",29.4739,77.7041,248,"Asia/Kolkata",349706],
+  ["Latur","India",18.3972,76.5678,638,"Asia/Kolkata",348967],
+  ["Kukatpalli","India",17.4849,78.4138,566,"Asia/Kolkata",341709],
+  ["Ambattur","India",13.0982,80.1615,18,"Asia/Kolkata",341049],
+  ["Bellary","India",15.1457,76.9175,464,"Asia/Kolkata",336681],
+  ["Muzaffarpur","India",26.1226,85.3906,60,"Asia/Kolkata",333200],
+  ["Kamarhati","India",22.6711,88.3747,8,"Asia/Kolkata",332965],
+  ["Mathura","India",27.5020,77.6833,191,"Asia/Kolkata",330511],
+  ["Patiala","India",30.3271,76.4027,258,"Asia/Kolkata",329224],
+  ["Chandrapur","India",19.9471,79.2961,184,"Asia/Kolkata",328351],
+  ["Bhilwara","India",25.3464,74.6352,423,"Asia/Kolkata",326431],
+  ["Trichur","India",10.5167,76.2167,7,"Asia/Kolkata",325110],
+  ["Brahmapur","India",19.3115,84.7929,37,"Asia/Kolkata",324726],
+  ["Shahjahanpur","India",27.8814,79.9109,157,"Asia/Kolkata",320434],
+  ["Shimoga","India",13.9316,75.5679,590,"Asia/Kolkata",319550],
+  ["New Delhi","India",28.6358,77.2245,212,"Asia/Kolkata",317797],
+  ["Rohtak","India",28.8884,76.5754,220,"Asia/Kolkata",317245],
+  ["Tumkur","India",13.3415,77.1010,814,"Asia/Kolkata",307359],
+  ["Firozabad","India",27.1494,78.4018,171,"Asia/Kolkata",306409],
+  ["Nizamabad","India",18.6715,78.0988,389,"Asia/Kolkata",305438],
+  ["Kulti","India",23.7317,86.8437,156,"Asia/Kolkata",305405],
+  ["Rajahmundry","India",17.0052,81.7778,34,"Asia/Kolkata",304804],
+  ["Barddhaman","India",23.2557,87.8569,34,"Asia/Kolkata",301725],
+  ["Mandu","India",22.3667,75.3833,491,"Asia/Kolkata",300000],
+  ["Barasat","India",22.7215,88.4820,11,"Asia/Kolkata",298127],
+  ["Bali","India",22.6486,88.3411,8,"Asia/Kolkata",296973],
+  ["Hisar","India",29.1490,75.7368,212,"Asia/Kolkata",296436],
+  ["Rampur","India",28.8090,79.0290,195,"Asia/Kolkata",296418],
+  ["Greater Noida","India",28.4962,77.5360,200,"Asia/Kolkata",293908],
+  ["Noida","India",28.5800,77.3300,206,"Asia/Kolkata",293908],
+  ["Kakinada","India",16.9604,82.2381,6,"Asia/Kolkata",292923],
+  ["Panipat","India",29.3900,76.9695,237,"Asia/Kolkata",292808],
+  ["Parbhani","India",19.2686,76.7708,421,"Asia/Kolkata",289629],
+  ["Darbhanga","India",26.1522,85.8971,58,"Asia/Kolkata",287150],
+  ["Alwar","India",27.5625,76.6250,269,"Asia/Kolkata",283228],
+  ["Bilaspur","India",22.0740,82.1566,266,"Asia/Kolkata",282705],
+  ["Ichalkaranji","India",16.6912,74.4605,561,"Asia/Kolkata",274383],
+  ["Bijapur","India",16.8244,75.7154,606,"Asia/Kolkata",271064],
+  ["Aizawl","India",23.7289,92.7179,1018,"Asia/Kolkata",265331],
+  ["Jalna","India",19.8410,75.8864,504,"Asia/Kolkata",262034],
+  ["Lal Bahadur Nagar","India",17.3477,78.5576,511,"Asia/Kolkata",261987],
+  ["Dewas","India",22.9658,76.0553,544,"Asia/Kolkata",261218],
+  ["Baranagar","India",22.6413,88.3773,10,"Asia/Kolkata",260072],
+  ["Gajuwaka","India",17.7000,83.2167,17,"Asia/Kolkata",258944],
+  ["Satna","India",24.5822,80.8248,329,"Asia/Kolkata",257778],
+  ["Etawah","India",26.7778,79.0216,153,"Asia/Kolkata",257448],
+  ["Durg","India",21.1833,81.2833,294,"Asia/Kolkata",255283],
+  ["Naihati","India",22.8940,88.4152,18,"Asia/Kolkata",253221],
+  ["Tirupati","India",13.6355,79.4199,156,"Asia/Kolkata",250821],
+  ["Sonipat","India",28.9959,77.0117,225,"Asia/Kolkata",250521],
+  ["Avadi","India",13.1147,80.1098,29,"Asia/Kolkata",250044],
+  ["Tiruvottiyur","India",13.1582,80.3018,9,"Asia/Kolkata",248059],
+  ["Sagar","India",23.8425,78.7439,531,"Asia/Kolkata",247333],
+  ["Mau","India",25.9417,83.5611,78,"Asia/Kolkata",246050],
+  ["Bihar Sharif","India",25.1973,85.5237,61,"Asia/Kolkata",244230],
+  ["Hapur","India",28.7304,77.7814,219,"Asia/Kolkata",242920],
+  ["Bhatinda","India",30.2071,74.9414,211,"Asia/Kolkata",242800],
+  ["Farrukhabad","India",27.3905,79.5801,157,"Asia/Kolkata",241152],
+  ["Anantapur","India",14.6794,77.5988,349,"Asia/Kolkata",240442],
+  ["Barasat","India",22.2252,88.4509,7,"Asia/Kolkata",237783],
+  ["Ratlam","India",23.3303,75.0403,486,"Asia/Kolkata",236843],
+  ["Ramagundam","India",18.7550,79.4740,149,"Asia/Kolkata",235000],
+  ["Ganganagar","India",29.9201,73.8750,176,"Asia/Kolkata",231838],
+  ["Bharatpur","India",27.2173,77.4901,180,"Asia/Kolkata",229384],
+  ["Karimnagar","India",18.4392,79.1286,279,"Asia/Kolkata",228745],
+  ["Puducherry","India",11.9338,79.8298,11,"Asia/Kolkata",227411],
+  ["Shrirampur","India",22.7528,88.3422,11,"Asia/Kolkata",226317],
+  ["Raichur","India",16.2047,77.3540,408,"Asia/Kolkata",225962],
+  ["Quthbullapur","India",17.5011,78.4582,554,"Asia/Kolkata",225816],
+  ["Karnal","India",29.6901,76.9884,252,"Asia/Kolkata",225049],
+  ["Ara","India",25.5631,84.6714,68,"Asia/Kolkata",223676],
+  ["Imphal","India",24.8081,93.9442,784,"Asia/Kolkata",223523],
+  ["Gosaba","India",22.1655,88.8007,8,"Asia/Kolkata",222764],
+  ["Mirzapur","India",25.1458,82.5697,89,"Asia/Kolkata",220029],
+  ["Kharagpur","India",22.3397,87.3250,42,"Asia/Kolkata",219665],
+  ["Dhanbad","India",23.8020,86.4432,250,"Asia/Kolkata",219636],
+  ["Thanjavur","India",10.7852,79.1391,57,"Asia/Kolkata",219571],
+  ["Amarnath","India",19.2000,73.1667,44,"Asia/Kolkata",217780],
+  ["Nagercoil","India",8.1773,77.4344,33,"Asia/Kolkata",213858],
+  ["Pali","India",25.7728,73.3234,219,"Asia/Kolkata",210103],
+  ["Yamunanagar","India",30.1291,77.2805,281,"Asia/Kolkata",208931],
+  ["Rewa","India",24.5340,81.2960,306,"Asia/Kolkata",208461],
+  ["Secunderabad","India",17.5043,78.5426,566,"Asia/Kolkata",204182],
+  ["Bidar","India",17.9133,77.5301,677,"Asia/Kolkata",204071],
+  ["Agartala","India",23.8361,91.2794,15,"Asia/Kolkata",203264],
+  ["Munger","India",25.3756,86.4735,50,"Asia/Kolkata",203163],
+  ["Burhanpur","India",21.3090,76.2300,253,"Asia/Kolkata",202695],
+  ["Nadiad","India",22.6939,72.8616,41,"Asia/Kolkata",202067],
+  ["Chhapra","India",25.7810,84.7309,61,"Asia/Kolkata",201597],
+  ["Dindigul","India",10.3690,77.9804,285,"Asia/Kolkata",200797],
+  ["Sikar","India",27.6121,75.1400,435,"Asia/Kolkata",199932],
+  ["Bulandshahr","India",28.4030,77.8582,209,"Asia/Kolkata",198612],
+  ["Purnia","India",25.7789,87.4742,44,"Asia/Kolkata",198453],
+  ["Hospet","India",15.2695,76.3871,487,"Asia/Kolkata",197846],
+  ["Gurgaon","India",28.4601,77.0263,228,"Asia/Kolkata",197340],
+  ["Sambhal","India",28.5832,78.5669,212,"Asia/Kolkata",196109],
+  ["Ghandinagar","India",23.2167,72.6833,54,"Asia/Kolkata",195985],
+  ["Murwara","India",23.8368,80.3948,388,"Asia/Kolkata",195856],
+  ["Nangloi Jat","India",28.6786,77.0675,222,"Asia/Kolkata",194363],
+  ["Machilipatnam","India",16.1875,81.1389,11,"Asia/Kolkata",192827],
+  ["Katihar","India",25.5385,87.5704,34,"Asia/Kolkata",192555],
+  ["Bhiwani","India",28.7919,76.1411,220,"Asia/Kolkata",190855],
+  ["Rae Bareli","India",26.2191,81.2450,115,"Asia/Kolkata",186433],
+  ["Haridwar","India",29.9479,78.1603,295,"Asia/Kolkata",186079],
+  ["Singrauli","India",24.1997,82.6753,383,"Asia/Kolkata",185580],
+  ["Junagadh","India",21.5197,70.4598,97,"Asia/Kolkata",184447],
+  ["Sujangarh","India",27.7000,74.4667,319,"Asia/Kolkata",183808],
+  ["Eluru","India",16.7108,81.1056,18,"Asia/Kolkata",183387],
+  ["Bhusawal","India",21.0466,75.7818,204,"Asia/Kolkata",183001],
+  ["Khandwa","India",21.8245,76.3520,311,"Asia/Kolkata",182841],
+  ["Bahraich","India",27.5743,81.5959,127,"Asia/Kolkata",182218],
+  ["Sirsa","India",29.5349,75.0290,205,"Asia/Kolkata",181639],
+  ["Chandannagar","India",22.8622,88.3680,16,"Asia/Kolkata",180623],
+  ["Baharampur","India",24.1047,88.2515,24,"Asia/Kolkata",180547],
+  ["Surendranagar","India",22.7271,71.6486,68,"Asia/Kolkata",179628],
+  ["Vizianagaram","India",18.1169,83.4115,66,"Asia/Kolkata",179358],
+  ["Proddatur","India",14.7502,78.5481,160,"Asia/Kolkata",177797],
+  ["Vellore","India",12.9184,79.1325,218,"Asia/Kolkata",177081],
+  ["Hugli","India",22.9088,88.3967,18,"Asia/Kolkata",177005],
+  ["Alleppey","India",9.4900,76.3264,8,"Asia/Kolkata",176783],
+  ["Amroha","India",28.9031,78.4698,218,"Asia/Kolkata",176253],
+  ["Pathankot","India",32.2731,75.6526,335,"Asia/Kolkata",174306],
+  ["Bhind","India",26.5667,78.7873,157,"Asia/Kolkata",174035],
+  ["Shimla","India",31.1044,77.1666,2073,"Asia/Kolkata",173503],
+  ["Ongole","India",15.5064,80.0487,19,"Asia/Kolkata",172872],
+  ["Puri","India",19.7982,85.8249,16,"Asia/Kolkata",170841],
+  ["Haldia","India",22.0605,88.1098,6,"Asia/Kolkata",170695],
+  ["Khammam","India",17.2477,80.1437,120,"Asia/Kolkata",170503],
+  ["Raiganj","India",25.6128,88.1245,38,"Asia/Kolkata",170252],
+  ["Ingraj Bazar","India",25.0045,88.1457,32,"Asia/Kolkata",170039],
+  ["Jaunpur","India",25.7551,82.6836,83,"Asia/Kolkata",169572],
+  ["Fatehpur","India",25.9304,80.8139,119,"Asia/Kolkata",166480],
+  ["Gandhidham","India",23.0833,70.1333,21,"Asia/Kolkata",166388],
+  ["Nandyal","India",15.4888,78.4865,216,"Asia/Kolkata",165337],
+  ["Loni","India",28.7515,77.2880,218,"Asia/Kolkata",164810],
+  ["Sitapur","India",27.5619,80.6826,143,"Asia/Kolkata",164435],
+  ["Shivpuri","India",25.4235,77.6607,461,"Asia/Kolkata",164215],
+  ["Bhadravati","India",13.8485,75.7050,592,"Asia/Kolkata",163903],
+  ["Adoni","India",15.6251,77.2754,429,"Asia/Kolkata",163631],
+  ["Veraval","India",20.9077,70.3679,10,"Asia/Kolkata",163326],
+  ["Sambalpur","India",21.4500,83.9667,142,"Asia/Kolkata",162887],
+  ["Gadag","India",15.4298,75.6297,655,"Asia/Kolkata",162569],
+  ["Unnao","India",26.5471,80.4878,134,"Asia/Kolkata",161671],
+  ["Budaun","India",28.0362,79.1263,174,"Asia/Kolkata",161555],
+  ["Jind","India",29.3162,76.3144,233,"Asia/Kolkata",161260],
+  ["Madhyamgram","India",22.6894,88.4459,10,"Asia/Kolkata",161126],
+  ["Jamuria","India",23.7047,87.0787,132,"Asia/Kolkata",160242],
+  ["Jaigaon","India",26.8477,89.3756,196,"Asia/Kolkata",158664],
+  ["Cuddalore","India",11.7463,79.7644,9,"Asia/Kolkata",158569],
+  ["Orai","India",25.9907,79.4531,142,"Asia/Kolkata",158265],
+  ["Hoshiarpur","India",31.5324,75.9080,304,"Asia/Kolkata",158142],
+  ["Pallavaram","India",12.9680,80.1502,25,"Asia/Kolkata",157145],
+  ["Hanumangarh","India",29.5818,74.3294,184,"Asia/Kolkata",155687],
+  ["Kanchipuram","India",12.8352,79.7001,85,"Asia/Kolkata",155029],
+  ["Alandur","India",13.0025,80.2061,15,"Asia/Kolkata",153775],
+  ["Guna","India",24.6476,77.3119,475,"Asia/Kolkata",153689],
+  ["Bahadurgarh","India",28.6911,76.9316,216,"Asia/Kolkata",153613],
+  ["Bharuch","India",21.6948,72.9805,12,"Asia/Kolkata",153528],
+  ["Medinipur","India",22.4211,87.3226,47,"Asia/Kolkata",153349],
+  ["Faizabad","India",26.7769,82.1329,106,"Asia/Kolkata",153047],
+  ["Danapur","India",25.6368,85.0459,58,"Asia/Kolkata",152940],
+  ["Silchar","India",24.8273,92.7979,24,"Asia/Kolkata",152393],
+  ["Banda","India",25.4753,80.3358,128,"Asia/Kolkata",152218],
+  ["Morena","India",26.5029,78.0016,177,"Asia/Kolkata",152004],
+  ["Tonk","India",26.1664,75.7882,278,"Asia/Kolkata",151331],
+  ["Raj Nandgaon","India",21.1000,81.0333,310,"Asia/Kolkata",150755],
+  ["Serilingampalle","India",17.4931,78.3020,564,"Asia/Kolkata",150525],
+  ["Virar","India",19.4559,72.8114,9,"Asia/Kolkata",150357],
+  ["Malkajgiri","India",17.4478,78.5263,536,"Asia/Kolkata",150000],
+  ["Shantipur","India",23.2472,88.4330,15,"Asia/Kolkata",149983],
+  ["Barakpur","India",22.7660,88.3634,12,"Asia/Kolkata",148174],
+  ["Erode","India",11.3428,77.7274,170,"Asia/Kolkata",147270],
+  ["Ambala","India",30.3628,76.7952,275,"Asia/Kolkata",146787],
+  ["Krishnanagar","India",23.4058,88.4907,16,"Asia/Kolkata",145926],
+  ["Saharsa","India",25.8850,86.5947,47,"Asia/Kolkata",145764],
+  ["Batala","India",31.8186,75.2028,243,"Asia/Kolkata",145468],
+  ["Bhimavaram","India",16.5408,81.5232,11,"Asia/Kolkata",142967],
+  ["Balurghat","India",25.2210,88.7773,29,"Asia/Kolkata",141404],
+  ["Kaithal","India",29.8019,76.3967,248,"Asia/Kolkata",140604],
+  ["Lakhimpur","India",27.9520,80.7826,152,"Asia/Kolkata",140223],
+  ["Hazaribag","India",23.9951,85.3611,619,"Asia/Kolkata",140063],
+  ["Vidisha","India",23.5243,77.8097,431,"Asia/Kolkata",140045],
+  ["Haldwani","India",29.2225,79.5286,447,"Asia/Kolkata",139497],
+  ["Habra","India",22.8420,88.6561,13,"Asia/Kolkata",139297],
+  ["Kumbakonam","India",10.9621,79.3912,31,"Asia/Kolkata",139264],
+  ["Porbandar","India",21.6422,69.6093,7,"Asia/Kolkata",138872],
+  ["Chitradurga","India",14.2226,76.4004,747,"Asia/Kolkata",138587],
+  ["Thanesar","India",29.9742,76.8320,263,"Asia/Kolkata",138279],
+  ["Tiruvannamalai","India",12.2266,79.0746,174,"Asia/Kolkata",138243],
+  ["Anand","India",22.5525,72.9552,44,"Asia/Kolkata",138009],
+  ["Kanchrapara","India",22.9600,88.4285,10,"Asia/Kolkata",136954],
+  ["Mahbubnagar","India",16.7438,77.9860,505,"Asia/Kolkata",136135],
+  ["Dimapur","India",25.9117,93.7217,154,"Asia/Kolkata",135860],
+  ["Robertsonpet","India",12.9563,78.2754,848,"Asia/Kolkata",135218],
+  ["Chhindwara","India",22.0580,78.9376,684,"Asia/Kolkata",134847],
+  ["Mandya","India",12.5214,76.8953,680,"Asia/Kolkata",134845],
+  ["Bankura","India",23.2324,87.0716,94,"Asia/Kolkata",133966],
+  ["Hajipur","India",25.6900,85.2095,55,"Asia/Kolkata",133606],
+  ["Gonda","India",27.1325,81.9690,110,"Asia/Kolkata",133583],
+  ["Bhuj","India",23.2540,69.6693,106,"Asia/Kolkata",133459],
+  ["Hindupur","India",13.8291,77.4924,630,"Asia/Kolkata",133298],
+  ["Shillong","India",25.5689,91.8831,1507,"Asia/Kolkata",132842],
+  ["Palakkad","India",10.7744,76.6563,95,"Asia/Kolkata",132728],
+  ["Godhra","India",22.7755,73.6149,132,"Asia/Kolkata",131913],
+  ["Kishangarh","India",26.5741,74.8668,429,"Asia/Kolkata",131749],
+  ["Raniganj","India",23.6164,87.1306,103,"Asia/Kolkata",131261],
+  ["Pilibhit","India",28.6310,79.8034,190,"Asia/Kolkata",131008],
+  ["Beawar","India",26.1012,74.3203,453,"Asia/Kolkata",130777],
+  ["Abohar","India",30.1431,74.1975,188,"Asia/Kolkata",130603],
+  ["Moga","India",30.8157,75.1742,228,"Asia/Kolkata",130549],
+  ["Dehri","India",24.9050,84.1829,114,"Asia/Kolkata",129938],
+  ["Deoria","India",26.5017,83.7794,82,"Asia/Kolkata",129570],
+  ["Udipi","India",13.3347,74.7462,33,"Asia/Kolkata",129113],
+  ["Hassan","India",13.0143,76.1035,963,"Asia/Kolkata",128531],
+  ["Khardah","India",22.7186,88.3781,10,"Asia/Kolkata",128346],
+  ["Yavatmal","India",20.3968,78.1306,449,"Asia/Kolkata",128175],
+  ["Halisahar","India",22.9322,88.4186,16,"Asia/Kolkata",128172],
+  ["Panvel","India",18.9888,73.1101,12,"Asia/Kolkata",128046],
+  ["Titagarh","India",22.7425,88.3733,10,"Asia/Kolkata",127751],
+  ["Cuddapah","India",14.4775,78.8235,135,"Asia/Kolkata",127010],
+  ["Bettiah","India",26.8024,84.4987,79,"Asia/Kolkata",127008],
+  ["Hathras","India",27.5962,78.0524,187,"Asia/Kolkata",126882],
+  ["Lalitpur","India",24.6905,78.4189,362,"Asia/Kolkata",126475],
+  ["Kolar","India",13.1367,78.1292,846,"Asia/Kolkata",126441],
+  ["Mandsaur","India",24.0718,75.0699,440,"Asia/Kolkata",124988],
+  ["Gondia","India",21.4601,80.1920,322,"Asia/Kolkata",124897],
+  ["Rajapalaiyam","India",9.4530,77.5533,165,"Asia/Kolkata",124168],
+  ["Darjiling","India",27.0333,88.2667,2127,"Asia/Kolkata",123797],
+  ["Mohali","India",30.6800,76.7221,312,"Asia/Kolkata",123484],
+  ["Palanpur","India",24.1710,72.4382,230,"Asia/Kolkata",123294],
+  ["Dam Dam","India",22.6334,88.4229,9,"Asia/Kolkata",122719],
+  ["Hardoi","India",27.3943,80.1311,144,"Asia/Kolkata",122635],
+  ["Puruliya","India",23.3306,86.3630,255,"Asia/Kolkata",122533],
+  ["Dibrugarh","India",27.4799,94.9084,110,"Asia/Kolkata",122155],
+  ["Palwal","India",28.1433,77.3270,202,"Asia/Kolkata",121965],
+  ["Nalgonda","India",17.0544,79.2671,235,"Asia/Kolkata",121826],
+  ["Bhadreswar","India",22.8245,88.3384,11,"Asia/Kolkata",121662],
+  ["Vejalpur","India",22.6902,73.5630,113,"Asia/Kolkata",121610],
+  ["Chikmagalur","India",13.3223,75.7740,1042,"Asia/Kolkata",121484],
+  ["Raigarh","India",21.9000,83.4000,216,"Asia/Kolkata",121278],
+  ["Guntakal","India",15.1713,77.3657,454,"Asia/Kolkata",120964],
+  ["Gangapur","India",26.4725,76.7174,262,"Asia/Kolkata",120115],
+  ["Siwan","India",26.2215,84.3588,71,"Asia/Kolkata",119181],
+  ["Damoh","India",23.8365,79.4413,376,"Asia/Kolkata",118776],
+  ["Adilabad","India",19.6720,78.5359,257,"Asia/Kolkata",118526],
+  ["Srikakulam","India",18.2969,83.8973,18,"Asia/Kolkata",118299],
+  ["Uppal Kalan","India",17.4058,78.5591,502,"Asia/Kolkata",118259],
+  ["Jetpur","India",21.7548,70.6235,92,"Asia/Kolkata",118068],
+  ["Morbi","India",22.8173,70.8377,53,"Asia/Kolkata",118022],
+  ["Patan","India",23.8507,72.1296,82,"Asia/Kolkata",117863],
+  ["Khanna","India",30.7030,76.2211,269,"Asia/Kolkata",117137],
+  ["Botad","India",22.1692,71.6667,89,"Asia/Kolkata",117053],
+  ["Rishra","India",22.7239,88.3456,11,"Asia/Kolkata",117014],
+  ["Azamgarh","India",26.0676,83.1836,87,"Asia/Kolkata",116644],
+  ["Yelahanka","India",13.1013,77.5963,901,"Asia/Kolkata",116447],
+  ["Gudivada","India",16.4317,80.9963,11,"Asia/Kolkata",116161],
+  ["Baidyabati","India",22.7850,88.3259,13,"Asia/Kolkata",115504],
+  ["Basti","India",26.7945,82.7328,90,"Asia/Kolkata",115115],
+  ["Balasore","India",21.4927,86.9335,22,"Asia/Kolkata",114321],
+  ["Dharmavaram","India",14.4149,77.7199,368,"Asia/Kolkata",114050],
+  ["Maler Kotla","India",30.5309,75.8795,251,"Asia/Kolkata",113840],
+  ["Wardha","India",20.7381,78.5967,293,"Asia/Kolkata",113759],
+  ["Jhunjhunun","India",28.1256,75.3980,343,"Asia/Kolkata",113193],
+  ["Satara","India",17.6859,73.9933,709,"Asia/Kolkata",112793],
+  ["Chandausi","India",28.4530,78.7829,196,"Asia/Kolkata",112635],
+  ["Motihari","India",26.6574,84.9192,74,"Asia/Kolkata",112144],
+  ["Chas","India",23.6356,86.1671,217,"Asia/Kolkata",112141],
+  ["Pudukkottai","India",10.3813,78.8214,102,"Asia/Kolkata",112118],
+  ["Rewari","India",28.1972,76.6176,253,"Asia/Kolkata",112079],
+  ["Port Blair","India",11.6667,92.7500,6,"Asia/Kolkata",112050],
+  ["Suriapet","India",17.1405,79.6204,177,"Asia/Kolkata",111729],
+  ["Bangaon","India",23.0455,88.8308,11,"Asia/Kolkata",111693],
+  ["Chhatarpur","India",24.9142,79.5878,307,"Asia/Kolkata",111594],
+  ["Ashoknagar Kalyangarh","India",22.8642,88.6370,11,"Asia/Kolkata",111475],
+  ["Achalpur","India",21.2572,77.5086,375,"Asia/Kolkata",111278],
+  ["Navadwip","India",23.4067,88.3686,17,"Asia/Kolkata",111123],
+  ["Barsi","India",18.2345,75.6928,518,"Asia/Kolkata",110983],
+  ["Sultanpur","India",26.2600,82.0731,104,"Asia/Kolkata",110368],
+  ["Ambur","India",12.7916,78.7164,322,"Asia/Kolkata",109873],
+  ["Hoshangabad","India",22.7536,77.7225,313,"Asia/Kolkata",109358],
+  ["Sawai Madhopur","India",26.0230,76.3441,257,"Asia/Kolkata",108612],
+  ["Madanapalle","India",13.5503,78.5029,694,"Asia/Kolkata",108593],
+  ["Bansbaria","India",22.9539,88.4010,17,"Asia/Kolkata",108474],
+  ["Tadepallegudem","India",16.8130,81.5287,18,"Asia/Kolkata",108167],
+  ["Jalpaiguri","India",26.5167,88.7333,87,"Asia/Kolkata",107832],
+  ["Chittaurgarh","India",24.8896,74.6240,405,"Asia/Kolkata",106710],
+  ["Gangawati","India",15.4334,76.5293,412,"Asia/Kolkata",106250],
+  ["Khurja","India",28.2544,77.8544,203,"Asia/Kolkata",105909],
+  ["Ponnani","India",10.7669,75.9252,7,"Asia/Kolkata",105512],
+  ["Barnala","India",30.3721,75.5454,234,"Asia/Kolkata",105016],
+  ["Badlapur","India",19.1552,73.2655,24,"Asia/Kolkata",104636],
+  ["Soyibug","India",34.0805,74.7087,1588,"Asia/Kolkata",104000],
+  ["Roorkee","India",29.8631,77.8913,272,"Asia/Kolkata",103894],
+  ["Bagaha","India",27.0992,84.0900,94,"Asia/Kolkata",103855],
+  ["Hosur","India",12.7365,77.8326,871,"Asia/Kolkata",103724],
+  ["Churu","India",28.3041,74.9672,291,"Asia/Kolkata",103533],
+  ["Nagda","India",23.4583,75.4176,470,"Asia/Kolkata",103501],
+  ["Kashipur","India",29.2140,78.9569,239,"Asia/Kolkata",103138],
+  ["Ghazipur","India",25.5805,83.5806,73,"Asia/Kolkata",103095],
+  ["Begusarai","India",25.4185,86.1339,47,"Asia/Kolkata",103060],
+  ["Dhaulpur","India",26.6929,77.8797,173,"Asia/Kolkata",102462],
+  ["Marmagao","India",15.4093,73.7887,58,"Asia/Kolkata",102345],
+  ["Firozpur","India",30.9257,74.6131,200,"Asia/Kolkata",102130],
+  ["Gondal","India",21.9607,70.8025,139,"Asia/Kolkata",101801],
+  ["Seoni","India",22.0866,79.5504,628,"Asia/Kolkata",101379],
+  ["Jagadhri","India",30.1668,77.3031,293,"Asia/Kolkata",101300],
+  ["Mirialguda","India",16.8722,79.5625,134,"Asia/Kolkata",101234],
+  ["Udgir","India",18.3926,77.1176,643,"Asia/Kolkata",101064],
+  ["Jamalpur","India",25.3126,86.4889,52,"Asia/Kolkata",100780],
+  ["Nandurbar","India",21.3661,74.2395,217,"Asia/Kolkata",100703],
+  ["Itarsi","India",22.6148,77.7622,325,"Asia/Kolkata",100574],
+  ["Vasco Da Gama","India",15.3958,73.8157,7,"Asia/Kolkata",100485],
+  ["Phagwara","India",31.2185,75.7717,246,"Asia/Kolkata",100146],
+  ["Airoli","India",19.1510,72.9963,5,"Asia/Kolkata",100000],
+  ["Jakarta","Indonesia",-6.2146,106.8451,16,"Asia/Jakarta",8540121],
+  ["Surabaya","Indonesia",-7.2492,112.7508,8,"Asia/Jakarta",2374658],
+  ["Medan","Indonesia",3.5833,98.6667,26,"Asia/Jakarta",1750971],
+  ["Bandung","Indonesia",-6.9039,107.6186,728,"Asia/Jakarta",1699719],
+  ["Bekasi","Indonesia",-6.2349,106.9896,18,"Asia/Jakarta",1520119],
+  ["Palembang","Indonesia",-2.9167,104.7458,5,"Asia/Jakarta",1441500],
+  ["Tangerang","Indonesia",-6.1781,106.6300,18,"Asia/Jakarta",1372124],
+  ["Makassar","Indonesia",-5.1400,119.4221,8,"Asia/Makassar",1321717],
+  ["South Tangerang","Indonesia",-6.2886,106.7179,39,"Asia/Jakarta",1303569],
+  ["Semarang","Indonesia",-6.9932,110.4203,19,"Asia/Jakarta",1288084],
+  ["Depok","Indonesia",-6.4000,106.8186,92,"Asia/Jakarta",1198129],
+  ["Masjid Jamie Baitul Muttaqien","Indonesia",-6.3684,107.9558,3,"Asia/Jakarta",1000000],
+  ["Padang","Indonesia",-0.9492,100.3543,6,"Asia/Jakarta",840352],
+  ["Bandarlampung","Indonesia",-5.4254,105.2580,108,"Asia/Jakarta",800348],
+  ["Bogor","Indonesia",-6.5944,106.7892,245,"Asia/Jakarta",800000],
+  ["Malang","Indonesia",-7.9797,112.6304,452,"Asia/Jakarta",746716],
+  ["Pekanbaru","Indonesia",0.5333,101.4500,14,"Asia/Jakarta",703956],
+  ["City of Balikpapan","Indonesia",-1.2420,116.8942,11,"Asia/Makassar",700000],
+  ["Yogyakarta","Indonesia",-7.7828,110.3608,125,"Asia/Jakarta",636660],
+  ["Situbondo","Indonesia",-7.7062,114.0098,36,"Asia/Jakarta",600000],
+  ["Banjarmasin","Indonesia",-3.3199,114.5907,8,"Asia/Makassar",572837],
+  ["Surakarta","Indonesia",-7.5561,110.8317,100,"Asia/Jakarta",555308],
+  ["Cimahi","Indonesia",-6.8722,107.5425,764,"Asia/Jakarta",493698],
+  ["Pontianak","Indonesia",-0.0333,109.3333,7,"Asia/Pontianak",455173],
+  ["Manado","Indonesia",1.4870,124.8455,22,"Asia/Makassar",451893],
+  ["Balikpapan","Indonesia",-1.2675,116.8289,67,"Asia/Makassar",433866],
+  ["Jambi City","Indonesia",-1.6000,103.6167,21,"Asia/Jakarta",420323],
+  ["Denpasar","Indonesia",-8.6500,115.2167,33,"Asia/Makassar",405923],
+  ["Ambon","Indonesia",-3.6954,128.1814,9,"Asia/Jayapura",355596],
+  ["Samarinda","Indonesia",-0.5000,117.1500,8,"Asia/Makassar",355160],
+  ["Mataram","Indonesia",-8.5833,116.1167,24,"Asia/Makassar",318674],
+  ["Percut","Indonesia",3.6253,98.8640,11,"Asia/Jakarta",311063],
+  ["Bengkulu","Indonesia",-3.8004,102.2655,19,"Asia/Jakarta",309712],
+  ["Jember","Indonesia",-8.1660,113.7032,93,"Asia/Jakarta",298585],
+  ["Palu","Indonesia",-0.8917,119.8707,20,"Asia/Makassar",282431],
+  ["Kupang","Indonesia",-10.1718,123.6075,101,"Asia/Makassar",282396],
+  ["Sukabumi","Indonesia",-6.9181,106.9267,613,"Asia/Jakarta",276414],
+  ["Tasikmalaya","Indonesia",-7.3274,108.2207,354,"Asia/Jakarta",271143],
+  ["Pekalongan","Indonesia",-6.8886,109.6753,10,"Asia/Jakarta",257945],
+  ["Cirebon","Indonesia",-6.7063,108.5570,8,"Asia/Jakarta",254298],
+  ["Banda Aceh","Indonesia",5.5577,95.3222,8,"Asia/Jakarta",250757],
+  ["Tegal","Indonesia",-6.8694,109.1402,7,"Asia/Jakarta",237084],
+  ["Kediri","Indonesia",-7.8167,112.0167,74,"Asia/Jakarta",235143],
+  ["Binjai","Indonesia",3.6001,98.4854,34,"Asia/Jakarta",228763],
+  ["Purwokerto","Indonesia",-7.4214,109.2344,81,"Asia/Jakarta",217222],
+  ["Purwakarta","Indonesia",-6.5569,107.4433,86,"Asia/Jakarta",215803],
+  ["Loa Janan","Indonesia",-0.5829,117.0950,9,"Asia/Makassar",212816],
+  ["Pematangsiantar","Indonesia",2.9595,99.0687,388,"Asia/Jakarta",209614],
+  ["Ciputat","Indonesia",-6.2375,106.6956,23,"Asia/Jakarta",207858],
+  ["Ciampea","Indonesia",-6.5547,106.7008,147,"Asia/Jakarta",207212],
+  ["Sumedang Utara","Indonesia",-6.8500,107.9167,467,"Asia/Jakarta",206746],
+  ["Cileungsir","Indonesia",-6.3947,106.9592,78,"Asia/Jakarta",202190],
+  ["Rengasdengklok","Indonesia",-6.1592,107.2981,10,"Asia/Jakarta",201463],
+  ["Kendari","Indonesia",-3.9778,122.5151,2,"Asia/Makassar",195006],
+  ["Parung","Indonesia",-6.4214,106.7331,101,"Asia/Jakarta",193898],
+  ["Tanjungpinang","Indonesia",0.9167,104.4500,24,"Asia/Jakarta",192493],
+  ["Curug","Indonesia",-6.2658,106.5564,39,"Asia/Jakarta",191406],
+  ["Labuhanbajo","Indonesia",-8.4964,119.8877,63,"Asia/Makassar",188724],
+  ["Cibinong","Indonesia",-6.4817,106.8542,137,"Asia/Jakarta",188663],
+  ["Madiun","Indonesia",-7.6298,111.5239,69,"Asia/Jakarta",186099],
+  ["Pemalang","Indonesia",-6.9000,109.3667,10,"Asia/Jakarta",184149],
+  ["Lembang","Indonesia",-6.8117,107.6175,1252,"Asia/Jakarta",183130],
+  ["Probolinggo","Indonesia",-7.7543,113.2159,15,"Asia/Jakarta",181656],
+  ["Pamulang","Indonesia",-6.3428,106.7383,65,"Asia/Jakarta",174557],
+  ["Cikupa","Indonesia",-6.2364,106.5083,30,"Asia/Jakarta",174041],
+  ["Salatiga","Indonesia",-7.3319,110.4928,571,"Asia/Jakarta",172645],
+  ["Plumbon","Indonesia",-6.7050,108.4728,22,"Asia/Jakarta",167105],
+  ["Banjaran","Indonesia",-7.0453,107.5878,674,"Asia/Jakarta",164952],
+  ["Serang","Indonesia",-6.1149,106.1502,26,"Asia/Jakarta",164767],
+  ["Lawang","Indonesia",-7.8353,112.6947,509,"Asia/Jakarta",159380],
+  ["Pasuruan","Indonesia",-7.6453,112.9075,9,"Asia/Jakarta",158600],
+  ["Sunggal","Indonesia",3.5765,98.6151,32,"Asia/Jakarta",157914],
+  ["Perbaungan","Indonesia",3.5679,98.9560,19,"Asia/Jakarta",157174],
+  ["Pasarkemis","Indonesia",-6.1703,106.5303,20,"Asia/Jakarta",154234],
+  ["Soreang","Indonesia",-7.0331,107.5183,744,"Asia/Jakarta",150932],
+  ["Purwodadi","Indonesia",-7.0868,110.9158,29,"Asia/Jakarta",150206],
+  ["Metro","Indonesia",-5.1131,105.3067,62,"Asia/Jakarta",149526],
+  ["Lubuklinggau","Indonesia",-3.2945,102.8614,140,"Asia/Jakarta",148243],
+  ["Palangkaraya","Indonesia",-2.2000,113.8333,19,"Asia/Pontianak",148139],
+  ["Astanajapura","Indonesia",-6.8017,108.6311,6,"Asia/Jakarta",148047],
+  ["Cikampek","Indonesia",-6.4197,107.4558,61,"Asia/Jakarta",145620],
+  ["Gorontalo","Indonesia",0.5412,123.0595,6,"Asia/Makassar",144195],
+  ["Dumai","Indonesia",1.6671,101.4432,1,"Asia/Jakarta",143760],
+  ["Tanjungbalai","Indonesia",2.9667,99.8000,4,"Asia/Jakarta",142506],
+  ["Parepare","Indonesia",-4.0135,119.6255,22,"Asia/Makassar",140000],
+  ["Sidoarjo","Indonesia",-7.4478,112.7183,5,"Asia/Jakarta",139189],
+  ["Weru","Indonesia",-6.7110,108.5037,19,"Asia/Jakarta",139004],
+  ["Bitung","Indonesia",1.4451,125.1824,9,"Asia/Makassar",137364],
+  ["Jayapura","Indonesia",-2.5428,140.7028,11,"Asia/Jayapura",134895],
+  ["Baturaja","Indonesia",-4.1289,104.1669,69,"Asia/Jakarta",134759],
+  ["Adiwerna","Indonesia",-6.9375,109.1325,23,"Asia/Jakarta",134188],
+  ["Singaraja","Indonesia",-8.1120,115.0882,11,"Asia/Makassar",133784],
+  ["Blitar","Indonesia",-8.0983,112.1681,180,"Asia/Jakarta",132416],
+  ["Martapura","Indonesia",-3.4167,114.8500,15,"Asia/Makassar",131449],
+  ["Kisaran","Indonesia",2.9845,99.6158,20,"Asia/Jakarta",129911],
+  ["Palopo","Indonesia",-2.9925,120.1969,8,"Asia/Makassar",129273],
+  ["Teluknaga","Indonesia",-6.0989,106.6381,8,"Asia/Jakarta",128275],
+  ["Ungaran","Indonesia",-7.1397,110.4050,351,"Asia/Jakarta",127812],
+  ["Rangkasbitung","Indonesia",-6.3591,106.2494,27,"Asia/Jakarta",126910],
+  ["Klaten","Indonesia",-7.7058,110.6064,159,"Asia/Jakarta",126831],
+  ["Jombang","Indonesia",-7.5460,112.2331,43,"Asia/Jakarta",126465],
+  ["Paseh","Indonesia",-7.1026,107.7641,918,"Asia/Jakarta",126181],
+  ["Pangkalpinang","Indonesia",-2.1291,106.1138,10,"Asia/Jakarta",125933],
+  ["Sorong","Indonesia",-0.8796,131.2610,7,"Asia/Jayapura",125535],
+  ["Padalarang","Indonesia",-6.8378,107.4728,703,"Asia/Jakarta",124946],
+  ["Ciamis","Indonesia",-7.3257,108.3534,207,"Asia/Jakarta",123637],
+  ["Lumajang","Indonesia",-8.1335,113.2248,56,"Asia/Jakarta",123626],
+  ["Indramayu","Indonesia",-6.3264,108.3200,5,"Asia/Jakarta",123263],
+  ["Pati","Indonesia",-6.7559,111.0380,13,"Asia/Jakarta",122785],
+  ["Payakumbuh","Indonesia",-0.2159,100.6334,499,"Asia/Jakarta",121572],
+  ["Bangil","Indonesia",-7.5994,112.8186,2,"Asia/Jakarta",120000],
+  ["Sepatan","Indonesia",-6.1189,106.5750,11,"Asia/Jakarta",118439],
+  ["Tebingtinggi","Indonesia",3.3285,99.1625,24,"Asia/Jakarta",117530],
+  ["Kedungwuni","Indonesia",-6.9704,109.6479,17,"Asia/Jakarta",117249],
+  ["Batang","Indonesia",-6.4846,110.7083,14,"Asia/Jakarta",115537],
+  ["Pamanukan","Indonesia",-6.2842,107.8106,10,"Asia/Jakarta",114290],
+  ["Sawangan","Indonesia",-6.4028,106.7744,88,"Asia/Jakarta",114069],
+  ["Mojokerto","Indonesia",-7.4664,112.4338,25,"Asia/Jakarta",112557],
+  ["Cileunyi","Indonesia",-6.9389,107.7528,703,"Asia/Jakarta",111476],
+  ["Magelang","Indonesia",-7.4706,110.2178,379,"Asia/Jakarta",111461],
+  ["Kresek","Indonesia",-6.1314,106.3797,16,"Asia/Jakarta",110182],
+  ["Citeureup","Indonesia",-6.4856,106.8819,136,"Asia/Jakarta",110155],
+  ["Banyuwangi","Indonesia",-8.2325,114.3576,24,"Asia/Jakarta",108166],
+  ["Cikarang","Indonesia",-6.2611,107.1528,17,"Asia/Jakarta",106479],
+  ["Arjawinangun","Indonesia",-6.6453,108.4103,14,"Asia/Jakarta",105845],
+  ["Depok","Indonesia",-7.7625,110.4317,154,"Asia/Jakarta",104527],
+  ["Prabumulih","Indonesia",-3.4345,104.2306,51,"Asia/Jakarta",103470],
+  ["Rantauprapat","Indonesia",2.1000,99.8333,29,"Asia/Jakarta",103009],
+  ["Belawan","Indonesia",3.7755,98.6832,5,"Asia/Jakarta",102707],
+  ["Singkawang","Indonesia",0.9000,109.0000,-1,"Asia/Pontianak",101838],
+  ["Ternate","Indonesia",0.7917,127.3824,31,"Asia/Jayapura",101731],
+  ["Bontang","Indonesia",0.1324,117.4854,10,"Asia/Makassar",101691],
+  ["Grogol","Indonesia",-7.6011,110.8186,93,"Asia/Jakarta",100613],
+  ["Padangsidempuan","Indonesia",1.3795,99.2715,322,"Asia/Jakarta",100561],
+  ["Tehran","Iran",35.6944,51.4215,1178,"Asia/Tehran",7153309],
+  ["Mashhad","Iran",36.3156,59.5680,1003,"Asia/Tehran",2307177],
+  ["Esfahan","Iran",32.6572,51.6776,1570,"Asia/Tehran",1547164],
+  ["Karaj","Iran",35.8327,50.9915,1341,"Asia/Tehran",1448075],
+  ["Tabriz","Iran",38.0800,46.2919,1396,"Asia/Tehran",1424641],
+  ["Shiraz","Iran",29.6103,52.5311,1545,"Asia/Tehran",1249942],
+  ["Qom","Iran",34.6401,50.8764,935,"Asia/Tehran",900000],
+  ["Ahvaz","Iran",31.3190,48.6842,37,"Asia/Tehran",841145],
+  ["Kahriz","Iran",34.3838,47.0553,1302,"Asia/Tehran",766706],
+  ["Kermanshah","Iran",34.3142,47.0650,1392,"Asia/Tehran",621100],
+  ["Rasht","Iran",37.2808,49.5832,1,"Asia/Tehran",594590],
+  ["Kerman","Iran",30.2832,57.0788,1760,"Asia/Tehran",577514],
+  ["Orumiyeh","Iran",37.5527,45.0761,1350,"Asia/Tehran",577307],
+  ["Zahedan","Iran",29.4963,60.8629,1380,"Asia/Tehran",551980],
+  ["Hamadan","Iran",34.7992,48.5146,1820,"Asia/Tehran",528256],
+  ["Azadshahr","Iran",34.7905,48.5701,1853,"Asia/Tehran",514102],
+  ["Arak","Iran",34.0917,49.6892,1748,"Asia/Tehran",503647],
+  ["Yazd","Iran",31.8972,54.3675,1216,"Asia/Tehran",477905],
+  ["Ardabil","Iran",38.2498,48.2933,1353,"Asia/Tehran",410753],
+  ["Abadan","Iran",30.3392,48.3043,6,"Asia/Tehran",370180],
+  ["Zanjan","Iran",36.6736,48.4787,1650,"Asia/Tehran",357471],
+  ["Bandar 'Abbas","Iran",27.1865,56.2808,9,"Asia/Tehran",352173],
+  ["Sanandaj","Iran",35.3150,46.9988,1494,"Asia/Tehran",349176],
+  ["Qazvin","Iran",36.2688,50.0041,1300,"Asia/Tehran",333635],
+  ["Khorramshahr","Iran",30.4408,48.1843,4,"Asia/Tehran",330606],
+  ["Khorramabad","Iran",33.4878,48.3558,1182,"Asia/Tehran",329825],
+  ["Khomeyni Shahr","Iran",32.6856,51.5361,1595,"Asia/Tehran",277334],
+  ["Kashan","Iran",33.9831,51.4364,942,"Asia/Tehran",272359],
+  ["Sari","Iran",36.5633,53.0601,43,"Asia/Tehran",255396],
+  ["Borujerd","Iran",33.8973,48.7516,1574,"Asia/Tehran",251958],
+  ["Qarchak","Iran",35.4287,51.5754,966,"Asia/Tehran",251834],
+  ["Gorgan","Iran",36.8417,54.4436,143,"Asia/Tehran",244937],
+  ["Sabzevar","Iran",36.2126,57.6819,974,"Asia/Tehran",226183],
+  ["Najafabad","Iran",32.6344,51.3668,1649,"Asia/Tehran",223450],
+  ["Neyshabur","Iran",36.2133,58.7958,1199,"Asia/Tehran",220929],
+  ["Nazarabad","Iran",35.9541,50.6061,1199,"Asia/Tehran",213388],
+  ["Bukan","Iran",36.5210,46.2089,1352,"Asia/Tehran",213331],
+  ["Sirjan","Iran",29.4370,55.6802,1734,"Asia/Tehran",207645],
+  ["Babol","Iran",36.5513,52.6790,-1,"Asia/Tehran",202796],
+  ["Amol","Iran",36.4696,52.3507,96,"Asia/Tehran",199382],
+  ["Birjand","Iran",32.8663,59.2211,1459,"Asia/Tehran",196982],
+  ["Bojnurd","Iran",37.4747,57.3290,1069,"Asia/Tehran",192041],
+  ["Varamin","Iran",35.3242,51.6457,920,"Asia/Tehran",179603],
+  ["Malayer","Iran",34.2969,48.8235,1751,"Asia/Tehran",176573],
+  ["Saveh","Iran",35.0213,50.3566,1008,"Asia/Tehran",175533],
+  ["Khvoy","Iran",38.5503,44.9521,1143,"Asia/Tehran",175370],
+  ["Bandar-e Bushehr","Iran",28.9684,50.8385,7,"Asia/Tehran",165377],
+  ["Mahabad","Iran",36.7631,45.7222,1324,"Asia/Tehran",162434],
+  ["Saqqez","Iran",36.2499,46.2735,1520,"Asia/Tehran",151237],
+  ["Rafsanjan","Iran",30.4067,55.9939,1514,"Asia/Tehran",147680],
+  ["Ilam","Iran",33.6374,46.4227,1403,"Asia/Tehran",140940],
+  ["Miandowab","Iran",36.9694,46.1027,1296,"Asia/Tehran",132819],
+  ["Shahrud","Iran",36.4182,54.9763,1351,"Asia/Tehran",131889],
+  ["Gonbad-e Qabus","Iran",37.2500,55.1672,38,"Asia/Tehran",131416],
+  ["Iranshahr","Iran",27.2024,60.6848,566,"Asia/Tehran",131232],
+  ["Shahr-e Kord","Iran",32.3256,50.8644,2065,"Asia/Tehran",129153],
+  ["Torbat-e Heydariyeh","Iran",35.2740,59.2195,1351,"Asia/Tehran",125633],
+  ["Semnan","Iran",35.5769,53.3920,1137,"Asia/Tehran",124826],
+  ["Marand","Iran",38.4329,45.7749,1322,"Asia/Tehran",124191],
+  ["Zabol","Iran",31.0306,61.4949,478,"Asia/Tehran",121989],
+  ["Quchan","Iran",37.1060,58.5095,1313,"Asia/Tehran",111752],
+  ["Masjed Soleyman","Iran",31.9364,49.3039,240,"Asia/Tehran",111510],
+  ["Bandar-e Anzali","Iran",37.4726,49.4593,-21,"Asia/Tehran",110826],
+  ["Baneh","Iran",35.9975,45.8853,1525,"Asia/Tehran",104799],
+  ["Parsabad","Iran",39.6482,47.9174,46,"Asia/Tehran",101661],
+  ["Shahreza","Iran",32.0339,51.8794,1807,"Asia/Tehran",100790],
+  ["Kuhdasht","Iran",33.5333,47.6100,1190,"Asia/Tehran",100208],
+  ["Baghdad","Iraq",33.3406,44.4009,41,"Asia/Baghdad",5672513],
+  ["Al Basrah","Iraq",30.5330,47.7975,6,"Asia/Baghdad",2600000],
+  ["Al Mawsil al Jadidah","Iraq",36.3309,43.0906,261,"Asia/Baghdad",2065597],
+  ["Al Basrat al Qadimah","Iraq",30.4953,47.8169,8,"Asia/Baghdad",2015483],
+  ["Mosul","Iraq",36.3350,43.1189,228,"Asia/Baghdad",1739800],
+  ["Erbil","Iraq",36.1926,44.0106,426,"Asia/Baghdad",932800],
+  ["Abu Ghurayb","Iraq",33.3070,44.1869,38,"Asia/Baghdad",900000],
+  ["As Sulaymaniyah","Iraq",35.5650,45.4329,847,"Asia/Baghdad",723170],
+  ["Kirkuk","Iraq",35.4681,44.3922,346,"Asia/Baghdad",601433],
+  ["An Najaf al Ashraf","Iraq",31.9892,44.3291,60,"Asia/Baghdad",482576],
+  ["Karbala","Iraq",32.6160,44.0249,32,"Asia/Baghdad",434450],
+  ["An Nasiriyah","Iraq",31.0580,46.2573,7,"Asia/Baghdad",400249],
+  ["Al `Amarah","Iraq",31.8359,47.1440,9,"Asia/Baghdad",323302],
+  ["Ad Diwaniyah","Iraq",31.9929,44.9255,25,"Asia/Baghdad",318801],
+  ["Al Kut","Iraq",32.5128,45.8182,22,"Asia/Baghdad",315162],
+  ["Al Hillah","Iraq",32.4637,44.4196,33,"Asia/Baghdad",289709],
+  ["Dihok","Iraq",36.8671,42.9885,567,"Asia/Baghdad",284000],
+  ["Ramadi","Iraq",33.4206,43.3078,53,"Asia/Baghdad",274539],
+  ["Al Fallujah","Iraq",33.3558,43.7861,47,"Asia/Baghdad",190159],
+  ["Samarra'","Iraq",34.1966,43.8739,79,"Asia/Baghdad",158508],
+  ["As Samawah","Iraq",31.3320,45.2944,15,"Asia/Baghdad",152890],
+  ["Baqubah","Iraq",33.7466,44.6437,50,"Asia/Baghdad",152550],
+  ["Sinah","Iraq",36.8075,43.0383,596,"Asia/Baghdad",128776],
+  ["Az Zubayr","Iraq",30.3921,47.7017,13,"Asia/Baghdad",122676],
+  ["Umm Qasr","Iraq",30.0362,47.9195,9,"Asia/Baghdad",107620],
+  ["Al Faw","Iraq",29.9742,48.4731,2,"Asia/Baghdad",104569],
+  ["Dublin","Ireland",53.3331,-6.2489,17,"Europe/Dublin",1024027],
+  ["Cork","Ireland",51.8980,-8.4706,10,"Europe/Dublin",190384],
+  ["Dun Laoghaire","Ireland",53.2940,-6.1359,16,"Europe/Dublin",185400],
+  ["Douglas","Isle of Man",54.1500,-4.4833,31,"Europe/Isle_of_Man",26218],
+  ["Jerusalem","Israel",31.7690,35.2163,786,"Asia/Jerusalem",801000],
+  ["West Jerusalem","Israel",31.7820,35.2196,796,"Asia/Jerusalem",400000],
+  ["Haifa","Israel",32.8184,34.9885,40,"Asia/Jerusalem",267300],
+  ["Tel Aviv","Israel",32.0809,34.7806,15,"Asia/Jerusalem",250000],
+  ["Ashdod","Israel",31.7921,34.6497,27,"Asia/Jerusalem",224656],
+  ["Rishon LeZiyyon","Israel",31.9710,34.7894,56,"Asia/Jerusalem",220492],
+  ["Petah Tikva","Israel",32.0917,34.8850,48,"Asia/Jerusalem",188900],
+  ["Beersheba","Israel",31.2518,34.7913,285,"Asia/Jerusalem",186600],
+  ["Netanya","Israel",32.3329,34.8599,38,"Asia/Jerusalem",171676],
+  ["Holon","Israel",32.0103,34.7792,31,"Asia/Jerusalem",165787],
+  ["Bene Beraq","Israel",32.0807,34.8338,67,"Asia/Jerusalem",154400],
+  ["Bat Yam","Israel",32.0238,34.7518,33,"Asia/Jerusalem",128979],
+  ["Ramat Gan","Israel",32.0823,34.8107,59,"Asia/Jerusalem",128095],
+  ["Ashqelon","Israel",31.6693,34.5715,42,"Asia/Jerusalem",105995],
+  ["Yafo","Israel",32.0504,34.7522,26,"Asia/Jerusalem",100000],
+  ["Rome","Italy",41.8947,12.4839,29,"Europe/Rome",2563241],
+  ["Milano","Italy",45.4643,9.1895,120,"Europe/Rome",1306661],
+  ["Napoli","Italy",40.8333,14.2500,28,"Europe/Rome",959574],
+  ["Turin","Italy",45.0705,7.6868,240,"Europe/Rome",865263],
+  ["Palermo","Italy",38.1158,13.3598,20,"Europe/Rome",672175],
+  ["Genova","Italy",44.4063,8.9339,39,"Europe/Rome",601951],
+  ["Firenze","Italy",43.7667,11.2500,62,"Europe/Rome",371517],
+  ["Bologna","Italy",44.4938,11.3387,71,"Europe/Rome",371217],
+  ["Bari","Italy",41.1177,16.8512,10,"Europe/Rome",316532],
+  ["Catania","Italy",37.5021,15.0872,17,"Europe/Rome",313110],
+  ["Venezia","Italy",45.4386,12.3267,3,"Europe/Rome",270816],
+  ["Verona","Italy",45.4342,10.9978,57,"Europe/Rome",253208],
+  ["Messina","Italy",38.1933,15.5497,66,"Europe/Rome",252026],
+  ["Trieste","Italy",45.6486,13.7800,27,"Europe/Rome",211184],
+  ["Padova","Italy",45.4152,11.8818,16,"Europe/Rome",204870],
+  ["Taranto","Italy",40.4761,17.2297,17,"Europe/Rome",202033],
+  ["Brescia","Italy",45.5248,10.2273,132,"Europe/Rome",187567],
+  ["Reggio Calabria","Italy",38.1105,15.6613,110,"Europe/Rome",180353],
+  ["Mestre","Italy",45.4903,12.2425,5,"Europe/Rome",176000],
+  ["Modena","Italy",44.6478,10.9254,46,"Europe/Rome",175502],
+  ["Prato","Italy",43.8843,11.0909,65,"Europe/Rome",172499],
+  ["Cagliari","Italy",39.2074,9.1346,22,"Europe/Rome",164249],
+  ["Parma","Italy",44.8027,10.3290,67,"Europe/Rome",163457],
+  ["Livorno","Italy",43.5426,10.3160,12,"Europe/Rome",156274],
+  ["Foggia","Italy",41.4609,15.5493,74,"Europe/Rome",155203],
+  ["Perugia","Italy",43.1122,12.3888,482,"Europe/Rome",149125],
+  ["Reggio nell'Emilia","Italy",44.6983,10.6312,69,"Europe/Rome",141877],
+  ["Salerno","Italy",40.6780,14.7660,25,"Europe/Rome",138188],
+  ["Ravenna","Italy",44.4175,12.2011,8,"Europe/Rome",134631],
+  ["Ferrara","Italy",44.8268,11.6207,8,"Europe/Rome",130992],
+  ["Rimini","Italy",44.0633,12.5808,2,"Europe/Rome",128656],
+  ["Siracusa","Italy",37.0851,15.2730,65,"Europe/Rome",123657],
+  ["Sassari","Italy",40.7272,8.5603,211,"Europe/Rome",120729],
+  ["Monza","Italy",45.5825,9.2749,162,"Europe/Rome",120204],
+  ["Pescara","Italy",42.4602,14.2102,4,"Europe/Rome",116286],
+  ["Ancona","Italy",43.5982,13.5101,29,"Europe/Rome",115200],
+  ["Bergamo","Italy",45.6980,9.6690,262,"Europe/Rome",113143],
+  ["Forli","Italy",44.2236,12.0528,29,"Europe/Rome",108335],
+  ["Latina","Italy",41.4661,12.9043,27,"Europe/Rome",107898],
+  ["Vicenza","Italy",45.5573,11.5409,37,"Europe/Rome",107223],
+  ["Terni","Italy",42.5671,12.6499,131,"Europe/Rome",105018],
+  ["Trento","Italy",46.0679,11.1211,195,"Europe/Rome",104946],
+  ["Novara","Italy",45.4406,8.6168,161,"Europe/Rome",100910],
+  ["Abidjan","Ivory Coast",5.3097,-4.0127,10,"Africa/Abidjan",3677115],
+  ["Abobo","Ivory Coast",5.4161,-4.0159,105,"Africa/Abidjan",900000],
+  ["Bouake","Ivory Coast",7.6939,-5.0303,339,"Africa/Abidjan",567481],
+  ["Daloa","Ivory Coast",6.8774,-6.4502,262,"Africa/Abidjan",215652],
+  ["San-Pedro","Ivory Coast",4.7485,-6.6363,9,"Africa/Abidjan",196751],
+  ["Yamoussoukro","Ivory Coast",6.8205,-5.2767,214,"Africa/Abidjan",194530],
+  ["Korhogo","Ivory Coast",9.4580,-5.6296,360,"Africa/Abidjan",167359],
+  ["Man","Ivory Coast",7.4125,-7.5538,329,"Africa/Abidjan",139341],
+  ["Divo","Ivory Coast",5.8374,-5.3572,147,"Africa/Abidjan",127867],
+  ["Gagnoa","Ivory Coast",6.1319,-5.9506,202,"Africa/Abidjan",123184],
+  ["Abengourou","Ivory Coast",6.7297,-3.4964,197,"Africa/Abidjan",104020],
+  ["Anyama","Ivory Coast",5.4946,-4.0518,95,"Africa/Abidjan",100653],
+  ["Kingston","Jamaica",17.9970,-76.7936,65,"America/Jamaica",937700],
+  ["New Kingston","Jamaica",18.0075,-76.7832,99,"America/Jamaica",583958],
+  ["Spanish Town","Jamaica",17.9911,-76.9574,31,"America/Jamaica",145018],
+  ["Portmore","Jamaica",17.9702,-76.8672,5,"America/Jamaica",102861],
+  ["Tokyo","Japan",35.6895,139.6917,44,"Asia/Tokyo",8336599],
+  ["Yokohama-shi","Japan",35.4478,139.6425,10,"Asia/Tokyo",3574443],
+  ["Osaka-shi","Japan",34.6937,135.5022,24,"Asia/Tokyo",2592413],
+  ["Nagoya-shi","Japan",35.1815,136.9064,23,"Asia/Tokyo",2191279],
+  ["Sapporo","Japan",43.0642,141.3469,29,"Asia/Tokyo",1883027],
+  ["Kobe-shi","Japan",34.6913,135.1830,35,"Asia/Tokyo",1528478],
+  ["Kyoto","Japan",35.0211,135.7538,50,"Asia/Tokyo",1459640],
+  ["Fukuoka-shi","Japan",33.6064,130.4181,7,"Asia/Tokyo",1392289],
+  ["Kawasaki","Japan",35.5206,139.7172,1,"Asia/Tokyo",1306785],
+  ["Saitama","Japan",35.9081,139.6566,16,"Asia/Tokyo",1193350],
+  ["Hiroshima-shi","Japan",34.3963,132.4594,12,"Asia/Tokyo",1143841],
+  ["Yono","Japan",35.8833,139.6333,14,"Asia/Tokyo",1077730],
+  ["Sendai","Japan",38.2576,140.8667,46,"Asia/Tokyo",1063103],
+  ["Sendai-shi","Japan",38.2689,140.8719,59,"Asia/Tokyo",1037562],
+  ["Kitakyushu","Japan",33.8333,130.8333,165,"Asia/Tokyo",997536],
+  ["Chiba","Japan",35.6047,140.1233,11,"Asia/Tokyo",919729],
+  ["Sakai","Japan",34.5833,135.4667,7,"Asia/Tokyo",782339],
+  ["Nerima-ku","Japan",35.7333,139.6500,42,"Asia/Tokyo",713995],
+  ["Shizuoka-shi","Japan",34.9769,138.3831,46,"Asia/Tokyo",701561],
+  ["Kumamoto-shi","Japan",32.7897,130.7417,34,"Asia/Tokyo",680423],
+  ["Ota-ku","Japan",35.5613,139.7160,24,"Asia/Tokyo",676458],
+  ["Edogawa-ku","Japan",35.7000,139.8833,2,"Asia/Tokyo",671937],
+  ["Sagamihara","Japan",35.5531,139.3544,98,"Asia/Tokyo",648801],
+  ["Adachi-ku","Japan",35.7788,139.7951,3,"Asia/Tokyo",645365],
+  ["Okayama-shi","Japan",34.6617,133.9350,16,"Asia/Tokyo",639652],
+  ["Hamamatsu","Japan",34.7000,137.7333,3,"Asia/Tokyo",605098],
+  ["Hachioji","Japan",35.6558,139.3239,127,"Asia/Tokyo",579399],
+  ["Funabashi","Japan",35.6931,139.9833,5,"Asia/Tokyo",560743],
+  ["Kagoshima-shi","Japan",31.5602,130.5581,40,"Asia/Tokyo",555352],
+  ["Suginami-ku","Japan",35.6996,139.6364,50,"Asia/Tokyo",549569],
+  ["Itabashi-ku","Japan",35.7512,139.7093,42,"Asia/Tokyo",531793],
+  ["Niigata-shi","Japan",37.9022,139.0236,8,"Asia/Tokyo",505272],
+  ["Himeji","Japan",34.8167,134.7000,8,"Asia/Tokyo",481493],
+  ["Matsudo","Japan",35.7833,139.9000,15,"Asia/Tokyo",470277],
+  ["Nishinomiya","Japan",34.7167,135.3333,5,"Asia/Tokyo",468925],
+  ["Kawaguchi","Japan",35.8052,139.7107,6,"Asia/Tokyo",468565],
+  ["Kanazawa-shi","Japan",36.5944,136.6256,5,"Asia/Tokyo",458937],
+  ["Ichikawa","Japan",35.7197,139.9247,6,"Asia/Tokyo",458240],
+  ["Utsunomiya-shi","Japan",36.5658,139.8836,136,"Asia/Tokyo",449865],
+  ["Oita-shi","Japan",33.2381,131.6125,13,"Asia/Tokyo",448907],
+  ["Katsushika-ku","Japan",35.7333,139.8500,5,"Asia/Tokyo",448243],
+  ["Matsuyama-shi","Japan",33.8392,132.7657,28,"Asia/Tokyo",443322],
+  ["Koto-ku","Japan",35.6667,139.8167,11,"Asia/Tokyo",442271],
+  ["Amagasaki","Japan",34.7167,135.4167,1,"Asia/Tokyo",442173],
+  ["Kurashiki","Japan",34.5833,133.7667,4,"Asia/Tokyo",437581],
+  ["Yokosuka","Japan",35.2836,139.6672,9,"Asia/Tokyo",428992],
+  ["Nagasaki-shi","Japan",32.7447,129.8736,13,"Asia/Tokyo",410204],
+  ["Hirakata","Japan",34.8135,135.6491,17,"Asia/Tokyo",406331],
+  ["Machida","Japan",35.5403,139.4508,103,"Asia/Tokyo",399969],
+  ["Gifu-shi","Japan",35.4229,136.7604,14,"Asia/Tokyo",397714],
+  ["Fujisawa","Japan",35.3419,139.4700,11,"Asia/Tokyo",394624],
+  ["Toyonaka","Japan",34.7824,135.4693,31,"Asia/Tokyo",384459],
+  ["Fukuyama","Japan",34.4833,133.3667,7,"Asia/Tokyo",383298],
+  ["Toyohashi","Japan",34.7667,137.3833,12,"Asia/Tokyo",378374],
+  ["Shimminatocho","Japan",34.1833,135.2000,73,"Asia/Tokyo",375339],
+  ["Nara-shi","Japan",34.6850,135.8048,68,"Asia/Tokyo",367353],
+  ["Toyota","Japan",35.0833,137.1500,55,"Asia/Tokyo",362383],
+  ["Nagano-shi","Japan",36.6514,138.1811,374,"Asia/Tokyo",360176],
+  ["Shinagawa-ku","Japan",35.6090,139.7302,23,"Asia/Tokyo",360000],
+  ["Iwaki","Japan",37.0500,140.8833,9,"Asia/Tokyo",357309],
+  ["Asahikawa","Japan",43.7678,142.3703,116,"Asia/Tokyo",356612],
+  ["Takatsuki","Japan",34.8483,135.6168,14,"Asia/Tokyo",354468],
+  ["Okazaki","Japan",34.9500,137.1667,34,"Asia/Tokyo",352361],
+  ["Suita","Japan",34.7614,135.5157,4,"Asia/Tokyo",351630],
+  ["Wakayama-shi","Japan",34.2261,135.1675,18,"Asia/Tokyo",351000],
+  ["Koriyama","Japan",37.4000,140.3833,236,"Asia/Tokyo",340560],
+  ["Kashiwa","Japan",35.8544,139.9689,23,"Asia/Tokyo",340221],
+  ["Tokorozawa","Japan",35.7992,139.4690,82,"Asia/Tokyo",339435],
+  ["Kawagoe","Japan",35.9086,139.4853,26,"Asia/Tokyo",337931],
+  ["Kochi-shi","Japan",33.5597,133.5311,14,"Asia/Tokyo",335570],
+  ["Takamatsu-shi","Japan",34.3403,134.0433,21,"Asia/Tokyo",334223],
+  ["Kita-ku","Japan",35.7526,139.7335,21,"Asia/Tokyo",332140],
+  ["Shinjuku","Japan",35.6938,139.7036,42,"Asia/Tokyo",326309],
+  ["Akita Shi","Japan",39.7181,140.1033,8,"Asia/Tokyo",325837],
+  ["Toyama-shi","Japan",36.6953,137.2114,13,"Asia/Tokyo",325532],
+  ["Akita","Japan",39.7167,140.1167,14,"Asia/Tokyo",320069],
+  ["Koshigaya","Japan",35.8833,139.7833,5,"Asia/Tokyo",317437],
+  ["Nakano-ku","Japan",35.7074,139.6638,49,"Asia/Tokyo",311690],
+  ["Miyazaki-shi","Japan",31.9111,131.4239,16,"Asia/Tokyo",311203],
+  ["Naha-shi","Japan",26.2125,127.6811,19,"Asia/Tokyo",300795],
+  ["Kasugai","Japan",35.2476,136.9723,30,"Asia/Tokyo",298589],
+  ["Aomori Shi","Japan",40.8244,140.7400,17,"Asia/Tokyo",298394],
+  ["Otsu-shi","Japan",35.0044,135.8683,102,"Asia/Tokyo",298164],
+  ["Akashi","Japan",34.6333,134.9833,0,"Asia/Tokyo",297279],
+  ["Yokkaichi","Japan",34.9667,136.6167,8,"Asia/Tokyo",295841],
+  ["Morioka-shi","Japan",39.7036,141.1525,141,"Asia/Tokyo",295172],
+  ["Fukushima-shi","Japan",37.7500,140.4678,74,"Asia/Tokyo",294237],
+  ["Toshima-ku","Japan",35.7325,139.7154,45,"Asia/Tokyo",284678],
+  ["Ichihara","Japan",35.5167,140.0833,1,"Asia/Tokyo",283531],
+  ["Maebashi-shi","Japan",36.3911,139.0608,123,"Asia/Tokyo",282711],
+  ["Ichinomiya","Japan",35.3000,136.8000,11,"Asia/Tokyo",280331],
+  ["Hakodate","Japan",41.7758,140.7367,5,"Asia/Tokyo",275730],
+  ["Ibaraki","Japan",34.8164,135.5683,18,"Asia/Tokyo",273992],
+  ["Yao","Japan",34.6167,135.6000,13,"Asia/Tokyo",273213],
+  ["Kakogawa","Japan",34.7667,134.8500,7,"Asia/Tokyo",271634],
+  ["Tokushima-shi","Japan",34.0658,134.5594,11,"Asia/Tokyo",267345],
+  ["Meguro-ku","Japan",35.6415,139.6982,26,"Asia/Tokyo",259968],
+  ["Hiratsuka","Japan",35.3231,139.3422,6,"Asia/Tokyo",259052],
+  ["Yamagata-shi","Japan",38.2406,140.3633,200,"Asia/Tokyo",254538],
+  ["Fukui-shi","Japan",36.0644,136.2226,15,"Asia/Tokyo",248707],
+  ["Sumida-ku","Japan",35.7107,139.8015,12,"Asia/Tokyo",247606],
+  ["Mito-shi","Japan",36.3414,140.4467,37,"Asia/Tokyo",246538],
+  ["Shimonoseki","Japan",33.9500,130.9500,0,"Asia/Tokyo",245786],
+  ["Takasaki","Japan",36.3333,139.0167,93,"Asia/Tokyo",240857],
+  ["Fuchu","Japan",35.6667,139.4833,50,"Asia/Tokyo",240081],
+  ["Fuji","Japan",35.1667,138.6833,9,"Asia/Tokyo",240014],
+  ["Hachinohe","Japan",40.5000,141.5000,20,"Asia/Tokyo",239046],
+  ["Neyagawa","Japan",34.7662,135.6276,4,"Asia/Tokyo",238549],
+  ["Kurume","Japan",33.3167,130.5167,10,"Asia/Tokyo",238197],
+  ["Sasebo","Japan",33.1592,129.7228,1,"Asia/Tokyo",237444],
+  ["Chigasaki","Japan",35.3261,139.4039,8,"Asia/Tokyo",231657],
+  ["Soka","Japan",35.8203,139.8044,4,"Asia/Tokyo",231445],
+  ["Atsugi","Japan",35.4389,139.3597,28,"Asia/Tokyo",229199],
+  ["Minami-rinkan","Japan",35.4833,139.4500,72,"Asia/Tokyo",224015],
+  ["Takarazuka","Japan",34.7994,135.3570,29,"Asia/Tokyo",219789],
+  ["Ageoshimo","Japan",35.9714,139.6138,11,"Asia/Tokyo",219401],
+  ["Minato-ku","Japan",35.6581,139.7516,29,"Asia/Tokyo",217335],
+  ["Chofugaoka","Japan",35.6592,139.5484,39,"Asia/Tokyo",212977],
+  ["Matsumoto","Japan",36.2333,137.9667,593,"Asia/Tokyo",210667],
+  ["Shibuya-ku","Japan",35.6640,139.6982,1,"Asia/Tokyo",208371],
+  ["Kasukabe","Japan",35.9812,139.7442,9,"Asia/Tokyo",206915],
+  ["Kishiwada","Japan",34.4667,135.3667,8,"Asia/Tokyo",205561],
+  ["Arakawa-ku","Japan",35.7333,139.7833,9,"Asia/Tokyo",205263],
+  ["Numazu","Japan",35.1000,138.8667,8,"Asia/Tokyo",204318],
+  ["Joetsu","Japan",37.1483,138.2364,10,"Asia/Tokyo",204137],
+  ["Odawara","Japan",35.2556,139.1597,15,"Asia/Tokyo",203035],
+  ["Kure","Japan",34.2322,132.5666,100,"Asia/Tokyo",196624],
+  ["Nagaoka","Japan",37.4500,138.8500,23,"Asia/Tokyo",195318],
+  ["Nishi-Tokyo-shi","Japan",35.7253,139.5383,58,"Asia/Tokyo",195164],
+  ["Itami","Japan",34.7843,135.4013,22,"Asia/Tokyo",193524],
+  ["Bunkyo-ku","Japan",35.7174,139.7473,21,"Asia/Tokyo",193091],
+  ["Uji","Japan",34.8833,135.8000,50,"Asia/Tokyo",192925],
+  ["Suzuka","Japan",34.8833,136.5833,10,"Asia/Tokyo",191477],
+  ["Kofu-shi","Japan",35.6639,138.5683,282,"Asia/Tokyo",190000],
+  ["Izumi","Japan",34.4833,135.4333,24,"Asia/Tokyo",189085],
+  ["Kodaira","Japan",35.7264,139.4839,77,"Asia/Tokyo",187368],
+  ["Hitachi","Japan",36.6000,140.6500,51,"Asia/Tokyo",186307],
+  ["Kushiro","Japan",42.9750,144.3747,6,"Asia/Tokyo",183612],
+  ["Mitaka-shi","Japan",35.6835,139.5596,61,"Asia/Tokyo",182901],
+  ["Sakura","Japan",35.7167,140.2333,15,"Asia/Tokyo",182549],
+  ["Kamirenjaku","Japan",35.7003,139.5566,60,"Asia/Tokyo",178739],
+  ["Anjo","Japan",34.9583,137.0805,20,"Asia/Tokyo",178402],
+  ["Taito-ku","Japan",35.7126,139.7800,14,"Asia/Tokyo",175928],
+  ["Tsukuba","Japan",36.2000,140.1000,33,"Asia/Tokyo",175589],
+  ["Hirosaki","Japan",40.5931,140.4725,45,"Asia/Tokyo",174972],
+  ["Tomakomai","Japan",42.6369,141.6033,7,"Asia/Tokyo",174806],
+  ["Hadano","Japan",35.3711,139.2236,103,"Asia/Tokyo",174281],
+  ["Obihiro","Japan",42.9172,143.2044,44,"Asia/Tokyo",173890],
+  ["Ube","Japan",33.9431,131.2511,6,"Asia/Tokyo",173733],
+  ["Tachikawa","Japan",35.6928,139.4181,83,"Asia/Tokyo",173695],
+  ["Hino","Japan",35.6731,139.4003,85,"Asia/Tokyo",171777],
+  ["Takaoka","Japan",36.7500,137.0167,8,"Asia/Tokyo",170077],
+  ["Kamakura","Japan",35.3089,139.5503,7,"Asia/Tokyo",166016],
+  ["Saga-shi","Japan",33.2493,130.2988,7,"Asia/Tokyo",165236],
+  ["Tsu-shi","Japan",34.7303,136.5086,32,"Asia/Tokyo",163461],
+  ["Sayama","Japan",35.8529,139.4121,81,"Asia/Tokyo",160843],
+  ["Kawanishi","Japan",34.8167,135.4167,21,"Asia/Tokyo",160520],
+  ["Oyama","Japan",36.3000,139.8000,41,"Asia/Tokyo",159936],
+  ["Ashikaga","Japan",36.3333,139.4500,45,"Asia/Tokyo",159671],
+  ["Hitachi-Naka","Japan",36.3966,140.5348,31,"Asia/Tokyo",156811],
+  ["Matsue-shi","Japan",35.4722,133.0506,6,"Asia/Tokyo",156811],
+  ["Narashino","Japan",35.6833,140.0333,17,"Asia/Tokyo",156082],
+  ["Nagareyama","Japan",35.8563,139.9027,15,"Asia/Tokyo",156000],
+  ["Katsuta","Japan",36.3833,140.5333,21,"Asia/Tokyo",155968],
+  ["Kumagaya","Japan",36.1333,139.3833,30,"Asia/Tokyo",155813],
+  ["Tottori","Japan",35.5000,134.2333,6,"Asia/Tokyo",154098],
+  ["Ota","Japan",36.3000,139.3667,50,"Asia/Tokyo",152104],
+  ["Komaki","Japan",35.2833,136.9167,17,"Asia/Tokyo",151025],
+  ["Ogaki","Japan",35.3500,136.6167,7,"Asia/Tokyo",150570],
+  ["Higashimurayama-shi","Japan",35.7546,139.4685,82,"Asia/Tokyo",150556],
+  ["Ome","Japan",35.7839,139.2431,189,"Asia/Tokyo",149323],
+  ["Moriguchi","Japan",34.7333,135.5667,3,"Asia/Tokyo",148350],
+  ["Yamaguchi-shi","Japan",34.1858,131.4714,62,"Asia/Tokyo",145515],
+  ["Otaru","Japan",43.1894,141.0022,30,"Asia/Tokyo",143792],
+  ["Urayasu","Japan",35.6706,139.8886,6,"Asia/Tokyo",143758],
+  ["Yonago","Japan",35.4333,133.3333,9,"Asia/Tokyo",141368],
+  ["Kariya","Japan",34.9833,136.9833,2,"Asia/Tokyo",139159],
+  ["Musashino","Japan",35.7061,139.5594,62,"Asia/Tokyo",137479],
+  ["Zama","Japan",35.4889,139.3886,31,"Asia/Tokyo",134671],
+  ["Seto","Japan",35.2333,137.1000,111,"Asia/Tokyo",134246],
+  ["Ebetsu","Japan",43.1081,141.5506,12,"Asia/Tokyo",133953],
+  ["Tondabayashi","Japan",34.5000,135.6000,63,"Asia/Tokyo",132873],
+  ["Fujieda","Japan",34.8667,138.2667,22,"Asia/Tokyo",132859],
+  ["Sanda","Japan",34.8833,135.2333,143,"Asia/Tokyo",132858],
+  ["Kakamigahara","Japan",35.4167,136.8667,40,"Asia/Tokyo",132241],
+  ["Omuta","Japan",33.0333,130.4500,15,"Asia/Tokyo",131974],
+  ["Abiko","Japan",35.8667,140.0167,10,"Asia/Tokyo",131771],
+  ["Kadoma","Japan",34.7333,135.5833,4,"Asia/Tokyo",131727],
+  ["Miyakonojo","Japan",31.7333,131.0667,148,"Asia/Tokyo",130994],
+  ["Matsubara","Japan",34.5667,135.5500,24,"Asia/Tokyo",130855],
+  ["Isesaki","Japan",36.3167,139.2000,62,"Asia/Tokyo",130692],
+  ["Daito","Japan",34.7000,135.6167,-1,"Asia/Tokyo",129521],
+  ["Mino","Japan",34.8269,135.4706,76,"Asia/Tokyo",129127],
+  ["Asaka","Japan",35.8047,139.6019,25,"Asia/Tokyo",128058],
+  ["Kusatsu","Japan",35.0167,135.9667,102,"Asia/Tokyo",127680],
+  ["Ueda","Japan",36.4000,138.2667,499,"Asia/Tokyo",126606],
+  ["Okinawa","Japan",26.3358,127.8014,112,"Asia/Tokyo",125483],
+  ["Beppu","Japan",33.2794,131.4975,22,"Asia/Tokyo",125065],
+  ["Matsuzaka","Japan",34.5667,136.5333,10,"Asia/Tokyo",124613],
+  ["Kashihara-shi","Japan",34.5090,135.7929,65,"Asia/Tokyo",124521],
+  ["Niihama","Japan",33.9605,133.3052,27,"Asia/Tokyo",123059],
+  ["Kisarazu","Japan",35.3747,139.9225,3,"Asia/Tokyo",122524],
+  ["Chuo-ku","Japan",35.6833,139.7833,10,"Asia/Tokyo",122118],
+  ["Nobeoka","Japan",32.5833,131.6667,4,"Asia/Tokyo",121949],
+  ["Fujinomiya","Japan",35.2167,138.6167,116,"Asia/Tokyo",121515],
+  ["Noda","Japan",35.9411,139.8581,16,"Asia/Tokyo",121411],
+  ["Yaizu","Japan",34.8667,138.3333,1,"Asia/Tokyo",121057],
+  ["Toyokawa","Japan",34.8167,137.4000,4,"Asia/Tokyo",120537],
+  ["Shimotoda","Japan",35.8125,139.6856,7,"Asia/Tokyo",118731],
+  ["Kokubunji","Japan",35.7022,139.4756,78,"Asia/Tokyo",118682],
+  ["Ikoma","Japan",34.6833,135.7000,146,"Asia/Tokyo",117601],
+  ["Ishinomaki","Japan",38.4167,141.3000,2,"Asia/Tokyo",117233],
+  ["Hofu","Japan",34.0500,131.5667,4,"Asia/Tokyo",116925],
+  ["Handa","Japan",34.8833,136.9333,1,"Asia/Tokyo",116119],
+  ["Koganei","Japan",35.6914,139.5011,57,"Asia/Tokyo",115967],
+  ["Mishima","Japan",35.1167,138.9167,24,"Asia/Tokyo",113479],
+  ["Kitami","Japan",43.8031,143.8908,79,"Asia/Tokyo",113137],
+  ["Kuwana","Japan",35.0667,136.7000,0,"Asia/Tokyo",113107],
+  ["Hikone","Japan",35.2500,136.2500,95,"Asia/Tokyo",110925],
+  ["Kiryu","Japan",36.4000,139.3333,108,"Asia/Tokyo",110219],
+  ["Komatsu","Japan",36.4026,136.4509,7,"Asia/Tokyo",109045],
+  ["Iwatsuki","Japan",35.9522,139.6850,10,"Asia/Tokyo",108833],
+  ["Tajimi","Japan",35.3167,137.1333,138,"Asia/Tokyo",107818],
+  ["Iida","Japan",35.5196,137.8207,517,"Asia/Tokyo",107111],
+  ["Fukaya","Japan",36.2000,139.2833,35,"Asia/Tokyo",106595],
+  ["Kamagaya-shi","Japan",35.7767,140.0008,36,"Asia/Tokyo",106358],
+  ["Yatsushiro","Japan",32.5000,130.6000,5,"Asia/Tokyo",104341],
+  ["Iwakuni","Japan",34.1500,132.1833,51,"Asia/Tokyo",104004],
+  ["Isehara","Japan",35.3906,139.3078,49,"Asia/Tokyo",103401],
+  ["Nishio","Japan",34.8667,137.0500,9,"Asia/Tokyo",103337],
+  ["Inazawa","Japan",35.2500,136.7833,4,"Asia/Tokyo",102130],
+  ["Tokuyama","Japan",34.0500,131.8167,35,"Asia/Tokyo",101133],
+  ["Narita","Japan",35.7833,140.3167,27,"Asia/Tokyo",100641],
+  ["Sakata","Japan",38.9167,139.8550,0,"Asia/Tokyo",100446],
+  ["Konan","Japan",35.3317,136.8704,19,"Asia/Tokyo",100389],
+  ["Chikushino-shi","Japan",33.4963,130.5156,37,"Asia/Tokyo",100353],
+  ["Saint Helier","Jersey",49.1880,-2.1049,11,"Europe/Jersey",28000],
+  ["Amman","Jordan",31.9552,35.9450,757,"Asia/Amman",1275857],
+  ["Zarqa","Jordan",32.0727,36.0880,625,"Asia/Amman",792665],
+  ["Irbid","Jordan",32.5556,35.8500,570,"Asia/Amman",307480],
+  ["Russeifa","Jordan",32.0178,36.0464,614,"Asia/Amman",268237],
+  ["Wadi as Sir","Jordan",31.9513,35.8198,796,"Asia/Amman",181212],
+  ["'Ajlun","Jordan",32.3338,35.7524,784,"Asia/Amman",125557],
+  ["Almaty","Kazakhstan",43.2565,76.9285,787,"Asia/Almaty",2000900],
+  ["Karagandy","Kazakhstan",49.8333,73.1658,575,"Asia/Almaty",451800],
+  ["Shymkent","Kazakhstan",42.3000,69.6000,513,"Asia/Almaty",414032],
+  ["Taraz","Kazakhstan",42.9000,71.3667,623,"Asia/Almaty",358153],
+  ["Astana","Kazakhstan",51.1801,71.4460,358,"Asia/Almaty",345604],
+  ["Pavlodar","Kazakhstan",52.2740,77.0044,137,"Asia/Almaty",329002],
+  ["Oskemen","Kazakhstan",49.9714,82.6059,287,"Asia/Almaty",319067],
+  ["Kyzylorda","Kazakhstan",44.8528,65.5092,128,"Asia/Qyzylorda",300000],
+  ["Semey","Kazakhstan",50.4267,80.2667,211,"Asia/Almaty",292780],
+  ["Aqtobe","Kazakhstan",50.2797,57.2072,210,"Asia/Aqtobe",262457],
+  ["Kostanay","Kazakhstan",53.2144,63.6246,167,"Asia/Qyzylorda",210000],
+  ["Petropavlovsk","Kazakhstan",54.8728,69.1430,143,"Asia/Almaty",200920],
+  ["Oral","Kazakhstan",51.2333,51.3667,35,"Asia/Oral",200000],
+  ["Taldyqorghan","Kazakhstan",45.0000,77.9167,458,"Asia/Almaty",200000],
+  ["Atyrau","Kazakhstan",47.1167,51.8833,-25,"Asia/Oral",180000],
+  ["Temirtau","Kazakhstan",50.0549,72.9646,513,"Asia/Almaty",170600],
+  ["Aktau","Kazakhstan",43.6481,51.1722,-9,"Asia/Aqtau",147443],
+  ["Kokshetau","Kazakhstan",53.2824,69.3969,234,"Asia/Almaty",124444],
+  ["Rudnyy","Kazakhstan",52.9729,63.1168,167,"Asia/Qyzylorda",124000],
+  ["Ekibastuz","Kazakhstan",51.7237,75.3229,347,"Asia/Almaty",121470],
+  ["Taldyqorghan","Kazakhstan",45.0156,78.3739,596,"Asia/Almaty",116558],
+  ["Zhezqazghan","Kazakhstan",47.7833,67.7667,330,"Asia/Almaty",104357],
+  ["Nairobi","Kenya",-1.2833,36.8167,1684,"Africa/Nairobi",2750547],
+  ["Mombasa","Kenya",-4.0547,39.6636,20,"Africa/Nairobi",799668],
+  ["Tharaka","Kenya",-0.3086,38.0269,577,"Africa/Nairobi",365330],
+  ["Nakuru","Kenya",-0.2833,36.0667,1848,"Africa/Nairobi",259903],
+  ["Eldoret","Kenya",0.5204,35.2699,2095,"Africa/Nairobi",218446],
+  ["Kisumu","Kenya",-0.1022,34.7617,1174,"Africa/Nairobi",216479],
+  ["Thika","Kenya",-1.0333,37.0693,1506,"Africa/Nairobi",200000],
+  ["Malindi","Kenya",-3.2180,40.1169,7,"Africa/Nairobi",118265],
+  ["Tarawa","Kiribati",1.3278,172.9770,6,"Pacific/Tarawa",40311],
+  ["Pristina","Kosovo",42.6727,21.1669,597,"Europe/Belgrade",550000],
+  ["Prizren","Kosovo",42.2139,20.7397,413,"Europe/Belgrade",171464],
+  ["Mitrovice","Kosovo",42.8833,20.8667,509,"Europe/Belgrade",107045],
+  ["Al Ahmadi","Kuwait",29.0769,48.0839,70,"Asia/Kuwait",637411],
+  ["Hawalli","Kuwait",29.3328,48.0286,19,"Asia/Kuwait",164212],
+  ["As Salimiyah","Kuwait",29.3339,48.0761,11,"Asia/Kuwait",147649],
+  ["Sabah as Salim","Kuwait",29.2572,48.0572,32,"Asia/Kuwait",139163],
+  ["Bishkek","Kyrgyzstan",42.8700,74.5900,767,"Asia/Bishkek",900000],
+  ["Osh","Kyrgyzstan",40.5151,72.8083,1002,"Asia/Bishkek",200000],
+  ["Jalal-Abad","Kyrgyzstan",40.9333,73.0000,772,"Asia/Bishkek",75700],
+  ["Vientiane","Laos",17.9667,102.6000,174,"Asia/Vientiane",196731],
+  ["Pakxe","Laos",15.1202,105.7990,105,"Asia/Vientiane",88332],
+  ["Savannakhet","Laos",16.5650,104.7527,142,"Asia/Vientiane",66553],
+  ["Riga","Latvia",56.9460,24.1059,6,"Europe/Riga",742572],
+  ["Daugavpils","Latvia",55.8833,26.5333,103,"Europe/Riga",111564],
+  ["Vec-Liepaja","Latvia",56.5333,21.0167,6,"Europe/Riga",85260],
+  ["Beirut","Lebanon",33.8889,35.4944,102,"Asia/Beirut",1916100],
+  ["Ra's Bayrut","Lebanon",33.9000,35.4833,35,"Asia/Beirut",1251739],
+  ["Tripoli","Lebanon",34.4367,35.8497,77,"Asia/Beirut",229398],
+  ["Sidon","Lebanon",33.5599,35.3756,22,"Asia/Beirut",163554],
+  ["Tyre","Lebanon",33.2733,35.1939,7,"Asia/Beirut",135204],
+  ["Nabatiye et Tahta","Lebanon",33.3789,35.4839,428,"Asia/Beirut",120000],
+  ["Maseru","Lesotho",-29.3167,27.4833,1552,"Africa/Maseru",118355],
+  ["Mafeteng","Lesotho",-29.8230,27.2374,1669,"Africa/Maseru",57059],
+  ["Leribe","Lesotho",-28.8718,28.0450,1645,"Africa/Maseru",47675],
+  ["Monrovia","Liberia",6.3005,-10.7969,32,"Africa/Monrovia",939524],
+  ["Gbarnga","Liberia",6.9956,-9.4722,254,"Africa/Monrovia",45835],
+  ["Kakata","Liberia",6.5300,-10.3517,97,"Africa/Monrovia",33945],
+  ["Tripoli","Libya",32.8752,13.1875,21,"Africa/Tripoli",1150989],
+  ["Benghazi","Libya",32.1177,20.1293,29,"Africa/Tripoli",650629],
+  ["Misratah","Libya",32.3753,15.0925,11,"Africa/Tripoli",386120],
+  ["Tarhuna","Libya",32.4350,13.6332,391,"Africa/Tripoli",210697],
+  ["Al Khums","Libya",32.6486,14.2619,27,"Africa/Tripoli",201943],
+  ["Az Zawiyah","Libya",32.7571,12.7276,18,"Africa/Tripoli",200000],
+  ["Zawiya","Libya",32.7522,12.7278,21,"Africa/Tripoli",186123],
+  ["Ajdabiya","Libya",30.7554,20.2263,3,"Africa/Tripoli",134358],
+  ["Sabha","Libya",27.0377,14.4283,421,"Africa/Tripoli",130000],
+  ["Sirte","Libya",31.2089,16.5887,17,"Africa/Tripoli",128123],
+  ["Al Jadid","Libya",27.0500,14.4000,417,"Africa/Tripoli",126386],
+  ["Tobruk","Libya",32.0836,23.9764,20,"Africa/Tripoli",121052],
+  ["Zliten","Libya",32.4674,14.5687,9,"Africa/Tripoli",109972],
+  ["Sabratah","Libya",32.7933,12.4885,17,"Africa/Tripoli",102038],
+  ["Tagiura","Libya",32.8817,13.3506,6,"Africa/Tripoli",100000],
+  ["Vilnius","Lithuania",54.6892,25.2798,98,"Europe/Vilnius",542366],
+  ["Kaunas","Lithuania",54.9000,23.9000,66,"Europe/Vilnius",374643],
+  ["Klaipeda","Lithuania",55.7172,21.1175,3,"Europe/Vilnius",192307],
+  ["Siauliai","Lithuania",55.9333,23.3167,129,"Europe/Vilnius",130587],
+  ["Panevezys","Lithuania",55.7333,24.3500,52,"Europe/Vilnius",117395],
+  ["Luxembourg","Luxembourg",49.6117,6.1300,316,"Europe/Luxembourg",76684],
+  ["Esch-sur-Alzette","Luxembourg",49.4958,5.9806,295,"Europe/Luxembourg",28228],
+  ["Dudelange","Luxembourg",49.4806,6.0875,295,"Europe/Luxembourg",18013],
+  ["Macau","Macau",22.2006,113.5461,22,"Asia/Macau",520400],
+  ["Antananarivo","Madagascar",-18.9137,47.5361,1274,"Indian/Antananarivo",1391433],
+  ["Toamasina","Madagascar",-18.1492,49.4023,12,"Indian/Antananarivo",206373],
+  ["Antsirabe","Madagascar",-19.8659,47.0333,1513,"Indian/Antananarivo",186253],
+  ["Fianarantsoa","Madagascar",-21.4527,47.0857,1117,"Indian/Antananarivo",167227],
+  ["Mahajanga","Madagascar",-15.7167,46.3167,20,"Indian/Antananarivo",154657],
+  ["Toliara","Madagascar",-23.3500,43.6667,11,"Indian/Antananarivo",115319],
+  ["Lilongwe","Malawi",-13.9669,33.7873,1056,"Africa/Blantyre",646750],
+  ["Blantyre","Malawi",-15.7850,35.0085,1041,"Africa/Blantyre",584877],
+  ["Mzuzu","Malawi",-11.4656,34.0207,1275,"Africa/Blantyre",175345],
+  ["Kota Bharu","Malaysia",6.1333,102.2386,10,"Asia/Kuala_Lumpur",1459994],
+  ["Kuala Lumpur","Malaysia",3.1412,101.6865,56,"Asia/Kuala_Lumpur",1453975],
+  ["Klang","Malaysia",3.0333,101.4500,6,"Asia/Kuala_Lumpur",879867],
+  ["Kampung Baru Subang","Malaysia",3.1500,101.5333,27,"Asia/Kuala_Lumpur",833571],
+  ["Johor Bahru","Malaysia",1.4655,103.7578,32,"Asia/Kuala_Lumpur",802489],
+  ["Subang Jaya","Malaysia",3.0438,101.5806,41,"Asia/Kuala_Lumpur",708296],
+  ["Ipoh","Malaysia",4.5841,101.0829,45,"Asia/Kuala_Lumpur",673318],
+  ["Kuching","Malaysia",1.5500,110.3333,8,"Asia/Kuching",570407],
+  ["Petaling Jaya","Malaysia",3.1073,101.6067,45,"Asia/Kuala_Lumpur",520698],
+  ["Shah Alam","Malaysia",3.0851,101.5328,53,"Asia/Kuala_Lumpur",481654],
+  ["Kota Kinabalu","Malaysia",5.9749,116.0724,5,"Asia/Kuching",457326],
+  ["Sandakan","Malaysia",5.8402,118.1179,10,"Asia/Kuching",392288],
+  ["Seremban","Malaysia",2.7297,101.9381,59,"Asia/Kuala_Lumpur",372917],
+  ["Kuantan","Malaysia",3.8077,103.3260,12,"Asia/Kuala_Lumpur",366229],
+  ["Tawau","Malaysia",4.2498,117.8871,0,"Asia/Kuching",306462],
+  ["George Town","Malaysia",5.4112,100.3354,14,"Asia/Kuala_Lumpur",300000],
+  ["Kuala Terengganu","Malaysia",5.3302,103.1408,15,"Asia/Kuala_Lumpur",285065],
+  ["Sungai Petani","Malaysia",5.6470,100.4877,17,"Asia/Kuala_Lumpur",228843],
+  ["Miri","Malaysia",4.4148,114.0089,8,"Asia/Kuching",228212],
+  ["Taiping","Malaysia",4.8500,100.7333,19,"Asia/Kuala_Lumpur",217647],
+  ["Alor Setar","Malaysia",6.1210,100.3601,7,"Asia/Kuala_Lumpur",217368],
+  ["Bukit Mertajam","Malaysia",5.3630,100.4667,27,"Asia/Kuala_Lumpur",212329],
+  ["Sibu","Malaysia",2.3000,111.8167,0,"Asia/Kuching",198239],
+  ["Melaka","Malaysia",2.1960,102.2405,6,"Asia/Kuala_Lumpur",180671],
+  ["Kulim","Malaysia",5.3650,100.5618,54,"Asia/Kuala_Lumpur",170889],
+  ["Kluang","Malaysia",2.0251,103.3328,52,"Asia/Kuala_Lumpur",169828],
+  ["Sekudai","Malaysia",1.5374,103.6578,40,"Asia/Kuala_Lumpur",159733],
+  ["Batu Pahat","Malaysia",1.8548,102.9325,7,"Asia/Kuala_Lumpur",156236],
+  ["Bintulu","Malaysia",3.1667,113.0333,8,"Asia/Kuching",151617],
+  ["Kampung Pasir Gudang Baru","Malaysia",1.4726,103.8780,10,"Asia/Kuala_Lumpur",145639],
+  ["Kampung Sungai Ara","Malaysia",5.3270,100.2735,21,"Asia/Kuala_Lumpur",140849],
+  ["Tasek Glugor","Malaysia",5.4803,100.4985,10,"Asia/Kuala_Lumpur",135786],
+  ["Muar","Malaysia",2.0442,102.5689,6,"Asia/Kuala_Lumpur",127897],
+  ["Rawang","Malaysia",3.3213,101.5767,38,"Asia/Kuala_Lumpur",120447],
+  ["Butterworth","Malaysia",5.3991,100.3638,6,"Asia/Kuala_Lumpur",107591],
+  ["Lahad Datu","Malaysia",5.0268,118.3270,23,"Asia/Kuching",105622],
+  ["Male","Maldives",4.1748,73.5089,8,"Indian/Maldives",103693],
+  ["Bamako","Mali",12.6500,-8.0000,338,"Africa/Bamako",1297281],
+  ["Sikasso","Mali",11.3176,-5.6665,368,"Africa/Bamako",144786],
+  ["Mopti","Mali",14.4843,-4.1830,268,"Africa/Bamako",108456],
+  ["Birkirkara","Malta",35.8972,14.4611,41,"Europe/Malta",21676],
+  ["Qormi","Malta",35.8760,14.4720,41,"Europe/Malta",18230],
+  ["Mosta","Malta",35.9092,14.4256,80,"Europe/Malta",17789],
+  ["Majuro","Marshall Islands",7.0897,171.3803,6,"Pacific/Majuro",25400],
+  ["Ebaye","Marshall Islands",8.7748,167.7392,6,"Pacific/Kwajalein",15000],
+  ["Fort-de-France","Martinique",14.6089,-61.0733,6,"America/Martinique",89995],
+  ["Le Lamentin","Martinique",14.6080,-61.0093,7,"America/Martinique",39229],
+  ["Le Robert","Martinique",14.6775,-60.9423,8,"America/Martinique",23814],
+  ["Nouakchott","Mauritania",18.0858,-15.9785,10,"Africa/Nouakchott",661400],
+  ["Nouadhibou","Mauritania",20.9310,-17.0346,5,"Africa/Nouakchott",72337],
+  ["Nema","Mauritania",16.6162,-7.2535,273,"Africa/Nouakchott",60000],
+  ["Port Louis","Mauritius",-20.1619,57.4989,3,"Indian/Mauritius",155226],
+  ["Vacoas","Mauritius",-20.2981,57.4783,390,"Indian/Mauritius",110000],
+  ["Curepipe","Mauritius",-20.3147,57.5203,554,"Indian/Mauritius",84200],
+  ["Mamoudzou","Mayotte",-12.7794,45.2272,55,"Indian/Mayotte",54831],
+  ["Koungou","Mayotte",-12.7336,45.2042,40,"Indian/Mayotte",18118],
+  ["Dzaoudzi","Mayotte",-12.7887,45.2699,22,"Indian/Mayotte",15339],
+  ["Mexico City","Mexico",19.4285,-99.1277,2240,"America/Mexico_City",12294193],
+  ["Iztapalapa","Mexico",19.3574,-99.0671,2239,"America/Mexico_City",1820888],
+  ["Ecatepec","Mexico",19.6172,-99.0660,2274,"America/Mexico_City",1806226],
+  ["Guadalajara","Mexico",20.6668,-103.3918,1598,"America/Mexico_City",1640589],
+  ["Puebla de Zaragoza","Mexico",19.0433,-98.2019,2152,"America/Mexico_City",1590256],
+  ["Ciudad Juarez","Mexico",31.7333,-106.4833,1126,"America/Ojinaga",1512354],
+  ["Tijuana","Mexico",32.5027,-117.0037,97,"America/Tijuana",1376457],
+  ["Ciudad Nezahualcoyotl","Mexico",19.4006,-99.0148,2235,"America/Mexico_City",1232220],
+  ["Gustavo A. Madero","Mexico",19.4902,-99.1098,2248,"America/Mexico_City",1193161],
+  ["Gustavo A. Madero","Mexico",22.8697,-98.7589,62,"America/Monterrey",1185772],
+  ["Monterrey","Mexico",25.6751,-100.3185,543,"America/Monterrey",1122874],
+  ["Leon","Mexico",21.1213,-101.6680,1801,"America/Mexico_City",1114626],
+  ["Zapopan","Mexico",20.7236,-103.3848,1568,"America/Mexico_City",987516],
+  ["Naucalpan de Juarez","Mexico",19.4785,-99.2396,2300,"America/Mexico_City",846185],
+  ["Chihuahua","Mexico",28.6353,-106.0889,1416,"America/Chihuahua",809232],
+  ["Guadalupe","Mexico",25.6768,-100.2565,497,"America/Monterrey",724921],
+  ["Merida","Mexico",20.9767,-89.6206,14,"America/Merida",717175],
+  ["Tlalnepantla","Mexico",19.5401,-99.1954,2260,"America/Mexico_City",715767],
+  ["Alvaro Obregon","Mexico",19.3587,-99.2033,2338,"America/Mexico_City",706567],
+  ["San Luis Potosi","Mexico",22.1499,-100.9828,1869,"America/Mexico_City",677704],
+  ["Aguascalientes","Mexico",21.8823,-102.2826,1882,"America/Mexico_City",658179],
+  ["Acapulco","Mexico",16.8634,-99.8901,18,"America/Mexico_City",652136],
+  ["Coyoacan","Mexico",19.3467,-99.1617,2255,"America/Mexico_City",628063],
+  ["Santiago de Queretaro","Mexico",20.5881,-100.3881,1825,"America/Mexico_City",626495],
+  ["Saltillo","Mexico",25.4194,-101.0013,1611,"America/Monterrey",621250],
+  ["Tlalpan","Mexico",19.2971,-99.1679,2264,"America/Mexico_City",607545],
+  ["Mexicali","Mexico",32.6500,-115.4611,2,"America/Tijuana",597099],
+  ["Hermosillo","Mexico",29.0971,-110.9575,219,"America/Hermosillo",595811],
+  ["Morelia","Mexico",19.7008,-101.1844,1917,"America/Mexico_City",592797],
+  ["Culiacan","Mexico",24.8074,-107.3973,49,"America/Mazatlan",582469],
+  ["Veracruz","Mexico",19.1807,-96.1341,13,"America/Mexico_City",568313],
+  ["Cancun","Mexico",21.1743,-86.8466,11,"America/Cancun",542043],
+  ["Santa Maria Chimalhuacan","Mexico",19.4215,-98.9504,2249,"America/Mexico_City",525389],
+  ["Torreon","Mexico",25.5433,-103.4176,1125,"America/Monterrey",524066],
+  ["Cuauhtemoc","Mexico",19.4451,-99.1461,2237,"America/Mexico_City",521348],
+  ["Ciudad Lopez Mateos","Mexico",19.5855,-99.2603,2383,"America/Mexico_City",521034],
+  ["Toluca de Lerdo","Mexico",19.2879,-99.6532,2671,"America/Mexico_City",505881],
+  ["Reynosa","Mexico",26.0768,-98.2975,48,"America/Matamoros",498654],
+  ["Tlaquepaque","Mexico",20.6409,-103.2933,1581,"America/Mexico_City",493646],
+  ["Tuxtla Gutierrez","Mexico",16.7547,-93.1149,534,"America/Mexico_City",481128],
+  ["Cuautitlan Izcalli","Mexico",19.6439,-99.2160,2288,"America/Mexico_City",475179],
+  ["Victoria de Durango","Mexico",24.0203,-104.6576,1884,"America/Monterrey",457140],
+  ["Heroica Matamoros","Mexico",25.8797,-97.5042,12,"America/Matamoros",449815],
+  ["Venustiano Carranza","Mexico",19.4429,-99.0972,2236,"America/Mexico_City",447459],
+  ["San Nicolas de los Garza","Mexico",25.7417,-100.3022,506,"America/Monterrey",443273],
+  ["Azcapotzalco","Mexico",19.4870,-99.1859,2249,"America/Mexico_City",425298],
+  ["Xalapa de Enriquez","Mexico",19.5333,-96.9167,1411,"America/Mexico_City",425148],
+  ["Xochimilco","Mexico",19.2579,-99.1051,2245,"America/Mexico_City",404458],
+  ["Tonala","Mexico",20.6244,-103.2342,1660,"America/Mexico_City",401509],
+  ["Iztacalco","Mexico",19.3953,-99.0978,2238,"America/Mexico_City",384326],
+  ["San Miguel Xico","Mexico",19.2708,-98.9480,2235,"America/Mexico_City",365777],
+  ["Villahermosa","Mexico",17.9869,-92.9303,23,"America/Mexico_City",362401],
+  ["Benito Juarez","Mexico",19.3984,-99.1577,2243,"America/Mexico_City",355017],
+  ["Mazatlan","Mexico",23.2329,-106.4062,10,"America/Mazatlan",354717],
+  ["Miguel Hidalgo","Mexico",19.4347,-99.2009,2269,"America/Mexico_City",353534],
+  ["Apodaca","Mexico",25.7598,-100.1629,418,"America/Monterrey",352064],
+  ["Ixtapaluca","Mexico",19.3191,-98.8843,2253,"America/Mexico_City",351001],
+  ["Nuevo Laredo","Mexico",27.4763,-99.5164,130,"America/Matamoros",349550],
+  ["Tlahuac","Mexico",19.2835,-99.0032,2237,"America/Mexico_City",344106],
+  ["Cuernavaca","Mexico",18.9261,-99.2308,1536,"America/Mexico_City",343769],
+  ["Irapuato","Mexico",20.6784,-101.3465,1721,"America/Mexico_City",339554],
+  ["Pachuca de Soto","Mexico",20.1170,-98.7333,2393,"America/Mexico_City",319581],
+  ["Coacalco","Mexico",19.6345,-99.1005,2256,"America/Mexico_City",313405],
+  ["Tampico","Mexico",22.2782,-97.8677,35,"America/Monterrey",309003],
+  ["General Escobedo","Mexico",25.7952,-100.3146,498,"America/Monterrey",308206],
+  ["Celaya","Mexico",20.5235,-100.8157,1762,"America/Mexico_City",305901],
+  ["Tampico","Mexico",22.2553,-97.8686,4,"America/Monterrey",297284],
+  ["Tepic","Mexico",21.5008,-104.8894,927,"America/Mazatlan",280592],
+  ["Ciudad Victoria","Mexico",23.7417,-99.1460,318,"America/Monterrey",269923],
+  ["Oaxaca","Mexico",17.0711,-96.7191,1570,"America/Mexico_City",262566],
+  ["Ciudad Obregon","Mexico",27.4922,-109.9395,40,"America/Hermosillo",258162],
+  ["Ensenada","Mexico",31.8661,-116.5997,30,"America/Tijuana",256565],
+  ["Santa Catarina","Mexico",25.6732,-100.4581,675,"America/Monterrey",254472],
+  ["Los Reyes","Mexico",19.3636,-98.9771,2240,"America/Mexico_City",251168],
+  ["Colonia del Valle","Mexico",19.3861,-99.1620,2247,"America/Mexico_City",250000],
+  ["Nicolas Romero","Mexico",19.6366,-99.3068,2398,"America/Mexico_City",245383],
+  ["Ojo de Agua","Mexico",19.6803,-99.0100,2247,"America/Mexico_City",242272],
+  ["Tehuacan","Mexico",18.4615,-97.3928,1637,"America/Mexico_City",241429],
+  ["Uruapan del Progreso","Mexico",19.4136,-102.0528,1622,"America/Mexico_City",237308],
+  ["Coatzacoalcos","Mexico",18.1421,-94.4371,25,"America/Mexico_City",230717],
+  ["Magdalena Contreras","Mexico",19.3321,-99.2112,2348,"America/Mexico_City",228927],
+  ["Gomez Palacio","Mexico",25.5647,-103.4958,1135,"America/Monterrey",228577],
+  ["Los Mochis","Mexico",25.7912,-108.9946,17,"America/Mazatlan",214601],
+  ["Buenavista","Mexico",19.6083,-99.1694,2333,"America/Mexico_City",206081],
+  ["Campeche","Mexico",19.8380,-90.5277,4,"America/Merida",205212],
+  ["Tapachula","Mexico",14.9070,-92.2618,175,"America/Mexico_City",197961],
+  ["Monclova","Mexico",26.9069,-101.4206,603,"America/Monterrey",195764],
+  ["Soledad Diez Gutierrez","Mexico",22.1878,-100.9419,1855,"America/Mexico_City",194006],
+  ["Ciudad Madero","Mexico",22.2754,-97.8349,7,"America/Monterrey",192736],
+  ["Puerto Vallarta","Mexico",20.6204,-105.2307,9,"America/Mexico_City",187134],
+  ["Nogales","Mexico",31.3086,-110.9422,1214,"America/Hermosillo",185882],
+  ["Poza Rica de Hidalgo","Mexico",20.5331,-97.4595,58,"America/Mexico_City",174526],
+  ["Cuajimalpa","Mexico",19.3599,-99.2939,2724,"America/Mexico_City",173625],
+  ["San Pablo de las Salinas","Mexico",19.6667,-99.0953,2248,"America/Mexico_City",173557],
+  ["Metepec","Mexico",19.2617,-99.5984,2621,"America/Mexico_City",172982],
+  ["La Paz","Mexico",24.1423,-110.3127,33,"America/Mazatlan",171485],
+  ["Chilpancingo de los Bravos","Mexico",17.5506,-99.5058,1242,"America/Mexico_City",165250],
+  ["Chalco de Diaz Covarrubias","Mexico",19.2617,-98.8978,2245,"America/Mexico_City",163996],
+  ["Jiutepec","Mexico",18.8814,-99.1778,1366,"America/Mexico_City",162427],
+  ["Cholula","Mexico",19.0641,-98.3035,2156,"America/Mexico_City",151667],
+  ["Minatitlan","Mexico",18.0013,-94.5581,28,"America/Mexico_City",150895],
+  ["Cuautla Morelos","Mexico",18.8046,-98.9455,1318,"America/Mexico_City",146178],
+  ["Ciudad Acuna","Mexico",29.3232,-100.9522,283,"America/Matamoros",144669],
+  ["Ciudad del Carmen","Mexico",18.6497,-91.8247,5,"America/Merida",141308],
+  ["Piedras Negras","Mexico",28.7234,-100.5670,257,"America/Matamoros",139619],
+  ["San Luis Rio Colorado","Mexico",32.4561,-114.7719,41,"America/Hermosillo",139254],
+  ["Salamanca","Mexico",20.5722,-101.1912,1714,"America/Mexico_City",138614],
+  ["Chetumal","Mexico",18.5114,-88.3010,10,"America/Cancun",134412],
+  ["Cordoba","Mexico",18.8858,-96.9313,846,"America/Mexico_City",134403],
+  ["Tuxpan de Rodriguez Cano","Mexico",20.9577,-97.4080,11,"America/Mexico_City",134394],
+  ["Garza Garcia","Mexico",25.6538,-100.3776,621,"America/Monterrey",130646],
+  ["San Cristobal de Las Casas","Mexico",16.7379,-92.6382,2130,"America/Mexico_City",128996],
+  ["Colima","Mexico",19.2434,-103.7277,498,"America/Mexico_City",127235],
+  ["Zamora de Hidalgo","Mexico",19.9891,-102.2848,1569,"America/Mexico_City",124916],
+  ["Huixquilucan","Mexico",19.3599,-99.3502,2712,"America/Mexico_City",124846],
+  ["San Pedro Garza Garcia","Mexico",25.6572,-100.4027,540,"America/Monterrey",122009],
+  ["Orizaba","Mexico",18.8510,-97.1008,1242,"America/Mexico_City",121348],
+  ["Navojoa","Mexico",27.0702,-109.4439,47,"America/Hermosillo",120000],
+  ["Zacatecas","Mexico",22.7684,-102.5814,2480,"America/Mexico_City",118562],
+  ["San Juan del Rio","Mexico",20.3878,-99.9960,1923,"America/Mexico_City",118173],
+  ["Ciudad de Villa de Alvarez","Mexico",19.2672,-103.7378,495,"America/Mexico_City",117600],
+  ["Milpa Alta","Mexico",19.1917,-99.0228,2429,"America/Mexico_City",115895],
+  ["Texcoco de Mora","Mexico",19.5116,-98.8837,2257,"America/Mexico_City",115378],
+  ["Iguala de la Independencia","Mexico",18.3493,-99.5394,744,"America/Mexico_City",112106],
+  ["Manzanillo","Mexico",19.0501,-104.3188,21,"America/Mexico_City",110735],
+  ["Ciudad Valles","Mexico",21.9833,-99.0167,85,"America/Mexico_City",109504],
+  ["Fresnillo de Gonzalez Echeverria","Mexico",23.1757,-102.8694,2186,"America/Mexico_City",105488],
+  ["Matamoros","Mexico",25.5270,-103.2285,1117,"America/Monterrey",104024],
+  ["Tantoyuca","Mexico",21.3537,-98.2272,159,"America/Mexico_City",103610],
+  ["Guaymas","Mexico",27.9182,-110.8997,7,"America/Hermosillo",103449],
+  ["Las Margaritas","Mexico",16.3119,-91.9803,1513,"America/Mexico_City",103403],
+  ["Ciudad Delicias","Mexico",28.1901,-105.4701,1172,"America/Chihuahua",102969],
+  ["Tulancingo","Mexico",20.0836,-98.3633,2180,"America/Mexico_City",102383],
+  ["Hidalgo del Parral","Mexico",26.9296,-105.6662,1719,"America/Chihuahua",101768],
+  ["Temapache","Mexico",21.0658,-97.6410,231,"America/Mexico_City",101558],
+  ["Ciudad Guzman","Mexico",19.7047,-103.4617,1535,"America/Mexico_City",101010],
+  ["Playa del Carmen","Mexico",20.6274,-87.0799,9,"America/Cancun",100383],
+  ["Martinez de La Torre","Mexico",20.0707,-97.0583,90,"America/Mexico_City",100377],
+  ["Colonia Lindavista","Mexico",19.4916,-99.1248,2242,"America/Mexico_City",100000],
+  ["Chisinau","Moldova",47.0056,28.8575,55,"Europe/Chisinau",635994],
+  ["Tiraspol","Moldova",46.8403,29.6433,33,"Europe/Chisinau",157000],
+  ["Balti","Moldova",47.7617,27.9289,110,"Europe/Chisinau",125000],
+  ["Bender","Moldova",46.8306,29.4711,32,"Europe/Chisinau",110175],
+  ["Monaco","Monaco",43.7333,7.4167,62,"Europe/Monaco",32965],
+  ["Monte-Carlo","Monaco",43.7398,7.4273,45,"Europe/Monaco",16012],
+  ["Ulaanbaatar","Mongolia",47.9077,106.8832,1284,"Asia/Ulaanbaatar",844818],
+  ["Erdenet","Mongolia",49.0333,104.0833,1307,"Asia/Ulaanbaatar",79647],
+  ["Darhan","Mongolia",49.4867,105.9228,683,"Asia/Ulaanbaatar",74300],
+  ["Podgorica","Montenegro",42.4411,19.2636,49,"Europe/Podgorica",136473],
+  ["Niksic","Montenegro",42.7731,18.9445,630,"Europe/Podgorica",58212],
+  ["Herceg-Novi","Montenegro",42.4531,18.5375,87,"Europe/Podgorica",19536],
+  ["Casablanca","Morocco",33.5883,-7.6114,27,"Africa/Casablanca",3144909],
+  ["Rabat","Morocco",34.0132,-6.8326,46,"Africa/Casablanca",1655753],
+  ["Fes","Morocco",34.0371,-4.9998,403,"Africa/Casablanca",964891],
+  ["Sale","Morocco",34.0531,-6.7985,34,"Africa/Casablanca",903485],
+  ["Marrakesh","Morocco",31.6342,-7.9999,457,"Africa/Casablanca",839296],
+  ["Agadir","Morocco",30.4202,-9.5982,31,"Africa/Casablanca",698310],
+  ["Tangier","Morocco",35.7673,-5.7998,20,"Africa/Casablanca",688356],
+  ["Meknes","Morocco",33.8935,-5.5473,531,"Africa/Casablanca",545705],
+  ["Oujda","Morocco",34.6805,-1.9076,551,"Africa/Casablanca",405253],
+  ["Al Hoceima","Morocco",35.2516,-3.9372,74,"Africa/Casablanca",395644],
+  ["Kenitra","Morocco",34.2610,-6.5802,13,"Africa/Casablanca",366570],
+  ["Tetouan","Morocco",35.5784,-5.3684,121,"Africa/Casablanca",326261],
+  ["Safi","Morocco",32.2994,-9.2372,45,"Africa/Casablanca",288163],
+  ["Mohammedia","Morocco",33.6861,-7.3830,29,"Africa/Casablanca",187708],
+  ["Khouribga","Morocco",32.8811,-6.9063,804,"Africa/Casablanca",167673],
+  ["Beni Mellal","Morocco",32.3372,-6.3498,538,"Africa/Casablanca",166399],
+  ["El Jadida","Morocco",33.2549,-8.5060,10,"Africa/Casablanca",147549],
+  ["Taza","Morocco",34.2100,-4.0100,530,"Africa/Casablanca",141890],
+  ["Nador","Morocco",35.1681,-2.9335,19,"Africa/Casablanca",129260],
+  ["Settat","Morocco",33.0010,-7.6166,365,"Africa/Casablanca",119082],
+  ["Larache","Morocco",35.1932,-6.1557,38,"Africa/Casablanca",109294],
+  ["Ksar el Kebir","Morocco",35.0017,-5.9053,17,"Africa/Casablanca",108753],
+  ["Khemisset","Morocco",33.8240,-6.0663,451,"Africa/Casablanca",106991],
+  ["Maputo","Mozambique",-25.9655,32.5832,70,"Africa/Maputo",1191613],
+  ["Matola","Mozambique",-25.9622,32.4589,42,"Africa/Maputo",675422],
+  ["Beira","Mozambique",-19.8436,34.8389,6,"Africa/Maputo",530604],
+  ["Nampula","Mozambique",-15.1165,39.2666,431,"Africa/Maputo",388526],
+  ["Chimoio","Mozambique",-19.1164,33.4833,709,"Africa/Maputo",256936],
+  ["Cidade de Nacala","Mozambique",-14.5428,40.6728,22,"Africa/Maputo",224795],
+  ["Quelimane","Mozambique",-17.8786,36.8883,9,"Africa/Maputo",188964],
+  ["Tete","Mozambique",-16.1564,33.5867,137,"Africa/Maputo",129316],
+  ["Xai-Xai","Mozambique",-25.0519,33.6442,4,"Africa/Maputo",127366],
+  ["Maxixe","Mozambique",-23.8597,35.3472,21,"Africa/Maputo",119868],
+  ["Ressano Garcia","Mozambique",-25.4428,31.9953,125,"Africa/Maputo",110000],
+  ["Lichinga","Mozambique",-13.3128,35.2406,1349,"Africa/Maputo",109839],
+  ["Pemba","Mozambique",-12.9740,40.5177,50,"Africa/Maputo",108737],
+  ["Rangoon","Myanmar",16.8053,96.1561,30,"Asia/Rangoon",4477638],
+  ["Mandalay","Myanmar",21.9747,96.0836,83,"Asia/Rangoon",1208099],
+  ["Nay Pyi Taw","Myanmar",19.7450,96.1297,122,"Asia/Rangoon",925000],
+  ["Mawlamyine","Myanmar",16.4905,97.6282,52,"Asia/Rangoon",438861],
+  ["Bago","Myanmar",17.3352,96.4814,18,"Asia/Rangoon",244376],
+  ["Pathein","Myanmar",16.7792,94.7321,8,"Asia/Rangoon",237089],
+  ["Monywa","Myanmar",22.1086,95.1358,81,"Asia/Rangoon",182011],
+  ["Sittwe","Myanmar",20.1462,92.8983,5,"Asia/Rangoon",177743],
+  ["Meiktila","Myanmar",20.8778,95.8584,244,"Asia/Rangoon",177442],
+  ["Myeik","Myanmar",12.4395,98.6003,15,"Asia/Rangoon",173298],
+  ["Taunggyi","Myanmar",20.7892,97.0378,1396,"Asia/Rangoon",160115],
+  ["Myingyan","Myanmar",21.4600,95.3884,76,"Asia/Rangoon",141713],
+  ["Dawei","Myanmar",14.0738,98.1942,13,"Asia/Rangoon",136783],
+  ["Pyay","Myanmar",18.8246,95.2222,32,"Asia/Rangoon",135308],
+  ["Hinthada","Myanmar",17.6494,95.4571,15,"Asia/Rangoon",134947],
+  ["Lashio","Myanmar",22.9359,97.7498,845,"Asia/Rangoon",131016],
+  ["Pakokku","Myanmar",21.3349,95.0844,70,"Asia/Rangoon",126938],
+  ["Thaton","Myanmar",16.9187,97.3700,24,"Asia/Rangoon",123727],
+  ["Maymyo","Myanmar",22.0283,96.4707,1074,"Asia/Rangoon",117303],
+  ["Yenangyaung","Myanmar",20.4650,94.8712,56,"Asia/Rangoon",110553],
+  ["Taungoo","Myanmar",18.9429,96.4341,56,"Asia/Rangoon",106945],
+  ["Windhoek","Namibia",-22.5594,17.0832,1656,"Africa/Windhoek",268132],
+  ["Rundu","Namibia",-17.9333,19.7667,1110,"Africa/Windhoek",58172],
+  ["Walvis Bay","Namibia",-22.9575,14.5053,6,"Africa/Windhoek",52058],
+  ["Kathmandu","Nepal",27.7017,85.3206,1317,"Asia/Kathmandu",1442271],
+  ["Pokhara","Nepal",28.2669,83.9685,1008,"Asia/Kathmandu",200000],
+  ["Patan","Nepal",27.6766,85.3142,1334,"Asia/Kathmandu",183310],
+  ["Biratnagar","Nepal",26.4831,87.2834,81,"Asia/Kathmandu",182324],
+  ["Birganj","Nepal",27.0104,84.8774,91,"Asia/Kathmandu",133238],
+  ["Dharan Bazar","Nepal",26.8125,87.2836,371,"Asia/Kathmandu",108600],
+  ["Bharatpur","Nepal",27.6833,84.4333,217,"Asia/Kathmandu",107157],
+  ["Amsterdam","Netherlands",52.3740,4.8897,13,"Europe/Amsterdam",741636],
+  ["Rotterdam","Netherlands",51.9225,4.4792,9,"Europe/Amsterdam",598199],
+  ["The Hague","Netherlands",52.0767,4.2986,4,"Europe/Amsterdam",474292],
+  ["Utrecht","Netherlands",52.0908,5.1222,13,"Europe/Amsterdam",290529],
+  ["Eindhoven","Netherlands",51.4408,5.4778,22,"Europe/Amsterdam",209620],
+  ["Tilburg","Netherlands",51.5555,5.0913,16,"Europe/Amsterdam",199613],
+  ["Groningen","Netherlands",53.2192,6.5667,16,"Europe/Amsterdam",181194],
+  ["Almere Stad","Netherlands",52.3702,5.2141,-3,"Europe/Amsterdam",176432],
+  ["Breda","Netherlands",51.5866,4.7760,9,"Europe/Amsterdam",167673],
+  ["Nijmegen","Netherlands",51.8425,5.8528,25,"Europe/Amsterdam",158732],
+  ["Enschede","Netherlands",52.2183,6.8958,45,"Europe/Amsterdam",153655],
+  ["Haarlem","Netherlands",52.3808,4.6368,10,"Europe/Amsterdam",147590],
+  ["Arnhem","Netherlands",51.9800,5.9111,16,"Europe/Amsterdam",141674],
+  ["Zaanstad","Netherlands",52.4531,4.8136,2,"Europe/Amsterdam",140085],
+  ["Amersfoort","Netherlands",52.1550,5.3875,8,"Europe/Amsterdam",139914],
+  ["Apeldoorn","Netherlands",52.2100,5.9694,12,"Europe/Amsterdam",136670],
+  ["'s-Hertogenbosch","Netherlands",51.6992,5.3042,7,"Europe/Amsterdam",134520],
+  ["Hoofddorp","Netherlands",52.3025,4.6889,-2,"Europe/Amsterdam",132734],
+  ["Maastricht","Netherlands",50.8483,5.6889,56,"Europe/Amsterdam",122378],
+  ["Leiden","Netherlands",52.1583,4.4931,6,"Europe/Amsterdam",119713],
+  ["Dordrecht","Netherlands",51.8100,4.6736,3,"Europe/Amsterdam",119260],
+  ["Zoetermeer","Netherlands",52.0575,4.4931,0,"Europe/Amsterdam",115845],
+  ["Zwolle","Netherlands",52.5125,6.0944,9,"Europe/Amsterdam",111805],
+  ["Noumea","New Caledonia",-22.2763,166.4572,11,"Pacific/Noumea",93060],
+  ["Mont-Dore","New Caledonia",-22.2833,166.5833,9,"Pacific/Noumea",24680],
+  ["Dumbea","New Caledonia",-22.1500,166.4500,11,"Pacific/Noumea",19346],
+  ["Auckland","New Zealand",-36.8667,174.7667,79,"Pacific/Auckland",417910],
+  ["Wellington","New Zealand",-41.2866,174.7756,31,"Pacific/Auckland",381900],
+  ["Christchurch","New Zealand",-43.5333,172.6333,14,"Pacific/Auckland",363926],
+  ["Manukau City","New Zealand",-36.9928,174.8799,43,"Pacific/Auckland",362000],
+  ["Waitakere","New Zealand",-36.9175,174.6577,87,"Pacific/Auckland",208100],
+  ["North Shore","New Zealand",-36.8000,174.7500,30,"Pacific/Auckland",207865],
+  ["Hamilton","New Zealand",-37.7833,175.2833,39,"Pacific/Auckland",152641],
+  ["Dunedin","New Zealand",-45.8742,170.5036,21,"Pacific/Auckland",114347],
+  ["Tauranga","New Zealand",-37.6861,176.1667,18,"Pacific/Auckland",110338],
+  ["Lower Hutt","New Zealand",-41.2167,174.9167,9,"Pacific/Auckland",101194],
+  ["Managua","Nicaragua",12.1328,-86.2504,108,"America/Managua",973087],
+  ["Leon","Nicaragua",12.4379,-86.8780,107,"America/Managua",144538],
+  ["Masaya","Nicaragua",11.9744,-86.0942,239,"America/Managua",130113],
+  ["Tipitapa","Nicaragua",12.1973,-86.0971,54,"America/Managua",127153],
+  ["Chinandega","Nicaragua",12.6294,-87.1311,69,"America/Managua",126387],
+  ["Matagalpa","Nicaragua",12.9256,-85.9175,686,"America/Managua",109089],
+  ["Niamey","Niger",13.5137,2.1098,206,"Africa/Niamey",774235],
+  ["Zinder","Niger",13.8072,8.9881,460,"Africa/Niamey",191424],
+  ["Maradi","Niger",13.5000,7.1017,360,"Africa/Niamey",163487],
+  ["Agadez","Niger",16.9733,7.9911,505,"Africa/Niamey",124324],
+  ["Lagos","Nigeria",6.4531,3.3958,10,"Africa/Lagos",9000000],
+  ["Kano","Nigeria",12.0001,8.5167,484,"Africa/Lagos",3626068],
+  ["Ibadan","Nigeria",7.3878,3.8964,255,"Africa/Lagos",3565108],
+  ["Kaduna","Nigeria",10.5222,7.4383,616,"Africa/Lagos",1582102],
+  ["Port Harcourt","Nigeria",4.7774,7.0134,16,"Africa/Lagos",1148665],
+  ["Benin City","Nigeria",6.3350,5.6275,86,"Africa/Lagos",1125058],
+  ["Maiduguri","Nigeria",11.8464,13.1603,321,"Africa/Lagos",1112449],
+  ["Zaria","Nigeria",11.1113,7.7227,644,"Africa/Lagos",975153],
+  ["Aba","Nigeria",5.1066,7.3667,64,"Africa/Lagos",897560],
+  ["Jos","Nigeria",9.9167,8.9000,1191,"Africa/Lagos",816824],
+  ["Ilorin","Nigeria",8.5000,4.5500,310,"Africa/Lagos",814192],
+  ["Oyo","Nigeria",7.8500,3.9333,292,"Africa/Lagos",736072],
+  ["Enugu","Nigeria",6.4402,7.4943,200,"Africa/Lagos",688862],
+  ["Abeokuta","Nigeria",7.1500,3.3500,68,"Africa/Lagos",593100],
+  ["Abuja","Nigeria",9.0579,7.4951,543,"Africa/Lagos",590400],
+  ["Sokoto","Nigeria",13.0609,5.2390,293,"Africa/Lagos",563861],
+  ["Onitsha","Nigeria",6.1454,6.7885,59,"Africa/Lagos",561066],
+  ["Warri","Nigeria",5.5167,5.7500,5,"Africa/Lagos",536023],
+  ["Ebute Ikorodu","Nigeria",6.6009,3.4882,4,"Africa/Lagos",535619],
+  ["Calabar","Nigeria",4.9517,8.3220,42,"Africa/Lagos",461796],
+  ["Uyo","Nigeria",5.0513,7.9335,45,"Africa/Lagos",436606],
+  ["Katsina","Nigeria",12.9894,7.6006,521,"Africa/Lagos",432149],
+  ["Ado-Ekiti","Nigeria",7.6210,5.2215,430,"Africa/Lagos",424340],
+  ["Akure","Nigeria",7.2526,5.1931,353,"Africa/Lagos",420594],
+  ["Bauchi","Nigeria",10.3134,9.8433,622,"Africa/Lagos",316149],
+  ["Ikeja","Nigeria",6.5942,3.3375,41,"Africa/Lagos",313196],
+  ["Makurdi","Nigeria",7.7411,8.5121,89,"Africa/Lagos",292645],
+  ["Minna","Nigeria",9.6139,6.5569,272,"Africa/Lagos",291905],
+  ["Effon Alaiye","Nigeria",7.6500,4.9167,481,"Africa/Lagos",279319],
+  ["Ilesa","Nigeria",7.6167,4.7333,388,"Africa/Lagos",277904],
+  ["Owo","Nigeria",7.1962,5.5868,348,"Africa/Lagos",276574],
+  ["Umuahia","Nigeria",5.5263,7.4896,164,"Africa/Lagos",264662],
+  ["Ondo","Nigeria",7.1000,4.8333,253,"Africa/Lagos",257005],
+  ["Ikot-Ekpene","Nigeria",5.1794,7.7108,90,"Africa/Lagos",254806],
+  ["Iwo","Nigeria",7.6333,4.1833,237,"Africa/Lagos",250443],
+  ["Gombe","Nigeria",10.2897,11.1673,460,"Africa/Lagos",250258],
+  ["Jimeta","Nigeria",9.2833,12.4667,156,"Africa/Lagos",248148],
+  ["Gusau","Nigeria",12.1628,6.6613,450,"Africa/Lagos",226857],
+  ["Mubi","Nigeria",10.2676,13.2644,575,"Africa/Lagos",225705],
+  ["Ikire","Nigeria",7.3500,4.1833,200,"Africa/Lagos",222160],
+  ["Owerri","Nigeria",5.4833,7.0304,71,"Africa/Lagos",215038],
+  ["Shagamu","Nigeria",6.8432,3.6478,48,"Africa/Lagos",214558],
+  ["Ijebu-Ode","Nigeria",6.8161,3.9159,67,"Africa/Lagos",209175],
+  ["Ugep","Nigeria",5.8086,8.0812,101,"Africa/Lagos",200276],
+  ["Nnewi","Nigeria",6.0199,6.9148,149,"Africa/Lagos",193987],
+  ["Ise-Ekiti","Nigeria",7.4632,5.4281,382,"Africa/Lagos",190063],
+  ["Ila Orangun","Nigeria",8.0167,4.9000,496,"Africa/Lagos",179192],
+  ["Saki","Nigeria",8.6667,3.3833,472,"Africa/Lagos",178677],
+  ["Bida","Nigeria",9.0833,6.0167,111,"Africa/Lagos",171656],
+  ["Awka","Nigeria",6.2101,7.0741,111,"Africa/Lagos",167738],
+  ["Ijero-Ekiti","Nigeria",7.8139,5.0742,463,"Africa/Lagos",167632],
+  ["Inisa","Nigeria",7.8500,4.3333,368,"Africa/Lagos",164161],
+  ["Suleja","Nigeria",9.1805,7.1793,421,"Africa/Lagos",162135],
+  ["Sapele","Nigeria",5.8941,5.6767,9,"Africa/Lagos",161686],
+  ["Osogbo","Nigeria",7.7667,4.5667,318,"Africa/Lagos",156694],
+  ["Kishi","Nigeria",9.0833,3.8500,368,"Africa/Lagos",155510],
+  ["Gbongan","Nigeria",7.4667,4.3500,236,"Africa/Lagos",139485],
+  ["Ejigbo","Nigeria",7.9000,4.3167,344,"Africa/Lagos",138357],
+  ["Funtua","Nigeria",11.5233,7.3081,711,"Africa/Lagos",136811],
+  ["Igboho","Nigeria",8.8333,3.7500,408,"Africa/Lagos",136764],
+  ["Buguma","Nigeria",4.7341,6.8635,5,"Africa/Lagos",135404],
+  ["Ikirun","Nigeria",7.9167,4.6667,387,"Africa/Lagos",134240],
+  ["Abakaliki","Nigeria",6.3163,8.1169,44,"Africa/Lagos",134102],
+  ["Okrika","Nigeria",4.7416,7.0849,7,"Africa/Lagos",133271],
+  ["Amaigbo","Nigeria",5.7892,7.8383,84,"Africa/Lagos",127300],
+  ["Lafia","Nigeria",8.4833,8.5167,152,"Africa/Lagos",127236],
+  ["Gashua","Nigeria",12.8710,11.0482,339,"Africa/Lagos",125817],
+  ["Modakeke","Nigeria",7.3833,4.2667,241,"Africa/Lagos",119529],
+  ["Bama","Nigeria",11.5221,13.6856,331,"Africa/Lagos",118121],
+  ["Ilobu","Nigeria",7.8333,4.4833,327,"Africa/Lagos",118089],
+  ["Jalingo","Nigeria",8.8833,11.3667,202,"Africa/Lagos",117757],
+  ["Okigwi","Nigeria",5.8352,7.3599,208,"Africa/Lagos",115499],
+  ["Offa","Nigeria",8.1500,4.7167,426,"Africa/Lagos",113830],
+  ["Esuk Oron","Nigeria",4.8029,8.2534,38,"Africa/Lagos",112033],
+  ["Nsukka","Nigeria",6.8578,7.3958,423,"Africa/Lagos",111017],
+  ["Nguru","Nigeria",12.8791,10.4526,348,"Africa/Lagos",111014],
+  ["Hadejia","Nigeria",12.4498,10.0444,361,"Africa/Lagos",110753],
+  ["Ijebu-Igbo","Nigeria",6.9798,4.0033,103,"Africa/Lagos",109261],
+  ["Uromi","Nigeria",6.7000,6.3333,381,"Africa/Lagos",108608],
+  ["Birnin Kebbi","Nigeria",12.4539,4.1975,234,"Africa/Lagos",108164],
+  ["Pindiga","Nigeria",9.9833,10.9333,523,"Africa/Lagos",106322],
+  ["Azare","Nigeria",11.6765,10.1948,415,"Africa/Lagos",105687],
+  ["Nkpor","Nigeria",6.1516,6.8446,164,"Africa/Lagos",103733],
+  ["Ikerre","Nigeria",7.4913,5.2322,362,"Africa/Lagos",103054],
+  ["Lafiagi","Nigeria",8.8667,5.4167,78,"Africa/Lagos",102779],
+  ["Pyongyang","North Korea",39.0339,125.7543,43,"Asia/Pyongyang",3222000],
+  ["Hamhung","North Korea",39.9183,127.5364,16,"Asia/Pyongyang",559056],
+  ["Namp'o","North Korea",38.7375,125.4078,9,"Asia/Pyongyang",455000],
+  ["Hungnam","North Korea",39.8317,127.6186,2,"Asia/Pyongyang",346082],
+  ["Kaesong","North Korea",37.9708,126.5544,42,"Asia/Pyongyang",338155],
+  ["Wonsan","North Korea",39.1528,127.4436,7,"Asia/Pyongyang",329207],
+  ["Chongjin","North Korea",41.7956,129.7758,5,"Asia/Pyongyang",327000],
+  ["Sariwon","North Korea",38.5072,125.7558,20,"Asia/Pyongyang",310100],
+  ["Sinuiju","North Korea",40.1006,124.3981,6,"Asia/Pyongyang",288112],
+  ["Haeju","North Korea",38.0406,125.7147,57,"Asia/Pyongyang",222396],
+  ["Kanggye-si","North Korea",40.9695,126.5852,288,"Asia/Pyongyang",209530],
+  ["Hyesan-si","North Korea",41.4017,128.1778,709,"Asia/Pyongyang",192680],
+  ["Songnim","North Korea",38.7542,125.6450,21,"Asia/Pyongyang",152425],
+  ["P'yongsong","North Korea",39.2464,125.8719,53,"Asia/Pyongyang",100000],
+  ["Skopje","North Macedonia",41.9965,21.4314,247,"Europe/Skopje",474889],
+  ["Kumanovo","North Macedonia",42.1322,21.7144,344,"Europe/Skopje",108471],
+  ["Bitola","North Macedonia",41.0311,21.3403,607,"Europe/Skopje",86528],
+  ["Saipan","Northern Mariana Islands",15.2123,145.7545,5,"Pacific/Saipan",48220],
+  ["San Jose Village","Northern Mariana Islands",14.9682,145.6200,15,"Pacific/Saipan",15000],
+  ["Oslo","Norway",59.9127,10.7461,26,"Europe/Oslo",580000],
+  ["Bergen","Norway",60.3930,5.3242,20,"Europe/Oslo",213585],
+  ["Trondheim","Norway",63.4305,10.3951,18,"Europe/Oslo",147139],
+  ["Stavanger","Norway",58.9701,5.7333,15,"Europe/Oslo",121610],
+  ["Muscat","Oman",23.6139,58.5922,7,"Asia/Muscat",797000],
+  ["As Sib al Jadidah","Oman",23.6703,58.1891,7,"Asia/Muscat",237816],
+  ["Salalah","Oman",17.0150,54.0924,13,"Asia/Muscat",163140],
+  ["Bawshar","Oman",23.5556,58.3989,80,"Asia/Muscat",159487],
+  ["Al Sohar","Oman",24.3643,56.7468,5,"Asia/Muscat",108274],
+  ["As Suwayq","Oman",23.8494,57.4386,6,"Asia/Muscat",107143],
+  ["`Ibri","Oman",23.2257,56.5157,359,"Asia/Muscat",101640],
+  ["Karachi","Pakistan",24.9056,67.0822,38,"Asia/Karachi",11624219],
+  ["Lahore","Pakistan",31.5497,74.3436,224,"Asia/Karachi",6310888],
+  ["Faisalabad","Pakistan",31.4167,73.0833,186,"Asia/Karachi",2506595],
+  ["Rawalpindi","Pakistan",33.6007,73.0679,493,"Asia/Karachi",1743101],
+  ["Multan","Pakistan",30.1956,71.4753,129,"Asia/Karachi",1437230],
+  ["Hyderabad","Pakistan",25.3924,68.3737,40,"Asia/Karachi",1386330],
+  ["Gujranwala","Pakistan",32.1617,74.1883,231,"Asia/Karachi",1384471],
+  ["Peshawar","Pakistan",34.0080,71.5785,340,"Asia/Karachi",1218773],
+  ["Quetta","Pakistan",30.1990,67.0097,1682,"Asia/Karachi",733675],
+  ["Muzaffarabad","Pakistan",34.3700,73.4708,739,"Asia/Karachi",725000],
+  ["Kotli","Pakistan",33.5167,73.9167,707,"Asia/Karachi",640000],
+  ["Islamabad","Pakistan",33.7215,73.0433,579,"Asia/Karachi",601600],
+  ["Bahawalpur","Pakistan",29.4000,71.6833,118,"Asia/Karachi",552607],
+  ["Sargodha","Pakistan",32.0836,72.6711,190,"Asia/Karachi",542603],
+  ["Sialkot","Pakistan",32.5101,74.5431,250,"Asia/Karachi",477396],
+  ["Sukkur","Pakistan",27.7052,68.8574,73,"Asia/Karachi",417767],
+  ["Larkana","Pakistan",27.5551,68.2141,54,"Asia/Karachi",364033],
+  ["Sheikhupura","Pakistan",31.7131,73.9783,209,"Asia/Karachi",361303],
+  ["Bhimbar","Pakistan",32.9757,74.0793,331,"Asia/Karachi",342900],
+  ["Jhang Sadr","Pakistan",31.2715,72.3284,158,"Asia/Karachi",341210],
+  ["Gujrat","Pakistan",32.5728,74.0790,243,"Asia/Karachi",301506],
+  ["Mardan","Pakistan",34.2019,72.0525,314,"Asia/Karachi",300424],
+  ["Malir Cantonment","Pakistan",24.9424,67.2066,53,"Asia/Karachi",300000],
+  ["Kasur","Pakistan",31.1156,74.4467,210,"Asia/Karachi",290643],
+  ["Dera Ghazi Khan","Pakistan",30.0561,70.6348,129,"Asia/Karachi",236093],
+  ["Sahiwal","Pakistan",30.6667,73.1000,173,"Asia/Karachi",235695],
+  ["Nawabshah","Pakistan",26.2483,68.4095,34,"Asia/Karachi",229504],
+  ["Mingaora","Pakistan",34.7758,72.3625,951,"Asia/Karachi",227331],
+  ["Okara","Pakistan",30.8081,73.4458,186,"Asia/Karachi",223648],
+  ["Gilgit","Pakistan",35.9187,74.3124,1467,"Asia/Karachi",216760],
+  ["Mirpur Khas","Pakistan",25.5251,69.0159,17,"Asia/Karachi",215657],
+  ["Chiniot","Pakistan",31.7200,72.9789,192,"Asia/Karachi",201781],
+  ["Shahkot","Pakistan",31.5709,73.4853,190,"Asia/Karachi",200000],
+  ["Kamoke","Pakistan",31.9744,74.2244,222,"Asia/Karachi",199531],
+  ["Sadiqabad","Pakistan",28.3062,70.1307,81,"Asia/Karachi",189876],
+  ["Burewala","Pakistan",30.1667,72.6500,146,"Asia/Karachi",183915],
+  ["Jacobabad","Pakistan",28.2810,68.4388,59,"Asia/Karachi",170588],
+  ["Muzaffargarh","Pakistan",30.0754,71.1921,123,"Asia/Karachi",165192],
+  ["Muridke","Pakistan",31.8025,74.2617,215,"Asia/Karachi",164246],
+  ["Jhelum","Pakistan",32.9331,73.7264,235,"Asia/Karachi",164080],
+  ["Shikarpur","Pakistan",27.9571,68.6379,71,"Asia/Karachi",156901],
+  ["Hafizabad","Pakistan",32.0679,73.6855,207,"Asia/Karachi",153656],
+  ["Kohat","Pakistan",33.5820,71.4493,503,"Asia/Karachi",151427],
+  ["Khanpur","Pakistan",28.6453,70.6567,97,"Asia/Karachi",142426],
+  ["Dadu","Pakistan",26.7329,67.7763,43,"Asia/Karachi",139784],
+  ["Gojra","Pakistan",31.1487,72.6866,172,"Asia/Karachi",139726],
+  ["Mandi Bahauddin","Pakistan",32.5834,73.4843,218,"Asia/Karachi",129733],
+  ["Tando Allahyar","Pakistan",25.4626,68.7192,25,"Asia/Karachi",127202],
+  ["Daska","Pakistan",32.3243,74.3497,242,"Asia/Karachi",126924],
+  ["Pakpattan","Pakistan",30.3410,73.3866,170,"Asia/Karachi",126706],
+  ["Bahawalnagar","Pakistan",30.5508,73.3908,165,"Asia/Karachi",126700],
+  ["Bahawalnagar","Pakistan",29.9987,73.2536,159,"Asia/Karachi",126617],
+  ["Tando Adam","Pakistan",25.7637,68.6610,29,"Asia/Karachi",125598],
+  ["Khairpur","Pakistan",27.5295,68.7617,61,"Asia/Karachi",124602],
+  ["Chishtian Mandi","Pakistan",29.8000,72.8667,148,"Asia/Karachi",122199],
+  ["Abbottabad","Pakistan",34.1469,73.2145,1232,"Asia/Karachi",120000],
+  ["Jaranwala","Pakistan",31.3333,73.4333,191,"Asia/Karachi",119785],
+  ["Ahmadpur East","Pakistan",29.1431,71.2598,105,"Asia/Karachi",116579],
+  ["Vihari","Pakistan",30.0333,72.3500,140,"Asia/Karachi",112840],
+  ["Kamalia","Pakistan",30.7333,72.6500,158,"Asia/Karachi",112426],
+  ["Kot Addu","Pakistan",30.4692,70.9671,135,"Asia/Karachi",104217],
+  ["Khushab","Pakistan",32.2967,72.3525,186,"Asia/Karachi",102793],
+  ["Wazirabad","Pakistan",32.4458,74.1159,235,"Asia/Karachi",102444],
+  ["Dera Ismail Khan","Pakistan",31.8327,70.9024,178,"Asia/Karachi",101616],
+  ["Chakwal","Pakistan",32.9334,72.8585,523,"Asia/Karachi",101200],
+  ["East Jerusalem","Palestine",31.7834,35.2339,759,"Asia/Hebron",428304],
+  ["Gaza","Palestine",31.5000,34.4667,40,"Asia/Gaza",410000],
+  ["Khan Yunis","Palestine",31.3402,34.3063,55,"Asia/Gaza",173183],
+  ["Jabalya","Palestine",31.5272,34.4835,43,"Asia/Gaza",168568],
+  ["Hebron","Palestine",31.5294,35.0938,903,"Asia/Hebron",160470],
+  ["Nablus","Palestine",32.2211,35.2544,569,"Asia/Hebron",130326],
+  ["Rafah","Palestine",31.2870,34.2595,79,"Asia/Gaza",126305],
+  ["Panama","Panama",8.9936,-79.5197,17,"America/Panama",408168],
+  ["San Miguelito","Panama",9.0333,-79.5000,42,"America/Panama",321501],
+  ["Tocumen","Panama",9.0833,-79.3833,21,"America/Panama",88543],
+  ["Port Moresby","Papua New Guinea",-9.4431,147.1797,79,"Pacific/Port_Moresby",283733],
+  ["Lae","Papua New Guinea",-6.7221,146.9847,16,"Pacific/Port_Moresby",76255],
+  ["Arawa","Papua New Guinea",-6.2132,155.5367,22,"Pacific/Port_Moresby",40266],
+  ["Asuncion","Paraguay",-25.3007,-57.6359,133,"America/Asuncion",1482200],
+  ["Ciudad del Este","Paraguay",-25.5097,-54.6111,186,"America/Asuncion",320782],
+  ["San Lorenzo","Paraguay",-25.3397,-57.5088,119,"America/Asuncion",227876],
+  ["Capiata","Paraguay",-25.3552,-57.4455,130,"America/Asuncion",198553],
+  ["Lambare","Paraguay",-25.3468,-57.6065,119,"America/Asuncion",126377],
+  ["Fernando de la Mora","Paraguay",-25.3231,-57.5402,155,"America/Asuncion",120167],
+  ["Lima","Peru",-12.0432,-77.0282,152,"America/Lima",7737002],
+  ["Arequipa","Peru",-16.3989,-71.5350,2355,"America/Lima",841130],
+  ["Callao","Peru",-12.0566,-77.1181,27,"America/Lima",813264],
+  ["Trujillo","Peru",-8.1160,-79.0300,31,"America/Lima",747450],
+  ["Chiclayo","Peru",-6.7714,-79.8409,35,"America/Lima",577375],
+  ["Iquitos","Peru",-3.7491,-73.2538,92,"America/Lima",437620],
+  ["Huancayo","Peru",-12.0651,-75.2049,3263,"America/Lima",376657],
+  ["Piura","Peru",-5.1945,-80.6328,33,"America/Lima",325466],
+  ["Chimbote","Peru",-9.0853,-78.5783,9,"America/Lima",316966],
+  ["Cusco","Peru",-13.5226,-71.9673,3369,"America/Lima",312140],
+  ["Pucallpa","Peru",-8.3791,-74.5539,155,"America/Lima",310750],
+  ["Tacna","Peru",-18.0146,-70.2536,564,"America/Lima",280098],
+  ["Surco","Peru",-12.1395,-77.0062,88,"America/Lima",251648],
+  ["Ica","Peru",-14.0678,-75.7286,408,"America/Lima",246844],
+  ["Juliaca","Peru",-15.5000,-70.1333,3834,"America/Lima",245675],
+  ["Sullana","Peru",-4.9039,-80.6853,60,"America/Lima",160789],
+  ["Chincha Alta","Peru",-13.4099,-76.1324,111,"America/Lima",153076],
+  ["Huanuco","Peru",-9.9306,-76.2422,1900,"America/Lima",147959],
+  ["Ayacucho","Peru",-13.1615,-74.2215,2720,"America/Lima",140033],
+  ["Cajamarca","Peru",-7.1638,-78.5003,2700,"America/Lima",135000],
+  ["Puno","Peru",-15.8422,-70.0199,3825,"America/Lima",116552],
+  ["Tumbes","Peru",-3.5669,-80.4515,25,"America/Lima",109223],
+  ["Manila","Philippines",14.6042,120.9822,13,"Asia/Manila",10444527],
+  ["Quezon City","Philippines",14.6488,121.0509,49,"Asia/Manila",2761720],
+  ["Budta","Philippines",7.2042,124.4397,4,"Asia/Manila",1273715],
+  ["Davao","Philippines",7.0731,125.6128,13,"Asia/Manila",1212504],
+  ["Malingao","Philippines",7.1608,124.4750,5,"Asia/Manila",1121974],
+  ["Cebu City","Philippines",10.3167,123.8907,37,"Asia/Manila",798634],
+  ["General Santos","Philippines",6.1128,125.1717,22,"Asia/Manila",679588],
+  ["Taguig","Philippines",14.5243,121.0792,5,"Asia/Manila",644473],
+  ["Pasig City","Philippines",14.5869,121.0614,63,"Asia/Manila",617301],
+  ["Antipolo","Philippines",14.5864,121.1753,194,"Asia/Manila",549543],
+  ["Makati City","Philippines",14.5503,121.0327,25,"Asia/Manila",510383],
+  ["Zamboanga","Philippines",6.9103,122.0739,9,"Asia/Manila",457623],
+  ["Bacolod City","Philippines",10.6667,122.9500,14,"Asia/Manila",454898],
+  ["Mansilingan","Philippines",10.6311,122.9789,45,"Asia/Manila",454150],
+  ["Cagayan de Oro","Philippines",8.4822,124.6472,8,"Asia/Manila",445103],
+  ["Dasmarinas","Philippines",14.3294,120.9367,82,"Asia/Manila",441876],
+  ["Iloilo","Philippines",10.6969,122.5644,8,"Asia/Manila",387681],
+  ["San Jose del Monte","Philippines",14.8139,121.0453,56,"Asia/Manila",357828],
+  ["Bacoor","Philippines",14.4590,120.9290,7,"Asia/Manila",356974],
+  ["Lapu-Lapu City","Philippines",10.3103,123.9494,4,"Asia/Manila",350467],
+  ["Mandaue City","Philippines",10.3236,123.9222,7,"Asia/Manila",331320],
+  ["Calamba","Philippines",14.2117,121.1653,16,"Asia/Manila",316612],
+  ["Iligan City","Philippines",8.2500,124.4000,282,"Asia/Manila",312323],
+  ["Butuan","Philippines",8.9492,125.5436,9,"Asia/Manila",309709],
+  ["Mandaluyong City","Philippines",14.5832,121.0409,24,"Asia/Manila",305576],
+  ["Angeles City","Philippines",15.1500,120.5833,102,"Asia/Manila",299391],
+  ["Santol","Philippines",15.1622,120.5675,126,"Asia/Manila",298976],
+  ["Cainta","Philippines",14.5786,121.1222,12,"Asia/Manila",283172],
+  ["Baguio","Philippines",16.4164,120.5931,1493,"Asia/Manila",272714],
+  ["San Pedro","Philippines",14.3595,121.0473,17,"Asia/Manila",270216],
+  ["Mantampay","Philippines",8.1667,124.2167,172,"Asia/Manila",265032],
+  ["San Fernando","Philippines",15.0286,120.6898,6,"Asia/Manila",251248],
+  ["Libertad","Philippines",8.9442,125.5019,8,"Asia/Manila",250353],
+  ["Batangas","Philippines",13.7567,121.0584,16,"Asia/Manila",237370],
+  ["Tagum","Philippines",7.4478,125.8078,26,"Asia/Manila",233254],
+  ["Taytay","Philippines",14.5678,121.1394,17,"Asia/Manila",231460],
+  ["Lucena","Philippines",13.9314,121.6172,9,"Asia/Manila",228758],
+  ["Puerto Princesa","Philippines",9.7392,118.7353,20,"Asia/Manila",222673],
+  ["Olongapo","Philippines",14.8292,120.2828,11,"Asia/Manila",221178],
+  ["Cabanatuan City","Philippines",15.4859,120.9665,36,"Asia/Manila",220250],
+  ["Binangonan","Philippines",14.4646,121.1929,10,"Asia/Manila",219204],
+  ["Santa Rosa","Philippines",14.3122,121.1114,13,"Asia/Manila",216650],
+  ["Imus","Philippines",14.4297,120.9367,10,"Asia/Manila",216099],
+  ["Lipa City","Philippines",13.9411,121.1631,325,"Asia/Manila",212287],
+  ["San Pablo","Philippines",14.0683,121.3256,115,"Asia/Manila",207577],
+  ["Malolos","Philippines",14.8443,120.8104,9,"Asia/Manila",198748],
+  ["Ormoc","Philippines",11.0064,124.6075,11,"Asia/Manila",191200],
+  ["Panalanoy","Philippines",11.2511,125.0064,16,"Asia/Manila",189090],
+  ["Mabalacat","Philippines",15.2216,120.5736,109,"Asia/Manila",188050],
+  ["Pagadian","Philippines",7.8257,123.4370,40,"Asia/Manila",186852],
+  ["Meycauayan","Philippines",14.7369,120.9608,10,"Asia/Manila",184839],
+  ["Tarlac City","Philippines",15.4802,120.5979,44,"Asia/Manila",183930],
+  ["Legaspi","Philippines",13.1372,123.7344,12,"Asia/Manila",179481],
+  ["Cotabato","Philippines",7.2236,124.2464,7,"Asia/Manila",179433],
+  ["Naga","Philippines",13.6192,123.1814,4,"Asia/Manila",174931],
+  ["Toledo","Philippines",10.3773,123.6386,2,"Asia/Manila",156916],
+  ["Guyong","Philippines",14.8399,120.9800,46,"Asia/Manila",155391],
+  ["Bago City","Philippines",10.5333,122.8333,8,"Asia/Manila",150250],
+  ["Marawi City","Philippines",8.0034,124.2840,719,"Asia/Manila",143627],
+  ["Kabankalan","Philippines",9.9902,122.8142,15,"Asia/Manila",136483],
+  ["Baliuag","Philippines",14.9547,120.8969,22,"Asia/Manila",135679],
+  ["Rodriguez","Philippines",14.7314,121.1417,28,"Asia/Manila",134432],
+  ["San Mateo","Philippines",14.6982,121.1236,21,"Asia/Manila",134327],
+  ["Talisay","Philippines",10.2447,123.8494,4,"Asia/Manila",133148],
+  ["Muricay","Philippines",7.8275,123.4782,3,"Asia/Manila",132094],
+  ["Bulaon","Philippines",15.0826,120.6629,31,"Asia/Manila",131818],
+  ["Cadiz","Philippines",10.9465,123.2880,12,"Asia/Manila",129053],
+  ["Koronadal","Philippines",6.5031,124.8469,52,"Asia/Manila",125502],
+  ["Hagonoy","Philippines",14.8341,120.7327,6,"Asia/Manila",123531],
+  ["San Juan","Philippines",14.6000,121.0333,20,"Asia/Manila",121430],
+  ["Silang","Philippines",14.2157,120.9714,332,"Asia/Manila",119475],
+  ["San Jose","Philippines",12.3528,121.0676,9,"Asia/Manila",118807],
+  ["Digos","Philippines",6.7497,125.3572,18,"Asia/Manila",116122],
+  ["Cavite","Philippines",14.4778,120.8932,7,"Asia/Manila",115932],
+  ["Tuguegarao City","Philippines",17.6131,121.7269,30,"Asia/Manila",115105],
+  ["Dumaguete City","Philippines",9.3070,123.3074,11,"Asia/Manila",113541],
+  ["Santiago","Philippines",16.6881,121.5487,78,"Asia/Manila",108414],
+  ["Santa Cruz","Philippines",14.2814,121.4161,9,"Asia/Manila",108145],
+  ["Mati","Philippines",6.9551,126.2165,21,"Asia/Manila",105908],
+  ["Tanza","Philippines",14.6753,120.9389,7,"Asia/Manila",105510],
+  ["Roxas City","Philippines",11.5853,122.7511,6,"Asia/Manila",102688],
+  ["Laoag","Philippines",18.1978,120.5957,15,"Asia/Manila",102105],
+  ["Pulong Santa Cruz","Philippines",14.2732,121.0764,52,"Asia/Manila",101914],
+  ["Urdaneta","Philippines",15.9761,120.5711,32,"Asia/Manila",101037],
+  ["Jolo","Philippines",6.0522,121.0022,5,"Asia/Manila",101002],
+  ["Warsaw","Poland",52.2298,21.0118,113,"Europe/Warsaw",1702139],
+  ["Lodz","Poland",51.7500,19.4667,192,"Europe/Warsaw",768755],
+  ["Krakow","Poland",50.0614,19.9366,219,"Europe/Warsaw",755050],
+  ["Wroclaw","Poland",51.1000,17.0333,119,"Europe/Warsaw",634893],
+  ["Poznan","Poland",52.4069,16.9299,69,"Europe/Warsaw",570352],
+  ["Gdansk","Poland",54.3520,18.6464,7,"Europe/Warsaw",461865],
+  ["Szczecin","Poland",53.4289,14.5530,149,"Europe/Warsaw",407811],
+  ["Bydgoszcz","Poland",53.1235,18.0076,37,"Europe/Warsaw",366452],
+  ["Lublin","Poland",51.2500,22.5667,183,"Europe/Warsaw",360044],
+  ["Katowice","Poland",50.2584,19.0275,266,"Europe/Warsaw",317316],
+  ["Bialystok","Poland",53.1333,23.1643,135,"Europe/Warsaw",291855],
+  ["Gdynia","Poland",54.5189,18.5319,14,"Europe/Warsaw",253730],
+  ["Czestochowa","Poland",50.7965,19.1241,253,"Europe/Warsaw",248125],
+  ["Sosnowiec","Poland",50.2868,19.1039,256,"Europe/Warsaw",227295],
+  ["Radom","Poland",51.4025,21.1471,159,"Europe/Warsaw",226794],
+  ["Mokotow","Poland",52.1934,21.0349,83,"Europe/Warsaw",212670],
+  ["Torun","Poland",53.0138,18.5981,51,"Europe/Warsaw",208717],
+  ["Kielce","Poland",50.8703,20.6275,267,"Europe/Warsaw",208598],
+  ["Gliwice","Poland",50.2976,18.6766,200,"Europe/Warsaw",198835],
+  ["Zabrze","Poland",50.3249,18.7858,258,"Europe/Warsaw",192177],
+  ["Bytom","Poland",50.3480,18.9328,285,"Europe/Warsaw",189186],
+  ["Praga Poludnie","Poland",52.2442,21.0855,81,"Europe/Warsaw",187845],
+  ["Bielsko-Biala","Poland",49.8225,19.0469,330,"Europe/Warsaw",176515],
+  ["Olsztyn","Poland",53.7799,20.4942,139,"Europe/Warsaw",171803],
+  ["Rzeszow","Poland",50.0413,21.9990,209,"Europe/Warsaw",158382],
+  ["Ursynow","Poland",52.1505,21.0504,104,"Europe/Warsaw",147676],
+  ["Ruda Slaska","Poland",50.2584,18.8563,258,"Europe/Warsaw",146189],
+  ["Wola","Poland",52.2401,20.9887,114,"Europe/Warsaw",143996],
+  ["Rybnik","Poland",50.0971,18.5418,233,"Europe/Warsaw",142510],
+  ["Bielany","Poland",52.2924,20.9353,98,"Europe/Warsaw",134854],
+  ["Srodmiescie","Poland",52.2290,21.0164,116,"Europe/Warsaw",134306],
+  ["Dabrowa Gornicza","Poland",50.3182,19.2374,272,"Europe/Warsaw",130601],
+  ["Tychy","Poland",50.1372,18.9664,259,"Europe/Warsaw",130000],
+  ["Opole","Poland",50.6721,17.9253,167,"Europe/Warsaw",127676],
+  ["Elblag","Poland",54.1522,19.4088,8,"Europe/Warsaw",127558],
+  ["Plock","Poland",52.5468,19.7064,103,"Europe/Warsaw",127474],
+  ["Walbrzych","Poland",50.7714,16.2843,495,"Europe/Warsaw",127431],
+  ["Gorzow Wielkopolski","Poland",52.7368,15.2288,34,"Europe/Warsaw",124430],
+  ["Targowek","Poland",52.2918,21.0484,84,"Europe/Warsaw",124316],
+  ["Wloclawek","Poland",52.6482,19.0678,58,"Europe/Warsaw",120339],
+  ["Zielona Gora","Poland",51.9355,15.5064,143,"Europe/Warsaw",118433],
+  ["Tarnow","Poland",50.0138,20.9870,220,"Europe/Warsaw",117799],
+  ["Chorzow","Poland",50.3058,18.9742,319,"Europe/Warsaw",113430],
+  ["Kalisz","Poland",51.7611,18.0910,109,"Europe/Warsaw",108759],
+  ["Koszalin","Poland",54.1944,16.1722,30,"Europe/Warsaw",107450],
+  ["Legnica","Poland",51.2101,16.1619,121,"Europe/Warsaw",106033],
+  ["Bemowo","Poland",52.2546,20.9084,108,"Europe/Warsaw",102393],
+  ["Lisbon","Portugal",38.7167,-9.1333,45,"Europe/Lisbon",517802],
+  ["Porto","Portugal",41.1496,-8.6110,97,"Europe/Lisbon",249633],
+  ["Amadora","Portugal",38.7538,-9.2308,138,"Europe/Lisbon",178858],
+  ["Braga","Portugal",41.5503,-8.4200,188,"Europe/Lisbon",121394],
+  ["Setubal","Portugal",38.5244,-8.8882,16,"Europe/Lisbon",117110],
+  ["Coimbra","Portugal",40.2056,-8.4195,98,"Europe/Lisbon",106582],
+  ["Queluz","Portugal",38.7566,-9.2545,125,"Europe/Lisbon",103399],
+  ["Funchal","Portugal",32.6333,-16.9000,0,"Atlantic/Madeira",100847],
+  ["San Juan","Puerto Rico",18.4663,-66.1057,7,"America/Puerto_Rico",418140],
+  ["Bayamon","Puerto Rico",18.3986,-66.1557,16,"America/Puerto_Rico",203499],
+  ["Carolina","Puerto Rico",18.3808,-65.9574,16,"America/Puerto_Rico",170404],
+  ["Ponce","Puerto Rico",18.0111,-66.6141,15,"America/Puerto_Rico",152634],
+  ["Doha","Qatar",25.2793,51.5224,13,"Asia/Qatar",344939],
+  ["Ar Rayyan","Qatar",25.2919,51.4244,23,"Asia/Qatar",272465],
+  ["Umm Salal Muhammad","Qatar",25.4169,51.4039,25,"Asia/Qatar",29391],
+  ["Brazzaville","Republic of the Congo",-4.2661,15.2832,284,"Africa/Brazzaville",1284609],
+  ["Pointe-Noire","Republic of the Congo",-4.7761,11.8635,12,"Africa/Brazzaville",659084],
+  ["Dolisie","Republic of the Congo",-4.1983,12.6666,332,"Africa/Brazzaville",103894],
+  ["Saint-Denis","Réunion",-20.8823,55.4504,44,"Indian/Reunion",137195],
+  ["Saint-Paul","Réunion",-21.0096,55.2707,12,"Indian/Reunion",99307],
+  ["Saint-Pierre","Réunion",-21.3393,55.4781,36,"Indian/Reunion",76655],
+  ["Bucharest","Romania",44.4323,26.1063,83,"Europe/Bucharest",1877155],
+  ["Iasi","Romania",47.1667,27.6000,66,"Europe/Bucharest",318012],
+  ["Cluj-Napoca","Romania",46.7667,23.6000,352,"Europe/Bucharest",316748],
+  ["Timisoara","Romania",45.7537,21.2257,96,"Europe/Bucharest",315053],
+  ["Craiova","Romania",44.3167,23.8000,105,"Europe/Bucharest",304142],
+  ["Constanta","Romania",44.1833,28.6500,38,"Europe/Bucharest",303399],
+  ["Galati","Romania",45.4500,28.0500,26,"Europe/Bucharest",294087],
+  ["Brasov","Romania",45.6486,25.6061,573,"Europe/Bucharest",276088],
+  ["Ploiesti","Romania",44.9500,26.0167,161,"Europe/Bucharest",228851],
+  ["Braila","Romania",45.2667,27.9833,3,"Europe/Bucharest",213569],
+  ["Oradea","Romania",47.0667,21.9333,126,"Europe/Bucharest",206614],
+  ["Bacau","Romania",46.5667,26.9000,173,"Europe/Bucharest",171396],
+  ["Arad","Romania",46.1833,21.3167,109,"Europe/Bucharest",169065],
+  ["Pitesti","Romania",44.8500,24.8667,307,"Europe/Bucharest",167669],
+  ["Sibiu","Romania",45.8000,24.1500,410,"Europe/Bucharest",151894],
+  ["Targu-Mures","Romania",46.5425,24.5575,319,"Europe/Bucharest",146863],
+  ["Baia Mare","Romania",47.6533,23.5795,228,"Europe/Bucharest",137976],
+  ["Baia Mare","Romania",47.6573,23.5681,220,"Europe/Bucharest",136553],
+  ["Buzau","Romania",45.1500,26.8333,93,"Europe/Bucharest",130954],
+  ["Botosani","Romania",47.7500,26.6667,159,"Europe/Bucharest",114783],
+  ["Satu Mare","Romania",47.8000,22.8833,124,"Europe/Bucharest",112490],
+  ["Ramnicu Valcea","Romania",45.1000,24.3667,237,"Europe/Bucharest",107558],
+  ["Suceava","Romania",47.6333,26.2500,360,"Europe/Bucharest",105796],
+  ["Focsani","Romania",45.7000,27.1833,54,"Europe/Bucharest",105112],
+  ["Piatra Neamt","Romania",46.9167,26.3333,508,"Europe/Bucharest",102688],
+  ["Drobeta-Turnu Severin","Romania",44.6319,22.6561,86,"Europe/Bucharest",102346],
+  ["Moscow","Russia",55.7522,37.6156,144,"Europe/Moscow",10381222],
+  ["Saint Petersburg","Russia",59.9386,30.3141,10,"Europe/Moscow",5028000],
+  ["Novosibirsk","Russia",55.0415,82.9346,164,"Asia/Novosibirsk",1419007],
+  ["Yekaterinburg","Russia",56.8519,60.6122,278,"Asia/Yekaterinburg",1349772],
+  ["Nizhniy Novgorod","Russia",56.3287,44.0020,141,"Europe/Moscow",1284164],
+  ["Samara","Russia",53.2001,50.1500,117,"Europe/Samara",1134730],
+  ["Omsk","Russia",54.9924,73.3686,90,"Asia/Omsk",1129281],
+  ["Kazan","Russia",55.7887,49.1221,61,"Europe/Moscow",1104738],
+  ["Rostov-na-Donu","Russia",47.2313,39.7233,74,"Europe/Moscow",1074482],
+  ["Chelyabinsk","Russia",55.1540,61.4291,219,"Asia/Yekaterinburg",1062919],
+  ["Ufa","Russia",54.7852,56.0456,138,"Asia/Yekaterinburg",1033338],
+  ["Volgograd","Russia",48.7194,44.5018,65,"Europe/Volgograd",1011417],
+  ["Perm'","Russia",58.0174,56.2855,166,"Asia/Yekaterinburg",982419],
+  ["Krasnoyarsk","Russia",56.0184,92.8672,140,"Asia/Krasnoyarsk",927200],
+  ["Saratov","Russia",51.5406,46.0086,72,"Europe/Volgograd",863725],
+  ["Voronezh","Russia",51.6720,39.1843,156,"Europe/Moscow",848752],
+  ["Tol'yatti","Russia",53.5303,49.3461,42,"Europe/Samara",702879],
+  ["Krasnodar","Russia",45.0448,38.9760,28,"Europe/Moscow",649851],
+  ["Ulyanovsk","Russia",54.3282,48.3866,176,"Europe/Moscow",640680],
+  ["Izhevsk","Russia",56.8498,53.2045,166,"Europe/Samara",631038],
+  ["Yaroslavl","Russia",57.6299,39.8737,103,"Europe/Moscow",606730],
+  ["Barnaul","Russia",53.3606,83.7636,189,"Asia/Omsk",599579],
+  ["Vladivostok","Russia",43.1056,131.8735,40,"Asia/Vladivostok",587022],
+  ["Irkutsk","Russia",52.2978,104.2964,428,"Asia/Irkutsk",586695],
+  ["Khabarovsk","Russia",48.4827,135.0838,76,"Asia/Vladivostok",579000],
+  ["Khabarovsk Vtoroy","Russia",48.4378,135.1333,59,"Asia/Vladivostok",578303],
+  ["Orenburg","Russia",51.7727,55.0988,107,"Asia/Yekaterinburg",550204],
+  ["Novokuznetsk","Russia",53.7557,87.1099,208,"Asia/Novokuznetsk",539616],
+  ["Ryazan'","Russia",54.6269,39.6916,102,"Europe/Moscow",520173],
+  ["Tyumen","Russia",57.1522,65.5272,81,"Asia/Yekaterinburg",519119],
+  ["Lipetsk","Russia",52.6031,39.5708,158,"Europe/Moscow",515655],
+  ["Penza","Russia",53.2007,45.0046,150,"Europe/Moscow",512602],
+  ["Naberezhnyye Chelny","Russia",55.7255,52.4112,103,"Europe/Moscow",509870],
+  ["Kalininskiy","Russia",59.9967,30.3899,34,"Europe/Moscow",504641],
+  ["Astrakhan'","Russia",46.3497,48.0408,-12,"Europe/Volgograd",502533],
+  ["Makhachkala","Russia",42.9764,47.5024,4,"Europe/Moscow",497959],
+  ["Tomsk","Russia",56.4977,84.9744,117,"Asia/Novosibirsk",485519],
+  ["Kemerovo","Russia",55.3333,86.0833,135,"Asia/Novokuznetsk",477090],
+  ["Tula","Russia",54.1961,37.6182,161,"Europe/Moscow",468825],
+  ["Kirov","Russia",58.5966,49.6601,173,"Europe/Volgograd",457383],
+  ["Cheboksary","Russia",56.1322,47.2519,106,"Europe/Moscow",446781],
+  ["Kaliningrad","Russia",54.7065,20.5110,2,"Europe/Kaliningrad",434954],
+  ["Bryansk","Russia",53.2521,34.3717,206,"Europe/Moscow",427236],
+  ["Ivanovo","Russia",56.9972,40.9714,126,"Europe/Moscow",420839],
+  ["Magnitogorsk","Russia",53.4186,59.0472,361,"Asia/Yekaterinburg",413351],
+  ["Kursk","Russia",51.7373,36.1874,219,"Europe/Moscow",409431],
+  ["Tver","Russia",56.8584,35.9006,132,"Europe/Moscow",400212],
+  ["Nizhniy Tagil","Russia",57.9194,59.9650,185,"Asia/Yekaterinburg",381116],
+  ["Stavropol'","Russia",45.0428,41.9734,575,"Europe/Moscow",363064],
+  ["Ulan-Ude","Russia",51.8272,107.6063,528,"Asia/Irkutsk",360278],
+  ["Arkhangel'sk","Russia",64.5401,40.5433,8,"Europe/Moscow",356051],
+  ["Belgorod","Russia",50.6107,36.5802,173,"Europe/Moscow",345289],
+  ["Kurgan","Russia",55.4500,65.3333,76,"Asia/Yekaterinburg",343129],
+  ["Kaluga","Russia",54.5293,36.2754,200,"Europe/Moscow",338978],
+  ["Krasnogvargeisky","Russia",59.9731,30.4761,17,"Europe/Moscow",337091],
+  ["Sochi","Russia",43.5992,39.7257,14,"Europe/Moscow",327608],
+  ["Orel","Russia",52.9651,36.0785,154,"Europe/Moscow",324200],
+  ["Volzhskiy","Russia",48.7858,44.7797,23,"Europe/Volgograd",323293],
+  ["Smolensk","Russia",54.7818,32.0401,250,"Europe/Moscow",320991],
+  ["Murmansk","Russia",68.9792,33.0925,96,"Europe/Moscow",319263],
+  ["Vladikavkaz","Russia",43.0367,44.6678,671,"Europe/Moscow",317370],
+  ["Cherepovets","Russia",59.1333,37.9000,136,"Europe/Moscow",315738],
+  ["Vologda","Russia",59.2239,39.8840,112,"Europe/Moscow",314900],
+  ["Vladimir","Russia",56.1365,40.3966,140,"Europe/Moscow",310024],
+  ["Chita","Russia",52.0317,113.5009,668,"Asia/Yakutsk",308500],
+  ["Saransk","Russia",54.1838,45.1749,173,"Europe/Moscow",303394],
+  ["Surgut","Russia",61.2500,73.4167,37,"Asia/Yekaterinburg",300367],
+  ["Tambov","Russia",52.7317,41.4433,128,"Europe/Moscow",290933],
+  ["Yoshkar-Ola","Russia",56.6388,47.8908,94,"Europe/Moscow",279100],
+  ["Taganrog","Russia",47.2362,38.8969,31,"Europe/Moscow",279056],
+  ["Kostroma","Russia",57.7665,40.9269,109,"Europe/Moscow",277656],
+  ["Komsomolsk-on-Amur","Russia",50.5503,137.0100,36,"Asia/Vladivostok",275908],
+  ["Nal'chik","Russia",43.4981,43.6189,464,"Europe/Moscow",272800],
+  ["Sterlitamak","Russia",53.6246,55.9502,148,"Asia/Yekaterinburg",267231],
+  ["Petrozavodsk","Russia",61.7849,34.3469,73,"Europe/Moscow",265025],
+  ["Bratsk","Russia",56.1325,101.6142,443,"Asia/Irkutsk",256600],
+  ["Dzerzhinsk","Russia",56.2414,43.4554,92,"Europe/Moscow",256537],
+  ["Orsk","Russia",51.2049,58.5669,192,"Asia/Yekaterinburg",246836],
+  ["Nizhnevartovsk","Russia",60.9344,76.5531,50,"Asia/Yekaterinburg",244937],
+  ["Angarsk","Russia",52.5367,103.8864,437,"Asia/Irkutsk",243158],
+  ["Mar'ino","Russia",55.6500,37.7167,118,"Europe/Moscow",243000],
+  ["Novorossiysk","Russia",44.7244,37.7675,9,"Europe/Moscow",241856],
+  ["Yakutsk","Russia",62.0339,129.7331,126,"Asia/Yakutsk",235600],
+  ["Nizhnekamsk","Russia",55.6366,51.8245,119,"Europe/Moscow",234297],
+  ["Syktyvkar","Russia",61.6764,50.8099,150,"Europe/Moscow",230139],
+  ["Staryy Oskol","Russia",51.2967,37.8417,139,"Europe/Moscow",226977],
+  ["Groznyy","Russia",43.3120,45.6889,128,"Europe/Moscow",226100],
+  ["Shakhty","Russia",47.7091,40.2144,114,"Europe/Moscow",221312],
+  ["Blagoveshchensk","Russia",50.2796,127.5405,131,"Asia/Yakutsk",221296],
+  ["Prokop'yevsk","Russia",53.9059,86.7190,321,"Asia/Novokuznetsk",219000],
+  ["Rybinsk","Russia",58.0446,38.8426,98,"Europe/Moscow",216724],
+  ["Vykhino-Zhulebino","Russia",55.7020,37.8118,133,"Europe/Moscow",216000],
+  ["Zelenograd","Russia",55.9825,37.1814,220,"Europe/Moscow",215727],
+  ["Biysk","Russia",52.5364,85.2072,172,"Asia/Omsk",215430],
+  ["Velikiy Novgorod","Russia",58.5167,31.2833,26,"Europe/Moscow",215062],
+  ["Centralniy","Russia",59.9311,30.3607,18,"Europe/Moscow",214625],
+  ["Vasyl'evsky Ostrov","Russia",59.9409,30.2538,7,"Europe/Moscow",203058],
+  ["Pskov","Russia",57.8136,28.3496,51,"Europe/Moscow",201990],
+  ["Severnyy","Russia",55.9358,37.5489,186,"Europe/Moscow",200000],
+  ["Balakovo","Russia",52.0278,47.8007,28,"Europe/Volgograd",199572],
+  ["Armavir","Russia",44.9892,41.1234,201,"Europe/Moscow",199548],
+  ["Engel's","Russia",51.4839,46.1053,12,"Europe/Volgograd",196011],
+  ["Severodvinsk","Russia",64.5635,39.8302,8,"Europe/Moscow",194292],
+  ["Zlatoust","Russia",55.1711,59.6508,548,"Asia/Yekaterinburg",191366],
+  ["Syzran'","Russia",53.1585,48.4681,39,"Europe/Samara",189338],
+  ["Petropavlovsk-Kamchatskiy","Russia",53.0444,158.6508,145,"Asia/Kamchatka",187282],
+  ["Kamensk-Ural'skiy","Russia",56.4185,61.9329,173,"Asia/Yekaterinburg",182500],
+  ["Yasenevo","Russia",55.6069,37.5199,228,"Europe/Moscow",180000],
+  ["Podol'sk","Russia",55.4242,37.5547,162,"Europe/Moscow",179400],
+  ["Yuzhno-Sakhalinsk","Russia",46.9541,142.7360,48,"Asia/Sakhalin",176484],
+  ["Lyublino","Russia",55.6792,37.7525,142,"Europe/Moscow",172000],
+  ["Berezniki","Russia",59.4091,56.8204,189,"Asia/Yekaterinburg",167748],
+  ["Volgodonsk","Russia",47.5136,42.1514,49,"Europe/Moscow",167731],
+  ["Miass","Russia",55.0450,60.1083,341,"Asia/Yekaterinburg",167500],
+  ["Abakan","Russia",53.7156,91.4292,248,"Asia/Krasnoyarsk",167289],
+  ["Novocherkassk","Russia",47.4202,40.0913,85,"Europe/Moscow",166974],
+  ["Nazran'","Russia",43.2260,44.7732,523,"Europe/Moscow",164131],
+  ["Rubtsovsk","Russia",51.5000,81.2500,208,"Asia/Omsk",161065],
+  ["Mytishchi","Russia",55.9116,37.7308,158,"Europe/Moscow",160542],
+  ["Salavat","Russia",53.3837,55.9077,159,"Asia/Yekaterinburg",159893],
+  ["Bibirevo","Russia",55.8833,37.6000,155,"Europe/Moscow",159000],
+  ["Khoroshevo-Mnevniki","Russia",55.7836,37.4714,148,"Europe/Moscow",159000],
+  ["Maykop","Russia",44.6078,40.1058,227,"Europe/Moscow",158451],
+  ["Gol'yanovo","Russia",55.8230,37.8131,157,"Europe/Moscow",158000],
+  ["Admiralteisky","Russia",59.9084,30.2848,9,"Europe/Moscow",157897],
+  ["Ussuriysk","Russia",43.8029,131.9458,27,"Asia/Vladivostok",157068],
+  ["Lyubertsy","Russia",55.6772,37.8932,139,"Europe/Moscow",154650],
+  ["Kovrov","Russia",56.3572,41.3192,128,"Europe/Moscow",154224],
+  ["Strogino","Russia",55.8184,37.4122,125,"Europe/Moscow",152000],
+  ["Balashikha","Russia",55.8094,37.9581,147,"Europe/Moscow",150103],
+  ["Zhulebino","Russia",55.7000,37.8500,140,"Europe/Moscow",150000],
+  ["Kolomna","Russia",55.0794,38.7783,144,"Europe/Moscow",147690],
+  ["Nakhodka","Russia",42.8138,132.8735,50,"Asia/Vladivostok",146920],
+  ["Elektrostal'","Russia",55.7896,38.4467,157,"Europe/Moscow",144387],
+  ["Biryulevo","Russia",55.5864,37.6778,175,"Europe/Moscow",144000],
+  ["Orekhovo-Borisovo","Russia",55.6125,37.7264,176,"Europe/Moscow",144000],
+  ["Kuz'minki","Russia",55.7000,37.8000,144,"Europe/Moscow",143000],
+  ["Novyye Kuz'minki","Russia",55.7000,37.7500,141,"Europe/Moscow",143000],
+  ["Pyatigorsk","Russia",44.0486,43.0594,544,"Europe/Moscow",142865],
+  ["Khimki","Russia",55.8970,37.4297,185,"Europe/Moscow",142618],
+  ["Chertanovo Yuzhnoye","Russia",55.5907,37.5952,191,"Europe/Moscow",142000],
+  ["Zheleznodorozhnyy","Russia",55.7440,38.0168,146,"Europe/Moscow",141648],
+  ["Noril'sk","Russia",69.3535,88.2027,76,"Asia/Krasnoyarsk",140800],
+  ["Al'met'yevsk","Russia",54.9044,52.3154,121,"Europe/Moscow",140437],
+  ["Korolev","Russia",55.9142,37.8256,161,"Europe/Moscow",139798],
+  ["Kolpino","Russia",59.7507,30.5886,19,"Europe/Moscow",138979],
+  ["Odintsovo","Russia",55.6780,37.2777,199,"Europe/Moscow",137041],
+  ["Perovo","Russia",55.7350,37.7909,163,"Europe/Moscow",136000],
+  ["Nevinnomyssk","Russia",44.6333,41.9444,330,"Europe/Moscow",134345],
+  ["Pervoural'sk","Russia",56.9053,59.9436,352,"Asia/Yekaterinburg",133600],
+  ["Kislovodsk","Russia",43.9133,42.7208,815,"Europe/Moscow",132771],
+  ["Dimitrovgrad","Russia",54.2139,49.6184,56,"Europe/Moscow",132226],
+  ["Novomoskovsk","Russia",54.0105,38.2846,238,"Europe/Moscow",130982],
+  ["Petrogradka","Russia",59.9657,30.3115,13,"Europe/Moscow",130455],
+  ["Ramenki","Russia",55.7000,37.5000,179,"Europe/Moscow",130000],
+  ["Zyablikovo","Russia",55.6167,37.7667,145,"Europe/Moscow",129000],
+  ["Kamyshin","Russia",50.0983,45.4160,73,"Europe/Volgograd",128626],
+  ["Novocheboksarsk","Russia",56.1110,47.4776,105,"Europe/Moscow",128468],
+  ["Serpukhov","Russia",54.9158,37.4111,138,"Europe/Moscow",128158],
+  ["Ivanovskoye","Russia",55.7667,37.8333,156,"Europe/Moscow",128000],
+  ["Orekhovo-Borisovo Severnoye","Russia",55.6167,37.6833,151,"Europe/Moscow",128000],
+  ["Murom","Russia",55.5750,42.0426,117,"Europe/Moscow",126931],
+  ["Khasavyurt","Russia",43.2509,46.5877,129,"Europe/Moscow",126829],
+  ["Neftekamsk","Russia",56.0920,54.2661,108,"Asia/Yekaterinburg",126805],
+  ["Tyoply Stan","Russia",55.6205,37.4934,240,"Europe/Moscow",125000],
+  ["Tsaritsyno","Russia",55.6254,37.6503,164,"Europe/Moscow",123000],
+  ["Presnenskiy","Russia",55.7500,37.5500,120,"Europe/Moscow",122000],
+  ["Veshnyaki","Russia",55.7239,37.8195,155,"Europe/Moscow",122000],
+  ["Zyuzino","Russia",55.6561,37.5685,203,"Europe/Moscow",121000],
+  ["Orekhovo-Zuyevo","Russia",55.8067,38.9618,123,"Europe/Moscow",120000],
+  ["Solntsevo","Russia",55.6371,37.3811,178,"Europe/Moscow",120000],
+  ["Troparevo","Russia",55.6563,37.4850,197,"Europe/Moscow",118000],
+  ["Achinsk","Russia",56.2694,90.4993,207,"Asia/Krasnoyarsk",117634],
+  ["Cherkessk","Russia",44.2233,42.0578,532,"Europe/Moscow",116224],
+  ["Taganskiy","Russia",55.7333,37.6667,135,"Europe/Moscow",116000],
+  ["Noginsk","Russia",55.8665,38.4438,129,"Europe/Moscow",115979],
+  ["Yelets","Russia",52.6237,38.5017,166,"Europe/Moscow",115688],
+  ["Novo-Peredelkino","Russia",55.6453,37.3358,166,"Europe/Moscow",115536],
+  ["Ochakovo-Matveyevskoye","Russia",55.6843,37.4465,171,"Europe/Moscow",114000],
+  ["Tobol'sk","Russia",58.1981,68.2546,90,"Asia/Yekaterinburg",113800],
+  ["Shchelkovo","Russia",55.8930,38.0586,152,"Europe/Moscow",113000],
+  ["Nefteyugansk","Russia",61.0998,72.6035,48,"Asia/Yekaterinburg",112632],
+  ["Novokuybyshevsk","Russia",53.0959,49.9462,110,"Europe/Samara",111800],
+  ["Noyabr'sk","Russia",63.1994,75.4507,113,"Asia/Yekaterinburg",110000],
+  ["Bataysk","Russia",47.1397,39.7518,7,"Europe/Moscow",109962],
+  ["Seversk","Russia",56.6006,84.8864,98,"Asia/Novosibirsk",109844],
+  ["Arzamas","Russia",55.3948,43.8399,163,"Europe/Moscow",109479],
+  ["Sergiyev Posad","Russia",56.3000,38.1333,207,"Europe/Moscow",109252],
+  ["Leninsk-Kuznetskiy","Russia",54.6567,86.1737,223,"Asia/Novokuznetsk",109023],
+  ["Kyzyl","Russia",51.7147,94.4534,625,"Asia/Krasnoyarsk",108240],
+  ["Oktyabr'skiy","Russia",54.4815,53.4710,133,"Asia/Yekaterinburg",108200],
+  ["Obninsk","Russia",55.0968,36.6101,174,"Europe/Moscow",107392],
+  ["Elista","Russia",46.3078,44.2558,94,"Europe/Moscow",106971],
+  ["Novotroitsk","Russia",51.2030,58.3267,213,"Asia/Yekaterinburg",106186],
+  ["Derbent","Russia",42.0678,48.2899,-4,"Europe/Moscow",105965],
+  ["Izmaylovo","Russia",55.7868,37.8017,164,"Europe/Moscow",104000],
+  ["Kiselevsk","Russia",53.9900,86.6621,320,"Asia/Novokuznetsk",104000],
+  ["Akademicheskoe","Russia",60.0138,30.3947,19,"Europe/Moscow",103304],
+  ["Velikiye Luki","Russia",56.3400,30.5452,103,"Europe/Moscow",103149],
+  ["Bogorodskoye","Russia",55.8135,37.7162,149,"Europe/Moscow",103000],
+  ["Pushkino","Russia",56.0172,37.8667,160,"Europe/Moscow",102816],
+  ["Artem","Russia",43.3595,132.1889,49,"Asia/Vladivostok",102300],
+  ["Ukhta","Russia",63.5671,53.6835,99,"Europe/Moscow",102187],
+  ["Brateyevo","Russia",55.6375,37.7644,119,"Europe/Moscow",102000],
+  ["Shchukino","Russia",55.8000,37.4500,153,"Europe/Moscow",102000],
+  ["Kansk","Russia",56.2017,95.7175,209,"Asia/Krasnoyarsk",101502],
+  ["Mezhdurechensk","Russia",53.6942,88.0603,241,"Asia/Novokuznetsk",101026],
+  ["Cheremushki","Russia",55.6647,37.5613,190,"Europe/Moscow",101000],
+  ["Novyye Cheremushki","Russia",55.7000,37.5833,160,"Europe/Moscow",101000],
+  ["Ryazanskiy","Russia",55.7333,37.7667,153,"Europe/Moscow",101000],
+  ["Solikamsk","Russia",59.6316,56.7685,144,"Asia/Yekaterinburg",100812],
+  ["Glazov","Russia",58.1393,52.6580,151,"Europe/Samara",100676],
+  ["Ust'-Ilimsk","Russia",58.0006,102.6619,278,"Asia/Irkutsk",100271],
+  ["Ozersk","Russia",55.7556,60.7028,251,"Asia/Yekaterinburg",100000],
+  ["Tekstil'shchiki","Russia",55.7003,37.7427,142,"Europe/Moscow",100000],
+  ["Kigali","Rwanda",-1.9500,30.0588,1542,"Africa/Kigali",745261],
+  ["Butare","Rwanda",-2.5967,29.7394,1769,"Africa/Kigali",89600],
+  ["Gitarama","Rwanda",-2.0744,29.7567,1824,"Africa/Kigali",87613],
+  ["Kingstown","Saint Vincent and the Grenadines",13.1587,-61.2248,14,"America/St_Vincent",24518],
+  ["Kingstown Park","Saint Vincent and the Grenadines",13.1583,-61.2350,16,"America/St_Vincent",17994],
+  ["Apia","Samoa",-13.8333,-171.7667,9,"Pacific/Apia",40407],
+  ["Sao Tome","São Tomé and Príncipe",0.3365,6.7273,8,"Africa/Sao_Tome",53300],
+  ["Riyadh","Saudi Arabia",24.6877,46.7219,612,"Asia/Riyadh",4205961],
+  ["Jeddah","Saudi Arabia",21.5169,39.2192,21,"Asia/Riyadh",2867446],
+  ["Mecca","Saudi Arabia",21.4267,39.8261,333,"Asia/Riyadh",1323624],
+  ["Medina","Saudi Arabia",24.4686,39.6142,603,"Asia/Riyadh",1300000],
+  ["Sultanah","Saudi Arabia",24.4926,39.5857,597,"Asia/Riyadh",946697],
+  ["Dammam","Saudi Arabia",26.4344,50.1033,10,"Asia/Riyadh",768602],
+  ["Ta'if","Saudi Arabia",21.2703,40.4158,1672,"Asia/Riyadh",530848],
+  ["Tabuk","Saudi Arabia",28.3833,36.5833,771,"Asia/Riyadh",455450],
+  ["Buraydah","Saudi Arabia",26.3260,43.9750,606,"Asia/Riyadh",391336],
+  ["Khamis Mushayt","Saudi Arabia",18.3064,42.7292,2005,"Asia/Riyadh",387553],
+  ["Al Hufuf","Saudi Arabia",25.3646,49.5653,155,"Asia/Riyadh",293179],
+  ["Al Mubarraz","Saudi Arabia",25.4100,49.5808,159,"Asia/Riyadh",290802],
+  ["Hayil","Saudi Arabia",27.5219,41.6907,1002,"Asia/Riyadh",267005],
+  ["Najran","Saudi Arabia",17.4924,44.1277,1310,"Asia/Riyadh",258573],
+  ["Al Jubayl","Saudi Arabia",27.0112,49.6583,7,"Asia/Riyadh",237274],
+  ["Abha","Saudi Arabia",18.2164,42.5053,2228,"Asia/Riyadh",210886],
+  ["Yanbu` al Bahr","Saudi Arabia",24.0891,38.0637,10,"Asia/Riyadh",200161],
+  ["Al Khubar","Saudi Arabia",26.2794,50.2083,8,"Asia/Riyadh",165799],
+  ["Unaizah","Saudi Arabia",26.0843,43.9935,666,"Asia/Riyadh",163729],
+  ["'Ar'ar","Saudi Arabia",30.9753,41.0381,555,"Asia/Riyadh",148540],
+  ["Sakaka","Saudi Arabia",29.9697,40.2064,555,"Asia/Riyadh",128332],
+  ["Jizan","Saudi Arabia",16.8892,42.5511,19,"Asia/Riyadh",105198],
+  ["Al Qurayyat","Saudi Arabia",31.3318,37.3428,498,"Asia/Riyadh",102903],
+  ["Dakar","Senegal",14.6937,-17.4441,12,"Africa/Dakar",2476400],
+  ["Grand Dakar","Senegal",14.7133,-17.4547,27,"Africa/Dakar",2352057],
+  ["Pikine","Senegal",14.7646,-17.3907,17,"Africa/Dakar",874062],
+  ["Touba","Senegal",14.8500,-15.8833,46,"Africa/Dakar",529176],
+  ["Thies Nones","Senegal",14.7833,-16.9667,85,"Africa/Dakar",252320],
+  ["Saint-Louis","Senegal",16.0179,-16.4896,8,"Africa/Dakar",176000],
+  ["Kaolack","Senegal",14.1825,-16.2533,-1,"Africa/Dakar",172305],
+  ["Ziguinchor","Senegal",12.5833,-16.2719,10,"Africa/Dakar",159778],
+  ["Tiebo","Senegal",14.6333,-16.2333,17,"Africa/Dakar",100289],
+  ["Belgrade","Serbia",44.8040,20.4651,120,"Europe/Belgrade",1273651],
+  ["Nis","Serbia",43.3247,21.9033,194,"Europe/Belgrade",250000],
+  ["Novi Sad","Serbia",45.2517,19.8369,79,"Europe/Belgrade",215400],
+  ["Zemun","Serbia",44.8431,20.4011,98,"Europe/Belgrade",155591],
+  ["Kragujevac","Serbia",44.0167,20.9167,182,"Europe/Belgrade",147473],
+  ["Cacak","Serbia",43.8914,20.3497,241,"Europe/Belgrade",117072],
+  ["Subotica","Serbia",46.1000,19.6667,115,"Europe/Belgrade",100000],
+  ["Victoria","Seychelles",-4.6167,55.4500,60,"Indian/Mahe",22881],
+  ["Freetown","Sierra Leone",8.4840,-13.2299,49,"Africa/Freetown",802639],
+  ["Bo","Sierra Leone",7.9647,-11.7383,104,"Africa/Freetown",174354],
+  ["Kenema","Sierra Leone",7.8767,-11.1875,178,"Africa/Freetown",143137],
+  ["Singapore","Singapore",1.2897,103.8501,23,"Asia/Singapore",3547809],
+  ["Bratislava","Slovakia",48.1482,17.1067,157,"Europe/Bratislava",423737],
+  ["Kosice","Slovakia",48.7139,21.2581,205,"Europe/Bratislava",236563],
+  ["Presov","Slovakia",48.9984,21.2339,247,"Europe/Bratislava",94718],
+  ["Ljubljana","Slovenia",46.0511,14.5051,295,"Europe/Ljubljana",255115],
+  ["Maribor","Slovenia",46.5547,15.6467,266,"Europe/Ljubljana",89056],
+  ["Celje","Slovenia",46.2309,15.2604,240,"Europe/Ljubljana",50039],
+  ["Honiara","Solomon Islands",-9.4333,159.9500,49,"Pacific/Guadalcanal",56298],
+  ["Mogadishu","Somalia",2.0371,45.3438,12,"Africa/Mogadishu",2587183],
+  ["Hargeysa","Somalia",9.5600,44.0650,1261,"Africa/Mogadishu",477876],
+  ["Berbera","Somalia",10.4396,45.0143,11,"Africa/Mogadishu",242344],
+  ["Kismayo","Somalia",-0.3582,42.5454,11,"Africa/Mogadishu",234852],
+  ["Marka","Somalia",1.7159,44.7717,12,"Africa/Mogadishu",230100],
+  ["Jamaame","Somalia",0.0697,42.7450,12,"Africa/Mogadishu",185270],
+  ["Baidoa","Somalia",3.1138,43.6498,441,"Africa/Mogadishu",129839],
+  ["Cape Town","South Africa",-33.9258,18.4232,16,"Africa/Johannesburg",3433441],
+  ["Durban","South Africa",-29.8579,31.0292,21,"Africa/Johannesburg",3120282],
+  ["Johannesburg","South Africa",-26.2023,28.0436,1767,"Africa/Johannesburg",2026469],
+  ["Soweto","South Africa",-26.2678,27.8585,1632,"Africa/Johannesburg",1695047],
+  ["Pretoria","South Africa",-25.7449,28.1878,1332,"Africa/Johannesburg",1619438],
+  ["Port Elizabeth","South Africa",-33.9180,25.5701,37,"Africa/Johannesburg",967677],
+  ["Pietermaritzburg","South Africa",-29.6168,30.3928,636,"Africa/Johannesburg",750845],
+  ["Benoni","South Africa",-26.1885,28.3208,1641,"Africa/Johannesburg",605344],
+  ["Tembisa","South Africa",-25.9964,28.2268,1577,"Africa/Johannesburg",511655],
+  ["East London","South Africa",-33.0153,27.9116,48,"Africa/Johannesburg",478676],
+  ["Vereeniging","South Africa",-26.6731,27.9261,1445,"Africa/Johannesburg",474681],
+  ["Bloemfontein","South Africa",-29.1211,26.2140,1396,"Africa/Johannesburg",463064],
+  ["Boksburg","South Africa",-26.2120,28.2596,1624,"Africa/Johannesburg",445168],
+  ["Welkom","South Africa",-27.9774,26.7351,1368,"Africa/Johannesburg",431944],
+  ["Newcastle","South Africa",-27.7580,29.9318,1195,"Africa/Johannesburg",404838],
+  ["Krugersdorp","South Africa",-26.0858,27.7752,1724,"Africa/Johannesburg",378821],
+  ["Botshabelo","South Africa",-29.2702,26.7052,1404,"Africa/Johannesburg",309714],
+  ["Brakpan","South Africa",-26.2366,28.3694,1631,"Africa/Johannesburg",305692],
+  ["Witbank","South Africa",-25.8713,29.2332,1629,"Africa/Johannesburg",262491],
+  ["Richards Bay","South Africa",-28.7830,32.0377,9,"Africa/Johannesburg",252968],
+  ["Vanderbijlpark","South Africa",-26.7117,27.8379,1485,"Africa/Johannesburg",246754],
+  ["Centurion","South Africa",-25.8589,28.1858,1432,"Africa/Johannesburg",233386],
+  ["Uitenhage","South Africa",-33.7576,25.3971,103,"Africa/Johannesburg",228912],
+  ["Roodepoort","South Africa",-26.1625,27.8725,1738,"Africa/Johannesburg",225000],
+  ["Noorder-Paarl","South Africa",-33.7047,18.9655,117,"Africa/Johannesburg",187865],
+  ["Springs","South Africa",-26.2500,28.4000,1630,"Africa/Johannesburg",186394],
+  ["Carletonville","South Africa",-26.3609,27.3977,1529,"Africa/Johannesburg",182304],
+  ["Klerksdorp","South Africa",-26.8521,26.6667,1318,"Africa/Johannesburg",178921],
+  ["George","South Africa",-33.9630,22.4617,232,"Africa/Johannesburg",174582],
+  ["Midrand","South Africa",-25.9895,28.1284,1562,"Africa/Johannesburg",173009],
+  ["Westonaria","South Africa",-26.3191,27.6486,1593,"Africa/Johannesburg",156831],
+  ["Middelburg","South Africa",-25.7751,29.4648,1479,"Africa/Johannesburg",154706],
+  ["Vryheid","South Africa",-27.7695,30.7917,1170,"Africa/Johannesburg",150012],
+  ["Mossel Bay","South Africa",-34.1831,22.1460,43,"Africa/Johannesburg",150000],
+  ["Orkney","South Africa",-26.9802,26.6727,1312,"Africa/Johannesburg",145801],
+  ["Kimberley","South Africa",-28.7323,24.7623,1224,"Africa/Johannesburg",142089],
+  ["eMbalenhle","South Africa",-26.5333,29.0667,1575,"Africa/Johannesburg",141741],
+  ["Nigel","South Africa",-26.4314,28.4771,1566,"Africa/Johannesburg",140644],
+  ["Mpumalanga","South Africa",-29.8129,30.6365,711,"Africa/Johannesburg",140121],
+  ["Bhisho","South Africa",-32.8472,27.4422,535,"Africa/Johannesburg",137287],
+  ["Randfontein","South Africa",-26.1844,27.7020,1716,"Africa/Johannesburg",133654],
+  ["Worcester","South Africa",-33.6465,19.4485,234,"Africa/Johannesburg",127597],
+  ["Rustenburg","South Africa",-25.6676,27.2421,1171,"Africa/Johannesburg",124064],
+  ["Polokwane","South Africa",-23.9045,29.4688,1315,"Africa/Johannesburg",123749],
+  ["Potchefstroom","South Africa",-26.7167,27.1000,1335,"Africa/Johannesburg",123669],
+  ["Virginia","South Africa",-28.1039,26.8659,1326,"Africa/Johannesburg",122502],
+  ["Brits","South Africa",-25.6347,27.7802,1118,"Africa/Johannesburg",122497],
+  ["Nelspruit","South Africa",-25.4745,30.9703,676,"Africa/Johannesburg",110159],
+  ["Phalaborwa","South Africa",-23.9430,31.1411,435,"Africa/Johannesburg",109468],
+  ["Queenstown","South Africa",-31.8976,26.8753,1081,"Africa/Johannesburg",105309],
+  ["Kroonstad","South Africa",-27.6504,27.2349,1399,"Africa/Johannesburg",103992],
+  ["Bethal","South Africa",-26.4579,29.4655,1661,"Africa/Johannesburg",101919],
+  ["Mokopane","South Africa",-24.1944,29.0097,1117,"Africa/Johannesburg",101090],
+  ["Seoul","South Korea",37.5683,126.9778,74,"Asia/Seoul",10349312],
+  ["Busan","South Korea",35.1028,129.0403,2,"Asia/Seoul",3678555],
+  ["Incheon","South Korea",37.4536,126.7317,25,"Asia/Seoul",2628000],
+  ["Daegu","South Korea",35.8703,128.5911,45,"Asia/Seoul",2566540],
+  ["Daejeon","South Korea",36.3214,127.4197,71,"Asia/Seoul",1475221],
+  ["Gwangju","South Korea",35.1547,126.9156,47,"Asia/Seoul",1416938],
+  ["Suigen","South Korea",37.2911,127.0089,58,"Asia/Seoul",1242724],
+  ["Goyang","South Korea",37.6564,126.8350,19,"Asia/Seoul",1073069],
+  ["Seongnam","South Korea",37.4386,127.1378,80,"Asia/Seoul",1031935],
+  ["Ulsan","South Korea",35.5372,129.3167,10,"Asia/Seoul",962865],
+  ["Bucheon","South Korea",37.4989,126.7831,14,"Asia/Seoul",850731],
+  ["Jeonju","South Korea",35.8219,127.1489,44,"Asia/Seoul",711424],
+  ["Ansan","South Korea",37.3236,126.8219,15,"Asia/Seoul",650728],
+  ["Cheongju","South Korea",36.6372,127.4897,49,"Asia/Seoul",634596],
+  ["Anyang","South Korea",37.3925,126.9269,52,"Asia/Seoul",634367],
+  ["Changwon","South Korea",35.2281,128.6811,27,"Asia/Seoul",550000],
+  ["Pohang","South Korea",36.0322,129.3650,6,"Asia/Seoul",500000],
+  ["Vijongbu","South Korea",37.7415,127.0474,50,"Asia/Seoul",479141],
+  ["Hwaseong","South Korea",37.2068,126.8169,19,"Asia/Seoul",476297],
+  ["Jeju","South Korea",33.5097,126.5219,19,"Asia/Seoul",408364],
+  ["Tenan","South Korea",36.8065,127.1522,40,"Asia/Seoul",365114],
+  ["Kwangmyong","South Korea",37.4772,126.8664,30,"Asia/Seoul",357545],
+  ["Kimhae","South Korea",35.2342,128.8811,13,"Asia/Seoul",356242],
+  ["Masan","South Korea",35.2081,128.5725,29,"Asia/Seoul",349706],
+  ["Chinju","South Korea",35.1928,128.0847,33,"Asia/Seoul",307242],
+  ["Yeosu","South Korea",34.7628,127.6653,10,"Asia/Seoul",295538],
+  ["Gumi","South Korea",36.1136,128.3360,63,"Asia/Seoul",291006],
+  ["Iksan","South Korea",35.9439,126.9544,16,"Asia/Seoul",283501],
+  ["Moppo","South Korea",34.7936,126.3886,4,"Asia/Seoul",268402],
+  ["Kunsan","South Korea",35.9786,126.7114,14,"Asia/Seoul",243406],
+  ["Wonju","South Korea",37.3514,127.9453,133,"Asia/Seoul",243387],
+  ["Suncheon","South Korea",34.9481,127.4895,16,"Asia/Seoul",230796],
+  ["Chuncheon","South Korea",37.8747,127.7342,92,"Asia/Seoul",209746],
+  ["Ich'on","South Korea",37.2792,127.4425,68,"Asia/Seoul",196230],
+  ["Kuri","South Korea",37.5986,127.1394,31,"Asia/Seoul",195236],
+  ["Kang-neung","South Korea",37.7556,128.8961,17,"Asia/Seoul",180611],
+  ["Yangju","South Korea",37.8331,127.0617,76,"Asia/Seoul",179923],
+  ["Osan","South Korea",37.1522,127.0706,22,"Asia/Seoul",158978],
+  ["Kyonju","South Korea",35.8428,129.2117,45,"Asia/Seoul",155237],
+  ["Gimcheon","South Korea",36.1218,128.1198,81,"Asia/Seoul",150000],
+  ["Hanam","South Korea",37.5400,127.2056,33,"Asia/Seoul",134902],
+  ["Chinhae","South Korea",35.1494,128.6597,15,"Asia/Seoul",134889],
+  ["Keizan","South Korea",35.8233,128.7378,59,"Asia/Seoul",129903],
+  ["Andong","South Korea",36.5656,128.7250,96,"Asia/Seoul",129319],
+  ["Hwado","South Korea",37.6525,127.3075,86,"Asia/Seoul",106358],
+  ["Tonghae","South Korea",37.5439,129.1069,24,"Asia/Seoul",101128],
+  ["Juba","South Sudan",4.8517,31.5825,518,"Africa/Juba",300000],
+  ["Malakal","South Sudan",9.5334,31.6605,400,"Africa/Juba",160765],
+  ["Wau","South Sudan",7.7029,27.9953,441,"Africa/Juba",127384],
+  ["Madrid","Spain",40.4165,-3.7026,665,"Europe/Madrid",3255944],
+  ["Barcelona","Spain",41.3888,2.1590,15,"Europe/Madrid",1621537],
+  ["Valencia","Spain",39.4697,-0.3774,15,"Europe/Madrid",814208],
+  ["Sevilla","Spain",37.3824,-5.9761,14,"Europe/Madrid",703206],
+  ["Zaragoza","Spain",41.6561,-0.8773,214,"Europe/Madrid",674317],
+  ["Malaga","Spain",36.7202,-4.4203,22,"Europe/Madrid",568305],
+  ["Murcia","Spain",37.9870,-1.1300,53,"Europe/Madrid",436870],
+  ["Palma","Spain",39.5694,2.6502,34,"Europe/Madrid",401270],
+  ["Las Palmas de Gran Canaria","Spain",28.0997,-15.4134,23,"Atlantic/Canary",381847],
+  ["Bilbao","Spain",43.2627,-2.9253,20,"Europe/Madrid",354860],
+  ["Alicante","Spain",38.3452,-0.4815,18,"Europe/Madrid",334757],
+  ["Cordoba","Spain",37.8916,-4.7728,107,"Europe/Madrid",328428],
+  ["Valladolid","Spain",41.6552,-4.7237,702,"Europe/Madrid",317864],
+  ["Vigo","Spain",42.2328,-8.7226,86,"Europe/Madrid",297332],
+  ["Gijon","Spain",43.5357,-5.6615,22,"Europe/Madrid",277554],
+  ["Eixample","Spain",41.3890,2.1618,44,"Europe/Madrid",262485],
+  ["L'Hospitalet de Llobregat","Spain",41.3597,2.1003,18,"Europe/Madrid",257038],
+  ["Latina","Spain",40.3890,-3.7457,652,"Europe/Madrid",256644],
+  ["Carabanchel","Spain",40.3909,-3.7242,622,"Europe/Madrid",253678],
+  ["A Coruna","Spain",43.3713,-8.3960,22,"Europe/Madrid",246056],
+  ["Puente de Vallecas","Spain",40.3924,-3.6597,636,"Europe/Madrid",244151],
+  ["Gasteiz / Vitoria","Spain",42.8500,-2.6727,547,"Europe/Madrid",235661],
+  ["Granada","Spain",37.1882,-3.6067,689,"Europe/Madrid",234325],
+  ["Elche","Spain",38.2622,-0.7011,96,"Europe/Madrid",230112],
+  ["Ciudad Lineal","Spain",40.4535,-3.6543,707,"Europe/Madrid",228171],
+  ["Oviedo","Spain",43.3603,-5.8448,237,"Europe/Madrid",224005],
+  ["Santa Cruz de Tenerife","Spain",28.4682,-16.2546,10,"Atlantic/Canary",222417],
+  ["Sant Marti","Spain",41.4181,2.1993,21,"Europe/Madrid",221029],
+  ["Fuencarral-El Pardo","Spain",40.4984,-3.7314,687,"Europe/Madrid",220085],
+  ["Badalona","Spain",41.4500,2.2474,16,"Europe/Madrid",219547],
+  ["Cartagena","Spain",37.6051,-0.9862,5,"Europe/Madrid",211996],
+  ["Terrassa","Spain",41.5667,2.0167,302,"Europe/Madrid",210941],
+  ["Jerez de la Frontera","Spain",36.6865,-6.1361,53,"Europe/Madrid",207532],
+  ["Sabadell","Spain",41.5433,2.1094,187,"Europe/Madrid",206493],
+  ["Mostoles","Spain",40.3223,-3.8650,667,"Europe/Madrid",206478],
+  ["Alcala de Henares","Spain",40.4821,-3.3600,597,"Europe/Madrid",204574],
+  ["Pamplona","Spain",42.8169,-1.6432,460,"Europe/Madrid",198491],
+  ["Fuenlabrada","Spain",40.2842,-3.7942,671,"Europe/Madrid",197836],
+  ["Almeria","Spain",36.8381,-2.4597,21,"Europe/Madrid",188810],
+  ["Leganes","Spain",40.3272,-3.7635,672,"Europe/Madrid",186066],
+  ["San Sebastian","Spain",43.3128,-1.9750,17,"Europe/Madrid",185357],
+  ["Santander","Spain",43.4647,-3.8044,28,"Europe/Madrid",182700],
+  ["Castello de la Plana","Spain",39.9833,-0.0333,30,"Europe/Madrid",180005],
+  ["Burgos","Spain",42.3502,-3.6753,869,"Europe/Madrid",178966],
+  ["Sants-Montjuic","Spain",41.3726,2.1546,44,"Europe/Madrid",177636],
+  ["Horta-Guinardo","Spain",41.4185,2.1677,166,"Europe/Madrid",169920],
+  ["Albacete","Spain",38.9942,-1.8564,695,"Europe/Madrid",169716],
+  ["Alcorcon","Spain",40.3458,-3.8249,729,"Europe/Madrid",167967],
+  ["Getafe","Spain",40.3057,-3.7330,623,"Europe/Madrid",167164],
+  ["Nou Barris","Spain",41.4416,2.1773,85,"Europe/Madrid",164981],
+  ["Hortaleza","Spain",40.4744,-3.6411,672,"Europe/Madrid",161661],
+  ["San Blas","Spain",40.4389,-3.6154,663,"Europe/Madrid",157367],
+  ["Salamanca","Spain",40.9688,-5.6639,815,"Europe/Madrid",155619],
+  ["Tetuan de las Victorias","Spain",40.4667,-3.7167,679,"Europe/Madrid",155000],
+  ["Logrono","Spain",42.4667,-2.4500,389,"Europe/Madrid",152107],
+  ["La Laguna","Spain",28.4853,-16.3201,558,"Atlantic/Canary",150661],
+  ["City Center","Spain",40.4183,-3.7027,673,"Europe/Madrid",149718],
+  ["Huelva","Spain",37.2715,-6.9495,83,"Europe/Madrid",148806],
+  ["Arganzuela","Spain",40.4002,-3.6962,605,"Europe/Madrid",148797],
+  ["Badajoz","Spain",38.8779,-6.9706,192,"Europe/Madrid",148334],
+  ["Salamanca","Spain",40.4297,-3.6797,698,"Europe/Madrid",147707],
+  ["Chamberi","Spain",40.4340,-3.7038,693,"Europe/Madrid",145934],
+  ["Sant Andreu de Palomar","Spain",41.4354,2.1898,34,"Europe/Madrid",142598],
+  ["Usera","Spain",40.3887,-3.7003,586,"Europe/Madrid",141189],
+  ["Tarragona","Spain",41.1167,1.2500,43,"Europe/Madrid",140323],
+  ["Chamartin de la Rosa","Spain",40.4500,-3.7000,685,"Europe/Madrid",140000],
+  ["Sarria-Sant Gervasi","Spain",41.4010,2.1394,124,"Europe/Madrid",140000],
+  ["Lleida","Spain",41.6167,0.6222,155,"Europe/Madrid",135919],
+  ["Marbella","Spain",36.5154,-4.8858,57,"Europe/Madrid",134623],
+  ["Leon","Spain",42.6000,-5.5703,817,"Europe/Madrid",134305],
+  ["Villaverde","Spain",40.3500,-3.7000,597,"Europe/Madrid",126802],
+  ["Cadiz","Spain",36.5298,-6.2946,18,"Europe/Madrid",126766],
+  ["Retiro","Spain",40.4132,-3.6831,665,"Europe/Madrid",126058],
+  ["Dos Hermanas","Spain",37.2829,-5.9209,45,"Europe/Madrid",122943],
+  ["Mataro","Spain",41.5421,2.4445,43,"Europe/Madrid",121722],
+  ["Gracia","Spain",41.4024,2.1564,76,"Europe/Madrid",120087],
+  ["Santa Coloma de Gramenet","Spain",41.4515,2.2081,39,"Europe/Madrid",119717],
+  ["Torrejon de Ardoz","Spain",40.4554,-3.4697,588,"Europe/Madrid",118162],
+  ["Jaen","Spain",37.7692,-3.7903,558,"Europe/Madrid",116557],
+  ["Moncloa-Aravaca","Spain",40.4355,-3.7317,615,"Europe/Madrid",116531],
+  ["Algeciras","Spain",36.1333,-5.4505,29,"Europe/Madrid",116209],
+  ["Parla","Spain",40.2360,-3.7675,648,"Europe/Madrid",115611],
+  ["Ciutat Vella","Spain",41.3802,2.1732,28,"Europe/Madrid",111290],
+  ["Delicias","Spain",41.6493,-0.9076,183,"Europe/Madrid",110520],
+  ["Ourense","Spain",42.3367,-7.8641,146,"Europe/Madrid",107742],
+  ["Alcobendas","Spain",40.5475,-3.6420,696,"Europe/Madrid",107514],
+  ["Reus","Spain",41.1561,1.1069,133,"Europe/Madrid",107118],
+  ["Moratalaz","Spain",40.4167,-3.6500,671,"Europe/Madrid",104923],
+  ["Torrevieja","Spain",37.9787,-0.6822,14,"Europe/Madrid",101792],
+  ["Telde","Spain",27.9924,-15.4192,160,"Atlantic/Canary",100015],
+  ["Colombo","Sri Lanka",6.9319,79.8478,9,"Asia/Colombo",648034],
+  ["Galkissa","Sri Lanka",6.8293,79.8630,8,"Asia/Colombo",215941],
+  ["Moratuwa","Sri Lanka",6.7730,79.8816,10,"Asia/Colombo",185031],
+  ["Jaffna","Sri Lanka",9.6684,80.0074,7,"Asia/Colombo",169102],
+  ["Negombo","Sri Lanka",7.2083,79.8358,8,"Asia/Colombo",137223],
+  ["Pita Kotte","Sri Lanka",6.8905,79.9015,20,"Asia/Colombo",118179],
+  ["Sri Jayewardenepura Kotte","Sri Lanka",6.8830,79.9071,37,"Asia/Colombo",115826],
+  ["Kandy","Sri Lanka",7.2955,80.6356,506,"Asia/Colombo",111701],
+  ["Trincomalee","Sri Lanka",8.5711,81.2335,9,"Asia/Colombo",108420],
+  ["Kalmunai","Sri Lanka",7.4090,81.8347,10,"Asia/Colombo",100171],
+  ["Khartoum","Sudan",15.5518,32.5324,381,"Africa/Khartoum",1974647],
+  ["Omdurman","Sudan",15.6445,32.4777,391,"Africa/Khartoum",1200000],
+  ["Port Sudan","Sudan",19.6175,37.2164,10,"Africa/Khartoum",489725],
+  ["Kassala","Sudan",15.4510,36.4000,507,"Africa/Khartoum",401477],
+  ["El Obeid","Sudan",13.1842,30.2167,573,"Africa/Khartoum",393311],
+  ["Al Qadarif","Sudan",14.0349,35.3834,608,"Africa/Khartoum",363945],
+  ["Kosti","Sudan",13.1629,32.6635,387,"Africa/Khartoum",345068],
+  ["Wad Medani","Sudan",14.4012,33.5199,410,"Africa/Khartoum",332714],
+  ["El Daein","Sudan",11.4619,26.1258,478,"Africa/Khartoum",264734],
+  ["El Fasher","Sudan",13.6279,25.3494,748,"Africa/Khartoum",252609],
+  ["Ad-Damazin","Sudan",11.7891,34.3592,485,"Africa/Khartoum",186051],
+  ["El Geneina","Sudan",13.4526,22.4473,797,"Africa/Khartoum",162981],
+  ["Rabak","Sudan",13.1809,32.7400,399,"Africa/Khartoum",135281],
+  ["Sinnar","Sudan",13.5691,33.5672,427,"Africa/Khartoum",130122],
+  ["Al Manaqil","Sudan",14.2459,32.9891,413,"Africa/Khartoum",128297],
+  ["An Nuhud","Sudan",12.7000,28.4333,571,"Africa/Khartoum",108008],
+  ["Atbara","Sudan",17.7022,33.9864,358,"Africa/Khartoum",107930],
+  ["Ed Damer","Sudan",17.5928,33.9592,355,"Africa/Khartoum",103941],
+  ["Paramaribo","Suriname",5.8664,-55.1668,5,"America/Paramaribo",223757],
+  ["Lelydorp","Suriname",5.7000,-55.2333,8,"America/Paramaribo",18223],
+  ["Stockholm","Sweden",59.3326,18.0649,28,"Europe/Stockholm",1253309],
+  ["Goeteborg","Sweden",57.7072,11.9668,10,"Europe/Stockholm",504084],
+  ["Malmoe","Sweden",55.6059,13.0007,10,"Europe/Stockholm",261548],
+  ["Uppsala","Sweden",59.8588,17.6389,7,"Europe/Stockholm",127734],
+  ["Vasteras","Sweden",59.6162,16.5528,16,"Europe/Stockholm",107194],
+  ["Zurich","Switzerland",47.3667,8.5500,429,"Europe/Zurich",341730],
+  ["Geneve","Switzerland",46.2022,6.1457,400,"Europe/Zurich",183981],
+  ["Basel","Switzerland",47.5584,7.5733,279,"Europe/Zurich",164488],
+  ["Bern","Switzerland",46.9481,7.4474,549,"Europe/Zurich",121631],
+  ["Lausanne","Switzerland",46.5160,6.6328,453,"Europe/Zurich",116751],
+  ["Aleppo","Syria",36.2012,37.1612,401,"Asia/Damascus",1602264],
+  ["Damascus","Syria",33.5102,36.2913,701,"Asia/Damascus",1569394],
+  ["Homs","Syria",34.7268,36.7234,513,"Asia/Damascus",775404],
+  ["Hamah","Syria",35.1318,36.7578,270,"Asia/Damascus",460602],
+  ["Latakia","Syria",35.5317,35.7901,29,"Asia/Damascus",340181],
+  ["Deir ez-Zor","Syria",35.3359,40.1408,210,"Asia/Damascus",242565],
+  ["Ar Raqqah","Syria",35.9528,39.0079,259,"Asia/Damascus",177636],
+  ["Al Bab","Syria",36.3699,37.5179,458,"Asia/Damascus",130745],
+  ["Idlib","Syria",35.9306,36.6339,442,"Asia/Damascus",128840],
+  ["Douma","Syria",33.5718,36.4027,660,"Asia/Damascus",111864],
+  ["Taipei","Taiwan",25.0478,121.5319,10,"Asia/Taipei",7871900],
+  ["Kaohsiung","Taiwan",22.6163,120.3133,9,"Asia/Taipei",1519711],
+  ["Taichung","Taiwan",24.1469,120.6839,91,"Asia/Taipei",1040725],
+  ["Tainan","Taiwan",22.9908,120.2133,26,"Asia/Taipei",771235],
+  ["Banqiao","Taiwan",25.0143,121.4672,12,"Asia/Taipei",543342],
+  ["Hsinchu","Taiwan",24.8036,120.9686,22,"Asia/Taipei",404109],
+  ["Taoyuan City","Taiwan",24.9937,121.2970,103,"Asia/Taipei",402014],
+  ["Keelung","Taiwan",25.1283,121.7419,17,"Asia/Taipei",397515],
+  ["Hualian","Taiwan",23.9769,121.6044,13,"Asia/Taipei",350468],
+  ["Taitung City","Taiwan",22.7583,121.1444,19,"Asia/Taipei",109584],
+  ["Nantou","Taiwan",23.9157,120.6639,196,"Asia/Taipei",105682],
+  ["Douliu","Taiwan",23.7094,120.5433,57,"Asia/Taipei",104723],
+  ["Dushanbe","Tajikistan",38.5358,68.7790,767,"Asia/Dushanbe",679400],
+  ["Khujand","Tajikistan",40.2826,69.6222,340,"Asia/Dushanbe",144865],
+  ["Kulob","Tajikistan",37.9146,69.7845,609,"Asia/Dushanbe",78786],
+  ["Dar es Salaam","Tanzania",-6.8235,39.2695,24,"Africa/Dar_es_Salaam",2698652],
+  ["Mwanza","Tanzania",-2.5167,32.9000,1144,"Africa/Dar_es_Salaam",436801],
+  ["Zanzibar","Tanzania",-6.1639,39.1979,14,"Africa/Dar_es_Salaam",403658],
+  ["Arusha","Tanzania",-3.3667,36.6833,1415,"Africa/Dar_es_Salaam",341136],
+  ["Mbeya","Tanzania",-8.9000,33.4500,1697,"Africa/Dar_es_Salaam",291649],
+  ["Morogoro","Tanzania",-6.8210,37.6612,504,"Africa/Dar_es_Salaam",250902],
+  ["Tanga","Tanzania",-5.0689,39.0988,22,"Africa/Dar_es_Salaam",224876],
+  ["Dodoma","Tanzania",-6.1722,35.7395,1125,"Africa/Dar_es_Salaam",180541],
+  ["Kigoma","Tanzania",-4.8769,29.6267,769,"Africa/Dar_es_Salaam",164268],
+  ["Moshi","Tanzania",-3.3500,37.3333,854,"Africa/Dar_es_Salaam",156959],
+  ["Tabora","Tanzania",-5.0162,32.8266,1191,"Africa/Dar_es_Salaam",145292],
+  ["Songea","Tanzania",-10.6833,35.6500,1113,"Africa/Dar_es_Salaam",126449],
+  ["Musoma","Tanzania",-1.5000,33.8000,1148,"Africa/Dar_es_Salaam",121119],
+  ["Iringa","Tanzania",-7.7667,35.7000,1625,"Africa/Dar_es_Salaam",111820],
+  ["Katumba","Tanzania",-9.2333,33.6167,1387,"Africa/Dar_es_Salaam",108558],
+  ["Shinyanga","Tanzania",-3.6639,33.4212,1133,"Africa/Dar_es_Salaam",107362],
+  ["Bangkok","Thailand",13.7540,100.5014,12,"Asia/Bangkok",5104476],
+  ["Samut Prakan","Thailand",13.5993,100.5968,5,"Asia/Bangkok",388920],
+  ["Mueang Nonthaburi","Thailand",13.8607,100.5148,1,"Asia/Bangkok",291555],
+  ["Udon Thani","Thailand",17.4157,102.7859,177,"Asia/Bangkok",247231],
+  ["Chon Buri","Thailand",13.3622,100.9835,8,"Asia/Bangkok",219164],
+  ["Nakhon Ratchasima","Thailand",14.9707,102.1020,187,"Asia/Bangkok",208781],
+  ["Chiang Mai","Thailand",18.7904,98.9847,313,"Asia/Bangkok",200952],
+  ["Hat Yai","Thailand",7.0084,100.4767,12,"Asia/Bangkok",191696],
+  ["Pak Kret","Thailand",13.9130,100.4988,8,"Asia/Bangkok",182926],
+  ["Si Racha","Thailand",13.1737,100.9311,13,"Asia/Bangkok",178916],
+  ["Phra Pradaeng","Thailand",13.6585,100.5336,5,"Asia/Bangkok",171333],
+  ["Lampang","Thailand",18.2923,99.4928,238,"Asia/Bangkok",156139],
+  ["Khon Kaen","Thailand",16.4467,102.8330,167,"Asia/Bangkok",147579],
+  ["Surat Thani","Thailand",9.1401,99.3331,10,"Asia/Bangkok",127201],
+  ["Ban Rangsit","Thailand",14.0277,100.7560,9,"Asia/Bangkok",123382],
+  ["Ubon Ratchathani","Thailand",15.2384,104.8487,125,"Asia/Bangkok",122533],
+  ["Nakhon Si Thammarat","Thailand",8.4333,99.9667,8,"Asia/Bangkok",120836],
+  ["Khlong Luang","Thailand",14.0647,100.6458,7,"Asia/Bangkok",118551],
+  ["Nakhon Pathom","Thailand",13.8196,100.0443,11,"Asia/Bangkok",117927],
+  ["Rayong","Thailand",12.6809,101.2580,7,"Asia/Bangkok",106737],
+  ["Phitsanulok","Thailand",16.8248,100.2586,50,"Asia/Bangkok",103427],
+  ["Dili","Timor-Leste",-8.5586,125.5736,3,"Asia/Dili",150000],
+  ["Same","Timor-Leste",-9.0058,125.6462,492,"Asia/Dili",25000],
+  ["Maliana","Timor-Leste",-8.9917,125.2197,253,"Asia/Dili",22000],
+  ["Lome","Togo",6.1375,1.2123,6,"Africa/Lome",749700],
+  ["Sokode","Togo",8.9833,1.1333,402,"Africa/Lome",117811],
+  ["Kara","Togo",9.5511,1.1861,291,"Africa/Lome",104207],
+  ["Nuku`alofa","Tonga",-21.1394,-175.2018,5,"Pacific/Tongatapu",22400],
+  ["Laventille","Trinidad and Tobago",10.6492,-61.4989,28,"America/Port_of_Spain",157258],
+  ["Chaguanas","Trinidad and Tobago",10.5167,-61.4167,18,"America/Port_of_Spain",67433],
+  ["Mon Repos","Trinidad and Tobago",10.2830,-61.4460,27,"America/Port_of_Spain",56380],
+  ["Tunis","Tunisia",36.8190,10.1658,23,"Africa/Tunis",693210],
+  ["Sfax","Tunisia",34.7406,10.7603,8,"Africa/Tunis",277278],
+  ["Sousse","Tunisia",35.8254,10.6370,24,"Africa/Tunis",164123],
+  ["Midoun","Tunisia",33.8081,10.9923,15,"Africa/Tunis",120000],
+  ["Kairouan","Tunisia",35.6781,10.0963,65,"Africa/Tunis",119794],
+  ["Bizerte","Tunisia",37.2744,9.8739,5,"Africa/Tunis",115268],
+  ["Gabes","Tunisia",33.8815,10.0982,9,"Africa/Tunis",110075],
+  ["Istanbul","Türkiye",41.0138,28.9497,39,"Europe/Istanbul",11174257],
+  ["Ankara","Türkiye",39.9199,32.8543,850,"Europe/Istanbul",3517182],
+  ["Izmir","Türkiye",38.4127,27.1384,122,"Europe/Istanbul",2500603],
+  ["Bursa","Türkiye",40.1927,29.0840,152,"Europe/Istanbul",1412701],
+  ["Adana","Türkiye",37.0017,35.3289,41,"Europe/Istanbul",1248988],
+  ["Gaziantep","Türkiye",37.0594,37.3825,842,"Europe/Istanbul",1065975],
+  ["Konya","Türkiye",37.8713,32.4846,1030,"Europe/Istanbul",875530],
+  ["Cankaya","Türkiye",39.9179,32.8627,850,"Europe/Istanbul",792189],
+  ["Antalya","Türkiye",36.9081,30.6956,61,"Europe/Istanbul",758188],
+  ["Bagcilar","Türkiye",41.0390,28.8567,105,"Europe/Istanbul",724270],
+  ["Diyarbakir","Türkiye",37.9158,40.2189,679,"Europe/Istanbul",644763],
+  ["Kayseri","Türkiye",38.7322,35.4853,1054,"Europe/Istanbul",592840],
+  ["UEskuedar","Türkiye",41.0225,29.0237,56,"Europe/Istanbul",582666],
+  ["Bahcelievler","Türkiye",41.0023,28.8598,73,"Europe/Istanbul",576799],
+  ["Umraniye","Türkiye",41.0164,29.1248,136,"Europe/Istanbul",573265],
+  ["Mercin","Türkiye",36.7953,34.6179,10,"Europe/Istanbul",537842],
+  ["Esenler","Türkiye",41.0435,28.8762,72,"Europe/Istanbul",520235],
+  ["Eskisehir","Türkiye",39.7767,30.5206,794,"Europe/Istanbul",514869],
+  ["Karabaglar","Türkiye",38.3740,27.1352,66,"Europe/Istanbul",458000],
+  ["Sanliurfa","Türkiye",37.1671,38.7939,528,"Europe/Istanbul",449549],
+  ["Malatya","Türkiye",38.3502,38.3167,963,"Europe/Istanbul",441805],
+  ["Sultangazi","Türkiye",41.1065,28.8685,144,"Europe/Istanbul",436935],
+  ["Maltepe","Türkiye",40.9357,29.1551,150,"Europe/Istanbul",427040],
+  ["Erzurum","Türkiye",39.9086,41.2769,1914,"Europe/Istanbul",420691],
+  ["Samsun","Türkiye",41.2867,36.3300,38,"Europe/Istanbul",394050],
+  ["Kahramanmaras","Türkiye",37.5847,36.9264,564,"Europe/Istanbul",376045],
+  ["Van","Türkiye",38.4924,43.3831,1711,"Europe/Istanbul",371713],
+  ["Atasehir","Türkiye",40.9833,29.1167,83,"Europe/Istanbul",361615],
+  ["Sisli","Türkiye",41.0605,28.9872,119,"Europe/Istanbul",314684],
+  ["Denizli","Türkiye",37.7742,29.0875,405,"Europe/Istanbul",313238],
+  ["Batman","Türkiye",37.8874,41.1322,574,"Europe/Istanbul",302074],
+  ["Batikent","Türkiye",39.9683,32.7308,862,"Europe/Istanbul",300000],
+  ["Elazig","Türkiye",38.6743,39.2232,1062,"Europe/Istanbul",298004],
+  ["Zeytinburnu","Türkiye",40.9944,28.9042,39,"Europe/Istanbul",288743],
+  ["Adapazari","Türkiye",40.7806,30.4033,34,"Europe/Istanbul",286787],
+  ["Sultanbeyli","Türkiye",40.9607,29.2707,151,"Europe/Istanbul",286622],
+  ["Gebze","Türkiye",40.8028,29.4307,182,"Europe/Istanbul",281436],
+  ["Sivas","Türkiye",39.7483,37.0161,1287,"Europe/Istanbul",264022],
+  ["Tarsus","Türkiye",36.9188,34.8784,28,"Europe/Istanbul",256482],
+  ["Trabzon","Türkiye",41.0050,39.7269,39,"Europe/Istanbul",244083],
+  ["Manisa","Türkiye",38.6120,27.4265,77,"Europe/Istanbul",243971],
+  ["Sancaktepe","Türkiye",41.0024,29.2319,114,"Europe/Istanbul",241000],
+  ["Balikesir","Türkiye",39.6492,27.8861,139,"Europe/Istanbul",238151],
+  ["Adiyaman","Türkiye",37.7644,38.2763,678,"Europe/Istanbul",223744],
+  ["Esenyurt","Türkiye",41.0270,28.6773,111,"Europe/Istanbul",211330],
+  ["Kirikkale","Türkiye",39.8453,33.5064,731,"Europe/Istanbul",211138],
+  ["Osmaniye","Türkiye",37.0742,36.2478,128,"Europe/Istanbul",202837],
+  ["Corlu","Türkiye",41.1592,27.8000,172,"Europe/Istanbul",202578],
+  ["Izmit","Türkiye",40.7669,29.9169,66,"Europe/Istanbul",196571],
+  ["Basaksehir","Türkiye",41.0931,28.8020,107,"Europe/Istanbul",193750],
+  ["Kutahya","Türkiye",39.4242,29.9833,947,"Europe/Istanbul",185008],
+  ["Corum","Türkiye",40.5489,34.9533,808,"Europe/Istanbul",183418],
+  ["Siverek","Türkiye",37.7550,39.3167,787,"Europe/Istanbul",175341],
+  ["Isparta","Türkiye",37.7644,30.5522,1069,"Europe/Istanbul",172334],
+  ["Bueyuekcekmece","Türkiye",41.0207,28.5850,5,"Europe/Istanbul",163140],
+  ["Aydin","Türkiye",37.8450,27.8396,67,"Europe/Istanbul",163022],
+  ["Iskenderun","Türkiye",36.5872,36.1735,9,"Europe/Istanbul",159965],
+  ["Antioch","Türkiye",36.2066,36.1572,104,"Europe/Istanbul",154803],
+  ["Viransehir","Türkiye",37.2353,39.7631,569,"Europe/Istanbul",154163],
+  ["Usak","Türkiye",38.6735,29.4058,910,"Europe/Istanbul",152862],
+  ["Aksaray","Türkiye",38.3725,34.0254,976,"Europe/Istanbul",152201],
+  ["Kiziltepe","Türkiye",37.1932,40.5880,490,"Europe/Istanbul",150174],
+  ["Afyonkarahisar","Türkiye",38.7567,30.5433,1019,"Europe/Istanbul",146136],
+  ["Inegeul","Türkiye",40.0781,29.5133,293,"Europe/Istanbul",133959],
+  ["Tokat","Türkiye",40.3139,36.5544,627,"Europe/Istanbul",129702],
+  ["Edirne","Türkiye",41.6772,26.5560,62,"Europe/Istanbul",126470],
+  ["Beylikduezue","Türkiye",40.9820,28.6399,102,"Europe/Istanbul",122452],
+  ["Tekirdag","Türkiye",40.9780,27.5085,69,"Europe/Istanbul",122287],
+  ["Karaman","Türkiye",37.1811,33.2150,1037,"Europe/Istanbul",120399],
+  ["Nazilli","Türkiye",37.9163,28.3223,89,"Europe/Istanbul",119370],
+  ["Ordu","Türkiye",40.9847,37.8789,11,"Europe/Istanbul",116788],
+  ["Siirt","Türkiye",37.9326,41.9402,893,"Europe/Istanbul",114034],
+  ["Erzincan","Türkiye",39.7522,39.4928,1215,"Europe/Istanbul",114027],
+  ["Alanya","Türkiye",36.5438,31.9998,11,"Europe/Istanbul",112969],
+  ["Turhal","Türkiye",40.3875,36.0811,538,"Europe/Istanbul",110884],
+  ["Bandirma","Türkiye",40.3522,27.9767,40,"Europe/Istanbul",107631],
+  ["Turgutlu","Türkiye",38.4953,27.6997,98,"Europe/Istanbul",103292],
+  ["Zonguldak","Türkiye",41.4514,31.7931,24,"Europe/Istanbul",100229],
+  ["Ashgabat","Turkmenistan",37.9500,58.3833,219,"Asia/Ashgabat",727700],
+  ["Turkmenabat","Turkmenistan",39.0733,63.5786,191,"Asia/Ashgabat",234817],
+  ["Dasoguz","Turkmenistan",41.8362,59.9666,87,"Asia/Ashgabat",166500],
+  ["Mary","Turkmenistan",37.5938,61.8303,223,"Asia/Ashgabat",114680],
+  ["Kampala","Uganda",0.3163,32.5822,1223,"Africa/Kampala",1353189],
+  ["Gulu","Uganda",2.7746,32.2990,1104,"Africa/Kampala",146858],
+  ["Lira","Uganda",2.2499,32.8999,1104,"Africa/Kampala",119323],
+  ["Kiev","Ukraine",50.4547,30.5238,187,"Europe/Kiev",2797553],
+  ["Kharkiv","Ukraine",49.9808,36.2527,113,"Europe/Kiev",1430885],
+  ["Dnipropetrovsk","Ukraine",48.4500,34.9833,140,"Europe/Kiev",1032822],
+  ["Donets'k","Ukraine",48.0230,37.8022,223,"Europe/Kiev",1024700],
+  ["Odessa","Ukraine",46.4775,30.7326,58,"Europe/Kiev",1001558],
+  ["Zaporizhzhya","Ukraine",47.8229,35.1903,84,"Europe/Zaporozhye",796217],
+  ["L'viv","Ukraine",49.8383,24.0232,284,"Europe/Kiev",717803],
+  ["Kryvyy Rih","Ukraine",47.9097,33.3804,99,"Europe/Kiev",652380],
+  ["Mykolayiv","Ukraine",46.9659,31.9974,18,"Europe/Kiev",510840],
+  ["Mariupol","Ukraine",47.0951,37.5413,65,"Europe/Kiev",481626],
+  ["Luhans'k","Ukraine",48.5671,39.3171,103,"Europe/Zaporozhye",452000],
+  ["Khmel'nyts'kyy","Ukraine",49.4216,26.9965,286,"Europe/Kiev",398346],
+  ["Sevastopol","Ukraine",44.5888,33.5224,72,"Europe/Simferopol",379200],
+  ["Makiyivka","Ukraine",48.0478,37.9258,223,"Europe/Kiev",376610],
+  ["Simferopol'","Ukraine",44.9572,34.1108,247,"Europe/Simferopol",358108],
+  ["Vinnytsya","Ukraine",49.2328,28.4810,235,"Europe/Kiev",352115],
+  ["Kherson","Ukraine",46.6558,32.6178,51,"Europe/Kiev",320477],
+  ["Poltava","Ukraine",49.5937,34.5407,159,"Europe/Kiev",317847],
+  ["Chernihiv","Ukraine",51.5055,31.2849,127,"Europe/Kiev",307684],
+  ["Cherkasy","Ukraine",49.4285,32.0621,107,"Europe/Kiev",297568],
+  ["Sumy","Ukraine",50.9216,34.8003,143,"Europe/Kiev",294456],
+  ["Zhytomyr","Ukraine",50.2649,28.6767,228,"Europe/Kiev",282192],
+  ["Horlivka","Ukraine",48.3470,38.0542,284,"Europe/Kiev",278550],
+  ["Rivne","Ukraine",50.6231,26.2274,207,"Europe/Kiev",255106],
+  ["Kirovohrad","Ukraine",48.5132,32.2597,114,"Europe/Kiev",249454],
+  ["Dniprodzerzhyns'k","Ukraine",48.5113,34.6021,94,"Europe/Kiev",248575],
+  ["Chernivtsi","Ukraine",48.2915,25.9403,228,"Europe/Kiev",236250],
+  ["Ternopil'","Ukraine",49.5559,25.6056,332,"Europe/Kiev",235676],
+  ["Kremenchuk","Ukraine",49.0680,33.4204,66,"Europe/Kiev",227494],
+  ["Luts'k","Ukraine",50.7593,25.3424,192,"Europe/Kiev",213661],
+  ["Ivano-Frankivs'k","Ukraine",48.9215,24.7097,259,"Europe/Kiev",204200],
+  ["Bila Tserkva","Ukraine",49.8094,30.1121,178,"Europe/Kiev",199163],
+  ["Kramators'k","Ukraine",48.7231,37.5563,74,"Europe/Kiev",173700],
+  ["Melitopol'","Ukraine",46.8489,35.3653,37,"Europe/Zaporozhye",158000],
+  ["Kerch","Ukraine",45.3607,36.4706,3,"Europe/Simferopol",152195],
+  ["Nikopol'","Ukraine",47.5712,34.3964,67,"Europe/Kiev",130500],
+  ["Syeverodonets'k","Ukraine",48.9483,38.4917,74,"Europe/Zaporozhye",130000],
+  ["Sloviansk","Ukraine",48.8667,37.6167,61,"Europe/Kiev",124800],
+  ["Berdyans'k","Ukraine",46.7663,36.7988,29,"Europe/Zaporozhye",118284],
+  ["Uzhhorod","Ukraine",48.6167,22.3000,119,"Europe/Uzhgorod",117878],
+  ["Alchevs'k","Ukraine",48.4689,38.8167,211,"Europe/Zaporozhye",116000],
+  ["Pavlohrad","Ukraine",48.5334,35.8705,70,"Europe/Kiev",115932],
+  ["Lisichansk","Ukraine",48.9049,38.4421,183,"Europe/Zaporozhye",111600],
+  ["Yevpatoriya","Ukraine",45.2009,33.3665,11,"Europe/Simferopol",105223],
+  ["Yenakiyeve","Ukraine",48.2333,38.2114,208,"Europe/Kiev",104101],
+  ["Oleksandriya","Ukraine",48.6696,33.1159,106,"Europe/Kiev",103000],
+  ["Kamieniec Podolski","Ukraine",48.6845,26.5856,227,"Europe/Kiev",100000],
+  ["Dubai","United Arab Emirates",25.2582,55.3047,11,"Asia/Dubai",1137347],
+  ["Abu Dhabi","United Arab Emirates",24.4667,54.3667,6,"Asia/Dubai",603492],
+  ["Sharjah","United Arab Emirates",25.3374,55.4121,6,"Asia/Dubai",543733],
+  ["Al Ain","United Arab Emirates",24.1917,55.7606,275,"Asia/Dubai",408733],
+  ["Ajman","United Arab Emirates",25.4111,55.4350,4,"Asia/Dubai",226172],
+  ["Ra's al Khaymah","United Arab Emirates",25.7895,55.9432,2,"Asia/Dubai",115949],
+  ["City of London","United Kingdom",51.5128,-0.0918,27,"Europe/London",7556900],
+  ["London","United Kingdom",51.5085,-0.1257,25,"Europe/London",7556900],
+  ["Birmingham","United Kingdom",52.4814,-1.8998,149,"Europe/London",984333],
+  ["Glasgow","United Kingdom",55.8651,-4.2576,40,"Europe/London",610268],
+  ["Liverpool","United Kingdom",53.4106,-2.9779,30,"Europe/London",468945],
+  ["Leeds","United Kingdom",53.7965,-1.5478,50,"Europe/London",455123],
+  ["Sheffield","United Kingdom",53.3830,-1.4659,75,"Europe/London",447047],
+  ["Edinburgh","United Kingdom",55.9521,-3.1965,66,"Europe/London",435791],
+  ["Bristol","United Kingdom",51.4552,-2.5966,21,"Europe/London",430713],
+  ["Manchester","United Kingdom",53.4809,-2.2374,51,"Europe/London",395515],
+  ["Leicester","United Kingdom",52.6386,-1.1317,65,"Europe/London",339239],
+  ["Islington","United Kingdom",51.5362,-0.1030,37,"Europe/London",319143],
+  ["Coventry","United Kingdom",52.4066,-1.5122,89,"Europe/London",308313],
+  ["Hull","United Kingdom",53.7446,-0.3352,8,"Europe/London",302296],
+  ["Cardiff","United Kingdom",51.4800,-3.1800,17,"Europe/London",302139],
+  ["Bradford","United Kingdom",53.7939,-1.7521,110,"Europe/London",299310],
+  ["Belfast","United Kingdom",54.5833,-5.9333,17,"Europe/London",274770],
+  ["Stoke-on-Trent","United Kingdom",53.0042,-2.1854,114,"Europe/London",260419],
+  ["Wolverhampton","United Kingdom",52.5855,-2.1230,160,"Europe/London",252791],
+  ["Plymouth","United Kingdom",50.3715,-4.1430,14,"Europe/London",247297],
+  ["Nottingham","United Kingdom",52.9536,-1.1505,46,"Europe/London",246654],
+  ["Southampton","United Kingdom",50.9040,-1.4043,19,"Europe/London",246201],
+  ["Reading","United Kingdom",51.4562,-0.9711,51,"Europe/London",244070],
+  ["Derby","United Kingdom",52.9228,-1.4766,55,"Europe/London",235029],
+  ["Bexley","United Kingdom",51.4416,0.1487,16,"Europe/London",228000],
+  ["Dudley","United Kingdom",52.5000,-2.0833,161,"Europe/London",199059],
+  ["Northampton","United Kingdom",52.2500,-0.8833,97,"Europe/London",197322],
+  ["Portsmouth","United Kingdom",50.7990,-1.0913,6,"Europe/London",194150],
+  ["Luton","United Kingdom",51.8797,-0.4175,117,"Europe/London",193669],
+  ["Newcastle upon Tyne","United Kingdom",54.9733,-1.6140,54,"Europe/London",192382],
+  ["Preston","United Kingdom",53.7667,-2.7167,22,"Europe/London",190687],
+  ["Sutton","United Kingdom",51.3500,-0.2000,83,"Europe/London",187600],
+  ["Milton Keynes","United Kingdom",52.0417,-0.7558,114,"Europe/London",184506],
+  ["Aberdeen","United Kingdom",57.1437,-2.0981,13,"Europe/London",183790],
+  ["Sunderland","United Kingdom",54.9046,-1.3822,36,"Europe/London",177965],
+  ["Norwich","United Kingdom",52.6278,1.2983,19,"Europe/London",177636],
+  ["Walsall","United Kingdom",52.5853,-1.9840,129,"Europe/London",172141],
+  ["Swansea","United Kingdom",51.6208,-3.9432,18,"Europe/London",170883],
+  ["Bournemouth","United Kingdom",50.7205,-1.8795,19,"Europe/London",163600],
+  ["Southend-on-Sea","United Kingdom",51.5378,0.7143,31,"Europe/London",163377],
+  ["Swindon","United Kingdom",51.5580,-1.7812,113,"Europe/London",155432],
+  ["Oxford","United Kingdom",51.7522,-1.2560,72,"Europe/London",154566],
+  ["Dundee","United Kingdom",56.4691,-2.9749,56,"Europe/London",151592],
+  ["Poole","United Kingdom",50.7167,-2.0000,1,"Europe/London",150092],
+  ["Huddersfield","United Kingdom",53.6490,-1.7842,90,"Europe/London",149017],
+  ["York","United Kingdom",53.9576,-1.0827,17,"Europe/London",144202],
+  ["Ipswich","United Kingdom",52.0592,1.1555,18,"Europe/London",143767],
+  ["Blackpool","United Kingdom",53.8167,-3.0500,21,"Europe/London",143101],
+  ["Middlesbrough","United Kingdom",54.5762,-1.2348,15,"Europe/London",142707],
+  ["Bolton","United Kingdom",53.5833,-2.4333,105,"Europe/London",141331],
+  ["Peterborough","United Kingdom",52.5736,-0.2478,12,"Europe/London",140141],
+  ["Stockport","United Kingdom",53.4098,-2.1576,59,"Europe/London",139052],
+  ["Brighton","United Kingdom",50.8284,-0.1395,29,"Europe/London",139001],
+  ["Telford","United Kingdom",52.6766,-2.4493,163,"Europe/London",138241],
+  ["West Bromwich","United Kingdom",52.5187,-1.9945,165,"Europe/London",135618],
+  ["Slough","United Kingdom",51.5095,-0.5954,33,"Europe/London",134072],
+  ["Gloucester","United Kingdom",51.8657,-2.2431,24,"Europe/London",128721],
+  ["Cambridge","United Kingdom",52.2000,0.1167,12,"Europe/London",128488],
+  ["Watford","United Kingdom",51.6553,-0.3960,77,"Europe/London",125707],
+  ["Rotherham","United Kingdom",53.4301,-1.3568,41,"Europe/London",117618],
+  ["Newport","United Kingdom",51.5877,-2.9983,16,"Europe/London",117326],
+  ["Exeter","United Kingdom",50.7236,-3.5275,46,"Europe/London",113118],
+  ["Eastbourne","United Kingdom",50.7687,0.2845,8,"Europe/London",112906],
+  ["Mendip","United Kingdom",51.2372,-2.6266,293,"Europe/London",110000],
+  ["Colchester","United Kingdom",51.8892,0.9042,29,"Europe/London",109414],
+  ["Dagenham","United Kingdom",51.5500,0.1667,13,"Europe/London",108368],
+  ["Crawley","United Kingdom",51.1130,-0.1831,84,"Europe/London",107061],
+  ["Sutton Coldfield","United Kingdom",52.5667,-1.8167,119,"Europe/London",107030],
+  ["Blackburn","United Kingdom",53.7500,-2.4833,121,"Europe/London",106154],
+  ["Oldham","United Kingdom",53.5405,-2.1183,204,"Europe/London",104782],
+  ["Woking","United Kingdom",51.3190,-0.5589,39,"Europe/London",103932],
+  ["Cheltenham","United Kingdom",51.9000,-2.0833,62,"Europe/London",103249],
+  ["Chelmsford","United Kingdom",51.7358,0.4696,33,"Europe/London",102671],
+  ["Saint Helens","United Kingdom",53.4500,-2.7333,31,"Europe/London",102555],
+  ["Basildon","United Kingdom",51.5684,0.4578,31,"Europe/London",101362],
+  ["Gillingham","United Kingdom",51.3891,0.5486,31,"Europe/London",101187],
+  ["Worcester","United Kingdom",52.1893,-2.2200,29,"Europe/London",100023],
+  ["Becontree","United Kingdom",51.5529,0.1290,11,"Europe/London",100000],
+  ["New York City","United States",40.7143,-74.0060,10,"America/New_York",8175133],
+  ["Los Angeles","United States",34.0522,-118.2437,89,"America/Los_Angeles",3792621],
+  ["Chicago","United States",41.8500,-87.6500,179,"America/Chicago",2695598],
+  ["Brooklyn","United States",40.6501,-73.9496,15,"America/New_York",2300664],
+  ["Borough of Queens","United States",40.6815,-73.8365,12,"America/New_York",2272771],
+  ["Houston","United States",29.7633,-95.3633,12,"America/Chicago",2099451],
+  ["Philadelphia","United States",39.9523,-75.1638,12,"America/New_York",1526006],
+  ["Manhattan","United States",40.7834,-73.9663,35,"America/New_York",1487536],
+  ["Phoenix","United States",33.4484,-112.0740,331,"America/Phoenix",1445632],
+  ["Borough of Bronx","United States",40.8499,-73.8664,23,"America/New_York",1385108],
+  ["San Antonio","United States",29.4241,-98.4936,198,"America/Chicago",1327407],
+  ["San Diego","United States",32.7153,-117.1573,20,"America/Los_Angeles",1307402],
+  ["Dallas","United States",32.7831,-96.8067,128,"America/Chicago",1197816],
+  ["San Jose","United States",37.3394,-121.8950,26,"America/Los_Angeles",945942],
+  ["Indianapolis","United States",39.7684,-86.1580,218,"America/Indiana/Indianapolis",829718],
+  ["Jacksonville","United States",30.3322,-81.6556,5,"America/New_York",821784],
+  ["San Francisco","United States",37.7749,-122.4194,16,"America/Los_Angeles",805235],
+  ["Austin","United States",30.2672,-97.7431,149,"America/Chicago",790390],
+  ["Columbus","United States",39.9612,-82.9988,235,"America/New_York",787033],
+  ["Fort Worth","United States",32.7254,-97.3208,199,"America/Chicago",741206],
+  ["Charlotte","United States",35.2271,-80.8431,229,"America/New_York",731424],
+  ["Detroit","United States",42.3314,-83.0457,183,"America/Detroit",713777],
+  ["El Paso","United States",31.7587,-106.4869,1133,"America/Denver",649121],
+  ["Memphis","United States",35.1495,-90.0490,78,"America/Chicago",646889],
+  ["New South Memphis","United States",35.0868,-90.0568,79,"America/Chicago",641608],
+  ["Baltimore","United States",39.2904,-76.6122,10,"America/New_York",620961],
+  ["Boston","United States",42.3584,-71.0598,14,"America/New_York",617594],
+  ["Seattle","United States",47.6062,-122.3321,56,"America/Los_Angeles",608660],
+  ["Washington, D. C.","United States",38.8951,-77.0364,7,"America/New_York",601723],
+  ["Metropolitan Government of Nashville-Davidson (balance)","United States",36.1714,-86.7843,128,"America/Chicago",601222],
+  ["Denver","United States",39.7392,-104.9847,1609,"America/Denver",600158],
+  ["Milwaukee","United States",43.0389,-87.9065,188,"America/Chicago",594833],
+  ["Portland","United States",45.5234,-122.6762,12,"America/Los_Angeles",583776],
+  ["Las Vegas","United States",36.1750,-115.1372,610,"America/Los_Angeles",583756],
+  ["Oklahoma City","United States",35.4676,-97.5164,366,"America/Chicago",579999],
+  ["South Boston","United States",42.3334,-71.0495,14,"America/New_York",571281],
+  ["Albuquerque","United States",35.0845,-106.6511,1511,"America/Denver",545852],
+  ["Nashville","United States",36.1659,-86.7844,170,"America/Chicago",530852],
+  ["Tucson","United States",32.2217,-110.9265,759,"America/Phoenix",520116],
+  ["Fresno","United States",36.7477,-119.7724,94,"America/Los_Angeles",494665],
+  ["Staten Island","United States",40.5623,-74.1399,21,"America/New_York",468730],
+  ["Sacramento","United States",38.5816,-121.4944,9,"America/Los_Angeles",466488],
+  ["Long Beach","United States",33.7670,-118.1892,9,"America/Los_Angeles",462257],
+  ["Kansas City","United States",39.0997,-94.5786,274,"America/Chicago",459787],
+  ["Mesa","United States",33.4223,-111.8226,378,"America/Phoenix",439041],
+  ["Virginia Beach","United States",36.8529,-75.9780,3,"America/New_York",437994],
+  ["Atlanta","United States",33.7490,-84.3880,320,"America/New_York",420003],
+  ["Colorado Springs","United States",38.8339,-104.8214,1832,"America/Denver",416427],
+  ["Omaha","United States",41.2586,-95.9378,323,"America/Chicago",408958],
+  ["Raleigh","United States",35.7721,-78.6386,96,"America/New_York",403892],
+  ["Miami","United States",25.7743,-80.1937,2,"America/New_York",399457],
+  ["Cleveland","United States",41.4995,-81.6954,199,"America/New_York",396815],
+  ["Tulsa","United States",36.1540,-95.9928,220,"America/Chicago",391906],
+  ["Oakland","United States",37.8044,-122.2708,13,"America/Los_Angeles",390724],
+  ["Minneapolis","United States",44.9800,-93.2638,253,"America/Chicago",382578],
+  ["Wichita","United States",37.6922,-97.3375,396,"America/Chicago",382368],
+  ["Honolulu","United States",21.3069,-157.8583,5,"Pacific/Honolulu",371657],
+  ["Arlington","United States",32.7357,-97.1081,184,"America/Chicago",365438],
+  ["Bakersfield","United States",35.3733,-119.0187,123,"America/Los_Angeles",347483],
+  ["New Orleans","United States",29.9547,-90.0751,0,"America/Chicago",343829],
+  ["West Raleigh","United States",35.7868,-78.6639,122,"America/New_York",338759],
+  ["Anaheim","United States",33.8353,-117.9145,48,"America/Los_Angeles",336265],
+  ["Tampa","United States",27.9475,-82.4584,1,"America/New_York",335709],
+  ["Aurora","United States",39.7294,-104.8319,1648,"America/Denver",325078],
+  ["Santa Ana","United States",33.7456,-117.8678,35,"America/Los_Angeles",324528],
+  ["St. Louis","United States",38.6273,-90.1979,142,"America/Chicago",319294],
+  ["Pittsburgh","United States",40.4406,-79.9959,233,"America/New_York",305704],
+  ["Corpus Christi","United States",27.8006,-97.3964,2,"America/Chicago",305215],
+  ["Riverside","United States",33.9534,-117.3962,252,"America/Los_Angeles",303871],
+  ["Cincinnati","United States",39.1620,-84.4569,191,"America/New_York",296943],
+  ["Lexington-Fayette","United States",38.0498,-84.4586,305,"America/New_York",295803],
+  ["Anchorage","United States",61.2181,-149.9003,31,"America/Anchorage",291826],
+  ["Stockton","United States",37.9577,-121.2908,4,"America/Los_Angeles",291707],
+  ["Ironville","United States",38.4565,-82.6924,219,"America/New_York",288649],
+  ["Meads","United States",38.4126,-82.7091,185,"America/New_York",288649],
+  ["Toledo","United States",41.6639,-83.5552,186,"America/New_York",287208],
+  ["Saint Paul","United States",44.9444,-93.0933,242,"America/Chicago",285068],
+  ["Newark","United States",40.7357,-74.1724,9,"America/New_York",277140],
+  ["Greensboro","United States",36.0726,-79.7920,266,"America/New_York",269666],
+  ["Buffalo","United States",42.8865,-78.8784,183,"America/New_York",261310],
+  ["Plano","United States",33.0198,-96.6989,203,"America/Chicago",259841],
+  ["Lincoln","United States",40.8000,-96.6670,367,"America/Chicago",258379],
+  ["Henderson","United States",36.0397,-114.9819,569,"America/Los_Angeles",257729],
+  ["Fort Wayne","United States",41.1306,-85.1289,247,"America/Indiana/Indianapolis",253691],
+  ["Jersey City","United States",40.7282,-74.0776,9,"America/New_York",247597],
+  ["Saint Petersburg","United States",27.7709,-82.6793,13,"America/New_York",244769],
+  ["Chula Vista","United States",32.6401,-117.0842,21,"America/Los_Angeles",243916],
+  ["Louisville","United States",38.2542,-85.7594,142,"America/Kentucky/Louisville",243639],
+  ["Norfolk","United States",36.8468,-76.2852,2,"America/New_York",242803],
+  ["Orlando","United States",28.5383,-81.3792,30,"America/New_York",238300],
+  ["Chandler","United States",33.3062,-111.8413,370,"America/Phoenix",236123],
+  ["Laredo","United States",27.5064,-99.5075,126,"America/Chicago",236091],
+  ["Madison","United States",43.0731,-89.4012,267,"America/Chicago",233209],
+  ["Winston-Salem","United States",36.0999,-80.2442,293,"America/New_York",229617],
+  ["Lubbock","United States",33.5779,-101.8552,976,"America/Chicago",229573],
+  ["Baton Rouge","United States",30.4507,-91.1546,14,"America/Chicago",229493],
+  ["Durham","United States",35.9940,-78.8986,123,"America/New_York",228330],
+  ["Garland","United States",32.9126,-96.6389,168,"America/Chicago",226876],
+  ["Glendale","United States",33.5386,-112.1860,351,"America/Phoenix",226721],
+  ["Lexington","United States",37.9887,-84.4777,295,"America/New_York",225366],
+  ["Reno","United States",39.5296,-119.8138,1373,"America/Los_Angeles",225221],
+  ["Hialeah","United States",25.8576,-80.2781,2,"America/New_York",224669],
+  ["Paradise","United States",36.0972,-115.1467,627,"America/Los_Angeles",223167],
+  ["Chesapeake","United States",36.8190,-76.2749,3,"America/New_York",222209],
+  ["Scottsdale","United States",33.5092,-111.8990,383,"America/Phoenix",217385],
+  ["North Las Vegas","United States",36.1989,-115.1175,565,"America/Los_Angeles",216961],
+  ["Jamaica","United States",40.6915,-73.8057,13,"America/New_York",216866],
+  ["Irving","United States",32.8140,-96.9489,147,"America/Chicago",216290],
+  ["Fremont","United States",37.5483,-121.9886,17,"America/Los_Angeles",214089],
+  ["Irvine","United States",33.6695,-117.8231,17,"America/Los_Angeles",212375],
+  ["Birmingham","United States",33.5207,-86.8025,187,"America/Chicago",212237],
+  ["Rochester","United States",43.1548,-77.6156,154,"America/New_York",210565],
+  ["San Bernardino","United States",34.1083,-117.2898,321,"America/Los_Angeles",209924],
+  ["Spokane","United States",47.6597,-117.4291,571,"America/Los_Angeles",208916],
+  ["Gilbert","United States",33.3528,-111.7890,377,"America/Phoenix",208453],
+  ["Arlington","United States",38.8810,-77.1043,71,"America/New_York",207627],
+  ["Montgomery","United States",32.3668,-86.3000,73,"America/Chicago",205764],
+  ["Richmond","United States",37.5538,-77.4603,64,"America/New_York",204214],
+  ["Des Moines","United States",41.6005,-93.6091,266,"America/Chicago",203433],
+  ["North Glendale","United States",34.1606,-118.2645,161,"America/Los_Angeles",203201],
+  ["Modesto","United States",37.6391,-120.9969,28,"America/Los_Angeles",201165],
+  ["Fayetteville","United States",35.0527,-78.8784,29,"America/New_York",200564],
+  ["Shreveport","United States",32.5251,-93.7502,44,"America/Chicago",199311],
+  ["Akron","United States",41.0814,-81.5190,291,"America/New_York",199110],
+  ["Tacoma","United States",47.2529,-122.4443,74,"America/Los_Angeles",198397],
+  ["Aurora","United States",41.7606,-88.3201,207,"America/Chicago",197899],
+  ["Oxnard","United States",34.1975,-119.1770,16,"America/Los_Angeles",197899],
+  ["Fontana","United States",34.0922,-117.4351,377,"America/Los_Angeles",196069],
+  ["Yonkers","United States",40.9312,-73.8988,25,"America/New_York",195976],
+  ["Mobile","United States",30.6944,-88.0430,3,"America/Chicago",195111],
+  ["Little Rock","United States",34.7465,-92.2896,102,"America/Chicago",193524],
+  ["Moreno Valley","United States",33.9375,-117.2306,497,"America/Los_Angeles",193365],
+  ["Glendale","United States",34.1425,-118.2551,159,"America/Los_Angeles",191719],
+  ["Amarillo","United States",35.2220,-101.8313,1118,"America/Chicago",190695],
+  ["Huntington Beach","United States",33.6603,-117.9992,12,"America/Los_Angeles",189992],
+  ["Columbus","United States",32.4610,-84.9877,82,"America/New_York",189885],
+  ["Sunrise Manor","United States",36.2111,-115.0731,555,"America/Los_Angeles",189372],
+  ["Grand Rapids","United States",42.9634,-85.6681,195,"America/Detroit",188040],
+  ["Oxnard Shores","United States",34.1908,-119.2415,3,"America/Los_Angeles",187235],
+  ["Salt Lake City","United States",40.7608,-111.8911,1299,"America/Denver",186440],
+  ["Tallahassee","United States",30.4383,-84.2807,62,"America/New_York",181376],
+  ["Worcester","United States",42.2626,-71.8023,147,"America/New_York",181045],
+  ["Newport News","United States",36.9788,-76.4280,6,"America/New_York",180719],
+  ["Huntsville","United States",34.7304,-86.5861,193,"America/Chicago",180105],
+  ["Knoxville","United States",35.9606,-83.9207,276,"America/New_York",178874],
+  ["Spring Valley","United States",36.1080,-115.2450,721,"America/Los_Angeles",178395],
+  ["Providence","United States",41.8240,-71.4128,2,"America/New_York",178042],
+  ["Santa Clarita","United States",34.3917,-118.5426,368,"America/Los_Angeles",176320],
+  ["Grand Prairie","United States",32.7460,-96.9978,157,"America/Chicago",175396],
+  ["Brownsville","United States",25.9017,-97.4975,10,"America/Chicago",175023],
+  ["Jackson","United States",32.2988,-90.1848,85,"America/Chicago",173514],
+  ["Overland Park","United States",38.9822,-94.6708,329,"America/Chicago",173372],
+  ["East New York","United States",40.6668,-73.8824,6,"America/New_York",173198],
+  ["Garden Grove","United States",33.7739,-117.9415,27,"America/Los_Angeles",170883],
+  ["Santa Rosa","United States",38.4405,-122.7144,50,"America/Los_Angeles",167815],
+  ["Chattanooga","United States",35.0456,-85.3097,206,"America/New_York",167674],
+  ["Hollywood","United States",34.0983,-118.3267,108,"America/Los_Angeles",167664],
+  ["Oceanside","United States",33.1959,-117.3795,20,"America/Los_Angeles",167086],
+  ["Fort Lauderdale","United States",26.1223,-80.1434,1,"America/New_York",165521],
+  ["Rancho Cucamonga","United States",34.1064,-117.5931,368,"America/Los_Angeles",165269],
+  ["Port Saint Lucie","United States",27.2939,-80.3503,5,"America/New_York",164603],
+  ["Ontario","United States",34.0633,-117.6509,306,"America/Los_Angeles",163924],
+  ["Vancouver","United States",45.6387,-122.6615,52,"America/Los_Angeles",161791],
+  ["Tempe","United States",33.4148,-111.9093,360,"America/Phoenix",161719],
+  ["Springfield","United States",37.2153,-93.2982,396,"America/Chicago",159498],
+  ["Tempe Junction","United States",33.4142,-111.9435,354,"America/Phoenix",158368],
+  ["Lancaster","United States",34.6980,-118.1367,719,"America/Los_Angeles",156633],
+  ["Eugene","United States",44.0521,-123.0867,131,"America/Los_Angeles",156185],
+  ["Pembroke Pines","United States",26.0032,-80.2239,2,"America/New_York",154750],
+  ["Salem","United States",44.9429,-123.0351,49,"America/Los_Angeles",154637],
+  ["Cape Coral","United States",26.5629,-81.9495,1,"America/New_York",154305],
+  ["Peoria","United States",33.5806,-112.2374,348,"America/Phoenix",154065],
+  ["East Chattanooga","United States",35.0654,-85.2491,208,"America/New_York",154024],
+  ["Sioux Falls","United States",43.5500,-96.7003,448,"America/Chicago",153888],
+  ["Springfield","United States",42.1015,-72.5898,25,"America/New_York",153060],
+  ["Elk Grove","United States",38.4088,-121.3716,14,"America/Los_Angeles",153015],
+  ["Rockford","United States",42.2711,-89.0940,218,"America/Chicago",152871],
+  ["Palmdale","United States",34.5794,-118.1165,810,"America/Los_Angeles",152750],
+  ["Corona","United States",33.8753,-117.5664,207,"America/Los_Angeles",152374],
+  ["Salinas","United States",36.6777,-121.6555,16,"America/Los_Angeles",150441],
+  ["Pomona","United States",34.0553,-117.7523,259,"America/Los_Angeles",149058],
+  ["Pasadena","United States",29.6911,-95.2091,9,"America/Chicago",149043],
+  ["Valencia","United States",34.4436,-118.6095,310,"America/Los_Angeles",148456],
+  ["East Hampton","United States",37.0374,-76.3316,1,"America/New_York",147993],
+  ["Joliet","United States",41.5250,-88.0817,165,"America/Chicago",147433],
+  ["Paterson","United States",40.9168,-74.1718,26,"America/New_York",146199],
+  ["Boise","United States",43.6135,-116.2035,823,"America/Boise",145987],
+  ["Kansas City","United States",39.1142,-94.6275,266,"America/Chicago",145786],
+  ["Torrance","United States",33.8359,-118.3406,27,"America/Los_Angeles",145438],
+  ["Syracuse","United States",43.0481,-76.1474,121,"America/New_York",145170],
+  ["Bridgeport","United States",41.1670,-73.2048,1,"America/New_York",144229],
+  ["Hayward","United States",37.6688,-122.0808,34,"America/Los_Angeles",144186],
+  ["Fort Collins","United States",40.5853,-105.0844,1525,"America/Denver",143986],
+  ["Escondido","United States",33.1192,-117.0864,197,"America/Los_Angeles",143911],
+  ["Lakewood","United States",39.7047,-105.0814,1682,"America/Denver",142980],
+  ["Metairie Terrace","United States",29.9785,-90.1640,1,"America/Chicago",142489],
+  ["Naperville","United States",41.7859,-88.1473,216,"America/Chicago",141853],
+  ["Dayton","United States",39.7589,-84.1916,225,"America/New_York",141527],
+  ["Hollywood","United States",26.0112,-80.1495,3,"America/New_York",140768],
+  ["Sunnyvale","United States",37.3688,-122.0363,39,"America/Los_Angeles",140081],
+  ["Alexandria","United States",38.8048,-77.0469,12,"America/New_York",139966],
+  ["Mesquite","United States",32.7668,-96.5992,151,"America/Chicago",139824],
+  ["Metairie","United States",29.9841,-90.1529,1,"America/Chicago",138481],
+  ["Hampton","United States",37.0299,-76.3452,1,"America/New_York",137436],
+  ["Pasadena","United States",34.1478,-118.1445,263,"America/Los_Angeles",137122],
+  ["Van Nuys","United States",34.1867,-118.4490,217,"America/Los_Angeles",136443],
+  ["Orange","United States",33.7878,-117.8531,58,"America/Los_Angeles",136416],
+  ["Savannah","United States",32.0835,-81.0998,6,"America/New_York",136286],
+  ["Cary","United States",35.7915,-78.7811,152,"America/New_York",135234],
+  ["Fullerton","United States",33.8703,-117.9253,50,"America/Los_Angeles",135161],
+  ["Warren","United States",42.4775,-83.0277,191,"America/Detroit",134056],
+  ["Clarksville","United States",36.5298,-87.3594,145,"America/Chicago",132929],
+  ["McKinney","United States",33.1976,-96.6153,192,"America/Chicago",131117],
+  ["McAllen","United States",26.2034,-98.2300,37,"America/Chicago",129877],
+  ["New Haven","United States",41.3081,-72.9282,18,"America/New_York",129779],
+  ["Sterling Heights","United States",42.5803,-83.0302,187,"America/Detroit",129699],
+  ["West Valley City","United States",40.6916,-112.0011,1312,"America/Denver",129480],
+  ["Columbia","United States",34.0007,-81.0348,89,"America/New_York",129272],
+  ["Killeen","United States",31.1171,-97.7278,252,"America/Chicago",127921],
+  ["Topeka","United States",39.0483,-95.6780,288,"America/Chicago",127473],
+  ["Thousand Oaks","United States",34.1706,-118.8376,270,"America/Los_Angeles",126683],
+  ["East Los Angeles","United States",34.0239,-118.1720,61,"America/Los_Angeles",126496],
+  ["Cedar Rapids","United States",42.0083,-91.6441,247,"America/Chicago",126326],
+  ["Olathe","United States",38.8814,-94.8191,315,"America/Chicago",125872],
+  ["Elizabeth","United States",40.6640,-74.2107,6,"America/New_York",124969],
+  ["Waco","United States",31.5493,-97.1467,143,"America/Chicago",124805],
+  ["Hartford","United States",41.7637,-72.6851,18,"America/New_York",124775],
+  ["Visalia","United States",36.3302,-119.2921,101,"America/Los_Angeles",124442],
+  ["Gainesville","United States",29.6516,-82.3248,54,"America/New_York",124354],
+  ["Simi Valley","United States",34.2694,-118.7815,234,"America/Los_Angeles",124237],
+  ["Stamford","United States",41.0534,-73.5387,7,"America/New_York",122643],
+  ["Amherst","United States",42.9784,-78.7998,182,"America/New_York",122366],
+  ["Bellevue","United States",47.6104,-122.2007,26,"America/Los_Angeles",122363],
+  ["Concord","United States",37.9780,-122.0311,23,"America/Los_Angeles",122067],
+  ["Miramar","United States",25.9873,-80.2323,2,"America/New_York",122041],
+  ["North Stamford","United States",41.1382,-73.5435,75,"America/New_York",121230],
+  ["Coral Springs","United States",26.2712,-80.2706,3,"America/New_York",121096],
+  ["Lafayette","United States",30.2241,-92.0198,11,"America/Chicago",120623],
+  ["Charleston","United States",32.7766,-79.9309,6,"America/New_York",120083],
+  ["Carrollton","United States",32.9537,-96.8903,161,"America/Chicago",119097],
+  ["Roseville","United States",38.7521,-121.2880,50,"America/Los_Angeles",118788],
+  ["Thornton","United States",39.8680,-104.9719,1631,"America/Denver",118772],
+  ["Beaumont","United States",30.0861,-94.1018,5,"America/Chicago",118296],
+  ["Allentown","United States",40.6084,-75.4902,103,"America/New_York",118032],
+  ["Surprise","United States",33.6306,-112.3332,358,"America/Phoenix",117517],
+  ["Evansville","United States",37.9748,-87.5559,118,"America/Chicago",117429],
+  ["Abilene","United States",32.4487,-99.7331,524,"America/Chicago",117063],
+  ["Frisco","United States",33.1507,-96.8236,212,"America/Chicago",116989],
+  ["Independence","United States",39.0911,-94.4155,315,"America/Chicago",116830],
+  ["Athens","United States",33.9609,-83.3779,228,"America/New_York",116714],
+  ["Santa Clara","United States",37.3541,-121.9552,23,"America/Los_Angeles",116468],
+  ["Springfield","United States",39.8017,-89.6437,182,"America/Chicago",116250],
+  ["Vallejo","United States",38.1041,-122.2566,21,"America/Los_Angeles",115942],
+  ["Victorville","United States",34.5361,-117.2912,832,"America/Los_Angeles",115903],
+  ["Peoria","United States",40.6936,-89.5890,153,"America/Chicago",115007],
+  ["Lansing","United States",42.7325,-84.5555,260,"America/Detroit",114297],
+  ["Ann Arbor","United States",42.2776,-83.7409,269,"America/Detroit",113934],
+  ["El Monte","United States",34.0686,-118.0276,91,"America/Los_Angeles",113475],
+  ["Denton","United States",33.2148,-97.1331,201,"America/Chicago",113383],
+  ["North Peoria","United States",40.7175,-89.5843,193,"America/Chicago",113004],
+  ["Berkeley","United States",37.8716,-122.2728,52,"America/Los_Angeles",112580],
+  ["Provo","United States",40.2338,-111.6585,1387,"America/Denver",112488],
+  ["Downey","United States",33.9400,-118.1326,36,"America/Los_Angeles",111772],
+  ["Midland","United States",31.9974,-102.0779,848,"America/Chicago",111147],
+  ["Norman","United States",35.2226,-97.4395,357,"America/Chicago",110925],
+  ["East Independence","United States",39.0956,-94.3552,256,"America/Chicago",110675],
+  ["Waterbury","United States",41.5581,-73.0515,82,"America/New_York",110366],
+  ["Costa Mesa","United States",33.6411,-117.9187,30,"America/Los_Angeles",109960],
+  ["Inglewood","United States",33.9617,-118.3531,40,"America/Los_Angeles",109673],
+  ["Manchester","United States",42.9956,-71.4548,80,"America/New_York",109565],
+  ["Murfreesboro","United States",35.8456,-86.3903,186,"America/Chicago",108755],
+  ["Columbia","United States",38.9517,-92.3341,215,"America/Chicago",108500],
+  ["Enterprise","United States",36.0252,-115.2419,778,"America/Los_Angeles",108481],
+  ["Elgin","United States",42.0373,-88.2812,227,"America/Chicago",108188],
+  ["Clearwater","United States",27.9658,-82.8001,9,"America/New_York",107685],
+  ["Miami Gardens","United States",25.9420,-80.2456,2,"America/New_York",107167],
+  ["Rochester","United States",44.0216,-92.4699,312,"America/Chicago",106769],
+  ["Pueblo","United States",38.2544,-104.6091,1430,"America/Denver",106595],
+  ["Lowell","United States",42.6334,-71.3162,36,"America/New_York",106519],
+  ["Wilmington","United States",34.2257,-77.9447,9,"America/New_York",106476],
+  ["Arvada","United States",39.8028,-105.0875,1629,"America/Denver",106433],
+  ["Westminster","United States",39.8366,-105.0372,1641,"America/Denver",106114],
+  ["West Covina","United States",34.0686,-117.9390,117,"America/Los_Angeles",106098],
+  ["Gresham","United States",45.4982,-122.4315,97,"America/Los_Angeles",105594],
+  ["Fargo","United States",46.8772,-96.7898,276,"America/Chicago",105549],
+  ["Norwalk","United States",33.9022,-118.0817,28,"America/Los_Angeles",105549],
+  ["Carlsbad","United States",33.1581,-117.3506,16,"America/Los_Angeles",105328],
+  ["Fairfield","United States",38.2494,-122.0400,4,"America/Los_Angeles",105321],
+  ["Cambridge","United States",42.3751,-71.1056,5,"America/New_York",105162],
+  ["Universal City","United States",34.1389,-118.3534,230,"America/Los_Angeles",105000],
+  ["Wichita Falls","United States",33.9137,-98.4934,289,"America/Chicago",104553],
+  ["High Point","United States",35.9557,-80.0053,281,"America/New_York",104371],
+  ["Billings","United States",45.7833,-108.5007,952,"America/Denver",104170],
+  ["Green Bay","United States",44.5192,-88.0198,180,"America/Chicago",104057],
+  ["West Jordan","United States",40.6097,-111.9391,1333,"America/Denver",103712],
+  ["Richmond","United States",37.9358,-122.3478,14,"America/Los_Angeles",103701],
+  ["Brandon","United States",27.9378,-82.2859,14,"America/New_York",103483],
+  ["Murrieta","United States",33.5539,-117.2139,334,"America/Los_Angeles",103466],
+  ["Burbank","United States",34.1808,-118.3090,185,"America/Los_Angeles",103340],
+  ["Palm Bay","United States",28.0345,-80.5887,5,"America/New_York",103190],
+  ["Everett","United States",47.9790,-122.2021,25,"America/Los_Angeles",103019],
+  ["Edison","United States",40.5187,-74.4121,27,"America/New_York",102548],
+  ["Flint","United States",43.0125,-83.6875,229,"America/Detroit",102434],
+  ["Antioch","United States",38.0049,-121.8058,13,"America/Los_Angeles",102372],
+  ["Erie","United States",42.1292,-80.0851,199,"America/New_York",101786],
+  ["South Bend","United States",41.6834,-86.2500,211,"America/Indiana/Indianapolis",101168],
+  ["Daly City","United States",37.7058,-122.4619,124,"America/Los_Angeles",101123],
+  ["Centennial","United States",39.5792,-104.8769,1777,"America/Denver",100377],
+  ["Temecula","United States",33.4936,-117.1484,310,"America/Los_Angeles",100097],
+  ["Saint Croix","United States Virgin Islands",17.7275,-64.7470,87,"America/St_Thomas",50601],
+  ["Charlotte Amalie","United States Virgin Islands",18.3419,-64.9307,6,"America/St_Thomas",20000],
+  ["Montevideo","Uruguay",-34.9033,-56.1882,60,"America/Montevideo",1270737],
+  ["Salto","Uruguay",-31.3833,-57.9667,18,"America/Montevideo",99823],
+  ["Paysandu","Uruguay",-32.3214,-58.0756,49,"America/Montevideo",73249],
+  ["Tashkent","Uzbekistan",41.2647,69.2163,424,"Asia/Tashkent",1978028],
+  ["Namangan","Uzbekistan",40.9983,71.6726,442,"Asia/Tashkent",432456],
+  ["Samarqand","Uzbekistan",39.6542,66.9597,719,"Asia/Samarkand",319366],
+  ["Andijon","Uzbekistan",40.7821,72.3442,494,"Asia/Tashkent",318419],
+  ["Bukhara","Uzbekistan",39.7747,64.4286,229,"Asia/Samarkand",247644],
+  ["Nukus","Uzbekistan",42.4531,59.6103,76,"Asia/Samarkand",230006],
+  ["Qarshi","Uzbekistan",38.8606,65.7891,374,"Asia/Samarkand",222898],
+  ["Qo`qon","Uzbekistan",40.5286,70.9425,416,"Asia/Tashkent",187477],
+  ["Chirchiq","Uzbekistan",41.4689,69.5822,602,"Asia/Tashkent",167842],
+  ["Fergana","Uzbekistan",40.3842,71.7843,580,"Asia/Tashkent",164322],
+  ["Jizzax","Uzbekistan",40.1158,67.8422,382,"Asia/Samarkand",152642],
+  ["Urganch","Uzbekistan",41.5500,60.6333,105,"Asia/Samarkand",150110],
+  ["Tirmiz","Uzbekistan",37.2242,67.2783,304,"Asia/Samarkand",140385],
+  ["Marg`ilon","Uzbekistan",40.4711,71.7247,495,"Asia/Tashkent",133490],
+  ["Navoiy","Uzbekistan",40.0844,65.3792,392,"Asia/Samarkand",129725],
+  ["Angren","Uzbekistan",41.0167,70.1436,932,"Asia/Tashkent",126957],
+  ["Navoiy Shahri","Uzbekistan",40.0929,65.3712,381,"Asia/Samarkand",125800],
+  ["Olmaliq","Uzbekistan",40.8447,69.5983,569,"Asia/Tashkent",121207],
+  ["Port-Vila","Vanuatu",-17.7338,168.3219,59,"Pacific/Efate",35901],
+  ["Caracas","Venezuela",10.4880,-66.8792,887,"America/Caracas",3000000],
+  ["Maracaibo","Venezuela",10.6317,-71.6406,12,"America/Caracas",2225000],
+  ["Maracay","Venezuela",10.2469,-67.5958,448,"America/Caracas",1754256],
+  ["Valencia","Venezuela",10.1620,-68.0076,457,"America/Caracas",1385083],
+  ["Barquisimeto","Venezuela",10.0739,-69.3228,574,"America/Caracas",809490],
+  ["Ciudad Guayana","Venezuela",8.3512,-62.6410,103,"America/Caracas",746535],
+  ["Barcelona","Venezuela",10.1333,-64.7000,6,"America/Caracas",424795],
+  ["Maturin","Venezuela",9.7500,-63.1767,73,"America/Caracas",410972],
+  ["Puerto La Cruz","Venezuela",10.2167,-64.6167,27,"America/Caracas",370000],
+  ["Petare","Venezuela",10.4723,-66.8016,897,"America/Caracas",364684],
+  ["Barinas","Venezuela",8.6226,-70.2075,187,"America/Caracas",353442],
+  ["Turmero","Venezuela",10.2239,-67.4729,470,"America/Caracas",344700],
+  ["Ciudad Bolivar","Venezuela",8.1292,-63.5409,45,"America/Caracas",338000],
+  ["Merida","Venezuela",8.5952,-71.1434,1594,"America/Caracas",300000],
+  ["Alto Barinas","Venezuela",8.5931,-70.2261,194,"America/Caracas",284289],
+  ["Santa Teresa","Venezuela",10.2341,-66.6631,143,"America/Caracas",278890],
+  ["Cumana","Venezuela",10.4635,-64.1775,8,"America/Caracas",257783],
+  ["San Cristobal","Venezuela",7.7669,-72.2250,899,"America/Caracas",246583],
+  ["Baruta","Venezuela",10.4340,-66.8766,1002,"America/Caracas",244216],
+  ["Mucumpiz","Venezuela",8.4167,-71.1333,2236,"America/Caracas",215259],
+  ["Cabimas","Venezuela",10.3883,-71.4399,8,"America/Caracas",200818],
+  ["Coro","Venezuela",11.4045,-69.6734,27,"America/Caracas",195227],
+  ["Guatire","Venezuela",10.4762,-66.5427,344,"America/Caracas",191903],
+  ["Cua","Venezuela",10.1589,-66.8858,235,"America/Caracas",182558],
+  ["Guarenas","Venezuela",10.4674,-66.6066,365,"America/Caracas",181612],
+  ["Puerto Cabello","Venezuela",10.4731,-68.0125,10,"America/Caracas",174000],
+  ["Ocumare del Tuy","Venezuela",10.1165,-66.7761,194,"America/Caracas",166072],
+  ["Guacara","Venezuela",10.2261,-67.8770,442,"America/Caracas",151752],
+  ["El Tigre","Venezuela",8.8875,-64.2454,297,"America/Caracas",150999],
+  ["El Limon","Venezuela",10.3059,-67.6321,492,"America/Caracas",148247],
+  ["Acarigua","Venezuela",9.5545,-69.1956,189,"America/Caracas",143704],
+  ["Los Teques","Venezuela",10.3445,-67.0433,1185,"America/Caracas",140617],
+  ["Punto Fijo","Venezuela",11.6956,-70.1996,25,"America/Caracas",131784],
+  ["Charallave","Venezuela",10.2425,-66.8572,311,"America/Caracas",129182],
+  ["Palo Negro","Venezuela",10.1739,-67.5419,437,"America/Caracas",128875],
+  ["Cagua","Venezuela",10.1863,-67.4594,465,"America/Caracas",119033],
+  ["Anaco","Venezuela",9.4389,-64.4728,221,"America/Caracas",117596],
+  ["Calabozo","Venezuela",8.9242,-67.4293,103,"America/Caracas",117132],
+  ["Guanare","Venezuela",9.0418,-69.7421,164,"America/Caracas",112286],
+  ["Carupano","Venezuela",10.6678,-63.2585,15,"America/Caracas",112082],
+  ["Ejido","Venezuela",8.5466,-71.2409,1143,"America/Caracas",106915],
+  ["Catia La Mar","Venezuela",10.6038,-67.0303,18,"America/Caracas",106822],
+  ["Mariara","Venezuela",10.2964,-67.7181,472,"America/Caracas",105486],
+  ["Ho Chi Minh City","Vietnam",10.8230,106.6296,5,"Asia/Ho_Chi_Minh",3467331],
+  ["Hanoi","Vietnam",21.0245,105.8412,10,"Asia/Ho_Chi_Minh",1431270],
+  ["Da Nang","Vietnam",16.0678,108.2208,11,"Asia/Ho_Chi_Minh",752493],
+  ["Haiphong","Vietnam",20.8648,106.6834,5,"Asia/Ho_Chi_Minh",602695],
+  ["Bien Hoa","Vietnam",10.9500,106.8167,11,"Asia/Ho_Chi_Minh",407208],
+  ["Hue","Vietnam",16.4667,107.6000,6,"Asia/Ho_Chi_Minh",287217],
+  ["Nha Trang","Vietnam",12.2451,109.1943,10,"Asia/Ho_Chi_Minh",283441],
+  ["Can Tho","Vietnam",10.0333,105.7833,6,"Asia/Ho_Chi_Minh",259598],
+  ["Rach Gia","Vietnam",10.0167,105.0833,9,"Asia/Ho_Chi_Minh",228356],
+  ["Qui Nhon","Vietnam",13.7765,109.2237,55,"Asia/Ho_Chi_Minh",210338],
+  ["Vung Tau","Vietnam",10.3460,107.0843,10,"Asia/Ho_Chi_Minh",209683],
+  ["Da Lat","Vietnam",11.9465,108.4419,1483,"Asia/Ho_Chi_Minh",197000],
+  ["Thanh Pho Nam Dinh","Vietnam",20.4339,106.1773,5,"Asia/Ho_Chi_Minh",193499],
+  ["Vinh","Vietnam",18.6734,105.6923,8,"Asia/Ho_Chi_Minh",163759],
+  ["Lagi","Vietnam",10.6667,107.7833,5,"Asia/Ho_Chi_Minh",160652],
+  ["Phan Thiet","Vietnam",10.9333,108.1000,7,"Asia/Ho_Chi_Minh",160652],
+  ["Long Xuyen","Vietnam",10.3864,105.4352,8,"Asia/Ho_Chi_Minh",158153],
+  ["Can Duoc","Vietnam",10.6167,106.6667,4,"Asia/Ho_Chi_Minh",152200],
+  ["Thanh Pho Ha Long","Vietnam",20.9505,107.0734,0,"Asia/Ho_Chi_Minh",148066],
+  ["Buon Ma Thuot","Vietnam",12.6675,108.0378,463,"Asia/Ho_Chi_Minh",146975],
+  ["Cam Ranh","Vietnam",11.9214,109.1591,15,"Asia/Ho_Chi_Minh",146771],
+  ["Sa Pa","Vietnam",22.3402,103.8441,1500,"Asia/Ho_Chi_Minh",138622],
+  ["Cam Pha Mines","Vietnam",21.0167,107.3000,209,"Asia/Ho_Chi_Minh",135477],
+  ["Thanh Pho Thai Nguyen","Vietnam",21.5942,105.8482,32,"Asia/Ho_Chi_Minh",133877],
+  ["My Tho","Vietnam",10.3600,106.3600,2,"Asia/Ho_Chi_Minh",122310],
+  ["Soc Trang","Vietnam",9.6033,105.9800,5,"Asia/Ho_Chi_Minh",114453],
+  ["Pleiku","Vietnam",13.9833,108.0000,760,"Asia/Ho_Chi_Minh",114225],
+  ["Thanh Hoa","Vietnam",19.8000,105.7667,5,"Asia/Ho_Chi_Minh",112473],
+  ["Ca Mau","Vietnam",9.1769,105.1500,4,"Asia/Ho_Chi_Minh",111894],
+  ["Thanh pho Bac Lieu","Vietnam",9.2941,105.7278,5,"Asia/Ho_Chi_Minh",107911],
+  ["Yen Vinh","Vietnam",18.6667,105.6667,12,"Asia/Ho_Chi_Minh",107082],
+  ["Thanh Pho Hoa Binh","Vietnam",20.8172,105.3376,31,"Asia/Ho_Chi_Minh",105260],
+  ["Vinh Long","Vietnam",10.2500,105.9667,5,"Asia/Ho_Chi_Minh",103314],
+  ["Laayoune / El Aaiun","Western Sahara",27.1622,-13.2032,35,"Africa/El_Aaiun",196331],
+  ["Dakhla","Western Sahara",23.6848,-15.9580,6,"Africa/El_Aaiun",75000],
+  ["Smara","Western Sahara",26.7384,-11.6719,188,"Africa/El_Aaiun",42056],
+  ["Sanaa","Yemen",15.3547,44.2067,2253,"Asia/Aden",1937451],
+  ["Al Hudaydah","Yemen",14.7978,42.9545,10,"Asia/Aden",617871],
+  ["Ta`izz","Yemen",13.5795,44.0209,1400,"Asia/Aden",615222],
+  ["Aden","Yemen",12.7794,45.0367,16,"Asia/Aden",550602],
+  ["Al Mukalla","Yemen",14.5425,49.1242,39,"Asia/Aden",258132],
+  ["Ibb","Yemen",13.9667,44.1833,1931,"Asia/Aden",234837],
+  ["Dhamar","Yemen",14.5427,44.4051,2421,"Asia/Aden",160114],
+  ["Lusaka","Zambia",-15.4067,28.2871,1277,"Africa/Lusaka",1267440],
+  ["Kitwe","Zambia",-12.8024,28.2132,1224,"Africa/Lusaka",400914],
+  ["Ndola","Zambia",-12.9587,28.6366,1307,"Africa/Lusaka",394518],
+  ["Kabwe","Zambia",-14.4469,28.4464,1191,"Africa/Lusaka",188979],
+  ["Chingola","Zambia",-12.5290,27.8838,1363,"Africa/Lusaka",148564],
+  ["Mufulira","Zambia",-12.5498,28.2407,1285,"Africa/Lusaka",120500],
+  ["Luanshya","Zambia",-13.1367,28.4166,1238,"Africa/Lusaka",113365],
+  ["Livingstone","Zambia",-17.8419,25.8543,969,"Africa/Lusaka",109203],
+  ["Harare","Zimbabwe",-17.8277,31.0534,1494,"Africa/Harare",1542813],
+  ["Bulawayo","Zimbabwe",-20.1500,28.5833,1348,"Africa/Harare",699385],
+  ["Chitungwiza","Zimbabwe",-18.0127,31.0755,1435,"Africa/Harare",340360],
+  ["Mutare","Zimbabwe",-18.9707,32.6709,1116,"Africa/Harare",184205],
+  ["Gweru","Zimbabwe",-19.4500,29.8167,1412,"Africa/Harare",146073],
+  ["Epworth","Zimbabwe",-17.8900,31.1475,1508,"Africa/Harare",123250],
+];
+
+export const CITIES: CityRecord[] = RAW.map(c => ({
+  name: c[0], country: c[1], lat: c[2], lon: c[3],
+  elevation: c[4], timezone: c[5], population: c[6],
+}));
+
+// Country names in picker order, with the index of each country's first city
+export const COUNTRIES: string[] = [];
+export const COUNTRY_START: number[] = [];
+CITIES.forEach((c, i) => {
+  if (COUNTRIES[COUNTRIES.length - 1] !== c.country) {
+    COUNTRIES.push(c.country);
+    COUNTRY_START.push(i);
+  }
+});
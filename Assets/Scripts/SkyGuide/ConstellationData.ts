@@ -1,624 +1,3731 @@
-// ConstellationData.ts — Auto-generated from Stellarium western sky culture
-// 88 constellations
-// Generated: 2026-02-07T09:24:37.926Z
+// ConstellationData.ts — Auto-generated from Stellarium sky cultures
+// western, chinese: 338 figures
 
-import { ConstellationRecord } from './Types';
+import { ConstellationRecord, SkyCultureRecord } from './Types';
 
-export const CONSTELLATIONS: ConstellationRecord[] = [
+export const SKY_CULTURES: SkyCultureRecord[] = [
+  { id: "western", name: "Western" },
+  { id: "chinese", name: "Chinese" },
+];
+
+// Every culture's figures; SkyCultures.getConstellations() has the active one
+export const ALL_CONSTELLATIONS: ConstellationRecord[] = [
   {
+    culture: "western",
     abbr: "Aql",
     name: "Aquila",
     lines: [[98036,97649],[97649,97278],[97649,95501],[95501,97804],[99473,97804],[95501,93747],[93747,93244],[95501,93805]],
-    centroidRA: 5.1259,
-    centroidDec: 0.1032,
+    centroidRA: 5.1267,
+    centroidDec: 0.1039,
+    radius: 0.2267,
+    labelRA: 5.1267,
+    labelDec: 0.1039,
   },
   {
+    culture: "western",
     abbr: "And",
     name: "Andromeda",
     lines: [[677,3092],[3092,5447],[9640,5447],[5447,4436],[4436,3881]],
-    centroidRA: 0.253,
-    centroidDec: 0.6326,
+    centroidRA: 0.2452,
+    centroidDec: 0.6381,
+    radius: 0.2488,
+    labelRA: 0.2452,
+    labelDec: 0.6381,
   },
   {
+    culture: "western",
     abbr: "Scl",
     name: "Sculptor",
     lines: [[116231,4577],[4577,115102],[115102,116231]],
-    centroidRA: 4.1748,
-    centroidDec: -0.5801,
+    centroidRA: 6.2738,
+    centroidDec: -0.5888,
+    radius: 0.2383,
+    labelRA: 6.2738,
+    labelDec: -0.5888,
   },
   {
+    culture: "western",
     abbr: "Ara",
     name: "Ara",
     lines: [[88714,85792],[85792,83081],[83081,82363],[82363,85727],[85727,85267],[85267,85258],[85258,88714]],
-    centroidRA: 4.5557,
-    centroidDec: -0.9664,
+    centroidRA: 4.5614,
+    centroidDec: -0.9689,
+    radius: 0.1439,
+    labelRA: 4.5614,
+    labelDec: -0.9689,
   },
   {
+    culture: "western",
     abbr: "Lib",
     name: "Libra",
     lines: [[77853,76333],[76333,74785],[74785,72622],[72622,73714],[73714,76333]],
-    centroidRA: 4.0154,
-    centroidDec: -0.287,
+    centroidRA: 4.0161,
+    centroidDec: -0.2883,
+    radius: 0.1669,
+    labelRA: 4.0161,
+    labelDec: -0.2883,
   },
   {
+    culture: "western",
     abbr: "Cet",
     name: "Cetus",
     lines: [[10324,11484],[8102,3419],[3419,1562],[3419,5364],[5364,6537],[6537,8645],[8645,11345],[11345,12390],[12390,12770],[12770,11783],[11783,8102],[10826,12390],[10826,12387],[12387,12706],[12706,14135],[14135,13954],[13954,12828],[12828,11484],[11484,12093],[12093,12706]],
-    centroidRA: 0.5671,
-    centroidDec: -0.0729,
+    centroidRA: 0.5716,
+    centroidDec: -0.0733,
+    radius: 0.4902,
+    labelRA: 0.5716,
+    labelDec: -0.0733,
   },
   {
+    culture: "western",
     abbr: "Ari",
     name: "Aries",
     lines: [[13209,9884],[9884,8903],[8903,8832]],
-    centroidRA: 0.573,
-    centroidDec: 0.3963,
+    centroidRA: 0.5707,
+    centroidDec: 0.398,
+    radius: 0.1733,
+    labelRA: 0.5707,
+    labelDec: 0.398,
   },
   {
+    culture: "western",
     abbr: "Sct",
     name: "Scutum",
     lines: [[92175,92202],[92202,92814],[92814,90595],[90595,91117],[91117,92175]],
-    centroidRA: 4.8747,
-    centroidDec: -0.1603,
+    centroidRA: 4.899,
+    centroidDec: -0.1707,
+    radius: 0.1137,
+    labelRA: 4.899,
+    labelDec: -0.1707,
   },
   {
+    culture: "western",
     abbr: "Pyx",
     name: "Pyxis",
     lines: [[42515,42828],[42828,43409]],
-    centroidRA: 2.2896,
-    centroidDec: -0.5597,
+    centroidRA: 2.2903,
+    centroidDec: -0.5598,
+    radius: 0.0791,
+    labelRA: 2.2903,
+    labelDec: -0.5598,
   },
   {
+    culture: "western",
     abbr: "Boo",
     name: "Bootes",
     lines: [[71795,69673],[69673,72105],[72105,74666],[74666,73555],[73555,71075],[71075,71053],[71053,69673],[69673,67927],[67927,67459]],
-    centroidRA: 3.8045,
-    centroidDec: 0.4588,
+    centroidRA: 3.7981,
+    centroidDec: 0.4614,
+    radius: 0.2689,
+    labelRA: 3.7981,
+    labelDec: 0.4614,
   },
   {
+    culture: "western",
     abbr: "Cae",
     name: "Caelum",
     lines: [[21060,21770],[21770,21861]],
-    centroidRA: 1.2242,
-    centroidDec: -0.7307,
+    centroidRA: 1.2131,
+    centroidDec: -0.7213,
+    radius: 0.0743,
+    labelRA: 1.2131,
+    labelDec: -0.7213,
   },
   {
+    culture: "western",
     abbr: "Cha",
     name: "Chamaeleon",
     lines: [[40702,51839],[51839,60000]],
-    centroidRA: 2.7232,
-    centroidDec: -1.3662,
+    centroidRA: 2.6881,
+    centroidDec: -1.3845,
+    radius: 0.1121,
+    labelRA: 2.6881,
+    labelDec: -1.3845,
   },
   {
+    culture: "western",
     abbr: "Cnc",
     name: "Cancer",
     lines: [[43103,42806],[42806,40843],[42806,42911],[42911,40526],[42911,44066]],
-    centroidRA: 2.2774,
-    centroidDec: 0.3122,
+    centroidRA: 2.2616,
+    centroidDec: 0.34,
+    radius: 0.2019,
+    labelRA: 2.2616,
+    labelDec: 0.34,
   },
   {
+    culture: "western",
     abbr: "Cap",
     name: "Capricornus",
     lines: [[100064,100345],[100345,104139],[104139,105515],[105515,106985],[106985,107556],[105515,105881],[105881,104139],[100345,102485],[104139,102978]],
     centroidRA: 5.5167,
-    centroidDec: -0.3273,
+    centroidDec: -0.33,
+    radius: 0.2238,
+    labelRA: 5.5167,
+    labelDec: -0.33,
   },
   {
+    culture: "western",
     abbr: "Car",
     name: "Carina",
     lines: [[45238,50099],[50099,52419],[52419,52468],[52468,54463],[54463,53253],[53253,51232],[51232,50371],[50371,45556],[42568,41037],[41037,30438],[45080,45556],[45080,42568],[30438,31685],[41037,39429]],
-    centroidRA: 2.4484,
-    centroidDec: -1.0193,
+    centroidRA: 2.4048,
+    centroidDec: -1.0556,
+    radius: 0.5004,
+    labelRA: 2.4048,
+    labelDec: -1.0556,
   },
   {
+    culture: "western",
     abbr: "Cas",
     name: "Cassiopeia",
     lines: [[8886,6686],[6686,4427],[4427,3179],[3179,746]],
-    centroidRA: 0.2676,
-    centroidDec: 1.0483,
+    centroidRA: 0.2591,
+    centroidDec: 1.0535,
+    radius: 0.1262,
+    labelRA: 0.2591,
+    labelDec: 1.0535,
   },
   {
+    culture: "western",
     abbr: "Cen",
     name: "Centaurus",
     lines: [[71683,68702],[68702,66657],[66657,68002],[68002,68282],[68282,67472],[67472,67464],[67464,65936],[65936,65109],[67464,68933],[67472,71352],[71352,73334],[68002,61932],[61932,60823],[60823,59196],[59196,56480],[56480,56561]],
-    centroidRA: 3.5261,
-    centroidDec: -0.8366,
+    centroidRA: 3.5431,
+    centroidDec: -0.8518,
+    radius: 0.3715,
+    labelRA: 3.5431,
+    labelDec: -0.8518,
   },
   {
+    culture: "western",
     abbr: "Cep",
     name: "Cepheus",
     lines: [[109492,112724],[112724,106032],[106032,105199],[105199,109492],[112724,116727],[116727,106032]],
-    centroidRA: 5.8356,
-    centroidDec: 1.17,
+    centroidRA: 5.7983,
+    centroidDec: 1.1772,
+    radius: 0.2105,
+    labelRA: 5.7983,
+    labelDec: 1.1772,
   },
   {
+    culture: "western",
     abbr: "Com",
     name: "Coma Berenices",
     lines: [[64241,64394],[64394,60742]],
-    centroidRA: 3.3871,
-    centroidDec: 0.4286,
+    centroidRA: 3.3889,
+    centroidDec: 0.4302,
+    radius: 0.1356,
+    labelRA: 3.4003,
+    labelDec: 0.43,
   },
   {
+    culture: "western",
     abbr: "CVn",
     name: "Canes Venatici",
     lines: [[61317,63125]],
-    centroidRA: 3.3374,
-    centroidDec: 0.6953,
+    centroidRA: 3.3385,
+    centroidDec: 0.6959,
+    radius: 0.0458,
+    labelRA: 3.3385,
+    labelDec: 0.6959,
   },
   {
+    culture: "western",
     abbr: "Aur",
     name: "Auriga",
     lines: [[28380,28360],[28360,24608],[24608,23453],[23453,23015],[25428,23015],[25428,28380]],
-    centroidRA: 1.4266,
-    centroidDec: 0.672,
+    centroidRA: 1.4246,
+    centroidDec: 0.6749,
+    radius: 0.1756,
+    labelRA: 1.393,
+    labelDec: 0.6799,
   },
   {
+    culture: "western",
     abbr: "Col",
     name: "Columba",
     lines: [[30277,29807],[29807,28199],[28199,27628],[27628,28328],[27628,26634],[26634,25859]],
-    centroidRA: 1.5566,
-    centroidDec: -0.6283,
+    centroidRA: 1.5567,
+    centroidDec: -0.6296,
+    radius: 0.118,
+    labelRA: 1.5567,
+    labelDec: -0.6296,
   },
   {
+    culture: "western",
     abbr: "Cir",
     name: "Circinus",
     lines: [[71908,75323],[71908,74824]],
-    centroidRA: 3.961,
-    centroidDec: -1.0652,
+    centroidRA: 3.9679,
+    centroidDec: -1.0664,
+    radius: 0.0859,
+    labelRA: 3.9679,
+    labelDec: -1.0664,
   },
   {
+    culture: "western",
     abbr: "Crt",
     name: "Crater",
     lines: [[53740,54682],[54682,55705],[55705,55282],[55282,53740],[55282,55687],[55687,56633],[56633,58188],[58188,57283],[57283,55705]],
-    centroidRA: 2.9806,
-    centroidDec: -0.2807,
+    centroidRA: 2.9989,
+    centroidDec: -0.2838,
+    radius: 0.1314,
+    labelRA: 2.9989,
+    labelDec: -0.2838,
   },
   {
+    culture: "western",
     abbr: "CrA",
     name: "Corona Australis",
     lines: [[91875,92989],[92989,93174],[93174,93825],[93825,94114],[94114,94160],[94160,94005],[94005,93542],[93542,92953],[91875,90887]],
-    centroidRA: 5.0004,
-    centroidDec: -0.6807,
+    centroidRA: 4.9678,
+    centroidDec: -0.6849,
+    radius: 0.0885,
+    labelRA: 4.9667,
+    labelDec: -0.683,
   },
   {
+    culture: "western",
     abbr: "CrB",
     name: "Corona Borealis",
     lines: [[76127,75695],[75695,76267],[76267,76952],[76952,77512],[77512,78159],[78159,78493]],
-    centroidRA: 4.1182,
-    centroidDec: 0.4894,
+    centroidRA: 4.1184,
+    centroidDec: 0.4899,
+    radius: 0.0739,
+    labelRA: 4.117,
+    labelDec: 0.4848,
   },
   {
+    culture: "western",
     abbr: "Crv",
     name: "Corvus",
     lines: [[61174,60965],[60965,59803],[59803,59316],[59316,59199],[59316,61359],[61359,60965]],
-    centroidRA: 3.2366,
-    centroidDec: -0.352,
+    centroidRA: 3.2371,
+    centroidDec: -0.3523,
+    radius: 0.0961,
+    labelRA: 3.235,
+    labelDec: -0.3518,
   },
   {
+    culture: "western",
     abbr: "Cru",
     name: "Crux",
     lines: [[61084,60718],[62434,59747]],
     centroidRA: 3.2732,
-    centroidDec: -1.0413,
+    centroidDec: -1.0419,
+    radius: 0.0599,
+    labelRA: 3.2732,
+    labelDec: -1.0419,
   },
   {
+    culture: "western",
     abbr: "Cyg",
     name: "Cygnus",
     lines: [[94779,95853],[95853,97165],[97165,100453],[100453,102098],[100453,102488],[102488,104732],[104732,107310],[100453,98110],[98110,95947]],
-    centroidRA: 5.3083,
-    centroidDec: 0.6837,
+    centroidRA: 5.3237,
+    centroidDec: 0.6939,
+    radius: 0.3575,
+    labelRA: 5.3237,
+    labelDec: 0.6939,
   },
   {
+    culture: "western",
     abbr: "Del",
     name: "Delphinus",
     lines: [[101421,101769],[101769,101958],[101958,102532],[102532,102281],[102281,101769]],
-    centroidRA: 5.411,
+    centroidRA: 5.4108,
     centroidDec: 0.2549,
+    radius: 0.0646,
+    labelRA: 5.4108,
+    labelDec: 0.2549,
   },
   {
+    culture: "western",
     abbr: "Dor",
     name: "Dorado",
     lines: [[27100,27890],[27890,26069],[26069,27100],[26069,21281],[21281,19893]],
-    centroidRA: 1.3636,
-    centroidDec: -1.0397,
+    centroidRA: 1.337,
+    centroidDec: -1.0466,
+    radius: 0.1923,
+    labelRA: 1.337,
+    labelDec: -1.0466,
   },
   {
+    culture: "western",
     abbr: "Dra",
     name: "Draco",
     lines: [[87585,87833],[87833,85670],[85670,85829],[85829,87585],[87585,94376],[94376,97433],[97433,94648],[94648,89937],[89937,83895],[83895,80331],[80331,78527],[78527,75458],[75458,68756],[68756,61281],[61281,56211]],
-    centroidRA: 4.3747,
-    centroidDec: 1.1032,
+    centroidRA: 4.411,
+    centroidDec: 1.1622,
+    radius: 0.488,
+    labelRA: 4.411,
+    labelDec: 1.1622,
   },
   {
+    culture: "western",
     abbr: "Nor",
     name: "Norma",
     lines: [[79509,80000],[80000,80582],[80582,78639],[78639,80000],[78639,79509]],
-    centroidRA: 4.2583,
-    centroidDec: -0.8795,
+    centroidRA: 4.2589,
+    centroidDec: -0.8799,
+    radius: 0.0739,
+    labelRA: 4.2589,
+    labelDec: -0.8799,
   },
   {
+    culture: "western",
     abbr: "Eri",
     name: "Eridanus",
     lines: [[7588,9007],[9007,10602],[10602,11407],[11407,12413],[12413,12486],[12486,13847],[13847,15510],[15510,17797],[17797,17874],[17874,20042],[20042,20535],[20535,21393],[21393,17651],[17651,16611],[16611,15474],[15474,14146],[14146,12843],[12843,13701],[13701,15197],[15197,16537],[16537,17378],[17378,21444],[21444,22109],[22109,22701],[22701,23875],[23875,23972],[23972,21594]],
-    centroidRA: 0.9346,
-    centroidDec: -0.4565,
+    centroidRA: 0.9625,
+    centroidDec: -0.4675,
+    radius: 0.653,
+    labelRA: 0.9625,
+    labelDec: -0.4675,
   },
   {
+    culture: "western",
     abbr: "Sge",
     name: "Sagitta",
     lines: [[96837,97365],[97365,96757],[97365,98337],[98337,98920]],
-    centroidRA: 5.1785,
-    centroidDec: 0.3208,
+    centroidRA: 5.1943,
+    centroidDec: 0.3267,
+    radius: 0.0646,
+    labelRA: 5.1943,
+    labelDec: 0.3267,
   },
   {
+    culture: "western",
     abbr: "For",
     name: "Fornax",
     lines: [[13147,14879]],
-    centroidRA: 0.7879,
-    centroidDec: -0.5358,
+    centroidRA: 0.7888,
+    centroidDec: -0.5363,
+    radius: 0.0524,
+    labelRA: 0.7888,
+    labelDec: -0.5363,
   },
   {
+    culture: "western",
     abbr: "Gem",
     name: "Gemini",
     lines: [[31681,34088],[34088,35550],[35550,35350],[35350,32362],[35550,36962],[36962,37740],[36962,37826],[36962,36046],[36046,34693],[34693,36850],[34693,33018],[34693,32246],[32246,30883],[32246,30343],[30343,29655],[29655,28734]],
-    centroidRA: 1.8352,
-    centroidDec: 0.416,
+    centroidRA: 1.8331,
+    centroidDec: 0.4195,
+    radius: 0.2241,
+    labelRA: 1.8331,
+    labelDec: 0.4195,
   },
   {
+    culture: "western",
     abbr: "Cam",
     name: "Camelopardalis",
     lines: [[16228,18505],[18505,22783],[16228,17959],[17959,22783],[17959,25110]],
-    centroidRA: 1.0591,
-    centroidDec: 1.1375,
+    centroidRA: 1.0873,
+    centroidDec: 1.1913,
+    radius: 0.2092,
+    labelRA: 1.0873,
+    labelDec: 1.1913,
   },
   {
+    culture: "western",
     abbr: "CMa",
     name: "Canis Major",
     lines: [[33160,34045],[34045,33347],[33347,32349],[32349,33977],[33977,34444],[34444,35037],[35037,35904],[33579,33856],[33856,34444],[33856,33152],[33152,31592],[31592,31416],[32349,30324],[31592,32349],[30122,33579],[33347,33160]],
-    centroidRA: 1.8032,
-    centroidDec: -0.3945,
+    centroidRA: 1.8024,
+    centroidDec: -0.3956,
+    radius: 0.1856,
+    labelRA: 1.8024,
+    labelDec: -0.3956,
   },
   {
+    culture: "western",
     abbr: "UMa",
     name: "Ursa Major",
     lines: [[67301,65378],[65378,62956],[62956,59774],[59774,54061],[54061,53910],[53910,58001],[58001,59774],[58001,57399],[57399,54539],[54539,50372],[54539,50801],[53910,48402],[48402,46853],[46853,44471],[46853,44127],[48402,48319],[48319,41704],[41704,46733],[46733,54061]],
-    centroidRA: 2.8401,
-    centroidDec: 0.9207,
+    centroidRA: 2.838,
+    centroidDec: 0.9583,
+    radius: 0.4761,
+    labelRA: 2.838,
+    labelDec: 0.9583,
   },
   {
+    culture: "western",
     abbr: "Gru",
     name: "Grus",
     lines: [[114131,110997],[110997,109268],[109268,112122],[112122,114421],[114421,114131],[112122,113638],[112122,112623],[109268,109111],[109111,108085]],
-    centroidRA: 5.9181,
-    centroidDec: -0.7894,
+    centroidRA: 5.9124,
+    centroidDec: -0.793,
+    radius: 0.1944,
+    labelRA: 5.9124,
+    labelDec: -0.793,
   },
   {
+    culture: "western",
     abbr: "Her",
     name: "Hercules",
     lines: [[86414,87808],[87808,85112],[85112,84606],[84606,84380],[84380,81833],[81833,81126],[81126,79992],[79992,77760],[81833,81693],[81693,80816],[80816,80170],[81693,83207],[83207,84379],[84379,85693],[85693,86974],[86974,87933],[87933,88794],[83207,84380],[80816,84345]],
-    centroidRA: 4.4844,
-    centroidDec: 0.5685,
+    centroidRA: 4.4877,
+    centroidDec: 0.5744,
+    radius: 0.3242,
+    labelRA: 4.4877,
+    labelDec: 0.5744,
   },
   {
+    culture: "western",
     abbr: "Hor",
     name: "Horologium",
     lines: [[19747,12484],[12484,14240]],
-    centroidRA: 1.1083,
-    centroidDec: -0.7382,
+    centroidRA: 0.8936,
+    centroidDec: -0.9191,
+    radius: 0.2312,
+    labelRA: 0.8936,
+    labelDec: -0.9191,
   },
   {
+    culture: "western",
     abbr: "Hya",
     name: "Hydra",
     lines: [[42799,42402],[42402,42313],[42313,43109],[43109,43234],[43234,42799],[43234,43813],[43813,45336],[45336,46776],[46776,46509],[46509,46390],[46390,48356],[48356,49841],[49841,51069],[51069,52943],[52943,56343],[56343,57936],[57936,64166],[64166,64962]],
-    centroidRA: 2.6386,
-    centroidDec: -0.1473,
+    centroidRA: 2.6129,
+    centroidDec: -0.1569,
+    radius: 0.87,
+    labelRA: 2.6129,
+    labelDec: -0.1569,
   },
   {
+    culture: "western",
     abbr: "Hyi",
     name: "Hydrus",
     lines: [[2021,17678],[17678,12394],[12394,11001],[11001,9236]],
-    centroidRA: 0.5873,
-    centroidDec: -1.2217,
+    centroidRA: 0.6022,
+    centroidDec: -1.2311,
+    radius: 0.1764,
+    labelRA: 0.6022,
+    labelDec: -1.2311,
   },
   {
+    culture: "western",
     abbr: "Ind",
     name: "Indus",
     lines: [[105319,101772],[101772,103227],[103227,105319]],
-    centroidRA: 5.4865,
-    centroidDec: -0.9262,
+    centroidRA: 5.483,
+    centroidDec: -0.9276,
+    radius: 0.1152,
+    labelRA: 5.483,
+    labelDec: -0.9276,
   },
   {
+    culture: "western",
     abbr: "Lac",
     name: "Lacerta",
     lines: [[109937,111104],[111104,111022],[111022,110609],[110609,110538],[110538,111169],[111169,111022]],
-    centroidRA: 5.8726,
-    centroidDec: 0.8161,
+    centroidRA: 5.8716,
+    centroidDec: 0.8164,
+    radius: 0.1606,
+    labelRA: 5.8716,
+    labelDec: 0.8164,
   },
   {
+    culture: "western",
     abbr: "Mon",
     name: "Monoceros",
     lines: [[29651,30867],[30867,34769],[34769,30419],[30419,29151],[34769,39863],[39863,37447]],
-    centroidRA: 1.8392,
-    centroidDec: -0.0632,
+    centroidRA: 1.8057,
+    centroidDec: -0.0489,
+    radius: 0.3258,
+    labelRA: 1.8057,
+    labelDec: -0.0489,
   },
   {
+    culture: "western",
     abbr: "Lep",
     name: "Lepus",
     lines: [[28910,28103],[28103,27288],[27288,25985],[25985,24305],[25985,27654],[27654,27072],[27072,25606],[25606,23685],[25985,25606],[24305,24845],[24305,24327],[23685,24305],[24327,24244],[24845,24873]],
-    centroidRA: 1.4507,
-    centroidDec: -0.2944,
+    centroidRA: 1.4464,
+    centroidDec: -0.2892,
+    radius: 0.1484,
+    labelRA: 1.4464,
+    labelDec: -0.2892,
   },
   {
+    culture: "western",
     abbr: "Leo",
     name: "Leo",
     lines: [[57632,54879],[54879,49669],[49669,49583],[49583,50583],[50583,54872],[54872,57632],[50583,50335],[50335,48455],[48455,47908],[54872,54879]],
-    centroidRA: 2.7578,
-    centroidDec: 0.3341,
+    centroidRA: 2.7596,
+    centroidDec: 0.339,
+    radius: 0.3304,
+    labelRA: 2.7596,
+    labelDec: 0.339,
   },
   {
+    culture: "western",
     abbr: "Lup",
     name: "Lupus",
     lines: [[77634,78970],[78970,78384],[78384,77634],[78384,76297],[76297,75141],[75141,75177],[75141,73273],[76297,76552],[76552,74395],[74395,71860],[74395,71536],[71860,70576],[71860,73273]],
-    centroidRA: 3.9922,
-    centroidDec: -0.7459,
+    centroidRA: 4.0197,
+    centroidDec: -0.7419,
+    radius: 0.1854,
+    labelRA: 4.0197,
+    labelDec: -0.7419,
   },
   {
+    culture: "western",
     abbr: "Lyn",
     name: "Lynx",
     lines: [[45860,45688],[45688,44700],[44700,44248],[44248,41075],[41075,36145],[36145,33449],[33449,30060]],
-    centroidRA: 2.1563,
-    centroidDec: 0.7882,
+    centroidRA: 2.205,
+    centroidDec: 0.8063,
+    radius: 0.3955,
+    labelRA: 2.205,
+    labelDec: 0.8063,
   },
   {
+    culture: "western",
     abbr: "Lyr",
     name: "Lyra",
     lines: [[91262,91971],[91971,92420],[92420,93194],[93194,92791],[92791,91971]],
-    centroidRA: 4.9264,
-    centroidDec: 0.626,
+    centroidRA: 4.9272,
+    centroidDec: 0.6263,
+    radius: 0.0662,
+    labelRA: 4.9272,
+    labelDec: 0.6263,
   },
   {
+    culture: "western",
     abbr: "Ant",
     name: "Antlia",
     lines: [[51172,48926]],
-    centroidRA: 2.7365,
-    centroidDec: -0.5422,
+    centroidRA: 2.6765,
+    centroidDec: -0.5852,
+    radius: 0.0664,
+    labelRA: 2.6765,
+    labelDec: -0.5852,
   },
   {
+    culture: "western",
     abbr: "Mic",
     name: "Microscopium",
     lines: [[105140,103738],[103738,102831]],
-    centroidRA: 5.5112,
-    centroidDec: -0.5714,
+    centroidRA: 5.5115,
+    centroidDec: -0.5719,
+    radius: 0.0554,
+    labelRA: 5.5115,
+    labelDec: -0.5719,
   },
   {
+    culture: "western",
     abbr: "Mus",
     name: "Musca",
     lines: [[62322,57363],[57363,61199],[61199,61585],[61585,62322]],
-    centroidRA: 3.2524,
-    centroidDec: -1.2047,
+    centroidRA: 3.2478,
+    centroidDec: -1.2066,
+    radius: 0.076,
+    labelRA: 3.2478,
+    labelDec: -1.2066,
   },
   {
+    culture: "western",
     abbr: "Oct",
     name: "Octans",
     lines: [[107089,112405],[112405,70638],[70638,107089]],
-    centroidRA: 5.1407,
-    centroidDec: -1.4105,
+    centroidRA: 5.4889,
+    centroidDec: -1.4587,
+    radius: 0.1675,
+    labelRA: 5.4889,
+    labelDec: -1.4587,
   },
   {
+    culture: "western",
     abbr: "Aps",
     name: "Apus",
     lines: [[72370,81065],[81065,81852]],
-    centroidRA: 4.1952,
-    centroidDec: -1.3698,
+    centroidRA: 4.2052,
+    centroidDec: -1.3748,
+    radius: 0.0636,
+    labelRA: 4.2052,
+    labelDec: -1.3748,
   },
   {
+    culture: "western",
     abbr: "Oph",
     name: "Ophiuchus",
     lines: [[86032,86742],[84012,86742],[86032,83000],[83000,79882],[79882,81377],[81377,84012],[84012,85755]],
-    centroidRA: 4.4838,
-    centroidDec: -0.0709,
+    centroidRA: 4.4826,
+    centroidDec: -0.0712,
+    radius: 0.3615,
+    labelRA: 4.4826,
+    labelDec: -0.0712,
   },
   {
+    culture: "western",
     abbr: "Ori",
     name: "Orion",
     lines: [[26727,26311],[26311,25930],[28691,29426],[29426,29038],[29038,27913],[29426,28614],[28614,27989],[27989,26727],[26727,27366],[27366,24436],[24436,25930],[25930,25336],[25336,26207],[26207,27989],[25336,22449],[22449,22549],[22549,22730],[22730,23123],[22449,22509],[22509,22845],[29038,28614]],
-    centroidRA: 1.4394,
-    centroidDec: 0.0971,
+    centroidRA: 1.4375,
+    centroidDec: 0.1082,
+    radius: 0.2882,
+    labelRA: 1.4375,
+    labelDec: 0.1082,
   },
   {
+    culture: "western",
     abbr: "Pav",
     name: "Pavo",
     lines: [[100751,105858],[105858,102395],[102395,99240],[99240,100751],[99240,98495],[98495,91792],[91792,93015],[93015,99240],[93015,92609],[92609,90098],[90098,88866],[88866,92609],[88866,86929]],
-    centroidRA: 5.0837,
-    centroidDec: -1.1394,
+    centroidRA: 5.0812,
+    centroidDec: -1.1566,
+    radius: 0.2163,
+    labelRA: 5.0812,
+    labelDec: -1.1566,
   },
   {
+    culture: "western",
     abbr: "Peg",
     name: "Pegasus",
     lines: [[1067,113963],[113881,112158],[112158,109352],[113881,112748],[112748,112440],[112440,109176],[109176,107354],[113963,112447],[112447,112029],[112029,109427],[109427,107315],[677,113881],[677,1067],[113881,113963]],
-    centroidRA: 4.9956,
-    centroidDec: 0.3437,
+    centroidRA: 5.9494,
+    centroidDec: 0.3667,
+    radius: 0.3854,
+    labelRA: 5.9494,
+    labelDec: 0.3667,
   },
   {
+    culture: "western",
     abbr: "Pic",
     name: "Pictor",
     lines: [[32607,27530],[27530,27321]],
-    centroidRA: 1.6076,
-    centroidDec: -0.9842,
+    centroidRA: 1.5943,
+    centroidDec: -0.9874,
+    radius: 0.1335,
+    labelRA: 1.5943,
+    labelDec: -0.9874,
   },
   {
+    culture: "western",
     abbr: "Per",
     name: "Perseus",
     lines: [[17448,18246],[18246,18614],[18614,18532],[18532,17358],[17358,15863],[15863,14328],[14328,13268],[15863,14576],[14576,14354],[14354,13254]],
-    centroidRA: 0.8972,
-    centroidDec: 0.738,
+    centroidRA: 0.9048,
+    centroidDec: 0.741,
+    radius: 0.2563,
+    labelRA: 0.9048,
+    labelDec: 0.741,
   },
   {
+    culture: "western",
     abbr: "Equ",
     name: "Equuleus",
     lines: [[104521,104858],[104858,105570],[105570,104987],[104987,104521]],
-    centroidRA: 5.5569,
-    centroidDec: 0.1477,
+    centroidRA: 5.5672,
+    centroidDec: 0.1405,
+    radius: 0.0489,
+    labelRA: 5.5672,
+    labelDec: 0.1405,
   },
   {
+    culture: "western",
     abbr: "CMi",
     name: "Canis Minor",
     lines: [[37279,36188]],
-    centroidRA: 1.9776,
-    centroidDec: 0.1179,
+    centroidRA: 1.9777,
+    centroidDec: 0.118,
+    radius: 0.0375,
+    labelRA: 1.9777,
+    labelDec: 0.118,
   },
   {
+    culture: "western",
     abbr: "LMi",
     name: "Leo Minor",
     lines: [[53229,51233],[51233,49593],[49593,46952],[49593,53229]],
-    centroidRA: 2.6865,
-    centroidDec: 0.6221,
+    centroidRA: 2.6875,
+    centroidDec: 0.6259,
+    radius: 0.1472,
+    labelRA: 2.6875,
+    labelDec: 0.6259,
   },
   {
+    culture: "western",
     abbr: "Vul",
     name: "Vulpecula",
     lines: [[95771,98543]],
-    centroidRA: 5.1701,
-    centroidDec: 0.4574,
+    centroidRA: 5.1692,
+    centroidDec: 0.4584,
+    radius: 0.0689,
+    labelRA: 5.1692,
+    labelDec: 0.4584,
   },
   {
+    culture: "western",
     abbr: "UMi",
     name: "Ursa Minor",
     lines: [[11767,85822],[85822,82080],[82080,77055],[77055,79822],[79822,75097],[75097,72607],[72607,77055]],
-    centroidRA: 3.7044,
-    centroidDec: 1.3898,
+    centroidRA: 4.1268,
+    centroidDec: 1.3966,
+    radius: 0.1864,
+    labelRA: 4.1268,
+    labelDec: 1.3966,
   },
   {
+    culture: "western",
     abbr: "Phe",
     name: "Phoenix",
     lines: [[5348,5165],[5165,2072],[2072,5348],[5165,7083],[7083,8837],[8837,5165],[5165,6867],[6867,2072],[2072,2081],[2081,765],[765,2072]],
-    centroidRA: 0.2671,
-    centroidDec: -0.8124,
+    centroidRA: 0.2638,
+    centroidDec: -0.8182,
+    radius: 0.1596,
+    labelRA: 0.2638,
+    labelDec: -0.8182,
   },
   {
+    culture: "western",
     abbr: "Psc",
     name: "Pisces",
     lines: [[4889,5742],[4889,6193],[6193,5742],[5742,7097],[7097,8198],[8198,9487],[9487,8833],[8833,7884],[7884,7007],[7007,4906],[4906,3786],[3786,1645],[1645,118268],[118268,116771],[116771,116928],[116928,115738],[115738,114971],[114971,115830],[115830,116771]],
-    centroidRA: 2.5586,
-    centroidDec: 0.1468,
+    centroidRA: 0.1982,
+    centroidDec: 0.1734,
+    radius: 0.3996,
+    labelRA: 0.1982,
+    labelDec: 0.1734,
   },
   {
+    culture: "western",
     abbr: "PsA",
     name: "Piscis Austrinus",
     lines: [[113368,111954],[111954,108661],[108661,107608],[107608,109422],[109422,111188],[111188,113246]],
-    centroidRA: 5.9305,
-    centroidDec: -0.5379,
+    centroidRA: 5.8746,
+    centroidDec: -0.5349,
+    radius: 0.1448,
+    labelRA: 5.8746,
+    labelDec: -0.5349,
   },
   {
+    culture: "western",
     abbr: "Vol",
     name: "Volans",
     lines: [[37504,34481],[34481,39794],[39794,37504],[39794,35228],[39794,41312],[41312,44382],[44382,39794]],
-    centroidRA: 2.0824,
-    centroidDec: -1.1991,
+    centroidRA: 2.0933,
+    centroidDec: -1.2043,
+    radius: 0.1129,
+    labelRA: 2.0933,
+    labelDec: -1.2043,
   },
   {
+    culture: "western",
     abbr: "Pup",
     name: "Puppis",
     lines: [[39757,38146],[38146,35264],[35264,31685],[31685,32768],[32768,36377],[36377,39429],[39429,39757]],
-    centroidRA: 1.9382,
-    centroidDec: -0.6938,
+    centroidRA: 1.966,
+    centroidDec: -0.6618,
+    radius: 0.2745,
+    labelRA: 1.966,
+    labelDec: -0.6618,
   },
   {
+    culture: "western",
     abbr: "Ret",
     name: "Reticulum",
     lines: [[19780,19921],[19921,18597],[18597,17440],[17440,19780]],
-    centroidRA: 1.0623,
-    centroidDec: -1.082,
+    centroidRA: 1.0652,
+    centroidDec: -1.0827,
+    radius: 0.0621,
+    labelRA: 1.0652,
+    labelDec: -1.0827,
   },
   {
+    culture: "western",
     abbr: "Sgr",
     name: "Sagittarius",
     lines: [[89931,90496],[89642,90185],[90185,88635],[88635,87072],[88635,89931],[89931,90185],[90185,93506],[93506,92041],[92041,89931],[92041,90496],[90496,89341],[93506,93864],[93864,92855],[92855,92041],[92855,93085],[93085,93683],[93683,94820],[94820,95168],[93864,96406],[96406,98688],[98688,98412],[98412,98032],[98032,95347],[98032,95294]],
-    centroidRA: 4.96,
-    centroidDec: -0.5118,
+    centroidRA: 4.9654,
+    centroidDec: -0.5135,
+    radius: 0.2966,
+    labelRA: 4.9654,
+    labelDec: -0.5135,
   },
   {
+    culture: "western",
     abbr: "Sco",
     name: "Scorpius",
     lines: [[85927,86670],[86670,87073],[87073,86228],[86228,84143],[84143,82671],[82671,82514],[82514,82396],[82396,81266],[81266,80763],[80763,78401],[80763,78265],[80763,78820]],
-    centroidRA: 4.4234,
-    centroidDec: -0.5913,
+    centroidRA: 4.4111,
+    centroidDec: -0.5977,
+    radius: 0.3074,
+    labelRA: 4.4111,
+    labelDec: -0.5977,
   },
   {
+    culture: "western",
     abbr: "Ser",
     name: "Serpens",
     lines: [[77516,77622],[77622,77070],[77070,76276],[76276,77233],[77233,78072],[78072,77450],[77450,77233],[92946,89962],[89962,86565],[86565,86263],[86263,84880]],
-    centroidRA: 4.3736,
-    centroidDec: 0.0399,
+    centroidRA: 4.3717,
+    centroidDec: 0.042,
+    radius: 0.5858,
+    labelRA: 4.3528,
+    labelDec: 0.0429,
   },
   {
+    culture: "western",
     abbr: "Sex",
     name: "Sextans",
     lines: [[51437,49641]],
-    centroidRA: 2.6526,
-    centroidDec: -0.0065,
+    centroidRA: 2.7014,
+    centroidDec: -0.0088,
+    radius: 0.0488,
+    labelRA: 2.7014,
+    labelDec: -0.0088,
   },
   {
+    culture: "western",
     abbr: "Men",
     name: "Mensa",
     lines: [[25918,21949]],
-    centroidRA: 0,
-    centroidDec: 0,
+    centroidRA: 1.3244,
+    centroidDec: -1.2867,
+    radius: 0.0557,
+    labelRA: 1.3244,
+    labelDec: -1.2867,
   },
   {
+    culture: "western",
     abbr: "Tau",
     name: "Taurus",
     lines: [[25428,21881],[21881,20889],[21421,26451],[20205,20455],[20205,18724],[18724,15900],[21421,20889],[21421,20894],[20894,20205],[20889,20648],[20648,20455],[20455,17847]],
-    centroidRA: 1.1716,
-    centroidDec: 0.3213,
+    centroidRA: 1.1685,
+    centroidDec: 0.3248,
+    radius: 0.3146,
+    labelRA: 1.1685,
+    labelDec: 0.3248,
   },
   {
+    culture: "western",
     abbr: "Tel",
     name: "Telescopium",
     lines: [[90568,90422]],
-    centroidRA: 4.8341,
+    centroidRA: 4.834,
     centroidDec: -0.8294,
+    radius: 0.0272,
+    labelRA: 4.834,
+    labelDec: -0.8294,
   },
   {
+    culture: "western",
     abbr: "Tuc",
     name: "Tucana",
     lines: [[110130,114996],[114996,1599],[114996,2484]],
-    centroidRA: 3.0407,
-    centroidDec: -1.0748,
+    centroidRA: 6.1693,
+    centroidDec: -1.0861,
+    radius: 0.1613,
+    labelRA: 6.1693,
+    labelDec: -1.0861,
   },
   {
+    culture: "western",
     abbr: "Tri",
     name: "Triangulum",
     lines: [[10670,10064],[10064,8796],[8796,10670]],
-    centroidRA: 0.5526,
-    centroidDec: 0.5725,
+    centroidRA: 0.5516,
+    centroidDec: 0.573,
+    radius: 0.0755,
+    labelRA: 0.5516,
+    labelDec: 0.573,
   },
   {
-    abbr: "Tra",
+    culture: "western",
+    abbr: "TrA",
     name: "Triangulum Australe",
     lines: [[82273,74946],[74946,77952],[77952,82273]],
-    centroidRA: 4.1927,
-    centroidDec: -1.1702,
+    centroidRA: 4.1898,
+    centroidDec: -1.1745,
+    radius: 0.0841,
+    labelRA: 4.1892,
+    labelDec: -1.1784,
   },
   {
+    culture: "western",
     abbr: "Aqr",
     name: "Aquarius",
     lines: [[106278,109074],[109074,110395],[110395,110960],[110960,111497],[111497,112961],[112961,114855],[114855,115438],[109074,110003],[110003,109139],[110003,111123],[111123,112716],[112716,113136],[113136,114341],[102618,106278]],
-    centroidRA: 5.8847,
-    centroidDec: -0.1589,
+    centroidRA: 5.8837,
+    centroidDec: -0.1612,
+    radius: 0.4337,
+    labelRA: 5.8837,
+    labelDec: -0.1612,
   },
   {
+    culture: "western",
     abbr: "Vir",
     name: "Virgo",
     lines: [[57380,60030],[60030,61941],[61941,65474],[65474,69427],[69427,69701],[69701,71957],[65474,66249],[66249,68520],[68520,72220],[66249,63090],[63090,63608],[63090,61941]],
-    centroidRA: 3.5561,
-    centroidDec: -0.0172,
+    centroidRA: 3.5289,
+    centroidDec: -0.0174,
+    radius: 0.467,
+    labelRA: 3.5289,
+    labelDec: -0.0174,
   },
   {
+    culture: "western",
     abbr: "Vel",
     name: "Vela",
     lines: [[39953,42536],[42536,42913],[42913,45941],[45941,48774],[48774,52727],[52727,51986],[51986,50191],[50191,46651],[46651,44816],[44816,39953]],
-    centroidRA: 2.4919,
-    centroidDec: -0.8521,
+    centroidRA: 2.4957,
+    centroidDec: -0.8638,
+    radius: 0.2409,
+    labelRA: 2.4967,
+    labelDec: -0.8745,
+  },
+  {
+    culture: "chinese",
+    abbr: "001",
+    name: "Net",
+    lines: [[20889,20648],[20648,20455],[20455,20205],[21421,20885],[20885,20713],[20713,20205],[20205,18724],[21421,21683]],
+    centroidRA: 1.1574,
+    centroidDec: 0.2849,
+    radius: 0.1235,
+    labelRA: 1.1574,
+    labelDec: 0.2849,
+  },
+  {
+    culture: "chinese",
+    abbr: "002",
+    name: "Wall",
+    lines: [[1067,677]],
+    centroidRA: 0.0477,
+    centroidDec: 0.3864,
+    radius: 0.1218,
+    labelRA: 0.0477,
+    labelDec: 0.3864,
+  },
+  {
+    culture: "chinese",
+    abbr: "003",
+    name: "Three Stars",
+    lines: [[27989,26727],[26727,26311],[26311,25930],[25930,24436],[25930,25336],[26727,27366]],
+    centroidRA: 1.4658,
+    centroidDec: -0.0189,
+    radius: 0.1702,
+    labelRA: 1.4658,
+    labelDec: -0.0189,
+  },
+  {
+    culture: "chinese",
+    abbr: "004",
+    name: "Root",
+    lines: [[72622,74392],[74392,76333],[76333,74785]],
+    centroidRA: 3.988,
+    centroidDec: -0.2624,
+    radius: 0.0995,
+    labelRA: 4.0036,
+    labelDec: -0.2796,
+  },
+  {
+    culture: "chinese",
+    abbr: "005",
+    name: "Dipper",
+    lines: [[89341,90496],[90496,92041],[92041,92855],[92855,93864],[93864,93506]],
+    centroidRA: 4.9088,
+    centroidDec: -0.459,
+    radius: 0.1547,
+    labelRA: 4.9088,
+    labelDec: -0.459,
+  },
+  {
+    culture: "chinese",
+    abbr: "006",
+    name: "Room",
+    lines: [[78820,78401],[78401,78265],[78265,78104]],
+    centroidRA: 4.1908,
+    centroidDec: -0.4266,
+    radius: 0.0845,
+    labelRA: 4.1908,
+    labelDec: -0.4266,
+  },
+  {
+    culture: "chinese",
+    abbr: "007",
+    name: "Ghosts",
+    lines: [[41822,41909],[41909,42806],[42806,42911]],
+    centroidRA: 2.2605,
+    centroidDec: 0.3411,
+    radius: 0.0398,
+    labelRA: 2.2568,
+    labelDec: 0.3494,
+  },
+  {
+    culture: "chinese",
+    abbr: "008",
+    name: "Winnowing Basket",
+    lines: [[88635,89931],[89931,90185],[90185,89642]],
+    centroidRA: 4.7869,
+    centroidDec: -0.5735,
+    radius: 0.0681,
+    labelRA: 4.7869,
+    labelDec: -0.5735,
+  },
+  {
+    culture: "chinese",
+    abbr: "009",
+    name: "Horn",
+    lines: [[65474,66249]],
+    centroidRA: 3.5342,
+    centroidDec: -0.1026,
+    radius: 0.0945,
+    labelRA: 3.5342,
+    labelDec: -0.1026,
+  },
+  {
+    culture: "chinese",
+    abbr: "010",
+    name: "Well",
+    lines: [[35350,34088],[34088,32921],[32921,32246],[32921,30883],[30883,30343],[30883,31681],[31681,34088],[31681,32362],[30343,29655]],
+    centroidRA: 1.7593,
+    centroidDec: 0.3473,
+    radius: 0.156,
+    labelRA: 1.7593,
+    labelDec: 0.3473,
+  },
+  {
+    culture: "chinese",
+    abbr: "011",
+    name: "Neck",
+    lines: [[69427,69701],[69701,70755],[69427,69974]],
+    centroidRA: 3.7485,
+    centroidDec: -0.1391,
+    radius: 0.1078,
+    labelRA: 3.7485,
+    labelDec: -0.1391,
+  },
+  {
+    culture: "chinese",
+    abbr: "012",
+    name: "Legs",
+    lines: [[4463,3693],[3693,3885],[3885,3031],[3031,3092],[3092,2912],[2912,3881],[3881,4436],[4436,5447],[5447,5175],[5175,5586],[5586,6315],[6315,6193],[6193,5742],[5742,5571],[5571,5131],[5131,4463]],
+    centroidRA: 0.2614,
+    centroidDec: 0.5133,
+    radius: 0.2068,
+    labelRA: 0.2614,
+    labelDec: 0.5133,
+  },
+  {
+    culture: "chinese",
+    abbr: "013",
+    name: "Willow",
+    lines: [[42402,42799],[42799,43234],[43234,43109],[42313,43109],[43234,43813],[43813,44659],[44659,45336]],
+    centroidRA: 2.3183,
+    centroidDec: 0.0831,
+    radius: 0.1091,
+    labelRA: 2.3183,
+    labelDec: 0.0831,
+  },
+  {
+    culture: "chinese",
+    abbr: "014",
+    name: "Bond",
+    lines: [[9884,8903],[8903,8832]],
+    centroidRA: 0.5165,
+    centroidDec: 0.3699,
+    radius: 0.0532,
+    labelRA: 0.5165,
+    labelDec: 0.3699,
+  },
+  {
+    culture: "chinese",
+    abbr: "015",
+    name: "Hairy Head",
+    lines: [[17499,17531],[17531,17579],[17579,17573],[17499,17608],[17608,17702],[17702,17847]],
+    centroidRA: 0.9879,
+    centroidDec: 0.4229,
+    radius: 0.0114,
+    labelRA: 0.9879,
+    labelDec: 0.4229,
+  },
+  {
+    culture: "chinese",
+    abbr: "016",
+    name: "Ox",
+    lines: [[100345,100064],[100064,99572],[100345,100881],[100881,101123],[101123,101027],[100881,101027]],
+    centroidRA: 5.3357,
+    centroidDec: -0.2751,
+    radius: 0.0704,
+    labelRA: 5.3357,
+    labelDec: -0.2751,
+  },
+  {
+    culture: "chinese",
+    abbr: "017",
+    name: "Girl",
+    lines: [[102618,103045],[103045,102945],[102945,102624]],
+    centroidRA: 5.4536,
+    centroidDec: -0.1271,
+    radius: 0.0404,
+    labelRA: 5.4536,
+    labelDec: -0.1271,
+  },
+  {
+    culture: "chinese",
+    abbr: "018",
+    name: "Encampment",
+    lines: [[113963,113881]],
+    centroidRA: 6.0401,
+    centroidDec: 0.3778,
+    radius: 0.1124,
+    labelRA: 6.0401,
+    labelDec: 0.3778,
+  },
+  {
+    culture: "chinese",
+    abbr: "019",
+    name: "Supreme Palace Right Wall",
+    lines: [[57757,55434],[55434,55642],[55642,54879],[54879,54872]],
+    centroidRA: 2.989,
+    centroidDec: 0.1898,
+    radius: 0.194,
+    labelRA: 2.989,
+    labelDec: 0.1898,
+  },
+  {
+    culture: "chinese",
+    abbr: "020",
+    name: "Supreme Palace Left Wall",
+    lines: [[60129,61941],[61941,63090],[63090,63608],[63608,64241]],
+    centroidRA: 3.3582,
+    centroidDec: 0.104,
+    radius: 0.2197,
+    labelRA: 3.3582,
+    labelDec: 0.104,
+  },
+  {
+    culture: "chinese",
+    abbr: "021",
+    name: "Heavenly Market Right Wall",
+    lines: [[80816,80170],[80170,79043],[79043,78072],[78072,77233],[77233,76276],[76276,77070],[77070,77622],[77622,79593],[79593,79882],[79882,81377]],
+    centroidRA: 4.213,
+    centroidDec: 0.1458,
+    radius: 0.3576,
+    labelRA: 4.213,
+    labelDec: 0.1458,
+  },
+  {
+    culture: "chinese",
+    abbr: "022",
+    name: "Heavenly Market Left Wall",
+    lines: [[84379,85693],[85693,86974],[86974,88794],[88794,92614],[92614,93747],[93747,92946],[92946,89962],[89962,88048],[88048,86263],[86263,84012]],
+    centroidRA: 4.7318,
+    centroidDec: 0.1674,
+    radius: 0.4998,
+    labelRA: 4.7578,
+    labelDec: 0.1365,
+  },
+  {
+    culture: "chinese",
+    abbr: "023",
+    name: "Rooftop",
+    lines: [[109074,109427],[109427,107315]],
+    centroidRA: 5.7601,
+    centroidDec: 0.0918,
+    radius: 0.106,
+    labelRA: 5.7601,
+    labelDec: 0.0918,
+  },
+  {
+    culture: "chinese",
+    abbr: "024",
+    name: "Tail",
+    lines: [[82396,82514],[82514,82671],[82671,84143],[84143,86228],[86228,87073],[87073,86670],[86670,85927],[85927,85696],[82514,82545]],
+    centroidRA: 4.525,
+    centroidDec: -0.6874,
+    radius: 0.1292,
+    labelRA: 4.5396,
+    labelDec: -0.6788,
+  },
+  {
+    culture: "chinese",
+    abbr: "025",
+    name: "Stomach",
+    lines: [[12719,13061],[13061,13209]],
+    centroidRA: 0.7292,
+    centroidDec: 0.49,
+    radius: 0.0207,
+    labelRA: 0.7296,
+    labelDec: 0.4901,
+  },
+  {
+    culture: "chinese",
+    abbr: "026",
+    name: "Heart",
+    lines: [[80112,80763],[80763,81266]],
+    centroidRA: 4.3143,
+    centroidDec: -0.467,
+    radius: 0.0375,
+    labelRA: 4.3143,
+    labelDec: -0.467,
+  },
+  {
+    culture: "chinese",
+    abbr: "027",
+    name: "Star",
+    lines: [[46390,46509],[46509,46776],[46776,47431],[46390,45811],[45811,45751],[45751,46744],[46390,46744]],
+    centroidRA: 2.4813,
+    centroidDec: -0.1143,
+    radius: 0.1062,
+    labelRA: 2.4813,
+    labelDec: -0.1143,
+  },
+  {
+    culture: "chinese",
+    abbr: "028",
+    name: "Emptiness",
+    lines: [[106278,104987]],
+    centroidRA: 5.6012,
+    centroidDec: -0.0028,
+    radius: 0.1004,
+    labelRA: 5.6012,
+    labelDec: -0.0028,
+  },
+  {
+    culture: "chinese",
+    abbr: "029",
+    name: "Wings",
+    lines: [[53740,55705],[53740,55598],[53740,52943],[55705,57283],[57283,55598],[57283,58188],[55705,55282],[55282,56802],[56802,55874],[55874,55687],[55687,54214],[54214,53975],[55687,56633],[56633,57587],[55598,54682],[54682,56245],[56245,54204],[54204,56830]],
+    centroidRA: 2.9841,
+    centroidDec: -0.2863,
+    radius: 0.2043,
+    labelRA: 2.9841,
+    labelDec: -0.2863,
+  },
+  {
+    culture: "chinese",
+    abbr: "030",
+    name: "Extended Net",
+    lines: [[48356,49841],[49841,51069],[51069,49321],[48356,49321],[48356,47452],[51069,52085]],
+    centroidRA: 2.6548,
+    centroidDec: -0.2725,
+    radius: 0.1282,
+    labelRA: 2.6548,
+    labelDec: -0.2725,
+  },
+  {
+    culture: "chinese",
+    abbr: "031",
+    name: "Chariot",
+    lines: [[61359,60965],[60965,59803],[59803,59316],[59803,60189],[60965,61174],[59316,59199]],
+    centroidRA: 3.2363,
+    centroidDec: -0.3574,
+    radius: 0.0915,
+    labelRA: 3.2363,
+    labelDec: -0.3574,
+  },
+  {
+    culture: "chinese",
+    abbr: "032",
+    name: "Purple Forbidden Right Wall",
+    lines: [[68756,61281],[61281,56211],[56211,46977],[46977,33104],[33104,22783],[22783,15520]],
+    centroidRA: 2.3654,
+    centroidDec: 1.3484,
+    radius: 0.4608,
+    labelRA: 2.3654,
+    labelDec: 1.3484,
+  },
+  {
+    culture: "chinese",
+    abbr: "033",
+    name: "Purple Forbidden Left Wall",
+    lines: [[75458,78527],[78527,80331],[80331,83895],[83895,92782],[92782,101260],[101260,114222],[114222,3721]],
+    centroidRA: 4.6543,
+    centroidDec: 1.2779,
+    radius: 0.4412,
+    labelRA: 4.6543,
+    labelDec: 1.2779,
+  },
+  {
+    culture: "chinese",
+    abbr: "034",
+    name: "Turtle Beak",
+    lines: [[26207,26176],[26207,26366]],
+    centroidRA: 1.4644,
+    centroidDec: 0.1671,
+    radius: 0.0074,
+    labelRA: 1.4644,
+    labelDec: 0.1671,
+  },
+  {
+    culture: "chinese",
+    abbr: "035",
+    name: "Eight Kinds of Crops",
+    lines: [[28358,27949],[27949,27249],[27249,24348],[27249,23040],[23783,23734],[23734,27971]],
+    centroidRA: 1.4392,
+    centroidDec: 0.991,
+    radius: 0.1092,
+    labelRA: 1.4392,
+    labelDec: 0.991,
+  },
+  {
+    culture: "chinese",
+    abbr: "036",
+    name: "Net for Catching Birds",
+    lines: [[910,301],[301,118178],[910,355],[910,1803],[910,1170]],
+    centroidRA: 0.0403,
+    centroidDec: -0.2628,
+    radius: 0.0819,
+    labelRA: 0.0403,
+    labelDec: -0.2628,
+  },
+  {
+    culture: "chinese",
+    abbr: "037",
+    name: "Rotten Gourd",
+    lines: [[101421,101483],[101483,101882],[101882,101800],[101800,101916]],
+    centroidRA: 5.3956,
+    centroidDec: 0.2063,
+    radius: 0.0322,
+    labelRA: 5.3956,
+    labelDec: 0.2063,
+  },
+  {
+    culture: "chinese",
+    abbr: "038",
+    name: "Decayed Mortar",
+    lines: [[108085,109111],[109111,112948],[112948,112102]],
+    centroidRA: 5.8674,
+    centroidDec: -0.6098,
+    radius: 0.1172,
+    labelRA: 5.8674,
+    labelDec: -0.6098,
+  },
+  {
+    culture: "chinese",
+    abbr: "039",
+    name: "Northern Dipper",
+    lines: [[54061,53910],[53910,58001],[58001,59774],[59774,62956],[62956,65378],[65378,67301]],
+    centroidRA: 3.2461,
+    centroidDec: 0.9864,
+    radius: 0.2518,
+    labelRA: 3.2461,
+    labelDec: 0.9864,
+  },
+  {
+    culture: "chinese",
+    abbr: "040",
+    name: "North River",
+    lines: [[37826,36850],[36850,36366]],
+    centroidRA: 1.9917,
+    centroidDec: 0.5337,
+    radius: 0.0558,
+    labelRA: 1.9917,
+    labelDec: 0.5337,
+  },
+  {
+    culture: "chinese",
+    abbr: "041",
+    name: "Northern Pole",
+    lines: [[75097,72607],[72607,70692],[70692,69112],[69112,62572]],
+    centroidRA: 3.8151,
+    centroidDec: 1.3396,
+    radius: 0.1377,
+    labelRA: 3.8151,
+    labelDec: 1.3396,
+  },
+  {
+    culture: "chinese",
+    abbr: "043",
+    name: "River Turtle",
+    lines: [[90422,92308],[92308,93542],[93542,94005],[94005,94160],[94160,94114],[94114,93825],[93825,93174],[93174,92989],[92989,90968],[90968,90982],[90982,90422]],
+    centroidRA: 4.9503,
+    centroidDec: -0.7024,
+    radius: 0.1328,
+    labelRA: 4.9503,
+    labelDec: -0.7024,
+  },
+  {
+    culture: "chinese",
+    abbr: "044",
+    name: "Persia",
+    lines: [[97816,101772],[101772,106065],[106065,108431],[108431,108626],[108626,102333],[102333,102950]],
+    centroidRA: 5.5136,
+    centroidDec: -0.9317,
+    radius: 0.1829,
+    labelRA: 5.5136,
+    labelDec: -0.9317,
+  },
+  {
+    culture: "chinese",
+    abbr: "045",
+    name: "Textile Ruler",
+    lines: [[88267,88886]],
+    centroidRA: 4.7348,
+    centroidDec: 0.3701,
+    radius: 0.0162,
+    labelRA: 4.7348,
+    labelDec: 0.3701,
+  },
+  {
+    culture: "chinese",
+    abbr: "046",
+    name: "Banner of Three Stars",
+    lines: [[22667,22957],[22957,22833],[22833,22845],[22845,22509],[22509,22449],[22449,22549],[22549,22797],[22797,23123]],
+    centroidRA: 1.2814,
+    centroidDec: 0.1454,
+    radius: 0.1174,
+    labelRA: 1.2814,
+    labelDec: 0.1454,
+  },
+  {
+    culture: "chinese",
+    abbr: "047",
+    name: "Toilet",
+    lines: [[25985,25606],[25606,27072],[27072,27654]],
+    centroidRA: 1.4798,
+    centroidDec: -0.3577,
+    radius: 0.0536,
+    labelRA: 1.4781,
+    labelDec: -0.3612,
+  },
+  {
+    culture: "chinese",
+    abbr: "049",
+    name: "Royal Guards",
+    lines: [[63125,62207],[62207,61692],[61692,61317],[61317,60646],[60646,59831],[59831,58684]],
+    centroidRA: 3.2785,
+    centroidDec: 0.7058,
+    radius: 0.1055,
+    labelRA: 3.2785,
+    labelDec: 0.7058,
+  },
+  {
+    culture: "chinese",
+    abbr: "050",
+    name: "Big Yard for Chariots",
+    lines: [[112917,111944],[111944,110351],[110351,106481],[106481,103632],[103632,104060],[104060,106711]],
+    centroidRA: 5.7291,
+    centroidDec: 0.7852,
+    radius: 0.1868,
+    labelRA: 5.7291,
+    labelDec: 0.7852,
+  },
+  {
+    culture: "chinese",
+    abbr: "051",
+    name: "Chariots and Cavalry",
+    lines: [[74395,71536],[71536,71121]],
+    centroidRA: 3.8712,
+    centroidDec: -0.8856,
+    radius: 0.0722,
+    labelRA: 3.8712,
+    labelDec: -0.8856,
+  },
+  {
+    culture: "chinese",
+    abbr: "052",
+    name: "Commodity Market",
+    lines: [[80628,82369]],
+    centroidRA: 4.358,
+    centroidDec: -0.1673,
+    radius: 0.0519,
+    labelRA: 4.358,
+    labelDec: -0.1673,
+  },
+  {
+    culture: "chinese",
+    abbr: "053",
+    name: "Hay",
+    lines: [[11345,12002],[12002,10642],[11261,11029],[11029,12390]],
+    centroidRA: 0.6429,
+    centroidDec: -0.1514,
+    radius: 0.1034,
+    labelRA: 0.6429,
+    labelDec: -0.1514,
+  },
+  {
+    culture: "chinese",
+    abbr: "054",
+    name: "Pestle (In Winnowing Basket Mansion)",
+    lines: [[86092,85792],[85792,85258]],
+    centroidRA: 4.5871,
+    centroidDec: -0.8839,
+    radius: 0.0867,
+    labelRA: 4.5871,
+    labelDec: -0.8839,
+  },
+  {
+    culture: "chinese",
+    abbr: "055",
+    name: "Pestle (In Rooftop Mansion)",
+    lines: [[109937,109410],[109410,109056]],
+    centroidRA: 5.8047,
+    centroidDec: 0.5812,
+    radius: 0.0802,
+    labelRA: 5.8047,
+    labelDec: 0.5812,
+  },
+  {
+    culture: "chinese",
+    abbr: "057",
+    name: "Guest House",
+    lines: [[117371,2707],[2707,4714],[4714,5589],[5589,10438],[10438,13665],[13665,16228],[16228,16281],[16281,16292]],
+    centroidRA: 0.5754,
+    centroidDec: 1.1238,
+    radius: 0.2574,
+    labelRA: 0.5754,
+    labelDec: 1.1238,
+  },
+  {
+    culture: "chinese",
+    abbr: "058",
+    name: "Retinue (In Room Mansion)",
+    lines: [[77634,76945]],
+    centroidRA: 4.1314,
+    centroidDec: -0.5964,
+    radius: 0.0177,
+    labelRA: 4.1314,
+    labelDec: -0.5964,
+  },
+  {
+    culture: "chinese",
+    abbr: "062",
+    name: "Mausoleum",
+    lines: [[11060,13531],[13531,14632],[14632,14668],[14668,14576],[14576,14354],[14354,13254],[13254,12623]],
+    centroidRA: 0.7677,
+    centroidDec: 0.7894,
+    radius: 0.2071,
+    labelRA: 0.7677,
+    labelDec: 0.7894,
+  },
+  {
+    culture: "chinese",
+    abbr: "064",
+    name: "Mattress of the Emperor",
+    lines: [[69226,68478],[68478,68103]],
+    centroidRA: 3.6773,
+    centroidDec: 0.4654,
+    radius: 0.0406,
+    labelRA: 3.6773,
+    labelDec: 0.4654,
+  },
+  {
+    culture: "chinese",
+    abbr: "066",
+    name: "Eastern Door",
+    lines: [[80894,80569],[80569,80343],[80343,80975]],
+    centroidRA: 4.3136,
+    centroidDec: -0.3341,
+    radius: 0.0454,
+    labelRA: 4.3136,
+    labelDec: -0.3341,
+  },
+  {
+    culture: "chinese",
+    abbr: "068",
+    name: "Trials",
+    lines: [[74604,75177]],
+    centroidRA: 4.006,
+    centroidDec: -0.5916,
+    radius: 0.0434,
+    labelRA: 4.006,
+    labelDec: -0.5916,
+  },
+  {
+    culture: "chinese",
+    abbr: "069",
+    name: "Send Armed Forces To Suppress (Vassal of Three Stars)",
+    lines: [[26237,26235],[26235,26241],[26237,26311]],
+    centroidRA: 1.4643,
+    centroidDec: -0.0758,
+    radius: 0.0549,
+    labelRA: 1.4643,
+    labelDec: -0.0758,
+  },
+  {
+    culture: "chinese",
+    abbr: "070",
+    name: "Punishment",
+    lines: [[79672,79005],[79005,78400]],
+    centroidRA: 4.2234,
+    centroidDec: -0.2191,
+    radius: 0.0801,
+    labelRA: 4.2234,
+    labelDec: -0.2191,
+  },
+  {
+    culture: "chinese",
+    abbr: "071",
+    name: "Flying Fish",
+    lines: [[44382,34481],[44382,41312],[44382,40817],[44382,35228],[44382,37504]],
+    centroidRA: 2.1003,
+    centroidDec: -1.2129,
+    radius: 0.1133,
+    labelRA: 2.1003,
+    labelDec: -1.2129,
+  },
+  {
+    culture: "chinese",
+    abbr: "072",
+    name: "Tomb (Vassal of Rooftop)",
+    lines: [[110960,110395],[110960,111497],[110960,110672],[110960,109074]],
+    centroidRA: 5.8616,
+    centroidDec: -0.0016,
+    radius: 0.0769,
+    labelRA: 5.8616,
+    labelDec: -0.0016,
+  },
+  {
+    culture: "chinese",
+    abbr: "073",
+    name: "Axe",
+    lines: [[116889,117089],[117089,117629]],
+    centroidRA: 6.2208,
+    centroidDec: -0.3213,
+    radius: 0.025,
+    labelRA: 6.2208,
+    labelDec: -0.3213,
+  },
+  {
+    culture: "chinese",
+    abbr: "074",
+    name: "Sickle",
+    lines: [[6960,7679],[7679,9347],[9347,9061]],
+    centroidRA: 0.4637,
+    centroidDec: -0.378,
+    radius: 0.0676,
+    labelRA: 0.4637,
+    labelDec: -0.378,
+  },
+  {
+    culture: "chinese",
+    abbr: "075",
+    name: "Basket for Mulberry Leaves",
+    lines: [[91755,90905],[90905,90156],[90156,92512],[92512,92997],[92997,93340],[93340,93713]],
+    centroidRA: 4.9214,
+    centroidDec: 0.9923,
+    radius: 0.0738,
+    labelRA: 4.9214,
+    labelDec: 0.9923,
+  },
+  {
+    culture: "chinese",
+    abbr: "076",
+    name: "White Patched Nearby",
+    lines: [[17678,13244]],
+    centroidRA: 0.871,
+    centroidDec: -1.3049,
+    radius: 0.0335,
+    labelRA: 0.871,
+    labelDec: -1.3049,
+  },
+  {
+    culture: "chinese",
+    abbr: "079",
+    name: "Roofing",
+    lines: [[108874,108991]],
+    centroidRA: 5.7773,
+    centroidDec: -0.0267,
+    radius: 0.0114,
+    labelRA: 5.7773,
+    labelDec: -0.0267,
+  },
+  {
+    culture: "chinese",
+    abbr: "080",
+    name: "Canopy Support (Vassal of Canopy of the Emperor)",
+    lines: [[17959,14862],[14862,9763],[9763,9802],[9802,9598],[9598,10031],[10031,9480],[9480,8016],[8016,7078]],
+    centroidRA: 0.5977,
+    centroidDec: 1.2697,
+    radius: 0.1272,
+    labelRA: 0.5977,
+    labelDec: 1.2697,
+  },
+  {
+    culture: "chinese",
+    abbr: "081",
+    name: "Flying Corridor",
+    lines: [[11569,8886],[8886,6686],[6686,5542],[5542,3801],[3801,3504]],
+    centroidRA: 0.3438,
+    centroidDec: 1.0108,
+    radius: 0.2158,
+    labelRA: 0.3438,
+    labelDec: 1.0108,
+  },
+  {
+    culture: "chinese",
+    abbr: "082",
+    name: "Celestial Lance",
+    lines: [[72105,71284],[71284,71053]],
+    centroidRA: 3.8277,
+    centroidDec: 0.5074,
+    radius: 0.0459,
+    labelRA: 3.8277,
+    labelDec: 0.5074,
+  },
+  {
+    culture: "chinese",
+    abbr: "083",
+    name: "Curved Array",
+    lines: [[113116,5372],[5372,11767],[11767,85822],[85822,82080],[82080,77055]],
+    centroidRA: 4.706,
+    centroidDec: 1.5094,
+    radius: 0.1654,
+    labelRA: 4.706,
+    labelDec: 1.5094,
+  },
+  {
+    culture: "chinese",
+    abbr: "084",
+    name: "Lock (Vassal of Room)",
+    lines: [[78933,78990],[78933,78820]],
+    centroidRA: 4.2174,
+    centroidDec: -0.3569,
+    radius: 0.0121,
+    labelRA: 4.2174,
+    labelDec: -0.3569,
+  },
+  {
+    culture: "chinese",
+    abbr: "085",
+    name: "Dog",
+    lines: [[96465,95477]],
+    centroidRA: 5.1094,
+    centroidDec: -0.4311,
+    radius: 0.0229,
+    labelRA: 5.1094,
+    labelDec: -0.4311,
+  },
+  {
+    culture: "chinese",
+    abbr: "086",
+    name: "Territory of Dog",
+    lines: [[98066,98353],[98353,98688],[98688,98162],[98162,98066]],
+    centroidRA: 5.2298,
+    centroidDec: -0.4685,
+    radius: 0.0218,
+    labelRA: 5.2298,
+    labelDec: -0.4685,
+  },
+  {
+    culture: "chinese",
+    abbr: "087",
+    name: "Coiled Thong",
+    lines: [[77048,76127],[76127,75695],[75695,76267],[76267,76952],[76952,77512],[77512,78159],[78159,78493],[78493,78459]],
+    centroidRA: 4.1265,
+    centroidDec: 0.5088,
+    radius: 0.0923,
+    labelRA: 4.1234,
+    labelDec: 0.4903,
+  },
+  {
+    culture: "chinese",
+    abbr: "088",
+    name: "Beacon Fire",
+    lines: [[40023,40881],[40881,41377],[41377,40240]],
+    centroidRA: 2.1714,
+    centroidDec: 0.4674,
+    radius: 0.0531,
+    labelRA: 2.1793,
+    labelDec: 0.465,
+  },
+  {
+    culture: "chinese",
+    abbr: "089",
+    name: "Tortoise",
+    lines: [[83153,85267],[85267,85727],[85727,82363],[82363,83081]],
+    centroidRA: 4.4875,
+    centroidDec: -0.9968,
+    radius: 0.0805,
+    labelRA: 4.4864,
+    labelDec: -0.9966,
+  },
+  {
+    culture: "chinese",
+    abbr: "090",
+    name: "Sea and Mountain",
+    lines: [[51232,52558],[52558,56606],[56606,56561],[56561,57363]],
+    centroidRA: 2.9308,
+    centroidDec: -1.083,
+    radius: 0.1105,
+    labelRA: 2.9308,
+    labelDec: -1.083,
+  },
+  {
+    culture: "chinese",
+    abbr: "091",
+    name: "Sea Rock",
+    lines: [[41037,45556],[45556,46974],[46974,47854],[47854,48002]],
+    centroidRA: 2.4436,
+    centroidDec: -1.0707,
+    radius: 0.1276,
+    labelRA: 2.4436,
+    labelDec: -1.0707,
+  },
+  {
+    culture: "chinese",
+    abbr: "093",
+    name: "Drum at the River",
+    lines: [[98036,97649],[97649,97278]],
+    centroidRA: 5.1959,
+    centroidDec: 0.1506,
+    radius: 0.0434,
+    labelRA: 5.1959,
+    labelDec: 0.1506,
+  },
+  {
+    culture: "chinese",
+    abbr: "094",
+    name: "Crane",
+    lines: [[109268,112122],[112122,112623],[112623,112374],[112374,114996],[114996,113638],[113638,112122],[112122,114421],[112122,114131],[112122,112203],[112203,110936],[112122,111043],[111043,109908]],
+    centroidRA: 5.9503,
+    centroidDec: -0.8223,
+    radius: 0.2132,
+    labelRA: 5.9503,
+    labelDec: -0.8223,
+  },
+  {
+    culture: "chinese",
+    abbr: "095",
+    name: "Railings",
+    lines: [[67464,67472],[67472,68245],[68245,68862]],
+    centroidRA: 3.6473,
+    centroidDec: -0.7308,
+    radius: 0.0353,
+    labelRA: 3.6473,
+    labelDec: -0.7308,
+  },
+  {
+    culture: "chinese",
+    abbr: "097",
+    name: "Bow and Arrow",
+    lines: [[34444,35904],[35904,37819],[37819,38901],[38901,38070],[38070,37229],[37229,35904],[35904,33579],[33579,32759],[32759,35264],[35264,37819]],
+    centroidRA: 1.9432,
+    centroidDec: -0.5359,
+    radius: 0.1456,
+    labelRA: 1.9432,
+    labelDec: -0.5359,
+  },
+  {
+    culture: "chinese",
+    abbr: "098",
+    name: "Dipper for Solids",
+    lines: [[82673,83000],[83000,82402],[82402,82073]],
+    centroidRA: 4.4155,
+    centroidDec: 0.1544,
+    radius: 0.0287,
+    labelRA: 4.4175,
+    labelDec: 0.1526,
+  },
+  {
+    culture: "chinese",
+    abbr: "100",
+    name: "Good Gourd",
+    lines: [[102532,101958],[101958,101769],[101769,102281],[102281,102532],[101769,101589]],
+    centroidRA: 5.4128,
+    centroidDec: 0.2667,
+    radius: 0.0297,
+    labelRA: 5.4128,
+    labelDec: 0.2667,
+  },
+  {
+    culture: "chinese",
+    abbr: "101",
+    name: "Canopy of the Emperor",
+    lines: [[7078,7650],[7078,5926],[7078,5518],[7078,6692],[7078,7965],[7078,9009]],
+    centroidRA: 0.4001,
+    centroidDec: 1.2191,
+    radius: 0.0565,
+    labelRA: 0.4001,
+    labelDec: 1.2191,
+  },
+  {
+    culture: "chinese",
+    abbr: "102",
+    name: "Eunuch Official",
+    lines: [[83430,83478],[83478,83613],[83613,84177]],
+    centroidRA: 4.4775,
+    centroidDec: 0.2227,
+    radius: 0.0465,
+    labelRA: 4.4775,
+    labelDec: 0.2227,
+  },
+  {
+    culture: "chinese",
+    abbr: "103",
+    name: "Firebird",
+    lines: [[116231,116389],[116389,116602],[116602,765],[765,2072],[2072,2081],[2081,3245],[3245,2472],[2472,5165],[5165,6867]],
+    centroidRA: 0.0905,
+    centroidDec: -0.779,
+    radius: 0.2132,
+    labelRA: 0.0905,
+    labelDec: -0.779,
+  },
+  {
+    culture: "chinese",
+    abbr: "108",
+    name: "Group of Soldiers",
+    lines: [[78918,78384]],
+    centroidRA: 4.2036,
+    centroidDec: -0.6563,
+    radius: 0.0179,
+    labelRA: 4.2036,
+    labelDec: -0.6563,
+  },
+  {
+    culture: "chinese",
+    abbr: "109",
+    name: "White Patches Attached",
+    lines: [[24372,19780]],
+    centroidRA: 1.2282,
+    centroidDec: -1.1347,
+    radius: 0.0684,
+    labelRA: 1.2282,
+    labelDec: -1.1347,
+  },
+  {
+    culture: "chinese",
+    abbr: "110",
+    name: "Establishment",
+    lines: [[93085,93683],[93683,94141],[94141,94820],[94820,95168],[95168,95176]],
+    centroidRA: 5.0279,
+    centroidDec: -0.3395,
+    radius: 0.0725,
+    labelRA: 5.0279,
+    labelDec: -0.3395,
+  },
+  {
+    culture: "chinese",
+    abbr: "111",
+    name: "Clepsydra Terrace",
+    lines: [[92791,92420],[92420,93194],[93194,93903]],
+    centroidRA: 4.964,
+    centroidDec: 0.6069,
+    radius: 0.0414,
+    labelRA: 4.9702,
+    labelDec: 0.6044,
+  },
+  {
+    culture: "chinese",
+    abbr: "113",
+    name: "Goldfish",
+    lines: [[19893,21281],[21281,26069],[26069,27100],[27100,29134]],
+    centroidRA: 1.3385,
+    centroidDec: -1.0674,
+    radius: 0.2079,
+    labelRA: 1.3385,
+    labelDec: -1.0674,
+  },
+  {
+    culture: "chinese",
+    abbr: "117",
+    name: "Nine Senior Officers",
+    lines: [[61960,62267],[62267,61579]],
+    centroidRA: 3.3229,
+    centroidDec: 0.1554,
+    radius: 0.0277,
+    labelRA: 3.3229,
+    labelDec: 0.1554,
+  },
+  {
+    culture: "chinese",
+    abbr: "118",
+    name: "Imperial Military Flag",
+    lines: [[21515,22109],[22109,22701],[22701,23221],[23221,23231],[23231,22479],[22479,22263],[22263,21763],[21763,23474]],
+    centroidRA: 1.2682,
+    centroidDec: -0.206,
+    radius: 0.2309,
+    labelRA: 1.2682,
+    labelDec: -0.206,
+  },
+  {
+    culture: "chinese",
+    abbr: "119",
+    name: "Interpreters of Nine Dialects",
+    lines: [[19777,19587],[19587,20507],[20507,21444],[21444,22024],[22024,21986]],
+    centroidRA: 1.1737,
+    centroidDec: -0.1209,
+    radius: 0.0857,
+    labelRA: 1.1941,
+    labelDec: -0.1134,
+  },
+  {
+    culture: "chinese",
+    abbr: "120",
+    name: "Banner of Wine Shop",
+    lines: [[47723,46771],[46771,46454]],
+    centroidRA: 2.5074,
+    centroidDec: 0.2001,
+    radius: 0.059,
+    labelRA: 2.5074,
+    labelDec: 0.2001,
+  },
+  {
+    culture: "chinese",
+    abbr: "121",
+    name: "Mortar",
+    lines: [[110371,109176],[109176,107354],[107354,107310]],
+    centroidRA: 5.7563,
+    centroidDec: 0.4725,
+    radius: 0.088,
+    labelRA: 5.7563,
+    labelDec: 0.4725,
+  },
+  {
+    culture: "chinese",
+    abbr: "122",
+    name: "Rolled Tongue",
+    lines: [[17529,18532],[18532,18614],[18614,18246],[18246,17448],[17448,17313]],
+    centroidRA: 1.0055,
+    centroidDec: 0.63,
+    radius: 0.1145,
+    labelRA: 1.0055,
+    labelDec: 0.63,
+  },
+  {
+    culture: "chinese",
+    abbr: "123",
+    name: "Military Well",
+    lines: [[24244,24327],[24327,24845],[24845,24873]],
+    centroidRA: 1.38,
+    centroidDec: -0.2195,
+    radius: 0.021,
+    labelRA: 1.3798,
+    labelDec: -0.2204,
+  },
+  {
+    culture: "chinese",
+    abbr: "125",
+    name: "Market for Soldiers",
+    lines: [[30324,31700],[31700,33092],[33092,33248],[33248,33152],[33152,31125],[31125,30324]],
+    centroidRA: 1.7561,
+    centroidDec: -0.3624,
+    radius: 0.095,
+    labelRA: 1.7561,
+    labelDec: -0.3624,
+  },
+  {
+    culture: "chinese",
+    abbr: "127",
+    name: "Boats and Lake",
+    lines: [[70027,69260],[69260,69536],[69536,69989]],
+    centroidRA: 3.7348,
+    centroidDec: 0.2512,
+    radius: 0.037,
+    labelRA: 3.7322,
+    labelDec: 0.2503,
+  },
+  {
+    culture: "chinese",
+    abbr: "128",
+    name: "Peafowl",
+    lines: [[86929,88866],[88866,90797],[90797,92609],[92609,93015],[93015,99240],[99240,102395],[102395,91792],[91792,98495],[98495,105858],[105858,100751]],
+    centroidRA: 5.0856,
+    centroidDec: -1.1575,
+    radius: 0.2144,
+    labelRA: 5.0856,
+    labelDec: -1.1575,
+  },
+  {
+    culture: "chinese",
+    abbr: "129",
+    name: "Crying",
+    lines: [[108036,109472]],
+    centroidRA: 5.7683,
+    centroidDec: -0.2193,
+    radius: 0.0408,
+    labelRA: 5.7683,
+    labelDec: -0.2193,
+  },
+  {
+    culture: "chinese",
+    abbr: "130",
+    name: "Arsenal",
+    lines: [[68002,71352],[71352,68933],[68933,67457],[67457,65936],[65936,63945],[63945,61932],[61932,61622],[61622,60517],[60517,60823]],
+    centroidRA: 3.5011,
+    centroidDec: -0.7829,
+    radius: 0.2356,
+    labelRA: 3.5011,
+    labelDec: -0.7829,
+  },
+  {
+    culture: "chinese",
+    abbr: "132",
+    name: "Officers of the Imperial Guard",
+    lines: [[60742,60697],[60697,60746],[60746,60904],[60904,60514],[60514,60351],[60351,61071],[61071,60941],[60941,59847],[59847,61394],[61394,61724],[61724,60957],[60957,59501],[59501,58858]],
+    centroidRA: 3.2515,
+    centroidDec: 0.4234,
+    radius: 0.0972,
+    labelRA: 3.2515,
+    labelDec: 0.4234,
+  },
+  {
+    culture: "chinese",
+    abbr: "134",
+    name: "Thunder and Lightning",
+    lines: [[115919,115444],[115444,114144],[114144,112935],[112935,112447],[112447,112029]],
+    centroidRA: 6.0356,
+    centroidDec: 0.1964,
+    radius: 0.1136,
+    labelRA: 6.0356,
+    labelDec: 0.1964,
+  },
+  {
+    culture: "chinese",
+    abbr: "135",
+    name: "Line of Ramparts",
+    lines: [[145,118209],[118209,154],[154,443],[443,145],[118209,114724],[114724,112961],[112961,111123],[111123,109139],[109139,107556],[107556,106985],[106985,106723],[106723,107188],[107188,107556]],
+    centroidRA: 5.9746,
+    centroidDec: -0.1918,
+    radius: 0.3433,
+    labelRA: 5.9746,
+    labelDec: -0.1918,
+  },
+  {
+    culture: "chinese",
+    abbr: "136",
+    name: "Resting Palace (Vassal of Encampment)",
+    lines: [[112440,112748],[112051,112158],[115250,115623],[113881,112748],[113881,112158],[113881,115250]],
+    centroidRA: 6.0168,
+    centroidDec: 0.4572,
+    radius: 0.1154,
+    labelRA: 6.0168,
+    labelDec: 0.4572,
+  },
+  {
+    culture: "chinese",
+    abbr: "138",
+    name: "Pearls on Ladies' Wear",
+    lines: [[101936,101847],[101847,101692],[101692,101101]],
+    centroidRA: 5.3932,
+    centroidDec: -0.0264,
+    radius: 0.0379,
+    labelRA: 5.3932,
+    labelDec: -0.0264,
+  },
+  {
+    culture: "chinese",
+    abbr: "139",
+    name: "Whetstone",
+    lines: [[19205,19513],[19513,20430],[20430,20250]],
+    centroidRA: 1.1137,
+    centroidDec: 0.4734,
+    radius: 0.0456,
+    labelRA: 1.1137,
+    labelDec: 0.4734,
+  },
+  {
+    culture: "chinese",
+    abbr: "140",
+    name: "Jewel Market",
+    lines: [[80179,80883]],
+    centroidRA: 4.3044,
+    centroidDec: 0.0263,
+    radius: 0.021,
+    labelRA: 4.3044,
+    labelDec: 0.0263,
+  },
+  {
+    culture: "chinese",
+    abbr: "141",
+    name: "Astronomical Observatory",
+    lines: [[54182,53824],[53824,53807]],
+    centroidRA: 2.889,
+    centroidDec: 0.0992,
+    radius: 0.0367,
+    labelRA: 2.889,
+    labelDec: 0.0992,
+  },
+  {
+    culture: "chinese",
+    abbr: "142",
+    name: "Six Jia",
+    lines: [[32439,33694],[33694,39538],[39538,36547],[36547,23265],[23265,25110]],
+    centroidRA: 1.7389,
+    centroidDec: 1.3997,
+    radius: 0.0708,
+    labelRA: 1.7389,
+    labelDec: 1.3997,
+  },
+  {
+    culture: "chinese",
+    abbr: "143",
+    name: "Network of Dykes",
+    lines: [[101923,101984],[101984,102487]],
+    centroidRA: 5.4183,
+    centroidDec: -0.3177,
+    radius: 0.0605,
+    labelRA: 5.4183,
+    labelDec: -0.3177,
+  },
+  {
+    culture: "chinese",
+    abbr: "144",
+    name: "Horse's Abdomen",
+    lines: [[68702,65129]],
+    centroidRA: 3.582,
+    centroidDec: -1.0158,
+    radius: 0.0635,
+    labelRA: 3.582,
+    labelDec: -1.0158,
+  },
+  {
+    culture: "chinese",
+    abbr: "145",
+    name: "Horse's Tail",
+    lines: [[60710,59449],[59449,59196]],
+    centroidRA: 3.2092,
+    centroidDec: -0.8994,
+    radius: 0.03,
+    labelRA: 3.2092,
+    labelDec: -0.8994,
+  },
+  {
+    culture: "chinese",
+    abbr: "146",
+    name: "Bee",
+    lines: [[62322,61585],[62322,61199],[62322,63613]],
+    centroidRA: 3.3357,
+    centroidDec: -1.2261,
+    radius: 0.0375,
+    labelRA: 3.3357,
+    labelDec: -1.2261,
+  },
+  {
+    culture: "chinese",
+    abbr: "147",
+    name: "The Hall of Glory",
+    lines: [[55945,56647],[56647,56127]],
+    centroidRA: 3.0183,
+    centroidDec: -0.0057,
+    radius: 0.0579,
+    labelRA: 3.0183,
+    labelDec: -0.0057,
+  },
+  {
+    culture: "chinese",
+    abbr: "148",
+    name: "Southern Boat",
+    lines: [[50371,51576],[51576,52419],[52419,50099],[50099,45238]],
+    centroidRA: 2.6824,
+    centroidDec: -1.1451,
+    radius: 0.1242,
+    labelRA: 2.6824,
+    labelDec: -1.1451,
+  },
+  {
+    culture: "chinese",
+    abbr: "149",
+    name: "South River",
+    lines: [[36041,36188],[36188,37279]],
+    centroidRA: 1.9666,
+    centroidDec: 0.1326,
+    radius: 0.0557,
+    labelRA: 1.9666,
+    labelDec: 0.1326,
+  },
+  {
+    culture: "chinese",
+    abbr: "151",
+    name: "Southern Gate",
+    lines: [[66657,71683]],
+    centroidRA: 3.6947,
+    centroidDec: -1.0013,
+    radius: 0.0952,
+    labelRA: 3.6947,
+    labelDec: -1.0013,
+  },
+  {
+    culture: "chinese",
+    abbr: "152",
+    name: "Inner Kitchen",
+    lines: [[62423,63076]],
+    centroidRA: 3.3669,
+    centroidDec: 1.154,
+    radius: 0.0137,
+    labelRA: 3.3669,
+    labelDec: 1.154,
+  },
+  {
+    culture: "chinese",
+    abbr: "153",
+    name: "Inner Steps",
+    lines: [[41704,45333],[45333,43903],[46733,43644],[43644,45455]],
+    centroidRA: 2.3725,
+    centroidDec: 1.0735,
+    radius: 0.0874,
+    labelRA: 2.3725,
+    labelDec: 1.0735,
+  },
+  {
+    culture: "chinese",
+    abbr: "154",
+    name: "High Judge",
+    lines: [[50218,49593],[49593,47631],[47631,48742]],
+    centroidRA: 2.6204,
+    centroidDec: 0.5862,
+    radius: 0.0695,
+    labelRA: 2.6196,
+    labelDec: 0.5855,
+  },
+  {
+    culture: "chinese",
+    abbr: "155",
+    name: "Inner Screen",
+    lines: [[57328,57380],[57380,58590],[58590,58948]],
+    centroidRA: 3.1167,
+    centroidDec: 0.1316,
+    radius: 0.0515,
+    labelRA: 3.1167,
+    labelDec: 0.1316,
+  },
+  {
+    culture: "chinese",
+    abbr: "156",
+    name: "Imperial Passageway",
+    lines: [[92862,94481],[94481,94713],[94713,95556],[95556,97295]],
+    centroidRA: 5.0631,
+    centroidDec: 0.6689,
+    radius: 0.1279,
+    labelRA: 5.0631,
+    labelDec: 0.6689,
+  },
+  {
+    culture: "chinese",
+    abbr: "157",
+    name: "Bird's Beak",
+    lines: [[110130,110838],[110838,118092],[118092,2484],[2484,3330],[3330,1599],[1599,118322]],
+    centroidRA: 6.2135,
+    centroidDec: -1.126,
+    radius: 0.1871,
+    labelRA: 6.2135,
+    labelDec: -1.126,
+  },
+  {
+    culture: "chinese",
+    abbr: "159",
+    name: "Woman's Bed",
+    lines: [[84380,84606],[84606,85112]],
+    centroidRA: 4.5326,
+    centroidDec: 0.6473,
+    radius: 0.017,
+    labelRA: 4.5326,
+    labelDec: 0.6473,
+  },
+  {
+    culture: "chinese",
+    abbr: "161",
+    name: "Thunderbolt",
+    lines: [[113889,114971],[114971,115830],[115830,116771],[116771,118268]],
+    centroidRA: 6.1506,
+    centroidDec: 0.091,
+    radius: 0.132,
+    labelRA: 6.1506,
+    labelDec: 0.091,
+  },
+  {
+    culture: "chinese",
+    abbr: "162",
+    name: "Judging",
+    lines: [[64962,68895]],
+    centroidRA: 3.588,
+    centroidDec: -0.4371,
+    radius: 0.0987,
+    labelRA: 3.588,
+    labelDec: -0.4371,
+  },
+  {
+    culture: "chinese",
+    abbr: "163",
+    name: "Flat Road",
+    lines: [[64238,66803]],
+    centroidRA: 3.5156,
+    centroidDec: -0.1246,
+    radius: 0.0739,
+    labelRA: 3.5156,
+    labelDec: -0.1246,
+  },
+  {
+    culture: "chinese",
+    abbr: "164",
+    name: "Screen",
+    lines: [[24305,23685]],
+    centroidRA: 1.3494,
+    centroidDec: -0.3367,
+    radius: 0.056,
+    labelRA: 1.3494,
+    labelDec: -0.3367,
+  },
+  {
+    culture: "chinese",
+    abbr: "165",
+    name: "Seven Excellencies",
+    lines: [[81497,79992],[79992,79101],[79101,77760],[77760,75973],[75973,75411],[75411,74666]],
+    centroidRA: 4.1487,
+    centroidDec: 0.7373,
+    radius: 0.1975,
+    labelRA: 4.1487,
+    labelDec: 0.7373,
+  },
+  {
+    culture: "chinese",
+    abbr: "167",
+    name: "Imperial Guards",
+    lines: [[76297,75141],[75141,73334],[73334,73273],[73273,74117],[74117,75264],[75264,74911],[74911,73807],[73807,72683],[72683,71860]],
+    centroidRA: 3.9642,
+    centroidDec: -0.7742,
+    radius: 0.1018,
+    labelRA: 3.9642,
+    labelDec: -0.7742,
+  },
+  {
+    culture: "chinese",
+    abbr: "169",
+    name: "Weeping",
+    lines: [[110273,110003]],
+    centroidRA: 5.8404,
+    centroidDec: -0.1362,
+    radius: 0.0073,
+    labelRA: 5.8404,
+    labelDec: -0.1362,
+  },
+  {
+    culture: "chinese",
+    abbr: "171",
+    name: "Green Hill",
+    lines: [[57936,58158],[58158,56280],[56280,56332],[56332,56343],[56343,56452],[56452,56922]],
+    centroidRA: 3.0552,
+    centroidDec: -0.5543,
+    radius: 0.0818,
+    labelRA: 3.0552,
+    labelDec: -0.5543,
+  },
+  {
+    culture: "chinese",
+    abbr: "172",
+    name: "Palace Gate",
+    lines: [[34724,32578]],
+    centroidRA: 1.831,
+    centroidDec: 0.0184,
+    radius: 0.0565,
+    labelRA: 1.831,
+    labelDec: 0.0184,
+  },
+  {
+    culture: "chinese",
+    abbr: "173",
+    name: "Humans",
+    lines: [[106140,105502],[105502,107348],[107348,107472]],
+    centroidRA: 5.6534,
+    centroidDec: 0.3657,
+    radius: 0.0727,
+    labelRA: 5.669,
+    labelDec: 0.3649,
+  },
+  {
+    culture: "chinese",
+    abbr: "175",
+    name: "Three Excellencies (In Supreme Palace Enclosure)",
+    lines: [[61968,62443]],
+    centroidRA: 3.3376,
+    centroidDec: 0.0906,
+    radius: 0.031,
+    labelRA: 3.3376,
+    labelDec: 0.0906,
+  },
+  {
+    culture: "chinese",
+    abbr: "176",
+    name: "Three Excellencies (In Purple Forbidden Enclosure)",
+    lines: [[66234,64906]],
+    centroidRA: 3.5186,
+    centroidDec: 0.8616,
+    radius: 0.0238,
+    labelRA: 3.5186,
+    labelDec: 0.8616,
+  },
+  {
+    culture: "chinese",
+    abbr: "177",
+    name: "Triangle",
+    lines: [[74946,77952],[77952,82273],[82273,74946]],
+    centroidRA: 4.1898,
+    centroidDec: -1.1745,
+    radius: 0.0841,
+    labelRA: 4.1892,
+    labelDec: -1.1784,
+  },
+  {
+    culture: "chinese",
+    abbr: "178",
+    name: "Three Top Instructors",
+    lines: [[44390,44857]],
+    centroidRA: 2.3803,
+    centroidDec: 1.1738,
+    radius: 0.0082,
+    labelRA: 2.3803,
+    labelDec: 1.1738,
+  },
+  {
+    culture: "chinese",
+    abbr: "179",
+    name: "Three Steps",
+    lines: [[44127,44471],[44471,50372],[50372,50801],[50801,55219],[55219,55203]],
+    centroidRA: 2.6986,
+    centroidDec: 0.7253,
+    radius: 0.2722,
+    labelRA: 2.6986,
+    labelDec: 0.7253,
+  },
+  {
+    culture: "chinese",
+    abbr: "180",
+    name: "Royal Secretary",
+    lines: [[85805,80650],[85805,81660],[85805,80161],[85805,82860]],
+    centroidRA: 4.3983,
+    centroidDec: 1.174,
+    radius: 0.0742,
+    labelRA: 4.3983,
+    labelDec: 1.174,
+  },
+  {
+    culture: "chinese",
+    abbr: "181",
+    name: "Junior Officers",
+    lines: [[54347,53417],[53417,52457],[52457,52686]],
+    centroidRA: 2.8493,
+    centroidDec: 0.4033,
+    radius: 0.0784,
+    labelRA: 2.8493,
+    labelDec: 0.4033,
+  },
+  {
+    culture: "chinese",
+    abbr: "182",
+    name: "Snake's Abdomen",
+    lines: [[12876,12394],[12394,11001],[11001,8928]],
+    centroidRA: 0.6345,
+    centroidDec: -1.1889,
+    radius: 0.0507,
+    labelRA: 0.6345,
+    labelDec: -1.1889,
+  },
+  {
+    culture: "chinese",
+    abbr: "183",
+    name: "Snake's Head",
+    lines: [[9236,17440]],
+    centroidRA: 0.7351,
+    centroidDec: -1.1135,
+    radius: 0.1067,
+    labelRA: 0.7351,
+    labelDec: -1.1135,
+  },
+  {
+    culture: "chinese",
+    abbr: "184",
+    name: "Snake's Tail",
+    lines: [[2021,110078],[110078,107089],[107089,104043]],
+    centroidRA: 5.8517,
+    centroidDec: -1.3606,
+    radius: 0.1159,
+    labelRA: 5.8517,
+    labelDec: -1.3606,
+  },
+  {
+    culture: "chinese",
+    abbr: "186",
+    name: "Twelve States",
+    lines: [[104019,103703],[104139,105143],[105515,106568],[104429,104452]],
+    centroidRA: 5.5551,
+    centroidDec: -0.3285,
+    radius: 0.093,
+    labelRA: 5.5551,
+    labelDec: -0.3285,
+  },
+  {
+    culture: "chinese",
+    abbr: "187",
+    name: "Cross",
+    lines: [[61084,60718],[62434,59747]],
+    centroidRA: 3.2732,
+    centroidDec: -1.0419,
+    radius: 0.0599,
+    labelRA: 3.2732,
+    labelDec: -1.0419,
+  },
+  {
+    culture: "chinese",
+    abbr: "189",
+    name: "Municipal Office",
+    lines: [[86284,86565],[88404,84880],[85397,86768]],
+    centroidRA: 4.621,
+    centroidDec: -0.1795,
+    radius: 0.1098,
+    labelRA: 4.621,
+    labelDec: -0.1795,
+  },
+  {
+    culture: "chinese",
+    abbr: "190",
+    name: "Eunuch",
+    lines: [[51685,51556],[51556,52638],[52638,53229]],
+    centroidRA: 2.7976,
+    centroidDec: 0.5775,
+    radius: 0.0484,
+    labelRA: 2.7913,
+    labelDec: 0.5683,
+  },
+  {
+    culture: "chinese",
+    abbr: "191",
+    name: "Official for Irrigation",
+    lines: [[29038,29426],[29426,29704],[29704,29434]],
+    centroidRA: 1.622,
+    centroidDec: 0.2673,
+    radius: 0.0212,
+    labelRA: 1.623,
+    labelDec: 0.2669,
+  },
+  {
+    culture: "chinese",
+    abbr: "192",
+    name: "Crooked Running Water",
+    lines: [[7588,5348],[5348,3405]],
+    centroidRA: 0.3047,
+    centroidDec: -0.9908,
+    radius: 0.0667,
+    labelRA: 0.3047,
+    labelDec: -0.9908,
+  },
+  {
+    culture: "chinese",
+    abbr: "193",
+    name: "Water Level",
+    lines: [[36425,37921],[37921,39567],[39567,40167]],
+    centroidRA: 2.0647,
+    centroidDec: 0.2342,
+    radius: 0.1088,
+    labelRA: 2.0647,
+    labelDec: 0.2342,
+  },
+  {
+    culture: "chinese",
+    abbr: "194",
+    name: "Deified Judge of Right and Wrong",
+    lines: [[104521,104858]],
+    centroidRA: 5.5519,
+    centroidDec: 0.1757,
+    radius: 0.009,
+    labelRA: 5.5519,
+    labelDec: 0.1757,
+  },
+  {
+    culture: "chinese",
+    abbr: "195",
+    name: "Deity in Charge of Monsters",
+    lines: [[28237,28734],[28734,28716],[28716,27913]],
+    centroidRA: 1.5713,
+    centroidDec: 0.3911,
+    radius: 0.0624,
+    labelRA: 1.5713,
+    labelDec: 0.3911,
+  },
+  {
+    culture: "chinese",
+    abbr: "196",
+    name: "Deified Judge of Rank",
+    lines: [[107575,106944]],
+    centroidRA: 5.6871,
+    centroidDec: 0.043,
+    radius: 0.0172,
+    labelRA: 5.6871,
+    labelDec: 0.043,
+  },
+  {
+    culture: "chinese",
+    abbr: "198",
+    name: "Deified Judge of Disaster and Good Fortune",
+    lines: [[105570,105413]],
+    centroidRA: 5.5937,
+    centroidDec: 0.1236,
+    radius: 0.0062,
+    labelRA: 5.5937,
+    labelDec: 0.1236,
+  },
+  {
+    culture: "chinese",
+    abbr: "199",
+    name: "Four Channels",
+    lines: [[34033,32533],[32533,31216],[31216,30419]],
+    centroidRA: 1.7533,
+    centroidDec: 0.1352,
+    radius: 0.1093,
+    labelRA: 1.7533,
+    labelDec: 0.1352,
+  },
+  {
+    culture: "chinese",
+    abbr: "200",
+    name: "Four Advisors",
+    lines: [[58874,51502],[51502,51384]],
+    centroidRA: 2.8528,
+    centroidDec: 1.47,
+    radius: 0.036,
+    labelRA: 2.8528,
+    labelDec: 1.47,
+  },
+  {
+    culture: "chinese",
+    abbr: "201",
+    name: "Grandson",
+    lines: [[29807,29034]],
+    centroidRA: 1.6236,
+    centroidDec: -0.6318,
+    radius: 0.0243,
+    labelRA: 1.6236,
+    labelDec: -0.6318,
+  },
+  {
+    culture: "chinese",
+    abbr: "206",
+    name: "Flying Serpent",
+    lines: [[111169,110609],[110609,107533],[107533,107136],[107136,105064],[105064,106886],[106886,108165],[108165,109857],[109857,110538],[110538,118243],[118243,117863],[117863,117301],[117301,115990],[115990,111674],[111674,113919],[113919,114570],[114570,115022],[115022,116584],[116584,117221],[117221,116805],[116805,116631]],
+    centroidRA: 5.9885,
+    centroidDec: 0.9163,
+    radius: 0.2493,
+    labelRA: 5.9885,
+    labelDec: 0.9163,
+  },
+  {
+    culture: "chinese",
+    abbr: "208",
+    name: "Celestial Flail",
+    lines: [[87585,85829],[85829,85670],[85670,87833],[87833,86414]],
+    centroidRA: 4.6353,
+    centroidDec: 0.9145,
+    radius: 0.1119,
+    labelRA: 4.6353,
+    labelDec: 0.9145,
+  },
+  {
+    culture: "chinese",
+    abbr: "209",
+    name: "Market Officer",
+    lines: [[91117,91726],[91726,91845],[91845,92175],[92175,93026],[93026,93429],[93429,93805],[93805,93717],[93717,93526]],
+    centroidRA: 4.9458,
+    centroidDec: -0.1058,
+    radius: 0.0878,
+    labelRA: 4.9458,
+    labelDec: -0.1058,
+  },
+  {
+    culture: "chinese",
+    abbr: "210",
+    name: "Square Celestial Granary",
+    lines: [[1562,5364],[5364,6537],[6537,8645],[8645,8102],[8102,9326]],
+    centroidRA: 0.3676,
+    centroidDec: -0.2183,
+    radius: 0.2852,
+    labelRA: 0.3676,
+    labelDec: -0.2183,
+  },
+  {
+    culture: "chinese",
+    abbr: "212",
+    name: "Celestial Kitchen",
+    lines: [[94376,96100],[96100,97433],[97433,98702],[98702,98583],[98583,95081]],
+    centroidRA: 5.1477,
+    centroidDec: 1.1823,
+    radius: 0.0636,
+    labelRA: 5.1294,
+    labelDec: 1.1893,
+  },
+  {
+    culture: "chinese",
+    abbr: "213",
+    name: "Celestial Boat",
+    lines: [[13268,14328],[14328,15863],[15863,16826],[16826,17358],[17358,19343],[19343,19812],[19812,20156],[20156,19949]],
+    centroidRA: 0.9833,
+    centroidDec: 0.8867,
+    radius: 0.1674,
+    labelRA: 0.9833,
+    labelDec: 0.8867,
+  },
+  {
+    culture: "chinese",
+    abbr: "214",
+    name: "Celestial Bed",
+    lines: [[69373,74605],[74605,77277],[79414,73199],[73199,72181]],
+    centroidRA: 3.9896,
+    centroidDec: 1.1816,
+    radius: 0.1067,
+    labelRA: 3.9896,
+    labelDec: 1.1816,
+  },
+  {
+    culture: "chinese",
+    abbr: "215",
+    name: "Great General of Heaven",
+    lines: [[9640,8068],[8068,7607],[7607,6999],[6999,7719],[7719,7513],[7513,7818],[7818,9021],[9021,10064],[10064,10670],[10670,10644],[10644,9640]],
+    centroidRA: 0.4938,
+    centroidDec: 0.7238,
+    radius: 0.1635,
+    labelRA: 0.4938,
+    labelDec: 0.7238,
+  },
+  {
+    culture: "chinese",
+    abbr: "216",
+    name: "Celestial Drumstick",
+    lines: [[99473,98844],[98844,97980],[97980,97804]],
+    centroidRA: 5.2392,
+    centroidDec: -0.0011,
+    radius: 0.048,
+    labelRA: 5.2392,
+    labelDec: -0.0011,
+  },
+  {
+    culture: "chinese",
+    abbr: "217",
+    name: "Celestial Spokes",
+    lines: [[76470,76600]],
+    centroidRA: 4.0921,
+    centroidDec: -0.5054,
+    radius: 0.0147,
+    labelRA: 4.0921,
+    labelDec: -0.5054,
+  },
+  {
+    culture: "chinese",
+    abbr: "219",
+    name: "Celestial High Terrace",
+    lines: [[23497,22565],[22565,23949],[23949,24822],[24822,23497]],
+    centroidRA: 1.3333,
+    centroidDec: 0.3598,
+    radius: 0.0661,
+    labelRA: 1.3333,
+    labelDec: 0.3598,
+  },
+  {
+    culture: "chinese",
+    abbr: "220",
+    name: "Celestial Hook",
+    lines: [[102253,99731],[99731,101093],[101093,102422],[102422,105199],[105199,108917],[108917,110817],[110817,112724],[112724,115088]],
+    centroidRA: 5.6348,
+    centroidDec: 1.1445,
+    radius: 0.1876,
+    labelRA: 5.6348,
+    labelDec: 1.1445,
+  },
+  {
+    culture: "chinese",
+    abbr: "221",
+    name: "Celestial Dog",
+    lines: [[42312,42884],[42884,43603],[43603,42515],[42515,42828],[42828,43409],[43409,43825]],
+    centroidRA: 2.2979,
+    centroidDec: -0.6192,
+    radius: 0.14,
+    labelRA: 2.2979,
+    labelDec: -0.6192,
+  },
+  {
+    culture: "chinese",
+    abbr: "224",
+    name: "Celestial Pier",
+    lines: [[24879,25541],[24879,25292],[24879,24340],[24879,24504]],
+    centroidRA: 1.3973,
+    centroidDec: 0.6179,
+    radius: 0.0588,
+    labelRA: 1.3973,
+    labelDec: 0.6179,
+  },
+  {
+    culture: "chinese",
+    abbr: "225",
+    name: "Celestial Pigsty",
+    lines: [[4257,4371],[4371,3559],[3559,3455]],
+    centroidRA: 0.2182,
+    centroidDec: -0.1898,
+    radius: 0.0416,
+    labelRA: 0.2209,
+    labelDec: -0.194,
+  },
+  {
+    culture: "chinese",
+    abbr: "226",
+    name: "Celestial Cock",
+    lines: [[96950,97290]],
+    centroidRA: 5.168,
+    centroidDec: -0.3132,
+    radius: 0.0327,
+    labelRA: 5.168,
+    labelDec: -0.3132,
+  },
+  {
+    culture: "chinese",
+    abbr: "228",
+    name: "Celestial Discipline",
+    lines: [[80181,81693],[81693,83207],[83207,83313],[83313,83462],[83462,84573],[84573,86178],[86178,87808]],
+    centroidRA: 4.4809,
+    centroidDec: 0.5783,
+    radius: 0.1897,
+    labelRA: 4.4809,
+    labelDec: 0.5783,
+  },
+  {
+    culture: "chinese",
+    abbr: "229",
+    name: "Celestial River",
+    lines: [[84314,84405],[84405,84970],[84970,85340]],
+    centroidRA: 4.5358,
+    centroidDec: -0.4485,
+    radius: 0.0379,
+    labelRA: 4.5358,
+    labelDec: -0.4485,
+  },
+  {
+    culture: "chinese",
+    abbr: "230",
+    name: "Celestial Street",
+    lines: [[20641,19990]],
+    centroidRA: 1.1402,
+    centroidDec: 0.3734,
+    radius: 0.0218,
+    labelRA: 1.1402,
+    labelDec: 0.3734,
+  },
+  {
+    culture: "chinese",
+    abbr: "231",
+    name: "Celestial Tally",
+    lines: [[20732,21273],[20732,20219],[20219,20901],[20901,21589],[21589,21735],[21735,21402],[21402,20522]],
+    centroidRA: 1.1819,
+    centroidDec: 0.2204,
+    radius: 0.0629,
+    labelRA: 1.1819,
+    labelDec: 0.2204,
+  },
+  {
+    culture: "chinese",
+    abbr: "232",
+    name: "Celestial Ford",
+    lines: [[104732,105138],[105138,104887],[104887,103413],[103413,102098],[102098,99639],[99639,97165],[97165,100453],[100453,102488],[102488,104732]],
+    centroidRA: 5.4331,
+    centroidDec: 0.6941,
+    radius: 0.2148,
+    labelRA: 5.4331,
+    labelDec: 0.6941,
+  },
+  {
+    culture: "chinese",
+    abbr: "233",
+    name: "Celestial Stable",
+    lines: [[1366,1686],[1686,1473]],
+    centroidRA: 0.0822,
+    centroidDec: 0.66,
+    radius: 0.018,
+    labelRA: 0.0822,
+    labelDec: 0.66,
+  },
+  {
+    culture: "chinese",
+    abbr: "235",
+    name: "Celestial Prison",
+    lines: [[53295,56034],[53721,56148],[53838,55560]],
+    centroidRA: 2.9353,
+    centroidDec: 0.7249,
+    radius: 0.067,
+    labelRA: 2.9353,
+    labelDec: 0.7249,
+  },
+  {
+    culture: "chinese",
+    abbr: "236",
+    name: "Celestial Ramparts",
+    lines: [[106786,107382],[107382,107487],[107487,107517],[107517,107527],[107527,105668],[105668,104974],[104974,103728],[103728,103640],[103640,104459],[104459,105019],[105019,105574],[105574,105761]],
+    centroidRA: 5.6113,
+    centroidDec: -0.1932,
+    radius: 0.1166,
+    labelRA: 5.6113,
+    labelDec: -0.1932,
+  },
+  {
+    culture: "chinese",
+    abbr: "237",
+    name: "Judge for Nobility",
+    lines: [[55060,55797],[55797,58181],[58181,58259],[58259,55060]],
+    centroidRA: 3.0483,
+    centroidDec: 1.0221,
+    radius: 0.0656,
+    labelRA: 3.0384,
+    labelDec: 1.0379,
+  },
+  {
+    culture: "chinese",
+    abbr: "238",
+    name: "Celestial Foodstuff",
+    lines: [[16369,16322],[16322,16083],[16083,15900]],
+    centroidRA: 0.9089,
+    centroidDec: 0.1878,
+    radius: 0.0396,
+    labelRA: 0.9089,
+    labelDec: 0.1878,
+  },
+  {
+    culture: "chinese",
+    abbr: "239",
+    name: "Celestial Gate",
+    lines: [[64407,65639]],
+    centroidRA: 3.4896,
+    centroidDec: -0.2809,
+    radius: 0.0323,
+    labelRA: 3.4896,
+    labelDec: -0.2809,
+  },
+  {
+    culture: "chinese",
+    abbr: "240",
+    name: "Celestial Money",
+    lines: [[108952,107608],[107608,107380],[107380,109285],[109285,109422],[109422,108952]],
+    centroidRA: 5.7557,
+    centroidDec: -0.5568,
+    radius: 0.0557,
+    labelRA: 5.7557,
+    labelDec: -0.5571,
+  },
+  {
+    culture: "chinese",
+    abbr: "241",
+    name: "Celestial Spear",
+    lines: [[69481,69713],[69713,70497]],
+    centroidRA: 3.7449,
+    centroidDec: 0.9019,
+    radius: 0.019,
+    labelRA: 3.7449,
+    labelDec: 0.9019,
+  },
+  {
+    culture: "chinese",
+    abbr: "242",
+    name: "Circular Celestial Granary",
+    lines: [[14135,15619],[15619,13954],[13954,12828],[12828,10324],[10324,11484],[11484,12093],[12093,12706],[12706,12387],[12387,11791],[11791,11046],[11046,10234],[10234,10305]],
+    centroidRA: 0.6868,
+    centroidDec: 0.0635,
+    radius: 0.1903,
+    labelRA: 0.6868,
+    labelDec: 0.0635,
+  },
+  {
+    culture: "chinese",
+    abbr: "244",
+    name: "Celestial Earth God's Temple",
+    lines: [[39953,42570],[42570,42913],[42913,45941],[45941,46701]],
+    centroidRA: 2.3182,
+    centroidDec: -0.9142,
+    radius: 0.1466,
+    labelRA: 2.3182,
+    labelDec: -0.9142,
+  },
+  {
+    culture: "chinese",
+    abbr: "245",
+    name: "Celestial Farmland (In Horn Mansion)",
+    lines: [[68520,66200]],
+    centroidRA: 3.6124,
+    centroidDec: 0.0455,
+    radius: 0.0627,
+    labelRA: 3.6124,
+    labelDec: 0.0455,
+  },
+  {
+    culture: "chinese",
+    abbr: "246",
+    name: "Celestial Farmland (In Ox Mansion)",
+    lines: [[104750,102978],[104750,104234],[104234,102485],[102978,102485]],
+    centroidRA: 5.4958,
+    centroidDec: -0.4578,
+    radius: 0.0587,
+    labelRA: 5.4958,
+    labelDec: -0.4578,
+  },
+  {
+    culture: "chinese",
+    abbr: "247",
+    name: "Celestial Premier",
+    lines: [[49812,50414]],
+    centroidRA: 2.6786,
+    centroidDec: -0.1438,
+    radius: 0.0165,
+    labelRA: 2.6786,
+    labelDec: -0.1438,
+  },
+  {
+    culture: "chinese",
+    abbr: "249",
+    name: "Celestial Yin Force",
+    lines: [[15737,15110],[15110,14838],[15110,16181]],
+    centroidRA: 0.87,
+    centroidDec: 0.368,
+    radius: 0.0473,
+    labelRA: 0.87,
+    labelDec: 0.368,
+  },
+  {
+    culture: "chinese",
+    abbr: "250",
+    name: "Ricks of Grain",
+    lines: [[9677,11918],[11918,13147]],
+    centroidRA: 0.6499,
+    centroidDec: -0.5246,
+    radius: 0.0937,
+    labelRA: 0.6499,
+    labelDec: -0.5246,
+  },
+  {
+    culture: "chinese",
+    abbr: "251",
+    name: "Celestial Spring",
+    lines: [[95294,95241],[95241,95347]],
+    centroidRA: 5.0757,
+    centroidDec: -0.7556,
+    radius: 0.0467,
+    labelRA: 5.0757,
+    labelDec: -0.7556,
+  },
+  {
+    culture: "chinese",
+    abbr: "252",
+    name: "Celestial Orchard",
+    lines: [[9007,10602],[10602,11407],[11407,12413],[12413,13847],[13847,17351],[17351,17797],[17797,17874],[17874,20042],[20042,20535],[20535,21393],[21393,21248]],
+    centroidRA: 0.9311,
+    centroidDec: -0.7017,
+    radius: 0.3539,
+    labelRA: 0.9311,
+    labelDec: -0.7017,
+  },
+  {
+    culture: "chinese",
+    abbr: "253",
+    name: "Celestial Meadows",
+    lines: [[18543,17593],[17593,17378],[17378,16537],[16537,15197],[15197,13701],[13701,12770],[12770,12843],[12843,13288],[13288,14146],[14146,15474],[15474,16611],[16611,17651],[17651,17717],[17717,18216],[18216,18673]],
+    centroidRA: 0.8984,
+    centroidDec: -0.306,
+    radius: 0.1958,
+    labelRA: 0.8985,
+    labelDec: -0.3104,
+  },
+  {
+    culture: "chinese",
+    abbr: "254",
+    name: "Celestial Keyhole",
+    lines: [[87706,87099],[87099,86736],[86736,86352],[86352,86060],[86060,85755],[85755,85783],[85783,87072]],
+    centroidRA: 4.631,
+    centroidDec: -0.4171,
+    radius: 0.0729,
+    labelRA: 4.6398,
+    labelDec: -0.4118,
+  },
+  {
+    culture: "chinese",
+    abbr: "255",
+    name: "Celestial Pillar",
+    lines: [[102208,104105],[104105,98401],[98401,94083],[94083,88127]],
+    centroidRA: 5.1759,
+    centroidDec: 1.3817,
+    radius: 0.0842,
+    labelRA: 5.1699,
+    labelDec: 1.366,
+  },
+  {
+    culture: "chinese",
+    abbr: "256",
+    name: "Celestial Wine Cup",
+    lines: [[35846,35550],[35550,33927]],
+    centroidRA: 1.8996,
+    centroidDec: 0.4148,
+    radius: 0.0522,
+    labelRA: 1.8996,
+    labelDec: 0.4148,
+  },
+  {
+    culture: "chinese",
+    abbr: "257",
+    name: "Butcher's Shops",
+    lines: [[90139,88657]],
+    centroidRA: 4.7773,
+    centroidDec: 0.3841,
+    radius: 0.0359,
+    labelRA: 4.7773,
+    labelDec: 0.3841,
+  },
+  {
+    culture: "chinese",
+    abbr: "259",
+    name: "Official for Materials Supply",
+    lines: [[110386,110986]],
+    centroidRA: 5.8702,
+    centroidDec: 0.1862,
+    radius: 0.0314,
+    labelRA: 5.8702,
+    labelDec: 0.1862,
+  },
+  {
+    culture: "chinese",
+    abbr: "261",
+    name: "Outer Kitchen",
+    lines: [[41375,42835],[42835,43305],[43305,43142]],
+    centroidRA: 2.2763,
+    centroidDec: -0.0723,
+    radius: 0.0664,
+    labelRA: 2.2799,
+    labelDec: -0.0736,
+  },
+  {
+    culture: "chinese",
+    abbr: "262",
+    name: "Outer Fence",
+    lines: [[9487,8833],[8833,7884],[7884,7007],[7007,5737],[5737,4906],[4906,3786]],
+    centroidRA: 0.3822,
+    centroidDec: 0.1019,
+    radius: 0.1713,
+    labelRA: 0.3822,
+    labelDec: 0.1019,
+  },
+  {
+    culture: "chinese",
+    abbr: "263",
+    name: "Wang Liang",
+    lines: [[746,2599],[2599,3821],[3821,3179],[3179,2505]],
+    centroidRA: 0.1437,
+    centroidDec: 1.0164,
+    radius: 0.082,
+    labelRA: 0.1498,
+    labelDec: 1.0177,
+  },
+  {
+    culture: "chinese",
+    abbr: "265",
+    name: "Administrative Center",
+    lines: [[48319,48402],[48402,46853],[46853,44901],[44901,45493]],
+    centroidRA: 2.4935,
+    centroidDec: 0.9453,
+    radius: 0.0971,
+    labelRA: 2.4945,
+    labelDec: 0.9446,
+  },
+  {
+    culture: "chinese",
+    abbr: "266",
+    name: "Five Chariots",
+    lines: [[23015,24608],[24608,28360],[28360,28380],[28380,25428]],
+    centroidRA: 1.4448,
+    centroidDec: 0.6658,
+    radius: 0.1674,
+    labelRA: 1.4728,
+    labelDec: 0.6486,
+  },
+  {
+    culture: "chinese",
+    abbr: "267",
+    name: "Interior Seats of the Five Emperors",
+    lines: [[14417,9727],[14417,13055],[14417,15547],[14417,19461]],
+    centroidRA: 0.7988,
+    centroidDec: 1.3872,
+    radius: 0.0635,
+    labelRA: 0.7988,
+    labelDec: 1.3872,
+  },
+  {
+    culture: "chinese",
+    abbr: "268",
+    name: "Seats of the Five Emperors",
+    lines: [[57632,57646],[57632,57320],[57632,58159],[57632,57779]],
+    centroidRA: 3.098,
+    centroidDec: 0.2549,
+    radius: 0.0407,
+    labelRA: 3.098,
+    labelDec: 0.2549,
+  },
+  {
+    culture: "chinese",
+    abbr: "269",
+    name: "Five Feudal Kings",
+    lines: [[33018,34693],[34693,36046],[36046,36962],[36962,38538]],
+    centroidRA: 1.9388,
+    centroidDec: 0.5102,
+    radius: 0.1433,
+    labelRA: 1.9388,
+    labelDec: 0.5102,
+  },
+  {
+    culture: "chinese",
+    abbr: "270",
+    name: "Five Lords",
+    lines: [[63948,63355],[63355,62356],[62356,59819]],
+    centroidRA: 3.3457,
+    centroidDec: 0.3066,
+    radius: 0.1371,
+    labelRA: 3.3457,
+    labelDec: 0.3066,
+  },
+  {
+    culture: "chinese",
+    abbr: "271",
+    name: "Western Door",
+    lines: [[78727,78207],[78207,77853],[77853,77060]],
+    centroidRA: 4.1677,
+    centroidDec: -0.2534,
+    radius: 0.0674,
+    labelRA: 4.1677,
+    labelDec: -0.2534,
+  },
+  {
+    culture: "chinese",
+    abbr: "272",
+    name: "Xi Zhong",
+    lines: [[94779,95853],[95853,96441],[96441,96895]],
+    centroidRA: 5.1117,
+    centroidDec: 0.8986,
+    radius: 0.0505,
+    labelRA: 5.1117,
+    labelDec: 0.8986,
+  },
+  {
+    culture: "chinese",
+    abbr: "273",
+    name: "Pool of Harmony",
+    lines: [[25048,25810],[25810,24813]],
+    centroidRA: 1.4134,
+    centroidDec: 0.7083,
+    radius: 0.0263,
+    labelRA: 1.4134,
+    labelDec: 0.7083,
+  },
+  {
+    culture: "chinese",
+    abbr: "275",
+    name: "Little Dipper",
+    lines: [[60000,58484],[58484,51839],[51839,52633],[52633,46928],[46928,46107],[46107,43012],[43012,40888],[40888,36982]],
+    centroidRA: 2.5873,
+    centroidDec: -1.3979,
+    radius: 0.1209,
+    labelRA: 2.5873,
+    labelDec: -1.3979,
+  },
+  {
+    culture: "chinese",
+    abbr: "277",
+    name: "Temple",
+    lines: [[110023,110578],[110578,111710],[111710,113345]],
+    centroidRA: 5.9082,
+    centroidDec: -0.0842,
+    radius: 0.101,
+    labelRA: 5.9082,
+    labelDec: -0.0842,
+  },
+  {
+    culture: "chinese",
+    abbr: "278",
+    name: "Xuanyuan",
+    lines: [[44248,44700],[44700,45688],[45688,45860],[45860,47617],[47617,47701],[47701,46146],[46146,46750],[46750,47908],[47908,48455],[48455,50335],[50335,50583],[50583,49583],[49583,49669],[49669,47508],[49669,51624],[49669,49637]],
+    centroidRA: 2.5647,
+    centroidDec: 0.4279,
+    radius: 0.3463,
+    labelRA: 2.5647,
+    labelDec: 0.4279,
+  },
+  {
+    culture: "chinese",
+    abbr: "281",
+    name: "Gate of Yang",
+    lines: [[71865,72010]],
+    centroidRA: 3.852,
+    centroidDec: -0.6368,
+    radius: 0.0231,
+    labelRA: 3.852,
+    labelDec: -0.6368,
+  },
+  {
+    culture: "chinese",
+    abbr: "284",
+    name: "Exotic Bird",
+    lines: [[84969,84979],[84979,81852],[81852,81065],[81065,70638],[81852,80047],[80047,69896],[81852,72370],[72370,70248]],
+    centroidRA: 4.2411,
+    centroidDec: -1.3622,
+    radius: 0.1987,
+    labelRA: 4.2411,
+    labelDec: -1.3622,
+  },
+  {
+    culture: "chinese",
+    abbr: "286",
+    name: "Official in Charge of Pasturing",
+    lines: [[6706,7097],[7097,7535],[7535,8198],[8198,7710]],
+    centroidRA: 0.4188,
+    centroidDec: 0.2448,
+    radius: 0.0986,
+    labelRA: 0.4188,
+    labelDec: 0.2448,
+  },
+  {
+    culture: "chinese",
+    abbr: "287",
+    name: "Right Flag",
+    lines: [[96229,96665],[96665,95501],[95501,95585],[95585,96468],[96468,96392],[96392,96556],[96556,96483],[96483,97928]],
+    centroidRA: 5.1325,
+    centroidDec: -0.0151,
+    radius: 0.1554,
+    labelRA: 5.1325,
+    labelDec: -0.0151,
+  },
+  {
+    culture: "chinese",
+    abbr: "288",
+    name: "Right Conductor",
+    lines: [[67927,67275],[67275,67459]],
+    centroidRA: 3.6236,
+    centroidDec: 0.3005,
+    radius: 0.027,
+    labelRA: 3.6233,
+    labelDec: 0.301,
+  },
+  {
+    culture: "chinese",
+    abbr: "290",
+    name: "Palace Guard",
+    lines: [[108797,109332],[109332,109786],[110391,110529],[110529,109789],[110641,111954],[111954,112862],[112362,111449],[111449,112529],[112211,111539],[111539,110778],[111086,110602],[110602,110179],[111200,111843],[111843,112161],[112615,113031],[113031,112716],[112542,113136],[113136,113148],[114341,114375],[114375,114119],[116247,116118],[116118,115669],[115438,115404],[115404,115125],[115115,115033],[115033,114855],[114164,114054],[114054,113996],[114939,116758],[116758,116971]],
+    centroidRA: 5.9897,
+    centroidDec: -0.294,
+    radius: 0.2455,
+    labelRA: 5.9897,
+    labelDec: -0.294,
+  },
+  {
+    culture: "chinese",
+    abbr: "291",
+    name: "Jade Well",
+    lines: [[23972,23364],[23364,23875],[23875,24674]],
+    centroidRA: 1.3483,
+    centroidDec: -0.1216,
+    radius: 0.0373,
+    labelRA: 1.3545,
+    labelDec: -0.1131,
+  },
+  {
+    culture: "chinese",
+    abbr: "292",
+    name: "Maids-in-waiting",
+    lines: [[94648,92112],[92112,85852],[94648,89937]],
+    centroidRA: 4.8393,
+    centroidDec: 1.294,
+    radius: 0.0669,
+    labelRA: 4.8393,
+    labelDec: 1.294,
+  },
+  {
+    culture: "chinese",
+    abbr: "295",
+    name: "Cloud and Rain",
+    lines: [[115738,115951],[115951,117491],[117491,116928]],
+    centroidRA: 6.1828,
+    centroidDec: 0.0134,
+    radius: 0.0547,
+    labelRA: 6.1828,
+    labelDec: 0.0134,
+  },
+  {
+    culture: "chinese",
+    abbr: "296",
+    name: "Zaofu",
+    lines: [[110991,109492],[109492,109556],[109556,107259],[107259,107418]],
+    centroidRA: 5.7788,
+    centroidDec: 1.0343,
+    radius: 0.0578,
+    labelRA: 5.7788,
+    labelDec: 1.0343,
+  },
+  {
+    culture: "chinese",
+    abbr: "297",
+    name: "Long Wall",
+    lines: [[51585,52689],[52689,52911],[52911,51775]],
+    centroidRA: 2.7954,
+    centroidDec: 0.2001,
+    radius: 0.0827,
+    labelRA: 2.7996,
+    labelDec: 0.2009,
+  },
+  {
+    culture: "chinese",
+    abbr: "298",
+    name: "Grandfather",
+    lines: [[26634,25859]],
+    centroidRA: 1.4637,
+    centroidDec: -0.607,
+    radius: 0.0194,
+    labelRA: 1.4637,
+    labelDec: -0.607,
+  },
+  {
+    culture: "chinese",
+    abbr: "301",
+    name: "Executions",
+    lines: [[69415,71652],[71652,71974],[71974,72929],[72929,73714]],
+    centroidRA: 3.8523,
+    centroidDec: -0.4452,
+    radius: 0.1216,
+    labelRA: 3.8523,
+    labelDec: -0.4452,
+  },
+  {
+    culture: "chinese",
+    abbr: "302",
+    name: "Battle Chariots",
+    lines: [[72571,73566],[73566,74857]],
+    centroidRA: 3.9414,
+    centroidDec: -0.5018,
+    radius: 0.0603,
+    labelRA: 3.9414,
+    labelDec: -0.5018,
+  },
+  {
+    culture: "chinese",
+    abbr: "304",
+    name: "Weaving Girl",
+    lines: [[91919,91262],[91262,91971]],
+    centroidRA: 4.8957,
+    centroidDec: 0.6753,
+    radius: 0.0212,
+    labelRA: 4.8944,
+    labelDec: 0.6739,
+  },
+  {
+    culture: "chinese",
+    abbr: "306",
+    name: "Tripod of the Zhou",
+    lines: [[64394,63462],[63462,64022]],
+    centroidRA: 3.4318,
+    centroidDec: 0.5021,
+    radius: 0.0424,
+    labelRA: 3.4318,
+    labelDec: 0.5021,
+  },
+  {
+    culture: "chinese",
+    abbr: "307",
+    name: "Feudal Kings",
+    lines: [[27830,26640],[26640,25695],[25695,23900],[23900,23068],[23068,21881]],
+    centroidRA: 1.3881,
+    centroidDec: 0.438,
+    radius: 0.1478,
+    labelRA: 1.3881,
+    labelDec: 0.438,
+  },
+  {
+    culture: "chinese",
+    abbr: "308",
+    name: "Pillars (In Net Mansion)",
+    lines: [[23416,23453],[23453,23767],[23767,23416],[27639,27673],[27673,27483],[27483,27639],[25984,26536]],
+    centroidRA: 1.4395,
+    centroidDec: 0.6662,
+    radius: 0.1376,
+    labelRA: 1.4639,
+    labelDec: 0.6709,
+  },
+  {
+    culture: "chinese",
+    abbr: "309",
+    name: "Pillars (In Horn Mansion)",
+    lines: [[70300,70090],[68523,68282],[69996,70574],[67786,67669],[67669,67153]],
+    centroidRA: 3.6915,
+    centroidDec: -0.6935,
+    radius: 0.1435,
+    labelRA: 3.6989,
+    labelDec: -0.692,
+  },
+  {
+    culture: "chinese",
+    abbr: "311",
+    name: "Son",
+    lines: [[27810,27628]],
+    centroidRA: 1.5361,
+    centroidDec: -0.6071,
+    radius: 0.0176,
+    labelRA: 1.5361,
+    labelDec: -0.6071,
+  },
+  {
+    culture: "chinese",
+    abbr: "312",
+    name: "Patriarchal Clan",
+    lines: [[92043,92161]],
+    centroidRA: 4.9146,
+    centroidDec: 0.338,
+    radius: 0.0208,
+    labelRA: 4.9146,
+    labelDec: 0.338,
+  },
+  {
+    culture: "chinese",
+    abbr: "313",
+    name: "Official of Religious Ceremonies",
+    lines: [[88149,88192],[88192,88290],[88290,88601]],
+    centroidRA: 4.7212,
+    centroidDec: 0.0485,
+    radius: 0.0288,
+    labelRA: 4.7212,
+    labelDec: 0.0485,
+  },
+  {
+    culture: "chinese",
+    abbr: "314",
+    name: "Official for the Royal Clan",
+    lines: [[86742,87108]],
+    centroidRA: 4.6499,
+    centroidDec: 0.0635,
+    radius: 0.0189,
+    labelRA: 4.6499,
+    labelDec: 0.0635,
+  },
+  {
+    culture: "chinese",
+    abbr: "315",
+    name: "Official in Charge of the Forest",
+    lines: [[12332,12640],[12640,12803],[12803,13327],[13327,13165]],
+    centroidRA: 0.7215,
+    centroidDec: 0.3136,
+    radius: 0.0747,
+    labelRA: 0.7215,
+    labelDec: 0.3136,
+  },
+  {
+    culture: "chinese",
+    abbr: "316",
+    name: "Left Flag",
+    lines: [[96757,96837],[96837,97365],[97365,97496],[97496,98337],[98337,98438],[98438,98234],[98234,98754],[98754,99742]],
+    centroidRA: 5.2128,
+    centroidDec: 0.3071,
+    radius: 0.092,
+    labelRA: 5.2128,
+    labelDec: 0.3071,
+  },
+  {
+    culture: "chinese",
+    abbr: "317",
+    name: "Left Conductor",
+    lines: [[72125,71762],[71762,71795]],
+    centroidRA: 3.85,
+    centroidDec: 0.2741,
+    radius: 0.0349,
+    labelRA: 3.85,
+    labelDec: 0.2741,
+  },
+  {
+    culture: "chinese",
+    abbr: "318",
+    name: "Seat Flags",
+    lines: [[32562,33485],[33485,32173],[32173,32480],[32480,31832],[31832,32844],[32844,31789],[31789,31771],[31771,33041]],
+    centroidRA: 1.772,
+    centroidDec: 0.7457,
+    radius: 0.106,
+    labelRA: 1.772,
+    labelDec: 0.7457,
   },
 ];
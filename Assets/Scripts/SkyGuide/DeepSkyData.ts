@@ -0,0 +1,70 @@
+// DeepSkyData.ts — Auto-generated from tools/data/deep-sky.csv
+// 57 deep-sky objects (Messier, Caldwell, bright NGC/IC)
+
+import { DeepSkyRecord, DeepSkyType } from './Types';
+
+// Format: [id, name, type, ra_rad, dec_rad, mag, major_arcmin, minor_arcmin, surface_brightness, constellation, ngc]
+const RAW: [string, string, DeepSkyType, number, number, number, number, number, number, string, string][] = [
+  ["M1","Crab Nebula","supernovaRemnant",1.459532,0.384263,8.4,6,4,11.6,"Tau","NGC 1952"],
+  ["M2","","globularCluster",5.643958,-0.014254,6.5,16,16,12.3,"Aqr","NGC 7089"],
+  ["M3","","globularCluster",3.587524,0.495383,6.2,18,18,12.2,"CVn","NGC 5272"],
+  ["M4","","globularCluster",4.291765,-0.463094,5.6,36,36,13.1,"Sco","NGC 6121"],
+  ["M5","","globularCluster",4.008149,0.036361,5.6,23,23,12.1,"Ser","NGC 5904"],
+  ["M6","Butterfly Cluster","openCluster",4.625559,-0.562287,4.2,25,25,10.9,"Sco","NGC 6405"],
+  ["M7","Ptolemy Cluster","openCluster",4.685773,-0.607665,3.3,80,80,12.6,"Sco","NGC 6475"],
+  ["M8","Lagoon Nebula","nebula",4.728970,-0.425569,6,90,40,14.6,"Sgr","NGC 6523"],
+  ["M11","Wild Duck Cluster","openCluster",4.935355,-0.109374,5.8,14,14,11.3,"Sct","NGC 6705"],
+  ["M13","Hercules Cluster","globularCluster",4.370741,0.636463,5.8,20,20,12,"Her","NGC 6205"],
+  ["M15","","globularCluster",5.628687,0.212348,6.2,18,18,12.2,"Peg","NGC 7078"],
+  ["M16","Eagle Nebula","nebula",4.794419,-0.240565,6,35,28,13.2,"Ser","NGC 6611"],
+  ["M17","Omega Nebula","nebula",4.803146,-0.282452,6,46,37,13.8,"Sgr","NGC 6618"],
+  ["M20","Trifid Nebula","nebula",4.723734,-0.402008,6.3,28,28,13.3,"Sgr","NGC 6514"],
+  ["M22","","globularCluster",4.871214,-0.417134,5.1,32,32,12.4,"Sgr","NGC 6656"],
+  ["M27","Dumbbell Nebula","planetaryNebula",5.234242,0.396481,7.5,8,5.7,11.4,"Vul","NGC 6853"],
+  ["M31","Andromeda Galaxy","galaxy",0.186314,0.720239,3.4,178,63,13.3,"And","NGC 224"],
+  ["M32","","galaxy",0.186314,0.713258,8.1,8,6,12,"And","NGC 221"],
+  ["M33","Triangulum Galaxy","galaxy",0.409716,0.534943,5.7,73,45,14.2,"Tri","NGC 598"],
+  ["M35","","openCluster",1.609630,0.424697,5.3,28,28,12.3,"Gem","NGC 2168"],
+  ["M36","","openCluster",1.466513,0.595739,6.3,12,12,11.4,"Aur","NGC 1960"],
+  ["M37","","openCluster",1.537635,0.568105,6.2,24,24,12.8,"Aur","NGC 2099"],
+  ["M38","","openCluster",1.434224,0.625410,7.4,21,21,13.7,"Aur","NGC 1912"],
+  ["M41","","openCluster",1.771509,-0.361865,4.5,38,38,12.1,"CMa","NGC 2287"],
+  ["M42","Orion Nebula","nebula",1.463459,-0.095120,4,85,60,13,"Ori","NGC 1976"],
+  ["M44","Beehive Cluster","openCluster",2.269364,0.348775,3.7,95,95,13.3,"Cnc","NGC 2632"],
+  ["M45","Pleiades","openCluster",0.990474,0.420915,1.6,110,110,11.5,"Tau",""],
+  ["M46","","openCluster",2.014983,-0.258600,6.1,27,27,13,"Pup","NGC 2437"],
+  ["M47","","openCluster",1.992293,-0.253073,4.2,30,30,11.3,"Pup","NGC 2422"],
+  ["M51","Whirlpool Galaxy","galaxy",3.533855,0.823795,8.4,11,7,12.9,"CVn","NGC 5194"],
+  ["M57","Ring Nebula","planetaryNebula",4.946263,0.576540,8.8,1.4,1,8.9,"Lyr","NGC 6720"],
+  ["M63","Sunflower Galaxy","galaxy",3.472333,0.733620,8.6,12,7.5,13.2,"CVn","NGC 5055"],
+  ["M64","Black Eye Galaxy","galaxy",3.388993,0.378446,8.5,10,5,12.5,"Com","NGC 4826"],
+  ["M67","","openCluster",2.318234,0.206240,6.1,30,30,13.2,"Cnc","NGC 2682"],
+  ["M81","Bode's Galaxy","galaxy",2.598795,1.205441,6.9,27,14,13.1,"UMa","NGC 3031"],
+  ["M82","Cigar Galaxy","galaxy",2.599668,1.216204,8.4,11,4.6,12.4,"UMa","NGC 3034"],
+  ["M87","Virgo A","galaxy",3.275983,0.216130,8.6,8.3,6.6,12.7,"Vir","NGC 4486"],
+  ["M92","","globularCluster",4.525202,0.752819,6.4,14,14,11.9,"Her","NGC 6341"],
+  ["M97","Owl Nebula","planetaryNebula",2.944370,0.960222,9.9,3.4,3.3,12.3,"UMa","NGC 3587"],
+  ["M101","Pinwheel Galaxy","galaxy",3.679154,0.948586,7.9,29,27,14.9,"UMa","NGC 5457"],
+  ["M104","Sombrero Galaxy","galaxy",3.316126,-0.202749,8,9,4,11.6,"Vir","NGC 4594"],
+  ["C14","Double Cluster","openCluster",0.613047,0.997165,3.7,60,30,11.6,"Per","NGC 869"],
+  ["C20","North America Nebula","nebula",5.492551,0.773763,4,120,100,13.9,"Cyg","NGC 7000"],
+  ["C39","Eskimo Nebula","planetaryNebula",1.960005,0.365065,9.1,0.8,0.8,8.4,"Gem","NGC 2392"],
+  ["C41","Hyades","openCluster",1.165007,0.279253,0.5,330,330,12.8,"Tau",""],
+  ["C55","Saturn Nebula","planetaryNebula",5.516113,-0.198386,8,0.7,0.4,6.4,"Aqr","NGC 7009"],
+  ["C63","Helix Nebula","planetaryNebula",5.888741,-0.363610,7.3,25,25,14,"Aqr","NGC 7293"],
+  ["C65","Sculptor Galaxy","galaxy",0.207694,-0.441277,7.1,27,7,12.5,"Scl","NGC 253"],
+  ["C77","Centaurus A","galaxy",3.514657,-0.750782,6.8,26,20,13.3,"Cen","NGC 5128"],
+  ["C80","Omega Centauri","globularCluster",3.520329,-0.828741,3.7,36,36,11.2,"Cen","NGC 5139"],
+  ["C92","Carina Nebula","nebula",2.814780,-1.044870,1,120,120,11.1,"Car","NGC 3372"],
+  ["C94","Jewel Box","openCluster",3.375467,-1.053015,4.2,10,10,8.9,"Cru","NGC 4755"],
+  ["C102","Southern Pleiades","openCluster",2.806489,-1.123992,1.9,50,50,10.1,"Car","IC 2602"],
+  ["C103","Tarantula Nebula","nebula",1.477858,-1.206023,8,40,25,15.2,"Dor","NGC 2070"],
+  ["C106","47 Tucanae","globularCluster",0.105156,-1.258092,4.1,31,31,11.3,"Tuc","NGC 104"],
+  ["LMC","Large Magellanic Cloud","galaxy",1.411971,-1.217367,0.9,645,550,14.5,"Dor",""],
+  ["SMC","Small Magellanic Cloud","galaxy",0.229947,-1.271181,2.7,320,185,14.4,"Tuc","NGC 292"],
+];
+
+export const DEEP_SKY_OBJECTS: DeepSkyRecord[] = RAW.map(d => ({
+  id: d[0], name: d[1], type: d[2], ra: d[3], dec: d[4], mag: d[5],
+  majorArcmin: d[6], minorArcmin: d[7], surfaceBrightness: d[8], con: d[9], ngc: d[10],
+}));
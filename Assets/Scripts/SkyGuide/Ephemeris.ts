@@ -0,0 +1,456 @@
+// Ephemeris.ts — Sun, Moon and naked-eye planet positions (no Lens Studio dependencies)
+// Planets: JPL Keplerian elements (Standish, valid 1800–2050, ~1' for inner planets)
+// Moon: truncated ELP-2000/82 series from Meeus ch. 47 (~1' accuracy)
+
+import { BodyEphemeris } from './Types';
+import { eclipticToEquatorial } from './AstroMath';
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+const TWO_PI = 2 * Math.PI;
+
+const AU_KM = 149597870.7;
+const EARTH_RADIUS_KM = 6378.14;
+const LIGHT_TIME_DAYS_PER_AU = 0.0057755183;
+
+/** Mean obliquity of the ecliptic at J2000.0 */
+export const OBLIQUITY_J2000 = 23.4392911 * DEG_TO_RAD;
+
+/**
+ * Keplerian elements at J2000 and their rates per Julian century.
+ * Angles in degrees, semi-major axis in AU.
+ */
+interface OrbitalElements {
+  a: number; aRate: number;       // semi-major axis
+  e: number; eRate: number;       // eccentricity
+  i: number; iRate: number;       // inclination
+  L: number; LRate: number;       // mean longitude
+  peri: number; periRate: number; // longitude of perihelion
+  node: number; nodeRate: number; // longitude of ascending node
+}
+
+interface PlanetDefinition {
+  id: string;
+  name: string;
+  elements: OrbitalElements;
+  /** Visual magnitude from heliocentric distance r, geocentric distance delta (AU) and phase angle (deg) */
+  magnitude: (r: number, delta: number, phaseDeg: number) => number;
+}
+
+// Earth-Moon barycenter (used as Earth)
+const EARTH: OrbitalElements = {
+  a: 1.00000261, aRate: 0.00000562,
+  e: 0.01671123, eRate: -0.00004392,
+  i: -0.00001531, iRate: -0.01294668,
+  L: 100.46457166, LRate: 35999.37244981,
+  peri: 102.93768193, periRate: 0.32327364,
+  node: 0.0, nodeRate: 0.0,
+};
+
+// Magnitude formulas from Meeus ch. 41 (Saturn ignores ring tilt)
+const PLANETS: PlanetDefinition[] = [
+  {
+    id: 'mercury',
+    name: 'Mercury',
+    elements: {
+      a: 0.38709927, aRate: 0.00000037,
+      e: 0.20563593, eRate: 0.00001906,
+      i: 7.00497902, iRate: -0.00594749,
+      L: 252.25032350, LRate: 149472.67411175,
+      peri: 77.45779628, periRate: 0.16047689,
+      node: 48.33076593, nodeRate: -0.12534081,
+    },
+    magnitude: (r, d, i) =>
+      -0.42 + 5 * Math.log10(r * d) + 0.038 * i - 0.000273 * i * i + 0.000002 * i * i * i,
+  },
+  {
+    id: 'venus',
+    name: 'Venus',
+    elements: {
+      a: 0.72333566, aRate: 0.00000390,
+      e: 0.00677672, eRate: -0.00004107,
+      i: 3.39467605, iRate: -0.00078890,
+      L: 181.97909950, LRate: 58517.81538729,
+      peri: 131.60246718, periRate: 0.00268329,
+      node: 76.67984255, nodeRate: -0.27769418,
+    },
+    magnitude: (r, d, i) =>
+      -4.40 + 5 * Math.log10(r * d) + 0.0009 * i + 0.000239 * i * i - 0.00000065 * i * i * i,
+  },
+  {
+    id: 'mars',
+    name: 'Mars',
+    elements: {
+      a: 1.52371034, aRate: 0.00001847,
+      e: 0.09339410, eRate: 0.00007882,
+      i: 1.84969142, iRate: -0.00813131,
+      L: -4.55343205, LRate: 19140.30268499,
+      peri: -23.94362959, periRate: 0.44441088,
+      node: 49.55953891, nodeRate: -0.29257343,
+    },
+    magnitude: (r, d, i) => -1.52 + 5 * Math.log10(r * d) + 0.016 * i,
+  },
+  {
+    id: 'jupiter',
+    name: 'Jupiter',
+    elements: {
+      a: 5.20288700, aRate: -0.00011607,
+      e: 0.04838624, eRate: -0.00013253,
+      i: 1.30439695, iRate: -0.00183714,
+      L: 34.39644051, LRate: 3034.74612775,
+      peri: 14.72847983, periRate: 0.21252668,
+      node: 100.47390909, nodeRate: 0.20469106,
+    },
+    magnitude: (r, d, i) => -9.40 + 5 * Math.log10(r * d) + 0.005 * i,
+  },
+  {
+    id: 'saturn',
+    name: 'Saturn',
+    elements: {
+      a: 9.53667594, aRate: -0.00125060,
+      e: 0.05386179, eRate: -0.00050991,
+      i: 2.48599187, iRate: 0.00193609,
+      L: 49.95424423, LRate: 1222.49362201,
+      peri: 92.59887831, periRate: -0.41897216,
+      node: 113.66242448, nodeRate: -0.28867794,
+    },
+    magnitude: (r, d, _i) => -8.88 + 5 * Math.log10(r * d),
+  },
+];
+
+/** All bodies in render/selection order */
+export const BODY_IDS: string[] = [
+  'sun', 'moon', 'mercury', 'venus', 'mars', 'jupiter', 'saturn',
+];
+
+// Lunar periodic terms: [D, M, M', F, Σl (1e-6 deg), Σr (1e-3 km)]
+const MOON_LR_TERMS: number[][] = [
+  [0, 0, 1, 0, 6288774, -20905355],
+  [2, 0, -1, 0, 1274027, -3699111],
+  [2, 0, 0, 0, 658314, -2955968],
+  [0, 0, 2, 0, 213618, -569925],
+  [0, 1, 0, 0, -185116, 48888],
+  [0, 0, 0, 2, -114332, -3149],
+  [2, 0, -2, 0, 58793, 246158],
+  [2, -1, -1, 0, 57066, -152138],
+  [2, 0, 1, 0, 53322, -170733],
+  [2, -1, 0, 0, 45758, -204586],
+  [0, 1, -1, 0, -40923, -129620],
+  [1, 0, 0, 0, -34720, 108743],
+  [0, 1, 1, 0, -30383, 104755],
+  [2, 0, 0, -2, 15327, 10321],
+  [0, 0, 1, 2, -12528, 0],
+  [0, 0, 1, -2, 10980, 79661],
+  [4, 0, -1, 0, 10675, -34782],
+  [0, 0, 3, 0, 10034, -23210],
+  [4, 0, -2, 0, 8548, -21636],
+  [2, 1, -1, 0, -7888, 24208],
+  [2, 1, 0, 0, -6766, 30824],
+  [1, 0, -1, 0, -5163, -8379],
+  [1, 1, 0, 0, 4987, -16675],
+  [2, -1, 1, 0, 4036, -12831],
+  [2, 0, 2, 0, 3994, -10445],
+  [4, 0, 0, 0, 3861, -11650],
+  [2, 0, -3, 0, 3665, 14403],
+  [0, 1, -2, 0, -2689, -7003],
+  [2, 0, -1, 2, -2602, 0],
+  [2, -1, -2, 0, 2390, 10056],
+  [1, 0, 1, 0, -2348, 6322],
+  [2, -2, 0, 0, 2236, -9884],
+  [0, 1, 2, 0, -2120, 5751],
+  [0, 2, 0, 0, -2069, 0],
+];
+
+// Lunar latitude terms: [D, M, M', F, Σb (1e-6 deg)]
+const MOON_B_TERMS: number[][] = [
+  [0, 0, 0, 1, 5128122],
+  [0, 0, 1, 1, 280602],
+  [0, 0, 1, -1, 277693],
+  [2, 0, 0, -1, 173237],
+  [2, 0, -1, 1, 55413],
+  [2, 0, -1, -1, 46271],
+  [2, 0, 0, 1, 32573],
+  [0, 0, 2, 1, 17198],
+  [2, 0, 1, -1, 9266],
+  [0, 0, 2, -1, 8822],
+  [2, -1, 0, -1, 8216],
+  [2, 0, -2, -1, 4324],
+  [2, 0, 1, 1, 4200],
+  [2, 1, 0, -1, -3359],
+  [2, -1, -1, 1, 2463],
+  [2, -1, 0, 1, 2211],
+  [2, -1, -1, -1, 2065],
+  [0, 1, -1, -1, -1870],
+  [4, 0, -1, -1, 1828],
+  [0, 1, 0, 1, -1794],
+  [0, 0, 0, 3, -1749],
+  [0, 1, -1, 1, -1565],
+  [1, 0, 0, 1, -1491],
+  [0, 1, 1, 1, -1475],
+  [0, 1, 1, -1, -1410],
+  [0, 1, 0, -1, -1344],
+  [1, 0, 0, -1, -1335],
+  [0, 0, 3, 1, 1107],
+  [4, 0, 0, -1, 1021],
+  [4, 0, -1, 1, 833],
+];
+
+function centuriesSinceJ2000(jd: number): number {
+  return (jd - 2451545.0) / 36525;
+}
+
+function normalizeAngle(rad: number): number {
+  return ((rad % TWO_PI) + TWO_PI) % TWO_PI;
+}
+
+/**
+ * Solve Kepler's equation E - e·sin(E) = M by Newton iteration.
+ * @returns eccentric anomaly in radians
+ */
+function solveKepler(meanAnomaly: number, e: number): number {
+  let E = meanAnomaly + e * Math.sin(meanAnomaly);
+  for (let iter = 0; iter < 10; iter++) {
+    const dE = (E - e * Math.sin(E) - meanAnomaly) / (1 - e * Math.cos(E));
+    E -= dE;
+    if (Math.abs(dE) < 1e-10) break;
+  }
+  return E;
+}
+
+/**
+ * Heliocentric position in the J2000 ecliptic frame.
+ * @returns [x, y, z] in AU
+ */
+function heliocentricPosition(
+  el: OrbitalElements,
+  jd: number
+): [number, number, number] {
+  const T = centuriesSinceJ2000(jd);
+  const a = el.a + el.aRate * T;
+  const e = el.e + el.eRate * T;
+  const I = (el.i + el.iRate * T) * DEG_TO_RAD;
+  const L = (el.L + el.LRate * T) * DEG_TO_RAD;
+  const peri = (el.peri + el.periRate * T) * DEG_TO_RAD;
+  const node = (el.node + el.nodeRate * T) * DEG_TO_RAD;
+
+  const omega = peri - node; // argument of perihelion
+  let M = normalizeAngle(L - peri);
+  if (M > Math.PI) M -= TWO_PI;
+
+  const E = solveKepler(M, e);
+  const xp = a * (Math.cos(E) - e);
+  const yp = a * Math.sqrt(1 - e * e) * Math.sin(E);
+
+  const cosW = Math.cos(omega), sinW = Math.sin(omega);
+  const cosN = Math.cos(node), sinN = Math.sin(node);
+  const cosI = Math.cos(I), sinI = Math.sin(I);
+
+  const x = (cosW * cosN - sinW * sinN * cosI) * xp +
+    (-sinW * cosN - cosW * sinN * cosI) * yp;
+  const y = (cosW * sinN + sinW * cosN * cosI) * xp +
+    (-sinW * sinN + cosW * cosN * cosI) * yp;
+  const z = sinW * sinI * xp + cosW * sinI * yp;
+  return [x, y, z];
+}
+
+/**
+ * Signed elongation from the Sun: positive when the body is east of the Sun
+ * (evening sky / waxing), negative when west.
+ */
+function signedElongation(
+  lon: number, lat: number, sunLon: number
+): number {
+  const dLon = lon - sunLon;
+  const sep = Math.acos(Math.max(-1, Math.min(1, Math.cos(lat) * Math.cos(dLon))));
+  return Math.sin(dLon) >= 0 ? sep : -sep;
+}
+
+/**
+ * Geocentric Sun position (J2000 equator).
+ */
+export function computeSun(jd: number): BodyEphemeris {
+  const [ex, ey, ez] = heliocentricPosition(EARTH, jd);
+  const x = -ex, y = -ey, z = -ez;
+  const dist = Math.sqrt(x * x + y * y + z * z);
+  const lon = Math.atan2(y, x);
+  const lat = Math.asin(z / dist);
+  const [ra, dec] = eclipticToEquatorial(lon, lat, OBLIQUITY_J2000);
+
+  return {
+    id: 'sun',
+    name: 'Sun',
+    ra,
+    dec,
+    distanceAU: dist,
+    mag: -26.74 + 5 * Math.log10(dist),
+    phaseAngle: 0,
+    illuminated: 1,
+    elongation: 0,
+  };
+}
+
+/**
+ * Geocentric position of a planet (J2000 equator), corrected for light-time.
+ * @param id — one of 'mercury', 'venus', 'mars', 'jupiter', 'saturn'
+ */
+export function computePlanet(id: string, jd: number): BodyEphemeris | null {
+  const planet = PLANETS.find((p) => p.id === id);
+  if (!planet) return null;
+
+  const [ex, ey, ez] = heliocentricPosition(EARTH, jd);
+
+  // One light-time iteration is enough at naked-eye precision
+  let [px, py, pz] = heliocentricPosition(planet.elements, jd);
+  let dx = px - ex, dy = py - ey, dz = pz - ez;
+  const delta0 = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  [px, py, pz] = heliocentricPosition(
+    planet.elements, jd - delta0 * LIGHT_TIME_DAYS_PER_AU
+  );
+  dx = px - ex; dy = py - ey; dz = pz - ez;
+
+  const delta = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  const r = Math.sqrt(px * px + py * py + pz * pz);
+  const R = Math.sqrt(ex * ex + ey * ey + ez * ez);
+
+  const lon = Math.atan2(dy, dx);
+  const lat = Math.asin(dz / delta);
+  const [ra, dec] = eclipticToEquatorial(lon, lat, OBLIQUITY_J2000);
+
+  // Phase angle (Sun–planet–Earth)
+  const cosI = (r * r + delta * delta - R * R) / (2 * r * delta);
+  const phaseAngle = Math.acos(Math.max(-1, Math.min(1, cosI)));
+  const sunLon = Math.atan2(-ey, -ex);
+
+  return {
+    id: planet.id,
+    name: planet.name,
+    ra,
+    dec,
+    distanceAU: delta,
+    mag: planet.magnitude(r, delta, phaseAngle * RAD_TO_DEG),
+    phaseAngle,
+    illuminated: (1 + Math.cos(phaseAngle)) / 2,
+    elongation: signedElongation(lon, lat, sunLon),
+  };
+}
+
+/**
+ * Geocentric Moon position (J2000 equator).
+ * Truncated Meeus ch. 47 series, of-date longitude rotated back to J2000.
+ */
+export function computeMoon(jd: number): BodyEphemeris {
+  const T = centuriesSinceJ2000(jd);
+  const T2 = T * T;
+
+  const Lp = (218.3164477 + 481267.88123421 * T - 0.0015786 * T2) * DEG_TO_RAD;
+  const D = (297.8501921 + 445267.1114034 * T - 0.0018819 * T2) * DEG_TO_RAD;
+  const M = (357.5291092 + 35999.0502909 * T - 0.0001536 * T2) * DEG_TO_RAD;
+  const Mp = (134.9633964 + 477198.8675055 * T + 0.0087414 * T2) * DEG_TO_RAD;
+  const F = (93.2720950 + 483202.0175233 * T - 0.0036539 * T2) * DEG_TO_RAD;
+  const A1 = (119.75 + 131.849 * T) * DEG_TO_RAD;
+  const A2 = (53.09 + 479264.290 * T) * DEG_TO_RAD;
+  const A3 = (313.45 + 481266.484 * T) * DEG_TO_RAD;
+  const E = 1 - 0.002516 * T - 0.0000074 * T2;
+
+  let sumL = 0, sumR = 0, sumB = 0;
+  for (const [d, m, mp, f, cl, cr] of MOON_LR_TERMS) {
+    const arg = d * D + m * M + mp * Mp + f * F;
+    const eFactor = m === 0 ? 1 : (Math.abs(m) === 1 ? E : E * E);
+    sumL += cl * eFactor * Math.sin(arg);
+    sumR += cr * eFactor * Math.cos(arg);
+  }
+  for (const [d, m, mp, f, cb] of MOON_B_TERMS) {
+    const arg = d * D + m * M + mp * Mp + f * F;
+    const eFactor = m === 0 ? 1 : (Math.abs(m) === 1 ? E : E * E);
+    sumB += cb * eFactor * Math.sin(arg);
+  }
+
+  // Additive terms (Venus, Jupiter and flattening of the Earth)
+  sumL += 3958 * Math.sin(A1) + 1962 * Math.sin(Lp - F) + 318 * Math.sin(A2);
+  sumB += -2235 * Math.sin(Lp) + 382 * Math.sin(A3) +
+    175 * Math.sin(A1 - F) + 175 * Math.sin(A1 + F) +
+    127 * Math.sin(Lp - Mp) - 115 * Math.sin(Lp + Mp);
+
+  // Mean equinox of date → J2000 (general precession in longitude)
+  const lonOfDate = Lp + (sumL / 1e6) * DEG_TO_RAD;
+  const lon = lonOfDate - 1.3969713 * T * DEG_TO_RAD;
+  const lat = (sumB / 1e6) * DEG_TO_RAD;
+  const distKm = 385000.56 + sumR / 1000;
+
+  const [ra, dec] = eclipticToEquatorial(lon, lat, OBLIQUITY_J2000);
+
+  // Phase from the Sun's geocentric position (Meeus ch. 48)
+  const [ex, ey, ez] = heliocentricPosition(EARTH, jd);
+  const sunDistKm = Math.sqrt(ex * ex + ey * ey + ez * ez) * AU_KM;
+  const sunLon = Math.atan2(-ey, -ex);
+  const elongation = signedElongation(lon, lat, sunLon);
+  const psi = Math.abs(elongation);
+  const phaseAngle = Math.atan2(
+    sunDistKm * Math.sin(psi),
+    distKm - sunDistKm * Math.cos(psi)
+  );
+  const phaseDeg = phaseAngle * RAD_TO_DEG;
+
+  return {
+    id: 'moon',
+    name: 'Moon',
+    ra,
+    dec,
+    distanceAU: distKm / AU_KM,
+    mag: -12.73 + 0.026 * phaseDeg + 4e-9 * phaseDeg ** 4,
+    phaseAngle,
+    illuminated: (1 + Math.cos(phaseAngle)) / 2,
+    elongation,
+  };
+}
+
+/**
+ * Compute every body in BODY_IDS order.
+ */
+export function computeAllBodies(jd: number): BodyEphemeris[] {
+  const result: BodyEphemeris[] = [];
+  for (const id of BODY_IDS) {
+    if (id === 'sun') {
+      result.push(computeSun(jd));
+    } else if (id === 'moon') {
+      result.push(computeMoon(jd));
+    } else {
+      const p = computePlanet(id, jd);
+      if (p) result.push(p);
+    }
+  }
+  return result;
+}
+
+/**
+ * Diurnal parallax in altitude for a body at the given distance.
+ * Significant only for the Moon (up to ~1°).
+ * @param altRad — geocentric altitude in radians
+ * @returns amount to subtract from the geocentric altitude, in radians
+ */
+export function parallaxInAltitude(altRad: number, distanceAU: number): number {
+  const sinHP = EARTH_RADIUS_KM / (distanceAU * AU_KM);
+  return Math.asin(sinHP * Math.cos(altRad));
+}
+
+/**
+ * Earth's heliocentric velocity in the J2000 equatorial frame (for aberration).
+ * @returns [vx, vy, vz] in AU/day
+ */
+export function earthVelocity(jd: number): [number, number, number] {
+  const [x1, y1, z1] = heliocentricPosition(EARTH, jd - 0.5);
+  const [x2, y2, z2] = heliocentricPosition(EARTH, jd + 0.5);
+  const vx = x2 - x1, vy = y2 - y1, vz = z2 - z1;
+
+  // Ecliptic → equatorial rotation about the X axis
+  const cosEps = Math.cos(OBLIQUITY_J2000);
+  const sinEps = Math.sin(OBLIQUITY_J2000);
+  return [vx, vy * cosEps - vz * sinEps, vy * sinEps + vz * cosEps];
+}
+
+/**
+ * Convert a distance in AU to kilometres.
+ */
+export function auToKm(distanceAU: number): number {
+  return distanceAU * AU_KM;
+}
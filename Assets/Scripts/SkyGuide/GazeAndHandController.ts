@@ -1,61 +1,210 @@
 // GazeAndHandController.ts — Gaze detection + hand pointing + pinch selection
-// Uses angular distance comparison against constellation centroids (no physics raycasts)
+// Uses angular distance comparison against Solar System bodies, individual
+// stars, deep-sky objects and constellation line segments, then the IAU
+// boundaries or centroids (no physics raycasts). Stars, centroids and the figures
+// whose lines are tested come from the engine's spatial index, so only the
+// handful near the gaze are tested each frame.
 
-import { CONSTELLATIONS } from './ConstellationData';
+import { BOUNDARIES } from './BoundaryData';
+import { DEEP_SKY_OBJECTS } from './DeepSkyData';
+import { STARS, STAR_ARRAYS, HIP_TO_INDEX } from './StarData';
+import { CalibrationEvent, MenuView, Selection } from './Types';
 import * as Astro from './AstroMath';
+import * as Calibration from './Calibration';
 import * as Engine from './SkyEngine';
+import * as LocationPicker from './LocationPicker';
 import * as Renderer from './SkyRenderer';
+import * as Settings from './Settings';
+import * as SettingsMenu from './SettingsMenu';
+import * as SkyCultures from './SkyCultures';
 
 // State
 let camera: SceneObject | null = null;
-let onConstellationSelected: ((abbr: string, name: string) => void) | null = null;
-let onConstellationDeselected: (() => void) | null = null;
+let onTargetSelected: ((selection: Selection) => void) | null = null;
+let onTargetDeselected: (() => void) | null = null;
+let onClockChanged: (() => void) | null = null;
+let onCalibrationChanged: ((event: CalibrationEvent) => void) | null = null;
+let onMenuChanged: ((view: MenuView | null) => void) | null = null;
 
-const GAZE_THRESHOLD_RAD = 8.0 * (Math.PI / 180); // 8 degrees
-let currentGazeConstellation: string = '';
-let gazeHoldTime = 0;
-const GAZE_HOLD_DELAY = 0.5; // seconds before gaze triggers highlight
+// Left palm tap menu; while it (or the location picker / settings) is open,
+// grabs scroll and pinches pick / go back instead of driving the sky
+const MENU_ITEMS = ['Calibrate compass', 'Choose location', 'Settings'];
+const MENU_HINT = 'Grab to scroll · Right pinch picks · Left pinch closes';
+let menuOpen = false;
+let menuSelected = 0;
+
+// Holding a grab keeps scrolling after a short delay
+const SCROLL_REPEAT_DELAY = 0.5; // seconds before repeating
+const SCROLL_REPEAT_INTERVAL = 0.12; // seconds per step while held
+let scrollDirection = 0;
+let scrollHoldTime = 0;
+
+// Outside the menus a short grab steps the clock rate when released; held
+// past SCROLL_REPEAT_DELAY it scrubs the sky time instead, faster the longer
+// it is held (right forward, left back)
+const SCRUB_START_HOURS_PER_SECOND = 1;
+const SCRUB_DOUBLING_SECONDS = 2;
+const SCRUB_MAX_HOURS_PER_SECOND = 7 * 24;
+let scrubDirection = 0;
+let scrubHoldTime = 0;
+
+// Last gaze direction in sky coordinates (for calibration pinches)
+let lastGazeAlt = NaN;
+let lastGazeAz = NaN;
+
+const BODY_GAZE_THRESHOLD_RAD = 3.0 * (Math.PI / 180); // bodies win inside 3 degrees
+const DSO_GAZE_THRESHOLD_RAD = 2.0 * (Math.PI / 180); // or the marker radius if larger
+const LINE_GAZE_THRESHOLD_RAD = 1.5 * (Math.PI / 180); // distance to a figure's line arc
+// Slack on a figure's J2000 cap: refraction near the horizon and proper motion
+// over the scrubbed years move its apparent lines
+const LINE_CAP_MARGIN_RAD = 1.0 * (Math.PI / 180);
+const GAZE_RADIUS_FRACTION = 0.5; // large figures: centroid hit radius as a fraction of their radius
+
+// Star hit radius grows with brightness: ~1.7° for Sirius, 1° at mag 1, 0.4° from mag 3
+const STAR_GAZE_RADIUS_MAG1_RAD = 1.0 * (Math.PI / 180);
+const STAR_GAZE_RADIUS_PER_MAG_RAD = 0.3 * (Math.PI / 180);
+const STAR_GAZE_MIN_RAD = 0.4 * (Math.PI / 180);
+
+// A point target (star or deep-sky object) with its distance relative to its hit radius
+interface PointHit {
+  selection: Selection;
+  score: number;
+}
+
+// Figure lines of the active culture as catalog indices: the segments of
+// figure ci are start[ci] .. start[ci + 1] - 1, their ends at stars[2 * seg] and
+// stars[2 * seg + 1] (-1 when a star is missing from the catalog)
+interface LineSegments {
+  start: Int32Array;
+  stars: Int32Array;
+}
+
+// Reused candidate lists for spatial index queries
+const starCandidates: number[] = [];
+const constellationCandidates: number[] = [];
+
+let lineSegments: LineSegments | null = null;
+let lineSegmentsCulture = '';
+
+let currentGaze: Selection | null = null;
+let gazeHoldTime = 0; // seconds on the same target; highlights after the gazeHoldDelay setting
 
 /**
  * Initialize the interaction controller.
  */
 export function init(
   cameraObj: SceneObject,
-  onSelected: (abbr: string, name: string) => void,
+  onSelected: (selection: Selection) => void,
   onDeselected: () => void,
+  onClockChange: () => void,
+  onCalibrationChange: (event: CalibrationEvent) => void,
+  onMenuChange: (view: MenuView | null) => void,
   scriptComponent: BaseScriptComponent
 ): void {
   camera = cameraObj;
-  onConstellationSelected = onSelected;
-  onConstellationDeselected = onDeselected;
+  onTargetSelected = onSelected;
+  onTargetDeselected = onDeselected;
+  onClockChanged = onClockChange;
+  onCalibrationChanged = onCalibrationChange;
+  onMenuChanged = onMenuChange;
 
   // Set up pinch gestures via GestureModule
   try {
     const gestureModule = require('LensStudio:GestureModule') as GestureModule;
 
-    // Right hand pinch = select / show info
+    // Right hand pinch = select / show info (or mark the calibration star, or pick a menu entry)
     gestureModule
       .getPinchDownEvent(GestureModule.HandType.Right)
       .add(() => {
-        if (currentGazeConstellation !== '') {
-          const c = CONSTELLATIONS.find(
-            (con) => con.abbr === currentGazeConstellation
-          );
-          if (c && onConstellationSelected) {
-            onConstellationSelected(c.abbr, c.name);
+        if (Calibration.isCalibrating()) {
+          if (!isNaN(lastGazeAlt)) {
+            notifyCalibrationChanged(Calibration.capture(lastGazeAlt, lastGazeAz));
           }
+        } else if (LocationPicker.isOpen()) {
+          LocationPicker.choose();
+          notifyMenuChanged();
+        } else if (SettingsMenu.isOpen()) {
+          SettingsMenu.choose();
+          notifyMenuChanged();
+        } else if (menuOpen) {
+          chooseMenuItem();
+        } else if (currentGaze && onTargetSelected) {
+          onTargetSelected(currentGaze);
         }
       });
 
-    // Left hand pinch = dismiss info
+    // Left hand pinch = dismiss info (or end calibration, or go back in a menu)
     gestureModule
       .getPinchDownEvent(GestureModule.HandType.Left)
       .add(() => {
-        if (onConstellationDeselected) {
-          onConstellationDeselected();
+        if (Calibration.isCalibrating()) {
+          notifyCalibrationChanged(Calibration.stop());
+        } else if (LocationPicker.isOpen()) {
+          // Backing out of the country list returns to the menu
+          menuOpen = !LocationPicker.back();
+          notifyMenuChanged();
+        } else if (SettingsMenu.isOpen()) {
+          menuOpen = !SettingsMenu.back();
+          notifyMenuChanged();
+        } else if (menuOpen) {
+          menuOpen = false;
+          notifyMenuChanged();
+        } else if (onTargetDeselected) {
+          onTargetDeselected();
         }
       });
 
+    // Grab = change simulation speed (right faster, left slower / rewind),
+    // hold = scrub the sky time, or scroll an open menu
+    gestureModule
+      .getGrabBeginEvent(GestureModule.HandType.Right)
+      .add(() => {
+        if (isMenuActive()) {
+          startScroll(1);
+        } else {
+          startScrub(1);
+        }
+      });
+    gestureModule
+      .getGrabBeginEvent(GestureModule.HandType.Left)
+      .add(() => {
+        if (isMenuActive()) {
+          startScroll(-1);
+        } else {
+          startScrub(-1);
+        }
+      });
+    gestureModule
+      .getGrabEndEvent(GestureModule.HandType.Right)
+      .add(() => endGrab(1));
+    gestureModule
+      .getGrabEndEvent(GestureModule.HandType.Left)
+      .add(() => endGrab(-1));
+
+    // Right palm tap = back to the live sky
+    gestureModule
+      .getPalmTapDownEvent(GestureModule.HandType.Right)
+      .add(() => {
+        Engine.resetClock();
+        notifyClockChanged();
+      });
+
+    // Left palm tap = open / close the menu (compass calibration, location, settings)
+    gestureModule
+      .getPalmTapDownEvent(GestureModule.HandType.Left)
+      .add(() => {
+        if (Calibration.isCalibrating()) return;
+        if (isMenuActive()) {
+          closeMenus();
+        } else {
+          clearGaze();
+          scrubDirection = 0;
+          menuOpen = true;
+          menuSelected = 0;
+        }
+        notifyMenuChanged();
+      });
+
     print('[SkyGuide] GestureModule initialized');
   } catch (e) {
     print('[SkyGuide] GestureModule not available (preview mode): ' + e);
@@ -64,9 +213,22 @@ export function init(
 
 /**
  * Update gaze detection. Call every frame.
- * Checks camera forward direction against constellation centroids.
+ *
+ * Priority when several targets are near the gaze:
+ *   1. Solar System bodies (within 3°)
+ *   2. Stars and deep-sky objects — whichever is closest relative to its hit radius
+ *   3. Constellation line segments (within 1.5° of the arc)
+ *   4. The IAU boundary containing the gaze (Western figures, when boundary data
+ *      was generated), else constellation centroids within the gaze radius setting
+ *      or half the figure's angular radius, whichever is larger
  */
 export function updateGaze(deltaTime: number): void {
+  // Menus take the hands; the sky isn't targeted while one is open
+  if (isMenuActive()) {
+    updateScroll(deltaTime);
+    return;
+  }
+  updateScrub(deltaTime);
   if (!camera || !Engine.isInitialized()) return;
 
   const cameraTransform = camera.getTransform();
@@ -89,8 +251,8 @@ export function updateGaze(deltaTime: number): void {
   // The camera is a child of the scene (tracked by DeviceTracking),
   // and the SkyRoot is rotated by heading. So the camera's world-space
   // forward needs to be un-rotated by the heading to get the
-  // sky-relative direction.
-  const heading = Engine.getObserver().headingDeg;
+  // sky-relative direction. Uses the same calibrated heading as alignToNorth.
+  const heading = Calibration.getCorrectedHeadingDeg();
   const headingRad = heading * (Math.PI / 180);
 
   // Un-rotate camera direction by heading (inverse Y rotation)
@@ -108,6 +270,15 @@ export function updateGaze(deltaTime: number): void {
   // Azimuth: atan2(East, -North) = atan2(skyX, -skyZ)
   let gazeAz = Math.atan2(skyX, -skyZ);
   if (gazeAz < 0) gazeAz += 2 * Math.PI;
+  lastGazeAlt = gazeAlt;
+  lastGazeAz = gazeAz;
+
+  // While calibrating, only the named star is highlighted
+  if (Calibration.isCalibrating()) {
+    const targetIndex = Calibration.getTargetIndex();
+    Renderer.setHighlightedStar(targetIndex >= 0 ? STARS[targetIndex].hip : 0);
+    return;
+  }
 
   // Only check constellations above horizon
   if (gazeAlt < -5 * (Math.PI / 180)) {
@@ -115,58 +286,473 @@ export function updateGaze(deltaTime: number): void {
     return;
   }
 
+  // Gaze direction in the same frame as the engine's sphere positions
+  const gx = skyX / len;
+  const gy = skyY / len;
+  const gz = skyZ / len;
+
+  const target = findBodyTarget(gazeAlt, gazeAz) ||
+    findPointTarget(gx, gy, gz, gazeAlt, gazeAz) ||
+    findLineTarget(gx, gy, gz, gazeAlt, gazeAz) ||
+    findBoundaryTarget(gazeAlt, gazeAz) ||
+    findConstellationTarget(gazeAlt, gazeAz);
+
+  // Update highlight state
+  if (!target) {
+    clearGaze();
+  } else if (!currentGaze ||
+    target.kind !== currentGaze.kind || target.id !== currentGaze.id) {
+    currentGaze = target;
+    gazeHoldTime = 0;
+  } else {
+    gazeHoldTime += deltaTime;
+    if (gazeHoldTime >= Settings.get('gazeHoldDelay')) {
+      applyHighlight(target);
+    }
+  }
+}
+
+/**
+ * Nearest Solar System body (other than the Sun) above the horizon within BODY_GAZE_THRESHOLD_RAD.
+ */
+function findBodyTarget(gazeAlt: number, gazeAz: number): Selection | null {
+  let closest: Selection | null = null;
+  let closestDist = BODY_GAZE_THRESHOLD_RAD;
+
+  for (const bp of Engine.getBodyPositions()) {
+    if (bp.alt < 0) continue;
+    // Never guide the user toward the Sun
+    if (bp.id === 'sun') continue;
+
+    const dist = Astro.angularDistanceAltAz(gazeAlt, gazeAz, bp.alt, bp.az);
+    if (dist < closestDist) {
+      const body = Engine.getBodyEphemeris(bp.id);
+      if (!body) continue;
+      closestDist = dist;
+      closest = { kind: 'body', id: body.id, name: body.name };
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Best star or deep-sky object under the gaze. A star sitting inside a cluster
+ * marker wins only when the gaze is relatively closer to it than to the cluster.
+ */
+function findPointTarget(
+  gx: number,
+  gy: number,
+  gz: number,
+  gazeAlt: number,
+  gazeAz: number
+): Selection | null {
+  const star = findStarTarget(gx, gy, gz, gazeAlt, gazeAz);
+  const dso = findDeepSkyTarget(gazeAlt, gazeAz);
+  if (star && dso) {
+    return star.score <= dso.score ? star.selection : dso.selection;
+  }
+  return star ? star.selection : dso ? dso.selection : null;
+}
+
+/**
+ * Visible star above the horizon within its magnitude-weighted hit radius,
+ * closest relative to that radius.
+ */
+function findStarTarget(
+  gx: number,
+  gy: number,
+  gz: number,
+  gazeAlt: number,
+  gazeAz: number
+): PointHit | null {
+  const positions = Engine.getStarPositions();
+  if (positions.version === 0) return null;
+  const xyz = positions.xyz;
+  const limitingMag = Engine.getLimitingMagnitude();
+  let closest: PointHit | null = null;
+
+  // Nothing farther than the largest hit radius (a mag -2 star) can win
+  Engine.queryStarsNear(gazeAlt, gazeAz, starGazeRadius(-2), starCandidates);
+  for (const i of starCandidates) {
+    if (xyz[i * 3 + 1] < 0) continue;
+    // Stars washed out by twilight, light pollution or extinction can't be selected
+    const star = STARS[i];
+    const apparentMag = star.mag + positions.extinction[i];
+    if (apparentMag > limitingMag) continue;
+
+    const dist = Astro.angularDistanceVectors(
+      gx, gy, gz, xyz[i * 3], xyz[i * 3 + 1], xyz[i * 3 + 2]
+    );
+    const score = dist / starGazeRadius(apparentMag);
+    if (score < 1 && (!closest || score < closest.score)) {
+      closest = {
+        selection: { kind: 'star', id: String(star.hip), name: star.name || 'HIP ' + star.hip },
+        score,
+      };
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Hit radius for a star of the given apparent magnitude.
+ */
+function starGazeRadius(mag: number): number {
+  return Math.max(
+    STAR_GAZE_MIN_RAD,
+    STAR_GAZE_RADIUS_MAG1_RAD + (1 - mag) * STAR_GAZE_RADIUS_PER_MAG_RAD
+  );
+}
+
+/**
+ * Deep-sky object above the horizon whose marker (or DSO_GAZE_THRESHOLD_RAD)
+ * contains the gaze, closest relative to its hit radius.
+ */
+function findDeepSkyTarget(gazeAlt: number, gazeAz: number): PointHit | null {
+  const positions = Engine.getDeepSkyPositions();
+  let closest: PointHit | null = null;
+
+  for (let i = 0; i < positions.length; i++) {
+    const dp = positions[i];
+    if (dp.alt < 0) continue;
+
+    const dso = DEEP_SKY_OBJECTS[i];
+    const hitRadius = Math.max(
+      DSO_GAZE_THRESHOLD_RAD, Renderer.getDeepSkyMarkerRadius(dso)
+    );
+    const score = Astro.angularDistanceAltAz(gazeAlt, gazeAz, dp.alt, dp.az) / hitRadius;
+    if (score < 1 && (!closest || score < closest.score)) {
+      closest = {
+        selection: { kind: 'deepSky', id: dso.id, name: dso.name || dso.id },
+        score,
+      };
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Constellation whose figure has a visible line segment within LINE_GAZE_THRESHOLD_RAD
+ * of the gaze (distance to the great-circle arc between the two stars). Only
+ * figures whose cap (centroid and angular radius) comes near the gaze are tested.
+ */
+function findLineTarget(
+  gx: number,
+  gy: number,
+  gz: number,
+  gazeAlt: number,
+  gazeAz: number
+): Selection | null {
+  const positions = Engine.getStarPositions();
+  if (positions.version === 0) return null;
+  const xyz = positions.xyz;
+  const extinction = positions.extinction;
+  const limitingMag = Engine.getLimitingMagnitude();
+  const constellations = SkyCultures.getConstellations();
+  const segments = getLineSegments();
+
+  let closest: Selection | null = null;
+  let closestDist = LINE_GAZE_THRESHOLD_RAD;
+
+  Engine.queryConstellationsNear(
+    gazeAlt, gazeAz, SkyCultures.getMaxRadius() + LINE_GAZE_THRESHOLD_RAD, constellationCandidates
+  );
+  if (constellationCandidates.length === 0) return null;
+  const [gazeRA, gazeDec] = Engine.horizontalToJ2000(gazeAlt, gazeAz);
+
+  for (const ci of constellationCandidates) {
+    const c = constellations[ci];
+    if (Astro.angularDistance(gazeRA, gazeDec, c.centroidRA, c.centroidDec) >
+      c.radius + LINE_GAZE_THRESHOLD_RAD + LINE_CAP_MARGIN_RAD) continue;
+
+    for (let seg = segments.start[ci]; seg < segments.start[ci + 1]; seg++) {
+      const idx1 = segments.stars[seg * 2];
+      const idx2 = segments.stars[seg * 2 + 1];
+      if (idx1 < 0 || idx2 < 0) continue;
+
+      // Same visibility rule as the renderer: both ends above the horizon, and
+      // the line fades out with its fainter star
+      const i1 = idx1 * 3, i2 = idx2 * 3;
+      if (xyz[i1 + 1] < 0 || xyz[i2 + 1] < 0) continue;
+      if (STAR_ARRAYS.mag[idx1] + extinction[idx1] > limitingMag ||
+        STAR_ARRAYS.mag[idx2] + extinction[idx2] > limitingMag) continue;
+
+      const dist = Astro.angularDistanceToArc(
+        gx, gy, gz, xyz[i1], xyz[i1 + 1], xyz[i1 + 2], xyz[i2], xyz[i2 + 1], xyz[i2 + 2]
+      );
+      if (dist < closestDist) {
+        closestDist = dist;
+        closest = { kind: 'constellation', id: c.abbr, name: c.name };
+      }
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Catalog indices of the active culture's line ends, built once per culture.
+ */
+function getLineSegments(): LineSegments {
+  const culture = SkyCultures.getCulture().id;
+  if (lineSegments && lineSegmentsCulture === culture) return lineSegments;
+
+  const constellations = SkyCultures.getConstellations();
+  const start = new Int32Array(constellations.length + 1);
+  const ends: number[] = [];
+  for (let ci = 0; ci < constellations.length; ci++) {
+    start[ci] = ends.length / 2;
+    for (const pair of constellations[ci].lines) {
+      const idx1 = HIP_TO_INDEX.get(pair[0]);
+      const idx2 = HIP_TO_INDEX.get(pair[1]);
+      ends.push(idx1 === undefined ? -1 : idx1, idx2 === undefined ? -1 : idx2);
+    }
+  }
+  start[constellations.length] = ends.length / 2;
+  lineSegments = { start, stars: new Int32Array(ends) };
+  lineSegmentsCulture = culture;
+  return lineSegments;
+}
+
+/**
+ * IAU constellation whose boundary contains the gaze. Only for the western
+ * culture (other cultures' figures have no official boundaries) and only
+ * when BoundaryData.ts was generated with boundary data.
+ */
+function findBoundaryTarget(gazeAlt: number, gazeAz: number): Selection | null {
+  if (BOUNDARIES.length === 0 || !SkyCultures.isIauCulture()) return null;
+
+  const [ra, dec] = Engine.horizontalToJ2000(gazeAlt, gazeAz);
+  const abbr = Astro.constellationAt(ra, dec, BOUNDARIES);
+  const c = abbr ? SkyCultures.findIauConstellation(abbr) : undefined;
+  return c ? { kind: 'constellation', id: c.abbr, name: c.name } : null;
+}
+
+/**
+ * Nearest constellation centroid above the horizon, relative to its hit radius:
+ * the gazeThresholdDeg setting, or GAZE_RADIUS_FRACTION of the figure's
+ * angular radius for large figures.
+ * Fallback for gazes that miss every line segment (e.g. inside a large figure)
+ * when there are no boundaries to go by.
+ */
+function findConstellationTarget(
+  gazeAlt: number,
+  gazeAz: number
+): Selection | null {
   const obs = Engine.getObserver();
-  let closestAbbr = '';
-  let closestDist = GAZE_THRESHOLD_RAD;
+  const threshold = Settings.get('gazeThresholdDeg') * (Math.PI / 180);
+  let closest: Selection | null = null;
+  let closestRatio = 1;
 
-  for (const c of CONSTELLATIONS) {
-    // Convert constellation centroid to horizontal coordinates
-    const [cAlt, cAz] = Astro.equatorialToHorizontal(
-      c.centroidRA, c.centroidDec, obs.lstRadians, obs.latitude
+  const constellations = SkyCultures.getConstellations();
+  Engine.queryConstellationsNear(
+    gazeAlt, gazeAz,
+    Math.max(threshold, GAZE_RADIUS_FRACTION * SkyCultures.getMaxRadius()),
+    constellationCandidates
+  );
+  for (const ci of constellationCandidates) {
+    const c = constellations[ci];
+    // Convert constellation centroid (J2000) to horizontal coordinates of date
+    const [cRA, cDec] = Engine.precessToDate(c.centroidRA, c.centroidDec);
+    const [trueAlt, cAz] = Astro.equatorialToHorizontal(
+      cRA, cDec, obs.lstRadians, obs.latitude
     );
+    const cAlt = Engine.refractAltitude(trueAlt);
 
     // Skip constellations below horizon
     if (cAlt < 0) continue;
 
-    // Angular distance between gaze and centroid
+    // Angular distance between gaze and centroid, as a fraction of the hit radius
     const dist = Astro.angularDistanceAltAz(gazeAlt, gazeAz, cAlt, cAz);
+    const ratio = dist / Math.max(threshold, GAZE_RADIUS_FRACTION * c.radius);
 
-    if (dist < closestDist) {
-      closestDist = dist;
-      closestAbbr = c.abbr;
+    if (ratio < closestRatio) {
+      closestRatio = ratio;
+      closest = { kind: 'constellation', id: c.abbr, name: c.name };
     }
   }
 
-  // Update highlight state
-  if (closestAbbr !== currentGazeConstellation) {
-    if (closestAbbr === '') {
-      clearGaze();
-    } else {
-      currentGazeConstellation = closestAbbr;
-      gazeHoldTime = 0;
-    }
-  } else if (closestAbbr !== '') {
-    gazeHoldTime += deltaTime;
-    if (gazeHoldTime >= GAZE_HOLD_DELAY) {
-      Renderer.setHighlightedConstellation(closestAbbr);
+  return closest;
+}
+
+function startScrub(direction: number): void {
+  scrubDirection = direction;
+  scrubHoldTime = 0;
+}
+
+/**
+ * Grab released: a short grab outside the menus steps the clock rate; a
+ * longer one has been scrubbing and just stops.
+ */
+function endGrab(direction: number): void {
+  scrollDirection = 0;
+  if (scrubDirection !== direction) return;
+  if (scrubHoldTime < SCROLL_REPEAT_DELAY) {
+    Engine.stepTimeRate(direction);
+    notifyClockChanged();
+  }
+  scrubDirection = 0;
+}
+
+/**
+ * Move the sky time while a grab is held past SCROLL_REPEAT_DELAY, starting
+ * at SCRUB_START_HOURS_PER_SECOND and doubling every SCRUB_DOUBLING_SECONDS.
+ */
+function updateScrub(deltaTime: number): void {
+  if (scrubDirection === 0) return;
+  const wasScrubbing = scrubHoldTime >= SCROLL_REPEAT_DELAY;
+  scrubHoldTime += deltaTime;
+  if (scrubHoldTime < SCROLL_REPEAT_DELAY) return;
+
+  if (!wasScrubbing) {
+    // The clock panel stays live while visible, so once is enough
+    print('[SkyGuide] Scrubbing time ' + (scrubDirection > 0 ? 'forward' : 'back'));
+    if (onClockChanged) {
+      onClockChanged();
     }
   }
+  const held = scrubHoldTime - SCROLL_REPEAT_DELAY;
+  const hoursPerSecond = Math.min(SCRUB_MAX_HOURS_PER_SECOND,
+    SCRUB_START_HOURS_PER_SECOND * Math.pow(2, held / SCRUB_DOUBLING_SECONDS));
+  Engine.scrubTime(scrubDirection * hoursPerSecond * 3600000 * deltaTime);
+}
+
+function notifyClockChanged(): void {
+  print('[SkyGuide] Time rate: ' + Engine.getTimeRate() + 'x');
+  if (onClockChanged) {
+    onClockChanged();
+  }
+}
+
+function notifyCalibrationChanged(event: CalibrationEvent): void {
+  if (!Calibration.isCalibrating()) {
+    Renderer.setHighlightedStar(0);
+  }
+  if (onCalibrationChanged) {
+    onCalibrationChanged(event);
+  }
+}
+
+function isMenuActive(): boolean {
+  return menuOpen || LocationPicker.isOpen() || SettingsMenu.isOpen();
+}
+
+function chooseMenuItem(): void {
+  menuOpen = false;
+  if (menuSelected === 0) {
+    notifyMenuChanged();
+    notifyCalibrationChanged(Calibration.start() ? 'started' : 'unavailable');
+  } else if (menuSelected === 1) {
+    LocationPicker.open();
+    notifyMenuChanged();
+  } else {
+    SettingsMenu.open();
+    notifyMenuChanged();
+  }
+}
+
+function closeMenus(): void {
+  menuOpen = false;
+  LocationPicker.close();
+  SettingsMenu.close();
+  scrollDirection = 0;
+}
+
+function startScroll(direction: number): void {
+  scrollDirection = direction;
+  scrollHoldTime = 0;
+  scrollMenu(direction);
+}
+
+/**
+ * Repeat the held grab's scroll step once the hold outlasts SCROLL_REPEAT_DELAY.
+ */
+function updateScroll(deltaTime: number): void {
+  if (scrollDirection === 0) return;
+  const before = scrollHoldTime;
+  scrollHoldTime += deltaTime;
+  if (scrollHoldTime < SCROLL_REPEAT_DELAY) return;
+
+  const stepsBefore = Math.max(0, Math.floor((before - SCROLL_REPEAT_DELAY) / SCROLL_REPEAT_INTERVAL) + 1);
+  const stepsNow = Math.floor((scrollHoldTime - SCROLL_REPEAT_DELAY) / SCROLL_REPEAT_INTERVAL) + 1;
+  for (let i = stepsBefore; i < stepsNow; i++) {
+    scrollMenu(scrollDirection);
+  }
+}
+
+function scrollMenu(step: number): void {
+  if (LocationPicker.isOpen()) {
+    LocationPicker.move(step);
+  } else if (SettingsMenu.isOpen()) {
+    SettingsMenu.move(step);
+  } else if (menuOpen) {
+    menuSelected = (menuSelected + step + MENU_ITEMS.length) % MENU_ITEMS.length;
+  }
+  notifyMenuChanged();
+}
+
+function notifyMenuChanged(): void {
+  if (!onMenuChanged) return;
+  if (LocationPicker.isOpen()) {
+    onMenuChanged(LocationPicker.getView());
+  } else if (SettingsMenu.isOpen()) {
+    onMenuChanged(SettingsMenu.getView());
+  } else if (menuOpen) {
+    onMenuChanged({
+      title: 'Menu',
+      items: MENU_ITEMS,
+      selected: menuSelected,
+      hint: MENU_HINT,
+    });
+  } else {
+    onMenuChanged(null);
+  }
+}
+
+function applyHighlight(target: Selection): void {
+  Renderer.setHighlightedConstellation(target.kind === 'constellation' ? target.id : '');
+  Renderer.setHighlightedBody(target.kind === 'body' ? target.id : '');
+  Renderer.setHighlightedDeepSky(target.kind === 'deepSky' ? target.id : '');
+  Renderer.setHighlightedStar(target.kind === 'star' ? parseInt(target.id, 10) : 0);
 }
 
 function clearGaze(): void {
-  if (currentGazeConstellation !== '') {
-    currentGazeConstellation = '';
+  if (currentGaze) {
+    currentGaze = null;
     gazeHoldTime = 0;
     Renderer.setHighlightedConstellation('');
-    if (onConstellationDeselected) {
-      onConstellationDeselected();
+    Renderer.setHighlightedBody('');
+    Renderer.setHighlightedDeepSky('');
+    Renderer.setHighlightedStar(0);
+    if (onTargetDeselected) {
+      onTargetDeselected();
     }
   }
 }
 
+/**
+ * Last gaze direction in sky coordinates as [altRad, azRad], or null before
+ * the first gaze update.
+ */
+export function getGazeDirection(): [number, number] | null {
+  return isNaN(lastGazeAlt) ? null : [lastGazeAlt, lastGazeAz];
+}
+
 /**
  * Get the currently gazed-at constellation abbreviation.
  */
 export function getCurrentGazeConstellation(): string {
-  return currentGazeConstellation;
+  return currentGaze && currentGaze.kind === 'constellation'
+    ? currentGaze.id
+    : '';
+}
+
+/**
+ * Get the current gaze target (constellation, star, body or deep-sky object), or null.
+ */
+export function getCurrentGazeTarget(): Selection | null {
+  return currentGaze;
 }
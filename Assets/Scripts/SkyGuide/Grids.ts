@@ -0,0 +1,189 @@
+// Grids.ts — Reference lines: RA/Dec and alt-az grids, celestial equator,
+// ecliptic, galactic equator, meridian and the horizon with compass points
+// Each layer is a set of polylines in its own coordinate frame; SkyRenderer
+// projects them through SkyEngine.projectToSphere() like the stars.
+
+import { GridLabel, GridLayer } from './Types';
+import * as Astro from './AstroMath';
+import { computeSun, OBLIQUITY_J2000 } from './Ephemeris';
+
+const DEG = Math.PI / 180;
+const STEP = 5 * DEG; // polyline point spacing along every line
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const MONTH_TICK = 2 * DEG; // half-length of the ecliptic month markers
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+const NORTH_COLOR: [number, number, number] = [1.0, 0.4, 0.35];
+const ALTITUDE_TICK = 1 * DEG; // half-length of the altitude ticks (2° at 30° and 60°)
+const ZENITH_MARKER = 2 * DEG; // radius of the circle around the zenith
+
+/**
+ * Every grid layer, in settings-menu order.
+ * @param year — calendar year for the ecliptic month markers
+ */
+export function buildGridLayers(year: number): GridLayer[] {
+  return [
+    equatorialGrid(),
+    altAzGrid(),
+    {
+      key: 'showCelestialEquator', frame: 'equatorial',
+      color: [0.9, 0.35, 0.35], alpha: 0.5,
+      lines: [parallel(0)], labels: [],
+    },
+    ecliptic(year),
+    galacticEquator(),
+    {
+      key: 'showMeridian', frame: 'horizontal',
+      color: [0.35, 0.8, 0.75], alpha: 0.45,
+      // North horizon, over the zenith, down to the south horizon
+      lines: [meridianArc(0, 0, 90 * DEG).concat(meridianArc(Math.PI, 90 * DEG - STEP, 0))],
+      labels: [],
+    },
+    horizon(),
+  ];
+}
+
+/**
+ * RA/Dec graticule of date: hour circles every 1h, parallels every 15°
+ * (the equator is its own layer), hours labeled along the equator.
+ */
+function equatorialGrid(): GridLayer {
+  const lines: number[][] = [];
+  const labels: GridLabel[] = [];
+  for (let h = 0; h < 24; h++) {
+    const ra = h * 15 * DEG;
+    lines.push(meridianArc(ra, -90 * DEG, 90 * DEG));
+    labels.push({ text: h + 'h', lon: ra, lat: 1.5 * DEG });
+  }
+  for (let dec = -75; dec <= 75; dec += 15) {
+    if (dec !== 0) lines.push(parallel(dec * DEG));
+  }
+  return {
+    key: 'showEquatorialGrid', frame: 'equatorial',
+    color: [0.35, 0.55, 0.9], alpha: 0.25,
+    lines, labels,
+  };
+}
+
+/**
+ * Azimuth lines every 15° from the horizon to the zenith, altitude circles every 15°
+ * (the horizon itself is not part of the grid).
+ */
+function altAzGrid(): GridLayer {
+  const lines: number[][] = [];
+  for (let az = 0; az < 360; az += 15) {
+    lines.push(meridianArc(az * DEG, 0, 90 * DEG));
+  }
+  for (let alt = 15; alt <= 75; alt += 15) {
+    lines.push(parallel(alt * DEG));
+  }
+  return {
+    key: 'showAltAzGrid', frame: 'horizontal',
+    color: [0.45, 0.8, 0.45], alpha: 0.25,
+    lines, labels: [],
+  };
+}
+
+/**
+ * J2000 ecliptic with a tick and label where the Sun is at 0h UT on the 1st of each month.
+ */
+function ecliptic(year: number): GridLayer {
+  const circle: number[] = [];
+  for (let lon = 0; lon <= 2 * Math.PI + 1e-9; lon += STEP) {
+    const [ra, dec] = Astro.eclipticToEquatorial(lon, 0, OBLIQUITY_J2000);
+    circle.push(ra, dec);
+  }
+
+  const lines: number[][] = [circle];
+  const labels: GridLabel[] = [];
+  for (let m = 0; m < 12; m++) {
+    const sun = computeSun(Astro.julianDate(new Date(Date.UTC(year, m, 1))));
+    const [lon] = Astro.equatorialToEcliptic(sun.ra, sun.dec, OBLIQUITY_J2000);
+    const [ra1, dec1] = Astro.eclipticToEquatorial(lon, -MONTH_TICK, OBLIQUITY_J2000);
+    const [ra2, dec2] = Astro.eclipticToEquatorial(lon, MONTH_TICK, OBLIQUITY_J2000);
+    lines.push([ra1, dec1, ra2, dec2]);
+    const [labelRA, labelDec] = Astro.eclipticToEquatorial(lon, MONTH_TICK * 1.75, OBLIQUITY_J2000);
+    labels.push({ text: MONTHS[m], lon: labelRA, lat: labelDec });
+  }
+
+  return {
+    key: 'showEcliptic', frame: 'j2000',
+    color: [1.0, 0.8, 0.35], alpha: 0.5,
+    lines, labels,
+  };
+}
+
+/**
+ * Galactic equator (b = 0) in J2000.
+ */
+function galacticEquator(): GridLayer {
+  const circle: number[] = [];
+  for (let lon = 0; lon <= 2 * Math.PI + 1e-9; lon += STEP) {
+    const [ra, dec] = Astro.galacticToEquatorial(lon, 0);
+    circle.push(ra, dec);
+  }
+  return {
+    key: 'showGalacticEquator', frame: 'j2000',
+    color: [0.85, 0.5, 0.9], alpha: 0.4,
+    lines: [circle], labels: [],
+  };
+}
+
+/**
+ * Horizon ring with the eight compass points, altitude ticks every 10° above
+ * the four cardinal points and a small circle around the zenith. Drawn in
+ * SkyRoot's frame, so it shows where the compass heading puts north.
+ */
+function horizon(): GridLayer {
+  const lines: number[][] = [parallel(0)];
+  const labels: GridLabel[] = [];
+
+  for (let i = 0; i < COMPASS_POINTS.length; i++) {
+    labels.push({
+      text: COMPASS_POINTS[i], lon: i * 45 * DEG, lat: 2 * DEG,
+      color: i === 0 ? NORTH_COLOR : undefined,
+    });
+  }
+
+  for (let az = 0; az < 360; az += 90) {
+    for (let alt = 10; alt < 90; alt += 10) {
+      // Ticks run along the altitude circle, so widen them in azimuth as it shrinks
+      const halfWidth = (alt % 30 === 0 ? 2 : 1) * ALTITUDE_TICK / Math.cos(alt * DEG);
+      lines.push([az * DEG - halfWidth, alt * DEG, az * DEG + halfWidth, alt * DEG]);
+    }
+  }
+
+  const zenith: number[] = [];
+  for (let az = 0; az <= 2 * Math.PI + 1e-9; az += 30 * DEG) {
+    zenith.push(az, 90 * DEG - ZENITH_MARKER);
+  }
+  lines.push(zenith);
+
+  return {
+    key: 'showHorizon', frame: 'horizontal',
+    color: [0.85, 0.85, 0.75], alpha: 0.5,
+    lines, labels,
+  };
+}
+
+/**
+ * Full circle of constant latitude in the layer's frame.
+ */
+function parallel(lat: number): number[] {
+  const line: number[] = [];
+  for (let lon = 0; lon <= 2 * Math.PI + 1e-9; lon += STEP) {
+    line.push(lon, lat);
+  }
+  return line;
+}
+
+/**
+ * Arc of constant longitude from one latitude to another (either direction).
+ */
+function meridianArc(lon: number, fromLat: number, toLat: number): number[] {
+  const line: number[] = [];
+  const steps = Math.max(1, Math.round(Math.abs(toLat - fromLat) / STEP));
+  for (let i = 0; i <= steps; i++) {
+    line.push(lon, fromLat + (toLat - fromLat) * (i / steps));
+  }
+  return line;
+}
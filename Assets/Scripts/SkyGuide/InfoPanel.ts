@@ -1,15 +1,43 @@
-// InfoPanel.ts — Star/constellation info display
+// InfoPanel.ts — Info display for the selected object, the clock, location and menus
 // Shows a billboard Text3D panel in front of the user's view
 
-import { CONSTELLATIONS } from './ConstellationData';
 import { STARS, HIP_TO_INDEX } from './StarData';
+import { DEEP_SKY_OBJECTS } from './DeepSkyData';
+import { CITIES } from './CityData';
+import {
+  CalibrationEvent, DeepSkyType, LocationSource, MenuView, RiseTransitSet, TwilightState,
+} from './Types';
+import * as Calibration from './Calibration';
+import * as Engine from './SkyEngine';
+import * as LocationPicker from './LocationPicker';
+import * as Settings from './Settings';
+import * as SkyCultures from './SkyCultures';
+import { auToKm } from './Ephemeris';
 
 let infoPanelRoot: SceneObject | null = null;
 let infoTextComponent: Text | null = null;
 let camera: SceneObject | null = null;
 let isVisible = false;
+let showingClock = false;
+let lastClockText = '';
 
-const PANEL_DISTANCE = 3.0; // units in front of camera
+// Cached "astronomical darkness" line
+const DARKNESS_CACHE_MS = 5 * 60 * 1000;
+let darknessCacheText = '';
+let darknessCacheTime = NaN;
+let darknessCacheState: TwilightState | null = null;
+
+const MENU_VISIBLE_ITEMS = 7; // list entries shown around the selection
+
+// Times are shown in the location's zone; formatter is null for the device's
+const ZONE_FIELDS = ['year', 'month', 'day', 'hour', 'minute'];
+let formatter: Intl.DateTimeFormat | null = null;
+let formatterZone = '';
+
+// Nearest city to the last unnamed (GPS) fix; the clock panel redraws every frame
+let nearestCityLat = NaN;
+let nearestCityLon = NaN;
+let nearestCityName = '';
 
 /**
  * Initialize the info panel.
@@ -37,7 +65,7 @@ export function init(
 export function showConstellationInfo(abbr: string, name: string): void {
   if (!infoPanelRoot || !infoTextComponent || !camera) return;
 
-  const c = CONSTELLATIONS.find((con) => con.abbr === abbr);
+  const c = SkyCultures.getConstellations().find((con) => con.abbr === abbr);
   if (!c) return;
 
   // Collect notable star names from this constellation
@@ -48,25 +76,471 @@ export function showConstellationInfo(abbr: string, name: string): void {
   }
 
   const starNames: string[] = [];
+  let brightestIdx = -1;
   for (const hip of uniqueHips) {
     const idx = HIP_TO_INDEX.get(hip);
     if (idx !== undefined && STARS[idx].name) {
       starNames.push(STARS[idx].name);
+      if (brightestIdx < 0 || STARS[idx].mag < STARS[brightestIdx].mag) {
+        brightestIdx = idx;
+      }
     }
   }
 
-  let text = name + ' (' + abbr + ')\n';
+  // Figure ids of non-IAU cultures mean nothing to the user; name the culture instead
+  let text = SkyCultures.isIauCulture()
+    ? name + ' (' + abbr + ')\n'
+    : name + '\n' + SkyCultures.getCulture().name + ' sky culture\n';
   text += uniqueHips.size + ' stars\n';
   if (starNames.length > 0) {
-    text += 'Notable: ' + starNames.slice(0, 4).join(', ');
+    text += 'Notable: ' + starNames.slice(0, 4).join(', ') + '\n';
+  }
+
+  text += formatRiseTransitSet(
+    Engine.computeRiseTransitSet(c.centroidRA, c.centroidDec)
+  );
+  if (brightestIdx >= 0) {
+    const star = STARS[brightestIdx];
+    text += '\n' + star.name + ': ' + formatRiseSetShort(
+      Engine.computeRiseTransitSet(star.ra, star.dec)
+    );
+  }
+
+  show(text + clockFooter());
+}
+
+/**
+ * Show info for a single star: name, magnitude, color index and constellation.
+ */
+export function showStarInfo(hip: number): void {
+  if (!infoPanelRoot || !infoTextComponent || !camera) return;
+
+  const idx = HIP_TO_INDEX.get(hip);
+  if (idx === undefined) return;
+  const star = STARS[idx];
+
+  const con = SkyCultures.findIauConstellation(star.con);
+  let text = (star.name || 'HIP ' + star.hip) + '\n';
+  if (star.name) {
+    text += 'HIP ' + star.hip + '\n';
+  }
+  if (con) {
+    text += 'Star in ' + con.name + '\n';
+  }
+  text += 'Magnitude ' + star.mag.toFixed(2) + '\n';
+  text += 'Color index B-V ' + star.bv.toFixed(2) + ' (' + colorName(star.bv) + ')\n';
+  text += formatRiseTransitSet(Engine.computeRiseTransitSet(star.ra, star.dec));
+
+  show(text + clockFooter());
+}
+
+/**
+ * Plain-language star color for a B-V index.
+ */
+function colorName(bv: number): string {
+  if (bv < 0.0) return 'blue-white';
+  if (bv < 0.3) return 'white';
+  if (bv < 0.6) return 'yellow-white';
+  if (bv < 0.8) return 'yellow';
+  if (bv < 1.4) return 'orange';
+  return 'red';
+}
+
+/**
+ * Show compass calibration instructions or the result of the last step.
+ */
+export function showCalibrationInfo(event: CalibrationEvent): void {
+  if (!infoPanelRoot || !infoTextComponent || !camera) return;
+
+  const offset = formatSignedDegrees(Calibration.getHeadingOffsetDeg());
+  let text: string;
+  if (event === 'unavailable') {
+    text = 'Compass calibration\nNo bright star is high enough right now.\n' +
+      'Try again once the sky is darker.';
+  } else if (event === 'finished') {
+    text = 'Compass corrected by ' + offset + '\nSaved for next time.';
+  } else if (event === 'cancelled') {
+    text = 'Calibration cancelled\nCompass correction stays ' + offset + '.';
+  } else {
+    const idx = Calibration.getTargetIndex();
+    if (idx < 0) return;
+    const [alt, az] = Calibration.targetAltAz(idx);
+    const step = Calibration.getStep();
+    text = 'Compass calibration — star ' + step + ' of ' + Calibration.getStepCount() + '\n';
+    if (event === 'rejected') {
+      text += 'Too far off. Center the star in view and try again.\n';
+    }
+    text += 'Look at ' + STARS[idx].name + ', ' + (alt > Math.PI / 4 ? 'high' : 'low') +
+      ' in the ' + compassPoint(az) + ', and pinch.\n';
+    text += step > 1 ? 'Left pinch finishes with one star.' : 'Left pinch cancels.';
+  }
+
+  show(text);
+}
+
+const COMPASS_POINTS = ['north', 'northeast', 'east', 'southeast',
+  'south', 'southwest', 'west', 'northwest'];
+
+function compassPoint(azRad: number): string {
+  const octant = Math.round(azRad / (Math.PI / 4)) % 8;
+  return COMPASS_POINTS[octant];
+}
+
+function formatSignedDegrees(deg: number): string {
+  return (deg >= 0 ? '+' : '−') + Math.abs(deg).toFixed(1) + '°';
+}
+
+/**
+ * Show info for a Solar System body: magnitude, distance and phase.
+ */
+export function showBodyInfo(id: string): void {
+  if (!infoPanelRoot || !infoTextComponent || !camera) return;
+
+  const body = Engine.getBodyEphemeris(id);
+  if (!body) return;
+
+  let text = body.name + '\n';
+  text += 'Magnitude ' + body.mag.toFixed(1) + '\n';
+  if (body.id === 'moon') {
+    text += 'Distance ' + Math.round(auToKm(body.distanceAU)) + ' km\n';
+    text += moonPhaseName(body.illuminated, body.elongation) + ', ' +
+      Math.round(body.illuminated * 100) + '% lit';
+  } else {
+    text += 'Distance ' + body.distanceAU.toFixed(2) + ' AU';
+    if (body.id !== 'sun') {
+      text += '\nPhase ' + Math.round(body.illuminated * 100) + '% lit';
+    }
+  }
+
+  show(text + clockFooter());
+}
+
+/**
+ * Show the simulated date/time and clock rate. Stays live while visible.
+ */
+export function showClockInfo(): void {
+  if (!infoPanelRoot || !infoTextComponent || !camera) return;
+
+  lastClockText = clockText();
+  show(lastClockText);
+  showingClock = true;
+}
+
+/**
+ * Warn that the Sun is up — nothing should guide the user toward it.
+ */
+export function showSunWarning(): void {
+  if (!infoPanelRoot || !infoTextComponent || !camera) return;
+
+  show('The Sun is above the horizon\n' +
+    'Never look directly at the Sun\n' +
+    darknessLine());
+}
+
+function clockText(): string {
+  return 'Sky time (' + zoneLabel() + ')\n' + formatDateTime(Engine.getSimTime()) + '\n' +
+    formatTimeRate(Engine.getTimeRate()) + '\n' +
+    TWILIGHT_LABELS[Engine.getTwilightState()] + '\n' +
+    darknessLine() + '\n' +
+    locationLine();
+}
+
+/**
+ * Show where the sky is computed for. Without live GPS this says so, and how
+ * to pick the right place.
+ */
+export function showLocationInfo(): void {
+  if (!infoPanelRoot || !infoTextComponent || !camera) return;
+
+  const source = Engine.getLocationSource();
+  let text = locationLine();
+  if (source === 'saved' || source === 'default') {
+    text += '\nGPS is unavailable — the sky may not match yours.\n' +
+      'Left palm tap > Choose location to set it.';
+  } else if (source === 'manual' && Engine.isGpsAvailable()) {
+    text += '\nGPS is ignored until you pick "Use live GPS".';
+  }
+
+  show(text);
+}
+
+/**
+ * Show a gesture-driven list, scrolled so the selection stays in view.
+ */
+export function showMenu(view: MenuView): void {
+  if (!infoPanelRoot || !infoTextComponent || !camera) return;
+
+  const count = view.items.length;
+  const first = Math.max(0, Math.min(
+    view.selected - Math.floor(MENU_VISIBLE_ITEMS / 2),
+    count - MENU_VISIBLE_ITEMS
+  ));
+  const last = Math.min(count, first + MENU_VISIBLE_ITEMS);
+
+  let text = view.title + '\n';
+  text += first > 0 ? '  ⋮\n' : '\n';
+  for (let i = first; i < last; i++) {
+    text += (i === view.selected ? '▸ ' : '   ') + view.items[i] + '\n';
+  }
+  text += last < count ? '  ⋮\n' : '\n';
+  text += (view.selected + 1) + ' / ' + count + '\n' + view.hint;
+
+  show(text);
+}
+
+const LOCATION_SOURCE_LABELS: { [source in LocationSource]: string } = {
+  gps: 'live GPS',
+  saved: 'last saved — no GPS',
+  manual: 'chosen by hand',
+  default: 'default — no GPS',
+};
+
+/**
+ * "Location: Lyon, France (chosen by hand)" — GPS fixes are named after the nearest city.
+ */
+function locationLine(): string {
+  const observer = Engine.getObserver();
+  const latDeg = observer.latitude * 180 / Math.PI;
+  const lonDeg = observer.longitude * 180 / Math.PI;
+  let place = Engine.getLocationName();
+  if (!place) {
+    if (latDeg !== nearestCityLat || lonDeg !== nearestCityLon) {
+      const nearest = LocationPicker.nearestCity(latDeg, lonDeg);
+      nearestCityName = nearest >= 0 ? CITIES[nearest].name : '';
+      nearestCityLat = latDeg;
+      nearestCityLon = lonDeg;
+    }
+    place = formatLatLon(latDeg, lonDeg) + (nearestCityName ? ' near ' + nearestCityName : '');
+  }
+  return 'Location: ' + place + ' (' + LOCATION_SOURCE_LABELS[Engine.getLocationSource()] + ')';
+}
+
+function formatLatLon(latDeg: number, lonDeg: number): string {
+  return Math.abs(latDeg).toFixed(2) + '°' + (latDeg >= 0 ? 'N' : 'S') + ' ' +
+    Math.abs(lonDeg).toFixed(2) + '°' + (lonDeg >= 0 ? 'E' : 'W');
+}
+
+const TWILIGHT_LABELS: { [state in TwilightState]: string } = {
+  day: 'Daylight',
+  civil: 'Civil twilight',
+  nautical: 'Nautical twilight',
+  astronomical: 'Astronomical twilight',
+  night: 'Dark sky',
+};
+
+/**
+ * "Astronomical darkness begins at 21:47", or when it ends if already dark.
+ */
+function darknessLine(): string {
+  // The Sun search is a few hundred ephemeris evaluations — reuse it while the
+  // simulated time stays within a few minutes and the sky state is unchanged
+  const now = Engine.getSimTime();
+  const state = Engine.getTwilightState();
+  if (state === darknessCacheState &&
+    Math.abs(now - darknessCacheTime) < DARKNESS_CACHE_MS) {
+    return darknessCacheText;
   }
 
+  const ASTRONOMICAL = -18 * Math.PI / 180;
+  let text: string;
+  if (state === 'night') {
+    const end = Engine.findNextSunCrossing(ASTRONOMICAL, false);
+    text = isNaN(end) ? 'Dark all night' : 'Dark sky until ' + formatTime(end);
+  } else {
+    const start = Engine.findNextSunCrossing(ASTRONOMICAL, true);
+    text = isNaN(start)
+      ? 'No astronomical darkness tonight'
+      : 'Astronomical darkness begins at ' + formatTime(start);
+  }
+
+  darknessCacheText = text;
+  darknessCacheTime = now;
+  darknessCacheState = state;
+  return text;
+}
+
+/**
+ * "Rises 19:32  Highest 01:10 (52°)  Sets 06:48", or the circumpolar /
+ * never-rises classification, in local time.
+ */
+function formatRiseTransitSet(rts: RiseTransitSet): string {
+  if (rts.kind === 'neverRises') return 'Never rises at this latitude';
+
+  const highest = 'Highest ' + formatTime(rts.transitMs) +
+    ' (' + Math.round(rts.transitAlt * 180 / Math.PI) + '°)';
+  if (rts.kind === 'circumpolar') return 'Circumpolar — ' + highest;
+
+  return 'Rises ' + formatTime(rts.riseMs) + '  ' + highest +
+    '  Sets ' + formatTime(rts.setMs);
+}
+
+function formatRiseSetShort(rts: RiseTransitSet): string {
+  if (rts.kind === 'neverRises') return 'never rises';
+  if (rts.kind === 'circumpolar') return 'never sets';
+  return 'rises ' + formatTime(rts.riseMs) + ', sets ' + formatTime(rts.setMs);
+}
+
+/**
+ * Simulated time line appended to info layouts when not showing the live sky.
+ */
+function clockFooter(): string {
+  if (Engine.isClockLive()) return '';
+  return '\nSky time: ' + formatDateTime(Engine.getSimTime());
+}
+
+/**
+ * Format ms since epoch as "YYYY-MM-DD HH:MM" in the location's time zone.
+ */
+function formatDateTime(ms: number): string {
+  const t = localTime(ms);
+  return t[0] + '-' + pad2(t[1]) + '-' + pad2(t[2]) + ' ' + pad2(t[3]) + ':' + pad2(t[4]);
+}
+
+/**
+ * Format ms since epoch as "HH:MM" in the location's time zone, with the day
+ * when it is not the sky time's: "HH:MM tomorrow", "HH:MM yesterday" or
+ * "MM-DD HH:MM".
+ */
+function formatTime(ms: number): string {
+  const t = localTime(ms);
+  const today = localTime(Engine.getSimTime());
+  const time = pad2(t[3]) + ':' + pad2(t[4]);
+  const days = Math.round(
+    (Date.UTC(t[0], t[1] - 1, t[2]) - Date.UTC(today[0], today[1] - 1, today[2])) / 86400000
+  );
+  if (days === 0) return time;
+  if (days === 1) return time + ' tomorrow';
+  if (days === -1) return time + ' yesterday';
+  return pad2(t[1]) + '-' + pad2(t[2]) + ' ' + time;
+}
+
+/**
+ * Calendar fields of ms since epoch in the location's time zone: a chosen
+ * city's (or the default place's), else the device's. Runtimes without time
+ * zone data fall back to the device's zone, which zoneLabel() then names.
+ * @returns [year, month 1–12, day, hour 0–23, minute]
+ */
+function localTime(ms: number): number[] {
+  const formatter = zoneFormatter();
+  if (formatter) {
+    const t = [0, 0, 0, 0, 0];
+    for (const part of formatter.formatToParts(new Date(ms))) {
+      const field = ZONE_FIELDS.indexOf(part.type);
+      if (field >= 0) t[field] = parseInt(part.value, 10);
+    }
+    t[3] %= 24; // some runtimes write midnight as 24
+    return t;
+  }
+  const d = new Date(ms);
+  return [d.getFullYear(), d.getMonth() + 1, d.getDate(), d.getHours(), d.getMinutes()];
+}
+
+/**
+ * "Asia/Tokyo time" for a chosen city, "device time" when the panel falls back
+ * to the device's zone (GPS fixes, or no time zone data in the runtime).
+ */
+function zoneLabel(): string {
+  return zoneFormatter() ? Engine.getLocationTimeZone() + ' time' : 'device time';
+}
+
+/**
+ * Formatter for the location's time zone, or null for the device's zone.
+ */
+function zoneFormatter(): Intl.DateTimeFormat | null {
+  const zone = Engine.getLocationTimeZone();
+  if (zone !== formatterZone) {
+    formatterZone = zone;
+    formatter = null;
+    if (zone) {
+      try {
+        formatter = new Intl.DateTimeFormat('en-US', {
+          timeZone: zone, hour12: false,
+          year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric',
+        });
+      } catch (e) {
+        print('[SkyGuide] No time zone data for ' + zone + ', showing device time: ' + e);
+      }
+    }
+  }
+  return formatter;
+}
+
+function formatTimeRate(rate: number): string {
+  if (rate === 0) return 'Paused';
+  if (rate === 1) return 'Real time';
+  if (rate < 0) return Math.abs(rate) + 'x rewind';
+  return rate + 'x fast-forward';
+}
+
+function pad2(n: number): string {
+  return n < 10 ? '0' + n : '' + n;
+}
+
+/**
+ * Set the panel text and bring it up in front of the camera.
+ */
+function show(text: string): void {
+  if (!infoPanelRoot || !infoTextComponent) return;
+
   infoTextComponent.text = text;
+  showingClock = false;
   positionInFrontOfCamera();
   infoPanelRoot.enabled = true;
   isVisible = true;
 }
 
+const DEEP_SKY_TYPE_LABELS: { [type in DeepSkyType]: string } = {
+  galaxy: 'Galaxy',
+  globularCluster: 'Globular cluster',
+  openCluster: 'Open cluster',
+  nebula: 'Nebula',
+  planetaryNebula: 'Planetary nebula',
+  supernovaRemnant: 'Supernova remnant',
+};
+
+/**
+ * Show info for a deep-sky object: type, magnitude, size and surface brightness.
+ */
+export function showDeepSkyInfo(id: string): void {
+  if (!infoPanelRoot || !infoTextComponent || !camera) return;
+
+  const dso = DEEP_SKY_OBJECTS.find((d) => d.id === id);
+  if (!dso) return;
+
+  const con = SkyCultures.findIauConstellation(dso.con);
+  let text = dso.id + (dso.name ? ' — ' + dso.name : '') + '\n';
+  text += DEEP_SKY_TYPE_LABELS[dso.type] +
+    (con ? ' in ' + con.name : '') +
+    (dso.ngc ? ' (' + dso.ngc + ')' : '') + '\n';
+  text += 'Magnitude ' + dso.mag.toFixed(1) + '\n';
+  text += 'Size ' + formatArcmin(dso.majorArcmin) +
+    (dso.minorArcmin !== dso.majorArcmin ? ' × ' + formatArcmin(dso.minorArcmin) : '') + '\n';
+  text += 'Surface brightness ' + dso.surfaceBrightness.toFixed(1) + ' mag/arcmin²\n';
+  text += formatRiseTransitSet(Engine.computeRiseTransitSet(dso.ra, dso.dec));
+
+  show(text + clockFooter());
+}
+
+function formatArcmin(arcmin: number): string {
+  return arcmin >= 60
+    ? (arcmin / 60).toFixed(1) + '°'
+    : (arcmin < 10 ? arcmin.toFixed(1) : Math.round(arcmin).toString()) + "'";
+}
+
+/**
+ * Name the lunar phase from illuminated fraction and signed elongation.
+ */
+function moonPhaseName(illuminated: number, elongation: number): string {
+  if (illuminated < 0.03) return 'New Moon';
+  if (illuminated > 0.97) return 'Full Moon';
+  const waxing = elongation > 0;
+  if (Math.abs(illuminated - 0.5) < 0.03) {
+    return waxing ? 'First Quarter' : 'Last Quarter';
+  }
+  const shape = illuminated < 0.5 ? 'crescent' : 'gibbous';
+  return (waxing ? 'Waxing ' : 'Waning ') + shape;
+}
+
 /**
  * Hide the info panel.
  */
@@ -75,6 +549,7 @@ export function hide(): void {
     infoPanelRoot.enabled = false;
   }
   isVisible = false;
+  showingClock = false;
 }
 
 /**
@@ -94,12 +569,13 @@ function positionInFrontOfCamera(): void {
   const camPos = camTransform.getWorldPosition();
   const camForward = camTransform.forward;
 
-  // Place panel PANEL_DISTANCE in front of the camera
+  // Place panel the panelDistance setting in front of the camera
   // Lens Studio camera forward is already the look direction
+  const distance = Settings.get('panelDistance');
   const panelPos = new vec3(
-    camPos.x + camForward.x * PANEL_DISTANCE,
-    camPos.y + camForward.y * PANEL_DISTANCE + 0.5, // slightly above center
-    camPos.z + camForward.z * PANEL_DISTANCE
+    camPos.x + camForward.x * distance,
+    camPos.y + camForward.y * distance + 0.5, // slightly above center
+    camPos.z + camForward.z * distance
   );
 
   infoPanelRoot.getTransform().setWorldPosition(panelPos);
@@ -122,4 +598,13 @@ export function updatePosition(): void {
   if (isVisible) {
     positionInFrontOfCamera();
   }
+
+  // Keep the clock readout ticking while it is shown
+  if (showingClock && infoTextComponent) {
+    const text = clockText();
+    if (text !== lastClockText) {
+      lastClockText = text;
+      infoTextComponent.text = text;
+    }
+  }
 }
@@ -0,0 +1,262 @@
+// LabelLayer.ts — Star and constellation names in the sky
+// Every position update picks which names to show: bright named stars and
+// constellation label anchors above the horizon, faded by magnitude and by angle
+// from the gaze. The brightest candidates are placed first, as long as they
+// fit the label budget and don't overlap an already placed name on screen.
+// Text objects come from a TextLabels pool, which turns them to the camera.
+// Candidates, the projected point and the constellation anchors are reused
+// between updates, so a frame allocates only what the Lens Studio calls return.
+
+import { STARS } from './StarData';
+import * as Engine from './SkyEngine';
+import * as Interaction from './GazeAndHandController';
+import * as Settings from './Settings';
+import * as SkyCultures from './SkyCultures';
+import * as TextLabels from './TextLabels';
+
+// Stars brighter than this (after extinction) get names, fading out over 1 mag
+const STAR_LABEL_MAG_LIMIT = 2.5;
+const STAR_LABEL_FADE_MAG = 1.0;
+const STAR_LABEL_COLOR: [number, number, number] = [0.95, 0.9, 0.8];
+const CONSTELLATION_LABEL_ALPHA = 0.7;
+
+// Names are fully visible near the gaze and gone beyond GAZE_FADE_END_RAD
+const GAZE_FADE_START_RAD = 15 * (Math.PI / 180);
+const GAZE_FADE_END_RAD = 40 * (Math.PI / 180);
+
+// Star names sit just below their star (fraction of the sphere radius)
+const STAR_LABEL_OFFSET = 0.015;
+
+// Approximate on-screen label size, as fractions of the screen
+const CHAR_WIDTH_SCREEN = 0.012;
+const LINE_HEIGHT_SCREEN = 0.03;
+
+interface Candidate {
+  text: string;
+  x: number;
+  y: number;
+  z: number;
+  alpha: number;
+  color: [number, number, number];
+}
+
+let skyRoot: SceneObject | null = null;
+let cameraComponent: Camera | null = null;
+const pool: number[] = []; // TextLabels ids
+const poolText: string[] = []; // text each pooled label currently holds
+const candidatePool: Candidate[] = []; // grows to the most candidates seen
+const candidates: Candidate[] = []; // this update's, from candidatePool
+const placedBoxes: number[] = []; // x0, y0, x1, y1 per placed label
+const constellationColor: [number, number, number] = [0, 0, 0];
+let scratchPoint: vec3 | null = null;
+
+// Label anchors of the active culture on the sphere, x, y, z per figure,
+// for the star positions version and culture they were computed for
+let anchorXyz = new Float32Array(0);
+let anchorVersion = -1;
+let anchorCulture = '';
+
+/**
+ * @param skyRootObj — SkyRoot (star positions are in its frame)
+ */
+export function init(skyRootObj: SceneObject, cameraObj: SceneObject): void {
+  skyRoot = skyRootObj;
+  scratchPoint = new vec3(0, 0, 0);
+  cameraComponent = cameraObj.getComponent('Component.Camera') as Camera;
+  if (!cameraComponent) {
+    print('[SkyGuide] Warning: No Camera component — star and constellation names disabled');
+    return;
+  }
+
+  const def = Settings.getDefinition('labelBudget');
+  const size = def && def.max !== undefined ? def.max : 0;
+  for (let i = 0; i < size; i++) {
+    const id = TextLabels.create('', STAR_LABEL_COLOR);
+    if (id < 0) break;
+    pool.push(id);
+    poolText.push('');
+  }
+}
+
+/**
+ * Choose and place the names for the current sky and gaze.
+ * Call after SkyEngine.updateStarPositions().
+ */
+export function update(): void {
+  if (!skyRoot || !cameraComponent || !scratchPoint || pool.length === 0) return;
+
+  collectCandidates();
+  candidates.sort(byAlphaDescending);
+
+  const budget = Math.min(pool.length, Settings.get('labelBudget'));
+  const toWorld = skyRoot.getTransform().getWorldTransform();
+  placedBoxes.length = 0;
+  let used = 0;
+
+  for (const c of candidates) {
+    if (used >= budget) break;
+
+    scratchPoint.x = c.x;
+    scratchPoint.y = c.y;
+    scratchPoint.z = c.z;
+    const screen = cameraComponent.worldSpaceToScreenSpace(toWorld.multiplyPoint(scratchPoint));
+    const halfWidth = c.text.length * CHAR_WIDTH_SCREEN / 2;
+    const halfHeight = LINE_HEIGHT_SCREEN / 2;
+    const x0 = screen.x - halfWidth, x1 = screen.x + halfWidth;
+    const y0 = screen.y - halfHeight, y1 = screen.y + halfHeight;
+    if (x1 < 0 || x0 > 1 || y1 < 0 || y0 > 1) continue;
+    if (overlapsPlaced(x0, y0, x1, y1)) continue;
+    placedBoxes.push(x0, y0, x1, y1);
+
+    const id = pool[used];
+    if (poolText[used] !== c.text) {
+      TextLabels.setText(id, c.text, c.color);
+      poolText[used] = c.text;
+    }
+    TextLabels.show(id, c.x, c.y, c.z, c.alpha);
+    used++;
+  }
+
+  for (let i = used; i < pool.length; i++) {
+    TextLabels.hide(pool[i]);
+  }
+}
+
+/**
+ * Fill `candidates` with every name that would be visible at all.
+ */
+function collectCandidates(): void {
+  candidates.length = 0;
+  const gaze = Interaction.getGazeDirection();
+  if (!gaze || !Engine.isInitialized()) return;
+
+  // Gaze as a unit vector in the sky frame
+  const cosAlt = Math.cos(gaze[0]);
+  const gx = cosAlt * Math.sin(gaze[1]);
+  const gy = Math.sin(gaze[0]);
+  const gz = -cosAlt * Math.cos(gaze[1]);
+  const radius = Engine.getSphereRadius();
+  const limitingMag = Engine.getLimitingMagnitude();
+
+  if (Settings.get('starLabels')) {
+    const positions = Engine.getStarPositions();
+    const xyz = positions.xyz;
+    for (let i = 0; i < positions.count; i++) {
+      const star = STARS[i];
+      const x = xyz[i * 3], y = xyz[i * 3 + 1], z = xyz[i * 3 + 2];
+      if (!star.name || y < 0) continue;
+
+      const mag = star.mag + positions.extinction[i];
+      const magFade = clamp01((STAR_LABEL_MAG_LIMIT - mag) / STAR_LABEL_FADE_MAG) *
+        clamp01((limitingMag - mag) / 0.5);
+      if (magFade <= 0) continue;
+      const alpha = magFade * gazeFade(x, y, z, radius, gx, gy, gz);
+      if (alpha <= 0) continue;
+
+      // Offset toward the horizon along the sphere (none near the zenith)
+      const px = x / radius, py = y / radius, pz = z / radius;
+      let dx = px * py, dy = py * py - 1, dz = pz * py;
+      const len = Math.sqrt(dx * dx + dy * dy + dz * dz);
+      if (len > 1e-3) {
+        dx /= len; dy /= len; dz /= len;
+      } else {
+        dx = 0; dy = 0; dz = 0;
+      }
+      const offset = STAR_LABEL_OFFSET * radius;
+      addCandidate(star.name, x + dx * offset, y + dy * offset, z + dz * offset,
+        alpha, STAR_LABEL_COLOR);
+    }
+  }
+
+  if (Settings.get('constellationLabels')) {
+    const lineColor = Settings.getColor('lineColor');
+    const darkness = Engine.getSkyDarkness();
+    for (let k = 0; k < 3; k++) {
+      constellationColor[k] = Math.min(1, lineColor[k] * 1.3);
+    }
+    const constellations = SkyCultures.getConstellations();
+    updateAnchors();
+    for (let i = 0; i < constellations.length; i++) {
+      const x = anchorXyz[i * 3], y = anchorXyz[i * 3 + 1], z = anchorXyz[i * 3 + 2];
+      if (y < 0) continue;
+      const alpha = CONSTELLATION_LABEL_ALPHA * darkness * gazeFade(x, y, z, radius, gx, gy, gz);
+      if (alpha <= 0) continue;
+      addCandidate(constellations[i].name, x, y, z, alpha, constellationColor);
+    }
+  }
+}
+
+/**
+ * Append a candidate, reusing a pooled object.
+ */
+function addCandidate(
+  text: string, x: number, y: number, z: number,
+  alpha: number, color: [number, number, number]
+): void {
+  let c = candidatePool[candidates.length];
+  if (!c) {
+    c = { text: '', x: 0, y: 0, z: 0, alpha: 0, color };
+    candidatePool.push(c);
+  }
+  c.text = text;
+  c.x = x;
+  c.y = y;
+  c.z = z;
+  c.alpha = alpha;
+  c.color = color;
+  candidates.push(c);
+}
+
+function byAlphaDescending(a: Candidate, b: Candidate): number {
+  return b.alpha - a.alpha;
+}
+
+/**
+ * Project the active culture's label anchors onto the sphere, once per star
+ * position update (they move with the stars) or culture change.
+ */
+function updateAnchors(): void {
+  const version = Engine.getStarPositions().version;
+  const culture = SkyCultures.getCulture().id;
+  if (version === anchorVersion && culture === anchorCulture) return;
+  anchorVersion = version;
+  anchorCulture = culture;
+
+  const constellations = SkyCultures.getConstellations();
+  if (anchorXyz.length !== constellations.length * 3) {
+    anchorXyz = new Float32Array(constellations.length * 3);
+  }
+  for (let i = 0; i < constellations.length; i++) {
+    const c = constellations[i];
+    const p = Engine.projectToSphere(c.labelRA, c.labelDec, 'j2000');
+    anchorXyz[i * 3] = p[0];
+    anchorXyz[i * 3 + 1] = p[1];
+    anchorXyz[i * 3 + 2] = p[2];
+  }
+}
+
+/**
+ * 1 within GAZE_FADE_START_RAD of the gaze, falling to 0 at GAZE_FADE_END_RAD.
+ */
+function gazeFade(
+  x: number, y: number, z: number, radius: number,
+  gx: number, gy: number, gz: number
+): number {
+  const cosAngle = (x * gx + y * gy + z * gz) / radius;
+  const angle = Math.acos(Math.max(-1, Math.min(1, cosAngle)));
+  return clamp01((GAZE_FADE_END_RAD - angle) / (GAZE_FADE_END_RAD - GAZE_FADE_START_RAD));
+}
+
+function overlapsPlaced(x0: number, y0: number, x1: number, y1: number): boolean {
+  for (let i = 0; i < placedBoxes.length; i += 4) {
+    if (x0 < placedBoxes[i + 2] && x1 > placedBoxes[i] &&
+      y0 < placedBoxes[i + 3] && y1 > placedBoxes[i + 1]) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function clamp01(v: number): number {
+  return Math.max(0, Math.min(1, v));
+}
@@ -0,0 +1,155 @@
+// LocationPicker.ts — Hand-driven city picker over the offline gazetteer
+// Two levels: countries (A–Z), then that country's cities, largest first.
+// Both lists open on the entry nearest the current location, so correcting
+// a fallback location usually takes only a few steps.
+
+import { CITIES, COUNTRIES, COUNTRY_START } from './CityData';
+import { MenuView } from './Types';
+import * as Astro from './AstroMath';
+import * as Engine from './SkyEngine';
+
+const DEG = Math.PI / 180;
+const LIVE_GPS_ITEM = 'Use live GPS';
+const HINT = 'Grab to scroll (hold for fast) · Right pinch picks · Left pinch goes back';
+
+type PickerLevel = 'closed' | 'countries' | 'cities';
+
+let level: PickerLevel = 'closed';
+let selected = 0;
+let countryIndex = 0;
+let liveGpsOffered = false; // first country-level item switches back to GPS
+
+/**
+ * Open on the country of the city nearest the current location.
+ */
+export function open(): void {
+  liveGpsOffered = Engine.isGpsAvailable();
+  const observer = Engine.getObserver();
+  const nearest = nearestCity(observer.latitude / DEG, observer.longitude / DEG);
+  countryIndex = nearest >= 0 ? COUNTRIES.indexOf(CITIES[nearest].country) : 0;
+  level = 'countries';
+  selected = countryIndex + (liveGpsOffered ? 1 : 0);
+}
+
+export function isOpen(): boolean {
+  return level !== 'closed';
+}
+
+export function close(): void {
+  level = 'closed';
+}
+
+/**
+ * Move the selection by step entries, wrapping at either end.
+ */
+export function move(step: number): void {
+  const count = itemCount();
+  if (count === 0) return;
+  selected = ((selected + step) % count + count) % count;
+}
+
+/**
+ * Pick the selected entry: a country opens its cities, a city (or live GPS)
+ * sets the observer location and closes the picker.
+ * @returns true when a location was applied
+ */
+export function choose(): boolean {
+  if (level === 'countries') {
+    if (liveGpsOffered && selected === 0) {
+      close();
+      return Engine.useLiveGps();
+    }
+    countryIndex = selected - (liveGpsOffered ? 1 : 0);
+    level = 'cities';
+    // Start on the nearest city if it is in this country, else the largest
+    const observer = Engine.getObserver();
+    const nearest = nearestCity(observer.latitude / DEG, observer.longitude / DEG);
+    const first = COUNTRY_START[countryIndex];
+    selected = nearest >= first && nearest < first + cityCount(countryIndex)
+      ? nearest - first
+      : 0;
+    return false;
+  }
+
+  if (level === 'cities') {
+    const city = CITIES[COUNTRY_START[countryIndex] + selected];
+    close();
+    Engine.setObserverLocation(
+      city.lat, city.lon, city.name + ', ' + city.country, city.elevation, city.timezone
+    );
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Go up one level.
+ * @returns false when the picker was closed
+ */
+export function back(): boolean {
+  if (level === 'cities') {
+    level = 'countries';
+    selected = countryIndex + (liveGpsOffered ? 1 : 0);
+    return true;
+  }
+  close();
+  return false;
+}
+
+/**
+ * Current list for the info panel, or null when closed.
+ */
+export function getView(): MenuView | null {
+  if (level === 'countries') {
+    return {
+      title: 'Choose location — country',
+      items: liveGpsOffered ? [LIVE_GPS_ITEM].concat(COUNTRIES) : COUNTRIES,
+      selected,
+      hint: HINT,
+    };
+  }
+  if (level === 'cities') {
+    const first = COUNTRY_START[countryIndex];
+    const items: string[] = [];
+    for (let i = 0; i < cityCount(countryIndex); i++) {
+      items.push(CITIES[first + i].name);
+    }
+    return {
+      title: 'Choose location — ' + COUNTRIES[countryIndex],
+      items,
+      selected,
+      hint: HINT,
+    };
+  }
+  return null;
+}
+
+/**
+ * Index into CITIES of the city closest to a position, or -1 if the list is empty.
+ */
+export function nearestCity(latDeg: number, lonDeg: number): number {
+  let best = -1;
+  let bestDist = Infinity;
+  for (let i = 0; i < CITIES.length; i++) {
+    const dist = Astro.angularDistanceAltAz(
+      latDeg * DEG, lonDeg * DEG, CITIES[i].lat * DEG, CITIES[i].lon * DEG
+    );
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = i;
+    }
+  }
+  return best;
+}
+
+function cityCount(country: number): number {
+  const end = country + 1 < COUNTRY_START.length ? COUNTRY_START[country + 1] : CITIES.length;
+  return end - COUNTRY_START[country];
+}
+
+function itemCount(): number {
+  if (level === 'countries') return COUNTRIES.length + (liveGpsOffered ? 1 : 0);
+  if (level === 'cities') return cityCount(countryIndex);
+  return 0;
+}
@@ -0,0 +1,247 @@
+// MagneticModel.ts — Magnetic declination from the World Magnetic Model (no Lens Studio dependencies)
+// WMM2025 coefficients (NOAA NCEI / BGS), degree and order 12, epoch 2025.0.
+// The model is specified for 2025.0–2030.0; later dates extrapolate the
+// secular variation, which typically adds a few tenths of a degree per year.
+// To update, replace WMM_EPOCH and the rows below with a newer WMM.COF.
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+const WMM_EPOCH = 2025.0;
+const WMM_VALID_YEARS = 5;
+const MAX_DEGREE = 12;
+
+/** Geomagnetic reference radius in km */
+const REFERENCE_RADIUS_KM = 6371.2;
+
+// WGS84 ellipsoid
+const WGS84_A_KM = 6378.137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_E2 = WGS84_F * (2 - WGS84_F);
+
+/**
+ * Gauss coefficients, Schmidt semi-normalized, in nT and nT/year:
+ * [n, m, g, h, gDot, hDot]
+ */
+const WMM_COEFFICIENTS: number[][] = [
+  [1, 0, -29351.8, 0.0, 12.0, 0.0],
+  [1, 1, -1410.8, 4545.4, 9.7, -21.5],
+  [2, 0, -2556.6, 0.0, -11.6, 0.0],
+  [2, 1, 2951.1, -3133.6, -5.2, -27.7],
+  [2, 2, 1649.3, -815.1, -8.0, -12.1],
+  [3, 0, 1361.0, 0.0, -1.3, 0.0],
+  [3, 1, -2404.1, -56.6, -4.2, 4.0],
+  [3, 2, 1243.8, 237.5, 0.4, -0.3],
+  [3, 3, 453.6, -549.5, -15.6, -4.1],
+  [4, 0, 895.0, 0.0, -1.6, 0.0],
+  [4, 1, 799.5, 278.6, -2.4, -1.1],
+  [4, 2, 55.7, -133.9, -6.0, 4.1],
+  [4, 3, -281.1, 212.0, 5.6, 1.6],
+  [4, 4, 12.1, -375.6, -7.0, -4.4],
+  [5, 0, -233.2, 0.0, 0.6, 0.0],
+  [5, 1, 368.9, 45.4, 1.4, -0.5],
+  [5, 2, 187.2, 220.2, 0.0, 2.2],
+  [5, 3, -138.7, -122.9, 0.6, 0.4],
+  [5, 4, -142.0, 43.0, 2.2, 1.7],
+  [5, 5, 20.9, 106.1, 0.9, 1.9],
+  [6, 0, 64.4, 0.0, -0.2, 0.0],
+  [6, 1, 63.8, -18.4, -0.4, 0.3],
+  [6, 2, 76.9, 16.8, 0.9, -1.6],
+  [6, 3, -115.7, 48.8, 1.2, -0.4],
+  [6, 4, -40.9, -59.8, -0.9, 0.9],
+  [6, 5, 14.9, 10.9, 0.3, 0.7],
+  [6, 6, -60.7, 72.7, 0.9, 0.9],
+  [7, 0, 79.5, 0.0, 0.0, 0.0],
+  [7, 1, -77.0, -48.9, -0.1, 0.6],
+  [7, 2, -8.8, -14.4, -0.1, 0.5],
+  [7, 3, 59.3, -1.0, 0.5, -0.8],
+  [7, 4, 15.8, 23.4, -0.1, 0.0],
+  [7, 5, 2.5, -7.4, -0.8, -1.0],
+  [7, 6, -11.1, -25.1, -0.8, 0.6],
+  [7, 7, 14.2, -2.3, 0.8, -0.2],
+  [8, 0, 23.2, 0.0, -0.1, 0.0],
+  [8, 1, 10.8, 7.1, 0.2, -0.2],
+  [8, 2, -17.5, -12.6, 0.0, 0.5],
+  [8, 3, 2.0, 11.4, 0.5, -0.4],
+  [8, 4, -21.7, -9.7, -0.1, 0.4],
+  [8, 5, 16.9, 12.7, 0.3, -0.5],
+  [8, 6, 15.0, 0.7, 0.2, -0.6],
+  [8, 7, -16.8, -5.2, 0.0, 0.3],
+  [8, 8, 0.9, 3.9, 0.2, 0.2],
+  [9, 0, 4.6, 0.0, 0.0, 0.0],
+  [9, 1, 7.8, -24.8, -0.1, -0.3],
+  [9, 2, 3.0, 12.2, 0.1, 0.3],
+  [9, 3, -0.2, 8.3, 0.3, -0.3],
+  [9, 4, -2.5, -3.3, -0.3, 0.3],
+  [9, 5, -13.1, -5.2, 0.0, 0.2],
+  [9, 6, 2.4, 7.2, 0.3, -0.1],
+  [9, 7, 8.6, -0.6, -0.1, -0.2],
+  [9, 8, -8.7, 0.8, 0.1, 0.4],
+  [9, 9, -12.9, 10.0, -0.1, 0.1],
+  [10, 0, -1.3, 0.0, 0.1, 0.0],
+  [10, 1, -6.4, 3.3, 0.0, 0.0],
+  [10, 2, 0.2, 0.0, 0.1, 0.0],
+  [10, 3, 2.0, 2.4, 0.1, -0.2],
+  [10, 4, -1.0, 5.3, 0.0, 0.1],
+  [10, 5, -0.6, -9.1, -0.3, -0.1],
+  [10, 6, -0.9, 0.4, 0.0, 0.1],
+  [10, 7, 1.5, -4.2, -0.1, 0.0],
+  [10, 8, 0.9, -3.8, -0.1, -0.1],
+  [10, 9, -2.7, 0.9, 0.0, 0.2],
+  [10, 10, -3.9, -9.1, 0.0, 0.0],
+  [11, 0, 2.9, 0.0, 0.0, 0.0],
+  [11, 1, -1.5, 0.0, 0.0, 0.0],
+  [11, 2, -2.5, 2.9, 0.0, 0.1],
+  [11, 3, 2.4, -0.6, 0.0, 0.0],
+  [11, 4, -0.6, 0.2, 0.0, 0.1],
+  [11, 5, -0.1, 0.5, -0.1, 0.0],
+  [11, 6, -0.6, -0.3, 0.0, 0.0],
+  [11, 7, -0.1, -1.2, 0.0, 0.1],
+  [11, 8, 1.1, -1.7, -0.1, 0.0],
+  [11, 9, -1.0, -2.9, -0.1, 0.0],
+  [11, 10, -0.2, -1.8, -0.1, 0.0],
+  [11, 11, 2.6, -2.3, -0.1, 0.0],
+  [12, 0, -2.0, 0.0, 0.0, 0.0],
+  [12, 1, -0.2, -1.3, 0.0, 0.0],
+  [12, 2, 0.3, 0.7, 0.0, 0.0],
+  [12, 3, 1.2, 1.0, 0.0, -0.1],
+  [12, 4, -1.3, -1.4, 0.0, 0.1],
+  [12, 5, 0.6, 0.0, 0.0, 0.0],
+  [12, 6, 0.6, 0.6, 0.1, 0.0],
+  [12, 7, 0.5, -0.1, 0.0, 0.0],
+  [12, 8, -0.1, 0.8, 0.0, 0.0],
+  [12, 9, -0.4, 0.1, 0.0, 0.0],
+  [12, 10, -0.2, -1.0, -0.1, 0.0],
+  [12, 11, -1.3, 0.1, 0.0, 0.0],
+  [12, 12, -0.7, 0.2, -0.1, -0.1],
+];
+
+/**
+ * Decimal year (e.g. 2024.37) for a time in ms since epoch.
+ */
+export function decimalYear(timeMs: number): number {
+  const date = new Date(timeMs);
+  const year = date.getUTCFullYear();
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+  return year + (timeMs - start) / (end - start);
+}
+
+/**
+ * Whether the embedded model covers the given decimal year without extrapolation.
+ */
+export function isWithinModelEpoch(year: number): boolean {
+  return year >= WMM_EPOCH && year <= WMM_EPOCH + WMM_VALID_YEARS;
+}
+
+/**
+ * Magnetic declination (angle from true north to magnetic north, east positive).
+ * @param latDeg — geodetic latitude in degrees
+ * @param lonDeg — longitude in degrees, east positive
+ * @param altitudeKm — height above the WGS84 ellipsoid in km
+ * @param year — decimal year
+ * @returns declination in degrees
+ */
+export function magneticDeclination(
+  latDeg: number,
+  lonDeg: number,
+  altitudeKm: number,
+  year: number
+): number {
+  const [x, y] = magneticFieldNorthEast(latDeg, lonDeg, altitudeKm, year);
+  return Math.atan2(y, x) * RAD_TO_DEG;
+}
+
+/**
+ * Horizontal field components in the geodetic frame.
+ * @returns [north, east] in nT
+ */
+function magneticFieldNorthEast(
+  latDeg: number,
+  lonDeg: number,
+  altitudeKm: number,
+  year: number
+): [number, number] {
+  const lat = latDeg * DEG_TO_RAD;
+  const lon = lonDeg * DEG_TO_RAD;
+  const dt = year - WMM_EPOCH;
+
+  // Geodetic -> geocentric spherical coordinates
+  const sinLat = Math.sin(lat);
+  const rc = WGS84_A_KM / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+  const p = (rc + altitudeKm) * Math.cos(lat);
+  const z = (rc * (1 - WGS84_E2) + altitudeKm) * sinLat;
+  const r = Math.sqrt(p * p + z * z);
+  const latGc = Math.asin(z / r);
+
+  // Colatitude for the Legendre functions; keep sin θ off zero at the poles
+  const cosT = Math.sin(latGc);
+  const sinT = Math.max(1e-10, Math.cos(latGc));
+
+  const [P, dP] = schmidtLegendre(cosT, sinT);
+
+  let bNorth = 0; // geocentric X'
+  let bEast = 0; // Y'
+  let bDown = 0; // Z'
+  const ratio = REFERENCE_RADIUS_KM / r;
+
+  for (const row of WMM_COEFFICIENTS) {
+    const n = row[0];
+    const m = row[1];
+    const g = row[2] + dt * row[4];
+    const h = row[3] + dt * row[5];
+    const k = n * (n + 1) / 2 + m;
+    const scale = Math.pow(ratio, n + 2);
+    const cosM = Math.cos(m * lon);
+    const sinM = Math.sin(m * lon);
+    const gh = g * cosM + h * sinM;
+
+    bNorth += scale * gh * dP[k];
+    bEast += scale * m * (g * sinM - h * cosM) * P[k] / sinT;
+    bDown -= scale * (n + 1) * gh * P[k];
+  }
+
+  // Rotate from geocentric to geodetic north
+  const psi = latGc - lat;
+  const north = bNorth * Math.cos(psi) - bDown * Math.sin(psi);
+  return [north, bEast];
+}
+
+/**
+ * Schmidt semi-normalized associated Legendre functions P(n, m) of cos θ and
+ * their derivatives with respect to colatitude θ, packed at n(n+1)/2 + m.
+ */
+function schmidtLegendre(cosT: number, sinT: number): [Float64Array, Float64Array] {
+  const size = (MAX_DEGREE + 1) * (MAX_DEGREE + 2) / 2;
+  const P = new Float64Array(size);
+  const dP = new Float64Array(size);
+  const at = (n: number, m: number) => n * (n + 1) / 2 + m;
+
+  P[0] = 1;
+  dP[0] = 0;
+  for (let n = 1; n <= MAX_DEGREE; n++) {
+    // Diagonal term
+    const diag = n === 1 ? 1 : Math.sqrt((2 * n - 1) / (2 * n));
+    const prev = at(n - 1, n - 1);
+    P[at(n, n)] = diag * sinT * P[prev];
+    dP[at(n, n)] = diag * (sinT * dP[prev] + cosT * P[prev]);
+
+    // Off-diagonal terms
+    for (let m = 0; m < n; m++) {
+      const a = at(n - 1, m);
+      const k = Math.sqrt(n * n - m * m);
+      let pn = (2 * n - 1) * cosT * P[a];
+      let dpn = (2 * n - 1) * (cosT * dP[a] - sinT * P[a]);
+      if (n - 2 >= m) {
+        const b = at(n - 2, m);
+        const c = Math.sqrt((n - 1) * (n - 1) - m * m);
+        pn -= c * P[b];
+        dpn -= c * dP[b];
+      }
+      P[at(n, m)] = pn / k;
+      dP[at(n, m)] = dpn / k;
+    }
+  }
+
+  return [P, dP];
+}
@@ -0,0 +1,313 @@
+// Settings.ts — Typed user settings with defaults, validation and persistence
+// Modules read values through get() each time they need them, so a change
+// made in the settings menu applies on the next frame. Saved as one JSON
+// string in Lens Studio's persistent storage; an in-memory store stands in
+// when that is unavailable (preview, headless scripts).
+
+import { SKY_CULTURES } from './ConstellationData';
+import { SettingKey, SkySettings } from './Types';
+
+const STORAGE_KEY = 'skyGuide.settings';
+
+/**
+ * The part of Lens Studio's GeneralDataStore that settings need.
+ */
+export interface SettingsStore {
+  has(key: string): boolean;
+  getString(key: string): string;
+  putString(key: string, value: string): void;
+}
+
+/**
+ * How a setting is shown and stepped in the settings menu. Numeric settings
+ * have a range and step, switches are on or off, the rest pick from a list
+ * of options.
+ */
+export interface SettingDefinition<K extends SettingKey = SettingKey> {
+  key: K;
+  label: string;
+  min?: number;
+  max?: number;
+  step?: number;
+  decimals?: number;
+  unit?: string;
+  options?: string[];
+  optionLabels?: string[];  // shown instead of the stored option values
+}
+
+// Named colors for lines and highlights (r, g, b)
+export const COLOR_PALETTE: { [name: string]: [number, number, number] } = {
+  Blue: [0.3, 0.5, 0.8],
+  Cyan: [0.4, 0.85, 1.0],
+  Teal: [0.3, 0.75, 0.65],
+  Green: [0.45, 0.85, 0.45],
+  Gold: [1.0, 0.8, 0.35],
+  Orange: [1.0, 0.55, 0.25],
+  Red: [0.9, 0.3, 0.3],
+  Magenta: [0.9, 0.45, 0.9],
+  White: [0.9, 0.9, 0.9],
+};
+const COLOR_NAMES = Object.keys(COLOR_PALETTE);
+
+export const DEFAULT_SETTINGS: SkySettings = {
+  sphereRadius: 500,
+  gazeThresholdDeg: 8,
+  gazeHoldDelay: 0.5,
+  panelDistance: 3.0,
+  headingSmoothing: 0.15,
+  lineColor: 'Blue',
+  highlightColor: 'Cyan',
+  skyCulture: 'western',
+  showBoundaries: false,
+  showEquatorialGrid: false,
+  showAltAzGrid: false,
+  showCelestialEquator: false,
+  showEcliptic: false,
+  showGalacticEquator: false,
+  showMeridian: false,
+  showHorizon: true,
+  starLabels: true,
+  constellationLabels: true,
+  labelBudget: 20,
+  magnitudeLimit: 6.5,
+  bortleClass: 'off',
+};
+
+// Menu order
+export const SETTING_DEFINITIONS: SettingDefinition[] = [
+  { key: 'sphereRadius', label: 'Sky sphere radius', min: 100, max: 1000, step: 50, decimals: 0 },
+  { key: 'gazeThresholdDeg', label: 'Constellation gaze radius', min: 2, max: 20, step: 1, decimals: 0, unit: '°' },
+  { key: 'gazeHoldDelay', label: 'Gaze hold time', min: 0, max: 2, step: 0.1, decimals: 1, unit: ' s' },
+  { key: 'panelDistance', label: 'Panel distance', min: 1, max: 20, step: 0.5, decimals: 1 },
+  { key: 'headingSmoothing', label: 'Compass response', min: 0.05, max: 1, step: 0.05, decimals: 2 },
+  { key: 'lineColor', label: 'Line color', options: COLOR_NAMES },
+  { key: 'highlightColor', label: 'Highlight color', options: COLOR_NAMES },
+  {
+    key: 'skyCulture', label: 'Sky culture',
+    options: SKY_CULTURES.map((c) => c.id), optionLabels: SKY_CULTURES.map((c) => c.name),
+  },
+  { key: 'showBoundaries', label: 'Constellation boundaries' },
+  { key: 'showEquatorialGrid', label: 'Equatorial grid' },
+  { key: 'showAltAzGrid', label: 'Alt-az grid' },
+  { key: 'showCelestialEquator', label: 'Celestial equator' },
+  { key: 'showEcliptic', label: 'Ecliptic' },
+  { key: 'showGalacticEquator', label: 'Galactic equator' },
+  { key: 'showMeridian', label: 'Meridian' },
+  { key: 'showHorizon', label: 'Horizon and compass points' },
+  { key: 'starLabels', label: 'Star names' },
+  { key: 'constellationLabels', label: 'Constellation names' },
+  { key: 'labelBudget', label: 'Most names shown', min: 0, max: 40, step: 5, decimals: 0 },
+  {
+    key: 'bortleClass', label: 'Light pollution (Bortle)',
+    options: ['off', '1', '2', '3', '4', '5', '6', '7', '8', '9'],
+    optionLabels: [
+      'Off', '1 — excellent dark site', '2 — typical dark site', '3 — rural sky',
+      '4 — rural / suburban', '5 — suburban', '6 — bright suburban',
+      '7 — suburban / urban', '8 — city', '9 — inner city',
+    ],
+  },
+  { key: 'magnitudeLimit', label: 'Faintest stars (without Bortle)', min: 2, max: 6.5, step: 0.5, decimals: 1, unit: ' mag' },
+];
+
+let store: SettingsStore | null = null;
+let values: SkySettings = Object.assign({}, DEFAULT_SETTINGS);
+const listeners: ((key: SettingKey) => void)[] = [];
+
+/**
+ * Lens Studio's persistent storage, or null when it is unavailable.
+ */
+export function createLensStore(): SettingsStore | null {
+  try {
+    return global.persistentStorageSystem.store;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * A store that keeps values for the current session only.
+ */
+export function createMemoryStore(): SettingsStore {
+  const data = new Map<string, string>();
+  return {
+    has: (key: string) => data.has(key),
+    getString: (key: string) => data.get(key) || '',
+    putString: (key: string, value: string) => { data.set(key, value); },
+  };
+}
+
+/**
+ * Load saved settings. Invalid or missing values fall back to their defaults.
+ * @param settingsStore — storage to use; Lens persistent storage by default
+ */
+export function init(settingsStore?: SettingsStore): void {
+  store = settingsStore || createLensStore();
+  if (!store) {
+    print('[SkyGuide] Persistent storage not available — settings last this session only');
+    store = createMemoryStore();
+  }
+
+  values = Object.assign({}, DEFAULT_SETTINGS);
+  let saved: { [key: string]: unknown } = {};
+  try {
+    if (store.has(STORAGE_KEY)) {
+      const parsed: unknown = JSON.parse(store.getString(STORAGE_KEY));
+      if (parsed && typeof parsed === 'object') {
+        saved = parsed as { [key: string]: unknown };
+      }
+    }
+  } catch (e) {
+    print('[SkyGuide] Could not read saved settings: ' + e);
+  }
+
+  for (const def of SETTING_DEFINITIONS) {
+    if (!(def.key in saved)) continue;
+    const value = validate(def, saved[def.key]);
+    if (value === null) {
+      print('[SkyGuide] Ignoring invalid saved setting ' + def.key);
+    } else {
+      setValue(def.key, value);
+    }
+  }
+}
+
+export function get<K extends SettingKey>(key: K): SkySettings[K] {
+  return values[key];
+}
+
+/**
+ * Change a setting. Numbers are clamped to the setting's range and snapped to
+ * its step; unknown options are rejected.
+ * @returns false if the value was rejected
+ */
+export function set<K extends SettingKey>(key: K, value: SkySettings[K]): boolean {
+  const def = getDefinition(key);
+  const checked = def ? validate(def, value) : null;
+  if (checked === null) {
+    print('[SkyGuide] Invalid value for setting ' + key + ': ' + value);
+    return false;
+  }
+  if (checked === values[key]) return true;
+
+  setValue(key, checked);
+  save();
+  for (const listener of listeners) {
+    listener(key);
+  }
+  return true;
+}
+
+/**
+ * Move a setting one step up or down (numbers), to the next / previous option,
+ * or flip a switch.
+ */
+export function step(key: SettingKey, direction: number): void {
+  const def = getDefinition(key);
+  if (!def) return;
+
+  if (isSwitch(def)) {
+    set(key, !values[key]);
+  } else if (def.options) {
+    const count = def.options.length;
+    const index = def.options.indexOf(String(values[key]));
+    set(key, def.options[((index + direction) % count + count) % count]);
+  } else {
+    set(key, Number(values[key]) + direction * (def.step || 1));
+  }
+}
+
+/**
+ * Put every setting back to its default.
+ */
+export function reset(): void {
+  for (const def of SETTING_DEFINITIONS) {
+    set(def.key, DEFAULT_SETTINGS[def.key]);
+  }
+}
+
+/**
+ * Call listener(key) after each change.
+ */
+export function onChange(listener: (key: SettingKey) => void): void {
+  listeners.push(listener);
+}
+
+export function getDefinition<K extends SettingKey>(key: K): SettingDefinition<K> | null {
+  for (const def of SETTING_DEFINITIONS) {
+    if (isDefinitionOf(def, key)) return def;
+  }
+  return null;
+}
+
+/**
+ * "8°", "0.5 s", "Blue", "On" — the current value as shown in the menu.
+ */
+export function formatValue(key: SettingKey): string {
+  const def = getDefinition(key);
+  const value = values[key];
+  if (typeof value === 'boolean') return value ? 'On' : 'Off';
+  if (def && def.options && def.optionLabels) {
+    const index = def.options.indexOf(value as string);
+    return index >= 0 ? def.optionLabels[index] : String(value);
+  }
+  if (!def || typeof value !== 'number') return String(value);
+  return value.toFixed(def.decimals || 0) + (def.unit || '');
+}
+
+/**
+ * RGB of a color setting.
+ */
+export function getColor(key: 'lineColor' | 'highlightColor'): [number, number, number] {
+  return COLOR_PALETTE[values[key]] || COLOR_PALETTE[DEFAULT_SETTINGS[key]];
+}
+
+function setValue<K extends SettingKey>(key: K, value: SkySettings[K]): void {
+  values[key] = value;
+}
+
+function save(): void {
+  if (!store) return;
+  try {
+    store.putString(STORAGE_KEY, JSON.stringify(values));
+  } catch (e) {
+    print('[SkyGuide] Could not save settings: ' + e);
+  }
+}
+
+/**
+ * The value to store for a setting, or null if it can't be used.
+ */
+function validate<K extends SettingKey>(def: SettingDefinition<K>, value: unknown): SkySettings[K] | null {
+  if (!isValueOf(def.key, value)) return null;
+  if (typeof value === 'boolean') return value;
+  if (def.options) {
+    return typeof value === 'string' && def.options.indexOf(value) >= 0 ? value : null;
+  }
+  if (typeof value !== 'number' || !isFinite(value)) return null;
+
+  const min = def.min !== undefined ? def.min : -Infinity;
+  const max = def.max !== undefined ? def.max : Infinity;
+  let v = Math.max(min, Math.min(max, value));
+  if (def.step && isFinite(min)) {
+    v = Math.min(max, min + Math.round((v - min) / def.step) * def.step);
+    // Undo float drift from the step arithmetic (0.1 + 0.2 ...)
+    v = parseFloat(v.toFixed(def.decimals !== undefined ? def.decimals + 2 : 6));
+  }
+  // Still a number, so this always holds; it gives v the setting's type
+  return isValueOf(def.key, v) ? v : null;
+}
+
+/**
+ * Whether value has the type of setting key (that of its default).
+ */
+function isValueOf<K extends SettingKey>(key: K, value: unknown): value is SkySettings[K] {
+  return typeof value === typeof DEFAULT_SETTINGS[key];
+}
+
+function isDefinitionOf<K extends SettingKey>(def: SettingDefinition, key: K): def is SettingDefinition<K> {
+  return def.key === key;
+}
+
+function isSwitch(def: SettingDefinition): boolean {
+  return typeof DEFAULT_SETTINGS[def.key] === 'boolean';
+}
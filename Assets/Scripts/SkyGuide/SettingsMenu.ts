@@ -0,0 +1,96 @@
+// SettingsMenu.ts — Hand-driven settings list
+// Grabs move through the settings; a right pinch starts editing the selected
+// one, grabs then change its value (saved and applied at once), and another
+// pinch finishes editing. Below the settings sit two actions: clearing the
+// star-alignment compass correction, and resetting every setting.
+
+import { MenuView } from './Types';
+import * as Calibration from './Calibration';
+import * as Settings from './Settings';
+
+const CALIBRATION_ITEM = 'Reset compass calibration';
+const RESET_ITEM = 'Reset to defaults';
+const BROWSE_HINT = 'Grab to scroll · Right pinch edits · Left pinch goes back';
+const EDIT_HINT = 'Grab to change (hold for fast) · Pinch when done';
+
+let visible = false;
+let editing = false;
+let selected = 0;
+
+export function open(): void {
+  visible = true;
+  editing = false;
+  selected = 0;
+}
+
+export function isOpen(): boolean {
+  return visible;
+}
+
+export function close(): void {
+  visible = false;
+  editing = false;
+}
+
+/**
+ * Scroll the list, or step the value being edited.
+ */
+export function move(step: number): void {
+  if (editing) {
+    Settings.step(Settings.SETTING_DEFINITIONS[selected].key, step);
+    return;
+  }
+  const count = Settings.SETTING_DEFINITIONS.length + 2;
+  selected = ((selected + step) % count + count) % count;
+}
+
+/**
+ * Start or finish editing the selected setting, or run the selected action.
+ */
+export function choose(): void {
+  if (selected === Settings.SETTING_DEFINITIONS.length) {
+    Calibration.reset();
+    print('[SkyGuide] Compass calibration reset');
+  } else if (selected === Settings.SETTING_DEFINITIONS.length + 1) {
+    Settings.reset();
+    print('[SkyGuide] Settings reset to defaults');
+  } else {
+    editing = !editing;
+  }
+}
+
+/**
+ * Finish editing, or leave the menu.
+ * @returns false when the menu was closed
+ */
+export function back(): boolean {
+  if (editing) {
+    editing = false;
+    return true;
+  }
+  close();
+  return false;
+}
+
+/**
+ * Current list for the info panel, or null when closed.
+ */
+export function getView(): MenuView | null {
+  if (!visible) return null;
+
+  const items: string[] = [];
+  for (let i = 0; i < Settings.SETTING_DEFINITIONS.length; i++) {
+    const def = Settings.SETTING_DEFINITIONS[i];
+    const value = Settings.formatValue(def.key);
+    items.push(def.label + ': ' + (editing && i === selected ? '◂ ' + value + ' ▸' : value));
+  }
+  items.push(CALIBRATION_ITEM + ' (' + Calibration.getHeadingOffsetDeg().toFixed(1) + '°)');
+  items.push(RESET_ITEM);
+
+  return {
+    title: editing ? 'Settings — editing' : 'Settings',
+    items,
+    selected,
+    hint: editing ? EDIT_HINT : BROWSE_HINT,
+  };
+}
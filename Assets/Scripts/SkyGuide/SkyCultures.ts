@@ -0,0 +1,75 @@
+// SkyCultures.ts — Active sky culture and its constellation figures
+// ConstellationData.ts holds the figures of every culture; the renderer, gaze
+// and info panel read the active culture's list from here.
+
+import { ALL_CONSTELLATIONS, SKY_CULTURES } from './ConstellationData';
+import { ConstellationRecord, SkyCultureRecord } from './Types';
+
+// IAU constellation names and boundaries come from the western culture
+const IAU_CULTURE = 'western';
+
+let activeCulture: SkyCultureRecord = SKY_CULTURES[0];
+let activeConstellations: ConstellationRecord[] = figuresOf(activeCulture.id);
+let maxRadius = largestRadius(activeConstellations);
+
+/**
+ * Figures of the active sky culture.
+ */
+export function getConstellations(): ConstellationRecord[] {
+  return activeConstellations;
+}
+
+export function getCulture(): SkyCultureRecord {
+  return activeCulture;
+}
+
+/**
+ * Switch culture. The caller rebuilds whatever depends on the figure list
+ * (line mesh, constellation index).
+ * @returns false if the culture id is unknown
+ */
+export function setCulture(id: string): boolean {
+  if (id === activeCulture.id) return true;
+  const culture = SKY_CULTURES.find((c) => c.id === id);
+  if (!culture) {
+    print('[SkyGuide] Unknown sky culture: ' + id);
+    return false;
+  }
+  activeCulture = culture;
+  activeConstellations = figuresOf(id);
+  maxRadius = largestRadius(activeConstellations);
+  print('[SkyGuide] Sky culture: ' + culture.name + ' (' + activeConstellations.length + ' figures)');
+  return true;
+}
+
+/**
+ * Largest angular radius (radians) among the active culture's figures.
+ */
+export function getMaxRadius(): number {
+  return maxRadius;
+}
+
+/**
+ * Whether the active culture's figures are the 88 IAU constellations.
+ */
+export function isIauCulture(): boolean {
+  return activeCulture.id === IAU_CULTURE;
+}
+
+/**
+ * IAU constellation for a catalog abbreviation (any case), whatever culture is active.
+ */
+export function findIauConstellation(abbr: string): ConstellationRecord | undefined {
+  const key = abbr.toLowerCase();
+  return ALL_CONSTELLATIONS.find((c) =>
+    c.culture === IAU_CULTURE && c.abbr.toLowerCase() === key
+  );
+}
+
+function figuresOf(cultureId: string): ConstellationRecord[] {
+  return ALL_CONSTELLATIONS.filter((c) => c.culture === cultureId);
+}
+
+function largestRadius(figures: ConstellationRecord[]): number {
+  return figures.reduce((max, c) => Math.max(max, c.radius), 0);
+}
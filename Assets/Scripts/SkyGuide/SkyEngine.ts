@@ -1,9 +1,19 @@
 // SkyEngine.ts — GPS/compass + star position computation
 // Manages observer state and computes star 3D positions each frame
 
-import { StarRecord, StarPosition3D, ObserverState } from './Types';
-import { STARS, HIP_TO_INDEX } from './StarData';
+import {
+  StarPositionBuffers, ObserverState, BodyEphemeris, BodyPosition3D,
+  RiseTransitSet, TwilightState, DeepSkyPosition3D, LocationSource, GridFrame,
+} from './Types';
+import { STAR_ARRAYS } from './StarData';
+import { DEEP_SKY_OBJECTS } from './DeepSkyData';
+import { BOUNDARY_DASHES } from './BoundaryData';
 import * as Astro from './AstroMath';
+import * as Ephemeris from './Ephemeris';
+import * as MagneticModel from './MagneticModel';
+import * as Settings from './Settings';
+import * as SkyCultures from './SkyCultures';
+import { SkyIndex, buildSkyIndex, queryCone } from './SkyIndex';
 
 // Observer state
 const observer: ObserverState = {
@@ -14,32 +24,317 @@ const observer: ObserverState = {
   timestamp: 0,
 };
 
-// Computed star positions in 3D
-let starPositions: StarPosition3D[] = [];
+// Computed star positions in 3D, rewritten in place every update
+const starPositions: StarPositionBuffers = {
+  count: STAR_ARRAYS.count,
+  xyz: new Float32Array(STAR_ARRAYS.count * 3),
+  alt: new Float32Array(STAR_ARRAYS.count),
+  az: new Float32Array(STAR_ARRAYS.count),
+  extinction: new Float32Array(STAR_ARRAYS.count),
+  version: 0,
+};
+
+// updateStarPositions() does nothing until the sky has turned this far or the
+// observer, sphere or atmosphere changed (~1", well below a pixel)
+const POSITION_UPDATE_MIN_TURN_RAD = 1 / 206265;
+let positionStateKey = '';
+let positionLst = NaN;
+
+// Apparent places (J2000 catalog -> true equator of date), refreshed per epoch
+// rather than per frame: they change by well under 1" per day.
+const APPARENT_PLACE_INTERVAL_DAYS = 1.0;
+const ZERO_VELOCITY: [number, number, number] = [0, 0, 0];
+const apparentRA = new Float64Array(STAR_ARRAYS.count);
+const apparentSinDec = new Float64Array(STAR_ARRAYS.count);
+const apparentCosDec = new Float64Array(STAR_ARRAYS.count);
+const dsoApparentRA = new Float64Array(DEEP_SKY_OBJECTS.length);
+const dsoApparentDec = new Float64Array(DEEP_SKY_OBJECTS.length);
+// Boundary overlay dash endpoints (two per dash, same order as BOUNDARY_DASHES)
+const boundaryApparentRA = new Float64Array(BOUNDARY_DASHES.length / 2);
+const boundaryApparentDec = new Float64Array(BOUNDARY_DASHES.length / 2);
+let apparentEpochJd = 0;
+let precessionNutation: Astro.Matrix3 = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+let earthVelocity: [number, number, number] = [0, 0, 0];
+
+// Spatial indexes over the J2000 catalog (built on first query)
+let starIndex: SkyIndex | null = null;
+let constellationIndex: SkyIndex | null = null;
+let constellationIndexCulture = ''; // culture the centroid index was built for
+let maxStarProperMotion = 0; // radians per year
+// Apparent places sit up to ~20.5" (annual aberration) from the rotated J2000
+// direction; the rest covers the refraction inverse not being exact
+const APPARENT_MARGIN_RAD = 60 / 206265;
+
+// Deep-sky object positions (same order as DEEP_SKY_OBJECTS)
+let deepSkyPositions: DeepSkyPosition3D[] = [];
+
+// Boundary dash endpoints on the sphere: x, y, z per endpoint (only while shown)
+const boundaryPositions = new Float32Array(BOUNDARY_DASHES.length / 2 * 3);
+
+// Sun geometric altitude drives the twilight state
+let sunAltitude = 0;
+const DEG = Math.PI / 180;
+
+// Solar System bodies (same order as Ephemeris.BODY_IDS)
+let bodyEphemerides: BodyEphemeris[] = [];
+let bodyPositions: BodyPosition3D[] = [];
 let initialized = false;
 let rawHeadingDeg = 0;
 
-const SPHERE_RADIUS = 500; // units — celestial sphere radius
+// Where the current observer location came from. A location chosen in the
+// picker stays in use until the user switches back to live GPS.
+let locationSource: LocationSource = 'default';
+let locationName = '';
+let locationTimeZone = ''; // IANA zone of a chosen or default place; '' = the device's
+let gpsAvailable = false;
+let lastGpsFix: number[] | null = null; // [lat°, lon°, elevation m]
+
+// Last good fix, restored when the location service is unavailable
+const LOCATION_STORAGE_KEY = 'skyGuide.lastLocation';
+const SAVE_DISTANCE_DEG = 0.01; // ~1 km; smaller GPS moves aren't re-saved
+const GPS_TIMEOUT_S = 15; // wait this long for a first fix before falling back
+
+// Used when there is neither GPS nor a saved fix
+const DEFAULT_LOCATION = {
+  name: 'Paris, France', lat: 48.8566, lon: 2.3522, elevation: 35, timeZone: 'Europe/Paris',
+};
+
+// Compass: the platform heading may be magnetic; true heading = magnetic + declination
+let headingIsTrueNorth = false;
+let magneticDeclinationDeg = 0;
+
+
+// Standard rise/set altitude for stars: 34' of horizon refraction
+const STAR_RISE_SET_ALTITUDE_RAD = -0.5667 * (Math.PI / 180);
+
+// Simulation clock — every module reads time through getSimTime()
+// Simulated time = real time + offset; the offset grows by (rate - 1) per real second.
+export const TIME_RATES: number[] = [-3600, -60, 0, 1, 60, 3600];
+let timeOffsetMs = 0;
+let timeRate = 1; // simulated seconds per real second
+
+// Atmosphere model (refraction + extinction)
+let temperatureC = 10;
+let pressureMbar = 1010;
+let extinctionCoefficient = 0.25; // magnitudes per airmass
 
 export function getObserver(): ObserverState {
   return observer;
 }
 
-export function getStarPositions(): StarPosition3D[] {
+/**
+ * Star positions as parallel arrays (see StarPositionBuffers). The arrays are
+ * reused: read them after updateStarPositions(), don't keep references to values.
+ */
+export function getStarPositions(): StarPositionBuffers {
   return starPositions;
 }
 
+export function getDeepSkyPositions(): DeepSkyPosition3D[] {
+  return deepSkyPositions;
+}
+
+/**
+ * Boundary dash endpoints as x, y, z triples, two endpoints per dash.
+ * Only kept up to date while the showBoundaries setting is on.
+ */
+export function getBoundaryPositions(): Float32Array {
+  return boundaryPositions;
+}
+
+export function getBodyEphemerides(): BodyEphemeris[] {
+  return bodyEphemerides;
+}
+
+export function getBodyPositions(): BodyPosition3D[] {
+  return bodyPositions;
+}
+
+/**
+ * Geometric altitude of the Sun's center in radians at the simulated time.
+ */
+export function getSunAltitude(): number {
+  return sunAltitude;
+}
+
+/**
+ * Civil / nautical / astronomical twilight classification from the Sun's altitude.
+ */
+export function getTwilightState(): TwilightState {
+  const h = sunAltitude;
+  if (h > -0.833 * DEG) return 'day';
+  if (h > -6 * DEG) return 'civil';
+  if (h > -12 * DEG) return 'nautical';
+  if (h > -18 * DEG) return 'astronomical';
+  return 'night';
+}
+
+/**
+ * Faintest magnitude visible against the current sky brightness.
+ */
+export function getTwilightLimitingMagnitude(): number {
+  return Astro.twilightLimitingMagnitude(sunAltitude);
+}
+
+/**
+ * Faintest magnitude to draw or target: the twilight limit, capped by the
+ * light-pollution (Bortle) class or, when that is off, the magnitude limit setting.
+ */
+export function getLimitingMagnitude(): number {
+  const bortle = Settings.get('bortleClass');
+  const skyLimit = bortle === 'off'
+    ? Settings.get('magnitudeLimit')
+    : Astro.bortleLimitingMagnitude(parseInt(bortle, 10));
+  return Math.min(getTwilightLimitingMagnitude(), skyLimit);
+}
+
+/**
+ * Sky darkness from 0 (Sun up) to 1 (nautical twilight or darker).
+ */
+export function getSkyDarkness(): number {
+  const t = (-0.833 * DEG - sunAltitude) / (11.167 * DEG);
+  return Math.max(0, Math.min(1, t));
+}
+
+/**
+ * Geometric Sun altitude at an arbitrary time for the current observer.
+ */
+function sunAltitudeAt(timeMs: number): number {
+  const jd = timeMs / 86400000 + 2440587.5;
+  const sun = Ephemeris.computeSun(jd);
+  const [ra, dec] = precessToDate(sun.ra, sun.dec);
+  const lst = Astro.localSiderealTime(Astro.gmst(jd), observer.longitude);
+  return Astro.equatorialToHorizontal(ra, dec, lst, observer.latitude)[0];
+}
+
+/**
+ * Next time (after the simulated time) the Sun crosses an altitude.
+ * @param altRad — altitude to cross, e.g. -18° for astronomical darkness
+ * @param descending — true for the evening crossing, false for the morning
+ * @returns ms since epoch, or NaN if there is no crossing within 36 hours
+ */
+export function findNextSunCrossing(altRad: number, descending: boolean): number {
+  const STEP_MS = 10 * 60 * 1000;
+  const SEARCH_MS = 36 * 3600 * 1000;
+  const start = getSimTime();
+
+  let t0 = start;
+  let a0 = sunAltitudeAt(t0) - altRad;
+  for (let t1 = start + STEP_MS; t1 <= start + SEARCH_MS; t1 += STEP_MS) {
+    const a1 = sunAltitudeAt(t1) - altRad;
+    const crossed = descending ? (a0 > 0 && a1 <= 0) : (a0 < 0 && a1 >= 0);
+    if (crossed) {
+      // Bisect down to a few seconds
+      let lo = t0, hi = t1, aLo = a0;
+      for (let i = 0; i < 8; i++) {
+        const mid = (lo + hi) / 2;
+        const aMid = sunAltitudeAt(mid) - altRad;
+        if ((aMid > 0) === (aLo > 0)) {
+          lo = mid;
+          aLo = aMid;
+        } else {
+          hi = mid;
+        }
+      }
+      return (lo + hi) / 2;
+    }
+    t0 = t1;
+    a0 = a1;
+  }
+  return NaN;
+}
+
+/**
+ * Look up the latest ephemeris for a body by id (e.g. "mars").
+ */
+export function getBodyEphemeris(id: string): BodyEphemeris | null {
+  for (const b of bodyEphemerides) {
+    if (b.id === id) return b;
+  }
+  return null;
+}
+
 export function isInitialized(): boolean {
   return initialized;
 }
 
+/**
+ * Celestial sphere radius in scene units (sphereRadius setting).
+ */
 export function getSphereRadius(): number {
-  return SPHERE_RADIUS;
+  return Settings.get('sphereRadius');
+}
+
+/**
+ * Advance the simulation clock by one frame. Call once per frame.
+ */
+export function advanceClock(deltaTime: number): void {
+  if (timeRate !== 1) {
+    timeOffsetMs += (timeRate - 1) * deltaTime * 1000;
+  }
+}
+
+/**
+ * Current simulated time in ms since epoch.
+ */
+export function getSimTime(): number {
+  return Date.now() + timeOffsetMs;
+}
+
+/**
+ * Current simulated time as a Date.
+ */
+export function getSimDate(): Date {
+  return new Date(getSimTime());
+}
+
+export function getTimeRate(): number {
+  return timeRate;
+}
+
+/**
+ * Set the clock rate (0 = paused, 1 = real time, negative = rewind).
+ */
+export function setTimeRate(rate: number): void {
+  timeRate = rate;
+}
+
+/**
+ * Move to the next faster (+1) or slower (-1) entry in TIME_RATES.
+ */
+export function stepTimeRate(direction: number): void {
+  let idx = TIME_RATES.indexOf(timeRate);
+  if (idx < 0) idx = TIME_RATES.indexOf(1);
+  idx = Math.max(0, Math.min(TIME_RATES.length - 1, idx + direction));
+  timeRate = TIME_RATES[idx];
+}
+
+/**
+ * Jump the simulated time forward (positive) or backward (negative).
+ */
+export function scrubTime(deltaMs: number): void {
+  timeOffsetMs += deltaMs;
+}
+
+/**
+ * Return to the live sky: real time at 1x.
+ */
+export function resetClock(): void {
+  timeOffsetMs = 0;
+  timeRate = 1;
+}
+
+/**
+ * Whether the clock is running at real time with no offset.
+ */
+export function isClockLive(): boolean {
+  return timeRate === 1 && Math.abs(timeOffsetMs) < 1000;
 }
 
 /**
  * Initialize location services.
  * Must be called from onAwake/onStart of the main @component.
+ * Without a GPS fix the last saved location is used, then DEFAULT_LOCATION.
  */
 export function initLocation(scriptComponent: BaseScriptComponent): void {
   // Request GPS position
@@ -55,8 +350,8 @@ export function initLocation(scriptComponent: BaseScriptComponent): void {
           // Smooth heading to reduce jitter
           observer.headingDeg = Astro.smoothHeading(
             observer.headingDeg,
-            rawHeadingDeg,
-            0.15
+            rawHeadingDeg + getAppliedDeclinationDeg(),
+            Settings.get('headingSmoothing')
           );
         }
       );
@@ -65,17 +360,13 @@ export function initLocation(scriptComponent: BaseScriptComponent): void {
       const pollGPS = () => {
         locationService.getCurrentPosition(
           (pos: GeoPosition) => {
-            observer.latitude = pos.latitude * (Math.PI / 180);
-            observer.longitude = pos.longitude * (Math.PI / 180);
-            observer.timestamp = Date.now();
-            if (!initialized) {
-              initialized = true;
-              print('[SkyGuide] GPS lock acquired: lat=' +
-                pos.latitude.toFixed(4) + ' lon=' + pos.longitude.toFixed(4));
-            }
+            onGpsFix(pos.latitude, pos.longitude, pos.altitude || 0);
           },
           (error: string) => {
             print('[SkyGuide] GPS error: ' + error);
+            if (!initialized) {
+              useFallbackLocation();
+            }
           }
         );
       };
@@ -84,8 +375,16 @@ export function initLocation(scriptComponent: BaseScriptComponent): void {
       pollGPS();
       const gpsTimer = scriptComponent.createEvent('UpdateEvent');
       let gpsCooldown = 0;
+      let gpsWait = 0;
       gpsTimer.bind((ev: UpdateEvent) => {
         gpsCooldown += ev.getDeltaTime();
+        if (!initialized) {
+          gpsWait += ev.getDeltaTime();
+          if (gpsWait >= GPS_TIMEOUT_S) {
+            print('[SkyGuide] No GPS fix after ' + GPS_TIMEOUT_S + ' s');
+            useFallbackLocation();
+          }
+        }
         if (gpsCooldown >= 10.0) {
           gpsCooldown = 0;
           pollGPS();
@@ -94,66 +393,549 @@ export function initLocation(scriptComponent: BaseScriptComponent): void {
     }
   } catch (e) {
     print('[SkyGuide] LocationService not available: ' + e);
-    print('[SkyGuide] Using fallback location (Paris, France)');
-    // Fallback for preview mode
-    observer.latitude = 48.8566 * (Math.PI / 180);
-    observer.longitude = 2.3522 * (Math.PI / 180);
-    observer.headingDeg = 0;
-    initialized = true;
+    useFallbackLocation();
   }
 }
 
 /**
- * Set observer position manually (for testing or fallback).
+ * Apply a GPS fix unless the user has picked a location by hand.
  */
-export function setObserverLocation(
+function onGpsFix(latDeg: number, lonDeg: number, elevationM: number): void {
+  const first = !gpsAvailable;
+  gpsAvailable = true;
+  lastGpsFix = [latDeg, lonDeg, elevationM];
+  if (first) {
+    print('[SkyGuide] GPS lock acquired: lat=' +
+      latDeg.toFixed(4) + ' lon=' + lonDeg.toFixed(4));
+  }
+  if (locationSource === 'manual') return;
+
+  const moved = locationSource !== 'gps' ||
+    Math.abs(latDeg - observer.latitude * (180 / Math.PI)) > SAVE_DISTANCE_DEG ||
+    Math.abs(lonDeg - observer.longitude * (180 / Math.PI)) > SAVE_DISTANCE_DEG;
+  applyLocation(latDeg, lonDeg, elevationM, 'gps', '', '');
+  if (moved) {
+    saveLocation(latDeg, lonDeg, elevationM, '', '');
+  }
+}
+
+/**
+ * No GPS: restore the last good fix, or fall back to DEFAULT_LOCATION.
+ */
+function useFallbackLocation(): void {
+  const saved = loadLocation();
+  if (saved) {
+    print('[SkyGuide] Using last saved location' +
+      (saved.name ? ' (' + saved.name + ')' : ''));
+    applyLocation(saved.lat, saved.lon, saved.elevation, 'saved', saved.name, saved.timeZone);
+  } else {
+    print('[SkyGuide] Using fallback location (' + DEFAULT_LOCATION.name + ')');
+    applyLocation(DEFAULT_LOCATION.lat, DEFAULT_LOCATION.lon, DEFAULT_LOCATION.elevation,
+      'default', DEFAULT_LOCATION.name, DEFAULT_LOCATION.timeZone);
+  }
+}
+
+function applyLocation(
   latDeg: number,
-  lonDeg: number
+  lonDeg: number,
+  elevationM: number,
+  source: LocationSource,
+  name: string,
+  timeZone: string
 ): void {
   observer.latitude = latDeg * (Math.PI / 180);
   observer.longitude = lonDeg * (Math.PI / 180);
+  observer.timestamp = Date.now();
+  updateDeclination(latDeg, lonDeg, elevationM / 1000);
+  locationSource = source;
+  locationName = name;
+  locationTimeZone = timeZone;
   initialized = true;
 }
 
 /**
- * Recompute all star 3D positions from current observer state + time.
- * Call this every frame or every few frames.
+ * Set observer position manually (location picker, testing).
+ * GPS fixes are ignored until useLiveGps() is called.
+ * @param name — place name shown in the UI, or empty for coordinates
+ * @param elevationM — height above sea level in metres
+ * @param timeZone — IANA time zone for the panel's times, or empty for the device's
+ */
+export function setObserverLocation(
+  latDeg: number,
+  lonDeg: number,
+  name: string = '',
+  elevationM: number = 0,
+  timeZone: string = ''
+): void {
+  applyLocation(latDeg, lonDeg, elevationM, 'manual', name, timeZone);
+  saveLocation(latDeg, lonDeg, elevationM, name, timeZone);
+  print('[SkyGuide] Location set to ' + (name || latDeg.toFixed(4) + ', ' + lonDeg.toFixed(4)));
+}
+
+/**
+ * Go back to following GPS after a manual location.
+ * @returns false if no GPS fix has been received this session
+ */
+export function useLiveGps(): boolean {
+  if (!lastGpsFix) return false;
+  locationSource = 'gps';
+  onGpsFix(lastGpsFix[0], lastGpsFix[1], lastGpsFix[2]);
+  return true;
+}
+
+export function getLocationSource(): LocationSource {
+  return locationSource;
+}
+
+/**
+ * Place name for the current location, or empty when only coordinates are known.
+ */
+export function getLocationName(): string {
+  return locationName;
+}
+
+/**
+ * IANA time zone of the current location (e.g. "Asia/Tokyo"), or empty when
+ * it is a GPS fix and the device's own zone applies.
+ */
+export function getLocationTimeZone(): string {
+  return locationTimeZone;
+}
+
+/**
+ * Whether the location service has delivered a fix this session.
+ */
+export function isGpsAvailable(): boolean {
+  return gpsAvailable;
+}
+
+function saveLocation(
+  latDeg: number,
+  lonDeg: number,
+  elevationM: number,
+  name: string,
+  timeZone: string
+): void {
+  try {
+    global.persistentStorageSystem.store.putString(LOCATION_STORAGE_KEY,
+      JSON.stringify({ lat: latDeg, lon: lonDeg, elevation: elevationM, name, timeZone }));
+  } catch (e) {
+    print('[SkyGuide] Could not save location: ' + e);
+  }
+}
+
+function loadLocation(): {
+  lat: number; lon: number; elevation: number; name: string; timeZone: string;
+} | null {
+  try {
+    const store = global.persistentStorageSystem.store;
+    if (!store.has(LOCATION_STORAGE_KEY)) return null;
+    const saved = JSON.parse(store.getString(LOCATION_STORAGE_KEY));
+    if (typeof saved.lat !== 'number' || typeof saved.lon !== 'number') return null;
+    return {
+      lat: saved.lat,
+      lon: saved.lon,
+      elevation: typeof saved.elevation === 'number' ? saved.elevation : 0,
+      name: typeof saved.name === 'string' ? saved.name : '',
+      timeZone: typeof saved.timeZone === 'string' ? saved.timeZone : '',
+    };
+  } catch (e) {
+    print('[SkyGuide] Could not read saved location: ' + e);
+    return null;
+  }
+}
+
+/**
+ * Tell the engine whether GeoLocation headings are already relative to true north.
+ * When false, the WMM declination for the current fix is added to each heading.
+ */
+export function setHeadingIsTrueNorth(isTrueNorth: boolean): void {
+  headingIsTrueNorth = isTrueNorth;
+}
+
+/**
+ * Magnetic declination at the current fix, degrees east of true north.
+ */
+export function getMagneticDeclinationDeg(): number {
+  return magneticDeclinationDeg;
+}
+
+/**
+ * Declination actually added to the compass heading (0 if headings are true-north).
+ */
+export function getAppliedDeclinationDeg(): number {
+  return headingIsTrueNorth ? 0 : magneticDeclinationDeg;
+}
+
+/**
+ * Unsmoothed platform heading from the last compass update, in degrees.
+ */
+export function getRawHeadingDeg(): number {
+  return rawHeadingDeg;
+}
+
+/**
+ * Recompute the magnetic declination for a GPS fix (at the real date, not the
+ * simulated one — the compass measures today's field).
+ */
+function updateDeclination(latDeg: number, lonDeg: number, altitudeKm: number): void {
+  const year = MagneticModel.decimalYear(Date.now());
+  const declination = MagneticModel.magneticDeclination(latDeg, lonDeg, altitudeKm, year);
+  if (Math.abs(declination - magneticDeclinationDeg) > 0.1) {
+    print('[SkyGuide] Magnetic declination: ' + declination.toFixed(1) + '°' +
+      (MagneticModel.isWithinModelEpoch(year) ? '' : ' (extrapolated beyond the WMM epoch)'));
+  }
+  magneticDeclinationDeg = declination;
+}
+
+/**
+ * Set the atmosphere used for refraction and extinction.
+ * @param tempC — air temperature in °C
+ * @param pressure — air pressure in millibars
+ * @param extinctionK — extinction coefficient in magnitudes per airmass
+ */
+export function setAtmosphere(
+  tempC: number,
+  pressure: number,
+  extinctionK: number
+): void {
+  temperatureC = tempC;
+  pressureMbar = pressure;
+  extinctionCoefficient = extinctionK;
+}
+
+/**
+ * Lift a true (geometric) altitude to the apparent altitude seen through the atmosphere.
+ */
+export function refractAltitude(altRad: number): number {
+  return altRad + Astro.refractionFromTrue(altRad, temperatureC, pressureMbar);
+}
+
+/**
+ * Rise, transit and set times of a J2000 position for the current observer,
+ * relative to the simulated time.
+ */
+export function computeRiseTransitSet(
+  raRad: number,
+  decRad: number
+): RiseTransitSet {
+  const [ra, dec] = precessToDate(raRad, decRad);
+  return Astro.riseTransitSet(
+    ra, dec, observer.latitude, observer.longitude,
+    getSimTime(), STAR_RISE_SET_ALTITUDE_RAD
+  );
+}
+
+/**
+ * Rotate a J2000 direction to the true equator and equinox of date.
+ * Uses the precession-nutation matrix from the last apparent-place refresh.
+ * @returns [raRad, decRad] of date
+ */
+export function precessToDate(raRad: number, decRad: number): [number, number] {
+  return Astro.apparentPlace(
+    raRad, decRad, 0, 0, 0, precessionNutation, ZERO_VELOCITY
+  );
+}
+
+/**
+ * Indices into STARS (and STAR_ARRAYS) that may lie within radiusRad of an
+ * apparent (refracted) horizontal direction. Candidates come from the spatial
+ * index with a margin for aberration and proper motion; callers still test the
+ * exact positions.
+ * @param out — reused result array (cleared first)
+ * @returns number of candidates
+ */
+export function queryStarsNear(
+  altRad: number,
+  azRad: number,
+  radiusRad: number,
+  out: number[]
+): number {
+  if (!starIndex) {
+    starIndex = buildSkyIndex(STAR_ARRAYS.ra, STAR_ARRAYS.dec);
+    for (let i = 0; i < STAR_ARRAYS.count; i++) {
+      const pmRA = STAR_ARRAYS.pmRA[i], pmDec = STAR_ARRAYS.pmDec[i];
+      maxStarProperMotion = Math.max(maxStarProperMotion, Math.sqrt(pmRA * pmRA + pmDec * pmDec));
+    }
+  }
+  const years = apparentEpochJd > 0
+    ? Math.abs(apparentEpochJd - 2451545.0) / 365.25
+    : 0;
+  const margin = APPARENT_MARGIN_RAD + maxStarProperMotion * years +
+    refractionSpread(altRad, radiusRad);
+  const [x, y, z] = horizontalToCatalog(altRad, azRad);
+  return queryCone(starIndex, x, y, z, radiusRad + margin, out);
+}
+
+/**
+ * Indices into SkyCultures.getConstellations() whose centroid may lie within
+ * radiusRad of an apparent horizontal direction (same margin rules as queryStarsNear).
+ * The index is rebuilt after a sky culture switch.
+ */
+export function queryConstellationsNear(
+  altRad: number,
+  azRad: number,
+  radiusRad: number,
+  out: number[]
+): number {
+  const culture = SkyCultures.getCulture().id;
+  if (!constellationIndex || constellationIndexCulture !== culture) {
+    const constellations = SkyCultures.getConstellations();
+    constellationIndex = buildSkyIndex(
+      constellations.map((c) => c.centroidRA),
+      constellations.map((c) => c.centroidDec)
+    );
+    constellationIndexCulture = culture;
+  }
+  const [x, y, z] = horizontalToCatalog(altRad, azRad);
+  return queryCone(
+    constellationIndex, x, y, z,
+    radiusRad + APPARENT_MARGIN_RAD + refractionSpread(altRad, radiusRad), out
+  );
+}
+
+/**
+ * How much refraction can stretch a cone of apparent radius radiusRad in the
+ * true sky: the refraction difference between its lowest and highest points.
+ */
+function refractionSpread(altRad: number, radiusRad: number): number {
+  return Astro.refractionFromApparent(altRad - radiusRad, temperatureC, pressureMbar) -
+    Astro.refractionFromApparent(altRad + radiusRad, temperatureC, pressureMbar);
+}
+
+/**
+ * J2000 unit vector for an apparent horizontal direction: undo refraction,
+ * rotate to equatorial of date, then back through the precession-nutation matrix.
+ */
+function horizontalToCatalog(altRad: number, azRad: number): [number, number, number] {
+  const trueAlt = altRad -
+    Astro.refractionFromApparent(altRad, temperatureC, pressureMbar);
+  const [ra, dec] = Astro.horizontalToEquatorial(
+    trueAlt, azRad, observer.lstRadians, observer.latitude
+  );
+  const [vx, vy, vz] = Astro.equatorialToVector(ra, dec);
+  // Transpose (= inverse) of the rotation from J2000 to date
+  const m = precessionNutation;
+  return [
+    m[0] * vx + m[3] * vy + m[6] * vz,
+    m[1] * vx + m[4] * vy + m[7] * vz,
+    m[2] * vx + m[5] * vy + m[8] * vz,
+  ];
+}
+
+/**
+ * Sphere position of a grid or overlay point, in the same frame and at the same
+ * radius as the stars. Equatorial points are refracted like the stars;
+ * horizontal points are taken as apparent altitude.
+ * @param frame — see GridFrame (lon = azimuth or RA, lat = altitude or Dec)
+ * @returns [x, y, z]
+ */
+export function projectToSphere(
+  lonRad: number,
+  latRad: number,
+  frame: GridFrame
+): [number, number, number] {
+  const radius = getSphereRadius();
+  if (frame === 'horizontal') {
+    return Astro.horizontalToCartesian(latRad, lonRad, radius);
+  }
+
+  let ra = lonRad, dec = latRad;
+  if (frame === 'j2000') {
+    [ra, dec] = precessToDate(lonRad, latRad);
+  }
+  const [trueAlt, az] = Astro.equatorialToHorizontal(
+    ra, dec, observer.lstRadians, observer.latitude
+  );
+  return Astro.horizontalToCartesian(refractAltitude(trueAlt), az, radius);
+}
+
+/**
+ * J2000 RA/Dec for an apparent horizontal direction (e.g. the gaze).
+ * Ignores aberration (≤ 20.5"), which is fine for "what constellation is this".
+ * @returns [raRad, decRad]
+ */
+export function horizontalToJ2000(altRad: number, azRad: number): [number, number] {
+  const [x, y, z] = horizontalToCatalog(altRad, azRad);
+  return Astro.vectorToEquatorial(x, y, z);
+}
+
+/**
+ * Recompute apparent places for every catalog star, deep-sky object and boundary
+ * dash at the given epoch: proper motion, annual aberration, precession and nutation.
+ */
+function refreshApparentPlaces(jd: number): void {
+  precessionNutation = Astro.precessionNutationMatrix(jd);
+  earthVelocity = Ephemeris.earthVelocity(jd);
+  const years = (jd - 2451545.0) / 365.25;
+
+  const stars = STAR_ARRAYS;
+  for (let i = 0; i < stars.count; i++) {
+    const [ra, dec] = Astro.apparentPlace(
+      stars.ra[i], stars.dec[i], stars.pmRA[i], stars.pmDec[i],
+      years, precessionNutation, earthVelocity
+    );
+    apparentRA[i] = ra;
+    apparentSinDec[i] = Math.sin(dec);
+    apparentCosDec[i] = Math.cos(dec);
+  }
+
+  for (let i = 0; i < DEEP_SKY_OBJECTS.length; i++) {
+    const dso = DEEP_SKY_OBJECTS[i];
+    const [ra, dec] = Astro.apparentPlace(
+      dso.ra, dso.dec, 0, 0, years, precessionNutation, earthVelocity
+    );
+    dsoApparentRA[i] = ra;
+    dsoApparentDec[i] = dec;
+  }
+
+  for (let i = 0; i < boundaryApparentRA.length; i++) {
+    const [ra, dec] = Astro.apparentPlace(
+      BOUNDARY_DASHES[i * 2], BOUNDARY_DASHES[i * 2 + 1], 0, 0,
+      years, precessionNutation, earthVelocity
+    );
+    boundaryApparentRA[i] = ra;
+    boundaryApparentDec[i] = dec;
+  }
+  apparentEpochJd = jd;
+}
+
+/**
+ * Recompute all star, deep-sky and Solar System body 3D positions from current observer state + time.
+ * Call this every frame or every few frames; it returns early while nothing has
+ * visibly moved (e.g. with the clock paused).
  */
 export function updateStarPositions(): void {
   if (!initialized) return;
 
-  const now = new Date();
-  const jd = Astro.julianDate(now);
+  const jd = Astro.julianDate(getSimDate());
   const gmstRad = Astro.gmst(jd);
   const lstRad = Astro.localSiderealTime(gmstRad, observer.longitude);
   observer.lstRadians = lstRad;
 
-  // Allocate array on first call
-  if (starPositions.length !== STARS.length) {
-    starPositions = new Array(STARS.length);
-    for (let i = 0; i < STARS.length; i++) {
-      starPositions[i] = {
-        hip: 0, x: 0, y: 0, z: 0, mag: 0, bv: 0, name: '',
-      };
-    }
+  if (apparentEpochJd === 0 ||
+    Math.abs(jd - apparentEpochJd) >= APPARENT_PLACE_INTERVAL_DAYS) {
+    refreshApparentPlaces(jd);
   }
 
   const lat = observer.latitude;
+  const radius = getSphereRadius();
+
+  const stateKey = lat + '|' + observer.longitude + '|' + radius + '|' + temperatureC + '|' +
+    pressureMbar + '|' + extinctionCoefficient + '|' + apparentEpochJd + '|' +
+    Settings.get('showBoundaries');
+  const turn = Math.abs(lstRad - positionLst) % (2 * Math.PI);
+  if (stateKey === positionStateKey &&
+    Math.min(turn, 2 * Math.PI - turn) < POSITION_UPDATE_MIN_TURN_RAD) {
+    return;
+  }
+  positionStateKey = stateKey;
+  positionLst = lstRad;
 
-  for (let i = 0; i < STARS.length; i++) {
-    const star = STARS[i];
-    const [alt, az] = Astro.equatorialToHorizontal(
-      star.ra, star.dec, lstRad, lat
+  // Allocation-free: the transform writes true altitudes and azimuths straight
+  // into the buffers, then refraction, extinction and x, y, z are filled in place
+  const sp = starPositions;
+  Astro.equatorialToHorizontalArrays(
+    apparentRA, apparentSinDec, apparentCosDec, sp.count, lstRad, lat, sp.alt, sp.az
+  );
+  for (let i = 0; i < sp.count; i++) {
+    const alt = refractAltitude(sp.alt[i]);
+    const az = sp.az[i];
+    const cosAlt = Math.cos(alt);
+    sp.alt[i] = alt;
+    sp.xyz[i * 3] = radius * cosAlt * Math.sin(az);
+    sp.xyz[i * 3 + 1] = radius * Math.sin(alt);
+    sp.xyz[i * 3 + 2] = -radius * cosAlt * Math.cos(az);
+    sp.extinction[i] = Astro.extinction(alt, extinctionCoefficient);
+  }
+  sp.version++;
+
+  updateDeepSkyPositions(lstRad, lat);
+  if (Settings.get('showBoundaries')) {
+    updateBoundaryPositions(lstRad, lat);
+  }
+  updateBodyPositions(jd, lstRad, lat);
+}
+
+/**
+ * Recompute deep-sky object positions from their cached apparent places.
+ */
+function updateDeepSkyPositions(lstRad: number, lat: number): void {
+  if (deepSkyPositions.length !== DEEP_SKY_OBJECTS.length) {
+    deepSkyPositions = DEEP_SKY_OBJECTS.map((d) => ({
+      id: d.id, x: 0, y: 0, z: 0, alt: 0, az: 0,
+    }));
+  }
+  const radius = getSphereRadius();
+
+  for (let i = 0; i < DEEP_SKY_OBJECTS.length; i++) {
+    const [trueAlt, az] = Astro.equatorialToHorizontal(
+      dsoApparentRA[i], dsoApparentDec[i], lstRad, lat
     );
-    const [x, y, z] = Astro.horizontalToCartesian(alt, az, SPHERE_RADIUS);
-
-    const sp = starPositions[i];
-    sp.hip = star.hip;
-    sp.x = x;
-    sp.y = y;
-    sp.z = z;
-    sp.mag = star.mag;
-    sp.bv = star.bv;
-    sp.name = star.name;
+    const alt = refractAltitude(trueAlt);
+    const [x, y, z] = Astro.horizontalToCartesian(alt, az, radius);
+
+    const dp = deepSkyPositions[i];
+    dp.x = x;
+    dp.y = y;
+    dp.z = z;
+    dp.alt = alt;
+    dp.az = az;
+  }
+}
+
+/**
+ * Recompute the boundary dash endpoints from their cached apparent places.
+ */
+function updateBoundaryPositions(lstRad: number, lat: number): void {
+  const radius = getSphereRadius();
+
+  for (let i = 0; i < boundaryApparentRA.length; i++) {
+    const [trueAlt, az] = Astro.equatorialToHorizontal(
+      boundaryApparentRA[i], boundaryApparentDec[i], lstRad, lat
+    );
+    const [x, y, z] = Astro.horizontalToCartesian(refractAltitude(trueAlt), az, radius);
+    boundaryPositions[i * 3] = x;
+    boundaryPositions[i * 3 + 1] = y;
+    boundaryPositions[i * 3 + 2] = z;
+  }
+}
+
+/**
+ * Recompute Sun, Moon and planet positions for the given Julian date.
+ */
+function updateBodyPositions(jd: number, lstRad: number, lat: number): void {
+  bodyEphemerides = Ephemeris.computeAllBodies(jd);
+
+  if (bodyPositions.length !== bodyEphemerides.length) {
+    bodyPositions = bodyEphemerides.map((b) => ({
+      id: b.id, x: 0, y: 0, z: 0, alt: 0, az: 0, mag: 0, extinction: 0,
+    }));
+  }
+  const radius = getSphereRadius();
+
+  for (let i = 0; i < bodyEphemerides.length; i++) {
+    const body = bodyEphemerides[i];
+    const [ra, dec] = Astro.apparentPlace(
+      body.ra, body.dec, 0, 0, 0, precessionNutation, earthVelocity
+    );
+    let [alt, az] = Astro.equatorialToHorizontal(ra, dec, lstRad, lat);
+    if (body.id === 'sun') {
+      sunAltitude = alt;
+    }
+    // Topocentric correction — only the Moon is close enough to matter
+    alt -= Ephemeris.parallaxInAltitude(alt, body.distanceAU);
+    alt = refractAltitude(alt);
+    const [x, y, z] = Astro.horizontalToCartesian(alt, az, radius);
+
+    const bp = bodyPositions[i];
+    bp.id = body.id;
+    bp.x = x;
+    bp.y = y;
+    bp.z = z;
+    bp.alt = alt;
+    bp.az = az;
+    bp.mag = body.mag;
+    bp.extinction = Astro.extinction(alt, extinctionCoefficient);
   }
 }
@@ -8,6 +8,12 @@ import * as Engine from './SkyEngine';
 import * as Renderer from './SkyRenderer';
 import * as Interaction from './GazeAndHandController';
 import * as Panel from './InfoPanel';
+import * as Labels from './LabelLayer';
+import * as Calibration from './Calibration';
+import * as Settings from './Settings';
+import * as SkyCultures from './SkyCultures';
+import * as TextLabels from './TextLabels';
+import { CalibrationEvent, LocationSource, MenuView, Selection, TwilightState } from './Types';
 
 @component
 export class SkyGuideMain extends BaseScriptComponent {
@@ -22,6 +28,11 @@ export class SkyGuideMain extends BaseScriptComponent {
   @ui.label('Constellation Lines Object')
   constellationLinesObject: SceneObject;
 
+  @input('SceneObject')
+  @allowUndefined
+  @ui.label('Grid Lines Object (optional)')
+  gridLinesObject: SceneObject;
+
   @input('SceneObject')
   @ui.label('Info Panel Root')
   infoPanelRoot: SceneObject;
@@ -42,6 +53,11 @@ export class SkyGuideMain extends BaseScriptComponent {
   @ui.label('Camera')
   camera: SceneObject;
 
+  @input('SceneObject')
+  @allowUndefined
+  @ui.label('Debug Text Object (optional)')
+  debugTextObject: SceneObject;
+
   // --- Settings ---
 
   @ui.separator
@@ -51,9 +67,35 @@ export class SkyGuideMain extends BaseScriptComponent {
   @ui.label('Position Update Interval (frames)')
   positionUpdateInterval: number = 2;
 
+  @ui.separator
+  @ui.label('Compass')
+
+  @input('bool')
+  @ui.label('Heading Is True North (skip magnetic declination)')
+  headingIsTrueNorth: boolean = false;
+
+  @ui.separator
+  @ui.label('Atmosphere')
+
+  @input('float')
+  @ui.label('Temperature (°C)')
+  temperatureC: number = 10;
+
+  @input('float')
+  @ui.label('Pressure (mbar)')
+  pressureMbar: number = 1010;
+
+  @input('float')
+  @ui.label('Extinction Coefficient (mag/airmass)')
+  extinctionCoefficient: number = 0.25;
+
   // --- Private state ---
 
   private frameCount: number = 0;
+  private lastTwilightState: TwilightState | null = null;
+  private lastLocationSource: LocationSource | null = null;
+  private lastLocationName: string = '';
+  private debugText: Text | null = null;
 
   onAwake(): void {
     this.createEvent('OnStartEvent').bind(() => this.onStart());
@@ -62,16 +104,42 @@ export class SkyGuideMain extends BaseScriptComponent {
   onStart(): void {
     print('[SkyGuide] Starting Sky Guide AR...');
 
-    // Initialize location/compass
+    // User settings first: every module reads them
+    Settings.init();
+    SkyCultures.setCulture(Settings.get('skyCulture'));
+    Settings.onChange((key) => {
+      if (key === 'sphereRadius' || key === 'showBoundaries') {
+        // Move everything onto the new sphere (and place the boundary dashes)
+        // now rather than on the next throttled update
+        Engine.updateStarPositions();
+      } else if (key === 'skyCulture' && SkyCultures.setCulture(Settings.get('skyCulture'))) {
+        // Gaze and the info panel read the new figures directly; the mesh is sized per culture
+        Renderer.rebuildLineMesh();
+      }
+    });
+
+    // Initialize location/compass and the saved compass correction
+    Engine.setHeadingIsTrueNorth(this.headingIsTrueNorth);
     Engine.initLocation(this);
+    Calibration.init();
+    Engine.setAtmosphere(
+      this.temperatureC,
+      this.pressureMbar,
+      this.extinctionCoefficient
+    );
+
+    // Sky labels live under SkyRoot so they follow the north alignment
+    TextLabels.init(this.getSceneObject(), this.camera);
 
     // Initialize renderer with scene objects and materials
     Renderer.init(
       this.starFieldObject,
       this.constellationLinesObject,
       this.starMaterial,
-      this.lineMaterial
+      this.lineMaterial,
+      this.gridLinesObject || null
     );
+    Labels.init(this.getSceneObject(), this.camera);
 
     // Initialize info panel
     Panel.init(
@@ -83,18 +151,46 @@ export class SkyGuideMain extends BaseScriptComponent {
     // Initialize interaction controller
     Interaction.init(
       this.camera,
-      (abbr: string, name: string) => {
-        // On constellation selected (pinch)
-        print('[SkyGuide] Selected: ' + name);
-        Panel.showConstellationInfo(abbr, name);
+      (selection: Selection) => {
+        // On constellation, star, body or deep-sky object selected (pinch)
+        print('[SkyGuide] Selected: ' + selection.name);
+        if (selection.kind === 'star') {
+          Panel.showStarInfo(parseInt(selection.id, 10));
+        } else if (selection.kind === 'body') {
+          Panel.showBodyInfo(selection.id);
+        } else if (selection.kind === 'deepSky') {
+          Panel.showDeepSkyInfo(selection.id);
+        } else {
+          Panel.showConstellationInfo(selection.id, selection.name);
+        }
       },
       () => {
-        // On constellation deselected
+        // On target deselected
         Panel.hide();
       },
+      () => {
+        // On simulation clock rate change / reset
+        Panel.showClockInfo();
+      },
+      (event: CalibrationEvent) => {
+        // On compass calibration progress (started from the menu)
+        Panel.showCalibrationInfo(event);
+      },
+      (view: MenuView | null) => {
+        // On menu / location picker / settings change (left palm tap to open)
+        if (view) {
+          Panel.showMenu(view);
+        } else {
+          Panel.hide();
+        }
+      },
       this
     );
 
+    if (this.debugTextObject) {
+      this.debugText = this.debugTextObject.getComponent('Component.Text') as Text;
+    }
+
     // Main frame update loop
     this.createEvent('UpdateEvent').bind((ev: UpdateEvent) => {
       this.onUpdate(ev);
@@ -107,13 +203,21 @@ export class SkyGuideMain extends BaseScriptComponent {
     this.frameCount++;
     const dt = ev.getDeltaTime();
 
+    // Advance the simulation clock shared by every module
+    Engine.advanceClock(dt);
+
     // Throttle star position computation (stars barely move between frames)
     if (this.frameCount % this.positionUpdateInterval === 0) {
       Engine.updateStarPositions();
+      Labels.update();
+      this.checkTwilight();
+      this.checkLocation();
+      this.updateDebugText();
     }
 
     // Update mesh rendering every frame (for highlight changes)
     Renderer.updateMeshes();
+    TextLabels.update();
 
     // Update gaze detection
     Interaction.updateGaze(dt);
@@ -125,6 +229,59 @@ export class SkyGuideMain extends BaseScriptComponent {
     this.alignToNorth();
   }
 
+  /**
+   * Warn once whenever the Sun comes up (including via time travel).
+   */
+  private checkTwilight(): void {
+    if (!Engine.isInitialized()) return;
+
+    const state = Engine.getTwilightState();
+    if (state !== this.lastTwilightState) {
+      if (state === 'day') {
+        Panel.showSunWarning();
+      }
+      this.lastTwilightState = state;
+    }
+  }
+
+  /**
+   * Say where the sky is computed for whenever that changes — in particular
+   * when running on a saved or default location instead of live GPS.
+   */
+  private checkLocation(): void {
+    if (!Engine.isInitialized()) return;
+
+    const source = Engine.getLocationSource();
+    const name = Engine.getLocationName();
+    if (source !== this.lastLocationSource || name !== this.lastLocationName) {
+      // A first live fix needs no announcement
+      if (this.lastLocationSource !== null || source !== 'gps') {
+        Panel.showLocationInfo();
+      }
+      this.lastLocationSource = source;
+      this.lastLocationName = name;
+    }
+  }
+
+  /**
+   * Compass breakdown for the optional debug readout:
+   * platform heading + magnetic declination + star calibration = heading used.
+   */
+  private updateDebugText(): void {
+    if (!this.debugText || !Engine.isInitialized()) return;
+
+    this.debugText.text =
+      'Compass ' + Engine.getRawHeadingDeg().toFixed(1) + '°\n' +
+      'Declination ' + Engine.getAppliedDeclinationDeg().toFixed(1) + '°' +
+      (this.headingIsTrueNorth
+        ? ' (off, WMM ' + Engine.getMagneticDeclinationDeg().toFixed(1) + '°)'
+        : ' (WMM)') + '\n' +
+      'Calibration ' + Calibration.getHeadingOffsetDeg().toFixed(1) + '°\n' +
+      'Heading ' + Calibration.getCorrectedHeadingDeg().toFixed(1) + '°\n' +
+      'Location ' + Engine.getLocationSource() +
+      (Engine.isGpsAvailable() ? '' : ' (no GPS fix)');
+  }
+
   /**
    * Rotate the SkyRoot SceneObject so that the celestial coordinate
    * system aligns with real-world compass heading.
@@ -132,11 +289,12 @@ export class SkyGuideMain extends BaseScriptComponent {
    * The SkyEngine computes star positions with North at -Z.
    * DeviceTracking (World mode) keeps the camera in a fixed reference frame.
    * We rotate SkyRoot by the compass heading to align stars with the real sky.
+   * The heading includes the star-alignment correction from Calibration.
    */
   private alignToNorth(): void {
     if (!Engine.isInitialized()) return;
 
-    const heading = Engine.getObserver().headingDeg;
+    const heading = Calibration.getCorrectedHeadingDeg();
     const headingRad = heading * (Math.PI / 180);
 
     // Rotate SkyRoot around Y axis by heading
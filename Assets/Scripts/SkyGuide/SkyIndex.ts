@@ -0,0 +1,203 @@
+// SkyIndex.ts — Cube-map grid over the unit sphere for fast cone queries
+// Answers "which catalog entries lie within N degrees of this direction"
+// without scanning the whole catalog. Built once; no Lens Studio APIs.
+//
+// Each cube face is an N×N grid in gnomonic (u, v) coordinates. Entries are
+// bucketed by the cell their direction falls in (CSR layout: cellStart/items).
+// A query projects the cone onto each face it can reach, takes the exact
+// (u, v) bounding box of that ellipse, and tests only the entries in those cells.
+
+export interface SkyIndex {
+  gridSize: number;         // N cells per face edge
+  cellStart: Int32Array;    // 6·N² + 1 offsets into items
+  items: Int32Array;        // entry indices, grouped by cell
+  x: Float32Array;          // unit vectors per entry (same frame as queries)
+  y: Float32Array;
+  z: Float32Array;
+}
+
+// Average entries per cell the grid size is chosen for
+const TARGET_PER_CELL = 4;
+const MAX_GRID_SIZE = 128;
+
+// Angle from a face axis to its corners: acos(1/√3)
+const FACE_CORNER_RAD = Math.acos(1 / Math.sqrt(3));
+
+// Per face: axis, u axis, v axis (right-handed, u × v = axis)
+const FACE_AXES: number[][] = [
+  [1, 0, 0, 0, 1, 0, 0, 0, 1],    // +X
+  [-1, 0, 0, 0, 0, 1, 0, 1, 0],   // -X
+  [0, 1, 0, 0, 0, 1, 1, 0, 0],    // +Y
+  [0, -1, 0, 1, 0, 0, 0, 0, 1],   // -Y
+  [0, 0, 1, 1, 0, 0, 0, 1, 0],    // +Z
+  [0, 0, -1, 0, 1, 0, 1, 0, 0],   // -Z
+];
+
+/**
+ * Build an index from equatorial coordinates (any consistent frame, e.g. J2000).
+ * @param gridSize — cells per face edge; chosen from the entry count when omitted
+ */
+export function buildSkyIndex(
+  raRad: ArrayLike<number>,
+  decRad: ArrayLike<number>,
+  gridSize?: number
+): SkyIndex {
+  const count = raRad.length;
+  const n = gridSize || Math.max(1, Math.min(MAX_GRID_SIZE,
+    Math.round(Math.sqrt(count / (6 * TARGET_PER_CELL)))));
+
+  const x = new Float32Array(count);
+  const y = new Float32Array(count);
+  const z = new Float32Array(count);
+  const cellOf = new Int32Array(count);
+  const cellStart = new Int32Array(6 * n * n + 1);
+
+  for (let i = 0; i < count; i++) {
+    const cosDec = Math.cos(decRad[i]);
+    x[i] = cosDec * Math.cos(raRad[i]);
+    y[i] = cosDec * Math.sin(raRad[i]);
+    z[i] = Math.sin(decRad[i]);
+    cellOf[i] = cellForDirection(x[i], y[i], z[i], n);
+    cellStart[cellOf[i] + 1]++;
+  }
+
+  // Counts -> offsets, then scatter entries into their cells
+  for (let c = 0; c < 6 * n * n; c++) {
+    cellStart[c + 1] += cellStart[c];
+  }
+  const fill = cellStart.slice(0, 6 * n * n);
+  const items = new Int32Array(count);
+  for (let i = 0; i < count; i++) {
+    items[fill[cellOf[i]]++] = i;
+  }
+
+  return { gridSize: n, cellStart, items, x, y, z };
+}
+
+/**
+ * Collect every entry within radiusRad of direction (dx, dy, dz) into out.
+ * out is cleared first and reused by the caller to avoid per-frame allocation.
+ * @returns number of entries found
+ */
+export function queryCone(
+  index: SkyIndex,
+  dx: number,
+  dy: number,
+  dz: number,
+  radiusRad: number,
+  out: number[]
+): number {
+  out.length = 0;
+  const len = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  if (len === 0) return 0;
+  dx /= len; dy /= len; dz /= len;
+
+  const r = Math.min(radiusRad, Math.PI);
+  const cosR = Math.cos(r);
+  const sinR = Math.sin(r);
+  const n = index.gridSize;
+
+  // Orthonormal basis (e1, e2) perpendicular to d, for the cone rim
+  let e1x: number, e1y: number, e1z: number;
+  if (Math.abs(dz) < 0.9) {
+    // e1 = z × d
+    e1x = -dy; e1y = dx; e1z = 0;
+  } else {
+    // e1 = x × d
+    e1x = 0; e1y = -dz; e1z = dy;
+  }
+  const e1Len = Math.sqrt(e1x * e1x + e1y * e1y + e1z * e1z);
+  e1x /= e1Len; e1y /= e1Len; e1z /= e1Len;
+  const e2x = dy * e1z - dz * e1y;
+  const e2y = dz * e1x - dx * e1z;
+  const e2z = dx * e1y - dy * e1x;
+
+  for (let f = 0; f < 6; f++) {
+    const ax = FACE_AXES[f];
+    const dA = dx * ax[0] + dy * ax[1] + dz * ax[2];
+    const theta = Math.acos(Math.max(-1, Math.min(1, dA)));
+    // Cone can't reach this face's pyramid
+    if (theta - r > FACE_CORNER_RAD) continue;
+
+    let uMin = -1, uMax = 1, vMin = -1, vMax = 1;
+    if (theta + r < Math.PI / 2) {
+      // Whole cone in front of the face plane: its projection is an ellipse
+      const dU = dx * ax[3] + dy * ax[4] + dz * ax[5];
+      const dV = dx * ax[6] + dy * ax[7] + dz * ax[8];
+      const e1A = e1x * ax[0] + e1y * ax[1] + e1z * ax[2];
+      const e2A = e2x * ax[0] + e2y * ax[1] + e2z * ax[2];
+      const e1U = e1x * ax[3] + e1y * ax[4] + e1z * ax[5];
+      const e2U = e2x * ax[3] + e2y * ax[4] + e2z * ax[5];
+      const e1V = e1x * ax[6] + e1y * ax[7] + e1z * ax[8];
+      const e2V = e2x * ax[6] + e2y * ax[7] + e2z * ax[8];
+
+      const den0 = dA * cosR, denC = e1A * sinR, denS = e2A * sinR;
+      const [u0, u1] = rimRatioRange(dU * cosR, e1U * sinR, e2U * sinR, den0, denC, denS);
+      const [v0, v1] = rimRatioRange(dV * cosR, e1V * sinR, e2V * sinR, den0, denC, denS);
+      uMin = Math.max(-1, u0); uMax = Math.min(1, u1);
+      vMin = Math.max(-1, v0); vMax = Math.min(1, v1);
+      if (uMin > uMax || vMin > vMax) continue;
+    }
+
+    const iu0 = toCell(uMin, n), iu1 = toCell(uMax, n);
+    const iv0 = toCell(vMin, n), iv1 = toCell(vMax, n);
+    for (let iu = iu0; iu <= iu1; iu++) {
+      for (let iv = iv0; iv <= iv1; iv++) {
+        const cell = (f * n + iu) * n + iv;
+        for (let k = index.cellStart[cell]; k < index.cellStart[cell + 1]; k++) {
+          const i = index.items[k];
+          if (index.x[i] * dx + index.y[i] * dy + index.z[i] * dz >= cosR) {
+            out.push(i);
+          }
+        }
+      }
+    }
+  }
+
+  return out.length;
+}
+
+/**
+ * Cell index (face·N² + iu·N + iv) of a unit direction.
+ */
+function cellForDirection(x: number, y: number, z: number, n: number): number {
+  const axAbs = Math.abs(x), ayAbs = Math.abs(y), azAbs = Math.abs(z);
+  let f: number;
+  if (axAbs >= ayAbs && axAbs >= azAbs) f = x >= 0 ? 0 : 1;
+  else if (ayAbs >= azAbs) f = y >= 0 ? 2 : 3;
+  else f = z >= 0 ? 4 : 5;
+
+  const a = FACE_AXES[f];
+  const dA = x * a[0] + y * a[1] + z * a[2];
+  const u = (x * a[3] + y * a[4] + z * a[5]) / dA;
+  const v = (x * a[6] + y * a[7] + z * a[8]) / dA;
+  return (f * n + toCell(u, n)) * n + toCell(v, n);
+}
+
+function toCell(t: number, n: number): number {
+  return Math.max(0, Math.min(n - 1, Math.floor((t + 1) * 0.5 * n)));
+}
+
+/**
+ * Range of (A + B cos t + C sin t) / (D + E cos t + F sin t) over the cone rim.
+ * Setting the derivative to zero gives P cos t + Q sin t + W = 0.
+ */
+function rimRatioRange(
+  a: number, b: number, c: number,
+  d: number, e: number, f: number
+): [number, number] {
+  const p = c * d - a * f;
+  const q = a * e - b * d;
+  const w = c * e - b * f;
+  const h = Math.sqrt(p * p + q * q);
+  if (h < 1e-12) {
+    const t = a / d;
+    return [t, t];
+  }
+  const base = Math.atan2(q, p);
+  const spread = Math.acos(Math.max(-1, Math.min(1, -w / h)));
+  const t1 = base + spread, t2 = base - spread;
+  const r1 = (a + b * Math.cos(t1) + c * Math.sin(t1)) / (d + e * Math.cos(t1) + f * Math.sin(t1));
+  const r2 = (a + b * Math.cos(t2) + c * Math.sin(t2)) / (d + e * Math.cos(t2) + f * Math.sin(t2));
+  return r1 < r2 ? [r1, r2] : [r2, r1];
+}
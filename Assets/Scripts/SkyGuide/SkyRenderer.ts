@@ -1,10 +1,19 @@
 // SkyRenderer.ts — MeshBuilder rendering for stars and constellation lines
-// Uses 2 meshes total: Points for stars, Lines for constellations
+// Uses 2 meshes for the sky: Triangles (one sprite quad per star and
+// Solar System body), Lines for constellations, deep-sky object markers and IAU boundaries;
+// a third Lines mesh holds the coordinate grids
 
-import { STARS, HIP_TO_INDEX } from './StarData';
-import { CONSTELLATIONS } from './ConstellationData';
+import { STAR_ARRAYS, HIP_TO_INDEX } from './StarData';
+import { DEEP_SKY_OBJECTS } from './DeepSkyData';
+import { BOUNDARY_DASHES } from './BoundaryData';
+import { DeepSkyRecord, DeepSkyType, GridLayer } from './Types';
 import * as Astro from './AstroMath';
 import * as Engine from './SkyEngine';
+import * as Grids from './Grids';
+import * as Settings from './Settings';
+import * as SkyCultures from './SkyCultures';
+import * as TextLabels from './TextLabels';
+import { BODY_IDS } from './Ephemeris';
 
 // MeshBuilder instances
 let starMeshBuilder: MeshBuilder | null = null;
@@ -16,9 +25,84 @@ let lineMeshVisual: RenderMeshVisual | null = null;
 
 // Highlight state
 let highlightedConstellation: string = '';
+let highlightedBody: string = '';
+let highlightedStar = 0; // HIP number, 0 = none
+
+// Solar System body colors (r, g, b) — bodies are drawn after the stars in the sprite mesh
+const BODY_COLORS: { [id: string]: [number, number, number] } = {
+  sun: [1.0, 0.95, 0.6],
+  moon: [0.95, 0.95, 0.9],
+  mercury: [0.8, 0.75, 0.7],
+  venus: [1.0, 1.0, 0.85],
+  mars: [1.0, 0.55, 0.35],
+  jupiter: [1.0, 0.9, 0.75],
+  saturn: [0.95, 0.85, 0.6],
+};
+
+let highlightedDeepSky: string = '';
+
+// Star sprites: a quad per star on the sphere, facing its center (the viewer).
+// The sprite texture has a solid core out to CORE_UV of its half-width and a
+// soft halo beyond; faint stars map only the core, bright ones the halo too.
+const STAR_SIZE_RAD = 0.08 * (Math.PI / 180); // core half-size at magnitudeToScale() = 1
+const STAR_MAX_SCALE = 4.0; // caps Venus, the Moon and the Sun
+const CORE_UV = 0.5;
+const GLOW_MAG = 1.0; // stars brighter than this start to show a halo
+const GLOW_FULL_MAG = -1.5; // full halo from here on
+// UInt16 indices reach this many vertices per mesh. Past it the faintest stars
+// (the catalog is sorted brightest first) and the last line items are left out.
+const MAX_MESH_VERTICES = 65536;
+let spriteStarCount = 0; // stars with a sprite; the bodies' sprites follow
+
+// Star colors from B-V, r, g, b per star (computed once in init)
+const starColors = new Float32Array(STAR_ARRAYS.count * 3);
+
+// setVertexInterleaved() copies the values it is given, so every vertex write
+// goes through one reused array per layout instead of a new array per vertex
+const quadVertex: number[] = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+const lineVertex: number[] = [0, 0, 0, 0, 0, 0, 0];
+
+// Sky and highlight state the sprite and Lines meshes were last written for;
+// updateMeshes() leaves a mesh (and its upload) alone while its key is unchanged
+let starMeshKey = '';
+let lineMeshKey = '';
+
+// Deep-sky markers: a circle per object in the Lines mesh, colored by type
+const DSO_MARKER_SEGMENTS = 10;
+const DSO_MIN_MARKER_RAD = 0.5 * (Math.PI / 180);
+const DSO_MAX_MARKER_RAD = 3.0 * (Math.PI / 180);
+const DSO_COLORS: { [type in DeepSkyType]: [number, number, number] } = {
+  galaxy: [1.0, 0.6, 0.8],
+  globularCluster: [1.0, 0.85, 0.4],
+  openCluster: [0.6, 1.0, 0.6],
+  nebula: [1.0, 0.45, 0.45],
+  planetaryNebula: [0.5, 1.0, 0.9],
+  supernovaRemnant: [0.9, 0.6, 1.0],
+};
+let dsoVertexOffset = 0;
+let dsoMarkerCount = 0; // markers that fit in the Lines mesh
+
+// IAU boundary dashes: a dim third layer after the deep-sky markers
+const BOUNDARY_COLOR: [number, number, number] = [0.6, 0.5, 0.75];
+const BOUNDARY_ALPHA = 0.3;
+let boundaryVertexOffset = 0;
+let boundaryDashCount = 0; // dashes that fit in the Lines mesh
+let boundariesDrawn = false; // dash vertices currently hold positions (vs. hidden)
+
+// Coordinate grids: their own Lines mesh, one vertex pair per polyline segment.
+// Only rewritten when the sky has turned or a layer was switched.
+const GRID_MIN_FADE = 0.5; // grids stay visible (dimmed) in daylight
+const GRID_LABEL_ALPHA = 0.8;
+let gridMeshBuilder: MeshBuilder | null = null;
+let gridLayers: GridLayer[] = [];
+let gridVertexOffsets: number[] = []; // first vertex of each layer
+let gridLabelIds: number[][] = []; // TextLabels ids per layer
+let gridLayerDrawn: boolean[] = []; // layer vertices currently hold positions
+let gridStateKey = ''; // sky state the grid vertices were last written for
 
 // Constellation segment tracking (for vertex indexing)
-let totalLineSegments = 0;
+let totalLineSegments = 0; // figure segments that fit in the Lines mesh
+let segmentStars = new Int32Array(0); // catalog index of each segment end, -1 if missing
 let constellationSegmentOffsets: number[] = []; // start vertex index per constellation
 
 /**
@@ -28,23 +112,37 @@ export function init(
   starFieldObj: SceneObject,
   constellationLinesObj: SceneObject,
   starMaterial: Material,
-  lineMaterial: Material
+  lineMaterial: Material,
+  gridLinesObj: SceneObject | null
 ): void {
-  // --- Star Points Mesh ---
+  // --- Star Sprite Mesh ---
   starMeshBuilder = new MeshBuilder([
     { name: 'position', components: 3 },
     { name: 'color', components: 4 },
+    { name: 'texture0', components: 2 },
   ]);
-  starMeshBuilder.topology = MeshTopology.Points;
+  starMeshBuilder.topology = MeshTopology.Triangles;
   starMeshBuilder.indexType = MeshIndexType.UInt16;
 
-  // Pre-populate star vertices
+  for (let i = 0; i < STAR_ARRAYS.count; i++) {
+    const color = Astro.bvToColor(STAR_ARRAYS.bv[i]);
+    starColors[i * 3] = color[0];
+    starColors[i * 3 + 1] = color[1];
+    starColors[i * 3 + 2] = color[2];
+  }
+
+  // Pre-populate 4 vertices (2 triangles) per star, followed by the Solar System bodies
+  spriteStarCount = fitInMesh(BODY_IDS.length * 4, 4, STAR_ARRAYS.count, 'star sprites');
+  const quadCount = spriteStarCount + BODY_IDS.length;
   const starVerts: number[] = [];
   const starIndices: number[] = [];
-  for (let i = 0; i < STARS.length; i++) {
-    // position (0,0,0) + color (1,1,1,1) — will be updated per frame
-    starVerts.push(0, 0, 0, 1, 1, 1, 1);
-    starIndices.push(i);
+  for (let i = 0; i < quadCount; i++) {
+    // position (0,0,0) + color (1,1,1,0) + uv — will be updated per frame
+    for (let k = 0; k < 4; k++) {
+      starVerts.push(0, 0, 0, 1, 1, 1, 0, 0.5, 0.5);
+    }
+    const v = i * 4;
+    starIndices.push(v, v + 1, v + 2, v, v + 2, v + 3);
   }
   starMeshBuilder.appendVerticesInterleaved(starVerts);
   starMeshBuilder.appendIndices(starIndices);
@@ -59,6 +157,48 @@ export function init(
   }
 
   // --- Constellation Lines Mesh ---
+  lineMeshVisual = constellationLinesObj.getComponent(
+    'Component.RenderMeshVisual'
+  ) as RenderMeshVisual;
+  if (lineMeshVisual) {
+    lineMeshVisual.clearMaterials();
+    lineMeshVisual.addMaterial(lineMaterial);
+  }
+  buildLineMesh();
+
+  // --- Coordinate Grid Lines Mesh ---
+  if (gridLinesObj) {
+    buildGridMesh(gridLinesObj, lineMaterial);
+  } else {
+    print('[SkyGuide] No grid lines object — coordinate grids disabled');
+  }
+
+  print('[SkyGuide] Renderer initialized: ' +
+    spriteStarCount + ' stars, ' +
+    BODY_IDS.length + ' bodies, ' +
+    totalLineSegments + ' line segments, ' +
+    dsoMarkerCount + ' deep-sky markers, ' +
+    boundaryDashCount + ' boundary dashes');
+}
+
+/**
+ * Rebuild the Lines mesh for the active sky culture's figures.
+ * Call after SkyCultures.setCulture().
+ */
+export function rebuildLineMesh(): void {
+  if (!lineMeshBuilder) return;
+  highlightedConstellation = '';
+  buildLineMesh();
+  lineMeshKey = '';
+  print('[SkyGuide] Line mesh rebuilt: ' + totalLineSegments + ' line segments (' +
+    SkyCultures.getCulture().name + ')');
+}
+
+/**
+ * Create the Lines mesh: two vertices per figure segment of the active
+ * culture, followed by the deep-sky marker circles and the boundary dashes.
+ */
+function buildLineMesh(): void {
   lineMeshBuilder = new MeshBuilder([
     { name: 'position', components: 3 },
     { name: 'color', components: 4 },
@@ -72,100 +212,479 @@ export function init(
   let vertIdx = 0;
 
   constellationSegmentOffsets = [];
-  totalLineSegments = 0;
+  const segmentEnds: number[] = [];
+  const constellations = SkyCultures.getConstellations();
+  totalLineSegments = fitInMesh(0, 2,
+    constellations.reduce((n, c) => n + c.lines.length, 0), 'figure segments');
 
-  for (const c of CONSTELLATIONS) {
+  for (const c of constellations) {
     constellationSegmentOffsets.push(vertIdx);
     for (const pair of c.lines) {
+      if (segmentEnds.length / 2 === totalLineSegments) break;
+      const idx1 = HIP_TO_INDEX.get(pair[0]);
+      const idx2 = HIP_TO_INDEX.get(pair[1]);
+      segmentEnds.push(idx1 === undefined ? -1 : idx1, idx2 === undefined ? -1 : idx2);
       // Two vertices per line segment
       lineVerts.push(0, 0, 0, 0.3, 0.5, 0.8, 0.4); // start vertex
       lineVerts.push(0, 0, 0, 0.3, 0.5, 0.8, 0.4); // end vertex
       lineIndices.push(vertIdx, vertIdx + 1);
       vertIdx += 2;
-      totalLineSegments++;
     }
   }
+  segmentStars = new Int32Array(segmentEnds);
+
+  // Deep-sky marker circles follow the constellation segments
+  dsoVertexOffset = vertIdx;
+  dsoMarkerCount = fitInMesh(vertIdx, DSO_MARKER_SEGMENTS * 2, DEEP_SKY_OBJECTS.length,
+    'deep-sky markers');
+  for (let d = 0; d < dsoMarkerCount; d++) {
+    for (let k = 0; k < DSO_MARKER_SEGMENTS; k++) {
+      lineVerts.push(0, 0, 0, 0, 0, 0, 0);
+      lineVerts.push(0, 0, 0, 0, 0, 0, 0);
+      lineIndices.push(vertIdx, vertIdx + 1);
+      vertIdx += 2;
+    }
+  }
+
+  // Boundary dashes last (hidden until the setting turns them on)
+  boundaryVertexOffset = vertIdx;
+  boundaryDashCount = fitInMesh(vertIdx, 2, BOUNDARY_DASHES.length / 4, 'boundary dashes');
+  for (let i = 0; i < boundaryDashCount; i++) {
+    lineVerts.push(0, 0, 0, 0, 0, 0, 0);
+    lineVerts.push(0, 0, 0, 0, 0, 0, 0);
+    lineIndices.push(vertIdx, vertIdx + 1);
+    vertIdx += 2;
+  }
+  boundariesDrawn = false;
 
   lineMeshBuilder.appendVerticesInterleaved(lineVerts);
   lineMeshBuilder.appendIndices(lineIndices);
 
-  lineMeshVisual = constellationLinesObj.getComponent(
-    'Component.RenderMeshVisual'
-  ) as RenderMeshVisual;
   if (lineMeshVisual) {
     lineMeshVisual.mesh = lineMeshBuilder.getMesh();
-    lineMeshVisual.clearMaterials();
-    lineMeshVisual.addMaterial(lineMaterial);
   }
+}
 
-  print('[SkyGuide] Renderer initialized: ' +
-    STARS.length + ' stars, ' +
-    totalLineSegments + ' line segments');
+/**
+ * Create the grid Lines mesh (every layer, hidden) and the grid labels.
+ */
+function buildGridMesh(gridLinesObj: SceneObject, lineMaterial: Material): void {
+  gridMeshBuilder = new MeshBuilder([
+    { name: 'position', components: 3 },
+    { name: 'color', components: 4 },
+  ]);
+  gridMeshBuilder.topology = MeshTopology.Lines;
+  gridMeshBuilder.indexType = MeshIndexType.UInt16;
+
+  gridLayers = Grids.buildGridLayers(Engine.getSimDate().getUTCFullYear());
+  const verts: number[] = [];
+  const indices: number[] = [];
+  let vertIdx = 0;
+
+  for (const layer of gridLayers) {
+    gridVertexOffsets.push(vertIdx);
+    for (const line of layer.lines) {
+      for (let k = 0; k + 2 < line.length; k += 2) {
+        verts.push(0, 0, 0, 0, 0, 0, 0);
+        verts.push(0, 0, 0, 0, 0, 0, 0);
+        indices.push(vertIdx, vertIdx + 1);
+        vertIdx += 2;
+      }
+    }
+    gridLabelIds.push(layer.labels.map((l) => TextLabels.create(l.text, l.color || layer.color)));
+    gridLayerDrawn.push(false);
+  }
+
+  gridMeshBuilder.appendVerticesInterleaved(verts);
+  gridMeshBuilder.appendIndices(indices);
+
+  const visual = gridLinesObj.getComponent('Component.RenderMeshVisual') as RenderMeshVisual;
+  if (visual) {
+    visual.mesh = gridMeshBuilder.getMesh();
+    visual.clearMaterials();
+    visual.addMaterial(lineMaterial);
+  }
+  print('[SkyGuide] Grid mesh: ' + gridLayers.length + ' layers, ' + vertIdx / 2 + ' segments');
 }
 
 /**
  * Update all mesh vertices from computed star positions.
- * Call every frame.
+ * Call every frame; a mesh is only rewritten and uploaded when the positions,
+ * the sky brightness, a highlight or a color setting changed.
  */
 export function updateMeshes(): void {
   if (!starMeshBuilder || !lineMeshBuilder) return;
 
   const positions = Engine.getStarPositions();
-  if (positions.length === 0) return;
+  if (positions.version === 0) return;
+
+  // Sky brightness: twilight and light pollution set the limiting magnitude,
+  // twilight also fades the figures
+  const limitingMag = Engine.getLimitingMagnitude();
+  const lineFade = Engine.getSkyDarkness();
+  const highlight = Settings.getColor('highlightColor');
+  const lineColor = Settings.getColor('lineColor');
+
+  const skyKey = positions.version + '|' + limitingMag + '|' + highlight.join(',');
+  const starKey = skyKey + '|' + highlightedStar + '|' + highlightedBody;
+  if (starKey !== starMeshKey) {
+    starMeshKey = starKey;
+    updateStarQuads(limitingMag, highlight);
+  }
+
+  const lineKey = skyKey + '|' + lineFade + '|' + lineColor.join(',') + '|' +
+    highlightedConstellation + '|' + highlightedDeepSky + '|' + Settings.get('showBoundaries');
+  if (lineKey !== lineMeshKey) {
+    lineMeshKey = lineKey;
+    updateConstellationLines(limitingMag, lineFade, highlight, lineColor);
+    updateDeepSkyMarkers(lineFade, highlight);
+    updateBoundaryDashes(lineFade);
+    lineMeshBuilder.updateMesh();
+  }
+
+  updateGrids(lineFade);
+}
+
+/**
+ * Write the star and Solar System body sprites and upload the sprite mesh.
+ */
+function updateStarQuads(limitingMag: number, highlight: [number, number, number]): void {
+  if (!starMeshBuilder) return;
+
+  const positions = Engine.getStarPositions();
+  const xyz = positions.xyz;
+  const radius = Engine.getSphereRadius();
 
   // --- Update star vertices ---
-  for (let i = 0; i < positions.length; i++) {
-    const sp = positions[i];
-    const [r, g, b] = Astro.bvToColor(sp.bv);
-    const alpha = Astro.magnitudeToAlpha(sp.mag);
+  for (let i = 0; i < spriteStarCount; i++) {
+    const isHighlighted = STAR_ARRAYS.hip[i] === highlightedStar;
+    const color = isHighlighted ? highlight : starColors;
+    const c = isHighlighted ? 0 : i * 3;
+    // Dim by airmass: stars near the horizon lose up to several magnitudes
+    const apparentMag = STAR_ARRAYS.mag[i] + positions.extinction[i];
+    const alpha = isHighlighted
+      ? 1.0
+      : Astro.magnitudeToAlpha(apparentMag) * fadeBelowLimit(apparentMag, limitingMag);
 
-    // Stars below horizon get alpha = 0 (invisible)
-    const visible = sp.y >= 0 ? alpha : 0;
+    // Stars below the (refracted) horizon get alpha = 0 (invisible)
+    const y = xyz[i * 3 + 1];
+    const visible = y >= 0 ? alpha : 0;
 
-    starMeshBuilder.setVertexInterleaved(i, [
-      sp.x, sp.y, sp.z,
-      r, g, b, visible,
-    ]);
+    writeStarQuad(
+      i, xyz[i * 3], y, xyz[i * 3 + 2], radius, apparentMag,
+      color[c], color[c + 1], color[c + 2], visible
+    );
+  }
+
+  // --- Update Solar System body vertices ---
+  const bodies = Engine.getBodyPositions();
+  for (let i = 0; i < bodies.length; i++) {
+    const bp = bodies[i];
+    const isHighlighted = bp.id === highlightedBody;
+    const [r, g, b] = isHighlighted
+      ? highlight
+      : (BODY_COLORS[bp.id] || [1, 1, 1]);
+    const bodyMag = bp.mag + bp.extinction;
+    const visible = bp.y >= 0
+      ? Astro.magnitudeToAlpha(bodyMag) * fadeBelowLimit(bodyMag, limitingMag)
+      : 0;
+
+    writeStarQuad(spriteStarCount + i, bp.x, bp.y, bp.z, radius, bodyMag, r, g, b, visible);
   }
   starMeshBuilder.updateMesh();
+}
+
+/**
+ * Write the constellation figure segments of the active culture into the Lines mesh.
+ */
+function updateConstellationLines(
+  limitingMag: number,
+  lineFade: number,
+  highlight: [number, number, number],
+  lineColor: [number, number, number]
+): void {
+  if (!lineMeshBuilder) return;
 
-  // --- Update constellation line vertices ---
+  const positions = Engine.getStarPositions();
+  const xyz = positions.xyz;
   let vertIdx = 0;
-  for (let ci = 0; ci < CONSTELLATIONS.length; ci++) {
-    const c = CONSTELLATIONS[ci];
+  let seg = 0;
+  const constellations = SkyCultures.getConstellations();
+  for (let ci = 0; ci < constellations.length; ci++) {
+    const c = constellations[ci];
     const isHighlighted = c.abbr === highlightedConstellation;
+    const color = isHighlighted ? highlight : lineColor;
 
-    for (const pair of c.lines) {
-      const idx1 = HIP_TO_INDEX.get(pair[0]);
-      const idx2 = HIP_TO_INDEX.get(pair[1]);
-
-      if (idx1 !== undefined && idx2 !== undefined) {
-        const s1 = positions[idx1];
-        const s2 = positions[idx2];
+    for (let k = 0; k < c.lines.length; k++, seg++) {
+      if (seg === totalLineSegments) return;
+      const idx1 = segmentStars[seg * 2];
+      const idx2 = segmentStars[seg * 2 + 1];
 
-        // Both stars must be above horizon for line to be visible
-        const bothVisible = s1.y >= 0 && s2.y >= 0;
-        const alpha = bothVisible ? (isHighlighted ? 0.9 : 0.35) : 0.0;
+      if (idx1 >= 0 && idx2 >= 0) {
+        const i1 = idx1 * 3, i2 = idx2 * 3;
 
-        const cr = isHighlighted ? 0.4 : 0.3;
-        const cg = isHighlighted ? 0.85 : 0.5;
-        const cb = isHighlighted ? 1.0 : 0.8;
+        // Both stars must be above horizon for line to be visible, and lines
+        // fade out with their fainter star (a highlighted figure stays whole)
+        const bothVisible = xyz[i1 + 1] >= 0 && xyz[i2 + 1] >= 0;
+        const alpha = !bothVisible ? 0.0
+          : isHighlighted ? 0.9 * lineFade
+          : 0.35 * lineFade * Math.min(
+            fadeBelowLimit(STAR_ARRAYS.mag[idx1] + positions.extinction[idx1], limitingMag),
+            fadeBelowLimit(STAR_ARRAYS.mag[idx2] + positions.extinction[idx2], limitingMag)
+          );
 
-        lineMeshBuilder.setVertexInterleaved(vertIdx, [
-          s1.x, s1.y, s1.z, cr, cg, cb, alpha,
-        ]);
-        lineMeshBuilder.setVertexInterleaved(vertIdx + 1, [
-          s2.x, s2.y, s2.z, cr, cg, cb, alpha,
-        ]);
+        setLineVertex(lineMeshBuilder, vertIdx,
+          xyz[i1], xyz[i1 + 1], xyz[i1 + 2], color[0], color[1], color[2], alpha);
+        setLineVertex(lineMeshBuilder, vertIdx + 1,
+          xyz[i2], xyz[i2 + 1], xyz[i2 + 2], color[0], color[1], color[2], alpha);
       } else {
         // One or both stars missing from catalog — hide line
-        lineMeshBuilder.setVertexInterleaved(vertIdx, [0, 0, 0, 0, 0, 0, 0]);
-        lineMeshBuilder.setVertexInterleaved(vertIdx + 1, [0, 0, 0, 0, 0, 0, 0]);
+        setLineVertex(lineMeshBuilder, vertIdx, 0, 0, 0, 0, 0, 0, 0);
+        setLineVertex(lineMeshBuilder, vertIdx + 1, 0, 0, 0, 0, 0, 0, 0);
       }
       vertIdx += 2;
     }
   }
-  lineMeshBuilder.updateMesh();
+}
+
+/**
+ * Write one star sprite: a quad in the sphere's tangent plane around (x, y, z),
+ * sized by magnitude, with the texture window widened into the halo for bright stars.
+ */
+function writeStarQuad(
+  quad: number, x: number, y: number, z: number, radius: number, mag: number,
+  r: number, g: number, b: number, alpha: number
+): void {
+  const px = x / radius, py = y / radius, pz = z / radius;
+  // u = up × p (falls back to +X near the zenith), v = p × u
+  let ux = pz, uz = -px;
+  let uLen = Math.sqrt(ux * ux + uz * uz);
+  if (uLen < 1e-6) {
+    ux = 1; uz = 0; uLen = 1;
+  }
+  ux /= uLen; uz /= uLen;
+  const vx = py * uz;
+  const vy = pz * ux - px * uz;
+  const vz = -py * ux;
+
+  // Core size from magnitude; the halo extends the quad and the texture window together
+  const glow = Math.max(0, Math.min(1, (GLOW_MAG - mag) / (GLOW_MAG - GLOW_FULL_MAG)));
+  const uvHalf = CORE_UV + (1 - CORE_UV) * glow;
+  const core = Math.min(STAR_MAX_SCALE, Astro.magnitudeToScale(mag)) * STAR_SIZE_RAD * radius;
+  const half = core * uvHalf / CORE_UV;
+  const u0 = 0.5 - uvHalf / 2, u1 = 0.5 + uvHalf / 2;
+
+  // Color and alpha are the same for all four corners
+  quadVertex[3] = r;
+  quadVertex[4] = g;
+  quadVertex[5] = b;
+  quadVertex[6] = alpha;
+  const v = quad * 4;
+  setQuadCorner(v, x - (ux + vx) * half, y - vy * half, z - (uz + vz) * half, u0, u0);
+  setQuadCorner(v + 1, x + (ux - vx) * half, y - vy * half, z + (uz - vz) * half, u1, u0);
+  setQuadCorner(v + 2, x + (ux + vx) * half, y + vy * half, z + (uz + vz) * half, u1, u1);
+  setQuadCorner(v + 3, x - (ux - vx) * half, y + vy * half, z - (uz - vz) * half, u0, u1);
+}
+
+/**
+ * Write one sprite corner; color and alpha are already in quadVertex.
+ */
+function setQuadCorner(index: number, x: number, y: number, z: number, u: number, v: number): void {
+  if (!starMeshBuilder) return;
+  quadVertex[0] = x;
+  quadVertex[1] = y;
+  quadVertex[2] = z;
+  quadVertex[7] = u;
+  quadVertex[8] = v;
+  starMeshBuilder.setVertexInterleaved(index, quadVertex);
+}
+
+/**
+ * Write one position + color vertex of a Lines mesh.
+ */
+function setLineVertex(
+  builder: MeshBuilder, index: number,
+  x: number, y: number, z: number, r: number, g: number, b: number, alpha: number
+): void {
+  lineVertex[0] = x;
+  lineVertex[1] = y;
+  lineVertex[2] = z;
+  lineVertex[3] = r;
+  lineVertex[4] = g;
+  lineVertex[5] = b;
+  lineVertex[6] = alpha;
+  builder.setVertexInterleaved(index, lineVertex);
+}
+
+/**
+ * Write the deep-sky marker circles into the Lines mesh.
+ * Each circle is drawn on the sphere around the object, sized by its apparent extent.
+ */
+function updateDeepSkyMarkers(fade: number, highlight: [number, number, number]): void {
+  if (!lineMeshBuilder) return;
+
+  const dsoPositions = Engine.getDeepSkyPositions();
+  const radius = Engine.getSphereRadius();
+  let vertIdx = dsoVertexOffset;
+
+  for (let d = 0; d < dsoMarkerCount; d++) {
+    const dp = dsoPositions[d];
+    const dso = DEEP_SKY_OBJECTS[d];
+    const isHighlighted = dso.id === highlightedDeepSky;
+    const [cr, cg, cb] = isHighlighted ? highlight : DSO_COLORS[dso.type];
+    const alpha = dp.y >= 0 ? (isHighlighted ? 0.9 : 0.5) * fade : 0;
+
+    // Unit direction and a tangent basis (u, v) around it
+    const px = dp.x / radius, py = dp.y / radius, pz = dp.z / radius;
+    // u = up × p (falls back to +X near the zenith)
+    let ux = pz, uy = 0, uz = -px;
+    let uLen = Math.sqrt(ux * ux + uz * uz);
+    if (uLen < 1e-6) {
+      ux = 1; uz = 0; uLen = 1;
+    }
+    ux /= uLen; uz /= uLen;
+    // v = p × u
+    const vx = py * uz - pz * uy;
+    const vy = pz * ux - px * uz;
+    const vz = px * uy - py * ux;
+
+    const r = getDeepSkyMarkerRadius(dso);
+    const cosR = Math.cos(r) * radius;
+    const sinR = Math.sin(r) * radius;
+
+    for (let k = 0; k < DSO_MARKER_SEGMENTS; k++) {
+      const a1 = (k / DSO_MARKER_SEGMENTS) * 2 * Math.PI;
+      const a2 = ((k + 1) / DSO_MARKER_SEGMENTS) * 2 * Math.PI;
+      const c1 = Math.cos(a1), s1 = Math.sin(a1);
+      const c2 = Math.cos(a2), s2 = Math.sin(a2);
+
+      setLineVertex(lineMeshBuilder, vertIdx,
+        px * cosR + (ux * c1 + vx * s1) * sinR,
+        py * cosR + (uy * c1 + vy * s1) * sinR,
+        pz * cosR + (uz * c1 + vz * s1) * sinR,
+        cr, cg, cb, alpha);
+      setLineVertex(lineMeshBuilder, vertIdx + 1,
+        px * cosR + (ux * c2 + vx * s2) * sinR,
+        py * cosR + (uy * c2 + vy * s2) * sinR,
+        pz * cosR + (uz * c2 + vz * s2) * sinR,
+        cr, cg, cb, alpha);
+      vertIdx += 2;
+    }
+  }
+}
+
+/**
+ * Write the boundary dashes into the Lines mesh, or hide them once when the
+ * showBoundaries setting is off.
+ */
+function updateBoundaryDashes(fade: number): void {
+  if (!lineMeshBuilder) return;
+
+  const show = Settings.get('showBoundaries');
+  if (!show && !boundariesDrawn) return;
+
+  const positions = Engine.getBoundaryPositions();
+  const [cr, cg, cb] = BOUNDARY_COLOR;
+  let vertIdx = boundaryVertexOffset;
+
+  for (let i = 0; i < boundaryDashCount * 6; i += 6) {
+    // Same rule as the figures: both ends above the horizon
+    const alpha = show && positions[i + 1] >= 0 && positions[i + 4] >= 0
+      ? BOUNDARY_ALPHA * fade
+      : 0;
+    setLineVertex(lineMeshBuilder, vertIdx,
+      positions[i], positions[i + 1], positions[i + 2], cr, cg, cb, alpha);
+    setLineVertex(lineMeshBuilder, vertIdx + 1,
+      positions[i + 3], positions[i + 4], positions[i + 5], cr, cg, cb, alpha);
+    vertIdx += 2;
+  }
+  boundariesDrawn = show;
+}
+
+/**
+ * Project the switched-on grid layers and their labels, and hide layers that
+ * were just switched off. Skipped while nothing has changed since the last call.
+ */
+function updateGrids(fade: number): void {
+  if (!gridMeshBuilder) return;
+
+  const obs = Engine.getObserver();
+  const enabled = gridLayers.map((l) => Settings.get(l.key) === true);
+  const stateKey = enabled.join(',') + '|' + obs.lstRadians + '|' + obs.latitude + '|' +
+    Engine.getSphereRadius() + '|' + fade;
+  if (stateKey === gridStateKey) return;
+  gridStateKey = stateKey;
+
+  const gridFade = Math.max(GRID_MIN_FADE, fade);
+  let changed = false;
+
+  for (let li = 0; li < gridLayers.length; li++) {
+    const layer = gridLayers[li];
+    if (!enabled[li] && !gridLayerDrawn[li]) continue;
+    changed = true;
+
+    let vertIdx = gridVertexOffsets[li];
+    const [cr, cg, cb] = layer.color;
+    for (const line of layer.lines) {
+      let [x1, y1, z1] = enabled[li]
+        ? Engine.projectToSphere(line[0], line[1], layer.frame)
+        : [0, 0, 0];
+      for (let k = 2; k < line.length; k += 2) {
+        const [x2, y2, z2] = enabled[li]
+          ? Engine.projectToSphere(line[k], line[k + 1], layer.frame)
+          : [0, 0, 0];
+        // Same rule as the figures: both ends above the horizon
+        const alpha = enabled[li] && y1 >= 0 && y2 >= 0 ? layer.alpha * gridFade : 0;
+        setLineVertex(gridMeshBuilder, vertIdx, x1, y1, z1, cr, cg, cb, alpha);
+        setLineVertex(gridMeshBuilder, vertIdx + 1, x2, y2, z2, cr, cg, cb, alpha);
+        vertIdx += 2;
+        x1 = x2; y1 = y2; z1 = z2;
+      }
+    }
+
+    for (let i = 0; i < layer.labels.length; i++) {
+      const label = layer.labels[i];
+      if (!enabled[li]) {
+        TextLabels.hide(gridLabelIds[li][i]);
+        continue;
+      }
+      const [x, y, z] = Engine.projectToSphere(label.lon, label.lat, layer.frame);
+      TextLabels.show(gridLabelIds[li][i], x, y, z, y >= 0 ? GRID_LABEL_ALPHA * gridFade : 0);
+    }
+    gridLayerDrawn[li] = enabled[li];
+  }
+
+  if (changed) {
+    gridMeshBuilder.updateMesh();
+  }
+}
+
+/**
+ * Angular radius of a deep-sky marker in radians (half the major axis, clamped).
+ */
+export function getDeepSkyMarkerRadius(dso: DeepSkyRecord): number {
+  const r = (dso.majorArcmin / 2 / 60) * (Math.PI / 180);
+  return Math.max(DSO_MIN_MARKER_RAD, Math.min(DSO_MAX_MARKER_RAD, r));
+}
+
+/**
+ * How many items of verticesEach vertices fit in a mesh that already holds
+ * used vertices, within MAX_MESH_VERTICES. Warns when some are left out.
+ */
+function fitInMesh(used: number, verticesEach: number, count: number, what: string): number {
+  const fits = Math.max(0, Math.min(count, Math.floor((MAX_MESH_VERTICES - used) / verticesEach)));
+  if (fits < count) {
+    print('[SkyGuide] Warning: only ' + fits + ' of ' + count + ' ' + what +
+      ' fit in a mesh with 16-bit indices');
+  }
+  return fits;
+}
+
+/**
+ * Fade factor for objects near the limiting magnitude (0.5 mag soft edge).
+ */
+function fadeBelowLimit(mag: number, limitingMag: number): number {
+  return Math.max(0, Math.min(1, (limitingMag - mag) / 0.5));
 }
 
 /**
@@ -181,3 +700,31 @@ export function setHighlightedConstellation(abbr: string): void {
 export function getHighlightedConstellation(): string {
   return highlightedConstellation;
 }
+
+/**
+ * Set which Solar System body is highlighted (e.g. "jupiter").
+ */
+export function setHighlightedBody(id: string): void {
+  highlightedBody = id;
+}
+
+/**
+ * Get current highlighted Solar System body.
+ */
+export function getHighlightedBody(): string {
+  return highlightedBody;
+}
+
+/**
+ * Set which star is highlighted by HIP number (0 clears).
+ */
+export function setHighlightedStar(hip: number): void {
+  highlightedStar = hip;
+}
+
+/**
+ * Set which deep-sky object is highlighted (e.g. "M42").
+ */
+export function setHighlightedDeepSky(id: string): void {
+  highlightedDeepSky = id;
+}
@@ -0,0 +1,155 @@
+// StarCatalog.ts — Decoder for the packed star catalog in StarData.ts
+// The generator writes the stars as one base64 string of little-endian
+// fields, stored field by field (all HIP numbers, then all RAs, ...) in the
+// order below. tools/generate-star-data.js has the encoder; keep the two in step.
+
+import { StarArrays, StarRecord } from './Types';
+
+// Storage order and bytes per star (20 in all):
+//   hip    3  unsigned
+//   ra     3  unsigned, [0, 2π) in 2^24 steps
+//   dec    3  unsigned, [-π/2, π/2] in 2^24 - 1 steps
+//   mag    2  signed, 0.01 mag
+//   bv     2  signed, 0.01 mag
+//   pmRA   2  signed, 0.5 mas/yr
+//   pmDec  2  signed, 0.5 mas/yr
+//   name   2  unsigned index into the name table (0 = no name)
+//   con    1  unsigned index into the constellation table (0 = none)
+
+const RA_SCALE = (2 * Math.PI) / 16777216;
+const DEC_SCALE = Math.PI / 16777215;
+const PM_SCALE = 0.5 * Math.PI / (180 * 3600 * 1000); // 0.5 mas/yr -> rad/yr
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Unpack the catalog into struct-of-arrays form.
+ * @param packed — base64 string written by the generator
+ * @param names — name table (index 0 is '')
+ * @param constellations — constellation abbreviation table (index 0 is '')
+ */
+export function decodeStarCatalog(
+  packed: string,
+  count: number,
+  names: string[],
+  constellations: string[]
+): StarArrays {
+  const bytes = decodeBase64(packed);
+  const arrays: StarArrays = {
+    count,
+    hip: new Uint32Array(count),
+    ra: new Float64Array(count),
+    dec: new Float64Array(count),
+    mag: new Float32Array(count),
+    bv: new Float32Array(count),
+    pmRA: new Float64Array(count),
+    pmDec: new Float64Array(count),
+    nameIndex: new Uint16Array(count),
+    conIndex: new Uint8Array(count),
+    names,
+    constellations,
+  };
+
+  // One loop per field, in storage order; the loops are the whole cost of
+  // loading, so the byte reads are written out rather than shared helpers
+  let o = 0;
+  for (let i = 0; i < count; i++, o += 3) {
+    arrays.hip[i] = bytes[o] | (bytes[o + 1] << 8) | (bytes[o + 2] << 16);
+  }
+  for (let i = 0; i < count; i++, o += 3) {
+    arrays.ra[i] = (bytes[o] | (bytes[o + 1] << 8) | (bytes[o + 2] << 16)) * RA_SCALE;
+  }
+  for (let i = 0; i < count; i++, o += 3) {
+    arrays.dec[i] = (bytes[o] | (bytes[o + 1] << 8) | (bytes[o + 2] << 16)) * DEC_SCALE - Math.PI / 2;
+  }
+  // Signed 16-bit: shift into the sign bit and back
+  for (let i = 0; i < count; i++, o += 2) {
+    arrays.mag[i] = (((bytes[o] | (bytes[o + 1] << 8)) << 16) >> 16) / 100;
+  }
+  for (let i = 0; i < count; i++, o += 2) {
+    arrays.bv[i] = (((bytes[o] | (bytes[o + 1] << 8)) << 16) >> 16) / 100;
+  }
+  for (let i = 0; i < count; i++, o += 2) {
+    arrays.pmRA[i] = (((bytes[o] | (bytes[o + 1] << 8)) << 16) >> 16) * PM_SCALE;
+  }
+  for (let i = 0; i < count; i++, o += 2) {
+    arrays.pmDec[i] = (((bytes[o] | (bytes[o + 1] << 8)) << 16) >> 16) * PM_SCALE;
+  }
+  for (let i = 0; i < count; i++, o += 2) {
+    arrays.nameIndex[i] = bytes[o] | (bytes[o + 1] << 8);
+  }
+  for (let i = 0; i < count; i++, o += 1) {
+    arrays.conIndex[i] = bytes[o];
+  }
+
+  if (o !== bytes.length) {
+    print('[SkyGuide] Warning: Star catalog is ' + bytes.length + ' bytes, expected ' + o);
+  }
+  return arrays;
+}
+
+/**
+ * One StarRecord per star, for code that works with objects.
+ */
+export function starRecords(arrays: StarArrays): StarRecord[] {
+  const stars: StarRecord[] = new Array(arrays.count);
+  for (let i = 0; i < arrays.count; i++) {
+    // Float32 magnitudes and colors back to their 2-decimal values
+    stars[i] = {
+      hip: arrays.hip[i],
+      ra: arrays.ra[i],
+      dec: arrays.dec[i],
+      mag: Math.round(arrays.mag[i] * 100) / 100,
+      bv: Math.round(arrays.bv[i] * 100) / 100,
+      name: arrays.names[arrays.nameIndex[i]],
+      con: arrays.constellations[arrays.conIndex[i]],
+      pmRA: arrays.pmRA[i],
+      pmDec: arrays.pmDec[i],
+    };
+  }
+  return stars;
+}
+
+/**
+ * HIP number -> index into the catalog.
+ */
+export function hipIndex(arrays: StarArrays): Map<number, number> {
+  const index = new Map<number, number>();
+  for (let i = 0; i < arrays.count; i++) {
+    index.set(arrays.hip[i], i);
+  }
+  return index;
+}
+
+function decodeBase64(text: string): Uint8Array {
+  const lookup = new Uint8Array(128);
+  for (let i = 0; i < BASE64.length; i++) {
+    lookup[BASE64.charCodeAt(i)] = i;
+  }
+
+  let length = text.length;
+  while (length > 0 && text.charAt(length - 1) === '=') length--;
+  const bytes = new Uint8Array(Math.floor(length * 3 / 4));
+
+  // Whole 4-character groups, then the 2 or 3 characters of a padded end
+  const whole = length - (length % 4);
+  let out = 0;
+  for (let i = 0; i < whole; i += 4) {
+    const n = (lookup[text.charCodeAt(i)] << 18) | (lookup[text.charCodeAt(i + 1)] << 12) |
+      (lookup[text.charCodeAt(i + 2)] << 6) | lookup[text.charCodeAt(i + 3)];
+    bytes[out] = n >> 16;
+    bytes[out + 1] = n >> 8;
+    bytes[out + 2] = n;
+    out += 3;
+  }
+  if (whole < length) {
+    let n = 0;
+    for (let i = whole; i < whole + 4; i++) {
+      n = (n << 6) | (i < length ? lookup[text.charCodeAt(i)] : 0);
+    }
+    for (let k = 0; out < bytes.length; k++) {
+      bytes[out++] = n >> (16 - 8 * k);
+    }
+  }
+  return bytes;
+}
@@ -1,1641 +1,566 @@
-// StarData.ts — Auto-generated from HYG v41 database
-// 1625 stars with magnitude <= 5
-// Generated: 2026-02-07T09:24:37.917Z
+// StarData.ts — Auto-generated from HYG v41 database (XHIP for figure stars it lacks)
+// 2051 stars: 1627 with magnitude <= 5, 424 fainter figure stars
 
-import { StarRecord } from './Types';
+import { StarArrays, StarRecord } from './Types';
+import { decodeStarCatalog, hipIndex, starRecords } from './StarCatalog';
 
-// Format: [hip, ra_rad, dec_rad, mag, bv, name, constellation]
-const RAW: [number, number, number, number, number, string, string][] = [
-  [32349,1.767795,-0.291751,-1.44,0.01,"Sirius","CMa"],
-  [30438,1.675305,-0.919713,-0.62,0.16,"Canopus","Car"],
-  [69673,3.733529,0.334796,-0.05,1.24,"Arcturus","Boo"],
-  [71683,3.838179,-1.061753,-0.01,0.71,"Rigil Kentaurus","Cen"],
-  [91262,4.873563,0.676903,0.03,0,"Vega","Lyr"],
-  [24608,1.381816,0.802816,0.08,0.8,"Capella","Aur"],
-  [24436,1.372430,-0.143146,0.18,-0.03,"Rigel","Ori"],
-  [37279,2.004083,0.091193,0.4,0.43,"Procyon","CMi"],
-  [7588,0.426355,-0.998970,0.45,-0.16,"Achernar","Eri"],
-  [27989,1.549729,0.129278,0.45,1.5,"Betelgeuse","Ori"],
-  [68702,3.681876,-1.053708,0.61,-0.23,"Hadar","Cen"],
-  [97649,5.195772,0.154781,0.76,0.22,"Altair","Aql"],
-  [60718,3.257651,-1.101287,0.77,-0.24,"Acrux","Cru"],
-  [21421,1.203931,0.288142,0.87,1.54,"Aldebaran","Tau"],
-  [65474,3.513317,-0.194802,0.98,-0.23,"Spica","Vir"],
-  [80763,4.317105,-0.461325,1.06,1.87,"Antares","Sco"],
-  [37826,2.030327,0.489149,1.16,0.99,"Pollux","Gem"],
-  [113368,6.011133,-0.517006,1.17,0.14,"Fomalhaut","PsA"],
-  [62434,3.349817,-1.041765,1.25,-0.24,"Mimosa","Cru"],
-  [102098,5.416769,0.790291,1.25,0.09,"Deneb","Cyg"],
-  [71681,3.838070,-1.061829,1.35,0.9,"Toliman","Cen"],
-  [49669,2.654523,0.208867,1.36,-0.09,"Regulus","Leo"],
-  [33579,1.826600,-0.505658,1.5,-0.21,"Adhara","CMa"],
-  [36850,1.983558,0.556555,1.58,0.03,"Castor","Gem"],
-  [61084,3.277579,-0.996814,1.59,1.6,"Gacrux","Cru"],
-  [85927,4.597235,-0.647584,1.62,-0.23,"Shaula","Sco"],
-  [25336,1.418652,0.110823,1.64,-0.22,"Bellatrix","Ori"],
-  [25428,1.423717,0.499294,1.65,-0.13,"Elnath","Tau"],
-  [45238,2.413801,-1.216795,1.67,0.07,"Miaplacidus","Car"],
-  [26311,1.467008,-0.020977,1.69,-0.18,"Alnilam","Ori"],
-  [109268,5.795508,-0.819624,1.73,-0.07,"Alnair","Gru"],
-  [26727,1.486841,-0.033904,1.74,-0.2,"Alnitak","Ori"],
-  [39953,2.135989,-0.826179,1.75,-0.14,"","Vel"],
-  [62956,3.377336,0.976683,1.76,-0.02,"Alioth","UMa"],
-  [15863,0.891526,0.870242,1.79,0.48,"Mirfak","Per"],
-  [90185,4.817860,-0.600125,1.79,-0.03,"Kaus Australis","Sgr"],
-  [54061,2.896065,1.077759,1.81,1.06,"Dubhe","UMa"],
-  [34444,1.869210,-0.460648,1.83,0.67,"Wezen","CMa"],
-  [67301,3.610830,0.860679,1.85,-0.1,"Alkaid","UMa"],
-  [41037,2.192632,-1.038636,1.86,1.2,"Avior","Car"],
-  [86228,4.613424,-0.750454,1.86,0.41,"Sargas","Sco"],
-  [28360,1.568741,0.784481,1.9,0.08,"Menkalinan","Aur"],
-  [82273,4.401130,-1.204761,1.91,1.45,"Atria","TrA"],
-  [31681,1.735345,0.286221,1.93,0,"Alhena","Gem"],
-  [42913,2.289451,-0.954849,1.93,0.04,"Alsephina","Vel"],
-  [100751,5.347896,-0.990214,1.94,-0.12,"Peacock","Pav"],
-  [11767,0.662287,1.557953,1.97,0.64,"Polaris","UMi"],
-  [30324,1.669843,-0.313390,1.98,-0.24,"Mirzam","CMa"],
-  [46390,2.476567,-0.151121,1.99,1.44,"Alphard","Hya"],
-  [9884,0.554898,0.409497,2.01,1.15,"Hamal","Ari"],
-  [50583,2.705140,0.346299,2.01,1.13,"Algieba","Leo"],
-  [3419,0.190195,-0.313925,2.04,1.02,"Diphda","Cet"],
-  [92855,4.953530,-0.458964,2.05,-0.13,"Nunki","Sgr"],
-  [68933,3.694355,-0.634775,2.06,1.01,"Menkent","Cen"],
-  [677,0.036597,0.507724,2.07,-0.04,"Alpheratz","And"],
-  [5447,0.304262,0.621696,2.07,1.58,"Mirach","And"],
-  [27366,1.517374,-0.168766,2.07,-0.17,"Saiph","Ori"],
-  [72607,3.886439,1.294258,2.07,1.47,"Kochab","UMi"],
-  [112122,5.945756,-0.818290,2.07,1.61,"Tiaki","Gru"],
-  [86032,4.603020,0.219214,2.08,0.16,"Rasalhague","Oph"],
-  [14576,0.821042,0.714811,2.09,0,"Algol","Per"],
-  [9640,0.540612,0.738793,2.1,1.37,"Almach","And"],
-  [57632,3.093857,0.254330,2.14,0.09,"Denebola","Leo"],
-  [4427,0.247438,1.059707,2.15,-0.05,"Cih","Cas"],
-  [61932,3.322750,-0.854511,2.2,-0.02,"","Cen"],
-  [39429,2.110034,-0.698187,2.21,-0.27,"Naos","Pup"],
-  [45556,2.430765,-1.034548,2.21,0.19,"Aspidiske","Car"],
-  [76267,4.078344,0.466259,2.22,0.03,"Alphecca","CrB"],
-  [44816,2.391084,-0.758042,2.23,1.67,"Suhail","Vel"],
-  [65378,3.507784,0.958628,2.23,0.06,"Mizar","UMa"],
-  [100453,5.332977,0.702612,2.23,0.67,"Sadr","Cyg"],
-  [3179,0.176745,0.986763,2.24,1.17,"Schedar","Cas"],
-  [87833,4.697581,0.898651,2.24,1.52,"Eltanin","Dra"],
-  [25930,1.448653,-0.005220,2.25,-0.17,"Mintaka","Ori"],
-  [746,0.040026,1.032358,2.28,0.38,"Caph","Cas"],
-  [66657,3.577435,-0.933165,2.29,-0.17,"","Cen"],
-  [78401,4.190245,-0.394823,2.29,-0.12,"Dschubba","Sco"],
-  [82396,4.407675,-0.598530,2.29,1.14,"Larawag","Sco"],
-  [71860,3.848143,-0.827080,2.3,-0.15,"","Lup"],
-  [71352,3.820121,-0.735793,2.33,-0.16,"","Cen"],
-  [53910,2.887824,0.984059,2.34,0.03,"Merak","UMa"],
-  [72105,3.861484,0.472534,2.35,0.97,"Izar","Boo"],
-  [107315,5.690585,0.172351,2.38,1.52,"Enif","Peg"],
-  [86670,4.635978,-0.681202,2.39,-0.17,"","Sco"],
-  [2081,0.114683,-0.738379,2.4,1.08,"Ankaa","Phe"],
-  [58001,3.114671,0.937150,2.41,0.04,"Phecda","UMa"],
-  [84012,4.495873,-0.274451,2.43,0.06,"Sabik","Oph"],
-  [113881,6.037853,0.490137,2.44,1.66,"Scheat","Peg"],
-  [35904,1.937730,-0.511436,2.45,-0.08,"Aludra","CMa"],
-  [105199,5.578848,1.092324,2.45,0.26,"Alderamin","Cep"],
-  [45941,2.452684,-0.960117,2.47,-0.14,"Markeb","Vel"],
-  [102488,5.437620,0.592893,2.48,1.02,"Aljanah","Cyg"],
-  [113963,6.042159,0.265382,2.49,0,"Markab","Peg"],
-  [14135,0.795344,0.071379,2.54,1.63,"Menkar","Cet"],
-  [81377,4.350927,-0.184431,2.54,0.04,"","Oph"],
-  [68002,3.645731,-0.825338,2.55,-0.18,"","Cen"],
-  [54872,2.941352,0.358206,2.56,0.13,"Zosma","Leo"],
-  [78820,4.212514,-0.345670,2.56,-0.06,"Acrab","Sco"],
-  [25985,1.451810,-0.311058,2.58,0.21,"Arneb","Lep"],
-  [59196,3.178064,-0.885273,2.58,-0.13,"","Cen"],
-  [59803,3.210560,-0.306164,2.58,-0.11,"Gienah","Crv"],
-  [93506,4.985585,-0.521506,2.6,0.06,"Ascella","Sgr"],
-  [74785,4.001198,-0.163763,2.61,-0.07,"Zubeneschamali","Lib"],
-  [77070,4.120146,0.112148,2.63,1.17,"Unukalhai","Ser"],
-  [8903,0.500212,0.363169,2.64,0.17,"Sheratan","Ari"],
-  [26634,1.481998,-0.594705,2.65,-0.12,"Phact","Col"],
-  [28380,1.569579,0.649482,2.65,-0.08,"Mahasim","Aur"],
-  [61359,3.291635,-0.408350,2.65,0.89,"Kraz","Crv"],
-  [6686,0.374430,1.051304,2.66,0.16,"Ruchbah","Cas"],
-  [67927,3.641999,0.321101,2.68,0.58,"Muphrid","Boo"],
-  [73273,3.920586,-0.752830,2.68,-0.18,"","Lup"],
-  [23015,1.295879,0.578857,2.69,1.49,"Hassaleh","Aur"],
-  [52727,2.822063,-0.862546,2.69,0.9,"","Vel"],
-  [61585,3.303840,-1.206643,2.69,-0.18,"","Mus"],
-  [85696,4.584823,-0.650935,2.7,-0.18,"Lesath","Sco"],
-  [35264,1.907395,-0.647473,2.71,1.62,"","Pup"],
-  [89931,4.803993,-0.520599,2.72,1.38,"Kaus Media","Sgr"],
-  [97278,5.176034,0.185236,2.72,1.51,"Tarazed","Aql"],
-  [79593,4.251385,-0.064478,2.73,1.58,"Yed Prior","Oph"],
-  [80331,4.293473,1.073626,2.73,0.91,"Athebyne","Dra"],
-  [52419,2.805429,-1.123895,2.74,-0.22,"","Car"],
-  [61941,3.323372,-0.025296,2.74,0.37,"Porrima","Vir"],
-  [26241,1.463603,-0.103147,2.75,-0.21,"Hatysa","Ori"],
-  [65109,3.493267,-0.640750,2.75,0.07,"","Cen"],
-  [72622,3.887191,-0.279982,2.75,0.15,"Zubenelgenubi","Lib"],
-  [86742,4.640275,0.079714,2.76,1.17,"Cebalrai","Oph"],
-  [23875,1.343248,-0.088775,2.78,0.16,"Cursa","Eri"],
-  [80816,4.320650,0.375065,2.78,0.95,"Kornephoros","Her"],
-  [84345,4.514502,0.251159,2.78,1.16,"Rasalgethi","Her"],
-  [59747,3.207678,-1.025362,2.79,-0.19,"Imai","Cru"],
-  [85670,4.583378,0.912831,2.79,0.95,"Rastaban","Dra"],
-  [76297,4.080322,-0.718495,2.8,-0.22,"","Lup"],
-  [25606,1.432241,-0.362321,2.81,0.81,"Nihal","Lep"],
-  [81693,4.368938,0.551572,2.81,0.65,"","Her"],
-  [2021,0.112028,-1.348341,2.82,0.62,"","Hyi"],
-  [81266,4.345357,-0.492462,2.82,-0.21,"Paikauhale","Sco"],
-  [90496,4.834434,-0.443692,2.82,1.02,"Kaus Borealis","Sgr"],
-  [1067,0.057752,0.265004,2.83,-0.19,"Algenib","Peg"],
-  [39757,2.127313,-0.424190,2.83,0.46,"Tureis","Pup"],
-  [77952,4.167606,-1.107075,2.83,0.32,"","TrA"],
-  [18246,1.021594,0.556474,2.84,0.27,"","Per"],
-  [85258,4.560981,-0.969179,2.84,1.48,"","Ara"],
-  [85792,4.589525,-0.870503,2.84,-0.14,"","Ara"],
-  [17702,0.992589,0.420714,2.85,-0.09,"Alcyone","Tau"],
-  [63608,3.412890,0.191273,2.85,0.93,"Vindemiatrix","Vir"],
-  [107556,5.703041,-0.281474,2.85,0.18,"Deneb Algedi","Cap"],
-  [9236,0.518219,-1.074597,2.86,0.29,"","Hyi"],
-  [97165,5.170426,0.787681,2.86,0,"Fawaris","Cyg"],
-  [30343,1.670980,0.392936,2.87,1.62,"Tejat","Gem"],
-  [74946,4.009505,-1.198684,2.87,0.01,"","TrA"],
-  [110130,5.840318,-1.051728,2.87,1.39,"","Tuc"],
-  [13847,0.777812,-0.703449,2.88,0.13,"Acamar","Eri"],
-  [94141,5.016791,-0.366931,2.88,0.38,"Albaldah","Sgr"],
-  [36188,1.951063,0.144676,2.89,-0.1,"Gomeisa","CMi"],
-  [63125,3.386063,0.668782,2.89,-0.11,"Cor Caroli","CVn"],
-  [78265,4.183781,-0.455777,2.89,-0.18,"Fang","Sco"],
-  [18532,1.037833,0.698310,2.9,-0.2,"","Per"],
-  [80112,4.281243,-0.446679,2.9,0.3,"Alniyat","Sco"],
-  [106278,5.635489,-0.097235,2.9,0.83,"Sadalsuud","Aqr"],
-  [14328,0.806327,0.933864,2.91,0.72,"","Per"],
-  [48002,2.561716,-1.135721,2.92,0.27,"","Car"],
-  [112158,5.947219,0.527460,2.93,0.85,"Matar","Peg"],
-  [32768,1.788683,-0.883391,2.94,1.21,"","Pup"],
-  [60965,3.271900,-0.288249,2.94,-0.01,"Algorab","Crv"],
-  [109074,5.784824,-0.005582,2.95,0.97,"Sadalmelik","Aqr"],
-  [18543,1.038599,-0.235768,2.97,1.59,"Zaurak","Eri"],
-  [26451,1.473253,0.369007,2.97,-0.15,"Tianguan","Tau"],
-  [47908,2.556258,0.414939,2.97,0.81,"Ras Elased Australis","Leo"],
-  [88635,4.737732,-0.531001,2.98,0.98,"Alnasl","Sgr"],
-  [64962,3.485953,-0.404419,2.99,0.92,"","Hya"],
-  [87073,4.658217,-0.700348,2.99,0.51,"","Sco"],
-  [93747,4.997795,0.241963,2.99,0.01,"Okab","Aql"],
-  [10064,0.565240,0.610644,3,0.14,"","Tri"],
-  [54539,2.921959,0.776645,3,1.14,"","UMa"],
-  [75097,4.017438,1.253740,3,0.06,"Pherkad","UMi"],
-  [82514,4.415118,-0.664052,3,-0.2,"Xamidimura","Sco"],
-  [108085,5.733095,-0.652140,3,-0.08,"Aldhanab","Gru"],
-  [17358,0.972694,0.834050,3.01,-0.12,"","Per"],
-  [30122,1.659429,-0.524705,3.02,-0.16,"Furud","CMa"],
-  [33977,1.845793,-0.415969,3.02,-0.08,"","CMa"],
-  [59316,3.185770,-0.394789,3.02,1.33,"","Crv"],
-  [23416,1.317588,0.764861,3.03,0.54,"Almaaz","Aur"],
-  [62322,3.343531,-1.188711,3.04,-0.18,"","Mus"],
-  [71075,3.805159,0.668605,3.04,0.19,"Seginus","Boo"],
-  [95947,5.108236,0.487988,3.05,1.09,"Albireo","Cyg"],
-  [100345,5.327666,-0.257984,3.05,0.79,"Dabih","Cap"],
-  [32246,1.762486,0.438621,3.06,1.38,"Mebsuta","Gem"],
-  [50801,2.715424,0.724303,3.06,1.6,"Tania Australis","UMa"],
-  [94376,5.028963,1.180917,3.07,0.99,"Altais","Dra"],
-  [89642,4.789304,-0.641612,3.1,1.58,"","Sgr"],
-  [43813,2.336096,0.103770,3.11,0.98,"","Hya"],
-  [52943,2.834523,-0.282632,3.11,1.23,"","Hya"],
-  [56561,3.035921,-1.099904,3.11,-0.04,"","Cen"],
-  [101772,5.399905,-0.825392,3.11,1,"","Ind"],
-  [27628,1.531351,-0.624275,3.12,1.15,"Wazn","Col"],
-  [44127,2.352746,0.838488,3.12,0.22,"Talitha","UMa"],
-  [83081,4.444570,-0.977212,3.12,1.55,"","Ara"],
-  [84379,4.516178,0.433526,3.12,0.08,"Sarin","Her"],
-  [73334,3.923332,-0.734857,3.13,-0.21,"","Cen"],
-  [45860,2.448066,0.600263,3.14,1.55,"","Lyn"],
-  [46701,2.492427,-0.995438,3.16,1.54,"","Vel"],
-  [84380,4.516246,0.642441,3.16,1.44,"","Her"],
-  [31685,1.735561,-0.753911,3.17,-0.1,"","Pup"],
-  [46853,2.499586,0.901939,3.17,0.48,"","UMa"],
-  [83895,4.488930,1.146938,3.17,-0.12,"Aldhibah","Dra"],
-  [92041,4.911603,-0.471078,3.17,-0.11,"","Sgr"],
-  [23767,1.337423,0.719677,3.18,-0.15,"Haedus","Aur"],
-  [71908,3.850674,-1.134030,3.18,0.26,"","Cir"],
-  [22449,1.264666,0.121497,3.19,0.48,"Tabit","Ori"],
-  [23685,1.332825,-0.390448,3.19,1.46,"","Lep"],
-  [83000,4.440416,0.163625,3.19,1.16,"","Oph"],
-  [87261,4.668136,-0.646528,3.19,1.19,"Fuyue","Sco"],
-  [104732,5.554233,0.527559,3.21,0.99,"","Cyg"],
-  [116727,6.193079,1.354939,3.21,1.03,"Errai","Cep"],
-  [75141,4.020244,-0.709433,3.22,-0.23,"","Lup"],
-  [79882,4.268733,-0.081900,3.23,0.97,"Yed Posterior","Oph"],
-  [89962,4.805371,-0.050594,3.23,0.94,"","Ser"],
-  [106032,5.622839,1.231517,3.23,-0.2,"Alfirk","Cep"],
-  [32607,1.781072,-1.081081,3.24,0.23,"","Pic"],
-  [99473,5.285314,-0.014337,3.24,-0.07,"","Aql"],
-  [36377,1.960139,-0.755753,3.25,1.51,"","Pup"],
-  [68895,3.692993,-0.465695,3.25,1.09,"","Hya"],
-  [73714,3.944751,-0.441254,3.25,1.67,"Brachium","Lib"],
-  [93194,4.969579,0.570540,3.25,-0.05,"Sulafat","Lyr"],
-  [17678,0.991512,-1.295714,3.26,1.59,"","Hyi"],
-  [3092,0.171600,0.538626,3.27,1.27,"","And"],
-  [84970,4.546625,-0.436324,3.27,-0.19,"","Oph"],
-  [113136,5.998043,-0.276125,3.27,0.07,"Skat","Aqr"],
-  [24305,1.365422,-0.282839,3.29,-0.11,"","Lep"],
-  [50099,2.677936,-1.222392,3.29,-0.07,"","Car"],
-  [75458,4.035767,1.029152,3.29,1.17,"Edasich","Dra"],
-  [21281,1.195533,-0.960716,3.3,-0.08,"","Dor"],
-  [51576,2.757727,-1.076612,3.3,-0.09,"","Car"],
-  [29655,1.635712,0.392818,3.31,1.6,"Propus","Gem"],
-  [85267,4.561393,-0.983977,3.31,-0.15,"","Ara"],
-  [5165,0.288348,-0.815390,3.32,0.89,"","Phe"],
-  [14354,0.807984,0.677891,3.32,1.53,"","Per"],
-  [59774,3.208898,0.995407,3.32,0.08,"Megrez","UMa"],
-  [84143,4.503618,-0.754666,3.32,0.44,"","Sco"],
-  [88048,4.708141,-0.170582,3.32,0.99,"","Oph"],
-  [93864,5.004471,-0.482940,3.32,1.17,"","Sgr"],
-  [19780,1.110135,-1.090375,3.33,0.92,"","Ret"],
-  [54879,2.941927,0.269297,3.33,0,"Chertan","Leo"],
-  [38170,2.047682,-0.433885,3.34,1.22,"Azmidi","Pup"],
-  [8886,0.499143,1.111253,3.35,-0.15,"Segin","Cas"],
-  [25281,1.415798,-0.041838,3.35,-0.24,"","Ori"],
-  [32362,1.768409,0.225071,3.35,0.44,"Alzirr","Gem"],
-  [41704,2.226455,1.059732,3.35,0.86,"Muscida","UMa"],
-  [95501,5.085446,0.054363,3.36,0.32,"","Aql"],
-  [75264,4.025956,-0.779981,3.37,-0.19,"","Lup"],
-  [43109,2.298491,0.112029,3.38,0.69,"Ashlesha","Hya"],
-  [66249,3.554770,-0.010399,3.38,0.11,"Heze","Vir"],
-  [26207,1.462315,0.173384,3.39,-0.16,"Meissa","Ori"],
-  [50371,2.692533,-1.070451,3.39,1.54,"","Car"],
-  [63090,3.384209,0.059297,3.39,1.57,"Minelauva","Vir"],
-  [109492,5.806948,1.015804,3.39,1.56,"","Cep"],
-  [20894,1.172260,0.276999,3.4,0.18,"Chamukuy","Tau"],
-  [6867,0.385567,-0.756046,3.41,1.54,"","Phe"],
-  [18724,1.050166,0.217998,3.41,-0.1,"","Tau"],
-  [67464,3.619397,-0.727588,3.41,-0.22,"","Cen"],
-  [74395,3.980597,-0.909303,3.41,0.92,"","Lup"],
-  [102422,5.433597,1.079290,3.41,0.91,"","Cep"],
-  [112029,5.940499,0.189043,3.41,-0.09,"Homam","Peg"],
-  [8796,0.493412,0.516248,3.42,0.49,"Mothallah","Tri"],
-  [78384,4.189323,-0.670149,3.42,-0.21,"","Lup"],
-  [86974,4.653306,0.483817,3.42,0.75,"","Her"],
-  [102395,5.432158,-1.155464,3.42,0.16,"","Pav"],
-  [45080,2.404052,-1.029166,3.43,-0.19,"","Car"],
-  [50335,2.690819,0.408709,3.43,0.31,"Adhafera","Leo"],
-  [93805,5.001455,-0.085217,3.43,-0.1,"","Aql"],
-  [50372,2.692594,0.748997,3.45,0.03,"Tania Borealis","UMa"],
-  [3821,0.214220,1.009065,3.46,0.59,"Achird","Cas"],
-  [5364,0.299280,-0.177714,3.46,1.16,"","Cet"],
-  [38827,2.080340,-0.924717,3.46,-0.18,"","Car"],
-  [74666,3.994633,0.581454,3.46,0.96,"","Boo"],
-  [12706,0.712534,0.056476,3.47,0.09,"Kaffaljidhma","Cet"],
-  [67472,3.619885,-0.741306,3.47,-0.17,"","Cen"],
-  [49583,2.649988,0.292564,3.48,-0.03,"","Leo"],
-  [81833,4.375959,0.679321,3.48,0.92,"","Her"],
-  [8102,0.454086,-0.278162,3.49,0.73,"","Cet"],
-  [33856,1.840097,-0.487555,3.49,1.73,"Nganurganity","CMa"],
-  [55219,2.960423,0.577605,3.49,1.4,"Alula Borealis","UMa"],
-  [73555,3.935483,0.704948,3.49,0.96,"Nekkar","Boo"],
-  [90422,4.830084,-0.802301,3.49,-0.18,"","Tel"],
-  [112623,5.971445,-0.895648,3.49,0.08,"","Gru"],
-  [32759,1.788269,-0.567380,3.5,-0.12,"","CMa"],
-  [35550,1.920399,0.383664,3.5,0.37,"Wasat","Gem"],
-  [112724,5.976362,1.155415,3.5,1.05,"","Cep"],
-  [98337,5.230565,0.340202,3.51,1.57,"","Sge"],
-  [112748,5.977766,0.429379,3.51,0.93,"Sadalbari","Peg"],
-  [17378,0.974105,-0.170403,3.52,0.92,"Rana","Eri"],
-  [47508,2.535748,0.172653,3.52,0.52,"Subra","Leo"],
-  [48774,2.604304,-0.952388,3.52,-0.07,"","Vel"],
-  [92420,4.930904,0.582288,3.52,0,"Sheliak","Lyr"],
-  [93085,4.964284,-0.368381,3.52,1.15,"","Sgr"],
-  [109427,5.804091,0.108173,3.52,0.09,"Biham","Peg"],
-  [20889,1.172061,0.334762,3.53,1.01,"Ain","Tau"],
-  [40526,2.166457,0.160318,3.53,1.48,"Tarf","Cnc"],
-  [56343,3.023793,-0.556020,3.54,0.95,"","Hya"],
-  [77516,4.143499,-0.059868,3.54,-0.04,"","Ser"],
-  [86263,4.614593,-0.268756,3.54,0.26,"","Ser"],
-  [20042,1.125276,-0.589892,3.55,-0.11,"","Eri"],
-  [27288,1.513880,-0.258692,3.55,0.1,"","Lep"],
-  [69996,3.749856,-0.803865,3.55,-0.18,"","Lup"],
-  [89937,4.804211,1.269428,3.55,0.49,"","Dra"],
-  [99240,5.273990,-1.155095,3.55,0.75,"","Pav"],
-  [1562,0.084770,-0.154006,3.56,1.21,"","Cet"],
-  [10602,0.595634,-0.899057,3.56,-0.12,"","Eri"],
-  [55282,2.964184,-0.257934,3.56,1.11,"","Crt"],
-  [82545,4.417148,-0.663531,3.56,-0.21,"Pipirima","Sco"],
-  [37740,2.026535,0.425825,3.57,0.93,"","Gem"],
-  [44471,2.372014,0.823037,3.57,0.01,"Alkaphrah","UMa"],
-  [71053,3.804076,0.530082,3.57,1.3,"","Boo"],
-  [75177,4.022139,-0.632880,3.57,1.53,"","Lup"],
-  [35350,1.911541,0.288684,3.58,0.11,"","Gem"],
-  [100064,5.314764,-0.218949,3.58,0.88,"Algedi","Cap"],
-  [7607,0.427572,0.848722,3.59,1.27,"Nembus","And"],
-  [24674,1.385820,-0.119457,3.59,-0.11,"","Ori"],
-  [27072,1.503005,-0.391798,3.59,0.48,"","Lep"],
-  [57757,3.100993,0.030800,3.59,0.52,"Zavijava","Vir"],
-  [60260,3.234801,-1.054199,3.59,1.39,"Ginan","Cru"],
-  [6537,0.366621,-0.142825,3.6,1.07,"","Cet"],
-  [33018,1.801132,0.592736,3.6,0.1,"","Gem"],
-  [42536,2.270208,-0.923661,3.6,-0.17,"","Vel"],
-  [46651,2.490150,-0.706278,3.6,0.37,"","Vel"],
-  [76470,4.088539,-0.491050,3.6,1.36,"","Lib"],
-  [85727,4.586285,-1.059133,3.6,-0.1,"","Ara"],
-  [13209,0.741694,0.475786,3.61,-0.1,"Bharani","Ari"],
-  [15900,0.893666,0.157584,3.61,0.89,"","Tau"],
-  [49841,2.664193,-0.215619,3.61,1.01,"","Hya"],
-  [63613,3.413277,-1.248763,3.61,1.19,"","Mus"],
-  [86929,4.650139,-1.129645,3.61,1.16,"","Pav"],
-  [7097,0.399172,0.267835,3.62,0.97,"Alpherg","Psc"],
-  [17847,0.999910,0.419811,3.62,-0.07,"Atlas","Tau"],
-  [37819,2.030058,-0.662677,3.62,1.71,"","Pup"],
-  [82729,4.426957,-0.739344,3.62,1.39,"","Sco"],
-  [113726,6.029768,0.738728,3.62,-0.1,"","And"],
-  [57363,3.078798,-1.164637,3.63,0.16,"","Mus"],
-  [101769,5.399826,0.254732,3.64,0.43,"Rotanev","Del"],
-  [20205,1.133562,0.272754,3.65,0.98,"Prima Hyadum","Tau"],
-  [46733,2.493758,1.100637,3.65,0.36,"","UMa"],
-  [77233,4.128522,0.269162,3.65,0.07,"","Ser"],
-  [88714,4.741323,-0.874261,3.65,-0.1,"","Ara"],
-  [110960,5.885389,-0.000349,3.65,0.41,"","Aqr"],
-  [75695,4.048418,0.507990,3.66,0.32,"Nusakan","CrB"],
-  [76600,4.095660,-0.519720,3.66,-0.18,"","Lib"],
-  [68756,3.684346,1.123571,3.67,-0.05,"Thuban","Dra"],
-  [103227,5.475141,-1.020217,3.67,1.25,"","Ind"],
-  [22549,1.270626,0.097828,3.68,-0.16,"","Ori"],
-  [42828,2.284603,-0.579212,3.68,-0.18,"","Pyx"],
-  [97365,5.180956,0.323484,3.68,1.31,"","Sge"],
-  [114341,6.062604,-0.369528,3.68,1.2,"","Aqr"],
-  [2920,0.161318,0.940679,3.69,-0.2,"Fulu","Cas"],
-  [9007,0.505944,-0.900745,3.69,0.84,"","Eri"],
-  [23453,1.319810,0.716909,3.69,1.15,"Saclateni","Aur"],
-  [47854,2.553622,-1.090969,3.69,1.01,"","Car"],
-  [57399,3.080728,0.833908,3.69,1.18,"Taiyangshou","UMa"],
-  [106985,5.672717,-0.290812,3.69,0.32,"Nashira","Cap"],
-  [15474,0.870556,-0.379746,3.7,1.61,"","Eri"],
-  [87933,4.702635,0.510472,3.7,0.94,"","Her"],
-  [114971,6.096285,0.057287,3.7,0.92,"","Psc"],
-  [22797,1.283915,0.042598,3.71,-0.18,"","Ori"],
-  [28103,1.555110,-0.247273,3.71,0.34,"","Lep"],
-  [38414,2.060437,-0.708181,3.71,1.01,"","Pup"],
-  [77622,4.148718,0.078151,3.71,0.15,"","Ser"],
-  [88771,4.744458,0.166921,3.71,0.16,"","Oph"],
-  [98036,5.215538,0.111819,3.71,0.86,"Alshain","Aql"],
-  [16537,0.929086,-0.165078,3.72,0.88,"Ran","Eri"],
-  [17499,0.981205,0.420857,3.72,-0.1,"Electra","Tau"],
-  [28358,1.568731,0.947446,3.72,1.01,"","Aur"],
-  [104060,5.519303,0.766686,3.72,1.61,"","Cyg"],
-  [16083,0.903946,0.169867,3.73,-0.08,"","Tau"],
-  [72220,3.866990,0.033037,3.73,0,"","Vir"],
-  [87585,4.684150,0.992615,3.73,1.18,"Grumium","Dra"],
-  [107089,5.678757,-1.350711,3.73,1.01,"","Oct"],
-  [112961,5.989161,-0.132289,3.73,1.63,"","Aqr"],
-  [8645,0.486338,-0.180380,3.74,1.14,"Baten Kaitos","Cet"],
-  [80170,4.284435,0.334285,3.74,0.3,"","Her"],
-  [104887,5.562325,0.664016,3.74,0.39,"","Cyg"],
-  [44511,2.374324,-0.822011,3.75,1.17,"","Vel"],
-  [87108,4.659561,0.047251,3.75,0.04,"","Oph"],
-  [26069,1.455715,-1.090653,3.76,0.64,"","Dor"],
-  [27654,1.532929,-0.364409,3.76,0.98,"","Lep"],
-  [30867,1.696538,-0.122750,3.76,-0.11,"","Mon"],
-  [93683,4.994622,-0.379461,3.76,1.01,"","Sgr"],
-  [95853,5.103805,0.902855,3.76,0.15,"","Cyg"],
-  [111169,5.896119,0.877595,3.76,0.03,"","Lac"],
-  [13268,0.744805,0.975560,3.77,1.69,"Miram","Per"],
-  [17529,0.982594,0.743136,3.77,0.43,"","Per"],
-  [20455,1.147270,0.306175,3.77,0.98,"Secunda Hyadum","Tau"],
-  [26549,1.478059,-0.045380,3.77,-0.19,"","Ori"],
-  [41312,2.206694,-1.154306,3.77,1.13,"","Vol"],
-  [42570,2.271660,-0.814174,3.77,0.67,"","Vel"],
-  [82363,4.406021,-1.030466,3.77,1.56,"","Ara"],
-  [101958,5.408942,0.277718,3.77,-0.06,"Sualocin","Del"],
-  [105881,5.614144,-0.391152,3.77,1,"","Cap"],
-  [109176,5.790177,0.442356,3.77,0.44,"","Peg"],
-  [34481,1.870763,-1.230438,3.78,1.01,"","Vol"],
-  [36046,1.944850,0.485168,3.78,1.02,"","Gem"],
-  [48319,2.578689,1.030420,3.78,0.29,"","UMa"],
-  [53253,2.851403,-1.027182,3.78,0.95,"","Car"],
-  [71795,3.844739,0.239604,3.78,0.04,"","Boo"],
-  [102618,5.444013,-0.165733,3.78,0,"Albali","Aqr"],
-  [14668,0.826830,0.782912,3.79,0.98,"Misam","Per"],
-  [53229,2.850609,0.597162,3.79,1.04,"Praecipua","LMi"],
-  [14879,0.838085,-0.505929,3.8,0.54,"Dalim","For"],
-  [37229,2.002029,-0.467815,3.8,-0.16,"","Pup"],
-  [76276,4.078845,0.183938,3.8,0.27,"","Ser"],
-  [94779,5.048812,0.931455,3.8,0.95,"","Cyg"],
-  [99675,5.295468,0.815790,3.8,1.27,"","Cyg"],
-  [21393,1.202317,-0.533413,3.81,0.96,"Theemin","Eri"],
-  [51232,2.739639,-1.025196,3.81,0.32,"","Car"],
-  [76952,4.113492,0.458945,3.81,0.02,"","CrB"],
-  [116584,6.185287,0.810848,3.81,0.98,"","And"],
-  [9487,0.532531,0.048237,3.82,0.02,"Alrescha","Psc"],
-  [45688,2.438418,0.642326,3.82,0.07,"","Lyn"],
-  [56211,3.016821,1.210056,3.82,1.61,"Giausar","Dra"],
-  [80883,4.323677,0.034626,3.82,0.02,"Marfik","Oph"],
-  [86414,4.622787,0.802962,3.82,-0.18,"","Her"],
-  [51069,2.731835,-0.293849,3.83,1.46,"","Hya"],
-  [68245,3.657648,-0.734797,3.83,-0.22,"","Cen"],
-  [72370,3.874029,-1.379591,3.83,1.43,"","Aps"],
-  [17440,0.978238,-1.131094,3.84,1.13,"","Ret"],
-  [17448,0.978776,0.563536,3.84,0.02,"Atik","Per"],
-  [20885,1.171879,0.278593,3.84,0.95,"","Tau"],
-  [43783,2.334585,-1.058448,3.84,-0.1,"","Car"],
-  [51624,2.761160,0.162431,3.84,-0.15,"","Leo"],
-  [51986,2.780759,-0.841696,3.84,0.3,"","Vel"],
-  [61199,3.283261,-1.258958,3.84,-0.16,"","Mus"],
-  [88794,4.745299,0.502000,3.84,-0.02,"","Her"],
-  [89341,4.772444,-0.367546,3.84,0.2,"Polis","Sgr"],
-  [97433,5.184374,1.226407,3.84,0.89,"","Dra"],
-  [19747,1.108292,-0.738176,3.85,1.09,"","Hor"],
-  [27321,1.515316,-0.891279,3.85,0.17,"","Pic"],
-  [30277,1.667286,-0.583575,3.85,0.86,"","Col"],
-  [50191,2.682294,-0.735167,3.85,0.05,"","Vel"],
-  [61281,3.287692,1.218035,3.85,-0.12,"","Dra"],
-  [61622,3.306106,-0.847206,3.85,0.05,"","Cen"],
-  [78072,4.173313,0.273347,3.85,0.48,"","Ser"],
-  [90139,4.815791,0.379954,3.85,1.17,"","Her"],
-  [91117,4.866009,-0.143886,3.85,1.32,"","Sct"],
-  [4436,0.247632,0.671940,3.86,0.13,"","And"],
-  [21594,1.213791,-0.249652,3.86,1.08,"Sceptrum","Eri"],
-  [25859,1.445187,-0.619077,3.86,1.13,"","Col"],
-  [79664,4.256150,-1.111525,3.86,1.11,"","TrA"],
-  [81065,4.334772,-1.377015,3.86,0.92,"","Aps"],
-  [87808,4.696040,0.650145,3.86,1.35,"","Her"],
-  [110395,5.854080,-0.024213,3.86,-0.06,"Sadachbia","Aqr"],
-  [17573,0.985355,0.425297,3.87,-0.06,"Maia","Tau"],
-  [43023,2.295228,-0.803576,3.87,0.02,"","Vel"],
-  [68282,3.659428,-0.781970,3.87,-0.21,"","Cen"],
-  [71957,3.853078,-0.098754,3.87,0.39,"","Vir"],
-  [78104,4.175197,-0.509882,3.87,-0.2,"Iklil","Sco"],
-  [97804,5.203144,0.017552,3.87,0.63,"","Aql"],
-  [765,0.041060,-0.798443,3.88,1.01,"","Phe"],
-  [8832,0.495369,0.336741,3.88,-0.05,"Mesarthim","Ari"],
-  [48455,2.586420,0.453907,3.88,1.22,"Rasalas","Leo"],
-  [74376,3.979067,-0.850635,3.88,-0.03,"","Lup"],
-  [114421,6.066583,-0.789704,3.88,1,"","Gru"],
-  [13701,0.769810,-0.155302,3.89,1.09,"Azha","Eri"],
-  [33152,1.806994,-0.422094,3.89,1.74,"","CMa"],
-  [45336,2.418871,0.040392,3.89,-0.06,"","Hya"],
-  [60129,3.228449,-0.011638,3.89,0.03,"Zaniah","Vir"],
-  [98110,5.219871,0.612321,3.89,1.02,"","Cyg"],
-  [47431,2.530099,-0.019946,3.9,1.31,"Ukdah","Hya"],
-  [55425,2.971454,-0.951048,3.9,-0.16,"","Cen"],
-  [65936,3.538848,-0.687787,3.9,1.19,"","Cen"],
-  [18907,1.060970,0.104533,3.91,0.03,"","Tau"],
-  [41307,2.206360,-0.068180,3.91,-0.01,"","Hya"],
-  [60823,3.263940,-0.876690,3.91,-0.19,"","Cen"],
-  [73807,3.949323,-0.821199,3.91,-0.14,"","Lup"],
-  [76333,4.082004,-0.258126,3.91,1.01,"Zubenelhakrabi","Lib"],
-  [79992,4.274925,0.808321,3.91,-0.15,"","Her"],
-  [83207,4.451853,0.539768,3.92,-0.02,"","Her"],
-  [95168,5.068753,-0.311492,3.92,0.23,"","Sgr"],
-  [104987,5.566832,0.091592,3.92,0.55,"Kitalpha","Equ"],
-  [2072,0.114332,-0.762357,3.93,0.18,"","Phe"],
-  [7083,0.398158,-0.856480,3.93,0.97,"","Phe"],
-  [13531,0.760343,0.920879,3.93,0.76,"","Per"],
-  [21444,1.205669,-0.058511,3.93,-0.21,"","Eri"],
-  [37504,2.015071,-1.267215,3.93,1.03,"","Vol"],
-  [54463,2.917274,-1.029309,3.93,1.23,"","Car"],
-  [78933,4.218492,-0.360745,3.93,-0.05,"","Sco"],
-  [88192,4.715204,0.051166,3.93,0.03,"","Oph"],
-  [5348,0.298384,-0.964220,3.94,-0.12,"Wurren","Phe"],
-  [37447,2.012571,-0.166699,3.94,1.02,"","Mon"],
-  [37677,2.023743,-0.505357,3.94,0.16,"","Pup"],
-  [42911,2.289370,0.316852,3.94,1.08,"Asellus Australis","Cnc"],
-  [103413,5.485455,0.718502,3.94,0.03,"","Cyg"],
-  [9598,0.538592,1.263990,3.95,0,"","Cas"],
-  [31592,1.730860,-0.336078,3.95,1.04,"","CMa"],
-  [19343,1.084990,0.832740,3.96,-0.02,"","Per"],
-  [28328,1.567073,-0.747265,3.96,1.15,"","Col"],
-  [44248,2.358992,0.729249,3.96,0.46,"","Lyn"],
-  [45101,2.405409,-1.087636,3.96,-0.18,"","Car"],
-  [95241,5.072966,-0.775955,3.96,-0.08,"Arkab Prior","Sgr"],
-  [95347,5.078411,-0.708882,3.96,-0.1,"Rukbat","Sgr"],
-  [99848,5.303497,0.832770,3.96,1.45,"","Cyg"],
-  [115438,6.121614,-0.350821,3.96,1.08,"","Aqr"],
-  [20535,1.152078,-0.593706,3.97,1.47,"Beemim","Eri"],
-  [27673,1.533664,0.683270,3.97,1.13,"","Aur"],
-  [35228,1.906033,-1.186076,3.97,0.76,"","Vol"],
-  [42515,2.269375,-0.616247,3.97,0.94,"","Pyx"],
-  [59449,3.192435,-0.914002,3.97,-0.16,"","Cen"],
-  [77634,4.149341,-0.586905,3.97,-0.04,"","Lup"],
-  [98495,5.238565,-1.272528,3.97,-0.03,"","Pav"],
-  [110997,5.887299,-0.759141,3.97,1.02,"","Gru"],
-  [112440,5.962617,0.411298,3.97,1.07,"","Peg"],
-  [18614,1.042682,0.624671,3.98,0.02,"Menkib","Per"],
-  [106481,5.646057,0.795728,3.98,0.89,"","Cyg"],
-  [9347,0.523621,-0.367878,3.99,1.55,"","Cet"],
-  [29651,1.635616,-0.109516,3.99,1.32,"","Mon"],
-  [50954,2.724439,-1.292095,3.99,0.37,"","Car"],
-  [65477,3.513456,0.959721,3.99,0.17,"Alcor","UMa"],
-  [114996,6.097438,-1.016405,3.99,0.41,"","Tuc"],
-  [44382,2.366870,-1.158830,4,0.14,"","Vol"],
-  [55642,2.984182,0.183775,4,0.42,"","Leo"],
-  [79374,4.241131,-0.339653,4,0.08,"Jabbah","Sco"],
-  [8068,0.452304,0.884685,4.01,-0.1,"","Per"],
-  [22109,1.245740,-0.056804,4.01,-0.15,"","Eri"],
-  [34088,1.850524,0.359019,4.01,0.9,"Mekbuda","Gem"],
-  [35037,1.897221,-0.467271,4.01,-0.15,"","CMa"],
-  [71865,3.848276,-0.659621,4.01,-0.16,"","Cen"],
-  [78527,4.197045,1.022156,4.01,0.53,"","Dra"],
-  [80000,4.275364,-0.875379,4.01,1.08,"","Nor"],
-  [91792,4.900167,-1.246656,4.01,1.13,"","Pav"],
-  [101076,5.364250,0.530031,4.01,0.4,"","Cyg"],
-  [43409,2.314884,-0.483628,4.02,1.27,"","Pyx"],
-  [59199,3.178303,-0.431600,4.02,0.33,"Alchiba","Crv"],
-  [93244,4.972542,0.262991,4.02,1.08,"","Aql"],
-  [93429,4.981521,-0.100166,4.02,1.08,"","Aql"],
-  [10670,0.599147,0.590745,4.03,0.02,"","Tri"],
-  [23522,1.323912,1.054916,4.03,0.92,"","Cam"],
-  [43103,2.298149,0.501955,4.03,1.01,"","Cnc"],
-  [63003,3.379804,-0.997943,4.03,-0.18,"","Cru"],
-  [88601,4.736190,0.043635,4.03,0.86,"","Oph"],
-  [101421,5.380906,0.197279,4.03,-0.12,"Aldulfin","Del"],
-  [118268,6.280181,0.119788,4.03,0.42,"","Psc"],
-  [19587,1.098971,-0.119338,4.04,0.33,"Beid","Eri"],
-  [57380,3.079892,0.113959,4.04,1.5,"","Vir"],
-  [70497,3.775139,0.904966,4.04,0.5,"","Boo"],
-  [111497,5.913858,-0.002051,4.04,-0.08,"","Aqr"],
-  [14632,0.824931,0.865915,4.05,0.6,"","Per"],
-  [40702,2.175213,-1.342502,4.05,0.41,"","Cha"],
-  [42884,2.288123,-0.744370,4.05,0.87,"","Vel"],
-  [55434,2.972019,0.105232,4.05,-0.06,"","Leo"],
-  [67459,3.619278,0.275725,4.05,1.52,"","Boo"],
-  [70090,3.754890,-0.661223,4.05,-0.03,"","Cen"],
-  [71536,3.830506,-0.862643,4.05,-0.15,"","Lup"],
-  [112716,5.975971,-0.237236,4.05,1.57,"","Aqr"],
-  [22957,1.293164,0.235872,4.06,1.16,"","Ori"],
-  [36962,1.989337,0.469419,4.06,1.54,"","Gem"],
-  [55705,2.988362,-0.308644,4.06,0.22,"","Crt"],
-  [59929,3.218278,-1.186139,4.06,1.6,"","Mus"],
-  [60009,3.222043,-1.117064,4.06,-0.17,"","Cru"],
-  [72010,3.855683,-0.613896,4.06,1.36,"","Cen"],
-  [83153,4.448775,-0.927825,4.06,1.45,"","Ara"],
-  [69701,3.735068,-0.104729,4.07,0.51,"Syrma","Vir"],
-  [74117,3.965578,-0.790283,4.07,-0.16,"","Lup"],
-  [74824,4.003415,-1.026275,4.07,0.09,"","Cir"],
-  [110991,5.886869,1.019538,4.07,0.78,"","Cep"],
-  [3693,0.206555,0.423542,4.08,1.1,"","And"],
-  [11001,0.618501,-1.198333,4.08,0.03,"","Hyi"],
-  [12387,0.695874,0.005734,4.08,-0.21,"","Cet"],
-  [14146,0.795834,-0.412325,4.08,0.16,"","Eri"],
-  [33160,1.807245,-0.210114,4.08,1.42,"","CMa"],
-  [46974,2.506486,-1.033754,4.08,-0.01,"","Car"],
-  [53740,2.878810,-0.319374,4.08,1.08,"Alkes","Crt"],
-  [92862,4.953833,0.767004,4.08,1.4,"","Lyr"],
-  [104139,5.523736,-0.300770,4.08,-0.01,"","Cap"],
-  [105502,5.594158,0.345654,4.08,1.11,"","Peg"],
-  [26366,1.470032,0.162153,4.09,0.95,"","Ori"],
-  [77450,4.139658,0.316630,4.09,1.62,"Gudja","Ser"],
-  [7513,0.422361,0.722662,4.1,0.54,"Titawin","And"],
-  [12777,0.716449,0.859199,4.1,0.51,"","Per"],
-  [38164,2.047438,-0.809365,4.1,-0.16,"","Pup"],
-  [90568,4.838185,-0.856443,4.1,1,"","Tel"],
-  [94160,5.017949,-0.686626,4.1,1.16,"","CrA"],
-  [12486,0.701041,-0.695608,4.11,1.01,"","Eri"],
-  [34045,1.848994,-0.272852,4.11,-0.11,"Muliphein","CMa"],
-  [42312,2.258648,-0.750301,4.11,0.11,"","Vel"],
-  [48356,2.580811,-0.259122,4.11,0.92,"Zhang","Hya"],
-  [51839,2.772761,-1.371965,4.11,1.58,"","Cha"],
-  [57439,3.082749,-1.067764,4.11,0.9,"","Cen"],
-  [76440,4.087212,-1.157451,4.11,1.16,"","TrA"],
-  [94114,5.015518,-0.661558,4.11,0.04,"Meridiana","CrA"],
-  [113638,6.025228,-0.920733,4.11,0.96,"","Gru"],
-  [12394,0.696334,-1.191483,4.12,-0.06,"","Hyi"],
-  [19812,1.112201,0.844902,4.12,0.94,"","Per"],
-  [28614,1.581196,0.168377,4.12,0.17,"","Ori"],
-  [58948,3.164321,0.152419,4.12,0.97,"","Vir"],
-  [98032,5.215312,-0.730739,4.12,1.06,"","Sgr"],
-  [102978,5.462102,-0.469828,4.12,1.63,"","Cap"],
-  [111043,5.889427,-0.763568,4.12,1.57,"","Gru"],
-  [25247,1.413486,-0.136276,4.13,0.94,"","Ori"],
-  [30883,1.697172,0.352768,4.13,-0.11,"","Gem"],
-  [77853,4.161849,-0.291981,4.13,1,"","Lib"],
-  [102485,5.437118,-0.441060,4.13,0.43,"","Cap"],
-  [112405,5.960568,-1.420377,4.13,0.21,"","Oct"],
-  [116771,6.195703,0.098197,4.13,0.51,"","Psc"],
-  [16369,0.920107,0.225788,4.14,1.11,"","Tau"],
-  [17608,0.987535,0.417978,4.14,-0.05,"Merope","Tau"],
-  [42313,2.258701,0.099550,4.14,0,"","Hya"],
-  [59072,3.171618,-1.127722,4.14,0.35,"","Cru"],
-  [76127,4.070674,0.547320,4.14,-0.13,"","CrB"],
-  [78159,4.178264,0.469108,4.14,1.23,"","CrB"],
-  [107354,5.692590,0.447590,4.14,0.43,"","Peg"],
-  [109937,5.829267,0.658840,4.14,1.45,"","Lac"],
-  [34769,1.884364,-0.008600,4.15,0,"","Mon"],
-  [85112,4.553924,0.648319,4.15,-0.01,"","Her"],
-  [116805,6.197700,0.773773,4.15,-0.07,"","And"],
-  [28734,1.588774,0.406022,4.16,0.84,"","Gem"],
-  [36366,1.959619,0.554745,4.16,0.32,"","Gem"],
-  [85340,4.565651,-0.421939,4.16,0.28,"","Oph"],
-  [2599,0.143989,1.098367,4.17,0.13,"","Cas"],
-  [17874,1.001183,-0.631814,4.17,0.93,"","Eri"],
-  [110003,5.833038,-0.135844,4.17,0.98,"Ancha","Aqr"],
-  [69427,3.721460,-0.179310,4.18,1.32,"Kang","Vir"],
-  [69732,3.736682,0.804393,4.18,0.09,"Xuange","Boo"],
-  [81304,4.347504,-0.615322,4.18,1.54,"","Sco"],
-  [109857,5.825179,0.995598,4.18,0.28,"","Cep"],
-  [111954,5.936980,-0.472000,4.18,-0.1,"","PsA"],
-  [67457,3.619139,-0.601279,4.19,1.52,"","Cen"],
-  [92043,4.911627,0.358601,4.19,0.48,"","Her"],
-  [25813,1.443318,0.103815,4.2,-0.14,"","Ori"],
-  [38835,2.080690,-0.399333,4.2,0.72,"","Pup"],
-  [51233,2.739659,0.640662,4.2,0.91,"","LMi"],
-  [81126,4.337593,0.740666,4.2,-0.01,"","Her"],
-  [112447,5.963323,0.212457,4.2,0.5,"","Peg"],
-  [113246,6.003707,-0.567924,4.2,0.95,"","PsA"],
-  [16228,0.912235,1.046156,4.21,0.42,"","Cam"],
-  [20635,1.157892,0.389102,4.21,0.14,"","Tau"],
-  [82080,4.389370,1.431820,4.21,0.9,"","UMi"],
-  [101093,5.365059,1.099455,4.21,0.2,"","Cep"],
-  [105858,5.613163,-1.140855,4.21,0.49,"","Pav"],
-  [13254,0.744312,0.668787,4.22,0.34,"","Per"],
-  [17651,0.989812,-0.405784,4.22,0.43,"","Eri"],
-  [38518,2.065173,-0.839555,4.22,-0.13,"","Pup"],
-  [78918,4.217555,-0.642321,4.22,-0.18,"","Lup"],
-  [80569,4.306704,-0.322122,4.22,0.22,"","Oph"],
-  [89908,4.802960,1.245080,4.22,-0.09,"","Dra"],
-  [92175,4.918227,-0.082866,4.22,1.09,"","Sct"],
-  [92609,4.940230,-1.085378,4.22,-0.15,"","Pav"],
-  [92791,4.950211,0.644002,4.22,1.58,"","Lyr"],
-  [102453,5.435228,0.536160,4.22,1.05,"","Cyg"],
-  [105102,5.573778,0.687567,4.22,0.1,"","Cyg"],
-  [114724,6.083880,-0.105575,4.22,1.55,"","Aqr"],
-  [1599,0.087478,-1.132279,4.23,0.58,"","Tuc"],
-  [37629,2.021580,0.504112,4.23,1.12,"","Gem"],
-  [64394,3.455203,0.486566,4.23,0.57,"","Com"],
-  [67153,3.602745,-0.576722,4.23,0.39,"","Cen"],
-  [68520,3.672376,0.026957,4.23,0.12,"","Vir"],
-  [79101,4.227055,0.784262,4.23,-0.04,"","Her"],
-  [81852,4.376795,-1.352934,4.23,1.06,"","Aps"],
-  [93825,5.002193,-0.646879,4.23,0.52,"","CrA"],
-  [107259,5.687625,1.025905,4.23,2.24,"","Cep"],
-  [107533,5.701962,0.860614,4.23,-0.12,"","Cyg"],
-  [5372,0.299921,1.505470,4.24,1.21,"","Cep"],
-  [11407,0.641344,-0.832589,4.24,-0.14,"","Eri"],
-  [12770,0.716120,-0.241880,4.24,-0.12,"","Cet"],
-  [60000,3.221654,-1.384260,4.24,-0.12,"","Cha"],
-  [61317,3.288832,0.721824,4.24,0.59,"Chara","CVn"],
-  [80911,4.325721,-0.605705,4.24,-0.17,"","Sco"],
-  [86565,4.631295,-0.224716,4.24,0.09,"","Ser"],
-  [114855,6.090726,-0.158611,4.24,1.11,"","Aqr"],
-  [5896,0.330575,-1.202112,4.25,0.48,"","Tuc"],
-  [19167,1.075926,0.878795,4.25,-0.01,"","Per"],
-  [21402,1.202769,0.177339,4.25,0.18,"","Tau"],
-  [21476,1.207290,0.720207,4.25,1.17,"","Per"],
-  [23972,1.348906,-0.152788,4.25,-0.19,"","Eri"],
-  [41075,2.194033,0.753775,4.25,1.55,"Alsciaukat","Lyn"],
-  [62896,3.374753,-0.701254,4.25,0.22,"","Cen"],
-  [70692,3.785294,1.321144,4.25,1.43,"","UMi"],
-  [107418,5.696095,1.066759,4.25,0.47,"","Cep"],
-  [5434,0.303260,0.824525,4.26,0.01,"","And"],
-  [8198,0.459867,0.159833,4.26,0.94,"Torcular","Psc"],
-  [15510,0.872301,-0.751710,4.26,0.71,"82 G. Eri","Eri"],
-  [16611,0.932826,-0.377565,4.26,-0.11,"","Eri"],
-  [19893,1.117123,-0.898612,4.26,0.31,"","Dor"],
-  [22783,1.283036,1.157898,4.26,-0.01,"","Cam"],
-  [44066,2.349593,0.206956,4.26,0.14,"Acubens","Cnc"],
-  [86170,4.610057,-0.674313,4.26,1.08,"","Sco"],
-  [88267,4.718964,0.376918,4.26,0.41,"","Her"],
-  [108917,5.776115,1.127971,4.26,0.38,"Kurhah","Cep"],
-  [4906,0.274643,0.137709,4.27,0.95,"","Psc"],
-  [12828,0.719697,0.176525,4.27,0.31,"","Cet"],
-  [19860,1.114979,0.155201,4.27,-0.05,"","Tau"],
-  [21589,1.213692,0.218355,4.27,0.12,"","Tau"],
-  [21881,1.231526,0.400674,4.27,-0.11,"","Tau"],
-  [64004,3.433546,-0.871028,4.27,-0.18,"","Cen"],
-  [74911,4.007860,-0.835581,4.27,-0.09,"","Lup"],
-  [95294,5.075498,-0.781904,4.27,0.35,"Arkab Posterior","Sgr"],
-  [102532,5.439573,0.281422,4.27,1.04,"","Del"],
-  [115830,6.143421,0.111334,4.27,1.06,"","Psc"],
-  [20711,1.161986,0.398172,4.28,0.26,"","Tau"],
-  [47193,2.518026,1.419413,4.28,1.49,"","Dra"],
-  [51172,2.736466,-0.542235,4.28,1.43,"","Ant"],
-  [85423,4.569946,-0.521278,4.28,0.4,"","Oph"],
-  [99655,5.294444,0.987293,4.28,0.11,"","Cyg"],
-  [105515,5.594856,-0.293818,4.28,0.89,"","Cap"],
-  [109410,5.803165,0.579069,4.28,0.47,"","Peg"],
-  [114131,6.051401,-0.759574,4.28,0.42,"","Gru"],
-  [16852,0.946287,0.007010,4.29,0.57,"","Tau"],
-  [24845,1.394411,-0.229978,4.29,-0.23,"","Lep"],
-  [52154,2.789502,-0.970460,4.29,1.02,"","Vel"],
-  [57936,3.110651,-0.591808,4.29,-0.1,"","Hya"],
-  [77055,4.119230,1.357770,4.29,0.04,"","UMi"],
-  [80894,4.324662,-0.289947,4.29,0.92,"","Oph"],
-  [109139,5.787674,-0.242072,4.29,-0.07,"","Aqr"],
-  [111188,5.897055,-0.564545,4.29,0.01,"","PsA"],
-  [116631,6.187788,0.755170,4.29,-0.08,"","And"],
-  [4577,0.255717,-0.512384,4.3,-0.15,"","Scl"],
-  [11484,0.646466,0.147656,4.3,-0.05,"","Cet"],
-  [17531,0.982656,0.427035,4.3,-0.11,"Taygeta","Tau"],
-  [17797,0.997446,-0.656596,4.3,-0.04,"","Eri"],
-  [20648,1.158417,0.312901,4.3,0.05,"","Tau"],
-  [28404,1.570513,0.801747,4.3,1.7,"","Aur"],
-  [42799,2.282998,0.059318,4.3,-0.19,"","Hya"],
-  [53417,2.860653,0.431964,4.3,0.02,"","Leo"],
-  [56647,3.041013,-0.014377,4.3,0.98,"","Leo"],
-  [57669,3.096583,-1.113319,4.3,-0.15,"","Cen"],
-  [61174,3.281527,-0.282674,4.3,0.39,"","Crv"],
-  [70069,3.753879,-0.984130,4.3,0.08,"","Cen"],
-  [100027,5.312991,-0.218309,4.3,0.93,"","Cap"],
-  [42568,2.271621,-1.043026,4.31,-0.12,"","Car"],
-  [70638,3.782687,-1.460280,4.31,1.3,"","Oct"],
-  [75411,4.033852,0.652355,4.31,0.31,"Alkalurops","Boo"],
-  [78990,4.221103,-0.364229,4.31,0.83,"","Sco"],
-  [101847,5.403269,-0.019288,4.31,0.95,"","Aql"],
-  [16826,0.944614,0.841120,4.32,-0.06,"","Per"],
-  [21763,1.223658,-0.343332,4.32,1.6,"","Eri"],
-  [25945,1.449550,0.324531,4.32,2.06,"","Tau"],
-  [29696,1.637897,0.514839,4.32,1.02,"","Aur"],
-  [43067,2.296747,-0.236452,4.32,0.9,"","Hya"],
-  [46750,2.494601,0.400867,4.32,1.54,"Alterf","Leo"],
-  [58758,3.154800,-1.105019,4.32,0.28,"","Cru"],
-  [64241,3.446974,0.305946,4.32,0.46,"Diadem","Com"],
-  [67669,3.629529,-0.575855,4.32,-0.15,"","Cen"],
-  [72683,3.890507,-0.760533,4.32,-0.15,"","Lup"],
-  [84880,4.541467,-0.224220,4.32,0.04,"","Ser"],
-  [36284,1.955481,0.155780,4.33,1.43,"","CMi"],
-  [62867,3.373353,-0.854222,4.33,1.34,"","Cen"],
-  [70576,3.779424,-0.792018,4.33,0.43,"","Lup"],
-  [84405,4.517567,-0.464307,4.33,0.86,"Guniibuu","Oph"],
-  [88866,4.749826,-1.111226,4.33,0.23,"","Pav"],
-  [89826,4.799053,0.629445,4.33,1.16,"","Lyr"],
-  [2912,0.160923,0.588514,4.34,-0.12,"","And"],
-  [3031,0.168233,0.511587,4.34,0.87,"","And"],
-  [5542,0.310237,0.962547,4.34,0.17,"","Cas"],
-  [27100,1.504358,-1.147301,4.34,0.22,"","Dor"],
-  [31125,1.709795,-0.408729,4.34,-0.24,"","CMa"],
-  [40888,2.184484,-1.352359,4.34,1.16,"","Cha"],
-  [45496,2.426887,-1.004288,4.34,1.6,"","Car"],
-  [47175,2.516880,-0.861408,4.34,0.17,"","Vel"],
-  [68523,3.672718,-0.795930,4.34,0.6,"","Cen"],
-  [76552,4.093032,-0.742940,4.34,1.41,"","Lup"],
-  [85355,4.566282,0.072263,4.34,1.48,"","Oph"],
-  [91971,4.907746,0.656333,4.34,0.19,"","Lyr"],
-  [92161,4.917557,0.317327,4.34,0.15,"","Her"],
-  [107348,5.692006,0.302815,4.34,1.16,"","Peg"],
-  [111022,5.888437,0.832642,4.34,1.68,"","Lac"],
-  [14838,0.836141,0.344295,4.35,1.03,"Botein","Ari"],
-  [22509,1.268034,0.155337,4.35,0.01,"","Ori"],
-  [31407,1.723410,-0.924599,4.35,-0.02,"","Car"],
-  [33449,1.820713,1.019670,4.35,0.85,"","Lyn"],
-  [39794,2.128998,-1.197594,4.35,-0.11,"","Vol"],
-  [43234,2.305723,0.101889,4.35,-0.04,"","Hya"],
-  [60742,3.259132,0.493377,4.35,1.13,"","Com"],
-  [74857,4.004792,-0.526194,4.35,1.1,"","Lup"],
-  [85822,4.591154,1.511219,4.35,0.02,"Yildun","UMi"],
-  [90098,4.813736,-1.073271,4.35,1.46,"","Pav"],
-  [94713,5.045608,0.665559,4.35,1.26,"","Lyr"],
-  [107380,5.693904,-0.576409,4.35,-0.05,"","PsA"],
-  [2484,0.137634,-1.098828,4.36,-0.06,"","Tuc"],
-  [3405,0.189168,-1.002920,4.36,0.02,"","Phe"],
-  [10324,0.580322,0.154404,4.36,0.88,"","Cet"],
-  [16335,0.918806,0.837675,4.36,1.37,"","Per"],
-  [19038,1.067684,0.385402,4.36,1.06,"","Tau"],
-  [22701,1.277993,-0.095167,4.36,0.26,"","Eri"],
-  [24327,1.366729,-0.225868,4.36,-0.09,"","Lep"],
-  [28199,1.560049,-0.615809,4.36,-0.16,"","Col"],
-  [33347,1.815741,-0.297653,4.36,-0.06,"","CMa"],
-  [39863,2.131894,-0.052077,4.36,0.97,"","Mon"],
-  [68862,3.691573,-0.718720,4.36,-0.2,"","Cen"],
-  [96468,5.134415,-0.022455,4.36,-0.08,"","Aql"],
-  [154,0.008554,-0.104965,4.37,1.63,"","Psc"],
-  [29807,1.643019,-0.613318,4.37,0.98,"","Col"],
-  [35415,1.914225,-0.435536,4.37,-0.13,"","CMa"],
-  [53773,2.880467,-0.736980,4.37,0.12,"","Vel"],
-  [88886,4.750604,0.363283,4.37,-0.16,"","Her"],
-  [98412,5.234837,-0.615688,4.37,-0.15,"","Sgr"],
-  [64238,3.446806,-0.096674,4.38,-0.01,"","Vir"],
-  [99255,5.274772,1.356320,4.38,-0.05,"","Cep"],
-  [115669,6.135035,-0.360271,4.38,1.46,"","Aqr"],
-  [116231,6.165248,-0.660053,4.38,-0.09,"","Scl"],
-  [8837,0.495875,-0.808134,4.39,1.6,"","Phe"],
-  [17884,1.001476,1.143644,4.39,1.87,"","Cam"],
-  [26176,1.460931,0.165624,4.39,-0.16,"","Ori"],
-  [27913,1.546288,0.353886,4.39,0.59,"","Ori"],
-  [30419,1.674504,0.080161,4.39,0.22,"","Mon"],
-  [39311,2.104281,0.040746,4.39,1.25,"","CMi"],
-  [49637,2.652484,0.174489,4.39,1.45,"","Leo"],
-  [73620,3.939647,0.036500,4.39,1.03,"","Vir"],
-  [82673,4.424444,0.177419,4.39,-0.09,"","Oph"],
-  [84893,4.542246,-0.368490,4.39,0.39,"","Oph"],
-  [96757,5.149142,0.314402,4.39,0.78,"Sham","Sge"],
-  [96837,5.153298,0.305014,4.39,1.04,"","Sge"],
-  [105319,5.584468,-0.932868,4.39,0.19,"","Ind"],
-  [4463,0.249611,0.408715,4.4,0.94,"","And"],
-  [38070,2.042411,-0.452689,4.4,-0.07,"","Pup"],
-  [39906,2.133784,-0.335889,4.4,-0.16,"","Pup"],
-  [93015,4.960883,-1.173446,4.4,0.53,"","Pav"],
-  [108431,5.750500,-0.959801,4.4,0.3,"","Ind"],
-  [32761,1.788331,-0.935888,4.41,0.9,"","Car"],
-  [34693,1.881201,0.527878,4.41,1.26,"","Gem"],
-  [70300,3.765711,-0.689611,4.41,-0.18,"","Cen"],
-  [85693,4.584712,0.455717,4.41,1.43,"Maasym","Her"],
-  [87998,4.705855,0.526902,4.41,0.38,"","Her"],
-  [105138,5.575969,0.609066,4.41,-0.1,"","Cyg"],
-  [114222,6.055845,1.315760,4.41,0.8,"","Cep"],
-  [115033,6.099505,-0.160265,4.41,-0.14,"","Aqr"],
-  [115102,6.103521,-0.567791,4.41,1.11,"","Scl"],
-  [29038,1.603836,0.257758,4.42,-0.16,"","Ori"],
-  [31700,1.736124,-0.318304,4.42,1.14,"","CMa"],
-  [34922,1.891667,-0.779110,4.42,1.33,"","Pup"],
-  [34981,1.894789,-0.459938,4.42,-0.17,"","CMa"],
-  [40326,2.155694,-0.704204,4.42,1.17,"","Pup"],
-  [53954,2.889958,0.352205,4.42,0.05,"","Leo"],
-  [72571,3.884618,-0.488001,4.42,1.37,"","Hya"],
-  [77257,4.129639,0.128335,4.42,0.6,"","Ser"],
-  [88290,4.720039,0.022778,4.42,0.05,"","Oph"],
-  [110538,5.862389,0.911569,4.42,1.01,"","Lac"],
-  [115623,6.132125,0.408479,4.42,0.62,"Alkarab","Peg"],
-  [17593,0.986732,-0.211213,4.43,1.6,"","Eri"],
-  [19849,1.113835,-0.133568,4.43,0.82,"Keid","Eri"],
-  [23040,1.297158,0.938151,4.43,-0.02,"","Cam"],
-  [94481,5.034219,0.683226,4.43,-0.15,"Aladfar","Lyr"],
-  [98688,5.247585,-0.483628,4.43,1.64,"","Sgr"],
-  [100587,5.340098,0.561824,4.43,1.33,"","Cyg"],
-  [102281,5.425613,0.263101,4.43,0.3,"","Del"],
-  [102624,5.444281,-0.087750,4.43,1.64,"","Aqr"],
-  [1170,0.063880,-0.330441,4.44,1.64,"","Cet"],
-  [3786,0.212417,0.132385,4.44,1.5,"","Psc"],
-  [19921,1.119124,-1.035018,4.44,1.08,"","Ret"],
-  [21770,1.224184,-0.730660,4.44,0.34,"","Cae"],
-  [30060,1.656418,1.029936,4.44,0.03,"","Lyn"],
-  [36795,1.981180,-0.389140,4.44,0.52,"","Pup"],
-  [40091,2.143955,-0.691474,4.44,1.59,"","Pup"],
-  [40706,2.175359,-0.639825,4.44,0.22,"","Pup"],
-  [71121,3.807513,-0.880644,4.44,-0.18,"","Lup"],
-  [95771,5.099440,0.430484,4.44,1.5,"Anser","Vul"],
-  [7884,0.442579,0.095777,4.45,1.35,"","Psc"],
-  [13147,0.737795,-0.565590,4.45,0.98,"","For"],
-  [24244,1.362659,-0.207157,4.45,-0.1,"","Lep"],
-  [29426,1.622894,0.247990,4.45,-0.18,"","Ori"],
-  [42402,2.263506,0.058319,4.45,1.22,"Minchir","Hya"],
-  [44191,2.356588,-0.720011,4.45,0.65,"","Vel"],
-  [51849,2.773278,-1.004570,4.45,1.6,"","Car"],
-  [52633,2.817770,-1.405691,4.45,-0.19,"","Cha"],
-  [55084,2.952494,-0.063732,4.45,0.21,"","Leo"],
-  [80975,4.329013,-0.374659,4.45,0.13,"","Oph"],
-  [94648,5.042054,1.280294,4.45,1.26,"","Dra"],
-  [96229,5.122930,0.128787,4.45,1.18,"","Aql"],
-  [11569,0.650424,1.176395,4.46,0.15,"","Cas"],
-  [18255,1.022290,-0.051570,4.46,0.67,"","Eri"],
-  [24331,1.366992,0.049938,4.46,1.17,"","Ori"],
-  [44901,2.394905,0.900671,4.46,0.29,"","UMa"],
-  [54682,2.930661,-0.398386,4.46,0.03,"","Crt"],
-  [59173,3.176880,-0.884206,4.46,-0.16,"","Cen"],
-  [80582,4.307403,-0.829988,4.46,-0.07,"","Nor"],
-  [112948,5.988773,-0.573786,4.46,-0.04,"","PsA"],
-  [12843,0.720397,-0.324152,4.47,0.48,"","Eri"],
-  [15549,0.874145,0.506991,4.47,1.56,"","Ari"],
-  [23123,1.302663,0.029915,4.47,1.37,"","Ori"],
-  [30788,1.693712,-0.568629,4.47,-0.17,"","CMa"],
-  [31216,1.714366,0.127984,4.47,0.02,"","Mon"],
-  [38957,2.086719,-0.859486,4.47,-0.18,"","Pup"],
-  [44599,2.378653,-1.267156,4.47,0.61,"","Car"],
-  [46146,2.463769,0.456968,4.47,1.22,"","Leo"],
-  [47006,2.508144,0.908470,4.47,0.03,"","UMa"],
-  [57803,3.102956,-0.788426,4.47,1.28,"","Cen"],
-  [71284,3.816511,0.519150,4.47,0.36,"","Boo"],
-  [73165,3.914701,-0.075860,4.47,0.32,"","Lib"],
-  [104858,5.560969,0.174655,4.47,0.53,"","Equ"],
-  [109111,5.786268,-0.690162,4.47,1.35,"","Gru"],
-  [3504,0.195150,0.842721,4.48,-0.07,"","Cas"],
-  [18744,1.051110,-1.084884,4.48,1.5,"","Ret"],
-  [20713,1.162152,0.272590,4.48,0.26,"","Tau"],
-  [32578,1.779628,0.042100,4.48,1.1,"","Mon"],
-  [49641,2.652630,-0.006486,4.48,-0.03,"","Sex"],
-  [75323,4.028994,-1.035343,4.48,0.17,"","Cir"],
-  [80343,4.293960,-0.349717,4.48,1,"","Oph"],
-  [113889,6.038302,0.066672,4.48,-0.11,"Fumalsamakah","Psc"],
-  [114119,6.050536,-0.414396,4.48,0.89,"","Aqr"],
-  [9480,0.532145,1.237561,4.49,0.16,"","Cas"],
-  [21248,1.193410,-0.519523,4.49,0.97,"","Eri"],
-  [32249,1.762731,0.230872,4.49,1.17,"","Gem"],
-  [34834,1.887403,-0.816104,4.49,0.32,"","Pup"],
-  [38455,2.062299,-0.678284,4.49,-0.19,"","Pup"],
-  [49593,2.650410,0.615136,4.49,0.19,"","LMi"],
-  [71762,3.842892,0.286554,4.49,0,"","Boo"],
-  [96441,5.133198,0.876524,4.49,0.4,"","Cyg"],
-  [104234,5.528888,-0.436434,4.49,1.6,"","Cap"],
-  [107310,5.690396,0.501654,4.49,0.51,"","Cyg"],
-  [116928,6.204849,0.031068,4.49,0.2,"","Psc"],
-  [116971,6.207797,-0.253856,4.49,-0.03,"","Aqr"],
-  [118322,6.282817,-1.144537,4.49,-0.07,"","Tuc"],
-  [26594,1.479977,0.071933,4.5,-0.1,"","Ori"],
-  [27530,1.526409,-0.980293,4.5,1.08,"","Pic"],
-  [43105,2.298203,-0.990820,4.5,-0.17,"","Car"],
-  [50676,2.709246,-0.978139,4.5,-0.1,"","Vel"],
-  [57565,3.089170,0.352887,4.5,0.55,"","Leo"],
-  [67275,3.609614,0.304680,4.5,0.51,"","Boo"],
-  [99874,5.304793,0.485450,4.5,1.26,"","Vul"],
-  [104459,5.539649,-0.198473,4.5,0.93,"","Aqr"],
-  [106039,5.623116,-0.380607,4.5,0.89,"","Cap"],
-  [109285,5.796166,-0.575757,4.5,0.05,"","PsA"],
-  [109754,5.820144,0.693156,4.5,1.39,"","Lac"],
-  [111944,5.936362,0.772767,4.5,1.32,"","Lac"],
-  [1473,0.079970,0.642023,4.51,0.05,"","And"],
-  [5586,0.312678,0.525163,4.51,1.09,"","Psc"],
-  [27483,1.523559,0.683839,4.51,0.95,"","Aur"],
-  [46515,2.483802,-0.627469,4.51,1.41,"","Ant"],
-  [47391,2.527893,-1.070377,4.51,-0.07,"","Car"],
-  [76852,4.108291,0.343313,4.51,0.06,"","Ser"],
-  [98702,5.248282,1.184617,4.51,1.31,"","Dra"],
-  [102333,5.428140,-0.906192,4.51,0.28,"","Ind"],
-  [106723,5.659581,-0.339746,4.51,-0.18,"","Cap"],
-  [110838,5.878844,-1.133877,4.51,-0.03,"","Tuc"],
-  [117863,6.258680,1.003554,4.51,1.19,"","Cas"],
-  [13061,0.732640,0.510459,4.52,1.11,"Lilii Borea","Ari"],
-  [65271,3.502146,-1.064448,4.52,-0.14,"","Cen"],
-  [65387,3.508145,-1.126360,4.52,0.82,"","Cen"],
-  [69974,3.748574,-0.233370,4.52,0.13,"Khambalia","Vir"],
-  [73745,3.946390,0.470325,4.52,1.24,"","Boo"],
-  [89112,4.761387,-0.802056,4.52,1.01,"","Tel"],
-  [95176,5.068990,-0.278468,4.52,0.08,"","Sgr"],
-  [102431,5.433876,1.004956,4.52,0.54,"","Cep"],
-  [106140,5.628461,0.412576,4.52,1.62,"","Peg"],
-  [111104,5.892614,0.752645,4.52,-0.09,"","Lac"],
-  [2487,0.137692,-1.098956,4.53,0.15,"","Tuc"],
-  [3881,0.217355,0.716962,4.53,-0.14,"","And"],
-  [28413,1.571040,-0.053656,4.53,1.2,"","Ori"],
-  [37096,1.995647,-0.610316,4.53,-0.08,"","Pup"],
-  [69483,3.724022,0.903905,4.53,0.23,"","Boo"],
-  [85365,4.566791,-0.088778,4.53,0.39,"","Oph"],
-  [87072,4.658111,-0.485739,4.53,0.6,"","Sgr"],
-  [102589,5.442848,0.636883,4.53,-0.08,"","Cyg"],
-  [114570,6.076144,0.862301,4.53,0.3,"","And"],
-  [24727,1.388305,0.582445,4.54,1.25,"","Aur"],
-  [31416,1.723759,-0.400811,4.54,-0.04,"","CMa"],
-  [46776,2.495743,-0.020676,4.54,0.11,"","Hya"],
-  [46952,2.505521,0.635257,4.54,0.91,"","LMi"],
-  [46977,2.506651,1.218769,4.54,0.78,"","UMa"],
-  [72659,3.889421,0.333366,4.54,0.72,"","Boo"],
-  [74392,3.980317,-0.345431,4.54,-0.07,"","Lib"],
-  [75304,4.028027,-0.643302,4.54,-0.15,"","Lup"],
-  [98162,5.222667,-0.474204,4.54,1.46,"","Sgr"],
-  [114144,6.051948,0.164227,4.54,1.56,"","Peg"],
-  [115919,6.148598,0.222714,4.54,0.94,"","Peg"],
-  [301,0.016318,-0.302570,4.55,-0.05,"","Cet"],
-  [16281,0.915916,1.027628,4.55,0.49,"","Cam"],
-  [23595,1.328223,-0.619295,4.55,1.18,"","Cae"],
-  [33694,1.832879,1.343509,4.55,1.37,"","Cam"],
-  [36425,1.962607,0.209554,4.55,1.28,"","CMi"],
-  [48402,2.583550,0.943601,4.55,0.04,"","UMa"],
-  [76371,4.083580,-0.784672,4.55,-0.17,"","Lup"],
-  [80079,4.278833,-0.421834,4.55,0.76,"","Sco"],
-  [88839,4.747658,-0.496670,4.55,0.94,"","Sgr"],
-  [107119,5.680694,1.244619,4.55,1.11,"","Cep"],
-  [110351,5.851328,0.812216,4.55,-0.1,"","Lac"],
-  [110609,5.866560,0.863526,4.55,0.09,"","Lac"],
-  [13328,0.748371,0.611908,4.56,1.55,"","Per"],
-  [18597,1.041725,-1.071635,4.56,1.59,"","Ret"],
-  [27830,1.541682,0.481925,4.56,-0.01,"","Tau"],
-  [44700,2.384685,0.671118,4.56,1.04,"","Lyn"],
-  [54951,2.946132,0.403093,4.56,1.66,"","Leo"],
-  [70574,3.779236,-0.789263,4.56,-0.15,"","Lup"],
-  [86092,4.606185,-0.811677,4.56,-0.02,"","Ara"],
-  [103004,5.463439,0.472932,4.56,0.84,"","Vul"],
-  [104194,5.526592,0.831622,4.56,1.57,"","Cyg"],
-  [16870,0.947254,-0.702923,4.57,1.02,"","Eri"],
-  [80463,4.299688,0.244927,4.57,0,"Cujam","Her"],
-  [80473,4.300427,-0.409230,4.57,0.23,"","Oph"],
-  [86614,4.633582,1.259235,4.57,0.43,"Dziban","Dra"],
-  [92818,4.951273,0.395231,4.57,0.78,"","Her"],
-  [94005,5.010619,-0.706801,4.57,1.07,"","CrA"],
-  [97886,5.207458,0.420269,4.57,-0.05,"","Vul"],
-  [26237,1.463398,-0.084445,4.58,-0.18,"","Ori"],
-  [48374,2.581682,-0.812409,4.58,1.17,"","Vel"],
-  [52468,2.807966,-1.057087,4.58,1.7,"","Car"],
-  [64425,3.457033,-1.045811,4.58,-0.07,"","Cen"],
-  [67627,3.627808,1.129634,4.58,1.57,"","Dra"],
-  [79404,4.242474,-0.487407,4.58,-0.17,"","Sco"],
-  [86284,4.615721,-0.141699,4.58,0.13,"","Oph"],
-  [115250,6.111433,0.414347,4.58,0.18,"Salm","Peg"],
-  [3245,0.180319,-0.804335,4.59,0.95,"","Phe"],
-  [17351,0.972299,-0.651244,4.59,1.19,"","Eri"],
-  [17959,1.005127,1.244983,4.59,0.06,"","Cam"],
-  [25473,1.426096,0.054030,4.59,-0.2,"","Ori"],
-  [42527,2.269864,1.122734,4.59,1.18,"","UMa"],
-  [46509,2.483378,-0.048328,4.59,0.41,"","Hya"],
-  [50555,2.703570,-0.960443,4.59,1.6,"","Vel"],
-  [54751,2.934772,-1.052741,4.59,0.54,"","Car"],
-  [77512,4.143386,0.454979,4.59,0.79,"","CrB"],
-  [77840,4.160917,-0.442042,4.59,-0.07,"","Sco"],
-  [91926,4.906032,0.691372,4.59,0.18,"","Lyr"],
-  [96465,5.134354,-0.434301,4.59,-0.07,"","Sgr"],
-  [117452,6.234864,-0.490966,4.59,0,"","Scl"],
-  [20070,1.126799,0.877822,4.6,0.04,"","Per"],
-  [49402,2.640354,-0.228021,4.6,-0.09,"","Hya"],
-  [53502,2.865470,-0.648176,4.6,1.01,"","Ant"],
-  [72125,3.862593,0.296083,4.6,0.97,"","Boo"],
-  [75501,4.037545,-0.676029,4.6,0,"","Lup"],
-  [77760,4.156825,0.740919,4.6,0.56,"","Her"],
-  [95081,5.064370,1.146935,4.6,0.03,"","Dra"],
-  [443,0.023281,-0.099617,4.61,1.03,"","Psc"],
-  [1366,0.074577,0.675122,4.61,0.06,"","And"],
-  [8833,0.495481,0.055633,4.61,0.93,"","Psc"],
-  [14817,0.834659,0.691353,4.61,1.12,"","Per"],
-  [36145,1.949158,0.858903,4.61,0,"","Lyn"],
-  [39095,2.093817,-0.321127,4.61,0.09,"","Pup"],
-  [76219,4.076122,-0.175659,4.61,1,"","Lib"],
-  [101474,5.383918,0.615243,4.61,1.59,"","Cyg"],
-  [4422,0.247252,1.032904,4.62,0.96,"Castula","Cas"],
-  [18673,1.046869,-0.419162,4.62,-0.12,"","Eri"],
-  [23497,1.322505,0.376816,4.62,0.16,"","Tau"],
-  [25923,1.448322,-0.127436,4.62,-0.26,"","Ori"],
-  [44824,2.391310,-0.451317,4.62,1.59,"","Pyx"],
-  [54182,2.901685,0.128037,4.62,0.33,"","Leo"],
-  [54301,2.908333,-1.089506,4.62,0.99,"","Car"],
-  [56480,3.031468,-0.947087,4.62,-0.08,"","Cen"],
-  [62327,3.343959,-0.985916,4.62,-0.15,"","Cru"],
-  [63007,3.380063,-1.032305,4.62,-0.15,"","Cru"],
-  [80628,4.310104,-0.146114,4.62,0.19,"","Oph"],
-  [88175,4.714499,-0.064407,4.62,0.39,"","Ser"],
-  [90982,4.858573,-0.738493,4.62,0.99,"","CrA"],
-  [92946,4.957694,0.073367,4.62,0.16,"Alya","Ser"],
-  [13914,0.781960,0.372461,4.63,0.05,"","Ari"],
-  [37648,2.022574,-0.495863,4.63,1.63,"","Pup"],
-  [38500,2.064116,-0.865911,4.63,-0.23,"","Pup"],
-  [42835,2.284954,-0.126252,4.63,0.84,"","Hya"],
-  [45448,2.424923,-0.652983,4.63,0.47,"","Vel"],
-  [61789,3.315583,-0.697910,4.63,-0.08,"","Cen"],
-  [66738,3.581145,0.954375,4.63,1.63,"","UMa"],
-  [73199,3.916452,1.150739,4.63,1.59,"","UMi"],
-  [77635,4.149429,-0.449445,4.63,-0.07,"","Sco"],
-  [78662,4.204218,-1.008365,4.63,0.25,"","Nor"],
-  [90797,4.849283,-1.086961,4.63,-0.12,"","Pav"],
-  [92512,4.935795,1.036522,4.63,1.19,"","Dra"],
-  [118131,6.273406,0.438800,4.63,1.58,"","Peg"],
-  [18216,1.019760,-0.429564,4.64,-0.14,"","Eri"],
-  [22845,1.286724,0.177165,4.64,0.09,"","Ori"],
-  [28716,1.587899,0.351482,4.64,0.24,"","Ori"],
-  [67234,3.606968,-0.897671,4.64,0.96,"","Cen"],
-  [76669,4.098809,0.639416,4.64,-0.1,"","CrB"],
-  [76829,4.106717,-0.779485,4.64,0.41,"","Lup"],
-  [82369,4.406231,-0.188199,4.64,0.48,"","Oph"],
-  [84606,4.527694,0.650859,4.64,0.04,"","Her"],
-  [88765,4.744268,0.152435,4.64,0.95,"","Oph"],
-  [95585,5.089896,0.005909,4.64,0.58,"","Aql"],
-  [101589,5.390052,0.256113,4.64,0.12,"","Del"],
-  [111674,5.922661,0.899632,4.64,0.25,"","Lac"],
-  [113919,6.039634,0.873574,4.64,1.06,"","And"],
-  [12719,0.713193,0.483581,4.65,-0.12,"","Ari"],
-  [21273,1.194890,0.259084,4.65,0.26,"","Tau"],
-  [23607,1.328934,0.268852,4.65,-0.06,"","Ori"],
-  [27890,1.545050,-1.101122,4.65,1.02,"","Dor"],
-  [35363,1.912473,-0.641129,4.65,-0.1,"","Pup"],
-  [36514,1.966594,-0.540394,4.65,0.9,"","Pup"],
-  [36917,1.986977,-0.495138,4.65,-0.11,"","Pup"],
-  [51192,2.737583,-1.005987,4.65,0.47,"","Car"],
-  [58590,3.145403,0.115442,4.65,0.12,"","Vir"],
-  [78639,4.202817,-0.859220,4.65,0.9,"","Nor"],
-  [5571,0.311775,0.367124,4.66,1.02,"","Psc"],
-  [8497,0.478155,-0.186513,4.66,0.33,"","Cet"],
-  [31978,1.749595,0.172713,4.66,-0.23,"","Mon"],
-  [33302,1.813501,-0.351448,4.66,0.37,"","CMa"],
-  [35205,1.904954,-0.486618,4.66,1.59,"","CMa"],
-  [42806,2.283265,0.374696,4.66,0.01,"Asellus Borealis","Cnc"],
-  [44626,2.380802,-1.231129,4.66,-0.15,"","Car"],
-  [53295,2.853521,0.753807,4.66,-0.04,"","UMa"],
-  [61740,3.312836,-0.139549,4.66,1.24,"","Vir"],
-  [62012,3.327433,-0.851949,4.66,1.08,"","Cen"],
-  [76705,4.100504,-0.600601,4.66,0.96,"","Lup"],
-  [88567,4.734295,-0.516270,4.66,0.77,"","Sgr"],
-  [89678,4.791161,-0.471983,4.66,1.63,"","Sgr"],
-  [90135,4.815624,-0.155934,4.66,0.93,"","Sct"],
-  [98543,5.240791,0.484391,4.66,0.18,"","Vul"],
-  [5742,0.321791,0.429067,4.67,1.05,"","Psc"],
-  [16244,0.913537,0.864094,4.67,-0.1,"","Per"],
-  [19811,1.112161,0.706573,4.67,1.01,"","Per"],
-  [21683,1.218567,0.277821,4.67,0.15,"","Tau"],
-  [28910,1.597654,-0.260669,4.67,0.05,"","Lep"],
-  [40167,2.147680,0.308012,4.67,0.53,"Tegmine","Cnc"],
-  [45075,2.403827,1.108522,4.67,0.38,"","UMa"],
-  [88128,4.712637,0.292359,4.67,1.25,"","Her"],
-  [90595,4.839787,-0.254221,4.67,0.08,"","Sct"],
-  [91919,4.905855,0.692374,4.67,0.17,"","Lyr"],
-  [96100,5.115337,1.215817,4.67,0.79,"Alsafi","Dra"],
-  [103738,5.503420,-0.563004,4.67,0.89,"","Mic"],
-  [7294,0.409854,1.033794,4.68,0.99,"","Cas"],
-  [8928,0.501496,-1.180668,4.68,0.93,"","Hyi"],
-  [9677,0.543193,-0.511326,4.68,-0.16,"","For"],
-  [13879,0.779993,0.692245,4.68,0.07,"","Per"],
-  [43878,2.340143,-0.920198,4.68,-0.11,"","Vel"],
-  [47310,2.523985,0.081145,4.68,1.31,"","Hya"],
-  [49029,2.618925,0.140398,4.68,1.59,"","Leo"],
-  [52098,2.786943,0.558091,4.68,0.82,"","LMi"],
-  [66006,3.542865,-0.109185,4.68,1.61,"","Vir"],
-  [66234,3.553730,0.855490,4.68,0.13,"","CVn"],
-  [80047,4.277571,-1.373500,4.68,1.68,"","Aps"],
-  [96683,5.146002,0.526275,4.68,0.97,"","Cyg"],
-  [106786,5.662511,-0.137082,4.68,0.18,"Bunda","Aqr"],
-  [112211,5.949772,-0.328652,4.68,1.36,"","Aqr"],
-  [20732,1.163289,0.256804,4.69,0.98,"","Tau"],
-  [24813,1.392510,0.699860,4.69,0.63,"","Aur"],
-  [37173,1.999714,-0.442699,4.69,-0.1,"","Pup"],
-  [38089,2.043503,-0.821661,4.69,1.04,"","Pup"],
-  [39211,2.099728,-0.024306,4.69,1.48,"","Mon"],
-  [52102,2.787073,-1.032938,4.69,1.56,"","Car"],
-  [62268,3.340704,-1.064325,4.69,1.05,"","Cru"],
-  [107136,5.681459,0.893427,4.69,-0.12,"Azelfafage","Cyg"],
-  [108870,5.774113,-0.991102,4.69,1.06,"","Ind"],
-  [116389,6.174434,-0.743773,4.69,0.08,"","Phe"],
-  [24927,1.398221,-0.370704,4.7,-0.05,"","Lep"],
-  [56633,3.039848,-0.171081,4.7,-0.07,"","Crt"],
-  [56922,3.055257,-0.606409,4.7,-0.07,"","Hya"],
-  [82671,4.424390,-0.739357,4.7,0.44,"","Sco"],
-  [91726,4.896843,-0.157997,4.7,0.36,"","Sct"],
-  [98066,5.217832,-0.459013,4.7,0.75,"Terebellum","Sgr"],
-  [104521,5.542911,0.176829,4.7,0.26,"","Equ"],
-  [113116,5.996983,1.472119,4.7,1.42,"","Cep"],
-  [116247,6.166585,-0.365027,4.7,0.02,"","Aqr"],
-  [13954,0.784155,0.155463,4.71,-0.11,"","Cet"],
-  [16245,0.913564,-1.098467,4.71,0.41,"","Ret"],
-  [22667,1.276415,0.248721,4.71,1.77,"","Ori"],
-  [23693,1.333044,-1.003088,4.71,0.53,"","Dor"],
-  [25737,1.438732,-0.019063,4.71,1.59,"","Ori"],
-  [25984,1.451799,0.561857,4.71,0.28,"","Aur"],
-  [45902,2.449976,-0.453182,4.71,1.63,"","Pyx"],
-  [46026,2.457443,-0.503246,4.71,0.89,"","Pyx"],
-  [57283,3.075108,-0.320280,4.71,0.96,"","Crt"],
-  [63945,3.430787,-0.845844,4.71,-0.15,"","Cen"],
-  [68191,3.654931,-1.111543,4.71,1.08,"","Cen"],
-  [97938,5.210890,0.147680,4.71,1.02,"Libertas","Aql"],
-  [105140,5.576056,-0.561517,4.71,0.07,"","Mic"],
-  [114375,6.064648,-0.391959,4.71,0.67,"","Aqr"],
-  [6692,0.374951,1.189093,4.72,1.05,"","Cas"],
-  [25044,1.403954,-0.006675,4.72,-0.17,"","Ori"],
-  [27639,1.531703,0.651105,4.72,1.62,"","Aur"],
-  [29276,1.615732,-0.959384,4.72,-0.23,"","Pic"],
-  [40084,2.143578,-0.225619,4.72,0.94,"","Pup"],
-  [46371,2.475342,-0.389973,4.72,1.15,"","Hya"],
-  [51056,2.731064,0.589854,4.72,0.26,"","LMi"],
-  [51438,2.750355,-1.256511,4.72,0.04,"","Car"],
-  [51658,2.762995,0.705559,4.72,0.22,"","UMa"],
-  [58867,3.160444,-1.102450,4.72,-0.08,"","Cru"],
-  [60202,3.231988,0.310544,4.72,1.01,"","Com"],
-  [64844,3.479937,0.708126,4.72,0.31,"","CVn"],
-  [78592,4.200999,0.803492,4.72,-0.09,"","Her"],
-  [84514,4.523071,-0.007772,4.72,1.12,"","Oph"],
-  [107188,5.683919,-0.329279,4.72,0.87,"","Cap"],
-  [11313,0.635403,0.877528,4.73,1.53,"","And"],
-  [33202,1.809225,0.229996,4.73,0.32,"","Gem"],
-  [40096,2.144275,-0.750270,4.73,0.16,"","Pup"],
-  [53907,2.887769,-0.043364,4.73,1.59,"","Leo"],
-  [78914,4.217111,-0.788421,4.73,0.23,"","Nor"],
-  [79119,4.227937,0.636887,4.73,1.01,"","CrB"],
-  [103045,5.465734,-0.156788,4.73,0.33,"","Aqr"],
-  [2505,0.138633,0.951593,4.74,-0.1,"","Cas"],
-  [6193,0.346738,0.475848,4.74,0.03,"","Psc"],
-  [11783,0.663605,-0.266070,4.74,0.45,"","Cet"],
-  [12413,0.697257,-0.748601,4.74,0.06,"","Eri"],
-  [15520,0.872611,1.145849,4.74,-0.11,"","Cam"],
-  [16341,0.918993,-0.088578,4.74,-0.09,"","Eri"],
-  [39903,2.133721,-1.069929,4.74,0.44,"","Car"],
-  [42624,2.274247,-0.825840,4.74,0.14,"","Vel"],
-  [44390,2.367300,1.180360,4.74,1.54,"","UMa"],
-  [64924,3.483702,-0.319591,4.74,0.71,"","Vir"],
-  [69191,3.708452,-0.932686,4.74,0.94,"","Cen"],
-  [77661,4.150677,0.366134,4.74,1.53,"","Ser"],
-  [88116,4.711484,-0.415670,4.74,-0.03,"","Sgr"],
-  [93542,4.987778,-0.734698,4.74,-0.03,"","CrA"],
-  [96052,5.112820,0.601318,4.74,-0.15,"","Cyg"],
-  [103632,5.497027,0.829397,4.74,-0.08,"","Cyg"],
-  [108874,5.774047,-0.037618,4.74,-0.1,"","Aqr"],
-  [116602,6.186536,-0.793991,4.74,0.08,"","Phe"],
-  [35020,1.896456,-0.842504,4.75,-0.09,"","Pup"],
-  [57581,3.090288,-1.166140,4.75,1.52,"","Mus"],
-  [67786,3.635560,-0.557242,4.75,-0.11,"","Cen"],
-  [69713,3.735730,0.896527,4.75,0.24,"","Boo"],
-  [76880,4.110018,-0.343460,4.75,1.57,"","Lib"],
-  [76945,4.113234,-0.605811,4.75,-0.15,"","Lup"],
-  [101612,5.391236,-1.057351,4.75,0.29,"","Pav"],
-  [115088,6.102648,1.188769,4.75,0.84,"","Cep"],
-  [2472,0.137077,-0.851782,4.76,0.02,"","Phe"],
-  [13244,0.743839,-1.310165,4.76,1.34,"","Hyi"],
-  [13288,0.746297,-0.366589,4.76,0.91,"Angetenar","Eri"],
-  [27750,1.537812,0.032378,4.76,1.38,"","Ori"],
-  [29997,1.653029,1.209859,4.76,0.03,"","Cam"],
-  [38901,2.084222,-0.529438,4.76,0.15,"","Pup"],
-  [47522,2.536328,-0.411750,4.76,-0.12,"","Hya"],
-  [52370,2.802281,-1.125151,4.76,-0.14,"","Car"],
-  [55266,2.963272,0.666464,4.76,0.11,"","UMa"],
-  [60485,3.246421,0.899931,4.76,0.88,"","CVn"],
-  [63355,3.398697,0.303852,4.76,1.57,"","Com"],
-  [65639,3.523177,-0.278792,4.76,1.1,"","Vir"],
-  [67665,3.629374,0.601165,4.76,1.61,"","CVn"],
-  [70264,3.763882,-1.020304,4.76,0.8,"","Cen"],
-  [84969,4.546547,-1.182821,4.76,1.19,"","Aps"],
-  [86486,4.626853,-0.862465,4.76,0.42,"","Ara"],
-  [94703,5.044950,0.373333,4.76,-0.06,"","Vul"],
-  [106801,5.663246,1.083534,4.76,0.25,"","Cep"],
-  [114155,6.052419,0.444505,4.76,1.29,"","Peg"],
-  [3455,0.192815,-0.185172,4.77,1,"","Cet"],
-  [14382,0.809572,0.989702,4.77,1.02,"","Per"],
-  [26563,1.478664,-0.125888,4.77,0.14,"","Ori"],
-  [32533,1.777315,0.140277,4.77,1.4,"","Mon"],
-  [45751,2.442471,-0.209001,4.77,0.93,"","Hya"],
-  [56127,3.012067,-0.052421,4.77,1.53,"","Leo"],
-  [62985,3.378751,-0.166487,4.77,1.59,"","Vir"],
-  [86201,4.611821,1.200053,4.77,0.43,"","Dra"],
-  [88404,4.725837,-0.142774,4.77,0.41,"","Oph"],
-  [90905,4.854526,0.995634,4.77,0.61,"","Dra"],
-  [98761,5.251510,-0.662190,4.77,1.42,"","Sgr"],
-  [100044,5.313597,0.663800,4.77,0.38,"","Cyg"],
-  [100310,5.326150,-0.222688,4.77,-0.05,"Alshat","Cap"],
-  [101027,5.361914,-0.310907,4.77,0.39,"","Cap"],
-  [112519,5.966769,1.451308,4.77,1.26,"","Cep"],
-  [122,0.006968,-1.345051,4.78,1.25,"","Oct"],
-  [4147,0.231292,-0.019971,4.78,1.55,"","Cet"],
-  [9977,0.560631,0.660766,4.78,0.12,"","And"],
-  [17587,0.986280,1.105580,4.78,0.75,"","Cam"],
-  [21029,1.180543,0.282639,4.78,0.17,"","Tau"],
-  [23231,1.308687,-0.218819,4.78,0.27,"","Eri"],
-  [26199,1.461908,-0.104755,4.78,-0.25,"","Ori"],
-  [39847,2.131299,0.898961,4.78,0.05,"","Lyn"],
-  [40274,2.153265,-0.626565,4.78,-0.11,"","Pup"],
-  [47758,2.549061,-0.484669,4.78,0.52,"","Ant"],
-  [50564,2.704110,0.339832,4.78,0.45,"","Leo"],
-  [60351,3.239790,0.451101,4.78,0.52,"","Com"],
-  [64852,3.480207,0.095467,4.78,1.64,"","Vir"],
-  [70104,3.755554,-0.788663,4.78,0.31,"","Lup"],
-  [70306,3.765969,-0.484399,4.78,1.3,"","Hya"],
-  [85755,4.587667,-0.418227,4.78,0.02,"","Oph"],
-  [87294,4.669564,-0.699710,4.78,0.26,"","Sco"],
-  [92024,4.910693,-1.132217,4.78,0.2,"","Pav"],
-  [110371,5.852623,0.494461,4.78,-0.01,"","Peg"],
-  [110882,5.881143,0.081955,4.78,1.04,"","Peg"],
-  [1168,0.063716,0.352673,4.79,1.57,"","Peg"],
-  [9153,0.514561,0.411829,4.79,0.29,"","Ari"],
-  [22678,1.276853,0.640591,4.79,1.41,"","Aur"],
-  [41039,2.192693,-0.846317,4.79,-0.15,"","Vel"],
-  [45856,2.447593,-1.089166,4.79,0.93,"","Car"],
-  [64661,3.469931,-1.184984,4.79,-0.08,"","Mus"],
-  [77655,4.150533,0.622339,4.79,1,"","CrB"],
-  [80815,4.320597,-0.438343,4.79,-0.12,"","Sco"],
-  [87220,4.665154,-0.553325,4.79,-0.03,"","Sco"],
-  [88149,4.713538,0.076247,4.79,-0.1,"","Oph"],
-  [99824,5.302593,0.446664,4.79,-0.18,"","Vul"],
-  [109400,5.802375,1.262592,4.79,0.92,"","Cep"],
-  [109908,5.827721,-0.721636,4.79,0.79,"","Gru"],
-  [3300,0.183543,0.881610,4.8,-0.1,"","Cas"],
-  [4151,0.231564,1.066815,4.8,0.54,"","Cas"],
-  [15197,0.854486,-0.153933,4.8,0.23,"Zibal","Eri"],
-  [20354,1.141239,0.811559,4.8,-0.02,"","Per"],
-  [20542,1.152336,0.304458,4.8,0.15,"","Tau"],
-  [23364,1.315276,-0.125209,4.8,-0.16,"","Eri"],
-  [31832,1.742408,0.741571,4.8,1.24,"","Aur"],
-  [45038,2.401539,1.171710,4.8,0.49,"","UMa"],
-  [45493,2.426830,0.942859,4.8,0.2,"","UMa"],
-  [45811,2.445571,-0.166778,4.8,0.91,"","Hya"],
-  [52502,2.810484,-1.116331,4.8,-0.13,"","Car"],
-  [61394,3.293661,0.394955,4.8,0.01,"","Com"],
-  [64022,3.434715,0.482143,4.8,1.48,"","Com"],
-  [69112,3.703806,1.353459,4.8,1.37,"","UMi"],
-  [69879,3.743718,0.619758,4.8,1.06,"","Boo"],
-  [71995,3.854659,0.462998,4.8,1.67,"","Boo"],
-  [73568,3.936191,0.436474,4.8,1.51,"","Boo"],
-  [79881,4.268632,-0.499409,4.8,0.01,"","Sco"],
-  [84573,4.526189,0.577706,4.8,-0.17,"","Her"],
-  [99639,5.294023,0.817088,4.8,0.1,"","Cyg"],
-  [103089,5.468317,0.774704,4.8,-0.13,"","Cyg"],
-  [105382,5.588372,-0.712260,4.8,0.03,"","Mic"],
-  [110672,5.869878,0.024040,4.8,-0.17,"","Aqr"],
-  [112051,5.941785,0.511515,4.8,-0.01,"","Peg"],
-  [24010,1.351318,0.272223,4.81,0.31,"","Ori"],
-  [24372,1.369024,-1.172604,4.81,1.27,"","Dor"],
-  [24659,1.385288,-0.609036,4.81,0.99,"","Col"],
-  [28237,1.562045,0.452981,4.81,-0.09,"","Tau"],
-  [39138,2.095847,-1.109461,4.81,-0.17,"","Car"],
-  [47029,2.509190,0.691526,4.81,0.99,"","Lyn"],
-  [55687,2.987174,-0.189531,4.81,1.56,"","Crt"],
-  [70755,3.788247,-0.038885,4.81,0.69,"Elgafar","Vir"],
-  [90289,4.823002,-0.358520,4.81,1.31,"","Sgr"],
-  [101867,5.404073,0.370030,4.81,-0.03,"","Vul"],
-  [102724,5.449521,0.804843,4.81,0.57,"","Cyg"],
-  [9095,0.511240,-0.827029,4.82,0.86,"","Phe"],
-  [24340,1.367591,0.671681,4.82,0.19,"","Aur"],
-  [31827,1.742182,-0.246890,4.82,1.46,"","CMa"],
-  [33092,1.804445,-0.352980,4.82,-0.21,"","CMa"],
-  [36773,1.980073,-0.253490,4.82,1.36,"","Pup"],
-  [50799,2.715412,-0.726929,4.82,1.1,"","Vel"],
-  [51459,2.751632,0.977045,4.82,0.54,"","UMa"],
-  [60710,3.257349,-0.897983,4.82,-0.14,"","Cen"],
-  [66458,3.566845,0.633465,4.82,0.24,"","CVn"],
-  [69226,3.710565,0.437932,4.82,0.54,"","Boo"],
-  [78554,4.198804,0.398013,4.82,0.07,"","Ser"],
-  [80179,4.285100,0.017960,4.82,0.34,"","Ser"],
-  [82321,4.403627,0.802560,4.82,0.09,"","Her"],
-  [83262,4.455215,-0.073699,4.82,1.48,"","Oph"],
-  [90344,4.825766,1.144299,4.82,1.18,"Fafnir","Dra"],
-  [92782,4.949739,1.244371,4.82,1.15,"","Dra"],
-  [104019,5.517008,-0.346535,4.82,0.17,"","Cap"],
-  [110386,5.853476,0.213021,4.82,-0.13,"","Peg"],
-  [111123,5.893309,-0.186365,4.82,-0.05,"","Aqr"],
-  [115022,6.098808,0.855478,4.82,1.67,"","And"],
-  [116901,6.203613,-0.310957,4.82,0.82,"","Aqr"],
-  [4292,0.239995,1.029268,4.83,1.22,"","Cas"],
-  [6813,0.382467,0.792496,4.83,0.42,"","And"],
-  [12390,0.696229,-0.207208,4.83,0.45,"","Cet"],
-  [12876,0.722317,-1.180133,4.83,0.06,"","Hyi"],
-  [34495,1.871216,-0.692122,4.83,-0.18,"","Pup"],
-  [35210,1.905087,-0.406934,4.83,1.6,"","CMa"],
-  [40945,2.187700,-0.576908,4.83,1.42,"","Pup"],
-  [42726,2.279501,-0.927014,4.83,-0.17,"","Vel"],
-  [63724,3.418905,-0.864414,4.83,0.03,"","Cen"],
-  [73695,3.943530,0.831720,4.83,0.65,"","Boo"],
-  [74449,3.982957,-0.776679,4.83,-0.18,"","Lup"],
-  [80704,4.313766,0.730973,4.83,1.29,"","Her"],
-  [83574,4.471632,-0.595557,4.83,0.26,"","Sco"],
-  [92088,4.913428,0.465342,4.83,1.2,"","Lyr"],
-  [93026,4.961365,-0.102037,4.83,1.06,"","Sct"],
-  [93174,4.968618,-0.647646,4.83,0.4,"","CrA"],
-  [7007,0.393507,0.107230,4.84,1.37,"","Psc"],
-  [10340,0.581291,0.771988,4.84,1.48,"","And"],
-  [10644,0.598000,0.597326,4.84,0.61,"","Tri"],
-  [15457,0.869879,0.058821,4.84,0.68,"","Cet"],
-  [19740,1.108021,0.161684,4.84,0.8,"","Tau"],
-  [26777,1.489182,0.288575,4.84,-0.12,"","Tau"],
-  [37297,2.004754,-0.668601,4.84,-0.19,"","Pup"],
-  [42134,2.248543,-1.012452,4.84,0.98,"","Car"],
-  [53807,2.882240,0.063137,4.84,1.14,"","Leo"],
-  [57328,3.077382,0.144131,4.84,0.17,"","Vir"],
-  [70027,3.751384,0.284610,4.84,1.23,"","Boo"],
-  [81008,4.331056,0.200504,4.84,1.5,"","Her"],
-  [81660,4.367332,1.127292,4.84,1.21,"","Dra"],
-  [82020,4.386435,0.991030,4.84,0.38,"","Dra"],
-  [98353,5.231421,-0.457202,4.84,0.88,"","Sgr"],
-  [112203,5.949389,-0.722817,4.84,1.03,"","Gru"],
-  [112374,5.958690,-0.933753,4.84,1.18,"","Gru"],
-  [114104,6.050243,1.037070,4.84,-0.06,"","Cas"],
-  [14862,0.837485,1.298414,4.85,0.04,"","Cas"],
-  [15416,0.867125,0.597298,4.85,1.49,"","Per"],
-  [36431,1.962871,-0.401850,4.85,0.24,"","Pup"],
-  [49712,2.656991,-0.904277,4.85,-0.12,"","Vel"],
-  [64408,3.455988,-0.659787,4.85,0.69,"","Cen"],
-  [74837,4.003995,-1.110212,4.85,1.26,"","Cir"],
-  [87846,4.698385,-0.773918,4.85,1.18,"","Sco"],
-  [89918,4.803441,0.058943,4.85,0.91,"","Oph"],
-  [93148,4.967481,-0.923953,4.85,-0.05,"","Tel"],
-  [2210,0.121860,-0.576084,4.86,1.63,"","Scl"],
-  [15382,0.865545,-0.392893,4.86,0.9,"","Eri"],
-  [32438,1.772538,1.037453,4.86,0.08,"","Lyn"],
-  [42483,2.267654,-0.515938,4.86,0.9,"","Pyx"],
-  [51808,2.771115,1.321440,4.86,0.96,"","Dra"],
-  [64820,3.478516,-1.165591,4.86,1.48,"","Mus"],
-  [70327,3.767198,0.147421,4.86,0.01,"","Boo"],
-  [71832,3.846906,0.142450,4.86,0.99,"","Boo"],
-  [80181,4.285208,0.539167,4.86,0.97,"","CrB"],
-  [81122,4.337508,-0.768736,4.86,0.05,"","Nor"],
-  [81497,4.357859,0.853961,4.86,1.56,"","Her"],
-  [85829,4.591377,0.962950,4.86,0.28,"","Dra"],
-  [86736,4.640089,-0.378443,4.86,0.47,"","Oph"],
-  [91918,4.905783,-0.622070,4.86,-0.17,"","Sgr"],
-  [92761,4.948749,-0.396972,4.86,1.41,"Ainalrami","Sgr"],
-  [94643,5.041996,-0.440812,4.86,0.57,"","Sgr"],
-  [101773,5.399996,-1.073900,4.86,0.45,"","Pav"],
-  [109068,5.784367,0.088288,4.86,1.44,"","Peg"],
-  [6411,0.359277,0.794627,4.87,1.08,"Adhil","And"],
-  [12093,0.680131,0.097621,4.87,0.88,"","Cet"],
-  [15110,0.850419,0.367295,4.87,-0.01,"","Ari"],
-  [19777,1.110007,-0.179006,4.87,1.16,"","Eri"],
-  [34899,1.890290,-0.788588,4.87,0,"","Pup"],
-  [42662,2.276443,-0.278265,4.87,1.06,"","Hya"],
-  [43825,2.336673,-0.483140,4.87,0.14,"","Pyx"],
-  [48559,2.592711,-0.452605,4.87,1.2,"","Hya"],
-  [51979,2.780435,-0.478441,4.87,1.63,"","Hya"],
-  [52736,2.822432,-1.123704,4.87,-0.15,"","Car"],
-  [97290,5.176483,-0.344896,4.87,1.06,"","Sgr"],
-  [106551,5.649525,0.672546,4.87,1.09,"","Cyg"],
-  [11345,0.636827,-0.214509,4.88,-0.03,"","Cet"],
-  [25539,1.429576,0.382872,4.88,-0.14,"","Tau"],
-  [27468,1.522870,0.428784,4.88,1.02,"","Tau"],
-  [27810,1.540754,-0.589945,4.88,-0.15,"","Col"],
-  [35412,1.914072,-0.428630,4.88,-0.16,"","CMa"],
-  [58484,3.139968,-1.365229,4.88,-0.05,"","Cha"],
-  [61960,3.324347,0.178645,4.88,0.08,"","Vir"],
-  [63462,3.404590,0.537300,4.88,1.17,"","Com"],
-  [82860,4.433245,1.136817,4.88,0.48,"","Dra"],
-  [87936,4.702775,-0.728087,4.88,1.62,"","Sco"],
-  [91845,4.902285,-0.144430,4.88,1.11,"","Sct"],
-  [94820,5.051134,-0.330791,4.88,1.01,"","Sgr"],
-  [96341,5.127849,-0.839489,4.88,1.1,"","Tel"],
-  [117301,6.226711,1.023670,4.88,1.12,"","Cas"],
-  [118209,6.277395,-0.062064,4.88,0.93,"","Psc"],
-  [118243,6.278861,0.973107,4.88,-0.07,"","Cas"],
-  [910,0.049150,-0.269967,4.89,0.49,"","Cet"],
-  [22453,1.264974,0.654294,4.89,1.45,"","Per"],
-  [25302,1.416977,0.032227,4.89,-0.2,"","Ori"],
-  [27511,1.525195,0.220807,4.89,-0.07,"","Tau"],
-  [37265,2.003488,0.603611,4.89,0.41,"Jishui","Gem"],
-  [37908,2.033850,0.323061,4.89,1.43,"","Gem"],
-  [51523,2.754856,-0.937512,4.89,0.5,"","Vel"],
-  [52009,2.781856,-0.233604,4.89,2.8,"","Hya"],
-  [57443,3.082786,-0.706865,4.89,0.66,"","Cen"],
-  [57851,3.106050,-1.138058,4.89,-0.12,"","Mus"],
-  [62886,3.374139,0.370794,4.89,0.9,"","Com"],
-  [69896,3.744746,-1.413852,4.89,0.24,"","Aps"],
-  [83613,4.474056,0.222369,4.89,0.13,"","Her"],
-  [85819,4.590980,0.963147,4.89,0.25,"","Dra"],
-  [97118,5.167381,0.651956,4.89,0.95,"","Cyg"],
-  [102831,5.454014,-0.589567,4.89,1,"","Mic"],
-  [111841,5.930896,0.681556,4.89,-0.21,"","Lac"],
-  [115990,6.152426,1.021871,4.89,-0.12,"","Cas"],
-  [3801,0.213076,0.889562,4.9,-0.09,"","Cas"],
-  [6670,0.373590,-0.254797,4.9,1.23,"","Cet"],
-  [26885,1.494339,0.025737,4.9,1.14,"","Ori"],
-  [33485,1.822205,0.787040,4.9,0.03,"","Lyn"],
-  [62683,3.362753,-0.593400,4.9,-0.03,"","Cen"],
-  [64583,3.465590,-1.031546,4.9,0.49,"","Cen"],
-  [78655,4.203639,-0.673741,4.9,-0.15,"","Lup"],
-  [78821,4.212538,-0.345608,4.9,-0.02,"Acrab B","Sco"],
-  [80686,4.312994,-1.223204,4.9,0.56,"","TrA"],
-  [97679,5.197017,0.394620,4.9,-0.15,"","Vul"],
-  [102790,5.451896,-0.806810,4.9,1.49,"","Ind"],
-  [12623,0.707943,0.701517,4.91,0.58,"","Per"],
-  [21139,1.186291,-0.000768,4.91,1.32,"","Eri"],
-  [23362,1.315220,-0.349972,4.91,-0.05,"","Lep"],
-  [23835,1.341503,0.325418,4.91,0.66,"","Tau"],
-  [30093,1.658034,-0.051391,4.91,1.61,"","Ori"],
-  [34622,1.877224,-0.073951,4.91,1.02,"","Mon"],
-  [34752,1.883452,0.686273,4.91,1.45,"","Aur"],
-  [52085,2.786342,-0.294552,4.91,0.92,"","Hya"],
-  [61966,3.324604,-1.041714,4.91,-0.04,"","Cru"],
-  [66257,3.555221,0.648956,4.91,0.4,"","CVn"],
-  [73473,3.931234,-0.148684,4.91,0,"","Lib"],
-  [74604,3.990791,-0.550112,4.91,0.37,"","Lup"],
-  [81724,4.370187,-0.309659,4.91,1.1,"","Oph"],
-  [83608,4.473871,0.950682,4.91,0.47,"","Dra"],
-  [98055,5.216920,0.915232,4.91,0.12,"","Cyg"],
-  [101101,5.365360,-0.050362,4.91,1.16,"","Aql"],
-  [101692,5.396240,-0.044505,4.91,1.61,"","Aql"],
-  [111310,5.903579,-1.081792,4.91,1.61,"","Tuc"],
-  [113186,6.000563,0.153871,4.91,0,"","Peg"],
-  [9061,0.509069,-0.393167,4.92,1.43,"","Cet"],
-  [28574,1.578826,-0.184969,4.92,-0.13,"","Mon"],
-  [28816,1.592549,-0.287708,4.92,0.2,"","Lep"],
-  [30520,1.679436,0.860236,4.92,1.91,"","Aur"],
-  [34059,1.849585,-0.865403,4.92,0.14,"","Pup"],
-  [36547,1.968184,1.438351,4.92,1.63,"","Cam"],
-  [45439,2.424315,-0.673172,4.92,1.08,"","Vel"],
-  [54204,2.903059,-0.476363,4.92,0.37,"","Hya"],
-  [60697,3.256789,0.475921,4.92,0.28,"","Com"],
-  [66200,3.552322,0.063861,4.92,0.03,"","Vir"],
-  [67480,3.620310,0.371129,4.92,1.43,"","Boo"],
-  [72104,3.861483,-0.614213,4.92,0.01,"","Cen"],
-  [75379,4.032575,-0.180158,4.92,0.45,"","Lib"],
-  [88726,4.742197,-0.757913,4.92,0.26,"","CrA"],
-  [89861,4.800958,0.383297,4.92,1.59,"","Her"],
-  [90830,4.850956,-0.801365,4.92,-0.1,"","Tel"],
-  [92689,4.944630,0.885025,4.92,0.9,"","Dra"],
-  [102388,5.431792,0.441055,4.92,1.18,"","Vul"],
-  [19515,1.094507,-0.732926,4.93,0.33,"","Hor"],
-  [19990,1.122513,0.359164,4.93,0.26,"","Tau"],
-  [20252,1.136256,0.603303,4.93,0.95,"","Per"],
-  [23179,1.305754,0.661310,4.93,0.04,"","Aur"],
-  [36942,1.988200,-0.916888,4.93,1.37,"","Car"],
-  [37609,2.020250,1.024689,4.93,0.1,"","Lyn"],
-  [39079,2.093243,-0.064221,4.93,1.21,"","Mon"],
-  [43937,2.342990,-1.033747,4.93,-0.18,"","Car"],
-  [47592,2.540504,-0.417405,4.93,0.53,"","Hya"],
-  [56280,3.020613,-0.510701,4.93,0.54,"","Hya"],
-  [56986,3.058227,-1.083677,4.93,1.11,"","Cen"],
-  [59847,3.212899,0.417926,4.93,0.96,"","Com"],
-  [62763,3.367171,0.480676,4.93,0.68,"","Com"],
-  [63503,3.406566,0.983778,4.93,0.37,"","UMa"],
-  [69269,3.712496,-0.284524,4.93,1.68,"","Vir"],
-  [72631,3.887799,-0.040128,4.93,0.99,"","Lib"],
-  [73996,3.958847,0.434049,4.93,0.43,"","Boo"],
-  [79375,4.241149,-0.175654,4.93,0.09,"","Sco"],
-  [96483,5.135155,-0.122653,4.93,-0.05,"","Aql"],
-  [99120,5.268215,-0.922944,4.93,1.59,"","Tel"],
-  [99303,5.277121,0.642973,4.93,-0.14,"","Cyg"],
-  [99770,5.299403,0.642391,4.93,0.15,"","Cyg"],
-  [102571,5.441846,0.599942,4.93,1.29,"","Cyg"],
-  [114939,6.094904,-0.134853,4.93,1.61,"","Aqr"],
-  [117073,6.213334,0.512454,4.93,0.94,"","Peg"],
-  [10280,0.577579,0.528888,4.94,0.77,"","Tri"],
-  [13905,0.781303,0.614061,4.94,1.24,"","Per"],
-  [33357,1.816305,-0.850344,4.94,1.67,"","Pup"],
-  [35727,1.929573,-0.331902,4.94,-0.04,"","CMa"],
-  [39424,2.109745,0.485103,4.94,1.13,"","Gem"],
-  [43347,2.311662,-0.790772,4.94,0.04,"","Vel"],
-  [48615,2.595611,-0.331776,4.94,1.56,"Felis","Hya"],
-  [50933,2.723285,1.144350,4.94,-0.05,"","UMa"],
-  [51495,2.753408,-1.277956,4.94,1.68,"","Car"],
-  [64166,3.442900,-0.403486,4.94,1.05,"","Hya"],
-  [64540,3.463239,0.700800,4.94,1.06,"","CVn"],
-  [80650,4.310893,1.200230,4.94,-0.05,"","Dra"],
-  [93279,4.974248,0.561045,4.94,1.47,"","Lyr"],
-  [99742,5.298283,0.265248,4.94,0.07,"","Aql"],
-  [101138,5.367145,0.854366,4.94,-0.09,"","Cyg"],
-  [109422,5.803855,-0.568077,4.94,0.49,"","PsA"],
-  [3414,0.189665,0.820733,4.95,0.17,"","Cas"],
-  [6242,0.349423,1.016333,4.95,0.68,"","Cas"],
-  [18505,1.035958,1.100819,4.95,-0.07,"","Cam"],
-  [26736,1.487218,-0.019701,4.95,-0.2,"","Ori"],
-  [29434,1.623395,0.281529,4.95,-0.15,"","Ori"],
-  [55945,3.001693,0.049851,4.95,1,"","Leo"],
-  [61384,3.293149,1.222110,4.95,1.31,"","Dra"],
-  [78207,4.180890,-0.249222,4.95,-0.08,"","Lib"],
-  [79509,4.247603,-0.953482,4.95,1.02,"","Nor"],
-  [79822,4.265181,1.322180,4.95,0.39,"","UMi"],
-  [98068,5.217935,0.671720,4.95,-0.09,"","Cyg"],
-  [98608,5.243604,-1.036305,4.95,1.36,"","Pav"],
-  [112917,5.986626,0.755944,4.95,1.56,"","Lac"],
-  [115738,6.138901,0.021914,4.95,0.04,"","Psc"],
-  [117245,6.223809,0.060856,4.95,2.51,"","Psc"],
-  [7818,0.438864,0.708203,4.96,-0.07,"","And"],
-  [7918,0.444112,0.743744,4.96,0.62,"","And"],
-  [11918,0.671276,-0.492747,4.96,-0.05,"","For"],
-  [15648,0.878960,0.756245,4.96,0.05,"","Per"],
-  [20877,1.171288,0.285530,4.96,1.14,"","Tau"],
-  [24822,1.393107,0.385657,4.96,0.94,"","Tau"],
-  [27949,1.548310,0.972270,4.96,0.05,"","Aur"],
-  [67494,3.620997,-0.316501,4.96,1.06,"","Vir"],
-  [78180,4.179155,0.955564,4.96,0.27,"","Dra"],
-  [78650,4.203380,-0.451434,4.96,1.23,"","Sco"],
-  [88657,4.738707,0.387793,4.96,1.66,"","Her"],
-  [89153,4.763537,-0.413665,4.96,1.06,"","Sgr"],
-  [89172,4.764324,0.548127,4.96,1.64,"","Her"],
-  [115590,6.129760,1.087040,4.96,1.68,"","Cas"],
-  [5862,0.328046,-0.794677,4.97,0.57,"","Phe"],
-  [9009,0.506146,1.198784,4.97,-0.08,"","Cas"],
-  [17313,0.970305,0.592802,4.97,-0.05,"","Per"],
-  [18772,1.052878,-1.066027,4.97,1.39,"","Ret"],
-  [20250,1.136007,0.477361,4.97,1.15,"","Tau"],
-  [28010,1.551155,-0.647878,4.97,1.1,"","Col"],
-  [38538,2.066020,0.467151,4.97,0.1,"","Gem"],
-  [50847,2.718217,-1.167651,4.97,-0.13,"","Car"],
-  [60172,3.230385,0.057815,4.97,1.17,"","Vir"],
-  [65721,3.527442,0.240485,4.97,0.71,"","Vir"],
-  [70753,3.788123,-0.514726,4.97,-0.07,"","Hya"],
-  [76742,4.102752,-0.415704,4.97,1.3,"","Lib"],
-  [79790,4.263035,-0.873854,4.97,0.79,"","Nor"],
-  [83430,4.464252,0.245951,4.97,1.6,"","Her"],
-  [116310,6.169534,0.546729,4.97,1.38,"","Peg"],
-  [116758,6.194978,-0.248224,4.97,0.26,"","Aqr"],
-  [117221,6.222247,0.810187,4.97,1.09,"","And"],
-  [7999,0.448223,-0.064406,4.98,1.38,"","Cet"],
-  [10053,0.564711,0.452737,4.98,0.34,"","Ari"],
-  [13884,0.780146,-1.118255,4.98,0.13,"","Hor"],
-  [23783,1.338132,0.900550,4.98,0.34,"","Aur"],
-  [26220,1.462864,-0.094026,4.98,0,"","Ori"],
-  [26235,1.463379,-0.094528,4.98,-0.1,"","Ori"],
-  [37379,2.008817,-0.266406,4.98,1.54,"","Pup"],
-  [42509,2.269035,-0.217736,4.98,1.42,"","Hya"],
-  [53824,2.883051,0.106490,4.98,0.17,"","Leo"],
-  [57696,3.097714,-1.225671,4.98,1.36,"","Mus"],
-  [60746,3.259351,0.468197,4.98,0.09,"","Com"],
-  [76041,4.065671,0.713828,4.98,0.09,"","Boo"],
-  [78493,4.195086,0.520999,4.98,-0.05,"","CrB"],
-  [90156,4.816718,1.026266,4.98,0.08,"","Dra"],
-  [92951,4.957800,0.073341,4.98,0.2,"Alya B","Ser"],
-  [95066,5.063848,-0.094523,4.98,0.94,"","Aql"],
-  [98073,5.218199,1.027056,4.98,1.58,"","Cyg"],
-  [355,0.019644,-0.183426,4.99,1.62,"","Cet"],
-  [9505,0.533641,0.950987,4.99,-0.07,"","Per"],
-  [16147,0.907794,0.856309,4.99,-0.09,"","Per"],
-  [17304,0.969741,-0.557430,4.99,-0.16,"","For"],
-  [18488,1.034711,1.066551,4.99,1.44,"","Cam"],
-  [21644,1.216899,-0.211588,4.99,0.07,"","Eri"],
-  [25142,1.408626,0.061862,4.99,-0.1,"","Ori"],
-  [32844,1.792304,0.729220,4.99,1.26,"","Aur"],
-  [32855,1.792770,-0.599823,4.99,1.38,"","Pup"],
-  [33971,1.845306,-0.073989,4.99,-0.19,"","Mon"],
-  [36041,1.944507,0.161898,4.99,0.99,"","CMi"],
-  [40259,2.152570,-0.275556,4.99,1.07,"","Pup"],
-  [44659,2.382256,0.088878,4.99,1.19,"","Hya"],
-  [45085,2.404511,-0.783093,4.99,0.22,"","Vel"],
-  [46771,2.495584,0.197219,4.99,1.05,"","Leo"],
-  [55560,2.979393,0.758916,4.99,1,"","UMa"],
-  [59856,3.213598,0.577033,4.99,1.14,"","Com"],
-  [66821,3.585546,-0.952242,4.99,-0.05,"","Cen"],
-  [69389,3.718701,0.042053,4.99,-0.12,"","Vir"],
-  [75206,4.023588,-0.836498,4.99,0.52,"","Lup"],
-  [75312,4.028242,0.528622,4.99,0.58,"","CrB"],
-  [78323,4.186629,-0.728578,4.99,0.99,"","Lup"],
-  [89348,4.773007,1.123945,4.99,0.44,"","Dra"],
-  [95372,5.079459,0.516990,4.99,-0.12,"","Cyg"],
-  [98842,5.254866,-0.559488,4.99,1.21,"","Sgr"],
-  [109289,5.796379,-0.594177,4.99,1.5,"","PsA"],
-  [113288,6.005823,0.868014,4.99,1.78,"","Lac"],
-  [115115,6.104120,-0.167739,4.99,-0.02,"","Aqr"],
-  [19018,1.066626,1.032458,5,0.5,"","Cam"],
-  [25278,1.415568,0.303400,5,0.54,"","Tau"],
-  [29034,1.603640,-0.650186,5,-0.09,"Elkurud","Col"],
-  [29735,1.639510,-0.239431,5,-0.08,"","CMa"],
-  [33345,1.815626,-0.245104,5,1.18,"","CMa"],
-  [35384,1.913461,0.863323,5,0.09,"","Lyn"],
-  [47205,2.518559,0.119307,5,1.05,"","Leo"],
-  [55588,2.981072,-0.631194,5,1.46,"","Cen"],
-  [57175,3.069685,-1.090646,5,0.78,"","Cen"],
-  [76008,4.064074,1.350001,5,1.55,"","UMi"],
-  [79043,4.224026,0.297526,5,0.93,"Marsic","Her"],
-  [88060,4.708410,-0.528015,5,1.65,"","Sgr"],
-  [88788,4.745022,0.758553,5,0.91,"","Her"],
-  [92845,4.952891,-0.395689,5,1.35,"","Sgr"],
-  [93408,4.980469,0.819167,5,0.19,"","Lyr"],
-  [94490,5.034922,1.007144,5,1.16,"","Dra"],
-  [96275,5.125079,0.345111,5,-0.09,"","Vul"],
-  [97295,5.176763,0.588658,5,0.48,"","Cyg"],
-  [118121,6.272642,-1.122216,5,0.06,"","Tuc"],
-];
+const COUNT = 2051;
 
-export const STARS: StarRecord[] = RAW.map(s => ({
-  hip: s[0], ra: s[1], dec: s[2], mag: s[3], bv: s[4], name: s[5], con: s[6],
-}));
+// String tables the packed name / constellation fields index
+const NAMES: string[] = ["","Sirius","Canopus","Arcturus","Rigil Kentaurus","Vega","Capella","Rigel","Procyon","Achernar","Betelgeuse","Hadar","Altair","Acrux","Aldebaran","Spica","Antares","Pollux","Fomalhaut","Mimosa","Deneb","Toliman","Regulus","Adhara","Castor","Gacrux","Shaula","Bellatrix","Elnath","Miaplacidus","Alnilam","Alnair","Alnitak","Alioth","Mirfak","Kaus Australis","Dubhe","Wezen","Alkaid","Avior","Sargas","Menkalinan","Atria","Alhena","Alsephina","Peacock","Polaris","Mirzam","Alphard","Hamal","Algieba","Diphda","Nunki","Menkent","Alpheratz","Mirach","Saiph","Kochab","Tiaki","Rasalhague","Algol","Almach","Denebola","Cih","Naos","Aspidiske","Alphecca","Suhail","Mizar","Sadr","Schedar","Eltanin","Mintaka","Caph","Dschubba","Larawag","Merak","Izar","Enif","Ankaa","Phecda","Sabik","Scheat","Aludra","Alderamin","Markeb","Aljanah","Markab","Menkar","Zosma","Acrab","Arneb","Gienah","Ascella","Zubeneschamali","Unukalhai","Sheratan","Phact","Mahasim","Kraz","Ruchbah","Muphrid","Hassaleh","Lesath","Kaus Media","Tarazed","Yed Prior","Athebyne","Porrima","Hatysa","Zubenelgenubi","Cebalrai","Cursa","Kornephoros","Rasalgethi","Imai","Rastaban","Nihal","Paikauhale","Kaus Borealis","Algenib","Tureis","Alcyone","Vindemiatrix","Deneb Algedi","Fawaris","Tejat","Acamar","Albaldah","Gomeisa","Cor Caroli","Fang","Alniyat","Sadalsuud","Matar","Algorab","Sadalmelik","Zaurak","Tianguan","Ras Elased Australis","Alnasl","Okab","Pherkad","Xamidimura","Aldhanab","Furud","Almaaz","Seginus","Albireo","Dabih","Mebsuta","Tania Australis","Altais","Wazn","Talitha","Sarin","Aldhibah","Haedus","Tabit","Fuyue","Errai","Yed Posterior","Alfirk","Brachium","Sulafat","Skat","Edasich","Propus","Megrez","Chertan","Azmidi","Segin","Alzirr","Muscida","Ashlesha","Heze","Meissa","Minelauva","Chamukuy","Homam","Mothallah","Adhafera","Tania Borealis","Achird","Kaffaljidhma","Nganurganity","Alula Borealis","Nekkar","Wasat","Sadalbari","Rana","Subra","Sheliak","Biham","Ain","Tarf","Pipirima","Alkaphrah","Algedi","Nembus","Zavijava","Ginan","Bharani","Alpherg","Atlas","Rotanev","Prima Hyadum","Nusakan","Thuban","Fulu","Saclateni","Taiyangshou","Nashira","Alshain","Ran","Electra","Grumium","Baten Kaitos","Miram","Secunda Hyadum","Sualocin","Albali","Misam","Praecipua","Dalim","Theemin","Alrescha","Giausar","Marfik","Atik","Polis","Sceptrum","Sadachbia","Maia","Iklil","Mesarthim","Rasalas","Azha","Zaniah","Ukdah","Zubenelhakrabi","Kitalpha","Wurren","Asellus Australis","Arkab Prior","Rukbat","Beemim","Menkib","Alcor","Jabbah","Mekbuda","Alchiba","Aldulfin","Beid","Syrma","Alkes","Gudja","Titawin","Muliphein","Zhang","Meridiana","Merope","Ancha","Kang","Xuange","Chara","Alsciaukat","Torcular","82 G. Eri","Acubens","Kurhah","Arkab Posterior","Taygeta","Alkalurops","Alterf","Diadem","Guniibuu","Botein","Yildun","Sham","Maasym","Alkarab","Keid","Aladfar","Anser","Minchir","Fumalsamakah","Lilii Borea","Khambalia","Cujam","Dziban","Salm","Castula","Alya","Asellus Borealis","Tegmine","Alsafi","Bunda","Azelfafage","Terebellum","Libertas","Angetenar","Alshat","Zibal","Elgafar","Fafnir","Ainalrami","Adhil","Jishui","Acrab B","Felis","Alya B","Elkurud","Marsic"];
+const CONSTELLATIONS: string[] = ["","And","Ant","Aps","Aql","Aqr","Ara","Ari","Aur","Boo","CMa","CMi","CVn","Cae","Cam","Cap","Car","Cas","Cen","Cep","Cet","Cha","Cir","Cnc","Col","Com","CrA","CrB","Crt","Cru","Crv","Cyg","Del","Dor","Dra","Equ","Eri","For","Gem","Gru","Her","Hor","Hya","Hyi","Ind","LMi","Lac","Leo","Lep","Lib","Lup","Lyn","Lyr","Men","Mic","Mon","Mus","Nor","Oct","Oph","Ori","Pav","Peg","Per","Phe","Pic","PsA","Psc","Pup","Pyx","Ret","Scl","Sco","Sct","Ser","Sex","Sge","Sgr","Tau","Tel","TrA","Tri","Tuc","UMa","UMi","Vel","Vir","Vol","Vul"];
 
-export const HIP_TO_INDEX: Map<number, number> = new Map();
-STARS.forEach((s, i) => HIP_TO_INDEX.set(s.hip, i));
+// 41020 bytes (see StarCatalog.ts for the layout)
+const PACKED = [
+  "XX4A5nYAKRABAxgBfmQBIGAAdF8An5EApB0AVW0AXgwBcX0BLu0ArVMAwv8AezsBwpMA2LoB4vMA0o4BARgBBcIAK4MA8o8AnO4A",
+  "p08B+GIAVGMAtrAAx2YA1KoBZ2gAEZwA7PUA9z0ASWABLdMAjIYA5QYBTaAA1FAByG4AYUEBwXsAoacAj4kB9y0AdHYANrUAnCYA",
+  "l8UAWw0At2oBRQ0BpQIARxUA5moAnxsB+rUBEFAB8DgAqCUAIOEASxEA7PEABZoA9LEA6ykBEK8AYv8AZYgBawwAGVcBSmUA6gIA",
+  "YQQBQTIB3EEBtBgBuBYBltIAqRkBM6MBjlIBIQgAkeIALEgB2bwBQIwA75oBdbMAWJABK70BNzcA4T0BogkBWNYA5DMBgWUAPOcA",
+  "m+kAQm0BISQBDi0BxyIACmgA3G4Ar+8AHhoAVwkBOR4B51kA980AkfAAwE4BwIkAS18B/nsB6TYByzkBw8wA9fEAgWYAVf4ArhsB",
+  "1lIBQ10AsDsBeUkBY+kApk4BCSoBBmQAHT8B5QcAcj0BgGEBKwQATZsAgDABRkcACk0BIE8BJkUAePgAJKQBFCQAjXsBh3YAwiQB",
+  "Mq4BFzYAvW8BXI0AlfYAuTEBZEgA8DgBJp8B+DcAgrsAHrYBAIAAJe4AEqoBb0gAU2cAJLsAO1oBwv0AIVQBM24BUCcAC9UAWSUB",
+  "UkIBNaYBzkMAqnUAuYQAtOcAeFsAcvMAoxUBy3YB+YcB9n0AccYAqHABKl4BJasAz84A8dwAjI0B7GsAX6wAiUQBm0kBdh4BJLMA",
+  "bbYAnEkBxXsABbcAt0cBiWcB11wA5BgBsVcAhVwAOEQB3VQBHJkB98cBhSUBCjgBal8BMJ4BX38AkYQBGY4AHw0B8h8BCmwBDkUA",
+  "FAwA6ksB8LkB8V4As8MAwiYBIVMAeMkA13MAE00BLRQAEjgAfukAr0gB8FcBqG4BRE0AX9YAGpUAtiIAwWIAan4A6KIADXUBACYB",
+  "ZagAyQIBX2YAw8QAcvYAtKsBnlEA0xoAJEkAiAcBmyIBFpABnbUBXCIAMDIBvlMB+48BGLAAn8QAbW4BxMQA7Q4A9BQAq5cAqiMB",
+  "ojEAkAcBr8EAqT8Bph8AQIQAs9cAUx8BNmEB77cB938A3ooAVLgBIYABbLgB4kMAlLkAhr4ABGkBnWsBc6sBmVEATp4AF9wAzC4B",
+  "91ABSk4AmGoAbBEBUV8BqIMBGgYAaikA8tcAcUIBbJMAt60AjRUBqSUBFooA4IYBtx0AYmAAwGkAneEAZOsAiRkA+oAAKKYAO7YA",
+  "tioB304BmTMAHD4AscIAffgAkVMBuRsAt0UAu5MAKUMBPrwBE+AAiY0B7U4AjbYAsS0BiloBcLEBrycBOCsBlAwBO5MBFVgATKcA",
+  "VXwBpb4BaAsALyMAnVsA7roAN+AA6aEBcjwAfVcBG8EBDVkAx20ADpYANi8Bw1oB9H4BmUAAW0QAxm4AfJYB0z4AHBoBIVYBUaIB",
+  "QbkBxSEAKjkBt5kB360ARFQB1WUABmwAk3gA820BbXYBQbIB1DMAeUQA508AtWcAYKEASqYAu0EBRo4BmZ0BeKoBsYYAzowAv7wA",
+  "BdAAcxgB2pABTDkA7c8Ao9cAHzoAbZEA9CkBO3IBW4UBkVMAIMgAmCwBaMcBDyUAeLIAk9sA8zsBjlEBfccAlQoBshoBIEQAKEQA",
+  "lVEAB6sAqMkAEssAD+8A2loB/VwBmXwBI00AuWoARXYAD8QAYe8AtvAA+DABG2AB7WMBVBEAWlQAA2UAMDcBqTwBAFcBO68BpUQA",
+  "D6gAugoBFRkBGDEBDH4B/QIAgCIAR70AiCIB9b4BhTUAgIEAGLEA4eoAPn8BR7kAgdgAkAEB20kAW6EAl+0ATyABLSoBeDgBB0UB",
+  "wHMBG5oBGAgAqxsA2zQAxFMAgJIAv9QAVTQBgFgB5BQAR5IALZMAn6cA9ZMBfiUAaHsAj0sAqG4A2KwALbAACXQBc3QBCIYB7sIB",
+  "N1AAGWwAnIkAE6YAOegAQi8Bv4ABlbEBOLcBtkgA8Z8BgyQA03MACscAxf8ANMEBXq0AWtkADjYBhB8AXVYAKIUA3YgAuRgBvzIB",
+  "gDgBkGYB1IoBkakAP+cAPGwB9WwBrikA4lsAX6gAG/YAGVoBLYwB/M0Bg0wAJOAAYRMBibMBKDkA/p4AhKcAitgAgwcByhEBcBcB",
+  "TLgBrVkAYpAAmdkAGeoAaeoAShkB0UQBRRABhSEBSCQBj7EBbQ4A+SoAYzAAQjcAiIEAfrcA7NEAvmoBy5YBHpwB/mYAii4BWR0A",
+  "6TEAFJUAyGEB0G8BxjAA/YQASKUA5LwAf8oAX+AAmCoBom8B5rsBajAAZE0Axm8AROYA8H4BQpIBw7EBn2IAo3gAHTABVZABFbcB",
+  "I8gB8T8AyEQASaUAwOYAXykBTzEBWqMBca0B0YcAeEwBRcgBPnAADo4AhzMBXE0BJwoA0kUAs60BMw8BZBABmD0BIa0BUrUBgQcB",
+  "i2cB1WQAs5cAIcgA5jwBP7cBXroBZD8Am1AAoEAB5YoBgp0BxjMA80QAdpYARjQBuToBNF8BD2gBwWkBd2oBNZABjpoBJMABPwYA",
+  "/ZIAivsAUQYBqAsB/TQBvD8BgW4B+6IBDaQB/BQAjywA4jEAYOoAhe8ADzwBJVIBp8ABCBcA30oAmlMA5FMApF0Ac6AAsPUAJBQB",
+  "mqMBOhUABiAAljwA40AAtU0A/1gAIqwAmlABy1gBdakBKhMAHDIAlE0AVVQAeVUABPoAnyQBPnQBhJABdsQB51AAWbgA5McAr00B",
+  "R4UBK5wBYqsB070B1EEADWEAussAUOIA/ywB/jsBU6oBVLIBl8cB4REA3CwAe0QAhUUAqFAA9G4AL6cAqdAAR90AReEA9u4AtREB",
+  "u4YBSKYA7hMBkyYBjjQB140BukEAA1UAWWUAAHQAO6gAnrYAhuUA8foAVQgB6xsBkEsBvI0Ak/UAsBMBtUkBIlsB4l4BYAsA1wsA",
+  "phUA3GkAlXkAuJ8AuLEAR7gAqwsBCCsBa00BQ2cBAWgBVKMBrrEB9jkA7VcAr3oAqYIAcpsA4qgARu0AaSQBPk8B8l8B+XEBdKMB",
+  "tAkATQ0AVCgAzz8AXkoArVgAB18AJ24AQ4IAt5sA/gwB1HgBmgAAb3QAV4oADdIANlsBbIAB7voAt4MB1cMBB8YBhSIA3EUAQGYA",
+  "CW0A03YAj5kA5cEAlB8B8UIBnUsB9XkBRXoBZ5sBbxEAtpQA4psAV2sBj6cB+X8AhYcAnBIBvU4BvlcBspoBLr4BWcEBnsEBbnEA",
+  "1HsAaogApYgAhp0AwtIAexsByS0B4lgByq8Bp8MBuUQAiU0AAFoAEXEBgIEB64gBiY8B4JABkgQAyg4A0U0AClUAbHUAu48Am5wA",
+  "Ap8A0RUBG3YBzB4AWzMAtF4A8nIAoqUAn6wAicoAmc0ALNcATzwBuHEB5XcBMS0AT0cAC18AZa8AmtUAJecAxjoBNLkBKzIAvTwA",
+  "U1oARHgA8HkALZgAN64AQrQAnrcAy+EAdBYBzR0BmpkBN6oBsA0AOEkA6VAAQn8A6cEAOyYB1zkB4bwBx70BCCUAAFMA+X0AEogA",
+  "N5YAucEAUhgBuXgBKpcBLqMBwMgB68gBMs4B4mcAimsAYagA9MUA3eAAywYBIoYBC5gBN54B5aoBuqwBSLUBwQUA0hUAW2sAs7UA",
+  "H7kANCwBjoEBvY8B46AB9rABZ8wBBTMA9/4Aa/8AVhEBESABGFwByHMBH5ABnJ4BALIBtwkAKQ8A/W4A6JAAaw8BdU0BIFQBvZAB",
+  "ir8Bl2AAuHoAuLYAaLcAgbcA0xsBmCIBKCYBcn8B4L0Bz8QBLQEAmT8AK1wAnoMASY4AEr0AUyoBzzgBB1sBb6IBD68BEbABEDQA",
+  "pUgAtmwAnK4Ap9YArhMBTFABXJIBApcB5kEATzoBWToBVlIBkmoBNW8BXn4BfWYA9rwA9MwAqfsAKwgBLDYBDFEBMsIBrQwAx0MA",
+  "J0YAgWMAH6YArbUAe8UA39UAyC4BEDABFmcB0XgBzMoBZk4A+sAA/tAAvRkB7SYBwC8BaXMBuwEAVgUAgSIA4TkAMY0At5gAuykB",
+  "YowBRhEA8UgAyVsAQ2UAGK8AptMAHdQAoNwAd/MAH/YA9DoBb1gBZmMBEmsBWjYAEJMAZJYAU6cAiLEAXfEAsgQB7x0BQy8BRjMB",
+  "rWIBYGkBc80BKEcAPVkALHAAogYBfSsBHSwBwUEBfkoBvVoBYXUB1YwBOrQB/7wBrzEAGVMAN1wA8mwAI4oAoo4ANZAA+McA3uQA",
+  "LzMBwxUAMSEA6nwAFoIAhYkANqcAUq4AL9AALPEAPPIAoSsB91kBTl4BF2AB74ABbhYAdD8AY00As1QA7nAA55wAE7AAQFgB42EB",
+  "D2cBZHcBOpUBfhwA4CIAzSUANzYAZqsAzrgAhb8AgssA1gEBugIBrzgBq3kBIqEBU7YB/FAA7WAANZEAyZQAK5kAhssAPPMAgKIB",
+  "RqkBpcYBX2EAOd0AWt4A70IBTmYBEn8BSZgB3LkBF8YBgjYAdT8Ai1gAjVwAiWQAgGUATrMAyrMAw98AyfkAXwoBkn4BtJoBx74B",
+  "JBoA1GEA92sAXHIAlJwAI7UAcMcA7sgAyskA8+UAKusATP0AADMBIkoBtKIBMSwAsoEAoJwAk9IAQjQBDzUBhZIByQkAMRgABy4A",
+  "fTAAoDwA1T8A35sAgKYAZq0AnP0ARw4BXS8BNFgBZm0BNHcB0JQBSqkBescBzIgA7eAAyggBURABUCwBkSwB7IwBkMEBqAkAvDMA",
+  "6DMAZmwALXUA9ZcAorkAkswA4tcARewAe/cAZwABUQgBeBIB6UsB1lEB73EBMaEB670Bfw0ALjgAw2cAFX8At7IAP9sACfYAuVAB",
+  "VFkBGWMByYEBzIYB1ocBo4oBh7cBegAAMxAA+SYAs0QAJVIAv1oAV2YAp5sAUp0AjroAhMUAv+sAVP0A2BEBohIB+04B/lQBeGcB",
+  "I68BIrEBkAQAwSMAllgAT6AAILMAlfwAVy8BrzsBtFQBVVgB8IUBWKsBVK0B5AwANxAAXTsAgk8APlAARFsAWHwA7q8AtbEA87IA",
+  "Fs0A0u8AFvoA+A0B9xABOxkBYB8BCTgBXUoBN4UBsZIBppsBULABs7UByl0ANF8AU2AATW4A4pgAtbcAh9kAYxQBsWAB640BRJEB",
+  "hyMAFF8AU3wARIEApY8Ab8YAA8kAJu0AmgMBag4B2jIBMzkBkUEBPkUB6GABbmoBU5YBMq8BE7IBTsEBpcgBxBAAnRoAZjAATDIA",
+  "v4YAiokA8Z8A5qYA7PgA3x8B0SIBQDsBdkYBuGcBYmsB9msBXxsAZCgAlCkAYTwAHE0AmWgAsZEAlqQAL9IA8N8AixEBcDwB/D4B",
+  "ZEABMYABS7YB9rYBuL0BDjoAODwAT44AMMIAmPsAVSQBJlcBPl8B3GsBoggAFjwAtn4A86UAYMoANP0AtxIBmBgBNTkB4jwBWT4B",
+  "RU8B0FIBDmcBWWoBs3EBjY0BDKoBCxkAPS8ABjsAQU0AU4gApqYAMasAr70AC8sAAM4ACnwBN6ABUSwAw2MATGsAomwAVIoAdOQA",
+  "CPIA5vcArEMBgFcBxWYBZHIBVXgBNcoBwc0B480BjgMAtVcA1mIAd2sAkZEAFJQAQ8kAKcsAY+AA++EApvUACBEBnUYBO08BXnsB",
+  "r5EB4bQBFsUB2Q4ADhoABWkAzYIA2/QAR/wAPzMB5TMBLjsBj30BhpEBTzEAk1IAQlsAG10AjXUAPocAwIcAdcsADvIA0QIBAR8B",
+  "bCMBPD8BmEYBB38B7YoBPI0BzrIBIroBZSMAnm8AkHAAOHcAC4UAw44Af7EAvNMAGe0AmAIBmAcBqBkBcyYBlloBBV8BzmIBEWoB",
+  "9I8BO0wAFk4AHE8Ai1oATpAA6ZIAp5gAoasA6LkA2NsAmt4Ax+kAK/UAD/gAlQ4BtxsBDCEBDzYB43gBMIMB54MBuoUBq5AB+8AB",
+  "UckBKCgAUTYATYIAj4sAAJoAU6kA570A9cYAJ8kApvoAHPwACjsBX2wBnoUBEosBbqsBVg0AYhgASUgAcGgA+nIAidoAyO8AfzEB",
+  "lTYBzjcBFH8BMIEBFbkBGsQB/ckBih4A7h4Aji4AID0AjVEA9mAALW0ApgcBZDEBOjMBUVoBQVwBVFwBhsMB5hYAMSMAoUMAVEkA",
+  "Gk8Aam0AipYAn8YADOsAuQABYRQBxisBrjcB5kUBVsYBFsgB5ckBPx8ARScAPDYA51wAbGYAe2YAA5IADaYAQNIAYOEASu0ACSkB",
+  "nTIBLGABF2sBWnMBGX8BYwEAISUAEz8AmEMAOEgAjFQANmIATIAAV4AAs4QAyYwAQ50Ac64AHbAAs7YACNkA0OkABQUBDQ8BxiUB",
+  "MCYB8zEBBF0BjHQBGoIB6aoBiLoBq8EBSkoAvmIAanEAJ3QAQYIAOIoAZbgAJNkAV98A6CgBwzQB/FcB1FoBrWoB4GwBGnEBE3gB",
+  "D3wBac0BJx4AuF8A5uwA2HwBpVEAzGIABwoB9XQBWKQBz1cA2dEA8wQBa2YBZVUArX0ABowAl/sAxSgB16ABXrQBL2EA9KsBe8oB",
+  "znEATtIAaBIBtnoBJpIBRFIAULcAXLkAP8oAJw8BLU8BHI4BJVgAFmIAxWMA7cgA6cwALtkAjmoBEYoBBKYBpD8A4VoAq+kAaIIB",
+  "9MIBeT0ABUwAKlAAwKEBdqMBMBsAUIEA42YBg28BoDcAlPMAN68BkQAAi58ADNwAa5YBwj8AE3AA8YQAj5oAiv0AOa8AbSMBmUAB",
+  "MI4BYI4BlgYANCsAB2MBYpwBJ7kBG1AATOMAYuwARHUBfcsBUB8AMVkAPmUAEGgAFbEA/Q4BmXkBjIsB3S0BtcEBzMIB7U0AQ20A",
+  "h4QAHesAaRYAxDAABUsAWbMBIyYAtlwA2GEAMn8APOUAO/MAF4EBqxgAHr8AZPYANUUA4H4AI44BkbcBYckBIZQA7sQALskAz24B",
+  "bTMAITkBVxsA/yUAoVAA4RwBcUUB4h0AmYAAhqgAj7EAKWEA6O0A0KMBv6kBKakA4toADpoBjhUAC1QAApUAr84A0UgBCxQAylgA",
+  "cZ8AXqMAtaMAhoAB2qwBCHQALXwAG7QAExEAMhoAGWsBwa4BDy4Aa7oAns0APWsBmcgB0GcBbQYAAg0Azk8AbPQAKmgBOUwAtVoA",
+  "cpoAezIB80sBa4wBqGcAdrUAVm0BEW4BFW4Bt5oBZREBBC0BLpkBiQ4AJisAqI0BbiQAFSsAgckA1/MAxmkBdagBoKsBuzwAt34A",
+  "pIcATL0BLDAA51QALHkB3awBvE4AlGgBX2QADe4Aj+4AQDIBWLEB4t0A4kEBxJwBUTgA91YA0c0AHPEAODcB/q0BGRMAXF0Azs0A",
+  "kikAnGwBDzQAuMgA4bABvVUAL+MAoA8Bwa8B/LkBbx0Aun8BLQ8AurAB1RUAHR8Af6sA5ckAEPIA+CwB/aMB/x0A+04AoaEAKKsB",
+  "YTUAbY8Bn6EAbegAvH4BirEBMJ0AN6QBVboAlngBQSgAWGMBRWsBHIIBHe4AnrcBPSMAt+kA+o0BAKoBAz0A33EAG3wAJhkBIZ0B",
+  "fKoAejQBV5wA9dkAwoEB4i4AYDEAslsAhqEBhaYBnTQBQI8Bx60Bq0QAGH4BiH4BCrAB88oBAzIACFYAHFoABKgAU6oA8q8B/zIA",
+  "4IEAFKsBh7kBxZsBphsAReMAXh8BHt0A9IQBJhcA6uUAZMkAfuoAlMIAFkYBV5ABqZYBsZ8AcWoAQtoALuMA+icAVNsAA4sB//IA",
+  "TM0BhNwAY64B4lUAf3oBIZIBZpwB3rgBzPkAaf4A36MBUqgBNT8AolABxigALuEAF08BF5UBxtMAEYEAP1gBD7oAaJoB5rUBmLYA",
+  "5w0AoRAAO1QBmlYBBkYBUFEB57cBlU0BYYABNjYBk+MAfgsBtdsA8+AAlsUBBJgB+uUANxQAos0BqcAA8FIBwboB/SsA/PAA7rEB",
+  "s+EA0mQACwcAUZ4B/agBYLIBs7MB/t0A6/MAO5oBmKkBkwoASioAKsQALFABHF8AjV0A6N8A6rYBZr4AMJUBLycAZewAi/AAXE8B",
+  "2JQBaQ8BWkkBhr0BdpAA7ZcBHh4ASKABS9QA78QBFNcAAboA47QBjA4BiHgBB6QBMbABIbYB5BcBk4UB19IATs0A9L0BSiYA9RkB",
+  "ahIAxQZIEUJEHx6YqWGcG5HG3Uw49+o3WKdRC18RQyQ/XAOW3rHTiLqEdQ0xOiWPCuWvFLlSZOr03HuI87LchmCcridsIWxKQ9FQ",
+  "ZIqF5067FM056AE63Fhic8U7VyHsUJQ8LAdX5JqJ9FIkGkzEDv91kShMUx6T+1VZwve7kOo/c1GzTrRG10ddlOTZ5/saGAlEiOdk",
+  "zJsWojduzr8HMdPJhYWWuH0BkWUMydI9B1mefEDyPYu7x3MhygYWGQ5+3xQKimGHdPhVzAljrCqm6WthhOuO+EjZhDMHjGW/AAY7",
+  "fKEBAMKR17mquJWzlsmcT6WbGal1vVSd9NrnAeO8MKwEMud+qC23FwH2QvNOf03jbO5jb4zdAS72vWcg0UWxW4qUatd3HaKr7SY7",
+  "aXyBW8+CiiHLAgajrt6nZ2EUzWE8TvM/AB2GckEPbWOUMr2fgsw0L/tyTZyGcM262rZNd7vD/uPSjjetjO6usE1yB2iH76E7GVSO",
+  "32Ce0w+9lro2BAqw9++3TLGCXr66TT+m0Vo6rQGyf5AEuAux+vjEYFoCrqxWtc2pnZ8pwtS5e/66FHEovA2L4FzoOB0VgKnS9BRE",
+  "p1yjuvTt4LAfB2fMU35P6/WJa3aq/kgq/G6uSJzlTNogq19ov0/ypOBIKE+F57Hr+1AqlgY8vSZoVgjBzweO98q95aDLqwcXIw13",
+  "Zq+jWuOzWpbpkaEneZxDUjRLycyB8a41SzqIQAmb1iDQkhHZZc9H5qJu/eXMQSLDXS5fJn1zzrF7DQPckmQ+CNxfjBa1cgG41tmf",
+  "Qb5j9YxlKAK4j7ZGoddlPeW24R3I1H02/eOc8oYz3k02OOu0bTK+wEziKFT8qsyjgOyt1snDVxjlQZFI01fX/txPUHeWP7mgl3rK",
+  "2GUo2v0GBT+53GH03qE34xttlG6k3bUwI1xwGKVCDtm5lL8LlOsgBb6CcX63sdO/h+bLITstad13GW5TQFYUT685LQ1IxbZaIDPP",
+  "PwikIaZdmdWQgJQ7I7RtleKJqpjsHsMvnLUPockqrneTIi+ieWLdpwnyeRoUObCqvpe9d1PdLPNhQ6JtEcfLxrRtZboImzEMvMJU",
+  "icGiAAgdxXyTYfhr6EqySoAS6PhKVZ54lFigm8vEbkzzUtxIfT5OuH/zxhzVXI7zSbAn0FBn4BtqMufIXEPK3XrsCsEv90RYTjN7",
+  "Q9Ko8wO8DtktV649a8iYvb3DtuHWL3QDsEQYkMV4hvizh5FSAaVg9P2abuCjGeJNAIvYvWsRoHY46Tw9iFh+M8yD/+8OfWJJIX9c",
+  "NXVlApWmsNy6JjgeRmkkioxsxRGLtna9hEMQcb0oRrZS1l60w6z1B3F9OgLcey8u15plDDaoyy3B1srviPKkSd+mHx2WyxPfHMUz",
+  "RhVdVRfTQQP3nJIGMJ0UHsY1PgtoKYV9liDnOngjQ5q/j2L4uE80Y1w/I/NTswipfk7BCYDUuNolV/ondeo/a+DggNQkK46dddm+",
+  "ll/nNwX0sNATR5CuJ6HiGb1g/Ni9qU87CHU+iR9FzH/LnvLPwTrwmVge1Agodr4utzg8p+hZRo5cd4SzUGHcpb3kvenrxDhMhT1P",
+  "tBBpNi10FaacHs/dJrAh7iR0DpF4iyUi7JFR5i+mBbXNvMHXn/wweZ9vR5mn4gL8gLIVn1ljlup6limwa1m8E05vpwaVl9edZNsn",
+  "AeEnJL8vmx5f8n9wXkxxqMWFRFfBZnLC+zrT6CctUr09bO5DV0lt3/OF8LOGPAmqhjbEUULG5RYKTXQx2eE6QWmtUJ2weVW/RYTu",
+  "oCUoGYRdOBmVEP2c4hyqw/7TRawB4y4UV2FpLR+iwiz3aV0fop9JvY1i8omDO63U5BVnZBF5hi+QUjorK+VZIfyE7+ig2VCmFi2u",
+  "g2K1A4XOKtDih6gE8DgQqvoelR8x9BlSRtx2eOCrXR3AQigM4f9RaHRS/0ZdX3/fuPEVhoVG2zQsKtk/Lh1gUwFi9LDOwOnOexXY",
+  "wGr5nPAusnw+pahNcXZcThKCMg+pN3DVwt7vWvDykXsqgwrmkVUVGKRC7gBvrSaPlm74WW9gJpZ5msystG0SisEyqmVLvExN+sqc",
+  "xACrqjGumabHKI/aHlFe536Bf5nKJvfKVGkY5/A1kKJdorSJQfjA4zzbquD/r8YscHx9IdCZx/PwWJwhS6BY/TldSBd5cHaT7PyY",
+  "oBGco3vzMbA0ig1Rv8F52x+DIUeDPBidaEK1LC6Ye5KhIh2jRdrvcmoIMzMZO1oc2mwgQKJJmR9mFEt1WtbJqA7hL+3j/eQ7M6qo",
+  "YzUR1jAdjmtTGiDFG3PMH5ActVVLjgZc1iZp8vhwPZp9K4emwFnMaH31B18crVAteWxAEe2ArX3Uyove9PTvMpc5JSZFqZGpM4fd",
+  "+9ryh2/8EH0lXTwoGwdcLTmBrNql4Dyq3u/ndoHtocZMJou5W4T8hLtAkddPHXGreAW63N0FuMooy6jtPKCXAj+YHSKx0lbt8+Tx",
+  "/XSTIR7IWs46YsZUrp9vvLqwt/fy75z09SolQC0vytaymJfaarPkdVMeHVQoiSRUstarjXivsbDD+GLIeEjJk7DJfHPdnRjjLOH3",
+  "bpAD2F1SE8eM/smSRaCVyDmsoVOyxM7LFbznn1HoSjgMdiEaZy0dEkODw/+F6D6wKbK8lCj4BngNUdYrVgExfjAxmvU2mGRZ83+J",
+  "DDqabRToHlsMlrwSboojugEmBIQtjUY0JbtfpNS7lETAEVfroTALtlIdp20tRHMxSC0yL+WLf0ujXcvOzqDdNU769Fcv95dmYH5v",
+  "RDK6DrfXd/TjNXHsZ472Io4mPNA4kKdxRL1+IdWn3DOwoc/rhETw+Bz8OmsK41YaeQkovaMoujIvC/0/iARdsY106+Z7iCp+kbOF",
+  "YfKYgnjY3o1c2x6amlqktPurJCbcrnwmN9sxWw8747tC8ZNdoqNlwomAPnGMXOGTdoOeOAm5aKxPWXGJ0/yZ7w+4e4bB8IfDfY4G",
+  "vNoG5KMMBks9z6lF/wBZWuFiA4xm16OV38OmDQy6pvXH+1vIx+nnoOrvRBEiE6oz0TdGui5KQb5WkPFd+8mEfyujeQ+7FiHEmpPN",
+  "k/3nk5sFGLUH+qQXf28lWYAr8xE0gK83548/3vpJdtxWgWiW5DHROVkAT/FCF/5NXFx1mY7BVUnVfm+M3unWvPb53zH7KjQUxs0o",
+  "EIY7XgA/tjlEcrxVaRJsAoSgoES0WBG5gMvR2fbRHYjjiisKHzdTLfBW4x/K5Evq+NxIo6VMym2ZSMy62bu/dy/jwbz2JYT4Ca74",
+  "nlhBbrxGzRJNXjNNtNRXW791CUaeskGoy0/A79ruYtj5/TMouGEt2dk0zxzNTM7VPpPZMg/d6dHdS5oCl6cI45gttOAxEX1DdbhQ",
+  "Q1pX0aFYzSGbF8XPRAgSew8eDYU3Zh9COTlcGwRgV/5waM5yoUt4PmGwiG7NGbrQK4Aa36YpPrI3xJNh52d3D3CB2H+vKwH0A1od",
+  "qp0jRRM1DwJFfNlFRQVVQOpgC2Jk5DBmAW1+p3+b0H+fA5Pi98DrffMHetMqr1kvMoJI7xNs7yekofOuxgX2YYX2ea4VuJ8w9NFH",
+  "VOZMjwZUx/xr0ZKcMyXRZUTh/Njn7M78rO38Kfz/uEw8BjE+IKNddmJuNt19pBGTACPYo7ThOhvlNCjsTiLtgN7xHkIDWr0MTBM+",
+  "/zJl4f5mCGOnkdXVjindkpfmkYbvZgD/ttkdtbCOSO+ODLuYV8qgEf/BfIfOYmXd+lLlMhbwLpwFGNsIiwJAWk9R9bqXXBG63Mm9",
+  "98Lde5D3jJA4dTtGi69liBVmUSFmInieNiyi2B2kZcrUG5T2NIT6NKoAWlEl3h02n61KvPZPZ0NpSWGm2VWu32/BynPnkWfucQbv",
+  "y30elnEqVNA+KylhRQl43fqZQay7vJnecizhOJgmXy+vFTevA8q8p7vJpybMwivUy5877C9pJmhyKtqMac+TnNqstw+8jwD5zFgH",
+  "cp0n2/MouRo6intcki5lQiduyJJ3FdGo8IepxePHQTHR/gf+8egt5JNr8L90TmCdH4GkQl2pTFfO1PIA3gkDDjAUzwEidWpPTk9V",
+  "fxOmTVzb7xIKPacqOuI1jAI7RW5hrDl2A392XIN7wj6IVreJBJyvAhbAwfTFoP7JI9wfNmhSgxlU7xhd3cxiyRaHs+iRE5KfHRCp",
+  "lkur25PFNhrJAJr/fIwpBW00Y7JACvaSIQCnnVKnqIazkHm4g0zBi2HPSJzbmE/xqxP23w4dKK8wSSU2dfM+0etNUiBQ7PRQB4pv",
+  "vieA+Tyr7rMMVnsT8EhHgONJZJ1NUQddqgBhTkN0IvqGY5KHzxGnfeTAnzXDyDTEb4fVZxwNiTglQ1AtHaYxIxhBHYFX0/BhlgLA",
+  "zzDF7OHH5mrQwTrg77IQy24UtSEWn8cflFhfHtZmYbRq34xxbFmQwMqQr0iuv6rRIrbmYGryi2UvaLw4xnlRgkJT9YxVOo5xzxyI",
+  "xHvnL0Lrr5H7+fc4xNp7fXt8EES07YPH9pfUqdbhzVb00T/7CfMf0TglfgE0J1A2hZ460CY7LdJjDyBkikp9aMiLUOqUjk/UYDDj",
+  "kxj34UYPxTM5Pmg+stRBVFZXwdpkCEZvPg9wFZNwoMSA3K6DD8mNAiqrWEm4bZXnfuMZ57ZJmV1Xhqh1ENKr/EKsrLHe/6UFnCAO",
+  "pwkbqGgcqo0jcnElhO9WQqlc1nNgVPCNjxiXIh2pkPa/aTjLplDQEvjff0Hr6Q/8wURN4Oh9RCCUFDWYC3Wnlpanoqjb7aT4xJUF",
+  "hk4eKWge9qc+uFlDOetU3FZn2ixyDLx4ZkWEsnmKEoyPvt+Tt1qZNT651IO8vYzNzL3mBZn2ItsHJPwgBj88EWpI5oNjALl6p6mJ",
+  "Cue7RYzAi8rFPPfV1H7YwgHZy3baqBvzrkgAd2wJmNcWRi8ogxkwGlI1QZA7QdZWXrtXrNtn5CxuPACE4MuN2QOZe3CZGuu6UkG+",
+  "YxTIEnXujJ7vlZgCEfcUDwY0nlZZUrljsWCNoRupdgmwUhO+/AvADQzY92jsVnHtbHoHTW8JndAijn8uTfMu1JY1+v1G9thhweBi",
+  "O6RjaYJyITKGYfGLGeiWZYiYjQ2d9l+gcuut3Wm4qrLXnsze1rDjDCnvERfywg43cMc3FHE4uKQ/emRVzTtmW7V52ViavIHEhy7c",
+  "kQjebdQUfrg3nvtGC4VJ6axQxqJukBxwYreEi1ORmS6XHROrN5euf2uzlIW1kZ7Ep6vJe8jg+H3ucR3w4Hz4CML8PccJR5UP710c",
+  "Cm4dfj1Mx55NiiJZD+BceUyLg6ygwEeiNsKv0DC26jDI6iTKkXDKbQgQFq8XXl0YK3EjFCUtu6w8WK5RJ51b2251QmJ9W9iYjnaw",
+  "7fCxLbiysyXVYWbyZMfyU4L2SR8icVQjfflPbEFsQ8+MLyOj722/tbXDtWTKDPcE9kMjPjhIfWRcx+dwPbqNTX2Zr7ycV5iu2bmw",
+  "Ho6xzRG74g29LOHHU6HJ7W3NAATcI63rZaMOBrYbMaYiyzktcQRNKcBcYjRf9aJp/UhxCf9yrejSry7mWfIZBT86HAw+psY+f/xN",
+  "Du9/MnKHKbeKbKC0uZu/sLzHPc3NaO3Q9LL9m8P/5dL/pwACKIozm7s5XCQ+I6FR091SMT5w0FdxoJp9R41+jHmJHpOYGUq2qQ27",
+  "vYnSbjfefaXxIqz6d64IrzgPheI8Sj5KyQKJajONjEWrXaKrKbqv277TVyHeHdgcd1UwPpY1Yqg27I1DKHxMHr1MmoZx4XSHTdqQ",
+  "QiygdpmitA6yK0i2c47UvJra09zbkIjwJHz0yL0UwVNA4+JAJ21E31tL5zBQhsZiAUh2i7GEELyQNIGTu1SdSE2k6TbBz5vDTqXF",
+  "XXbJpU/dH5gsPLwtlEsugjM1rgFR+U9SUUlVRnZfa4JnIxJ7d5p8weeC3jCJxsuKvUKXN2eeRkyhysysnDnReqXWXgLXx+rXg7jd",
+  "KFT4bSf9XogXSdUfwABKLZ5OcPVVgi9eNMFp5fRuFi9wwEaM5RqNP6SvSqvKGd/XWq3aZ3jsR7oHnTwObzUqP5g8oCRCy0x6yiyG",
+  "RFiqGxCtdMetCZnUxqTVxurzDx/6r5T9hOERQhgSqlkb488j+rgvosI4dhU/XoiTK0aq2EKrghLBfhXCtB3Ct7/5pV0NS58Upogn",
+  "6uUq/EguIjM/Xy1UCMBuI56DjriPjleaQSmnEbGt1uO1k17792f8ZIT9I0MSJgIXOMkfOYU2Opo7mZ87udhR5XJcUHd1VDZ+RMyE",
+  "faalVuyqMUDEu//J2lHOypvU5cwAFL4Vo/wkxIInbSgquJQxgWQ5aQZJRQtJPS9L8jlPH7RX1Q9h9vdh461lMmR5C++CmhaSdYOX",
+  "jO+jFyCkIJSqRXjCrvTOPhrWbSrsArP0SLT4UHUr6aw5klZBtsxCq/lJH/ZNhp1mtXV5+hF91JWlMBqsf9a/YFTBh8zJLezKJCTN",
+  "g9DQmevSCJL/h6kRfxI4aJiEsV/TBssvS7c5NrmU8yjPhXzoCJczDD11gxCSP5THxiQyv6hHDddOf8+Mn3+lnpHmAWHxP+Q4e7bs",
+  "5tn9qI1BlXt1JVCZvznSMX3e/iUwWgZmXypnedpwYpqXEgS7KkrcxswzAlg5oD86QQ1wlGJysXx5TLrJsjDaj3npe1UlC2U1U9iC",
+  "GUDWjG/5jwsk2nMsuuguKgjnMwDo6O0PIYxJlsjHxEvMdaQg6UqIYYHuA1MAfeZYvS57tNbg52clSZ1AElBLSzxW4eiN6X1hOpqi",
+  "hNCyJVfcBHTcQMED1k4ZisDF6hHkgfvzaOAur0p/UlKE4FDPlXb+g0wS12c0ZAA7zWU8vYxignqXbqLRPu/a3Euo3rr4Slz5haMt",
+  "yho/fhhLv6eDmxsN1Y8cl+krodXw1FAWz2w2yTU5C3lILWCAHByIfZjV/WsOS3dqxtyJGXkoIk9IpVDc0B7z+zD9d+RSB81tCzFw",
+  "/fbLtBgeW4uuoAQQhD4Wai8vNf6ebZ61iYMRIipJt7tdbNBiz+I4zSOF0zDor4Tr2hteSYB6rMzimY8M9Egx/GFTa2xzkYy3R60L",
+  "CCg0LttYSfNa7iVb2FfVfjXtur1CueZGQktkwPUJiVUPeQHK8EHu2AwbRsZnBtJyVRPKc7n8Xj7Ia6kD/IwHa64uZ8CI+nDIm5cs",
+  "F041FC9WM9qqCkO5eV7bpTM8Gg9lCC/LkIrLdYzLJTHjY8KY0tWnylzi9X0I/UcZgg7c3koVvj8Z9mNwE3WIDEvJxdDqN47sNJ0j",
+  "QDhINLFMUUD26TscsskxemLRCjbtbRUu1q7Irok6VzyFQ4OFhrmqucLvGjV87pyz/UzkBRchNyEzWetyfPSGm3Gtu9bt7yoLcsY2",
+  "zepyS1oYo8vK2Xwe8vFvfXvvplIyMTt/bNaX0djuxGb0E0MRR+/UXt4I9GPvsb4MszESW2Zf+59wSHWH9tGn2kXoYJMRJDcuoQla",
+  "m07soEcfqwLdRAlaLimCQWbUjdjvsqtXnmXoNr5nUxLRiJsXau/FyxbK8hzWoEiFISbzY6YU6t2CIDjch6jr48AjBJhBaN9GmQSd",
+  "qnvkidJejfWrEjFXcPJ5pPTVC4EbcN0ceNI1Iu3m7MHp3ASshufcSrXtUyko3QXUjErUeAPvOSD+1kAdMoEys/E0K39dV7heKPTu",
+  "jNQdMMlJgUPshyz0ZL/j8TcQwUh/51+gs8x7F4vX4IsNpMKAfVRwyVGDfndsr/u1a4rdv/ng7vtY5Jk9XCl64jp/I2UXR8J6C6ba",
+  "i/+Hj4b/Fnd78QvuAWoywhnS73ne6hPknMvz2MuLjV2O2znoDr3qdw4lm9e7jegXlxZ+1vm6RCfgq1J2Km1JsgLA5JdnQQfj4jLy",
+  "aaBlwRUI8qYJ8tK97he/yfS1yDi8H0rzxiO6mkPVC+CsVXJ/zYqVPvx6sO99Evj6orLhXcuAPMQLErX/12Jr+R291tn05MUZheSG",
+  "KQ3w3mJ+38w6iBAE7iflmxnr3EzwkQjxmER8BIKIq+XiynLrRh4Gz8UYJFptQpy7rrw3q+c2AF59Q8PyZgxq1DPgMvUWfVSEr5mG",
+  "8iS7EfzfFLqXTd23vWD2QRRRTqXhTqURFjXmm5d2JpT66Tt4vJFnw6XxVz2XCgrRcU3oMhLvk1Dy9lSchNrXD8h1T59yy5z2Z2gW",
+  "HHydrsMK2jloFw41GEibB3sptSi3WWvB3VV0Wm6Hu5gu1oiK2iIq2ZyMUkIm3HqXSCBwaWhaBNyn3d5V/hsrEWbAcXkpHwWRl8tW",
+  "KFqttMUu6DpL2QeJpq+ovNgcZ0p+BjY9vDx9SK08WJbP5+nG8BhP3dLXiHZaaiLGRF0r9thC3ey/xtMdyVKXIDEyY08vE/T+cnZm",
+  "gK9zal6hDzicSWtmqplaHUZMgV+pDKmyaT9yM3fp2lE9+NyRfz+6xzO8hLmUSVrWQV46ShtHjLIrg/6lqzpCtB3OBEG5n2jQiTrJ",
+  "G5N/xB/UefUzsdNfNjpPfJo8zQpENjDQaoGmXwuOnH1I29RDqF3MvqJpoPCnD1NWtALZO8MxMlCwEaCVBdGFofhw0748cjCdENVj",
+  "GKdmidw3MA1n/YBVx6dyfSOJ+pedAYpPr+y0grle/qrVaCqaZadCZCuvo7Y5g6wdAfVKOT1L6ZNVKRiP8L56pnzXs2okTvB9Rph3",
+  "eMlLXS9p5H6GFsR4I5CeXXeULHIsWGLKpnNFtXliNfKsliAS3t5XP9hbL5iVE29dlMkld1itMQYxphA5aUiiGZaPPRBpGG8oni/A",
+  "8QSgi1IeKEwqha1GihliDMqLTH+2JdxaRue48JlbmhN4GxnMAHQjNvuqywM46IJojot/s8lswxGe8M+h67pUgwtfNu5Gh7eTfsKx",
+  "Zkm/9inmX+NJ3dtK6fbDQT5VkhpeZ9RflFO+lyIfmnu2zMOnQvpq972jgQW70jrgfbdLuHSIFfhoK18ms708JiFNflPEnl4wrlOj",
+  "Ux5E8OmwaeIuzVm02JBCIX/J/nXd9ZxZAaW6R5cjhOaJ9S5gV1WN71BLR/2qDWnusTBGgVN5kuB7X1rk1ecn69R+a2pCQA1aGwtc",
+  "5X2ubWoWJeSr83Fc0n9pw/No+mMc49zTvbYxD0UoegKgf9EvWY49UT238RzRGIFChxlygaVY9CUnvfGV1KRck43aOpd8JleSz1rW",
+  "DW6EAXFAAiGJESd/6yCOlcUo+tSEcMbSaJKWT2RCmsOR9rVEQOc1zvLXlGePUhGqL2RJyWynJdgh0SIs+k2hTw55pAi92znSwIRx",
+  "tKU0kWGvIZqEy5dDG9eXJlu3VFVpO0VYRhGvv3G5ZZ8+GwQ3BsRRhUOf1Cbe3ribK/2iQx1yrBGOd2Qy93KvS/thktCIY0ebWhCN",
+  "ALFSGx97ixlqaO5PfetqxH4+OnHn2N8hUXNz/bw2TftqPe5JB7OiLBHD6TGrpW1MKoaXjihu+yjFCUR2zBJggoKCnBgqkFx060yw",
+  "u7s0gXJGU/xXr7EpQcWmUteMBm5u3D0awPIjPdOVkzWiDgBKucBDbDK8yhgh5sGU2jmWHrDZ7O6VQcI4uPh/DmWpP6ZVio7bgN0s",
+  "xPiHM81QHlyaXeNhRqfMx5k2Q2u6jxkn8/PDcU1oNg5h1JipDKuEoHiDstlrz0pGSV6GGZqNoByJWYxyZUuicDTNpnm+jdeNLbGC",
+  "suLQJe8RWTh1I01xcD2b4Bu2OgQ9sdmDJyAnJ05iV/91KBRhPJLJS4PH637PYI68CvOYVk18TvAht6c9swcsaKGWRiBg4QukIrwb",
+  "+IinVvfTNUwsUoaTr35yIsy/QKmwA9is8MVWBuFZFf2O2ubL/nnCmohUo3Us8GWl5hLCQu6DZ1e0rpriU9KCZG7BFg5olB9EsJQP",
+  "htQjyeutqbOW+b8pbjyNlWk7L2kZGeiotgxixu/jF9lDP183L3JQ3BdEIUHjpPY6OUaWIPaebUZ0LcG2Eqhrlo1Nv2wlbcoPhPq0",
+  "5gZ+BKiizIQ+g0dA6vN3eXNWJW6B4O8+q3Cb1/ykHK86LaY/SFhzzJpdm0qDOA1/euWx6V9+a4AyPvRHo4SItnF6lY84KxU9S/dq",
+  "L97B9/urCp5mrXaHqOBBLjU6OwrLajt78LwY1h8slppiXCuEpG0xiGpy39FWxdGZfoy6yf/mKJ1kldvDfBtDr2y7F18n/sRALzxG",
+  "NtzDm2lj2J5Ph623j1kfn8hNOoU1tyxQGk4YviNC/IOhG+eyfNfAyQViaRN37LUWgTTOBi0t7pEhr/mOlFJkMhfIBl97aEGdX+xZ",
+  "zj9K8krT7qo40Gka2DCrJ5dYf9RcMG6VdtZ3YyOwWPbVKeeoJ64uQo6DYxOQ3sKJhEZ2RUmJRr7JNtV/pI/GZJoS4VdDOJOI1HeW",
+  "Yx5KnbQ5E6tsdziTb0Cmc9lmPlgfM/kkqvlN3mQ0Rnd3GZo/IF8sVRTTZ4Oi3lkenXeAlmZe3OBuHMMrnfllSIC+tX1nmiqcojaN",
+  "JM2ZRuO6igPGCAw+8zU6dgxIF1FHGcRpJ9xChOJqxjMQov0osq4hZhdK0Pg0w+geS9nEeLiNk2uMO3RECLdZZcdBLuV0Ab+cDjVo",
+  "Jw9c3EEMdgCIG2aSVg+isByI3Rokgpms8jmmEHmk5q+1mEx/bNS0fQ2/7BWhZjSt/9JvCJ5dw4DZ4YNMMe50dWNxPozB69tN7SDR",
+  "uYlZ3QBPsDidqHWInHVfsTS02lq8A1CRrbhRmj/V9rSf2Kz0dpfZ5wgjZn+2Cu9eP5Y7sqhLSsBlT3XlWj95MY4nXnq0s7CrKge4",
+  "oGV3zbsjKBSpIqanJAFRVzKCTOi/xsARnUlLJ5nTDiHGPa36kCc8M0psSjMPy9G6iaROQbBtQRNzCQseU5zHbHOOD7C6uoxzUGy9",
+  "T9tGD6jrZu3WNjDDPAaNwr5CtTthRsY2oFreQt2QUg1Jy7aeU+rbtjiLcWKOnKWMDMuRXKagsgU5Juk75EhArO6WghKJK3KgB6rz",
+  "kdBTv4VVrXPQvA5o0S+vthpCO5KAfEJteOswcMZPG6TufF9oMUZsKv9Raom9SD9WNwiMRcyi6X5KWX+ZDFXBa9WEGDOjFdR+U0cl",
+  "NPdoTs4v6DVusAErdAEJnii16FFio21+ZorE1QVk9nGa7vOpbrtsY6qgePQlQ+6YOhNRtQZCmbptsLGMSGQ653U/NCpa/HIlskqz",
+  "2PSvF7CpdW/Ob4IimrFexcwRyykuYM45TCQ/tXVDdeOFmnu1rtuZ86yYitnDQA6ccqiMKqg0FhfTSGkee02INzSoMh9VKyX7wYoo",
+  "EDy2rAdRnnUmVEYu+5SMiELExmefvj54OZhtwtFNu75nosF79W5Fkit+WXJ3uQVOY4JcCvJDW5qdSNRNTh943IXueaRiyzZKtiU+",
+  "RzHdCn+NVNacOIiG/lGD+DeOavmCGHWOBflhqZ6Z0tqYq/szGk6hkBxbGqFkB2Eg08kxq7wz7wOrMc5HmSKlku+qk6GxvzfrwPBy",
+  "c7tRBgGV8A9mLYNAWIVaxZ1GQ7Oc7jtYKnWKKtuBBEjKLkmh78luqx11iXLMnKy3J5dYEsitfHCVd9l4wBJlpsmKvqgr4XVEPu3T",
+  "PkpgVKdHxNxLGT04OBSj+82HXelRjB5vQjWUlMCEBlRF6SMuOXQNgM56VHhh5lPomH6KfdzfNcx7vhGErWTJXYlfy/I30l08Yz5R",
+  "8ZVlN1CpDHCC+KlR122KefY5K74YsjylXgfK1sA/3E2qgNF5bzuOs8JHy6vEgJgnbjaWPG6Dsnh/9qEro4Bj1G6FYjteddjkW6pV",
+  "KtCSdH89e7pIMyCyu1mX82zHqG9c4eCoGoiCX1BrF7wik9yFWB4wv0IvSEswfcGc2tOY2o6ntNNvQPxgRhVRwXu4gPi+FVG0TMuq",
+  "Zbm3hd5MIMcoxPmbAYjgJig2pFBkeJoj5cbRj5ipz0IpRzckuftsVVOmgaQ+8k5pJOTRpZ6hvlS98nImXmy6saB7WEROJKjJBsR4",
+  "HmtY3OWzQETGPnavx1ZfrlB+8MOzcVDjRCqbDNpjO5RLv1tZ5mGN+yWSKVhnGL3TCYlNnHrtdBOROuTMJg9AOaBdFodXsWvlcC/C",
+  "zl3G3Nyx4qwoUUWnB7C209igYK8/zds9uImmQ8TDfrhGXPWTJ6del5zm0TSgmGdGID+iaR55iMw9Xdwpl8cqBA3cUkhYDXR0l8Oh",
+  "9nQ+ju5KSXPlG2eEFH3b1w98brwxBzcqNBOlq/pbila4J5xcFP5XB4jHT2ttjy5LgyCYhulIIWC87nXd6uF3jgO3i4iEJVa4Xf3F",
+  "DNVlnq9xbyKyKCvU9tddqrSelp11Lzlb8m6KFDgnDNMyDKkvVuEr8xd0a8B6etJDffqF0Vme7JdXcXA5SbZ1SMpKESFH+8TNSMXd",
+  "PGBbvtQtLG0noXbUs8Gj+P5cy2+OLqSc59k2sxq0WntABqpwaQm16GuMRHuAtd6UAE/JaS/H3WensByVdOiVw0UmkMFL+fZTDKdX",
+  "WQYuNWiJBfw5e+qdMs1w7BKOh1xjx1hYcYieuK0b+2y956B0s5M6Ag9PN+5VE4pZGUtzw3inqfaip2nGpZO5jqOWP8JqXBmZm1Ta",
+  "1NKXwkhrcWu43BLjTx9SuT3UX8ofWlVWwGi4+QM1vpyGznCLM3qtURp3KrbFwBMQfuKqXdR0EjhlIO2Umwe59uxbhws99QR+ItQr",
+  "YEUpj83I3TwvVWRD1cphHw9y2ZVOdMBDECBzpJhayWiOg/X3QkFiE6uMJn0mgkSU00IuVHJ+wsitRxJb6P1Wt+ZlDhM7X2wltwiM",
+  "VD5ScA9gYOXgwXR/ig61htIxap1t3jhgzBCwO5wZfn65DyomLk6ZC7S5c3nB3l1//Spl5YHH472SzdxCZHd88cA/8eWzSDlz8orN",
+  "jMamlFFqnv9CRl/dMsh4edAoWrQ8My/gF/Vld/8z1NWdzyBepSFE8v+w2ZXDQu98v0w/ulg7cPkggpdSOw7JKgNkU6JO29Ypnt7g",
+  "L5c69zwVrSBibaOCkpbihdtUlXJegFAk8U62PVXJlcKYMEhpwfywsNssdZ0fVLg5AmyeVkvYtTikLOlw7qXQ4b11SG6LFPhudbp7",
+  "9G5yA8rhoF10rSHRNwpKXhe2j9ptPqpmYUP2OGUSY19+E9i1OxfaEAiXRStuu3Z3AUHJYfFMcIFYJrGbTsKkg8eH5Ls/EodYeOtd",
+  "hftGGb0j1EqopK2GBr2cEI+hNjO0MAk7LD8nVnAfdray1UdcOOlSkTaGv2Wkn+LmIDJFDNfHke7W13RzuyHCOc+YC8x1u228wXrf",
+  "wNTM4mhyfQglDy+g3kmnLUrunoCyfLqlLZGj801XYhOvEpXC6SC/t/VFfvWBlq6pxy6WmHIgDF9OhumkzpclwVm4PY5w1NR8AMli",
+  "GieeopXBjJs8xbu2sOFrkjxjAVhrtsNE5Z3PZdM2jp6zl6+j2m6gqHaBAmbBlf558T7dhGblBMNjx1uRSdBw6rXFM6lmTt/TEJTA",
+  "fB1viNUfz5lHDNdeQ/1QyXU0q485TsbD47VAppC7O3hPYuulbq93nTlL5ryIQOi+q6ywDMuE2SyN5IOXeoRJfH8tFSWFrr6LLTGX",
+  "qlaQKdzbosHQa75afRlFNOkzEILU5c3pFqywGkFfGVA2WDxKI4glfO9AmM2EpLU0cw5R9PtfDYrUJPVVPK7r5AQhUAOMnZuLbu+r",
+  "lltBRZbF3XfOZClhJk9N3aZfVBRcon0owTGHhMDAcvSHDe6dzGlxdb0/LlNpVaFYUR5bWwNZr24kNeVj0c22LoVu/zKfwvCiTe1P",
+  "dBJdSsAQq46Oe8ir3KLcjqtEFDt0cwtloJc7h2rTTPF6v0vPSABqEVG1R6CCM/6RyC+xS1Oaypoz2PZsQ2ZGQEMjCjee+skMyR6S",
+  "+XvOSyC1L/VPxYm3AEXT73zIvTxr5BiCPyLAOqVPK/ErQBlJW9ZjClMcEiigVUE+LCq5+u9/UXtjd4Sa8c97U/l5LOy3bP9nDx0r",
+  "tuG0VuJzPyxTR8Rm8XfNbpTKaeV7l198ANkn3YmMPfZfaO1wMY5oLBnGCns5FjX1HyVJtS5ZEsimMDSFCD6eDfNNxFFxXD1C3Tuf",
+  "67I+Sh7IvfCjnEZEbkSdWymxbeO1Bkk1yX/TTcR6QcMrnfxdZGJWrbEnQA6iQyunWirQndBo5rp8l16jua9xXQF2sMo052S0wli0",
+  "PuOw3QJ1LcKpABmrxgmyLrU6RvRknYen5o8/5vZkAUDd39wX+h5fNxu5tM3h0retRp2VuJ7FfLVRHOHCedHS6rPZBWV+6PCW7Q+E",
+  "I5bjCrFrpU0yrL3rlry25Y0rkJm9JMmBgPWEprW5D5u87NhX15+9X0SXGG2fSTrPjDVmyd3NvjZbp5mfokpeV6qseZTYbz4/iq/h",
+  "TE6w3yEpHOamxjRLHxGm69kgELaEspiTbQ5WGSBevso4uQqULo2s3MVrHAXCccB6b+SkW+AkJ2LJi1Z4E0x4kUpq3EFudq2Ikx8c",
+  "8Sam/Sq6bnSqr6DT8vmFLUx4KbHTmA1xTn7NQMfFlpNSD+nWHcJufAqFFGy7PR9PiPh5UDGNsYtpDz6HFjBAIxKQj9e9WAWvg2cy",
+  "QW2DBdY7dBOrUKFEV5bbzSCqqGhSBJVPbbvG1lRy2iHUJ7mYoARLSX1s8gZskVnG1biJ0JBMTCAnCgLunT6YNflU/c+9oMFfccDC",
+  "yBHSRh+c2fevuY0khSC/MH2uPH63YzmbfI6Skiu1kRmnsSRdRQ5Uf+9oOIC5VZ9zUP3OLCxL1lK/m6CjRfZo1xK6Gnq5mPx5xEuw",
+  "KIDUs2/g4hYesMS3PREObhFpB5o22xBALOIMxJ1rw+OJgDpZMefgRViOZcuaKa/wSgixExh/o/qgaUplH89pUhlm8LlsYt3O3nnz",
+  "mDCViW6cWoOR93+df8XypXSN3jCDMxVzAz1hdvnh4H5J0+LsIQorwZOXVUhhuLF7qbWmf8lTfXQSdR+QIAGcbZOPMKiSs6jGyRvf",
+  "L8jf1DSMF7GA5jNm8f+1zGzPN4hH2K+JEf2NTqx6lZtnNR6l8aazXhtl3XDkFECQF20T2NSkilvXmb/iR62HIprq0QfZS91sW5xq",
+  "dT/MsyzVjnCicGdgHsaK/WoyDD+pX4xiqUDsMd/TlnS7tmPFbDi9w+mKmjDcQt+ofPRMbRHdfAteC/q9H7tq+hpklQFmnlCPNIZ0",
+  "qmr1rlezjtaY9kni1drCQuntxZKfDPRc2L2vDeHn+fKeUk196bLQBnxumdqkcKOgBrZ+cRp7KfK3OWxqhdHheGuBvpFcY/+O9A2P",
+  "J4qeNZGDOEoa+LuZaRKdkOmY+QZij/WWF8C4YxoN/vlva0SbgkFDbOB0NId+JfGTFaOrweNKiFxmrUjr/6WL1OMiV3OktaH21uJ3",
+  "b6mlP2dxownxbl2v7EQcGIeS8V2reuGMPL16JPHLNkR602tmuH6StbVpHrhYLXPq0b1+fi6QCGJiCKxwOxuUmv3eo3ieU4hXWY1v",
+  "Vo7uqCjxFJJ/xQ515jufAlmR3GN5YYJYLC7HmeBB6MSjyEmipPCiX3xojFhIVTltzk6KOq9tZPPwVupnGDCUqPSdyxh048IRlzut",
+  "sIKiL96ayN12kSjPOXOVN9P38qHc0B4b00CWX26SLchci9tolUSRwuCXA2mnYzBoqHjcssXghuHb/8KxNa6JpD6uxNVv3b1hD/aT",
+  "v6unqi2vJX/XN83eMlR6JjednWOAxPuMmS2q+tGDYaGqDdhchJh8S+xIwjnSwP1+CbidOAJs9/q07dO54e+SeDGpPjqFHI6DyQW4",
+  "lHJcpCJyyB/YqLlL7Eaki27P0cyWetJ09nWcjpRfGsPRgYPQit9tsGD1lFZ4Beyiq9ExOs5zGMJsy4eB5MaV7+dzaw+iVe0O/OxI",
+  "5h55fdbzzfpiOKllj3pvsXWKj+7j637QchdYgCspGw5uHgnmDoWeDQ2uY+F+qwp0iVmT/WZh8xzvQCqiEM/PEG1uzn9XZGd94Wa9",
+  "EJJlAt23M3YmfU5RzBNtF35zoNvHav938r5yKf5VtxWelqMwv85ycIUwrm6gjMiry5ze2xmXfqNaMRFnpzpw10e3ZsfxHemx9svM",
+  "/D1WIv5wPq5tm5FzFQhg4ppc112y1NVg3PxwVjRuBsbsdH7fYInXJ/OmgXNiHVVxmpthiMNiT7n57cStGnZpe0FmZe51sih51Qt8",
+  "BSK6gkFrpXaRKqS4saJuR54zTt9nZH1w3CpnUtdcxxSFB+VyvHNVE+/e48N7L8GsGaZgISnZxD6cG0mUhhtc6A6u4MFsScPlDaA8",
+  "2oKMXpHpDnBtZafJR59ZVbZ0SZYR4UdjOlGUNzJjxlGk14Z+pkDVE+2u/bxxNb+V6IF89lxvnMxZuKFxXWdcUxzc98hx+Ugrew51",
+  "GBPqF1rmrpvccP/C//v///8DAAgAEgAoAC0ALQA9AEwATQBXAGIAagB0AHUAfQB9AIcAiACWAJ4AnwCiAKQApQCnAKkArQCuAK8A",
+  "sACzALMAtQC3ALkAugC6AL4AvwDBAMEAwgDFAMYAxwDJAMkAzADNAM4AzwDPAM8AzwDPANAA0QDSANYA1wDcAN0A3QDeAN8A3wDf",
+  "AOAA4ADhAOQA5QDlAOUA5gDpAOoA6wDuAO8A8ADxAPMA9AD1APUA9wD4APkA/gD+AP8AAAEAAQIBAgECAQQBBQEHAQgBCQEJAQkB",
+  "CgEMAQwBDQENAQ0BDgEPARABEAERAREBEgESARMBEwETARQBFgEWARYBFwEXARgBGQEZARoBGgEaARsBGwEbARwBHAEcAR0BHQEd",
+  "AR4BHgEfAR8BHwEgASABIQEhASEBIgEiASIBIwEkASUBJgEmAScBKQEpASkBKgErASsBKwEsASwBLAEsASwBLQEuAS4BLgEvATAB",
+  "MAExATEBMgEyATMBNgE3ATcBNwE3ATgBOAE4ATgBOQE6ATwBPAE9AT0BPQE9AT4BPgE/AT8BPwE/AUEBQQFCAUMBQwFDAUQBRAFF",
+  "AUUBRQFFAUYBRwFHAUcBSQFJAUkBSgFKAUsBSwFMAUwBTAFMAUwBTAFNAU0BTgFPAU8BTwFPAVABUQFSAVIBUwFTAVMBUwFUAVUB",
+  "VQFVAVUBVQFVAVYBVgFWAVYBVwFXAVcBWQFaAVoBWgFaAVsBWwFcAVwBXQFdAV0BXQFdAV0BXgFeAV4BXwFfAWABYAFgAWABYAFg",
+  "AWEBYQFiAWIBYgFjAWMBYwFjAWMBZAFkAWQBZAFlAWUBZQFlAWYBZgFnAWcBZwFnAWcBaAFoAWgBaAFoAWgBaQFpAWkBaQFpAWoB",
+  "agFqAWoBagFrAWwBbQFtAW0BbQFtAW4BbgFvAW8BcAFwAXABcAFxAXEBcQFxAXEBcQFyAXIBcgFzAXMBcwFzAXMBcwF0AXQBdAF0",
+  "AXUBdQF1AXUBdQF2AXYBdgF3AXcBeAF4AXgBeAF4AXgBeQF5AXkBeQF5AXkBeQF5AXkBeQF6AXoBegF6AXoBegF7AXsBewF8AXwB",
+  "fAF8AXwBfQF9AX0BfQF+AX4BfgF+AX4BfwF/AX8BgAGAAYABgAGAAYABgAGAAYABgAGBAYEBgQGBAYEBgQGBAYEBgQGCAYIBggGC",
+  "AYIBggGCAYMBgwGDAYMBgwGDAYQBhAGEAYQBhAGFAYUBhQGFAYUBhgGGAYYBhwGHAYcBhwGHAYcBiAGIAYgBiQGJAYkBiQGJAYkB",
+  "iQGJAYoBigGKAYoBigGLAYsBjAGMAYwBjAGMAYwBjAGMAY0BjQGNAY0BjQGNAY0BjQGNAY4BjgGPAY8BjwGPAY8BkAGQAZABkQGR",
+  "AZEBkQGRAZEBkQGRAZEBkgGSAZIBkgGTAZMBkwGTAZMBkwGTAZQBlAGUAZQBlQGVAZUBlQGVAZUBlQGVAZYBlgGWAZYBlgGWAZYB",
+  "lwGXAZcBlwGYAZgBmAGYAZgBmAGYAZgBmAGYAZkBmQGaAZoBmgGaAZoBmwGbAZsBmwGbAZsBmwGbAZsBnAGcAZwBnAGcAZwBnAGd",
+  "AZ0BnQGdAZ0BnQGeAZ4BngGeAZ4BngGeAZ4BnwGfAZ8BoAGgAaABoAGhAaEBoQGiAaIBogGiAaIBowGjAaQBpAGkAaQBpAGkAaUB",
+  "pQGlAaUBpQGmAaYBpgGmAaYBpgGmAaYBpgGmAaYBpgGnAacBpwGnAacBpwGnAacBpwGnAagBqAGoAagBqAGoAagBqAGpAakBqQGp",
+  "AakBqQGpAakBqQGqAaoBqgGqAaoBqgGqAaoBqgGqAasBqwGrAasBqwGrAasBqwGrAasBrAGsAawBrAGsAawBrAGsAa0BrQGtAa0B",
+  "rQGtAa0BrQGtAa4BrgGuAa4BrgGuAa4BrgGuAa4BrgGuAa4BrwGvAa8BrwGvAbABsAGwAbABsAGwAbABsAGwAbABsAGxAbEBsQGx",
+  "AbEBsQGyAbIBsgGyAbIBsgGyAbIBsgGyAbIBsgGyAbIBsgGzAbMBswGzAbMBswGzAbMBswGzAbMBswG0AbQBtAG0AbQBtAG0AbQB",
+  "tAG0AbQBtAG1AbUBtQG1AbUBtQG2AbYBtgG2AbcBtwG3AbcBtwG3AbcBtwG3AbcBtwG3AbcBuAG4AbgBuAG4AbkBuQG5AbkBuQG5",
+  "AbkBuQG5AboBugG6AboBugG6AboBugG6AboBugG7AbsBuwG7AbsBuwG7AbsBvAG8AbwBvAG8AbwBvAG8AbwBvAG9Ab0BvQG9Ab0B",
+  "vQG9Ab0BvQG9Ab0BvQG+Ab4BvgG+Ab4BvgG+Ab4BvwG/Ab8BvwG/Ab8BvwG/Ab8BvwG/Ab8BvwG/AcABwAHAAcABwAHAAcABwAHA",
+  "AcEBwQHBAcEBwQHBAcEBwQHBAcEBwQHBAcEBwgHCAcIBwgHCAcIBwgHCAcIBwgHCAcIBwwHDAcMBwwHDAcMBwwHDAcMBwwHDAcQB",
+  "xAHEAcQBxAHEAcQBxAHEAcQBxQHFAcUBxQHFAcUBxQHFAcUBxgHGAcYBxgHGAcYBxgHGAcYBxgHGAccBxwHHAccBxwHHAccBxwHH",
+  "AccBxwHHAcgByAHIAcgByAHIAcgByAHIAckByQHJAckByQHJAckBygHKAcoBygHKAcoBygHKAcsBywHLAcsBywHLAcsBywHLAcsB",
+  "ywHLAcsBzAHMAcwBzAHMAcwBzAHNAc0BzQHNAc0BzQHNAc0BzgHOAc4BzgHOAc4BzgHOAc4BzgHOAc4BzgHOAc8BzwHPAc8BzwHP",
+  "Ac8BzwHPAc8BzwHPAc8B0AHQAdAB0AHQAdAB0AHQAdAB0AHQAdAB0AHRAdEB0QHRAdEB0QHRAdEB0QHRAdIB0gHSAdIB0gHSAdIB",
+  "0gHSAdIB0gHSAdIB0gHSAdMB0wHTAdMB0wHTAdMB0wHTAdMB0wHTAdQB1AHUAdQB1AHUAdQB1AHUAdQB1AHUAdQB1AHVAdUB1QHV",
+  "AdUB1QHVAdUB1QHVAdYB1gHWAdYB1gHWAdYB1gHWAdcB1wHXAdcB1wHXAdcB1wHXAdcB1wHXAdcB1wHYAdgB2AHYAdgB2AHYAdgB",
+  "2AHYAdgB2AHYAdgB2AHZAdkB2QHZAdkB2QHZAdoB2gHaAdoB2gHaAdoB2gHaAdoB2gHaAdoB2gHaAdoB2gHaAdsB2wHbAdsB2wHb",
+  "AdsB2wHcAdwB3AHcAdwB3AHcAdwB3AHcAdwB3AHcAdwB3AHcAdwB3AHcAd0B3QHdAd0B3QHdAd0B3QHdAd0B3QHdAd0B3QHdAd4B",
+  "3gHeAd4B3gHeAd4B3gHeAd4B3gHeAd4B3gHeAd4B3gHeAd4B3gHfAd8B3wHfAd8B3wHfAd8B3wHfAd8B3wHfAeAB4AHgAeAB4AHg",
+  "AeAB4AHgAeAB4AHgAeAB4AHgAeAB4AHgAeAB4AHgAeAB4AHgAeEB4QHhAeEB4QHhAeEB4QHhAeEB4QHiAeIB4gHiAeIB4gHiAeIB",
+  "4gHiAeIB4gHiAeIB4gHiAeIB4gHiAeIB4gHjAeMB4wHjAeMB4wHjAeMB4wHjAeMB4wHjAeMB4wHjAeQB5AHkAeQB5AHkAeQB5AHk",
+  "AeQB5AHkAeQB5AHkAeQB5AHkAeUB5QHlAeUB5QHlAeUB5QHlAeYB5gHmAeYB5gHmAeYB5gHmAeYB5gHmAeYB5gHmAeYB5gHmAecB",
+  "5wHnAecB5wHnAecB5wHnAecB5wHnAegB6AHoAegB6AHoAegB6AHoAegB6AHoAegB6AHoAegB6QHpAekB6QHpAekB6QHpAekB6QHp",
+  "AekB6QHpAekB6QHpAekB6gHqAeoB6gHqAeoB6gHqAeoB6gHqAesB6wHrAesB6wHrAesB6wHrAesB6wHrAesB6wHrAesB6wHrAesB",
+  "7AHsAewB7AHsAewB7AHsAewB7AHsAewB7AHsAewB7AHsAewB7QHtAe0B7QHtAe0B7QHtAe0B7QHtAe0B7QHtAe0B7QHtAe0B7QHt",
+  "Ae0B7QHtAe0B7QHuAe4B7gHuAe4B7gHuAe4B7gHuAe4B7gHuAe4B7gHuAe8B7wHvAe8B7wHvAe8B7wHvAe8B7wHvAe8B7wHvAfAB",
+  "8AHwAfAB8AHwAfAB8AHwAfAB8AHwAfAB8AHxAfEB8QHxAfEB8QHxAfEB8QHxAfEB8QHxAfEB8QHxAfEB8gHyAfIB8gHyAfIB8gHy",
+  "AfIB8gHyAfIB8gHyAfIB8gHyAfMB8wHzAfMB8wHzAfMB8wHzAfMB8wHzAfMB8wHzAfMB8wHzAfMB8wHzAfMB8wHzAfMB8wHzAfMB",
+  "9AH0AfQB9AH0AfQB9AH0AfQB9AH0AfQB9AH0AfQB9AH0AfQB9AH1AfUB9QH1AfYB9gH2AfYB9gH3AfcB9wH3AfgB+AH4AfgB+AH4",
+  "AfgB+QH5AfkB+gH6AfoB+gH6AfsB+wH7AfsB+wH7AfsB/AH8AfwB/AH8AfwB/AH8AfwB/QH9Af0B/QH9Af4B/gH+Af4B/gH/Af8B",
+  "/wH/AQACAAIAAgECAQIBAgECAgICAgICAgICAgMCAwIDAgMCAwIEAgQCBAIEAgQCBQIFAgUCBQIFAgYCBgIGAgYCBgIGAgYCBgIH",
+  "AgcCBwIIAggCCAIIAgkCCQIJAgkCCgIKAgoCCgIKAgoCCgILAgsCCwIMAgwCDAIMAgwCDQINAg0CDQIOAg4CDwIPAg8CDwIPAhAC",
+  "EAIQAhACEQIRAhECEQISAhICEwIUAhQCFAIUAhQCFQIVAhUCFQIVAhUCFQIWAhYCFgIXAhcCFwIXAhgCGAIYAhgCGAIZAhoCGgIa",
+  "AhoCGgIbAhsCGwIbAhsCGwIcAhwCHAIcAhwCHAIdAh0CHQIeAh4CHgIfAh8CHwIfAh8CHwIfAiACIAIgAiACIQIhAiECIQIiAiIC",
+  "IwIjAiMCIwIjAiQCJAIkAiUCJQIlAiUCJQIlAiYCJgImAicCJwIoAigCKAIpAikCKQIpAikCKgIqAisCKwItAi0CLQItAi0CLQIt",
+  "Ai4CLgIuAi4CLwIvAjACMAIwAjACMgIzAjQCNAI1AjcCNwI3AjgCOAI5AjkCOQI5AjoCOgI6AjoCOwI8AjwCPQI9Aj0CPgI+Aj4C",
+  "PgI+Aj8CPwI/AkACQAJAAkACQQJCAkICQwJDAkMCQwJEAkQCRAJEAkUCRgJHAkcCSAJIAksCTQJOAk4CTwJPAk8CTwJQAlECUQJR",
+  "AlICUgJSAlMCUwJUAlQCVgJXAlcCVwJXAlgCWAJYAloCWwJcAl0CXQJdAl8CYQJiAmMCZAJkAmQCZQJnAmcCagJqAmsCawJrAmwC",
+  "bAJtAm4CbwJwAnACcAJxAnMCdAJ0AnYCdgJ3AnoCewJ8An0CfgJ/An8CfwJ/An8CgAKCAoUChQKHAocChwKHAokCiwKLAowCjwKP",
+  "ApEClQKVApUClQKWApgCnwKgAqECogKiAq4CsAKzArUCtQK3ArsCuwLAAsACzgLWAtwC3wLjAu0C8AJEAwEAEAB8AEcAAABQAP3/",
+  "KwDw/5YA6f8WAOj/mgDp/7sAYwAOAOj/CQBaAPf/6/8DAKAA6f/q//P/BwDu//n/7P/y//7/MAD9/2oAQwD2/3gAKQAIAJEAAAAE",
+  "APT/QADo/5AAcwBxAGYA8/9lAPz/ngDv/5MAoQAQAAAAiQAJAPv//v/l/xMAAwCnAAYAQwB1AJgA7/8mAO//9P9yAPH/8P8DAGEA",
+  "mADv/2wABAAGAKYA+P8aAPL/ZgAAAKMABADu/w0A+v8VAPP/9f8GAPn/dQARAPT/+P9ZABAAOgDu/5UAWgDu/+7/ogCKAJcAngBb",
+  "AOr/JQDr/wcADwB1ABAAXwB0AO3/XwDq/1EAQQA+AOv/ZgDt/y4AIAAbAJQA8v/3/10AEgAdAAAAogABAIsADQAmAPb/9f/u/+z/",
+  "HgBTAEgAGwBVAHkA//9hAJ8A8f9RAGIAXAAzAAEADgByAAYA7P/4//T/8P/4/4UANgDu/xMAbQBPAIoAoABjAJ4AYgB7APz/ZABz",
+  "ABYAmwAIAOv/mwCaAJAA9v8wAPT/9f/x/xoAMACSAHQAdwBjAGcA6f9hAF4A7P8XAPn/lwBtAKcA+/+fAH8A7f8HAPX/+f91APj/",
+  "9/+gAPH/WQCZAAgALABjAHUAXAAAAHoA8f/o/ywAVgAgAO3/RQALAPD/mgCdAJwAEgCaAPb/6v9cAFsA9/8xAOv/SwAQAO3/HwD2",
+  "/wMAOwB0AO7/YAAJAO///f9cAEkArQCMAGAA7v8IAPT/JQBpAJ0AXQBcADQA+f8AAHMACQBlAJQAXwD8/xoA9f8KAO7/MQBLAHkA",
+  "9P9vAOv/XQABAIIAmQALAFgAfwD1/zAANACLAGsACgDv/yUAiAD2//b/WQBlAHcAdABhAPn/qwCLAPb/EAArAGIAJAAHAPb/KQAg",
+  "AO7/+/99APD/7v+DAHgA7P9UAHMAZQB2ACAAoQBeAFwA7v8iAGUADwAQAFYAWAD2/2UAoQD4/wAAdgBlAKMAcgAeACcAdQAEAEAA",
+  "YgD1/2UADwADAKkAKwBiAO3/cQBDAJwA+v9kACwAZQBmAB0AXwAEAAAAYgBoAD0ANgDw/xsAXwB/AGAAIAACAGIAAgAHAKEAAgDu",
+  "/5IA6v+PAHEAAgBfAPb/8f8eAPD//v8UAFkAbQARAFYABQD0/wUAMAB1AIQADQBsAHEAbwBcAIcA+v/6/wIA6/8nAOz/PwBlAPv/",
+  "egD9/2QAbQCuAPr/AwBmAIMA8P93AAMA///t//L/ZQDx//7/FwA3ABIAYQBMAOv/ZwB7APv/AwD0/2YAEABsAAMAAABoAP7/cwAu",
+  "AO7/+P/2/5EAbACTAHEATABeAPD//P/9/2YAawACAFkAmwCEACUAEQApAA4AKgAIAPb/8f9aAPH/8P81AGwAcQAoAH8AIQBsAGwA",
+  "AgBcAGUA7v9WAPT/KgAhAJYAMgD4/zwAKQBXAPr/mAD9//H/nQB0AJoAFgCgAO//iACRADMA8P8JAE4AbgADAOv/EACOAP//bACM",
+  "AP//bwBfAKIANgAzAPD/ZAB0AGUA9f8LAFwAngBaAHQABABgAPr/XgARAGEAagCjAJ0AXgD1/2QAKwAVADMAbwD7/wAAIwDz/3sA",
+  "KwCRAAAA///5/1QAIAAuABwADQBdAGIAhAAJAJoAHAD2/5gAMADy/0gAWwD//zIAXwAqAA4AWgAUADEAIgArAPP/7v8WAPf/bQDx",
+  "/54AaQAKAJsAOgBwADkAJwAMAPz/agA0AOAA9P95APL/9P/0/zsA7/8JAG8AMAD//xIAdQDt/5sAFgCPAC8AAQBeAEcA9f8fAP//",
+  "DgBsACkAJgBfAB8A+/8MAPX/7v/3/yMAaABqABoAlQCPACgACwBZAC8AKgA5AOn/ZgD2/wQAXAD5/wEA+P/x//v/9f/8/wUAqgDt",
+  "/wIAYgDx/ycACABdAPT/ggAfAFMAXwD6/6AAzgBmAFoAmgAcAC4A8f/x/wQAjwCGACsAVgAXAHQA9P9XABEAFgDo/3QAoAARADwA",
+  "jQCUABMADwB0AKgAZwABAP7/VQD1//z/cQBuAAIAkgB+APv/+v8CAFgAiQBqABoA9//w//r/YQDs//j/owBiAPP/DADw//H////7",
+  "/5IA9/+gALsA8P87ABYAfQCRAGcA9/8nAE4AaAATAF4A+f/w/zUAHgBaAH4A7v+PACYA9v9QAPL/bwDw/3IAhQDv/3UABQCJADwA",
+  "BQBlAD4AoABSAP7/8f+kAIUAHgCkAKQAlgBsACIAAwA0AJ8AFgDu/5YAhwBiAPb/7v96AEEAoADt/xUADQB+AHYADwBDAHUAHQAD",
+  "APD/+f/8/zAAnACJAO//AgDu/z0AegADAIAAJAAgADUAhwD5/5YAGgBuAP3/EQBkAPX/WQAQAGEAdQAgAO3/EwAAACgAoAAzABQA",
+  "/f/5//b/bADv//b/NwAzAH4AXQBZAAUAiwCEAAUAbQBfAI0A+f8GAIMAHADu//3/dwBvAPL/UgANAHwAZQAIADYAogD3/w8A8v94",
+  "APj/FwAnADwA+P8eAH0A/P8LAFsATgBIAPn/8f+SAJwAXgD7/zEAdgCJAIAABADv/0wAXgBvAPb/CQCbAJ8A//9oAKYA8f/+/1QA",
+  "nQBmAAAAFwArAE4AawD7/+7/dQCqAPn/nQDv/w0AEgBfAHcABgDs/3YAKQCgADYATwD5/xIA+f8AAAQA9/9lAGEAAAA4AAMAZwAG",
+  "AF0AcAAAAAkAZACfAGAA9P8QAOb/nwAhAGMA+P/x//H/EwAnAGMAEAAFAKMA6f9UAC8A+P+jAJ8A+f8ZAPT/dwCeAPL/CQAYAGAA",
+  "9v8pADAABABfADoADAAZAGoA9P8aAPr/ZgD2/1oA9f8vAAwAWgBmACEA6f8lAJ8AAQDx//z/fABsAGAATQCjAF0AEgBpAPb/ZQAP",
+  "AAUANQAmAH0ACAARAE8AWQBjAF0A8P8HAPX/gwCfAFIAoQANAKgAYQASAIgAYgA/APb/aACUAJwAaQD0/2oACAD7//n/+f8sACQA",
+  "SwAaAI4AAgD1/ykAsQA1AJ8AHACjAFkAYADx/2wAZgAHAEMAaQDv/6IA6f9eAHMAGgAEABYA+P9lAB8A9/9wAFcAmQAgABAAnwAX",
+  "AGUAIQD2/wMALQAGAPX/9/8sAA4AmgBHAF4AmQD9//3/8f/4//b/CAD3/5gA9f8YAJ0A8f8dAFQAAgCGAFsAigADAA8A9P/y/wsA",
+  "WACdAG4AoQBQAHcAKgD6/xkAgQBkAGYADgCMAF0AmQCfACsAKQA9AI4AJgD7/ycAfgB9AJsADABLABEAGwDn/wUA9f80AC0ANACk",
+  "AB8AggACABoAFAD//2gAnQAdAI0A8f9dAPj/ZAD0//3/9v/u/1wATwD2/zYAFwD+/w8A8P98ADEAFABbAPP/AQCUAIkAagCnAJcA",
+  "AQDv/woA8/8DAO////8fAH8AYwD3/+//YwCcAEUAgwD9/zkAVgATAJIA6/+IAG4ANgDy/xgANgAHACIACQCUAHYAcwARAPP/+/+n",
+  "AFIAegAqAC0ABgDu/6AAjgDv/wMAQQDu/4EAGgB4AGoAKACJAJQAPQBEAFAA9P/t/2IAcgARAHsAlgB5ACYAWABnAHYA+v8EAJUA",
+  "GAD0/0UAfgB2AFsA+/+jAFoACABaAGAAlAABAGMAYQAFAJwAHAAvAO//jQA5AC0AkABsAFgA//90AAAAagAOAHgAowDx/2oAbQD9",
+  "//L/ZgDx//D/+/8IAHUAMACiAG8AZQBuAHAAXQD5/zEAkQDs//n/KQCPADIAGAFCAPT/WgAYAA0AGQBfAGQA6//0//f/ewByAAMA",
+  "/f8xAPH//v84APH/lQA6AIQA+/9CAKEAZgCRAFwA/P8oAAAAJQBuAC8ADAB0AKEAoQAAAI8A8/8UAL8ADgCjAGwAJQAcAAMAjwAB",
+  "AC0AGgCfAPb/WgB2ACEAGgBfAAQAiQAKAHkA7v81ADYAbwBgAEQAJQCoAGMAKwAJAPv/nwDy/w8AgQChAF4ATQB8AKcA/P9xAAQA",
+  "nAD7/6gAaQBqAPv/kwAHAPf/MQARAEQA+f/s//H/ZACDAPj/ZgAnAPf/iACcAAQA+wD5/z4A+/8FAHIAXgAFAGoAGwB7AKYAagCk",
+  "AKgAOQD4//v/iwBzAG4ACgDz/3UARwD5/4IATwCgAIoAGgBtAIoAIgANACIAAAD2/5oAjgARAIgACQAJAPv/CAAUAF4AngCiAPn/",
+  "9//w/5AABwD2/34AigDt/2MAawB3ABYAaQBkAHIA+//0/zQAOgBjACwA9P95AJYAsgD+/zIANgD3//j/dgAJAGkAkgBOAJsAXQCl",
+  "AFsAhwATAHQA9/8wAAYAWAAWAGAACgAWAJEAkAAYAAQAYwA+AKIA+f8nAJQAWgAuAJ8AFAByAB0AEwABAPn/GgD1/yAAcQDt//L/",
+  "8f9cAHEAbABGABUAMwCMAPL/BAAsAA4A+/8mAAIAggAHAGoAhAB7ADsABwBnAG8AAwD1/wgAHwAjAIcAagDz/zEAngAxAPz/9v+L",
+  "AAIA+/+XADcAmgBqAKUALAAlAAgABgAxAAcA/v8IAPT/9P/+/wwAcQDx/z0AoAAAAAoABgBaABQABQABAF8A9/8gACkAJAAtAF8A",
+  "+P/z/3EAHAAgAKAAjAAeAB4ACAA5APP/XgD4/wIAIgAoAPX/+f9wAGQAIwAZAIYAAwBhAP7/BgCdAPb/+v+KABcA+P8CAKQA///1",
+  "/0sABACfAAAAowD6/50AfQCeAFEA9v/5/y0AlwAoAGQA+/9kAKEA+//x/54ABQCGADQA/P8DAIAAIwBQAPz/PQD8/wkALQA9AAAA",
+  "//9wAPT/JwAYAI8A+f8iAAUApAAkAKoAnQD5//f/9P8VADUAHwAfABEA9P8rAPT/GAANAPz/LQAGADQAYAA0AAsAHgCdAD8AWwBi",
+  "AEEAHwD8/wMAcQBgAFYA9v8YAB4A9f8MADYAYgBvACMA+/8oAD4A+f/7/1gAAwAAAGwAAAAjABwAjgBjAC0AFgAWAGAACgCeAPn/",
+  "AQALABMANwD6/3QAggAJAP7/agCfAJcA+/9gAAcAiQABABUAHwAeAFMAYwD3/4sA/v93ABQAQgACAAAAWAD8/1wApgBhABEA/v/4",
+  "/28AoACXAP3/ggAFAPH/+P+mADEAbgAQAPb/MADMABkACwARAAMAAQAHAPr//P8QADEAlgBhADQABgA4AAoAUQBsAEEAQAAuAJgA",
+  "WwAnABgAowD6/18AEABAABwA+v9/AB4AKQA0ACcABQCYABoAPABbAJEAAACTAFMAGwA0AKEAYwBgABMANgA7ACAAJwA4AIMAbAD6",
+  "/yAAXwD//xQA+/8dAGMAQgByAC0AHQCOAFIAoAChAKAA+/9hAFYAAQAUAFoAdQASACsAVQA3APv/GQBoABIAJwArAP//rQBkAHAA",
+  "MgAzAD4AEQBoAD4AjwAyAC8AmABiAGwAVACVAA4ACgAWAA8AFAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAEAAgADAAQA",
+  "BQAGAAcACAAJAAoACwAMAA0ADgAPABAAEQASABMAFAAVABYAFwAYABkAGgAbABwAHQAeAB8AIAAAACEAIgAjACQAJQAmACcAKAAp",
+  "ACoAKwAsAC0ALgAvADAAMQAyADMANAA1ADYANwA4ADkAOgA7ADwAPQA+AD8AAABAAEEAQgBDAEQARQBGAEcASABJAAAASgBLAAAA",
+  "AABMAE0ATgAAAE8AUABRAFIAUwBUAFUAVgBXAFgAAAAAAFkAWgBbAAAAXABdAF4AXwBgAGEAYgBjAGQAZQAAAGYAAAAAAGcAAABo",
+  "AGkAagBrAAAAbABtAAAAbgBvAHAAcQByAHMAdAAAAHUAAAAAAHYAdwB4AHkAAAAAAAAAAAB6AHsAfAAAAH0AfgAAAAAAfwCAAIEA",
+  "ggCDAAAAhACFAAAAAACGAAAAhwCIAIkAigCLAIwAAAAAAI0AAAAAAI4AjwCQAAAAkQAAAAAAkgAAAJMAlACVAJYAlwCYAAAAAAAA",
+  "AAAAAACZAJoAAACbAAAAAAAAAAAAAAAAAJwAAACdAAAAngAAAAAAnwAAAKAAAAChAAAAogAAAAAAAAAAAKMApAAAAAAAAAClAAAA",
+  "AACmAAAAAACnAAAAAAAAAKgAAAAAAAAAAACpAKoAqwAAAKwArQAAAAAArgCvALAAAACxAAAAsgAAAAAAAAAAAAAAswC0AAAAAAAA",
+  "AAAAtQAAALYAtwAAAAAAAAC4AAAAAAAAAAAAuQC6ALsAAAAAAAAAvAAAAAAAvQC+AL8AAADAAAAAwQDCAMMAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAMQAAADFAAAAAAAAAMYAxwAAAAAAyADJAAAAAAAAAAAAAAAAAMoAAAAAAAAAAADLAMwAAAAAAAAAAADNAM4AAAAA",
+  "AAAAAADPAAAA0AAAAAAAAAAAAAAA0QAAANIAAADTANQAAAAAAAAAAAAAAAAAAAAAANUA1gDXAAAAAAAAAAAA2AAAAAAA2QAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAANoAAADbAAAAAAAAAAAA3AAAAAAAAAAAAAAAAAAAAN0A3gDfAAAA4AAAAAAAAAAAAOEAAAAAAAAA4gAA",
+  "AOMA5AAAAAAAAAAAAAAA5QAAAAAAAAAAAAAAAADmAAAAAAAAAAAAAAAAAAAAAAAAAAAAAADnAAAAAAAAAAAA6ADpAAAAAAAAAOoA",
+  "AAAAAOsA7AAAAAAA7QAAAAAA7gAAAO8AAAAAAAAAAAAAAAAA8AAAAAAAAADxAAAAAAAAAAAAAAAAAAAAAADyAAAAAADzAAAAAAAA",
+  "AAAAAAAAAAAA9AD1AAAAAAD2AAAAAAAAAAAAAAAAAAAAAAD3AAAAAAAAAAAA+AAAAAAAAAD5AAAAAAD6AAAAAAAAAAAAAAAAAAAA",
+  "+wAAAAAAAAAAAAAAAAAAAPwAAAD9AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP4AAAAAAAAAAAAAAAAAAAAA",
+  "AAAA/wAAAAAAAAAAAAABAQEAAAAAAAAAAAAAAgEAAAMBAAAAAAAABAEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAFAQAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAYBBwEIAQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAkBAAAAAAAAAAAAAAAAAAAAAAoBAAAAAAAAAAALAQwB",
+  "AAAAAAAADQEAAAAADgEAAAAAAAAAAAAAAAAAAA8BAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAEAEA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAARAQAAAAAAAAAAAAAAAAAAEgEAABMBAAAAAAAAAAAAAAAAFAEAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAFQEAAAAAAAAAAAAAAAAAABYBAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAABcBAAAAAAAAAAAAAAAAAAAAAAAAAAAYAQAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAABkBAAAaAQAAGwEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAABwBAAAAAAAAAAAdAQAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAB4BAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAfAQAAAAAgAQAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAACEBAAAiAQAAAAAAAAAAAAAAAAAAAAAAAAAAIwEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAACQBAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAJQEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAJgEAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAJwEAAAAAAAAAACgBAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAApAQAAAAAAAAAAAAAAAAAAAAAqAQAAAAAAAAAA",
+  "AAAAAAAAKwEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAALAEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAC0BAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAuAQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAALwEAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAADABAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAADEBAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAMgEAAAAAAAAzAQAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAANAEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAANQEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAANgEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA3AQAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA4AQAAAAAAAAAAAAAA",
+  "AAAAOQEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+  "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAKEAkSNAg8CyQ8EgQdTlZIJkIdHxIvCiYdSDxOEDwn",
+  "PFVTP01TClMQSAhQJlU9VAoqBy8UTRIBATxUJzs/AS8REkQQG1VTHxEiPBESSEgyElMJPkhAUzs+ChNVHz4UOxIvSDASHk0xSgcY",
+  "CB4RCTIIVThIRE0EOyIQVjwSMTskKCgdIjIwKCtITT5EUD8GBk5WDysfJlBSJE0LDEg/SAU/ED5EHgUkTi9NKkgEUVNUSCc/Cgoe",
+  "CDgJHw8mUyJNKioSLBhTBigSM1UoRFMiTQgWPDA7SB8TMjtKE0EERCoxNCsBOwUwECIhECYGQD9TSDtNRi9EETwmUwQyKlY8EFYT",
+  "TkBOEjITPlEyKD0QLwRTERQQCRQSLygUClMJTycKJhNMPiQvVTRNPk4XKkpKJDAyIj0UJBxIJlMJMiYPATwwVh0UJlVVMQYHTio4",
+  "PUNOREgBOCBOU0oGBRsxIiw8RUwFESQIEFMPJChDPDBESjsEJE4IH05WIjoFFCgfVTshMDdNHy4/P048V1UGIA8+VyZTEAkFPy1T",
+  "JURKHx8kEBsBQzMiOygqEgNGP04QL1U4KE0iKUEYVSISSihJASQYUAMoBU5VElZIBEAHLzInJAoqVh8qEhJOKhIyMSgoTSNAQD8k",
+  "VxBIO0A3RBcfEQo/GDMQTU0fBSQIV0USMj0nPj8fFDcQU1JXL0g/JCYKEiI5PR9FHgQEUQ4XHTsgQyRWCQU/FVUvCRIyBTwmHDgd",
+  "EgZWMhYTASsUJAoQHDQPPjxKAT9ETxokClUqFRJQGicrPzxWTQ8nPCYxDzpDTk4qHRsbPi43KAEmJkg7ESQFVglIE0ISKDxELSg+",
+  "Qg5OVBM9PyREMjsiST00Hx8FUiYZElYoAxoTHxMkFBUMSEoFUj9OPyQzElQTAUMkJCEOF0goE0MUTk5OEjJNIENOIgI7Hw8+J04w",
+  "VSpUOwVCAUcUTiROCCovLxIeEg8QOglIBD8kTggqLx0ZEjJKCxIyOz00AQERIQoVEFUSMjs0KD4uBzwQM1cqGTJUPTRCUkAUP04k",
+  "MBgKNxIEQxgKVShNVhMFR0AOPDw3Cy9WOztMTCwBREQ9LBAmEigoHxMFRzwKRApELypKOy4+JCQONE0fIAUUQ0YNM0RERDJYQyUw",
+  "PCpVEBUvOyIEESQ8UxwSOUIkBzwKN0QQL1MSCTEjJxFGTjdLFjtDBREkJkRELQkfDx9DBVI8QRBVLwlYBQ9CLi4BQwgCEEoiLA9S",
+  "EQcSElYJT00TPi5SATxECTtNHwEICiotUwkxMk0+PhQODQ4LUzJITRMuLj9GTjMvMgZYHyQoOyIoGlg8VRASIkg7PkAkDjxTKlUQ",
+  "G0g0TUc/KgIJMigiQwFDPzNEMR8RJE48RS8QEh0dO0oaSgdERCpVElNUSDk9Ij4kPDwSGzI7KDsEIC4BB048IURERBBWOUMUNwoK",
+  "FxBTVhIyTU1JWEM/P04wF1MoSTQiNhErJT9VKi8tVgwDHwUFTghERDcQHR8sQDAcKkhJTSMTBRRGPCE8CEVFHBISBDYFETwIQUQq",
+  "LRBTHRkMKDsPASZELzkbBRFDFCQOJBBVU1YSSk0aHx8FQEQ4EgkxMj0TQCskPA5EKhBTDBlWDBIDBlgTPhQ/PDcqL1YiOyJNHw8P",
+  "EzoUAQ5OJDwzRAIvGVYyKjtIPT4+PgcIVRA4G0hIO1gTJxERJD9OJAhTUyoQGRlUCQkJSCgfHzYFPjwhGE4QMxxWTVgfQAgKCkRV",
+  "UxIMCUpKKDsiIg8+BQEFEQEUK0QKRFUSCTIoSDRJGkMBURROTkQQL1YJKCIiTScnERE/RFUSFkg7T0ckM0UiOAkJGzkoIjtNTU09",
+  "PgEUByREKkUqKhBNHxROThgKFVYZIkhJTU8RQxEUPzxOJiZVKhI4GQMoIh82LhERFDwzEhIySFBYLD8kME48NwgqHQwxMjsiHwQE",
+  "Uj4UNzAIRA5VKhlWCRIxGihPIlgpTj8IEDM3ECoqEhkZU1YxCUgETx8fHwU+UT9ECiZVKlMQKgwiNAQfQhERDjw8LyIxOVQfPS5D",
+  "QwEBJT9OTghWIkgoTSgRQBE/Rk4YJhBWVioxOSg+BQEUBykIPDxEKi84GQkbIkoEHxQ/PyUOJDwIRDcLRCpVL1MZElYyGzIiH01C",
+  "LgUOThgKCjMvEhJUKE0oTTQiWB9SAQgMTE4ICU1CJFNWIg0IJlYJHwUIExMhUwNNLA0VKi8qIiBODghLLRxJDw8OExlMPgcTTgUP",
+  "FA4aIikZBUMXKjpOPCYXDFNUKAUPAT8aIz4kHBkfBRE8NU5TVAQiIgUFDg4mHkMpTgURDggIU1YiQwIiJAgPBQULSw40ByIBEU4x",
+  "KBEmKlMwGT4FKlMPEU5ELztDPFcXF0wFPAgVFEMaBRQvLRoFIkNSTg5JTiQOGwMgCC8EIgQPCTE2ERQgFBQvIihCBRMONwUHTgRC",
+  "PxpOGRkxJxwoBRMkLxlIOkNOLxQiBw4TNS8JBQVDTEMFERFTLVYbDxROFz4REyoZBD4XPi9NFBoiBBkFAQwgPhQ8CDEFUzIXUwQU",
+  "BzATE0giBU5PBAVDByROFVUFEwoFBSMRUyoSDxEZLVZLKA8TFw4cKhRTDwxSKgUkHwUFQhkSDywHKBEvOw8cCCItH0IqFBRNTSg7",
+  "BUoiIlMJHBwFDw5DFCo7BRQMBS8IFCwFBQUcVgVCERQtOw5OL0IvBRESViIFCTsFFQ9DDy9DUy0FCQQPQgUxIhwQBRFUEQ==",
+].join('');
+
+export const STAR_ARRAYS: StarArrays = decodeStarCatalog(PACKED, COUNT, NAMES, CONSTELLATIONS);
+export const STARS: StarRecord[] = starRecords(STAR_ARRAYS);
+export const HIP_TO_INDEX: Map<number, number> = hipIndex(STAR_ARRAYS);
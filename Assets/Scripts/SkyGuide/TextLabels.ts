@@ -0,0 +1,107 @@
+// TextLabels.ts — World-space text labels on the sky sphere
+// Text objects are created once under SkyRoot, so they turn with the compass
+// alignment like the meshes; visible ones are turned to face the camera.
+
+let parent: SceneObject | null = null;
+let camera: SceneObject | null = null;
+
+interface Label {
+  object: SceneObject;
+  text: Text;
+  visible: boolean;
+}
+const labels: Label[] = [];
+
+const LABEL_FONT_SIZE = 48;
+// Labels keep the same apparent size at any sphere radius: scale 1 at this distance
+const LABEL_REFERENCE_DISTANCE = 100;
+// Pull labels slightly inside the sphere so lines on it don't cut through them
+const LABEL_DEPTH = 0.98;
+
+/**
+ * @param parentObj — SkyRoot (label positions are in the sky frame)
+ */
+export function init(parentObj: SceneObject, cameraObj: SceneObject): void {
+  parent = parentObj;
+  camera = cameraObj;
+}
+
+/**
+ * Create a hidden label.
+ * @returns label id for show() / hide(), or -1 before init()
+ */
+export function create(text: string, color: [number, number, number]): number {
+  if (!parent) return -1;
+
+  const object = global.scene.createSceneObject('Label ' + text);
+  object.setParent(parent);
+  const component = object.createComponent('Component.Text') as Text;
+  component.text = text;
+  component.size = LABEL_FONT_SIZE;
+  component.horizontalAlignment = HorizontalAlignment.Center;
+  component.verticalAlignment = VerticalAlignment.Center;
+  component.textFill.color = new vec4(color[0], color[1], color[2], 1);
+  object.enabled = false;
+
+  labels.push({ object, text: component, visible: false });
+  return labels.length - 1;
+}
+
+/**
+ * Change a label's text and color (for labels reused from a pool).
+ */
+export function setText(id: number, text: string, color: [number, number, number]): void {
+  const label = labels[id];
+  if (!label) return;
+  label.text.text = text;
+  label.text.textFill.color = new vec4(color[0], color[1], color[2], 1);
+}
+
+/**
+ * Show a label at a sphere position (sky frame, as from SkyEngine).
+ * @param alpha — opacity; 0 hides the label
+ */
+export function show(id: number, x: number, y: number, z: number, alpha: number): void {
+  const label = labels[id];
+  if (!label) return;
+  if (alpha <= 0) {
+    hide(id);
+    return;
+  }
+
+  const transform = label.object.getTransform();
+  transform.setLocalPosition(new vec3(x * LABEL_DEPTH, y * LABEL_DEPTH, z * LABEL_DEPTH));
+  const scale = Math.sqrt(x * x + y * y + z * z) / LABEL_REFERENCE_DISTANCE;
+  transform.setLocalScale(new vec3(scale, scale, scale));
+
+  const color = label.text.textFill.color;
+  label.text.textFill.color = new vec4(color.x, color.y, color.z, alpha);
+
+  if (!label.visible) {
+    label.object.enabled = true;
+    label.visible = true;
+  }
+}
+
+export function hide(id: number): void {
+  const label = labels[id];
+  if (!label || !label.visible) return;
+  label.object.enabled = false;
+  label.visible = false;
+}
+
+/**
+ * Turn visible labels toward the camera. Call every frame.
+ */
+export function update(): void {
+  if (!camera) return;
+  const camPos = camera.getTransform().getWorldPosition();
+
+  for (const label of labels) {
+    if (!label.visible) continue;
+    const transform = label.object.getTransform();
+    const pos = transform.getWorldPosition();
+    const toCamera = new vec3(camPos.x - pos.x, camPos.y - pos.y, camPos.z - pos.z);
+    transform.setWorldRotation(quat.lookAt(toCamera, vec3.up()));
+  }
+}
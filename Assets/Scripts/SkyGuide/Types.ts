@@ -2,30 +2,222 @@
 
 export interface StarRecord {
   hip: number;          // Hipparcos ID (for constellation line matching)
-  ra: number;           // Right Ascension in radians
-  dec: number;          // Declination in radians
+  ra: number;           // Right Ascension in radians (J2000)
+  dec: number;          // Declination in radians (J2000)
   mag: number;          // Apparent visual magnitude
   bv: number;           // B-V color index (for star color)
   name: string;         // Common name or empty string
   con: string;          // Constellation abbreviation
+  pmRA: number;         // Proper motion in RA·cos(Dec), radians per Julian year
+  pmDec: number;        // Proper motion in Dec, radians per Julian year
+}
+
+// The star catalog as parallel arrays, for loops over every star (index i is STARS[i])
+export interface StarArrays {
+  count: number;
+  hip: Uint32Array;
+  ra: Float64Array;          // radians, J2000
+  dec: Float64Array;         // radians, J2000
+  mag: Float32Array;
+  bv: Float32Array;
+  pmRA: Float64Array;        // radians per Julian year
+  pmDec: Float64Array;       // radians per Julian year
+  nameIndex: Uint16Array;    // into names (0 = no name)
+  conIndex: Uint8Array;      // into constellations
+  names: string[];
+  constellations: string[];
 }
 
 export interface ConstellationRecord {
-  abbr: string;         // IAU 3-letter abbreviation (e.g. "ORI")
+  culture: string;      // Sky culture id (e.g. "western", "chinese")
+  abbr: string;         // IAU 3-letter abbreviation (e.g. "ORI"), or the figure's id in non-IAU cultures
   name: string;         // Full name (e.g. "Orion")
   lines: number[][];    // Array of [hip1, hip2] line segment pairs
-  centroidRA: number;   // Centroid RA in radians (precomputed)
-  centroidDec: number;  // Centroid Dec in radians (precomputed)
+  centroidRA: number;   // Centroid RA in radians, J2000 (mean of the member stars' unit vectors)
+  centroidDec: number;  // Centroid Dec in radians, J2000
+  radius: number;       // Angular radius in radians: centroid to the farthest member star
+  labelRA: number;      // Name anchor RA in radians, J2000 (near the centroid, among the lines)
+  labelDec: number;     // Name anchor Dec in radians, J2000
+}
+
+export interface SkyCultureRecord {
+  id: string;           // Stellarium sky culture id (e.g. "western")
+  name: string;         // Display name (e.g. "Western")
+}
+
+export interface BoundaryRecord {
+  abbr: string;         // IAU abbreviation as in ConstellationRecord (e.g. "Ori"; Serpens has two)
+  ra: number[];         // Vertex RA in radians, B1875 equinox
+  dec: number[];        // Vertex Dec in radians, B1875 equinox
+}
+
+export type DeepSkyType =
+  | 'galaxy'
+  | 'globularCluster'
+  | 'openCluster'
+  | 'nebula'
+  | 'planetaryNebula'
+  | 'supernovaRemnant';
+
+export interface DeepSkyRecord {
+  id: string;                 // Catalog designation (e.g. "M42", "C14")
+  name: string;               // Common name or empty string
+  type: DeepSkyType;
+  ra: number;                 // Right Ascension in radians (J2000)
+  dec: number;                // Declination in radians (J2000)
+  mag: number;                // Integrated visual magnitude
+  majorArcmin: number;        // Apparent size, major axis in arcminutes
+  minorArcmin: number;        // Apparent size, minor axis in arcminutes
+  surfaceBrightness: number;  // Mean surface brightness in mag/arcmin²
+  con: string;                // Constellation abbreviation
+  ngc: string;                // NGC/IC cross-reference or empty string
+}
+
+export interface CityRecord {
+  name: string;         // City name
+  country: string;      // Country name
+  lat: number;          // Latitude in degrees, north positive
+  lon: number;          // Longitude in degrees, east positive
+  elevation: number;    // Height above sea level in metres
+  timezone: string;     // IANA time zone (e.g. "Europe/Paris")
+  population: number;
+}
+
+// Star positions for the current sky, as parallel arrays (index i is STARS[i]).
+// Rewritten in place by SkyEngine.updateStarPositions().
+export interface StarPositionBuffers {
+  count: number;
+  xyz: Float32Array;        // x, y, z per star on the sphere, in SkyRoot's frame
+  alt: Float32Array;        // Apparent (refracted) altitude in radians
+  az: Float32Array;         // Azimuth in radians from North, clockwise
+  extinction: Float32Array; // Atmospheric dimming in magnitudes at the current altitude
+  version: number;          // Incremented each time the positions are recomputed
+}
+
+export interface BodyEphemeris {
+  id: string;           // Body id (e.g. "moon", "jupiter")
+  name: string;         // Display name (e.g. "Jupiter")
+  ra: number;           // Geocentric Right Ascension in radians (J2000)
+  dec: number;          // Geocentric Declination in radians (J2000)
+  distanceAU: number;   // Distance from Earth in AU
+  mag: number;          // Apparent visual magnitude
+  phaseAngle: number;   // Sun–body–Earth angle in radians
+  illuminated: number;  // Illuminated fraction of the disk (0–1)
+  elongation: number;   // Signed elongation from the Sun in radians (+ = east)
 }
 
-export interface StarPosition3D {
-  hip: number;
+export interface BodyPosition3D {
+  id: string;
   x: number;
   y: number;
   z: number;
+  alt: number;          // Apparent (refracted) topocentric altitude in radians
+  az: number;           // Azimuth in radians from North, clockwise
   mag: number;
-  bv: number;
-  name: string;
+  extinction: number;   // Atmospheric dimming in magnitudes at the current altitude
+}
+
+export interface DeepSkyPosition3D {
+  id: string;
+  x: number;
+  y: number;
+  z: number;
+  alt: number;          // Apparent altitude in radians
+  az: number;           // Azimuth in radians from North, clockwise
+}
+
+export type RiseSetKind = 'normal' | 'circumpolar' | 'neverRises';
+
+export interface RiseTransitSet {
+  kind: RiseSetKind;
+  riseMs: number;       // Rise time, ms since epoch (NaN unless kind is 'normal')
+  transitMs: number;    // Upper culmination, ms since epoch (NaN if never rises)
+  setMs: number;        // Set time, ms since epoch (NaN unless kind is 'normal')
+  transitAlt: number;   // Altitude at upper culmination in radians
+}
+
+// Sky state from the Sun's geometric altitude:
+// day > -0.833° > civil > -6° > nautical > -12° > astronomical > -18° > night
+export type TwilightState = 'day' | 'civil' | 'nautical' | 'astronomical' | 'night';
+
+export type SelectionKind = 'constellation' | 'star' | 'body' | 'deepSky';
+
+export interface Selection {
+  kind: SelectionKind;
+  id: string;           // Constellation abbreviation, HIP number, body id or deep-sky id
+  name: string;         // Display name
+}
+
+// Compass calibration progress, reported to the info panel
+export type CalibrationEvent =
+  | 'started'      // aiming at the first star
+  | 'unavailable'  // no bright star high enough right now
+  | 'captured'     // first star recorded, aiming at the second
+  | 'rejected'     // pinch too far from the named star
+  | 'finished'     // correction computed and saved
+  | 'cancelled';   // stopped before any star was recorded
+
+// Where the observer location came from
+export type LocationSource =
+  | 'gps'          // live fix from the location service
+  | 'saved'        // last good fix from a previous session
+  | 'manual'       // chosen in the location picker
+  | 'default';     // nothing known: built-in default city
+
+// A list menu shown in the info panel and driven by hand gestures
+export interface MenuView {
+  title: string;
+  items: string[];
+  selected: number;     // index into items
+  hint: string;         // gesture help line
+}
+
+// User-adjustable settings; defaults, ranges and persistence live in Settings.ts
+export interface SkySettings {
+  sphereRadius: number;       // celestial sphere radius in scene units
+  gazeThresholdDeg: number;   // smallest constellation centroid hit radius in degrees
+  gazeHoldDelay: number;      // seconds of steady gaze before a highlight
+  panelDistance: number;      // info panel distance in front of the camera
+  headingSmoothing: number;   // compass low-pass factor per update (1 = no smoothing)
+  lineColor: string;          // constellation line color (Settings.COLOR_PALETTE name)
+  highlightColor: string;     // gaze highlight color (Settings.COLOR_PALETTE name)
+  skyCulture: string;         // SkyCultureRecord id whose figures are drawn
+  showBoundaries: boolean;    // draw the dashed IAU constellation boundaries
+  showEquatorialGrid: boolean;   // RA/Dec graticule with hour labels
+  showAltAzGrid: boolean;        // azimuth / altitude grid
+  showCelestialEquator: boolean;
+  showEcliptic: boolean;         // with a marker where the Sun is on each month's 1st
+  showGalacticEquator: boolean;
+  showMeridian: boolean;         // north – zenith – south
+  showHorizon: boolean;          // horizon ring, compass points, zenith and altitude ticks
+  starLabels: boolean;           // names next to bright named stars
+  constellationLabels: boolean;  // names at constellation centroids
+  labelBudget: number;           // most star + constellation labels shown at once
+  magnitudeLimit: number;        // faintest stars drawn when bortleClass is 'off'
+  bortleClass: string;           // 'off' or '1'–'9': light pollution sets the limit
+}
+
+export type SettingKey = keyof SkySettings;
+
+// Coordinate frame of a grid layer's points:
+// horizontal = azimuth / apparent altitude, equatorial = true RA/Dec of date,
+// j2000 = catalog RA/Dec
+export type GridFrame = 'horizontal' | 'equatorial' | 'j2000';
+
+export interface GridLabel {
+  text: string;
+  lon: number;          // In the layer's frame, radians
+  lat: number;
+  color?: [number, number, number];   // Instead of the layer color
+}
+
+export interface GridLayer {
+  key: SettingKey;      // Switch setting that shows the layer
+  frame: GridFrame;
+  color: [number, number, number];
+  alpha: number;        // Line opacity in a dark sky
+  lines: number[][];    // Polylines, each [lon, lat, lon, lat, ...] in radians
+  labels: GridLabel[];
 }
 
 export interface ObserverState {
@@ -0,0 +1,158 @@
+// astro-math.test.js — AstroMath sidereal time, apparent places and rise/set times against Meeus, Astronomical Algorithms (2nd ed.)
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { makeLoader } = require("./helpers/load-ts");
+
+const load = makeLoader();
+const Astro = load("AstroMath");
+const Ephemeris = load("Ephemeris");
+
+const DEG = Math.PI / 180;
+const ARCSEC = DEG / 3600;
+
+/** Angle in arcseconds between two RA/Dec positions (radians). */
+function separationArcsec(ra1, dec1, ra2, dec2) {
+  return Astro.angularDistance(ra1, dec1, ra2, dec2) / ARCSEC;
+}
+
+// Example 23.a: θ Persei on 2028 November 13.19 TD
+const THETA_PER = {
+  jd: 2462088.69,
+  ra: (2 + 44 / 60 + 11.986 / 3600) * 15 * DEG,
+  dec: (49 + 13 / 60 + 42.48 / 3600) * DEG,
+  // +0.03425 s/yr in RA (times cos δ for apparentPlace), −0.0895"/yr in Dec
+  pmRA: 0.03425 * 15 * Math.cos((49 + 13 / 60 + 42.48 / 3600) * DEG) * ARCSEC,
+  pmDec: -0.0895 * ARCSEC,
+};
+const years = (THETA_PER.jd - 2451545.0) / 365.25;
+
+/** Sidereal time in seconds of time (0 ≤ s < 86400) from radians. */
+function siderealSeconds(rad) {
+  return rad / (2 * Math.PI) * 86400;
+}
+
+test("gmst matches Meeus examples 12.a and 12.b", () => {
+  // 1987 April 10, 0h UT: 13h10m46.3668s
+  const midnight = siderealSeconds(Astro.gmst(2446895.5));
+  assert.ok(Math.abs(midnight - (13 * 3600 + 10 * 60 + 46.3668)) < 0.01, `${midnight} s`);
+  // Same day, 19h21m00s UT: 8h34m57.0896s
+  const evening = siderealSeconds(Astro.gmst(2446895.5 + (19 + 21 / 60) / 24));
+  assert.ok(Math.abs(evening - (8 * 3600 + 34 * 60 + 57.0896)) < 0.01, `${evening} s`);
+});
+
+test("nutation matches Meeus example 22.a", () => {
+  // 1987 April 10, 0h TD: Δψ = −3.788", Δε = +9.443", ε = 23°26'36.850"
+  const n = Astro.nutation(2446895.5);
+  assert.ok(Math.abs(n.dPsi / ARCSEC - -3.788) < 0.01, `Δψ ${n.dPsi / ARCSEC}"`);
+  assert.ok(Math.abs(n.dEps / ARCSEC - 9.443) < 0.01, `Δε ${n.dEps / ARCSEC}"`);
+  // Meeus has the IAU 1980 mean obliquity, 0.04" above the IAU 2006 one used here
+  const trueObliquity = (23 + 26 / 60 + 36.850 / 3600) * DEG;
+  assert.ok(Math.abs((n.meanObliquity + n.dEps - trueObliquity) / ARCSEC) < 0.06);
+});
+
+test("precession with proper motion matches Meeus example 21.b", () => {
+  // Mean place of date: α = 2h46m11.331s, δ = +49°20'54.54"
+  const [ra, dec] = Astro.apparentPlace(
+    THETA_PER.ra, THETA_PER.dec, THETA_PER.pmRA, THETA_PER.pmDec, years,
+    Astro.precessionMatrix(THETA_PER.jd), [0, 0, 0]
+  );
+  const error = separationArcsec(ra, dec,
+    (2 + 46 / 60 + 11.331 / 3600) * 15 * DEG, (49 + 20 / 60 + 54.54 / 3600) * DEG);
+  assert.ok(error < 0.15, `${error.toFixed(3)}" from Meeus`);
+});
+
+test("apparentPlace matches Meeus example 23.a", () => {
+  // Apparent place: α = 2h46m14.390s, δ = +49°21'07.45"
+  const [ra, dec] = Astro.apparentPlace(
+    THETA_PER.ra, THETA_PER.dec, THETA_PER.pmRA, THETA_PER.pmDec, years,
+    Astro.precessionNutationMatrix(THETA_PER.jd), Ephemeris.earthVelocity(THETA_PER.jd)
+  );
+  const error = separationArcsec(ra, dec,
+    (2 + 46 / 60 + 14.390 / 3600) * 15 * DEG, (49 + 21 / 60 + 7.45 / 3600) * DEG);
+  assert.ok(error < 0.15, `${error.toFixed(3)}" from Meeus`);
+});
+
+test("precessionNutationMatrix is a rotation", () => {
+  const m = Astro.precessionNutationMatrix(THETA_PER.jd);
+  const det =
+    m[0] * (m[4] * m[8] - m[5] * m[7]) -
+    m[1] * (m[3] * m[8] - m[5] * m[6]) +
+    m[2] * (m[3] * m[7] - m[4] * m[6]);
+  assert.ok(Math.abs(det - 1) < 1e-12, `det ${det}`);
+  for (let r = 0; r < 3; r++) {
+    const len = Math.hypot(m[r * 3], m[r * 3 + 1], m[r * 3 + 2]);
+    assert.ok(Math.abs(len - 1) < 1e-12, `row ${r} length ${len}`);
+  }
+});
+
+// Example 15.a: Venus at Boston on 1988 March 20 (apparent places at 0h TD on
+// March 19, 20 and 21; ΔT = 56 s)
+const BOSTON = { lat: 42.3333 * DEG, lon: -71.0833 * DEG };
+const MARCH_20 = Date.UTC(1988, 2, 20);
+const VENUS_RA = [40.68021, 41.73129, 42.78204];
+const VENUS_DEC = [18.04761, 18.44092, 18.82742];
+const STAR_H0 = -0.5667 * DEG;
+
+/** Venus's RA/Dec (radians) at a time, by Meeus' three-point interpolation (3.3). */
+function venusAt(timeMs) {
+  const n = (timeMs - MARCH_20) / 86400000 + 56 / 86400;
+  const interpolate = ([y1, y2, y3]) => y2 + n / 2 * (y2 - y1 + y3 - y2 + n * (y3 - 2 * y2 + y1));
+  return [interpolate(VENUS_RA) * DEG, interpolate(VENUS_DEC) * DEG];
+}
+
+/** One event of riseTransitSet, recomputed with Venus's position at that time until it settles. */
+function venusEvent(timeMs, event) {
+  let [ra, dec] = venusAt(timeMs);
+  let eventMs = NaN;
+  for (let i = 0; i < 5; i++) {
+    eventMs = Astro.riseTransitSet(ra, dec, BOSTON.lat, BOSTON.lon, timeMs, STAR_H0)[event];
+    [ra, dec] = venusAt(eventMs);
+  }
+  return eventMs;
+}
+
+test("riseTransitSet matches Meeus example 15.a", () => {
+  // Rising 0.51766 d (12h25m UT), transit 0.81965 d (19h40m), setting 0.12130 d (2h55m)
+  const days = (ms) => (ms - MARCH_20) / 86400000;
+  const afterRise = MARCH_20 + 12.5 * 3600000;
+  const rise = days(venusEvent(afterRise, "riseMs"));
+  const transit = days(venusEvent(afterRise, "transitMs"));
+  // Meeus's setting ends the pass that was up late on March 19
+  const set = days(venusEvent(MARCH_20 - 2 * 3600000, "setMs"));
+  const SECONDS = 30 / 86400;
+  assert.ok(Math.abs(rise - 0.51766) < SECONDS, `rise ${rise.toFixed(5)} d`);
+  assert.ok(Math.abs(transit - 0.81965) < SECONDS, `transit ${transit.toFixed(5)} d`);
+  assert.ok(Math.abs(set - 0.12130) < SECONDS, `set ${set.toFixed(5)} d`);
+});
+
+test("riseTransitSet returns the current pass while up, else the next one", () => {
+  const [ra, dec] = venusAt(MARCH_20 + 12 * 3600000);
+  const at = (hours) =>
+    Astro.riseTransitSet(ra, dec, BOSTON.lat, BOSTON.lon, MARCH_20 + hours * 3600000, STAR_H0);
+  // Below the horizon at 5h, up at 13h and still up after transit at 23h: all the same pass
+  const before = at(5);
+  const rising = at(13);
+  const setting = at(23);
+  assert.equal(before.kind, "normal");
+  assert.ok(Math.abs(rising.riseMs - before.riseMs) < 1000);
+  assert.ok(Math.abs(setting.riseMs - before.riseMs) < 1000);
+  assert.ok(setting.riseMs < MARCH_20 + 23 * 3600000 && setting.setMs > MARCH_20 + 23 * 3600000);
+  // Once it has set, the next evening's pass, one sidereal day later
+  const next = at(30);
+  assert.ok(Math.abs(next.riseMs - before.riseMs - 86164091) < 1000);
+  assert.ok(Math.abs(before.transitAlt - (Math.PI / 2 - BOSTON.lat + dec)) < 1e-12);
+});
+
+test("riseTransitSet classifies circumpolar and never-rising stars", () => {
+  const now = MARCH_20;
+  const polaris = Astro.riseTransitSet(37.95 * DEG, 89.26 * DEG, BOSTON.lat, BOSTON.lon, now, STAR_H0);
+  assert.equal(polaris.kind, "circumpolar");
+  assert.ok(isNaN(polaris.riseMs) && isNaN(polaris.setMs));
+  assert.ok(polaris.transitMs >= now && polaris.transitMs < now + 86164091);
+  assert.ok(Math.abs(polaris.transitAlt / DEG - (90 - (89.26 - 42.3333))) < 1e-9);
+
+  const acrux = Astro.riseTransitSet(186.65 * DEG, -63.10 * DEG, BOSTON.lat, BOSTON.lon, now, STAR_H0);
+  assert.equal(acrux.kind, "neverRises");
+  assert.ok(isNaN(acrux.riseMs) && isNaN(acrux.transitMs) && isNaN(acrux.setMs));
+});
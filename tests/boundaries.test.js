@@ -0,0 +1,41 @@
+// boundaries.test.js — AstroMath.constellationAt() on the generated BoundaryData.ts
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { makeLoader } = require("./helpers/load-ts");
+
+const load = makeLoader();
+const Astro = load("AstroMath");
+const { BOUNDARIES, BOUNDARY_DASHES } = load("BoundaryData");
+const { STARS } = load("StarData");
+
+const DEG = Math.PI / 180;
+
+test("BoundaryData.ts has all 88 constellations and the overlay", () => {
+  assert.equal(new Set(BOUNDARIES.map((b) => b.abbr)).size, 88);
+  // Serpens Caput and Serpens Cauda are separate polygons
+  assert.equal(BOUNDARIES.filter((b) => b.abbr === "Ser").length, 2);
+  assert.ok(BOUNDARY_DASHES.length > 0 && BOUNDARY_DASHES.length % 4 === 0);
+});
+
+test("constellationAt finds the poles and both halves of Serpens", () => {
+  assert.equal(Astro.constellationAt(0, 90 * DEG, BOUNDARIES), "UMi");
+  assert.equal(Astro.constellationAt(0, -90 * DEG, BOUNDARIES), "Oct");
+  // Unukalhai (α Ser, Caput) and θ1 Ser (Cauda)
+  assert.equal(Astro.constellationAt(236.067 * DEG, 6.426 * DEG, BOUNDARIES), "Ser");
+  assert.equal(Astro.constellationAt(284.055 * DEG, 4.204 * DEG, BOUNDARIES), "Ser");
+  // Between them lies Ophiuchus (Rasalhague)
+  assert.equal(Astro.constellationAt(263.734 * DEG, 12.560 * DEG, BOUNDARIES), "Oph");
+});
+
+test("constellationAt agrees with the catalog's constellations", () => {
+  const mismatches = [];
+  for (const s of STARS) {
+    if (!s.con) continue;
+    const abbr = Astro.constellationAt(s.ra, s.dec, BOUNDARIES);
+    if (abbr !== s.con) mismatches.push(`HIP ${s.hip}: ${s.con} -> ${abbr}`);
+  }
+  // HIP 99742 lies within a second of RA of the Aql/Del edge, so which side
+  // it falls on depends on the epoch of its position
+  assert.deepEqual(mismatches, ["HIP 99742: Aql -> Del"]);
+});
@@ -0,0 +1,57 @@
+// ephemeris.test.js — Sun, Moon and planet positions against Meeus, Astronomical Algorithms (2nd ed.)
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { makeLoader } = require("./helpers/load-ts");
+
+const load = makeLoader();
+const Astro = load("AstroMath");
+const Ephemeris = load("Ephemeris");
+
+const DEG = Math.PI / 180;
+const ARCSEC = DEG / 3600;
+
+/**
+ * Arcseconds between a body's apparent place, computed the way SkyEngine does
+ * it (aberration, then precession and nutation to the equinox of date), and
+ * Meeus's apparent RA/Dec in degrees.
+ */
+function errorArcsec(body, jd, raDeg, decDeg) {
+  const [ra, dec] = Astro.apparentPlace(
+    body.ra, body.dec, 0, 0, 0,
+    Astro.precessionNutationMatrix(jd), Ephemeris.earthVelocity(jd)
+  );
+  return Astro.angularDistance(ra, dec, raDeg * DEG, decDeg * DEG) / ARCSEC;
+}
+
+test("computeSun matches Meeus example 25.a", () => {
+  // 1992 October 13.0 TD: α = 13h13m30.749s, δ = −7°47'01.74", R = 0.99760775 AU
+  // (the full-accuracy values from example 25.b)
+  const jd = 2448908.5;
+  const sun = Ephemeris.computeSun(jd);
+  const error = errorArcsec(sun, jd, 198.378118, -7.783816);
+  assert.ok(error < 20, `${error.toFixed(1)}" from Meeus`);
+  assert.ok(Math.abs(sun.distanceAU - 0.99760775) < 1e-4, `R ${sun.distanceAU}`);
+});
+
+test("computePlanet matches Meeus example 33.a (Venus)", () => {
+  // 1992 December 20.0 TD: α = 21h04m41.454s, δ = −18°53'16.84", Δ = 0.910845 AU
+  const jd = 2448976.5;
+  const venus = Ephemeris.computePlanet("venus", jd);
+  const error = errorArcsec(venus, jd, 316.172725, -18.888011);
+  assert.ok(error < 60, `${error.toFixed(1)}" from Meeus`);
+  assert.ok(Math.abs(venus.distanceAU - 0.910845) < 2e-4, `Δ ${venus.distanceAU}`);
+  assert.equal(Ephemeris.computePlanet("pluto", jd), null);
+});
+
+test("computeMoon matches Meeus examples 47.a and 48.a", () => {
+  // 1992 April 12.0 TD: α = 134.688470°, δ = +13.768368°, Δ = 368409.7 km;
+  // illuminated fraction k = 0.6786
+  const jd = 2448724.5;
+  const moon = Ephemeris.computeMoon(jd);
+  const error = errorArcsec(moon, jd, 134.688470, 13.768368);
+  assert.ok(error < 60, `${error.toFixed(1)}" from Meeus`);
+  const km = Ephemeris.auToKm(moon.distanceAU);
+  assert.ok(Math.abs(km - 368409.7) < 50, `Δ ${km.toFixed(1)} km`);
+  assert.ok(Math.abs(moon.illuminated - 0.6786) < 0.001, `k ${moon.illuminated}`);
+});
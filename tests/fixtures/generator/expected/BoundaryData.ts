@@ -0,0 +1,141 @@
+// BoundaryData.ts — Auto-generated from VizieR VI/49 (d3-celestial constellations.bounds.json)
+// 3 IAU boundary polygons, 121 overlay dashes
+
+import { BoundaryRecord } from './Types';
+
+// Polygons in B1875 coordinates for AstroMath.constellationAt()
+// Format: [abbr, [ra_rad...], [dec_rad...]]
+const RAW: [string, number[], number[]][] = [
+  ["Cru",[3.097961,3.097961,3.359760,3.359760],[-0.959932,-1.117012,-1.117012,-0.959932]],
+  ["Ori",[1.208644,1.208643,1.300273,1.300274,1.396264,1.396264,1.466078,1.466079,1.509713,1.509714,1.492259,1.492259,1.540254,1.540255,1.627522,1.627523,1.651519,1.651520,1.651520,1.634067,1.634068,1.634066,1.527165,1.527164,1.330814,1.330815,1.221734,1.221733],[0.000000,0.270527,0.270526,0.279253,0.279253,0.270526,0.270526,0.218167,0.218167,0.314159,0.314159,0.398517,0.398517,0.375246,0.375246,0.305433,0.305433,0.209440,0.174532,0.174532,0.000000,-0.069813,-0.069814,-0.191985,-0.191985,-0.069812,-0.069812,0.000000]],
+  ["TrA",[3.861544,3.861544,3.905178,3.905177,3.970628,3.970628,4.014260,4.014260,4.298966,4.298966,4.341508,4.341509,4.385143,4.385143,4.406960,4.406960,4.450594,4.450594],[-1.221730,-1.178098,-1.178097,-1.109739,-1.109740,-1.064651,-1.064651,-1.047198,-1.047199,-1.064651,-1.064652,-1.109739,-1.109739,-1.134465,-1.134464,-1.178098,-1.178098,-1.221730]],
+];
+
+export const BOUNDARIES: BoundaryRecord[] = RAW.map(b => ({
+  abbr: b[0], ra: b[1], dec: b[2],
+}));
+
+// Dashed overlay, J2000: [ra1, dec1, ra2, dec2] per dash (radians)
+export const BOUNDARY_DASHES: number[] = [
+  3.125375,-0.972075,3.125355,-0.989528,
+  3.125333,-1.006982,3.125311,-1.024435,
+  3.125287,-1.041888,3.125261,-1.059342,
+  3.125234,-1.076795,3.125205,-1.094248,
+  3.125174,-1.111701,3.125141,-1.129155,
+  3.125141,-1.129155,3.163499,-1.129160,
+  3.201857,-1.129148,3.240213,-1.129118,
+  3.278566,-1.129071,3.316914,-1.129007,
+  3.355256,-1.128925,3.393590,-1.128827,
+  3.393590,-1.128827,3.393333,-1.111374,
+  3.393093,-1.093921,3.392869,-1.076467,
+  3.392659,-1.059014,3.392462,-1.041561,
+  3.392276,-1.024108,3.392101,-1.006655,
+  3.391934,-0.989202,3.391777,-0.971749,
+  3.391777,-0.971749,3.362185,-0.971826,
+  3.332590,-0.971894,3.302993,-0.971951,
+  3.273393,-0.971998,3.243791,-0.972034,
+  3.214188,-0.972060,3.184584,-0.972075,
+  3.154980,-0.972080,3.125375,-0.972075,
+  1.236608,0.004145,1.236801,0.021052,
+  1.236994,0.037959,1.237187,0.054866,
+  1.237381,0.071772,1.237575,0.088679,
+  1.237770,0.105586,1.237966,0.122493,
+  1.238162,0.139400,1.238359,0.156306,
+  1.238558,0.173213,1.238757,0.190120,
+  1.238958,0.207027,1.239160,0.223934,
+  1.239364,0.240840,1.239570,0.257747,
+  1.239777,0.274654,1.258122,0.274443,
+  1.276467,0.274232,1.294810,0.274019,
+  1.313152,0.273804,1.331492,0.273589,
+  1.331492,0.273589,1.331604,0.282316,
+  1.331604,0.282316,1.350817,0.282089,
+  1.370029,0.281862,1.389240,0.281634,
+  1.408449,0.281404,1.427657,0.281174,
+  1.427657,0.281174,1.427543,0.272448,
+  1.427543,0.272448,1.445004,0.272238,
+  1.462464,0.272028,1.479923,0.271817,
+  1.497381,0.271606,1.497155,0.254155,
+  1.496931,0.236703,1.496709,0.219252,
+  1.496709,0.219252,1.518529,0.218988,
+  1.540347,0.218723,1.540593,0.237920,
+  1.540841,0.257117,1.541091,0.276314,
+  1.541344,0.295510,1.541600,0.314707,
+  1.541600,0.314707,1.524144,0.314918,
+  1.524144,0.314918,1.524371,0.331789,
+  1.524601,0.348659,1.524834,0.365530,
+  1.525070,0.382400,1.525310,0.399270,
+  1.525310,0.399270,1.541311,0.399076,
+  1.557311,0.398882,1.573310,0.398687,
+  1.573310,0.398687,1.572981,0.375419,
+  1.572981,0.375419,1.590434,0.375207,
+  1.607885,0.374994,1.625334,0.374783,
+  1.642782,0.374571,1.660229,0.374359,
+  1.660229,0.374359,1.659986,0.356907,
+  1.659747,0.339455,1.659511,0.322003,
+  1.659278,0.304551,1.683264,0.304262,
+  1.683264,0.304262,1.683052,0.288264,
+  1.682843,0.272266,1.682635,0.256268,
+  1.682430,0.240271,1.682225,0.224273,
+  1.682023,0.208275,1.681803,0.190823,
+  1.681585,0.173371,1.664137,0.173582,
+  1.664137,0.173582,1.663919,0.156130,
+  1.663703,0.138678,1.663488,0.121226,
+  1.663274,0.103774,1.663061,0.086322,
+  1.662849,0.068870,1.662636,0.051418,
+  1.662425,0.033967,1.662213,0.016515,
+  1.662002,-0.000937,1.661790,-0.018389,
+  1.661578,-0.035841,1.661366,-0.053293,
+  1.661154,-0.070745,1.643337,-0.070529,
+  1.625521,-0.070313,1.607704,-0.070097,
+  1.589889,-0.069881,1.572073,-0.069665,
+  1.554258,-0.069448,1.554044,-0.086900,
+  1.553830,-0.104352,1.553616,-0.121804,
+  1.553400,-0.139256,1.553183,-0.156707,
+  1.552965,-0.174159,1.552746,-0.191611,
+  1.552746,-0.191611,1.534899,-0.191394,
+  1.517053,-0.191178,1.499207,-0.190962,
+  1.481363,-0.190746,1.463519,-0.190530,
+  1.445675,-0.190315,1.427833,-0.190101,
+  1.409991,-0.189887,1.392150,-0.189674,
+  1.374310,-0.189461,1.356470,-0.189250,
+  1.356470,-0.189250,1.356684,-0.171798,
+  1.356896,-0.154345,1.357107,-0.136893,
+  1.357317,-0.119441,1.357526,-0.101989,
+  1.357735,-0.084537,1.357943,-0.067085,
+  1.357943,-0.067085,1.339768,-0.066870,
+  1.321593,-0.066657,1.303418,-0.066444,
+  1.285243,-0.066232,1.267069,-0.066022,
+  1.248895,-0.065813,1.249095,-0.048361,
+  1.249296,-0.030909,1.249496,-0.013457,
+  1.249696,0.003995,1.236608,0.004145,
+  3.912442,-1.230658,3.910939,-1.208848,
+  3.909600,-1.187037,3.954167,-1.186665,
+  3.954167,-1.186665,3.953172,-1.169580,
+  3.952254,-1.152494,3.951404,-1.135408,
+  3.950614,-1.118321,3.983900,-1.118034,
+  4.017165,-1.117737,4.016475,-1.102710,
+  4.015824,-1.087684,4.015210,-1.072657,
+  4.015210,-1.072657,4.059458,-1.072248,
+  4.059458,-1.072248,4.058761,-1.054798,
+  4.058761,-1.054798,4.094808,-1.054454,
+  4.130832,-1.054101,4.166833,-1.053739,
+  4.202810,-1.053368,4.238763,-1.052990,
+  4.274692,-1.052605,4.310596,-1.052212,
+  4.346475,-1.051814,4.347294,-1.069262,
+  4.347294,-1.069262,4.390163,-1.068779,
+  4.390163,-1.068779,4.390923,-1.083803,
+  4.391727,-1.098828,4.392580,-1.113852,
+  4.392580,-1.113852,4.436541,-1.113347,
+  4.436541,-1.113347,4.438084,-1.138065,
+  4.438084,-1.138065,4.460056,-1.137808,
+  4.460056,-1.137808,4.461049,-1.152347,
+  4.462109,-1.166886,4.463243,-1.181424,
+  4.463243,-1.181424,4.507182,-1.180909,
+  4.507182,-1.180909,4.509061,-1.202714,
+  4.511165,-1.224518,4.461688,-1.225097,
+  4.412131,-1.225668,4.362495,-1.226231,
+  4.312781,-1.226783,4.262990,-1.227323,
+  4.213123,-1.227849,4.163182,-1.228361,
+  4.113170,-1.228857,4.063087,-1.229336,
+  4.012936,-1.229797,3.962720,-1.230238,
+];
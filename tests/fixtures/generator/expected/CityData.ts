@@ -0,0 +1,26 @@
+// CityData.ts — Auto-generated from tools/data/cities.csv
+// 3 cities for choosing a location without GPS
+
+import { CityRecord } from './Types';
+
+// Format: [name, country, lat_deg, lon_deg, elevation_m, timezone, population]
+const RAW: [string, string, number, number, number, string, number][] = [
+  ["Santiago","Chile",-33.4489,-70.6693,570,"America/Santiago",6903000],
+  ["Cairo","Egypt",30.0444,31.2357,23,"Africa/Cairo",21750000],
+  ["Reykjavik","Iceland",64.1466,-21.9426,15,"Atlantic/Reykjavik",135688],
+];
+
+export const CITIES: CityRecord[] = RAW.map(c => ({
+  name: c[0], country: c[1], lat: c[2], lon: c[3],
+  elevation: c[4], timezone: c[5], population: c[6],
+}));
+
+// Country names in picker order, with the index of each country's first city
+export const COUNTRIES: string[] = [];
+export const COUNTRY_START: number[] = [];
+CITIES.forEach((c, i) => {
+  if (COUNTRIES[COUNTRIES.length - 1] !== c.country) {
+    COUNTRIES.push(c.country);
+    COUNTRY_START.push(i);
+  }
+});
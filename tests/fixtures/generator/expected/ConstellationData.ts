@@ -0,0 +1,57 @@
+// ConstellationData.ts — Auto-generated from Stellarium sky cultures
+// western, chinese: 4 figures
+
+import { ConstellationRecord, SkyCultureRecord } from './Types';
+
+export const SKY_CULTURES: SkyCultureRecord[] = [
+  { id: "western", name: "Western" },
+  { id: "chinese", name: "Chinese" },
+];
+
+// Every culture's figures; SkyCultures.getConstellations() has the active one
+export const ALL_CONSTELLATIONS: ConstellationRecord[] = [
+  {
+    culture: "western",
+    abbr: "Ori",
+    name: "Orion",
+    lines: [[27989,26727],[26727,26311],[26311,25930],[25930,25336],[26727,27366],[25930,24436]],
+    centroidRA: 1.4658,
+    centroidDec: -0.0189,
+    radius: 0.1702,
+    labelRA: 1.4658,
+    labelDec: -0.0189,
+  },
+  {
+    culture: "western",
+    abbr: "Cru",
+    name: "Crux",
+    lines: [[60718,61084],[62434,59747],[60718,60260]],
+    centroidRA: 3.2656,
+    centroidDec: -1.0444,
+    radius: 0.057,
+    labelRA: 3.2656,
+    labelDec: -1.0444,
+  },
+  {
+    culture: "western",
+    abbr: "TrA",
+    name: "Triangulum Australe",
+    lines: [[82273,77952],[77952,74946],[74946,82273]],
+    centroidRA: 4.1898,
+    centroidDec: -1.1745,
+    radius: 0.0841,
+    labelRA: 4.1892,
+    labelDec: -1.1784,
+  },
+  {
+    culture: "chinese",
+    abbr: "003",
+    name: "Three Stars",
+    lines: [[27989,26727],[26727,26311],[26311,25930],[25930,24436],[25930,25336],[26727,27366]],
+    centroidRA: 1.4658,
+    centroidDec: -0.0189,
+    radius: 0.1702,
+    labelRA: 1.4658,
+    labelDec: -0.0189,
+  },
+];
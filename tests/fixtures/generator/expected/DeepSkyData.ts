@@ -0,0 +1,16 @@
+// DeepSkyData.ts — Auto-generated from tools/data/deep-sky.csv
+// 3 deep-sky objects (Messier, Caldwell, bright NGC/IC)
+
+import { DeepSkyRecord, DeepSkyType } from './Types';
+
+// Format: [id, name, type, ra_rad, dec_rad, mag, major_arcmin, minor_arcmin, surface_brightness, constellation, ngc]
+const RAW: [string, string, DeepSkyType, number, number, number, number, number, number, string, string][] = [
+  ["M7","Ptolemy Cluster","openCluster",4.685773,-0.607665,3.3,80,80,12.6,"Sco","NGC 6475"],
+  ["M42","Orion Nebula","nebula",1.463459,-0.095120,4,85,60,13,"Ori","NGC 1976"],
+  ["C80","Omega Centauri","globularCluster",3.520329,-0.828741,3.7,36,36,11.2,"Cen","NGC 5139"],
+];
+
+export const DEEP_SKY_OBJECTS: DeepSkyRecord[] = RAW.map(d => ({
+  id: d[0], name: d[1], type: d[2], ra: d[3], dec: d[4], mag: d[5],
+  majorArcmin: d[6], minorArcmin: d[7], surfaceBrightness: d[8], con: d[9], ngc: d[10],
+}));
@@ -0,0 +1,23 @@
+// StarData.ts — Auto-generated from HYG v41 database (XHIP for figure stars it lacks)
+// 15 stars: 11 with magnitude <= 2.5, 4 fainter figure stars
+
+import { StarArrays, StarRecord } from './Types';
+import { decodeStarCatalog, hipIndex, starRecords } from './StarCatalog';
+
+const COUNT = 15;
+
+// String tables the packed name / constellation fields index
+const NAMES: string[] = ["","Rigel","Betelgeuse","Acrux","Mimosa","Gacrux","Bellatrix","Alnilam","Alnitak","Atria","Saiph","Mintaka"];
+const CONSTELLATIONS: string[] = ["","Cru","Ori","TrA"];
+
+// 300 bytes (see StarCatalog.ts for the layout)
+const PACKED = [
+  "dF8AVW0ALu0A4vMAnO4A+GIAx2YAZ2gAYUEB5moASmUAY+kAgDABwiQBZOsA+eo3QSQ/hrqE2HuIZoqFFc05dMU7UJQ8dVGzyNI9",
+  "AAY7RrGCnM2pmVyjHsyD41V014iKUUIm+BsruMUu2geJZkp+uDx9yNMdaD9yGZN/LXIslsklj1IeoRgqEgAtAE0AfQCfAKQAqQCu",
+  "AL8AzwDhABcBGwEfAWcB/f+WAOj/6P+gAOr/7v/s/5EA7//v/+3/IAABAIsAAwA3ALj/qv84AO//AwAIACQAAwABALf/h/57/wAA",
+  "AQAXAOL/4P/u/eX//v8FAMH//v///+v/3PzA/wAAAQACAAMABAAFAAYABwAIAAkACgALAAAAAAAAAAAAAgIBAQECAgIDAgIBAwMB",
+].join('');
+
+export const STAR_ARRAYS: StarArrays = decodeStarCatalog(PACKED, COUNT, NAMES, CONSTELLATIONS);
+export const STARS: StarRecord[] = starRecords(STAR_ARRAYS);
+export const HIP_TO_INDEX: Map<number, number> = hipIndex(STAR_ARRAYS);
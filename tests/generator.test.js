@@ -0,0 +1,189 @@
+// generator.test.js — tools/generate-star-data.js parsing and selection
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("fs");
+const path = require("path");
+const generator = require("../tools/generate-star-data.js");
+
+const DATA_DIR = path.join(__dirname, "..", "tools", "data");
+
+function city(name, country, population) {
+  return { name, country, lat: 0, lon: 0, elevation: 0, timezone: "UTC", population };
+}
+
+test("selectCities keeps populous cities and each country's largest few", () => {
+  const cities = [
+    city("A1", "A", 900000), city("A2", "A", 150000), city("A3", "A", 40000),
+    city("A4", "A", 30000), city("A5", "A", 20000),
+    city("B1", "B", 25000), city("B2", "B", 16000),
+  ];
+  const names = generator.selectCities(cities, 100000, 3).map((c) => c.name).sort();
+  assert.deepEqual(names, ["A1", "A2", "A3", "B1", "B2"]);
+});
+
+test("country-names.csv names every country in the GeoNames extract", () => {
+  const names = generator.parseCountryNamesCSV(
+    fs.readFileSync(path.join(DATA_DIR, "country-names.csv"), "utf8")
+  );
+  assert.equal(names.US, "United States");
+  assert.equal(names.SH, "Saint Helena, Ascension and Tristan da Cunha");
+  const codes = new Set();
+  for (const line of fs.readFileSync(path.join(DATA_DIR, "cities15000.txt"), "utf8").split("\n")) {
+    const cols = line.split("\t");
+    if (cols.length >= 19) codes.add(cols[8]);
+  }
+  const unnamed = Array.from(codes).filter((code) => !names[code]);
+  assert.deepEqual(unnamed, []);
+});
+
+test("the checked-in CityData.ts is what the gazetteer inputs generate", () => {
+  const { cities, source } = generator.readCities();
+  const expected = generator.generateCityDataTS(cities, source);
+  const actual = fs.readFileSync(
+    path.join(__dirname, "..", "Assets", "Scripts", "SkyGuide", "CityData.ts"), "utf8"
+  );
+  assert.ok(actual === expected, "CityData.ts is stale: re-run tools/generate-star-data.js");
+});
+
+test("the checked-in BoundaryData.ts is what the boundary inputs generate", () => {
+  const { constellations } = generator.readConstellationDataTS(
+    fs.readFileSync(path.join(__dirname, "..", "Assets", "Scripts", "SkyGuide", "ConstellationData.ts"), "utf8")
+  );
+  const { polygons, source } = generator.readBoundaries(
+    constellations.filter((c) => c.culture === "western").map((c) => c.abbr)
+  );
+  const expected = generator.generateBoundaryDataTS(polygons, generator.boundaryDashes(polygons), source);
+  const actual = fs.readFileSync(
+    path.join(__dirname, "..", "Assets", "Scripts", "SkyGuide", "BoundaryData.ts"), "utf8"
+  );
+  assert.ok(actual === expected, "BoundaryData.ts is stale: re-run tools/generate-star-data.js");
+});
+
+const SKYGUIDE_DIR = path.join(__dirname, "..", "Assets", "Scripts", "SkyGuide");
+
+function star(hip, mag, con) {
+  return { hip, ra: 1, dec: 0.5, mag, bv: 0, name: "", con, pmra: 0, pmdec: 0 };
+}
+
+function figure(abbr, lines) {
+  return { culture: "western", abbr, name: abbr, lines };
+}
+
+test("validateCatalog reports missing endpoints, faint figures, duplicates and case mismatches", () => {
+  const stars = [star(1, 1, "TrA"), star(2, 2, "TrA"), star(3, 7, "Ori"), star(3, 7, "Ori")];
+  const { errors, warnings } = generator.validateCatalog(stars, [
+    figure("Tra", [[1, 2]]),
+    figure("Ori", [[3, 4]]),
+    figure("Ori", [[1, 2]]),
+    figure("Men", [[1, 2]]),
+  ]);
+  assert.deepEqual(errors, [
+    "duplicate star HIP 3",
+    'western/Tra: abbreviation "Tra" but stars have "TrA"',
+    "western/Ori: line endpoints not in the catalog: HIP 4",
+    "western/Ori: no line with both stars in the catalog at mag <= 6.5",
+    "duplicate figure western/Ori",
+  ]);
+  assert.deepEqual(warnings, ['western/Men: no catalog star has constellation "Men"']);
+});
+
+test("the checked-in StarData.ts and ConstellationData.ts pass validateCatalog", () => {
+  const stars = generator.readStarDataTS(fs.readFileSync(path.join(SKYGUIDE_DIR, "StarData.ts"), "utf8"));
+  const { constellations } = generator.readConstellationDataTS(
+    fs.readFileSync(path.join(SKYGUIDE_DIR, "ConstellationData.ts"), "utf8")
+  );
+  assert.ok(constellations.length >= 88);
+  assert.deepEqual(generator.validateCatalog(stars, constellations), { errors: [], warnings: [] });
+});
+
+test("parseStarGeoJSON reads XHIP stars, RA from GeoJSON longitude", () => {
+  const stars = generator.parseStarGeoJSON(JSON.stringify({
+    type: "FeatureCollection",
+    features: [
+      { type: "Feature", id: 25918, properties: { mag: 5.18, bv: "0.711" }, geometry: { type: "Point", coordinates: [83.4246, -76.3410] } },
+      { type: "Feature", id: 109352, properties: { mag: 5.58, bv: "1.027" }, geometry: { type: "Point", coordinates: [-27.1958, 25.6448] } },
+    ],
+  }));
+  assert.deepEqual(stars.map((s) => s.hip), [25918, 109352]);
+  assert.ok(Math.abs(stars[1].ra * 180 / Math.PI - 332.8042) < 1e-9);
+  assert.equal(stars[0].bv, 0.71);
+  assert.equal(generator.constellationOf(stars[0].ra, stars[0].dec, generator.readBoundaries(["Men"]).polygons), "Men");
+});
+
+test("HYG proper motions survive parsing and packing (Arcturus)", () => {
+  const csv = fs.readFileSync(path.join(__dirname, "fixtures", "generator", "hygdata_v41.csv"), "utf8")
+    .split("\n")[0] + "\n" +
+    "1,69673,,,,,Arcturus,14.261020,19.182410,,-1093.39,-1999.40,,-0.05,,,1.239,,,,,,,,,,,,,Boo,,,,,,,\n";
+  const log = console.log;
+  console.log = () => {};
+  let stars;
+  try {
+    stars = generator.parseHYG(csv);
+  } finally {
+    console.log = log;
+  }
+  assert.equal(stars[0].pmra, -1093.39);
+  const [arcturus] = generator.readStarDataTS(generator.generateStarDataTS(stars));
+  assert.equal(arcturus.hip, 69673);
+  assert.ok(Math.abs(arcturus.pmra - -1093.39) <= 0.25, `pmra ${arcturus.pmra}`);
+  assert.ok(Math.abs(arcturus.pmdec - -1999.40) <= 0.25, `pmdec ${arcturus.pmdec}`);
+});
+
+test("--rebuild --check finds every checked-in data file up to date", async () => {
+  const log = console.log;
+  console.log = () => {};
+  let ok;
+  try {
+    ok = await generator.main(generator.parseArgs(["--rebuild", "--offline", "--check"]));
+  } finally {
+    console.log = log;
+  }
+  assert.ok(ok, "a data file is stale: re-run tools/generate-star-data.js --rebuild");
+});
+
+test("the Chinese figures keep English names and drop those too faint to draw", () => {
+  const { cultures, constellations } = generator.readConstellationDataTS(
+    fs.readFileSync(path.join(SKYGUIDE_DIR, "ConstellationData.ts"), "utf8")
+  );
+  assert.deepEqual(cultures, [{ id: "western", name: "Western" }, { id: "chinese", name: "Chinese" }]);
+  const chinese = new Map(constellations.filter((c) => c.culture === "chinese").map((c) => [c.abbr, c]));
+  assert.equal(chinese.get("001").name, "Net");
+  assert.deepEqual(chinese.get("002").lines, [[1067, 677]]);
+  // "Dipper for Liquids": all five stars are fainter than mag 6.5
+  assert.equal(chinese.has("067"), false);
+});
+
+test("verifySource rejects unpinned sources when strict and mismatches always", () => {
+  const pins = { "a.csv": "0".repeat(64) };
+  assert.throws(() => generator.verifySource("a.csv", "x", pins, false), /does not match/);
+  assert.throws(() => generator.verifySource("b.csv", "x", pins, false, true), /not pinned/);
+  const log = console.log;
+  console.log = () => {};
+  try {
+    generator.verifySource("b.csv", "x", pins, false);
+  } finally {
+    console.log = log;
+  }
+  generator.verifySource("b.csv", "x", pins, true);
+  assert.ok(pins["b.csv"]);
+});
+
+test("the fixture inputs generate the expected files offline", async () => {
+  const fixtures = path.join(__dirname, "fixtures", "generator");
+  const log = console.log;
+  console.log = () => {};
+  let ok;
+  try {
+    ok = await generator.main(generator.parseArgs([
+      "--hyg", path.join(fixtures, "hygdata_v41.csv"),
+      "--data-dir", path.join(fixtures, "data"),
+      "--mag-limit", "2.5",
+      "--out-dir", path.join(fixtures, "expected"),
+      "--offline", "--check",
+    ]));
+  } finally {
+    console.log = log;
+  }
+  assert.ok(ok, "generator output changed: see tests/fixtures/generator/README.md");
+});
@@ -0,0 +1,42 @@
+/**
+ * load-ts.js
+ *
+ * Loads SkyGuide .ts modules for the tests by transpiling them to CommonJS in
+ * memory, as the tools/ benchmarks do. Requires the `typescript` package
+ * (npm install -g typescript, or NODE_PATH pointing at a node_modules that has it).
+ */
+
+const fs = require("fs");
+const path = require("path");
+const ts = require("typescript");
+
+const SRC_DIR = path.join(__dirname, "..", "..", "Assets", "Scripts", "SkyGuide");
+
+/**
+ * A module loader with its own cache (the modules keep state, so each test
+ * file that needs a fresh Settings or SkyEngine makes its own loader).
+ * @param overrides — module name -> exports, used instead of the .ts file
+ */
+function makeLoader(overrides = {}) {
+  const cache = {};
+  function load(name) {
+    if (overrides[name]) return overrides[name];
+    if (cache[name]) return cache[name].exports;
+    const source = fs.readFileSync(path.join(SRC_DIR, name + ".ts"), "utf8");
+    const js = ts.transpileModule(source, {
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2019,
+      },
+    }).outputText;
+    const mod = { exports: {} };
+    cache[name] = mod;
+    new Function("module", "exports", "require", js)(mod, mod.exports, (dep) =>
+      load(path.basename(dep))
+    );
+    return mod.exports;
+  }
+  return load;
+}
+
+module.exports = { SRC_DIR, makeLoader };
@@ -0,0 +1,133 @@
+// magnetic-model.test.js — MagneticModel against the WMM2025 test values
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { makeLoader } = require("./helpers/load-ts");
+
+const MagneticModel = makeLoader()("MagneticModel");
+
+// NOAA's WMM2025 test points (as shipped in the geomagnetism npm package's
+// test/values.csv): [decimal year, height km, lat°, lon°, declination°]
+const WMM2025_TEST_VALUES = [
+  [2025.0, 28, 89, -121, -99.77],
+  [2025.0, 48, 80, -96, -29.91],
+  [2025.0, 54, 82, 87, 54.89],
+  [2025.0, 65, 43, 93, 0.50],
+  [2025.0, 51, -33, 109, -5.49],
+  [2025.0, 39, -59, -8, -15.75],
+  [2025.0, 3, -50, -103, 27.96],
+  [2025.0, 94, -29, -110, 15.74],
+  [2025.0, 66, 14, 143, -0.19],
+  [2025.0, 18, 0, 21, 1.29],
+  [2025.5, 6, -36, -137, 20.28],
+  [2025.5, 63, 26, 81, 0.51],
+  [2025.5, 69, 38, -144, 12.93],
+  [2025.5, 50, -70, -133, 57.21],
+  [2025.5, 8, -52, -75, 14.91],
+  [2025.5, 8, -66, 17, -33.14],
+  [2025.5, 22, -37, 140, 9.28],
+  [2025.5, 40, -12, -129, 10.76],
+  [2025.5, 44, 33, -118, 11.10],
+  [2025.5, 50, -81, -67, 28.13],
+  [2026.0, 74, -57, 3, -22.51],
+  [2026.0, 46, -24, -122, 14.01],
+  [2026.0, 69, 23, 63, 1.17],
+  [2026.0, 33, -3, -147, 9.71],
+  [2026.0, 47, -72, -22, -6.32],
+  [2026.0, 62, -14, 99, -1.43],
+  [2026.0, 83, 86, -46, -30.61],
+  [2026.0, 82, -64, 87, -81.74],
+  [2026.0, 34, -19, 43, -14.98],
+  [2026.0, 56, -81, 40, -59.77],
+  [2026.5, 14, 0, 80, -3.10],
+  [2026.5, 12, -82, -68, 29.79],
+  [2026.5, 44, -46, -42, -11.36],
+  [2026.5, 43, 17, 52, 1.19],
+  [2026.5, 64, 10, 78, -1.53],
+  [2026.5, 12, 33, -145, 11.96],
+  [2026.5, 12, -79, 115, -137.58],
+  [2026.5, 14, -33, -114, 18.12],
+  [2026.5, 19, 29, 66, 2.24],
+  [2026.5, 86, -11, 167, 10.24],
+  [2027.0, 37, -66, -5, -17.22],
+  [2027.0, 67, 72, -115, 13.73],
+  [2027.0, 44, 22, 174, 6.46],
+  [2027.0, 54, 54, 178, 0.63],
+  [2027.0, 57, -43, 50, -48.27],
+  [2027.0, 44, -43, -111, 24.31],
+  [2027.0, 12, -63, 178, 57.87],
+  [2027.0, 38, 27, -169, 8.48],
+  [2027.0, 61, 59, -77, -16.48],
+  [2027.0, 67, -47, -32, -13.52],
+  [2027.5, 8, 62, 53, 19.39],
+  [2027.5, 77, -68, -7, -16.19],
+  [2027.5, 98, -5, 159, 7.79],
+  [2027.5, 34, -29, -107, 15.64],
+  [2027.5, 60, 27, 65, 1.85],
+  [2027.5, 73, -72, 95, -102.64],
+  [2027.5, 96, -46, -85, 17.93],
+  [2027.5, 0, -13, -59, -17.49],
+  [2027.5, 16, 66, -178, 0.37],
+  [2027.5, 72, -87, 38, -65.44],
+  [2028.0, 49, 20, 167, 5.10],
+  [2028.0, 71, 5, -13, -6.47],
+  [2028.0, 95, 14, 65, -0.51],
+  [2028.0, 86, -85, -79, 41.09],
+  [2028.0, 30, -36, -64, -4.65],
+  [2028.0, 75, 79, 125, -18.59],
+  [2028.0, 21, 6, -32, -14.34],
+  [2028.0, 1, -76, -75, 29.87],
+  [2028.0, 45, -46, -41, -11.68],
+  [2028.0, 11, -22, -21, -23.24],
+  [2028.5, 28, 54, -120, 15.43],
+  [2028.5, 68, -58, 156, 41.57],
+  [2028.5, 39, -65, -88, 29.45],
+  [2028.5, 27, -23, 81, -13.27],
+  [2028.5, 11, 34, 0, 1.57],
+  [2028.5, 72, -62, 65, -67.87],
+  [2028.5, 55, 86, 70, 67.64],
+  [2028.5, 59, 32, 163, 0.15],
+  [2028.5, 65, 48, 148, -9.55],
+  [2028.5, 95, 30, 28, 4.56],
+  [2029.0, 95, -60, -59, 8.58],
+  [2029.0, 95, -70, 42, -55.06],
+  [2029.0, 50, 87, -154, -73.48],
+  [2029.0, 58, 32, 19, 4.11],
+  [2029.0, 57, 34, -13, -1.89],
+  [2029.0, 38, -76, 49, -64.28],
+  [2029.0, 49, -50, -179, 32.11],
+  [2029.0, 90, -55, -171, 38.65],
+  [2029.0, 41, 42, -19, -4.13],
+  [2029.0, 19, 46, -22, -5.65],
+  [2029.5, 31, 13, -132, 9.04],
+  [2029.5, 93, -2, 158, 7.09],
+  [2029.5, 51, -76, 40, -56.34],
+  [2029.5, 64, 22, -132, 10.23],
+  [2029.5, 26, -65, 55, -63.48],
+  [2029.5, 66, -21, 32, -14.63],
+  [2029.5, 18, 9, -172, 9.24],
+  [2029.5, 63, 88, 26, 36.52],
+  [2029.5, 33, 17, 5, 0.89],
+  [2029.5, 77, -18, 138, 4.45],
+];
+
+test("declination matches the WMM2025 test values to 0.01°", () => {
+  for (const [year, heightKm, lat, lon, declination] of WMM2025_TEST_VALUES) {
+    const d = MagneticModel.magneticDeclination(lat, lon, heightKm, year);
+    assert.ok(Math.abs(d - declination) <= 0.01,
+      `${year} ${heightKm} km ${lat},${lon}: ${d.toFixed(3)}° vs ${declination}°`);
+  }
+});
+
+test("the model epoch covers 2025.0–2030.0", () => {
+  assert.equal(MagneticModel.isWithinModelEpoch(2024.99), false);
+  assert.equal(MagneticModel.isWithinModelEpoch(2025.0), true);
+  assert.equal(MagneticModel.isWithinModelEpoch(2029.5), true);
+  assert.equal(MagneticModel.isWithinModelEpoch(2030.01), false);
+});
+
+test("decimalYear counts from January 1, UTC", () => {
+  assert.equal(MagneticModel.decimalYear(Date.UTC(2025, 0, 1)), 2025);
+  const midYear = MagneticModel.decimalYear(Date.UTC(2026, 6, 2, 12));
+  assert.ok(Math.abs(midYear - 2026.5) < 1e-9, String(midYear));
+});
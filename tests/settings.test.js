@@ -0,0 +1,154 @@
+// settings.test.js — Settings validation, stepping and persistence (in-memory store)
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { makeLoader } = require("./helpers/load-ts");
+
+const STORAGE_KEY = "skyGuide.settings";
+
+// Lens Studio's print(), collected so tests can check what was reported
+let printed = [];
+global.print = (message) => printed.push(String(message));
+
+/**
+ * A fresh Settings module (its values and listeners are module state),
+ * initialized on the given store.
+ */
+function freshSettings(store) {
+  const Settings = makeLoader()("Settings");
+  printed = [];
+  Settings.init(store || Settings.createMemoryStore());
+  return Settings;
+}
+
+test("numbers are clamped to their range and snapped to their step", () => {
+  const Settings = freshSettings();
+  assert.equal(Settings.set("sphereRadius", 5000), true);
+  assert.equal(Settings.get("sphereRadius"), 1000);
+  Settings.set("sphereRadius", -20);
+  assert.equal(Settings.get("sphereRadius"), 100);
+  Settings.set("sphereRadius", 274);
+  assert.equal(Settings.get("sphereRadius"), 250);
+  Settings.set("gazeHoldDelay", 0.33);
+  assert.equal(Settings.get("gazeHoldDelay"), 0.3);
+  // Steps count from the minimum, and float drift is rounded away
+  Settings.set("headingSmoothing", 0.31);
+  assert.equal(Settings.get("headingSmoothing"), 0.3);
+});
+
+test("wrong types, non-finite numbers and unknown options are rejected", () => {
+  const Settings = freshSettings();
+  assert.equal(Settings.set("lineColor", "Puce"), false);
+  assert.equal(Settings.set("skyCulture", "atlantean"), false);
+  assert.equal(Settings.set("bortleClass", 4), false);
+  assert.equal(Settings.set("showBoundaries", "yes"), false);
+  assert.equal(Settings.set("sphereRadius", NaN), false);
+  assert.equal(Settings.set("sphereRadius", "600"), false);
+  assert.equal(Settings.get("lineColor"), Settings.DEFAULT_SETTINGS.lineColor);
+  assert.equal(Settings.get("skyCulture"), Settings.DEFAULT_SETTINGS.skyCulture);
+  assert.equal(Settings.get("bortleClass"), Settings.DEFAULT_SETTINGS.bortleClass);
+  assert.equal(Settings.get("showBoundaries"), Settings.DEFAULT_SETTINGS.showBoundaries);
+  assert.equal(Settings.get("sphereRadius"), Settings.DEFAULT_SETTINGS.sphereRadius);
+  assert.ok(printed.some((line) => line.includes("Invalid value for setting lineColor")));
+});
+
+test("step moves numbers, cycles options and flips switches", () => {
+  const Settings = freshSettings();
+  Settings.step("sphereRadius", 1);
+  assert.equal(Settings.get("sphereRadius"), 550);
+  Settings.set("sphereRadius", 1000);
+  Settings.step("sphereRadius", 1);
+  assert.equal(Settings.get("sphereRadius"), 1000);
+
+  const colors = Settings.getDefinition("lineColor").options;
+  Settings.set("lineColor", colors[colors.length - 1]);
+  Settings.step("lineColor", 1);
+  assert.equal(Settings.get("lineColor"), colors[0]);
+  Settings.step("lineColor", -1);
+  assert.equal(Settings.get("lineColor"), colors[colors.length - 1]);
+
+  Settings.step("showBoundaries", 1);
+  assert.equal(Settings.get("showBoundaries"), true);
+  Settings.step("showBoundaries", -1);
+  assert.equal(Settings.get("showBoundaries"), false);
+});
+
+test("listeners hear each change once, and not unchanged values", () => {
+  const Settings = freshSettings();
+  const heard = [];
+  Settings.onChange((key) => heard.push(key));
+  Settings.set("labelBudget", 30);
+  Settings.set("labelBudget", 30);
+  Settings.set("labelBudget", 31); // snaps to 30: no change
+  Settings.set("lineColor", "Puce");
+  Settings.set("showMeridian", true);
+  assert.deepEqual(heard, ["labelBudget", "showMeridian"]);
+});
+
+test("settings survive a restart on the same store", () => {
+  const store = freshSettings().createMemoryStore();
+  const first = freshSettings(store);
+  first.set("sphereRadius", 700);
+  first.set("highlightColor", "Gold");
+  first.set("showEcliptic", true);
+  first.set("bortleClass", "5");
+
+  const second = freshSettings(store);
+  assert.equal(second.get("sphereRadius"), 700);
+  assert.equal(second.get("highlightColor"), "Gold");
+  assert.equal(second.get("showEcliptic"), true);
+  assert.equal(second.get("bortleClass"), "5");
+  assert.deepEqual(second.getColor("highlightColor"), second.COLOR_PALETTE.Gold);
+
+  second.reset();
+  const third = freshSettings(store);
+  for (const def of third.SETTING_DEFINITIONS) {
+    assert.equal(third.get(def.key), third.DEFAULT_SETTINGS[def.key], def.key);
+  }
+});
+
+test("unreadable saved JSON falls back to the defaults", () => {
+  const store = freshSettings().createMemoryStore();
+  store.putString(STORAGE_KEY, "{\"sphereRadius\": 700,");
+  const Settings = freshSettings(store);
+  assert.equal(Settings.get("sphereRadius"), Settings.DEFAULT_SETTINGS.sphereRadius);
+  assert.ok(printed.some((line) => line.includes("Could not read saved settings")));
+
+  // Saved as null or a bare value: nothing to apply
+  for (const text of ["null", "42"]) {
+    store.putString(STORAGE_KEY, text);
+    const again = freshSettings(store);
+    assert.equal(again.get("sphereRadius"), again.DEFAULT_SETTINGS.sphereRadius, text);
+  }
+});
+
+test("invalid saved values are dropped one by one, valid ones kept", () => {
+  const store = freshSettings().createMemoryStore();
+  store.putString(STORAGE_KEY, JSON.stringify({
+    sphereRadius: "big",
+    lineColor: "Puce",
+    gazeThresholdDeg: 12.4,
+    showHorizon: false,
+    magnitudeLimit: 9,
+    retiredSetting: 3,
+  }));
+  const Settings = freshSettings(store);
+  assert.equal(Settings.get("sphereRadius"), Settings.DEFAULT_SETTINGS.sphereRadius);
+  assert.equal(Settings.get("lineColor"), Settings.DEFAULT_SETTINGS.lineColor);
+  assert.equal(Settings.get("gazeThresholdDeg"), 12);
+  assert.equal(Settings.get("showHorizon"), false);
+  assert.equal(Settings.get("magnitudeLimit"), 6.5);
+  assert.ok(printed.includes("[SkyGuide] Ignoring invalid saved setting sphereRadius"));
+  assert.ok(printed.includes("[SkyGuide] Ignoring invalid saved setting lineColor"));
+});
+
+test("formatValue shows units, option labels and switches", () => {
+  const Settings = freshSettings();
+  Settings.set("gazeThresholdDeg", 8);
+  assert.equal(Settings.formatValue("gazeThresholdDeg"), "8°");
+  Settings.set("gazeHoldDelay", 0.5);
+  assert.equal(Settings.formatValue("gazeHoldDelay"), "0.5 s");
+  Settings.set("bortleClass", "8");
+  assert.equal(Settings.formatValue("bortleClass"), "8 — city");
+  assert.equal(Settings.formatValue("showHorizon"), "On");
+});
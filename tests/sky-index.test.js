@@ -0,0 +1,78 @@
+// sky-index.test.js — SkyIndex cone queries against a brute-force scan
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { makeLoader } = require("./helpers/load-ts");
+
+const load = makeLoader();
+const { buildSkyIndex, queryCone } = load("SkyIndex");
+const { STAR_ARRAYS } = load("StarData");
+
+const DEG = Math.PI / 180;
+
+/** Seeded uniform random sky (same generator as the benchmarks). */
+function randomSky(count, seed) {
+  const next = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+  const ra = new Float64Array(count);
+  const dec = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    ra[i] = next() * 2 * Math.PI;
+    dec[i] = Math.asin(2 * next() - 1);
+  }
+  return { ra, dec, next };
+}
+
+/** Every entry within radiusRad, by the same test queryCone applies per entry. */
+function scan(index, dx, dy, dz, radiusRad) {
+  const len = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  const cosR = Math.cos(Math.min(radiusRad, Math.PI));
+  const found = [];
+  for (let i = 0; i < index.x.length; i++) {
+    if ((index.x[i] * dx + index.y[i] * dy + index.z[i] * dz) / len >= cosR) found.push(i);
+  }
+  return found;
+}
+
+function query(index, dx, dy, dz, radiusRad) {
+  const out = [];
+  queryCone(index, dx, dy, dz, radiusRad, out);
+  return out.sort((a, b) => a - b);
+}
+
+test("queryCone returns exactly the entries a full scan finds", () => {
+  const sky = randomSky(20000, 7);
+  const index = buildSkyIndex(sky.ra, sky.dec);
+  for (const radius of [0.5 * DEG, 2 * DEG, 23 * DEG, 90 * DEG, 170 * DEG]) {
+    for (let k = 0; k < 40; k++) {
+      const ra = sky.next() * 2 * Math.PI;
+      const dec = Math.asin(2 * sky.next() - 1);
+      const dx = Math.cos(dec) * Math.cos(ra), dy = Math.cos(dec) * Math.sin(ra), dz = Math.sin(dec);
+      assert.deepEqual(query(index, dx, dy, dz, radius), scan(index, dx, dy, dz, radius),
+        `radius ${radius / DEG}°, RA ${ra / DEG}°, Dec ${dec / DEG}°`);
+    }
+  }
+});
+
+test("queryCone handles the poles, cube edges and corners, and unnormalized directions", () => {
+  const sky = randomSky(5000, 11);
+  const index = buildSkyIndex(sky.ra, sky.dec);
+  const s = 1 / Math.sqrt(3);
+  const directions = [[0, 0, 1], [0, 0, -1], [1, 0, 0], [1, 1, 0], [s, s, s], [-s, s, -s], [3, -4, 12]];
+  for (const [dx, dy, dz] of directions) {
+    for (const radius of [1 * DEG, 10 * DEG, 60 * DEG]) {
+      assert.deepEqual(query(index, dx, dy, dz, radius), scan(index, dx, dy, dz, radius),
+        `direction ${dx}, ${dy}, ${dz}, radius ${radius / DEG}°`);
+    }
+  }
+  assert.deepEqual(query(index, 0, 0, 0, 10 * DEG), []);
+});
+
+test("queryCone on the shipped catalog finds Sirius near its position", () => {
+  const index = buildSkyIndex(STAR_ARRAYS.ra, STAR_ARRAYS.dec);
+  const i = Array.from(STAR_ARRAYS.hip).indexOf(32349);
+  const ra = STAR_ARRAYS.ra[i], dec = STAR_ARRAYS.dec[i];
+  const dx = Math.cos(dec) * Math.cos(ra), dy = Math.cos(dec) * Math.sin(ra), dz = Math.sin(dec);
+  const found = query(index, dx, dy, dz, 2 * DEG);
+  assert.ok(found.includes(i));
+  assert.deepEqual(found, scan(index, dx, dy, dz, 2 * DEG));
+});
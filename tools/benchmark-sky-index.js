@@ -0,0 +1,182 @@
+#!/usr/bin/env node
+/**
+ * benchmark-sky-index.js
+ *
+ * Measures SkyIndex cone queries against a brute-force scan at the shipped
+ * catalog size (~2k stars), a mag 6.5 catalog (~9k) and 100k stars.
+ * Also checks that both methods return exactly the same entries.
+ *
+ * Usage: node tools/benchmark-sky-index.js
+ *
+ * Requires the `typescript` package (npm install -g typescript, or run with
+ * NODE_PATH pointing at a node_modules that has it) to load the .ts sources.
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+const SRC_DIR = path.join(__dirname, "..", "Assets", "Scripts", "SkyGuide");
+
+const DEG = Math.PI / 180;
+const GAZE_RADIUS = 2.0 * DEG; // largest star hit radius + apparent-place margin
+const FOV_RADIUS = 23.0 * DEG; // half the Spectacles diagonal field of view
+const GAZE_QUERIES = 20000;
+const FOV_QUERIES = 500;
+
+/**
+ * Load a SkyGuide .ts module by transpiling it to CommonJS in memory.
+ */
+function loadTs(name) {
+  let ts;
+  try {
+    ts = require("typescript");
+  } catch (e) {
+    console.error("The typescript package is required: npm install -g typescript");
+    process.exit(1);
+  }
+  const source = fs.readFileSync(path.join(SRC_DIR, name + ".ts"), "utf8");
+  const js = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2019,
+    },
+  }).outputText;
+  const mod = { exports: {} };
+  new Function("module", "exports", "require", js)(mod, mod.exports, (dep) =>
+    loadTs(path.basename(dep))
+  );
+  return mod.exports;
+}
+
+// Deterministic PRNG (mulberry32) so runs are comparable
+function makeRandom(seed) {
+  let a = seed >>> 0;
+  return function () {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomSky(count, random) {
+  const ra = new Float64Array(count);
+  const dec = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    ra[i] = random() * 2 * Math.PI;
+    dec[i] = Math.asin(2 * random() - 1);
+  }
+  return { ra, dec };
+}
+
+function randomDirections(count, random) {
+  const dirs = new Float64Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const ra = random() * 2 * Math.PI;
+    const dec = Math.asin(2 * random() - 1);
+    dirs[i * 3] = Math.cos(dec) * Math.cos(ra);
+    dirs[i * 3 + 1] = Math.cos(dec) * Math.sin(ra);
+    dirs[i * 3 + 2] = Math.sin(dec);
+  }
+  return dirs;
+}
+
+function bruteForce(index, dx, dy, dz, radius, out) {
+  out.length = 0;
+  const cosR = Math.cos(radius);
+  for (let i = 0; i < index.x.length; i++) {
+    if (index.x[i] * dx + index.y[i] * dy + index.z[i] * dz >= cosR) {
+      out.push(i);
+    }
+  }
+  return out.length;
+}
+
+/**
+ * Average microseconds per query, plus the average number of hits.
+ */
+function timeQueries(query, index, dirs, radius) {
+  const out = [];
+  const count = dirs.length / 3;
+  let hits = 0;
+  // Warm up the JIT on the same inputs
+  for (let i = 0; i < Math.min(count, 200); i++) {
+    query(index, dirs[i * 3], dirs[i * 3 + 1], dirs[i * 3 + 2], radius, out);
+  }
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < count; i++) {
+    hits += query(index, dirs[i * 3], dirs[i * 3 + 1], dirs[i * 3 + 2], radius, out);
+  }
+  const elapsedUs = Number(process.hrtime.bigint() - start) / 1000;
+  return { us: elapsedUs / count, hits: hits / count };
+}
+
+function verify(SkyIndex, index, dirs, radius) {
+  const a = [];
+  const b = [];
+  for (let i = 0; i < dirs.length / 3; i++) {
+    SkyIndex.queryCone(index, dirs[i * 3], dirs[i * 3 + 1], dirs[i * 3 + 2], radius, a);
+    bruteForce(index, dirs[i * 3], dirs[i * 3 + 1], dirs[i * 3 + 2], radius, b);
+    a.sort((p, q) => p - q);
+    if (a.length !== b.length || a.some((v, k) => v !== b[k])) {
+      throw new Error("Index and brute force disagree for query " + i);
+    }
+  }
+}
+
+function main() {
+  const SkyIndex = loadTs("SkyIndex");
+  const { STARS } = loadTs("StarData");
+  const random = makeRandom(20240601);
+
+  const catalogs = [
+    {
+      label: STARS.length + " (shipped catalog)",
+      ra: STARS.map((s) => s.ra),
+      dec: STARS.map((s) => s.dec),
+    },
+    Object.assign({ label: "9,000 (mag 6.5, synthetic)" }, randomSky(9000, random)),
+    Object.assign({ label: "100,000 (synthetic)" }, randomSky(100000, random)),
+  ];
+
+  const gazeDirs = randomDirections(GAZE_QUERIES, random);
+  const fovDirs = randomDirections(FOV_QUERIES, random);
+
+  console.log("Node " + process.version + ", " + require("os").cpus()[0].model);
+  console.log(
+    "Gaze cone " + (GAZE_RADIUS / DEG).toFixed(1) + "°, field-of-view cone " +
+    (FOV_RADIUS / DEG).toFixed(0) + "°\n"
+  );
+  console.log(
+    "| Stars | Build | Grid | Gaze: scan | Gaze: index | FOV: scan | FOV: index |"
+  );
+  console.log("|---|---|---|---|---|---|---|");
+
+  for (const cat of catalogs) {
+    const buildStart = process.hrtime.bigint();
+    const index = SkyIndex.buildSkyIndex(cat.ra, cat.dec);
+    const buildMs = Number(process.hrtime.bigint() - buildStart) / 1e6;
+
+    verify(SkyIndex, index, gazeDirs.subarray(0, 3000), GAZE_RADIUS);
+    verify(SkyIndex, index, fovDirs.subarray(0, 300), FOV_RADIUS);
+
+    const gazeScan = timeQueries(bruteForce, index, gazeDirs, GAZE_RADIUS);
+    const gazeIndex = timeQueries(SkyIndex.queryCone, index, gazeDirs, GAZE_RADIUS);
+    const fovScan = timeQueries(bruteForce, index, fovDirs, FOV_RADIUS);
+    const fovIndex = timeQueries(SkyIndex.queryCone, index, fovDirs, FOV_RADIUS);
+
+    const n = index.gridSize;
+    console.log(
+      "| " + cat.label +
+      " | " + buildMs.toFixed(1) + " ms" +
+      " | 6×" + n + "×" + n +
+      " | " + gazeScan.us.toFixed(1) + " µs" +
+      " | " + gazeIndex.us.toFixed(1) + " µs (" + gazeIndex.hits.toFixed(1) + " hits)" +
+      " | " + fovScan.us.toFixed(0) + " µs" +
+      " | " + fovIndex.us.toFixed(0) + " µs (" + Math.round(fovIndex.hits) + " hits) |"
+    );
+  }
+}
+
+main();
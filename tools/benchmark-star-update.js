@@ -0,0 +1,394 @@
+#!/usr/bin/env node
+/**
+ * benchmark-star-update.js
+ *
+ * Runs the per-frame star path headless: SkyEngine.updateStarPositions() and
+ * SkyRenderer.updateMeshes() against stand-ins for the Lens Studio globals,
+ * next to a copy of the previous per-star tuple code (equatorialToHorizontal,
+ * horizontalToCartesian, bvToColor and a new array per vertex).
+ * Reports time per frame, garbage collections and mesh uploads for the
+ * shipped catalog and synthetic 9k / 16k star catalogs (the 16-bit sprite mesh
+ * holds 16,377). Also checks the batch transform against
+ * AstroMath.equatorialToHorizontal().
+ *
+ * Usage: node tools/benchmark-star-update.js
+ *
+ * Requires the `typescript` package (npm install -g typescript, or run with
+ * NODE_PATH pointing at a node_modules that has it) to load the .ts sources.
+ */
+
+const fs = require("fs");
+const path = require("path");
+const { PerformanceObserver } = require("perf_hooks");
+
+const SRC_DIR = path.join(__dirname, "..", "Assets", "Scripts", "SkyGuide");
+
+const FRAMES = 600;
+const WARMUP_FRAMES = 60;
+const FRAME_SECONDS = 1 / 60;
+const OBSERVER = { lat: 48.8566, lon: 2.3522 }; // Paris
+const START_TIME = Date.UTC(2024, 0, 15, 22, 0, 0);
+
+let ts;
+try {
+  ts = require("typescript");
+} catch (e) {
+  console.error("The typescript package is required: npm install -g typescript");
+  process.exit(1);
+}
+
+/**
+ * Load SkyGuide .ts modules by transpiling them to CommonJS in memory.
+ * Each loader has its own module cache (the modules keep state), and
+ * `overrides` replaces modules by name (used for synthetic star catalogs).
+ */
+function makeLoader(overrides) {
+  const cache = {};
+  function load(name) {
+    if (overrides[name]) return overrides[name];
+    if (cache[name]) return cache[name].exports;
+    const source = fs.readFileSync(path.join(SRC_DIR, name + ".ts"), "utf8");
+    const js = ts.transpileModule(source, {
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2019,
+      },
+    }).outputText;
+    const mod = { exports: {} };
+    cache[name] = mod;
+    new Function("module", "exports", "require", js)(mod, mod.exports, (dep) =>
+      load(path.basename(dep))
+    );
+    return mod.exports;
+  }
+  return load;
+}
+
+/**
+ * Stand-in MeshBuilder: keeps the interleaved vertices in a Float32Array and
+ * counts vertex writes and uploads.
+ */
+class FakeMeshBuilder {
+  constructor(attributes) {
+    this.stride = attributes.reduce((n, a) => n + a.components, 0);
+    this.vertices = new Float32Array(0);
+    this.vertexCount = 0;
+    this.writes = 0;
+    this.uploads = 0;
+  }
+  appendVerticesInterleaved(values) {
+    const grown = new Float32Array(this.vertices.length + values.length);
+    grown.set(this.vertices);
+    grown.set(values, this.vertices.length);
+    this.vertices = grown;
+    this.vertexCount = grown.length / this.stride;
+  }
+  appendIndices() {}
+  setVertexInterleaved(index, values) {
+    const o = index * this.stride;
+    for (let k = 0; k < this.stride; k++) this.vertices[o + k] = values[k];
+    this.writes++;
+  }
+  updateMesh() {
+    this.uploads++;
+  }
+  getMesh() {
+    return {};
+  }
+}
+
+const builders = [];
+
+// Virtual wall clock: every frame takes exactly FRAME_SECONDS
+let now = START_TIME;
+
+function installLensGlobals() {
+  Date.now = () => now;
+  const store = {};
+  globalThis.print = () => {};
+  globalThis.MeshTopology = { Lines: 1, Triangles: 3 };
+  globalThis.MeshIndexType = { UInt16: 1 };
+  globalThis.MeshBuilder = function (attributes) {
+    const builder = new FakeMeshBuilder(attributes);
+    builders.push(builder);
+    return builder;
+  };
+  globalThis.global = {
+    persistentStorageSystem: {
+      store: {
+        has: (k) => k in store,
+        getString: (k) => store[k],
+        putString: (k, v) => { store[k] = v; },
+      },
+    },
+  };
+}
+
+function fakeSceneObject() {
+  const visual = { mesh: null, clearMaterials() {}, addMaterial() {} };
+  return { getComponent: () => visual };
+}
+
+// Deterministic PRNG (mulberry32) so runs are comparable
+function makeRandom(seed) {
+  let a = seed >>> 0;
+  return function () {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * StarData module for a uniform random sky, built with the real StarCatalog helpers.
+ */
+function syntheticStarData(StarCatalog, count, random) {
+  const arrays = {
+    count,
+    hip: new Uint32Array(count),
+    ra: new Float64Array(count),
+    dec: new Float64Array(count),
+    mag: new Float32Array(count),
+    bv: new Float32Array(count),
+    pmRA: new Float64Array(count),
+    pmDec: new Float64Array(count),
+    nameIndex: new Uint16Array(count),
+    conIndex: new Uint8Array(count),
+    names: [""],
+    constellations: [""],
+  };
+  for (let i = 0; i < count; i++) {
+    arrays.hip[i] = 200000 + i; // clear of real HIP numbers, so figures stay hidden
+    arrays.ra[i] = random() * 2 * Math.PI;
+    arrays.dec[i] = Math.asin(2 * random() - 1);
+    arrays.mag[i] = 6.5 - 8 * Math.pow(random(), 3);
+    arrays.bv[i] = 2 * random() - 0.3;
+  }
+  return {
+    STAR_ARRAYS: arrays,
+    STARS: StarCatalog.starRecords(arrays),
+    HIP_TO_INDEX: StarCatalog.hipIndex(arrays),
+  };
+}
+
+/**
+ * Engine and renderer for one catalog, with the observer set and the clock
+ * running at `rate` times real time from START_TIME.
+ */
+function setUp(overrides, rate) {
+  builders.length = 0;
+  now = START_TIME;
+  const load = makeLoader(overrides);
+  const Settings = load("Settings");
+  const SkyCultures = load("SkyCultures");
+  const Engine = load("SkyEngine");
+  const Renderer = load("SkyRenderer");
+  const Astro = load("AstroMath");
+  const { STAR_ARRAYS, HIP_TO_INDEX } = load("StarData");
+
+  Settings.init(Settings.createMemoryStore());
+  SkyCultures.setCulture(Settings.get("skyCulture"));
+  Engine.setObserverLocation(OBSERVER.lat, OBSERVER.lon);
+  Engine.setTimeRate(rate);
+  Renderer.init(fakeSceneObject(), fakeSceneObject(), {}, {}, null);
+
+  return {
+    Settings, SkyCultures, Engine, Renderer, Astro, STAR_ARRAYS, HIP_TO_INDEX,
+    starBuilder: builders[0],
+    lineBuilder: builders[1],
+  };
+}
+
+/**
+ * The per-frame star work as it was before the struct-of-arrays buffers:
+ * two tuples per star for the transform, a color tuple per star and a new
+ * array for every vertex written.
+ */
+function makeTupleFrame(env) {
+  const { Engine, Astro, STAR_ARRAYS, HIP_TO_INDEX, SkyCultures, Settings } = env;
+  const positions = [];
+  for (let i = 0; i < STAR_ARRAYS.count; i++) {
+    positions.push({ x: 0, y: 0, z: 0, mag: STAR_ARRAYS.mag[i], bv: STAR_ARRAYS.bv[i], extinction: 0 });
+  }
+  const starBuilder = new FakeMeshBuilder([{ components: 9 }]);
+  starBuilder.appendVerticesInterleaved(new Array(STAR_ARRAYS.count * 4 * 9).fill(0));
+  const lineBuilder = new FakeMeshBuilder([{ components: 7 }]);
+  let segments = 0;
+  for (const c of SkyCultures.getConstellations()) segments += c.lines.length;
+  lineBuilder.appendVerticesInterleaved(new Array(segments * 2 * 7).fill(0));
+
+  return function frame() {
+    now += FRAME_SECONDS * 1000;
+    Engine.advanceClock(FRAME_SECONDS);
+    const jd = Astro.julianDate(Engine.getSimDate());
+    const lst = Astro.localSiderealTime(Astro.gmst(jd), OBSERVER.lon * (Math.PI / 180));
+    const lat = OBSERVER.lat * (Math.PI / 180);
+    const radius = Engine.getSphereRadius();
+
+    for (let i = 0; i < positions.length; i++) {
+      const [trueAlt, az] = Astro.equatorialToHorizontal(STAR_ARRAYS.ra[i], STAR_ARRAYS.dec[i], lst, lat);
+      const alt = Engine.refractAltitude(trueAlt);
+      const [x, y, z] = Astro.horizontalToCartesian(alt, az, radius);
+      const sp = positions[i];
+      sp.x = x;
+      sp.y = y;
+      sp.z = z;
+      sp.extinction = Astro.extinction(alt, 0.25);
+    }
+
+    const limitingMag = Engine.getLimitingMagnitude();
+    for (let i = 0; i < positions.length; i++) {
+      const sp = positions[i];
+      const [r, g, b] = Astro.bvToColor(sp.bv);
+      const mag = sp.mag + sp.extinction;
+      const alpha = sp.y >= 0 ? Astro.magnitudeToAlpha(mag) * Math.max(0, Math.min(1, (limitingMag - mag) / 0.5)) : 0;
+      for (let k = 0; k < 4; k++) {
+        starBuilder.setVertexInterleaved(i * 4 + k, [sp.x, sp.y, sp.z, r, g, b, alpha, 0.5, 0.5]);
+      }
+    }
+    starBuilder.updateMesh();
+
+    const lineColor = Settings.getColor("lineColor");
+    let v = 0;
+    for (const c of SkyCultures.getConstellations()) {
+      for (const pair of c.lines) {
+        const idx1 = HIP_TO_INDEX.get(pair[0]);
+        const idx2 = HIP_TO_INDEX.get(pair[1]);
+        if (idx1 !== undefined && idx2 !== undefined) {
+          const s1 = positions[idx1];
+          const s2 = positions[idx2];
+          const [cr, cg, cb] = lineColor;
+          lineBuilder.setVertexInterleaved(v, [s1.x, s1.y, s1.z, cr, cg, cb, 0.35]);
+          lineBuilder.setVertexInterleaved(v + 1, [s2.x, s2.y, s2.z, cr, cg, cb, 0.35]);
+        } else {
+          lineBuilder.setVertexInterleaved(v, [0, 0, 0, 0, 0, 0, 0]);
+          lineBuilder.setVertexInterleaved(v + 1, [0, 0, 0, 0, 0, 0, 0]);
+        }
+        v += 2;
+      }
+    }
+    lineBuilder.updateMesh();
+    return starBuilder.uploads + lineBuilder.uploads;
+  };
+}
+
+function makeBufferFrame(env) {
+  const { Engine, Renderer, starBuilder, lineBuilder } = env;
+  return function frame() {
+    now += FRAME_SECONDS * 1000;
+    Engine.advanceClock(FRAME_SECONDS);
+    Engine.updateStarPositions();
+    Renderer.updateMeshes();
+    return starBuilder.uploads + lineBuilder.uploads;
+  };
+}
+
+/**
+ * Mean milliseconds per frame, garbage collections and mesh uploads over FRAMES.
+ */
+function measure(frame) {
+  for (let i = 0; i < WARMUP_FRAMES; i++) frame();
+
+  let gcCount = 0;
+  let gcMs = 0;
+  const observer = new PerformanceObserver((list) => {
+    for (const entry of list.getEntries()) {
+      gcCount++;
+      gcMs += entry.duration;
+    }
+  });
+  observer.observe({ entryTypes: ["gc"] });
+
+  const uploadsBefore = frame();
+  const start = process.hrtime.bigint();
+  let uploads = 0;
+  for (let i = 0; i < FRAMES; i++) uploads = frame();
+  const ms = Number(process.hrtime.bigint() - start) / 1e6;
+
+  // GC entries are delivered asynchronously, after the next timer
+  return new Promise((resolve) => {
+    setTimeout(() => {
+      observer.disconnect();
+      resolve({ ms: ms / FRAMES, gcCount, gcMs, uploads: uploads - uploadsBefore });
+    }, 20);
+  });
+}
+
+/**
+ * Largest difference between the batch transform and the scalar one, in radians.
+ */
+function checkTransform(Astro, random) {
+  const count = 20000;
+  const ra = new Float64Array(count);
+  const sinDec = new Float64Array(count);
+  const cosDec = new Float64Array(count);
+  const dec = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    ra[i] = random() * 2 * Math.PI;
+    dec[i] = Math.asin(2 * random() - 1);
+    sinDec[i] = Math.sin(dec[i]);
+    cosDec[i] = Math.cos(dec[i]);
+  }
+  const alt = new Float32Array(count);
+  const az = new Float32Array(count);
+  const lst = 1.234;
+  const lat = 0.85;
+  Astro.equatorialToHorizontalArrays(ra, sinDec, cosDec, count, lst, lat, alt, az);
+
+  let maxError = 0;
+  for (let i = 0; i < count; i++) {
+    const [a, z] = Astro.equatorialToHorizontal(ra[i], dec[i], lst, lat);
+    let dz = Math.abs(az[i] - z);
+    dz = Math.min(dz, 2 * Math.PI - dz) * Math.cos(a); // azimuth error on the sky
+    maxError = Math.max(maxError, Math.abs(alt[i] - a), dz);
+  }
+  return maxError;
+}
+
+function row(label, mode, result) {
+  return "| " + label + " | " + mode +
+    " | " + result.ms.toFixed(2) + " ms" +
+    " | " + result.gcCount + " (" + result.gcMs.toFixed(1) + " ms)" +
+    " | " + result.uploads + " |";
+}
+
+async function main() {
+  installLensGlobals();
+  const random = makeRandom(20240601);
+  const base = makeLoader({});
+  const StarCatalog = base("StarCatalog");
+  const maxError = checkTransform(base("AstroMath"), random);
+  if (maxError > 1e-6) {
+    throw new Error("Batch transform differs from equatorialToHorizontal by " + maxError + " rad");
+  }
+
+  const catalogs = [
+    { label: base("StarData").STAR_ARRAYS.count.toLocaleString("en-US") + " (shipped catalog)", overrides: {} },
+    { label: "9,000 (synthetic)", overrides: { StarData: syntheticStarData(StarCatalog, 9000, random) } },
+    { label: "16,000 (synthetic)", overrides: { StarData: syntheticStarData(StarCatalog, 16000, random) } },
+  ];
+
+  console.log("Node " + process.version + ", " + require("os").cpus()[0].model);
+  console.log(
+    FRAMES + " frames at 60 fps; batch transform within " +
+    (maxError * 206265).toFixed(3) + "\" of equatorialToHorizontal()\n"
+  );
+  console.log("| Stars | Path | Per frame | GCs | Uploads |");
+  console.log("|---|---|---|---|---|");
+
+  for (const cat of catalogs) {
+    // Clock at 60x, so the sky turns on every frame
+    console.log(row(cat.label, "tuples, 60x", await measure(makeTupleFrame(setUp(cat.overrides, 60)))));
+    console.log(row(cat.label, "buffers, 60x", await measure(makeBufferFrame(setUp(cat.overrides, 60)))));
+    // Real time: positions change about every 4th frame (see POSITION_UPDATE_MIN_TURN_RAD)
+    console.log(row(cat.label, "buffers, 1x", await measure(makeBufferFrame(setUp(cat.overrides, 1)))));
+    console.log(row(cat.label, "buffers, paused", await measure(makeBufferFrame(setUp(cat.overrides, 0)))));
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -2,16 +2,23 @@
 /**
  * generate-star-data.js
  *
- * Downloads the HYG star catalog and Stellarium constellation data,
- * then generates TypeScript data files for the Sky Guide AR app.
+ * Reads (or downloads) the HYG star catalog and Stellarium constellation data,
+ * reads the offline sky cultures, figure stars, deep-sky and city lists and IAU
+ * boundaries in tools/data/, then generates TypeScript data files for the Sky Guide AR app.
+ * The output depends only on the inputs and options (no timestamps), and
+ * sources are checked against the SHA-256 sums pinned in tools/data/checksums.json.
  *
- * Usage: node tools/generate-star-data.js
+ * Usage: node tools/generate-star-data.js [options]   (--help lists them)
  *
  * Outputs:
  *   Assets/Scripts/SkyGuide/StarData.ts
  *   Assets/Scripts/SkyGuide/ConstellationData.ts
+ *   Assets/Scripts/SkyGuide/DeepSkyData.ts
+ *   Assets/Scripts/SkyGuide/CityData.ts
+ *   Assets/Scripts/SkyGuide/BoundaryData.ts
  */
 
+const crypto = require("crypto");
 const https = require("https");
 const http = require("http");
 const fs = require("fs");
@@ -25,6 +32,31 @@ const OUTPUT_DIR = path.join(
   "SkyGuide"
 );
 
+// Offline inputs (--data-dir); the *_INPUT file names below are relative to it,
+// and double as the source names checksums are pinned under
+const DATA_DIR = path.join(__dirname, "data");
+
+// Pinned SHA-256 of the source files, by source name (see --update-checksums)
+const CHECKSUMS_INPUT = "checksums.json";
+
+// Optional StarData.ts columns (--fields); hip, RA, Dec and magnitude are always written
+const STAR_FIELDS = ["bv", "name", "con", "pm"];
+
+// Packed StarData.ts layout: [field, bytes per star, signed], stored field by
+// field. RA and Dec are quantized to 2^24 steps, magnitude and B-V to 0.01,
+// proper motions to 0.5 mas/yr. Assets/Scripts/SkyGuide/StarCatalog.ts decodes it.
+const STAR_FIELD_BYTES = [
+  ["hip", 3, false],
+  ["ra", 3, false],
+  ["dec", 3, false],
+  ["mag", 2, true],
+  ["bv", 2, true],
+  ["pmra", 2, true],
+  ["pmdec", 2, true],
+  ["name", 2, false],
+  ["con", 1, false],
+];
+
 // HYG v41 database CSV (GitHub raw)
 const HYG_URL =
   "https://raw.githubusercontent.com/astronexus/HYG-Database/main/hyg/CURRENT/hygdata_v41.csv";
@@ -33,7 +65,95 @@ const HYG_URL =
 const CONSTELLATION_URL =
   "https://raw.githubusercontent.com/Stellarium/stellarium-skycultures/master/western/index.json";
 
+// Offline Stellarium sky cultures: <data dir>/skycultures/<id>/index.json.
+// A local western/index.json is used instead of downloading it.
+const SKYCULTURE_DIR = path.join(DATA_DIR, "skycultures");
+const DEFAULT_CULTURE = "western";
+
+// Display names for the cultures in stellarium-skycultures (others are capitalized)
+const CULTURE_NAMES = {
+  western: "Western",
+  chinese: "Chinese",
+  polynesian: "Polynesian",
+  norse: "Norse",
+  egyptian: "Egyptian",
+  arabic_moon_stations: "Arabic lunar stations",
+  aztec: "Aztec",
+  hawaiian_starlines: "Hawaiian starlines",
+  inuit: "Inuit",
+  korean: "Korean",
+  lakota: "Lakota",
+  maori: "Māori",
+  navajo: "Navajo",
+  sami: "Sámi",
+  tukano: "Tukano",
+};
+
+// XHIP positions of every figure star (d3-celestial's GeoJSON star format, see
+// tools/import-d3-celestial.js), for figure stars the star catalog lacks
+const FIGURE_STARS_INPUT = "figure-stars.json";
+
+// Offline deep-sky object list (Messier, Caldwell, bright NGC/IC)
+const DSO_INPUT = "deep-sky.csv";
+
+// Offline gazetteer: GeoNames cities15000.txt (country names from
+// countryInfo.txt, else country-names.csv) when present, otherwise the
+// curated cities.csv
+const GEONAMES_CITIES_INPUT = "cities15000.txt";
+const GEONAMES_COUNTRIES_INPUT = "countryInfo.txt";
+const COUNTRY_NAMES_INPUT = "country-names.csv";
+const CITIES_INPUT = "cities.csv";
+// GeoNames cities kept: this populous, or among their country's largest few
+const CITY_MIN_POPULATION = 100000;
+const CITIES_PER_COUNTRY = 3;
+
+// Offline IAU constellation boundaries: VizieR VI/49 constbnd.dat
+// ("RA_hours Dec_deg ABBR" per vertex, B1875, one polygon per run of rows),
+// else d3-celestial's GeoJSON copy of VI/49 (J2000 vertices, precessed back)
+const BOUNDARY_INPUT = "constbnd.dat";
+const BOUNDARY_GEOJSON_INPUT = "constellations.bounds.json";
+const B1875_JD = 2405889.258550475;
+// Overlay edges are cut into pieces about this long; every other piece is drawn
+const BOUNDARY_DASH_DEG = 1.0;
+
 const MAG_LIMIT = 5.0;
+// A figure needs at least one line whose stars are both this bright (the
+// brightest limiting magnitude the app's settings allow)
+const VISIBLE_MAG_LIMIT = 6.5;
+
+const USAGE = `Usage: node tools/generate-star-data.js [options]
+
+  --hyg FILE            read the HYG v41 CSV from FILE instead of downloading it
+  --data-dir DIR        offline inputs: deep-sky, cities, boundaries, figure stars,
+                        skycultures/ and checksums.json (default tools/data)
+  --rebuild             take the stars and Western figures from the StarData.ts /
+                        ConstellationData.ts in --out-dir instead of HYG and Stellarium
+  --skycultures DIR     sky cultures as DIR/<id>/index.json (default <data dir>/skycultures)
+  --offline             fail instead of downloading a missing source, or on an unpinned one
+  --mag-limit MAG       faintest star written besides figure stars (default ${MAG_LIMIT})
+  --out-dir DIR         where to write the .ts files (default Assets/Scripts/SkyGuide)
+  --fields LIST         optional star columns, comma-separated: ${STAR_FIELDS.join(",")} (default all)
+  --min-population N    GeoNames cities kept besides each country's ${CITIES_PER_COUNTRY} largest (default ${CITY_MIN_POPULATION})
+  --checksums FILE      pinned source checksums (default <data dir>/checksums.json)
+  --update-checksums    pin the checksums of the sources read in this run
+  --check               compare with the files in --out-dir instead of writing; exit 1 if they
+                        differ (unpinned sources are errors, as with --offline)
+  --validate            only check the StarData.ts / ConstellationData.ts in --out-dir
+  --help                show this help`;
+
+// A constellation's label stays at its centroid unless that is farther than this
+// fraction of the figure's radius from every line (e.g. inside a ring or an arc)
+const LABEL_MAX_GAP = 0.35;
+
+// deep-sky.csv type codes -> DeepSkyType in Types.ts
+const DSO_TYPES = {
+  GX: "galaxy",
+  GC: "globularCluster",
+  OC: "openCluster",
+  EN: "nebula",
+  PN: "planetaryNebula",
+  SNR: "supernovaRemnant",
+};
 
 function fetchUrl(url) {
   return new Promise((resolve, reject) => {
@@ -89,7 +209,10 @@ function parseCSVLine(line) {
   return fields;
 }
 
-function parseHYG(csv) {
+/**
+ * Stars with a HIP number and magnitude <= magLimit, brightest first.
+ */
+function parseHYG(csv, magLimit = MAG_LIMIT) {
   const lines = csv.split("\n");
   const headers = parseCSVLine(lines[0]);
 
@@ -106,7 +229,7 @@ function parseHYG(csv) {
     if (cols.length < 10) continue;
 
     const mag = parseFloat(cols[idx["mag"]]);
-    if (isNaN(mag) || mag > MAG_LIMIT) continue;
+    if (isNaN(mag) || mag > magLimit) continue;
 
     const hip = parseInt(cols[idx["hip"]], 10);
     if (isNaN(hip) || hip <= 0) continue;
@@ -118,6 +241,9 @@ function parseHYG(csv) {
     const bv = parseFloat(cols[idx["ci"]]) || 0;
     const proper = (cols[idx["proper"]] || "").trim();
     const con = (cols[idx["con"]] || "").trim();
+    // HYG proper motions are in milliarcseconds/year; pmra already includes cos(dec)
+    const pmra = parseFloat(cols[idx["pmra"]]) || 0;
+    const pmdec = parseFloat(cols[idx["pmdec"]]) || 0;
 
     stars.push({
       hip,
@@ -127,11 +253,41 @@ function parseHYG(csv) {
       bv: Math.round(bv * 100) / 100,
       name: proper,
       con,
+      pmra: Math.round(pmra * 100) / 100,
+      pmdec: Math.round(pmdec * 100) / 100,
     });
   }
 
-  // Sort by magnitude (brightest first)
-  stars.sort((a, b) => a.mag - b.mag);
+  // Sort by magnitude (brightest first), ties by HIP so the order is reproducible
+  stars.sort((a, b) => a.mag - b.mag || a.hip - b.hip);
+  return stars;
+}
+
+/**
+ * Stars from d3-celestial's GeoJSON star files (XHIP: id = HIP, J2000,
+ * longitude = RA in degrees), brightest first, as parseHYG() returns them but
+ * without names, constellations or proper motions.
+ */
+function parseStarGeoJSON(text) {
+  const stars = [];
+  for (const feature of JSON.parse(text).features) {
+    const hip = parseInt(feature.id, 10);
+    const mag = parseFloat(feature.properties.mag);
+    if (isNaN(hip) || hip <= 0 || isNaN(mag)) continue;
+    const [lon, lat] = feature.geometry.coordinates;
+    stars.push({
+      hip,
+      ra: (lon < 0 ? lon + 360 : lon) * (Math.PI / 180),
+      dec: lat * (Math.PI / 180),
+      mag: Math.round(mag * 100) / 100,
+      bv: Math.round((parseFloat(feature.properties.bv) || 0) * 100) / 100,
+      name: "",
+      con: "",
+      pmra: 0,
+      pmdec: 0,
+    });
+  }
+  stars.sort((a, b) => a.mag - b.mag || a.hip - b.hip);
   return stars;
 }
 
@@ -141,21 +297,28 @@ function parseHYG(csv) {
  * means hip1-hip2, hip2-hip3, hip4-hip5
  * We convert to pairs: [[hip1,hip2], [hip2,hip3], [hip4,hip5]]
  */
-function parseConstellationJSON(jsonText, starsByHip) {
+function parseConstellationJSON(jsonText, starsByHip, culture = DEFAULT_CULTURE) {
   const data = JSON.parse(jsonText);
   const constellations = [];
 
   for (const entry of data.constellations || []) {
-    const abbr = entry.iau || "";
+    // IAU abbreviation, or the last part of the id ("CON chinese 042") for
+    // figures that are not IAU constellations
+    const abbr = entry.iau || (entry.id || "").split(" ").pop();
     if (!abbr) continue;
 
-    const name = (entry.common_name && entry.common_name.native) ||
-                 (entry.common_name && entry.common_name.english) ||
-                 abbr;
+    // Latin names for the IAU figures; English for other cultures, whose
+    // native names may be in scripts the lens font can't show
+    const cn = entry.common_name || {};
+    const name = (culture === DEFAULT_CULTURE
+      ? cn.native || cn.english
+      : cn.english || cn.native) || abbr;
 
     // Convert polyline chains to pairs
     const segments = [];
-    for (const chain of entry.lines || []) {
+    for (const rawChain of entry.lines || []) {
+      // Newer files mix style markers ("thin", "bold") into the HIP chains
+      const chain = rawChain.filter((h) => typeof h === "number");
       for (let i = 0; i + 1 < chain.length; i++) {
         const h1 = chain[i];
         const h2 = chain[i + 1];
@@ -167,73 +330,775 @@ function parseConstellationJSON(jsonText, starsByHip) {
 
     if (segments.length === 0) continue;
 
-    // Compute centroid from member stars
-    const uniqueHips = new Set();
-    for (const [h1, h2] of segments) {
-      uniqueHips.add(h1);
-      uniqueHips.add(h2);
+    constellations.push(Object.assign(
+      { culture, abbr, name, lines: segments },
+      figureGeometry(segments, starsByHip)
+    ));
+  }
+
+  return constellations;
+}
+
+/**
+ * Centroid, angular radius and label anchor of a figure from its catalog stars.
+ * The centroid is the normalized mean unit vector (safe across RA 0h and the
+ * poles), the radius the largest distance from it to a member star. The label
+ * anchor is the centroid, or — when that lies far from every line — the point
+ * LABEL_MAX_GAP × radius from the nearest line, toward the centroid.
+ */
+function figureGeometry(segments, starsByHip) {
+  const round = (v) => Math.round(v * 10000) / 10000;
+  const ends = [];
+  const members = new Map();
+  for (const [h1, h2] of segments) {
+    const s1 = starsByHip.get(h1);
+    const s2 = starsByHip.get(h2);
+    if (s1) members.set(h1, toVector(s1.ra, s1.dec));
+    if (s2) members.set(h2, toVector(s2.ra, s2.dec));
+    if (s1 && s2) ends.push([members.get(h1), members.get(h2)]);
+  }
+  if (members.size === 0) {
+    return { centroidRA: 0, centroidDec: 0, radius: 0, labelRA: 0, labelDec: 0 };
+  }
+
+  let sum = [0, 0, 0];
+  for (const v of members.values()) {
+    sum = [sum[0] + v[0], sum[1] + v[1], sum[2] + v[2]];
+  }
+  const centroid = normalize(sum);
+  let radius = 0;
+  for (const v of members.values()) {
+    radius = Math.max(radius, angleBetween(centroid, v));
+  }
+
+  // Nearest point on the figure's lines (great-circle arcs) to the centroid
+  let nearest = null, gap = Infinity;
+  for (const [a, b] of ends) {
+    const p = nearestOnArc(centroid, a, b);
+    const d = angleBetween(centroid, p);
+    if (d < gap) {
+      gap = d;
+      nearest = p;
     }
+  }
+  let anchor = centroid;
+  const maxGap = LABEL_MAX_GAP * radius;
+  if (nearest && gap > maxGap) {
+    // Slerp from the line toward the centroid by maxGap
+    const t = maxGap / gap;
+    const w1 = Math.sin((1 - t) * gap) / Math.sin(gap);
+    const w2 = Math.sin(t * gap) / Math.sin(gap);
+    anchor = normalize([
+      nearest[0] * w1 + centroid[0] * w2,
+      nearest[1] * w1 + centroid[1] * w2,
+      nearest[2] * w1 + centroid[2] * w2,
+    ]);
+  }
 
-    let sumRA = 0, sumDec = 0, count = 0;
-    for (const h of uniqueHips) {
-      const star = starsByHip.get(h);
-      if (star) {
-        sumRA += star.ra;
-        sumDec += star.dec;
-        count++;
-      }
+  const [centroidRA, centroidDec] = fromVector(centroid);
+  const [labelRA, labelDec] = fromVector(anchor);
+  return {
+    centroidRA: round(centroidRA),
+    centroidDec: round(centroidDec),
+    radius: round(radius),
+    labelRA: round(labelRA),
+    labelDec: round(labelDec),
+  };
+}
+
+/**
+ * Point of the shorter great-circle arc a–b closest to p (all unit vectors).
+ */
+function nearestOnArc(p, a, b) {
+  const n = normalize(cross(a, b));
+  if (!isFinite(n[0])) return a; // a and b coincide
+  const pn = dot(p, n);
+  const q = normalize([p[0] - n[0] * pn, p[1] - n[1] * pn, p[2] - n[2] * pn]);
+  // q lies on the arc if it is between a and b
+  if (dot(cross(a, q), n) >= 0 && dot(cross(q, b), n) >= 0) return q;
+  return angleBetween(p, a) < angleBetween(p, b) ? a : b;
+}
+
+function toVector(ra, dec) {
+  return [Math.cos(dec) * Math.cos(ra), Math.cos(dec) * Math.sin(ra), Math.sin(dec)];
+}
+
+function fromVector(v) {
+  let ra = Math.atan2(v[1], v[0]);
+  if (ra < 0) ra += 2 * Math.PI;
+  return [ra, Math.asin(Math.max(-1, Math.min(1, v[2])))];
+}
+
+function normalize(v) {
+  const len = Math.sqrt(dot(v, v));
+  return [v[0] / len, v[1] / len, v[2] / len];
+}
+
+function dot(a, b) {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a, b) {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function angleBetween(a, b) {
+  return Math.atan2(Math.sqrt(dot(cross(a, b), cross(a, b))), dot(a, b));
+}
+
+/**
+ * Parse "hh:mm.m" or "+dd:mm" into decimal hours / degrees.
+ */
+function parseSexagesimal(text) {
+  const str = text.trim();
+  const sign = str.startsWith("-") ? -1 : 1;
+  const parts = str.replace(/^[+-]/, "").split(":").map(parseFloat);
+  let value = 0;
+  for (let i = parts.length - 1; i >= 0; i--) {
+    value = parts[i] + value / 60;
+  }
+  return sign * value;
+}
+
+/**
+ * Parse the offline deep-sky CSV (see header of tools/data/deep-sky.csv).
+ * Surface brightness is derived as mag + 2.5·log10(π/4 · a · b), in mag/arcmin².
+ */
+function parseDeepSkyCSV(csv) {
+  const lines = csv.split("\n").filter((l) => l.trim() && !l.startsWith("#"));
+  const headers = parseCSVLine(lines[0]).map((h) => h.trim());
+  const idx = {};
+  headers.forEach((h, i) => (idx[h] = i));
+
+  const objects = [];
+  for (let i = 1; i < lines.length; i++) {
+    const cols = parseCSVLine(lines[i]);
+    const type = DSO_TYPES[(cols[idx["type"]] || "").trim()];
+    if (!type) {
+      console.log(`  Skipping line ${i + 1}: unknown type "${cols[idx["type"]]}"`);
+      continue;
     }
 
-    const centroidRA = count > 0 ? sumRA / count : 0;
-    const centroidDec = count > 0 ? sumDec / count : 0;
+    const raHours = parseSexagesimal(cols[idx["ra"]]);
+    const decDeg = parseSexagesimal(cols[idx["dec"]]);
+    const mag = parseFloat(cols[idx["mag"]]);
+    const major = parseFloat(cols[idx["major_arcmin"]]);
+    const minor = parseFloat(cols[idx["minor_arcmin"]]) || major;
+    if (isNaN(raHours) || isNaN(decDeg) || isNaN(mag) || isNaN(major)) continue;
+
+    const surfaceBrightness = mag + 2.5 * Math.log10((Math.PI / 4) * major * minor);
 
-    constellations.push({
-      abbr,
-      name,
-      lines: segments,
-      centroidRA: Math.round(centroidRA * 10000) / 10000,
-      centroidDec: Math.round(centroidDec * 10000) / 10000,
+    objects.push({
+      id: cols[idx["id"]].trim(),
+      name: (cols[idx["name"]] || "").trim(),
+      type,
+      ra: raHours * (Math.PI / 12),
+      dec: decDeg * (Math.PI / 180),
+      mag,
+      major,
+      minor,
+      surfaceBrightness: Math.round(surfaceBrightness * 10) / 10,
+      con: (cols[idx["con"]] || "").trim(),
+      ngc: (cols[idx["ngc"]] || "").trim(),
     });
   }
 
-  return constellations;
+  return objects;
 }
 
-function generateStarDataTS(stars) {
-  let out = `// StarData.ts — Auto-generated from HYG v41 database\n`;
-  out += `// ${stars.length} stars with magnitude <= ${MAG_LIMIT}\n`;
-  out += `// Generated: ${new Date().toISOString()}\n\n`;
-  out += `import { StarRecord } from './Types';\n\n`;
-  out += `// Format: [hip, ra_rad, dec_rad, mag, bv, name, constellation]\n`;
-  out += `const RAW: [number, number, number, number, number, string, string][] = [\n`;
+/**
+ * Parse the curated city CSV (see header of tools/data/cities.csv).
+ */
+function parseCitiesCSV(csv) {
+  const lines = csv.split("\n").filter((l) => l.trim() && !l.startsWith("#"));
+  const headers = parseCSVLine(lines[0]).map((h) => h.trim());
+  const idx = {};
+  headers.forEach((h, i) => (idx[h] = i));
+
+  const cities = [];
+  for (let i = 1; i < lines.length; i++) {
+    const cols = parseCSVLine(lines[i]);
+    const lat = parseFloat(cols[idx["lat"]]);
+    const lon = parseFloat(cols[idx["lon"]]);
+    if (isNaN(lat) || isNaN(lon)) continue;
 
+    cities.push({
+      name: cols[idx["name"]].trim(),
+      country: cols[idx["country"]].trim(),
+      lat,
+      lon,
+      elevation: parseFloat(cols[idx["elevation_m"]]) || 0,
+      timezone: (cols[idx["timezone"]] || "").trim(),
+      population: parseInt(cols[idx["population"]], 10) || 0,
+    });
+  }
+
+  return cities;
+}
+
+/**
+ * Parse a GeoNames cities dump (tab-separated, no header). Elevation falls
+ * back to the DEM column when the surveyed one is empty.
+ * @param countryNames — ISO code -> country name (codes are used when missing)
+ */
+function parseGeoNamesCities(text, countryNames) {
+  const cities = [];
+  for (const line of text.split("\n")) {
+    const cols = line.split("\t");
+    if (cols.length < 19) continue;
+
+    const lat = parseFloat(cols[4]);
+    const lon = parseFloat(cols[5]);
+    if (isNaN(lat) || isNaN(lon)) continue;
+
+    const elevation = parseFloat(cols[15]);
+    const dem = parseFloat(cols[16]);
+    cities.push({
+      name: cols[2] || cols[1],
+      country: countryNames[cols[8]] || cols[8],
+      lat,
+      lon,
+      elevation: !isNaN(elevation) ? elevation : (!isNaN(dem) && dem > -9999 ? dem : 0),
+      timezone: cols[17],
+      population: parseInt(cols[14], 10) || 0,
+    });
+  }
+  return cities;
+}
+
+/**
+ * ISO country code -> name from tools/data/country-names.csv ("code,name").
+ */
+function parseCountryNamesCSV(csv) {
+  const names = {};
+  const lines = csv.split("\n").filter((l) => l.trim() && !l.startsWith("#"));
+  for (let i = 1; i < lines.length; i++) {
+    const [code, name] = parseCSVLine(lines[i]).map((c) => c.trim());
+    if (code && name) names[code] = name;
+  }
+  return names;
+}
+
+/**
+ * The gazetteer entries worth listing: every city of at least minPopulation,
+ * plus each country's perCountry largest so small countries still appear.
+ */
+function selectCities(cities, minPopulation = CITY_MIN_POPULATION, perCountry = CITIES_PER_COUNTRY) {
+  const byCountry = new Map();
+  for (const c of cities) {
+    if (!byCountry.has(c.country)) byCountry.set(c.country, []);
+    byCountry.get(c.country).push(c);
+  }
+  const selected = [];
+  for (const list of byCountry.values()) {
+    list.sort((a, b) => b.population - a.population || a.name.localeCompare(b.name));
+    list.forEach((c, i) => {
+      if (i < perCountry || c.population >= minPopulation) selected.push(c);
+    });
+  }
+  return selected;
+}
+
+/**
+ * ISO country code -> name from GeoNames countryInfo.txt.
+ */
+function parseGeoNamesCountries(text) {
+  const names = {};
+  for (const line of text.split("\n")) {
+    if (line.startsWith("#")) continue;
+    const cols = line.split("\t");
+    if (cols.length > 4) names[cols[0]] = cols[4];
+  }
+  return names;
+}
+
+/**
+ * Parse constbnd.dat into B1875 polygons (radians). Rows list each polygon's
+ * vertices in order; Serpens comes as SER1 / SER2 and both map to "Ser".
+ * @param abbrs — catalog abbreviations, used for their capitalization ("CVn")
+ */
+function parseBoundaries(text, abbrs) {
+  const byKey = new Map(abbrs.map((a) => [a.toUpperCase(), a]));
+  const polygons = [];
+  let current = null;
+  let currentKey = "";
+
+  for (const line of text.split("\n")) {
+    const cols = line.trim().split(/\s+/);
+    if (cols.length < 3) continue;
+    const raHours = parseFloat(cols[0]);
+    const decDeg = parseFloat(cols[1]);
+    if (isNaN(raHours) || isNaN(decDeg)) continue;
+
+    const key = cols[2].toUpperCase();
+    if (!current || key !== currentKey) {
+      const base = key.replace(/\d+$/, "");
+      const abbr = byKey.get(base) || base.charAt(0) + base.slice(1).toLowerCase();
+      current = { abbr, ra: [], dec: [] };
+      currentKey = key;
+      polygons.push(current);
+    }
+    current.ra.push(raHours * 15 * Math.PI / 180);
+    current.dec.push(decDeg * Math.PI / 180);
+  }
+
+  // Drop an explicit closing vertex
+  for (const p of polygons) {
+    const n = p.ra.length;
+    if (n > 1 && p.ra[0] === p.ra[n - 1] && p.dec[0] === p.dec[n - 1]) {
+      p.ra.pop();
+      p.dec.pop();
+    }
+  }
+  return polygons;
+}
+
+/**
+ * Parse d3-celestial's constellations.bounds.json (the VI/49 polygons as
+ * GeoJSON, J2000, longitude = RA in degrees) into B1875 polygons like
+ * parseBoundaries(). Both Serpens halves have the id "Ser".
+ * @param abbrs — catalog abbreviations, used for their capitalization ("CVn")
+ */
+function parseBoundaryGeoJSON(text, abbrs) {
+  const byKey = new Map(abbrs.map((a) => [a.toUpperCase(), a]));
+  const toB1875 = precessionMatrix(B1875_JD);
+  const polygons = [];
+
+  for (const feature of JSON.parse(text).features) {
+    const abbr = byKey.get(feature.id.toUpperCase()) || feature.id;
+    for (const ring of feature.geometry.coordinates) {
+      const p = { abbr, ra: [], dec: [] };
+      for (const [lon, lat] of ring) {
+        const [ra, dec] = rotateEquatorial(toB1875, lon * Math.PI / 180, lat * Math.PI / 180, false);
+        p.ra.push(ra);
+        p.dec.push(dec);
+      }
+      // GeoJSON rings repeat their first vertex at the end
+      p.ra.pop();
+      p.dec.pop();
+      polygons.push(p);
+    }
+  }
+  return polygons;
+}
+
+/**
+ * IAU 2006 precession matrix J2000 -> mean equator of jd (row-major), as in AstroMath.ts.
+ */
+function precessionMatrix(jd) {
+  const arcsec = Math.PI / (180 * 3600);
+  const T = (jd - 2451545.0) / 36525;
+  const zeta = (2.650545 + T * (2306.083227 + T * (0.2988499 +
+    T * (0.01801828 + T * (-0.000005971 + T * -0.0000003173))))) * arcsec;
+  const z = (-2.650545 + T * (2306.077181 + T * (1.0927348 +
+    T * (0.01826837 + T * (-0.000028596 + T * -0.0000002904))))) * arcsec;
+  const theta = T * (2004.191903 + T * (-0.4294934 +
+    T * (-0.04182264 + T * (-0.000007089 + T * -0.0000001274)))) * arcsec;
+
+  const rotZ = (a) => [Math.cos(a), Math.sin(a), 0, -Math.sin(a), Math.cos(a), 0, 0, 0, 1];
+  const rotY = (a) => [Math.cos(a), 0, -Math.sin(a), 0, 1, 0, Math.sin(a), 0, Math.cos(a)];
+  const mul = (a, b) => {
+    const m = new Array(9);
+    for (let r = 0; r < 3; r++) {
+      for (let c = 0; c < 3; c++) {
+        m[r * 3 + c] = a[r * 3] * b[c] + a[r * 3 + 1] * b[3 + c] + a[r * 3 + 2] * b[6 + c];
+      }
+    }
+    return m;
+  };
+  return mul(rotZ(-z), mul(rotY(theta), rotZ(-zeta)));
+}
+
+/**
+ * RA/Dec (radians) rotated by a row-major matrix, or by its transpose.
+ * @returns [ra in [0, 2π), dec]
+ */
+function rotateEquatorial(m, ra, dec, transpose) {
+  const x = Math.cos(dec) * Math.cos(ra), y = Math.cos(dec) * Math.sin(ra), z = Math.sin(dec);
+  const t = transpose ? [m[0], m[3], m[6], m[1], m[4], m[7], m[2], m[5], m[8]] : m;
+  const vx = t[0] * x + t[1] * y + t[2] * z;
+  const vy = t[3] * x + t[4] * y + t[5] * z;
+  const vz = t[6] * x + t[7] * y + t[8] * z;
+  const outRA = Math.atan2(vy, vx);
+  return [outRA < 0 ? outRA + 2 * Math.PI : outRA, Math.atan2(vz, Math.sqrt(vx * vx + vy * vy))];
+}
+
+/**
+ * Dashed overlay segments for the boundary polygons: each shared edge once,
+ * cut along its B1875 meridian or parallel, then precessed to J2000.
+ * @returns flat [ra1, dec1, ra2, dec2, ...] in radians, one group per dash
+ */
+function boundaryDashes(polygons) {
+  // J2000 = P(B1875)^T · B1875
+  const m = precessionMatrix(B1875_JD);
+  const toJ2000 = (ra, dec) => rotateEquatorial(m, ra, dec, true);
+  const wrap = (a) => a - 2 * Math.PI * Math.round(a / (2 * Math.PI));
+  const vertexKey = (ra, dec) => `${ra.toFixed(6)},${dec.toFixed(6)}`;
+
+  const seen = new Set();
+  const dashes = [];
+  for (const p of polygons) {
+    const n = p.ra.length;
+    for (let i = 0; i < n; i++) {
+      const j = (i + 1) % n;
+      const k1 = vertexKey(p.ra[i], p.dec[i]);
+      const k2 = vertexKey(p.ra[j], p.dec[j]);
+      const edgeKey = k1 < k2 ? k1 + "|" + k2 : k2 + "|" + k1;
+      if (k1 === k2 || seen.has(edgeKey)) continue;
+      seen.add(edgeKey);
+
+      const dRA = wrap(p.ra[j] - p.ra[i]);
+      const dDec = p.dec[j] - p.dec[i];
+      const meanCosDec = Math.cos((p.dec[i] + p.dec[j]) / 2);
+      const lengthDeg = Math.hypot(dRA * meanCosDec, dDec) * 180 / Math.PI;
+      const pieces = Math.max(1, Math.round(lengthDeg / BOUNDARY_DASH_DEG));
+
+      for (let k = 0; k < pieces; k += 2) {
+        const t1 = k / pieces, t2 = (k + 1) / pieces;
+        const a = toJ2000(p.ra[i] + dRA * t1, p.dec[i] + dDec * t1);
+        const b = toJ2000(p.ra[i] + dRA * t2, p.dec[i] + dDec * t2);
+        dashes.push(a[0], a[1], b[0], b[1]);
+      }
+    }
+  }
+  return dashes;
+}
+
+/**
+ * IAU constellation of a J2000 position, found as AstroMath.constellationAt()
+ * does: precessed to B1875, then a ray north along its meridian.
+ * @returns the containing polygon's abbr, or "" (no boundary data)
+ */
+function constellationOf(ra, dec, polygons) {
+  const [r, d] = rotateEquatorial(precessionMatrix(B1875_JD), ra, dec, false);
+  const wrap = (a) => a - 2 * Math.PI * Math.round(a / (2 * Math.PI));
+
+  for (const p of polygons) {
+    const n = p.ra.length;
+    let inside = false;
+    let winding = 0;
+    for (let i = 0, j = n - 1; i < n; j = i++) {
+      const d1 = wrap(p.ra[j] - r);
+      const d2 = wrap(p.ra[i] - r);
+      winding += wrap(p.ra[i] - p.ra[j]);
+      if ((d1 > 0) !== (d2 > 0) && Math.abs(d2 - d1) < Math.PI) {
+        const t = d1 / (d1 - d2);
+        if (p.dec[j] + t * (p.dec[i] - p.dec[j]) > d) inside = !inside;
+      }
+    }
+    // Edges going all the way round in RA enclose a pole
+    if (Math.abs(winding) > Math.PI && p.dec[0] > 0) inside = !inside;
+    if (inside) return p.abbr;
+  }
+  return "";
+}
+
+/**
+ * Give the western figures the star catalog's capitalization of their IAU
+ * abbreviation (Stellarium has "Tra" where HYG has "TrA").
+ */
+function matchCatalogAbbrs(constellations, stars) {
+  const byKey = new Map();
   for (const s of stars) {
-    const ra = s.ra.toFixed(6);
-    const dec = s.dec.toFixed(6);
-    const nameStr = s.name ? JSON.stringify(s.name) : '""';
-    const conStr = s.con ? JSON.stringify(s.con) : '""';
-    out += `  [${s.hip},${ra},${dec},${s.mag},${s.bv},${nameStr},${conStr}],\n`;
+    if (s.con) byKey.set(s.con.toUpperCase(), s.con);
+  }
+  for (const c of constellations) {
+    if (c.culture !== DEFAULT_CULTURE) continue;
+    const abbr = byKey.get(c.abbr.toUpperCase());
+    if (abbr && abbr !== c.abbr) {
+      console.log(`  ${c.abbr} -> ${abbr}`);
+      c.abbr = abbr;
+    }
   }
+}
 
-  out += `];\n\n`;
-  out += `export const STARS: StarRecord[] = RAW.map(s => ({\n`;
-  out += `  hip: s[0], ra: s[1], dec: s[2], mag: s[3], bv: s[4], name: s[5], con: s[6],\n`;
-  out += `}));\n\n`;
-  out += `export const HIP_TO_INDEX: Map<number, number> = new Map();\n`;
-  out += `STARS.forEach((s, i) => HIP_TO_INDEX.set(s.hip, i));\n`;
+/**
+ * Add the figure stars fainter than the magnitude limit, so no line loses an end.
+ * @param allByHip — every star with a HIP number (HYG, then XHIP figure stars)
+ * @returns the stars, still sorted brightest first, and how many were added
+ */
+function backfillFigureStars(stars, constellations, allByHip) {
+  const have = new Set(stars.map((s) => s.hip));
+  const added = [];
+  for (const c of constellations) {
+    for (const pair of c.lines) {
+      for (const hip of pair) {
+        const star = allByHip.get(hip);
+        if (star && !have.has(hip)) {
+          have.add(hip);
+          added.push(star);
+        }
+      }
+    }
+  }
+  const all = stars.concat(added).sort((a, b) => a.mag - b.mag || a.hip - b.hip);
+  return { stars: all, added: added.length };
+}
 
+/**
+ * Whether a figure has a line whose stars are both at most VISIBLE_MAG_LIMIT.
+ */
+function hasVisibleLine(lines, starsByHip) {
+  return lines.some(([h1, h2]) => {
+    const s1 = starsByHip.get(h1);
+    const s2 = starsByHip.get(h2);
+    return s1 && s2 && s1.mag <= VISIBLE_MAG_LIMIT && s2.mag <= VISIBLE_MAG_LIMIT;
+  });
+}
+
+/**
+ * Cross-check the star catalog and the figures.
+ * @returns { errors: string[], warnings: string[] }
+ */
+function validateCatalog(stars, constellations) {
+  const errors = [];
+  const warnings = [];
+  const starsByHip = new Map();
+
+  for (const s of stars) {
+    if (starsByHip.has(s.hip)) errors.push(`duplicate star HIP ${s.hip}`);
+    starsByHip.set(s.hip, s);
+    if (!(s.ra >= 0 && s.ra < 2 * Math.PI)) errors.push(`HIP ${s.hip}: RA ${s.ra} outside [0, 2π)`);
+    if (!(Math.abs(s.dec) <= Math.PI / 2)) errors.push(`HIP ${s.hip}: Dec ${s.dec} outside [-π/2, π/2]`);
+    if (isNaN(s.mag)) errors.push(`HIP ${s.hip}: no magnitude`);
+  }
+
+  // Catalog abbreviations by upper case, to tell case mismatches from absent ones
+  const catalogAbbrs = new Map();
+  for (const s of stars) {
+    if (s.con) catalogAbbrs.set(s.con.toUpperCase(), s.con);
+  }
+
+  const seen = new Set();
+  for (const c of constellations) {
+    const id = `${c.culture}/${c.abbr}`;
+    if (seen.has(id)) errors.push(`duplicate figure ${id}`);
+    seen.add(id);
+
+    if (c.culture === DEFAULT_CULTURE) {
+      const abbr = catalogAbbrs.get(c.abbr.toUpperCase());
+      if (abbr === undefined) {
+        warnings.push(`${id}: no catalog star has constellation "${c.abbr}"`);
+      } else if (abbr !== c.abbr) {
+        errors.push(`${id}: abbreviation "${c.abbr}" but stars have "${abbr}"`);
+      }
+    }
+
+    const missing = new Set();
+    for (const [h1, h2] of c.lines) {
+      if (!starsByHip.has(h1)) missing.add(h1);
+      if (!starsByHip.has(h2)) missing.add(h2);
+    }
+    if (missing.size > 0) {
+      errors.push(`${id}: line endpoints not in the catalog: HIP ${Array.from(missing).join(", ")}`);
+    }
+    if (!hasVisibleLine(c.lines, starsByHip)) {
+      errors.push(`${id}: no line with both stars in the catalog at mag <= ${VISIBLE_MAG_LIMIT}`);
+    }
+
+    if (c.centroidRA !== undefined) {
+      for (const [key, value, max] of [
+        ["centroidRA", c.centroidRA, 2 * Math.PI], ["labelRA", c.labelRA, 2 * Math.PI],
+      ]) {
+        if (!(value >= 0 && value <= max)) errors.push(`${id}: ${key} ${value} outside [0, 2π]`);
+      }
+      for (const [key, value] of [["centroidDec", c.centroidDec], ["labelDec", c.labelDec]]) {
+        if (!(Math.abs(value) <= Math.PI / 2)) errors.push(`${id}: ${key} ${value} outside [-π/2, π/2]`);
+      }
+    }
+  }
+
+  return { errors, warnings };
+}
+
+/**
+ * Print validateCatalog() results.
+ * @returns true when there were no errors
+ */
+function reportValidation({ errors, warnings }) {
+  for (const w of warnings) console.log(`  warning: ${w}`);
+  for (const e of errors) console.log(`  error: ${e}`);
+  console.log(`  ${errors.length} error(s), ${warnings.length} warning(s)`);
+  return errors.length === 0;
+}
+
+/**
+ * Read the stars back from a generated StarData.ts.
+ */
+function readStarDataTS(text) {
+  const count = parseInt(text.match(/^const COUNT = (\d+);$/m)[1], 10);
+  const names = JSON.parse(text.match(/^const NAMES: string\[\] = (.*);$/m)[1]);
+  const constellations = JSON.parse(text.match(/^const CONSTELLATIONS: string\[\] = (.*);$/m)[1]);
+  const base64 = Array.from(text.matchAll(/^  "([A-Za-z0-9+\/=]*)",$/gm), (m) => m[1]).join("");
+  return unpackStars(Buffer.from(base64, "base64"), count, names, constellations);
+}
+
+/**
+ * Read the cultures and figures back from a generated ConstellationData.ts.
+ */
+function readConstellationDataTS(text) {
+  const cultures = [];
+  for (const m of text.matchAll(/\{ id: ("[^"]*"), name: ("[^"]*") \}/g)) {
+    cultures.push({ id: JSON.parse(m[1]), name: JSON.parse(m[2]) });
+  }
+  const constellations = [];
+  for (const block of text.matchAll(/^  \{\n([\s\S]*?)^  \},$/gm)) {
+    const c = {};
+    for (const m of block[1].matchAll(/^    (\w+): (.*),$/gm)) {
+      c[m[1]] = JSON.parse(m[2]);
+    }
+    constellations.push(c);
+  }
+  return { cultures, constellations };
+}
+
+/**
+ * --validate: check the generated StarData.ts and ConstellationData.ts.
+ */
+function validateGenerated(outDir) {
+  console.log(`Validating generated data in ${outDir}...`);
+  const stars = readStarDataTS(fs.readFileSync(path.join(outDir, "StarData.ts"), "utf8"));
+  const { cultures, constellations } = readConstellationDataTS(
+    fs.readFileSync(path.join(outDir, "ConstellationData.ts"), "utf8")
+  );
+  console.log(`  ${stars.length} stars, ${constellations.length} figures in ${cultures.length} sky culture(s)`);
+  return reportValidation(validateCatalog(stars, constellations));
+}
+
+/**
+ * Pack the stars in the StarCatalog.ts layout: STAR_FIELD_BYTES per star,
+ * little-endian, stored field by field.
+ * @param fields — optional columns to fill (STAR_FIELDS); the others are stored as 0 / ""
+ * @returns { bytes: Buffer, names, constellations } — names and constellations
+ *   are the string tables the name / con fields index (entry 0 is "")
+ */
+function packStars(stars, fields = STAR_FIELDS) {
+  const names = [""];
+  const nameIndex = new Map([["", 0]]);
+  const constellations = [""].concat(
+    Array.from(new Set(stars.map((s) => s.con).filter((c) => c))).sort()
+  );
+  for (const s of stars) {
+    if (fields.includes("name") && s.name && !nameIndex.has(s.name)) {
+      nameIndex.set(s.name, names.length);
+      names.push(s.name);
+    }
+  }
+  if (names.length > 65536 || constellations.length > 256) {
+    throw new Error(`Too many star names (${names.length}) or constellations (${constellations.length}) to pack`);
+  }
+
+  const quantize = {
+    hip: (s) => s.hip,
+    ra: (s) => Math.round(s.ra / (2 * Math.PI) * 16777216) % 16777216,
+    dec: (s) => Math.round((s.dec + Math.PI / 2) / Math.PI * 16777215),
+    mag: (s) => Math.round(s.mag * 100),
+    bv: (s) => fields.includes("bv") ? Math.round(s.bv * 100) : 0,
+    pmra: (s) => fields.includes("pm") ? Math.round((s.pmra || 0) * 2) : 0,
+    pmdec: (s) => fields.includes("pm") ? Math.round((s.pmdec || 0) * 2) : 0,
+    name: (s) => fields.includes("name") ? nameIndex.get(s.name) || 0 : 0,
+    con: (s) => fields.includes("con") ? Math.max(0, constellations.indexOf(s.con)) : 0,
+  };
+
+  const bytesPerStar = STAR_FIELD_BYTES.reduce((sum, [, size]) => sum + size, 0);
+  const bytes = Buffer.alloc(stars.length * bytesPerStar);
+  let offset = 0;
+  for (const [field, size, signed] of STAR_FIELD_BYTES) {
+    const min = signed ? -(2 ** (8 * size - 1)) : 0;
+    const max = signed ? 2 ** (8 * size - 1) - 1 : 2 ** (8 * size) - 1;
+    for (const s of stars) {
+      const value = Math.max(min, Math.min(max, quantize[field](s)));
+      if (signed) bytes.writeIntLE(value, offset, size);
+      else bytes.writeUIntLE(value, offset, size);
+      offset += size;
+    }
+  }
+  return { bytes, names: names.length > 1 ? names : [""], constellations };
+}
+
+/**
+ * Inverse of packStars(), to the generator's star objects (proper motions in mas/yr).
+ */
+function unpackStars(bytes, count, names, constellations) {
+  const stars = [];
+  for (let i = 0; i < count; i++) stars.push({});
+  let offset = 0;
+  for (const [field, size, signed] of STAR_FIELD_BYTES) {
+    for (const s of stars) {
+      s[field] = signed ? bytes.readIntLE(offset, size) : bytes.readUIntLE(offset, size);
+      offset += size;
+    }
+  }
+  return stars.map((s) => ({
+    hip: s.hip,
+    ra: s.ra * (2 * Math.PI) / 16777216,
+    dec: s.dec * Math.PI / 16777215 - Math.PI / 2,
+    mag: s.mag / 100,
+    bv: s.bv / 100,
+    name: names[s.name],
+    con: constellations[s.con],
+    pmra: s.pmra / 2,
+    pmdec: s.pmdec / 2,
+  }));
+}
+
+/**
+ * StarData.ts: the packed catalog as base64, decoded by StarCatalog.ts into
+ * the STARS / HIP_TO_INDEX / STAR_ARRAYS exports.
+ * @param fields — optional columns to fill (STAR_FIELDS); the others are stored as 0 / ""
+ */
+function generateStarDataTS(stars, magLimit = MAG_LIMIT, fields = STAR_FIELDS) {
+  const { bytes, names, constellations } = packStars(stars, fields);
+  const base64 = bytes.toString("base64");
+
+  let out = `// StarData.ts — Auto-generated from HYG v41 database (XHIP for figure stars it lacks)\n`;
+  const faint = stars.filter((s) => s.mag > magLimit).length;
+  out += faint > 0
+    ? `// ${stars.length} stars: ${stars.length - faint} with magnitude <= ${magLimit}, ${faint} fainter figure stars\n`
+    : `// ${stars.length} stars with magnitude <= ${magLimit}\n`;
+  const omitted = STAR_FIELDS.filter((f) => !fields.includes(f));
+  if (omitted.length > 0) {
+    out += `// Without: ${omitted.join(", ")}\n`;
+  }
+  out += `\n`;
+  out += `import { StarArrays, StarRecord } from './Types';\n`;
+  out += `import { decodeStarCatalog, hipIndex, starRecords } from './StarCatalog';\n\n`;
+  out += `const COUNT = ${stars.length};\n\n`;
+  out += `// String tables the packed name / constellation fields index\n`;
+  out += `const NAMES: string[] = ${JSON.stringify(names)};\n`;
+  out += `const CONSTELLATIONS: string[] = ${JSON.stringify(constellations)};\n\n`;
+  out += `// ${bytes.length} bytes (see StarCatalog.ts for the layout)\n`;
+  out += `const PACKED = [\n`;
+  for (let i = 0; i < base64.length; i += 100) {
+    out += `  "${base64.slice(i, i + 100)}",\n`;
+  }
+  out += `].join('');\n\n`;
+  out += `export const STAR_ARRAYS: StarArrays = decodeStarCatalog(PACKED, COUNT, NAMES, CONSTELLATIONS);\n`;
+  out += `export const STARS: StarRecord[] = starRecords(STAR_ARRAYS);\n`;
+  out += `export const HIP_TO_INDEX: Map<number, number> = hipIndex(STAR_ARRAYS);\n`;
   return out;
 }
 
-function generateConstellationDataTS(constellations) {
-  let out = `// ConstellationData.ts — Auto-generated from Stellarium western sky culture\n`;
-  out += `// ${constellations.length} constellations\n`;
-  out += `// Generated: ${new Date().toISOString()}\n\n`;
-  out += `import { ConstellationRecord } from './Types';\n\n`;
-  out += `export const CONSTELLATIONS: ConstellationRecord[] = [\n`;
+/**
+ * @param cultures — [{ id, name }] in menu order, western first
+ * @param constellations — figures of every culture, each with its culture id
+ */
+function generateConstellationDataTS(cultures, constellations) {
+  let out = `// ConstellationData.ts — Auto-generated from Stellarium sky cultures\n`;
+  out += `// ${cultures.map((c) => c.id).join(", ")}: ${constellations.length} figures\n`;
+  out += `\n`;
+  out += `import { ConstellationRecord, SkyCultureRecord } from './Types';\n\n`;
+  out += `export const SKY_CULTURES: SkyCultureRecord[] = [\n`;
+  for (const c of cultures) {
+    out += `  { id: ${JSON.stringify(c.id)}, name: ${JSON.stringify(c.name)} },\n`;
+  }
+  out += `];\n\n`;
+  out += `// Every culture's figures; SkyCultures.getConstellations() has the active one\n`;
+  out += `export const ALL_CONSTELLATIONS: ConstellationRecord[] = [\n`;
 
   for (const c of constellations) {
     out += `  {\n`;
+    out += `    culture: ${JSON.stringify(c.culture)},\n`;
     out += `    abbr: ${JSON.stringify(c.abbr)},\n`;
     out += `    name: ${JSON.stringify(c.name)},\n`;
     out += `    lines: [`;
@@ -241,6 +1106,9 @@ function generateConstellationDataTS(constellations) {
     out += `],\n`;
     out += `    centroidRA: ${c.centroidRA},\n`;
     out += `    centroidDec: ${c.centroidDec},\n`;
+    out += `    radius: ${c.radius},\n`;
+    out += `    labelRA: ${c.labelRA},\n`;
+    out += `    labelDec: ${c.labelDec},\n`;
     out += `  },\n`;
   }
 
@@ -248,56 +1116,514 @@ function generateConstellationDataTS(constellations) {
   return out;
 }
 
-async function main() {
-  console.log("Downloading HYG star catalog...");
-  const hygCSV = await fetchUrl(HYG_URL);
-  console.log(`  Downloaded ${(hygCSV.length / 1024).toFixed(0)} KB`);
+function generateDeepSkyDataTS(objects) {
+  let out = `// DeepSkyData.ts — Auto-generated from tools/data/deep-sky.csv\n`;
+  out += `// ${objects.length} deep-sky objects (Messier, Caldwell, bright NGC/IC)\n`;
+  out += `\n`;
+  out += `import { DeepSkyRecord, DeepSkyType } from './Types';\n\n`;
+  out += `// Format: [id, name, type, ra_rad, dec_rad, mag, major_arcmin, minor_arcmin, surface_brightness, constellation, ngc]\n`;
+  out += `const RAW: [string, string, DeepSkyType, number, number, number, number, number, number, string, string][] = [\n`;
 
-  console.log("Parsing stars...");
-  const stars = parseHYG(hygCSV);
-  console.log(`  Found ${stars.length} stars with mag <= ${MAG_LIMIT}`);
+  for (const d of objects) {
+    out += `  [${JSON.stringify(d.id)},${JSON.stringify(d.name)},${JSON.stringify(d.type)},` +
+      `${d.ra.toFixed(6)},${d.dec.toFixed(6)},${d.mag},${d.major},${d.minor},` +
+      `${d.surfaceBrightness},${JSON.stringify(d.con)},${JSON.stringify(d.ngc)}],\n`;
+  }
 
-  const starsByHip = new Map();
-  for (const s of stars) {
-    starsByHip.set(s.hip, s);
+  out += `];\n\n`;
+  out += `export const DEEP_SKY_OBJECTS: DeepSkyRecord[] = RAW.map(d => ({\n`;
+  out += `  id: d[0], name: d[1], type: d[2], ra: d[3], dec: d[4], mag: d[5],\n`;
+  out += `  majorArcmin: d[6], minorArcmin: d[7], surfaceBrightness: d[8], con: d[9], ngc: d[10],\n`;
+  out += `}));\n`;
+  return out;
+}
+
+function generateCityDataTS(cities, source) {
+  // Grouped by country, largest cities first — the order the picker lists them in
+  const sorted = cities.slice().sort((a, b) =>
+    a.country.localeCompare(b.country) || b.population - a.population
+  );
+
+  let out = `// CityData.ts — Auto-generated from ${source}\n`;
+  out += `// ${sorted.length} cities for choosing a location without GPS\n`;
+  out += `\n`;
+  out += `import { CityRecord } from './Types';\n\n`;
+  out += `// Format: [name, country, lat_deg, lon_deg, elevation_m, timezone, population]\n`;
+  out += `const RAW: [string, string, number, number, number, string, number][] = [\n`;
+
+  for (const c of sorted) {
+    out += `  [${JSON.stringify(c.name)},${JSON.stringify(c.country)},` +
+      `${c.lat.toFixed(4)},${c.lon.toFixed(4)},${Math.round(c.elevation)},` +
+      `${JSON.stringify(c.timezone)},${c.population}],\n`;
+  }
+
+  out += `];\n\n`;
+  out += `export const CITIES: CityRecord[] = RAW.map(c => ({\n`;
+  out += `  name: c[0], country: c[1], lat: c[2], lon: c[3],\n`;
+  out += `  elevation: c[4], timezone: c[5], population: c[6],\n`;
+  out += `}));\n\n`;
+  out += `// Country names in picker order, with the index of each country's first city\n`;
+  out += `export const COUNTRIES: string[] = [];\n`;
+  out += `export const COUNTRY_START: number[] = [];\n`;
+  out += `CITIES.forEach((c, i) => {\n`;
+  out += `  if (COUNTRIES[COUNTRIES.length - 1] !== c.country) {\n`;
+  out += `    COUNTRIES.push(c.country);\n`;
+  out += `    COUNTRY_START.push(i);\n`;
+  out += `  }\n`;
+  out += `});\n`;
+  return out;
+}
+
+/**
+ * @param polygons — from readBoundaries (empty when no boundary file was found)
+ * @param source — the file they came from, for the header
+ */
+function generateBoundaryDataTS(polygons, dashes, source = "VizieR VI/49 constbnd.dat") {
+  let out = `// BoundaryData.ts — Auto-generated from ${source}\n`;
+  out += polygons.length > 0
+    ? `// ${polygons.length} IAU boundary polygons, ${dashes.length / 4} overlay dashes\n`
+    : `// No boundary file was found in tools/data: boundary overlay and lookup are off\n`;
+  out += `\n`;
+  out += `import { BoundaryRecord } from './Types';\n\n`;
+  out += `// Polygons in B1875 coordinates for AstroMath.constellationAt()\n`;
+  out += `// Format: [abbr, [ra_rad...], [dec_rad...]]\n`;
+  out += `const RAW: [string, number[], number[]][] = [\n`;
+  for (const p of polygons) {
+    out += `  [${JSON.stringify(p.abbr)},[${p.ra.map((v) => v.toFixed(6)).join(",")}],` +
+      `[${p.dec.map((v) => v.toFixed(6)).join(",")}]],\n`;
+  }
+  out += `];\n\n`;
+  out += `export const BOUNDARIES: BoundaryRecord[] = RAW.map(b => ({\n`;
+  out += `  abbr: b[0], ra: b[1], dec: b[2],\n`;
+  out += `}));\n\n`;
+  out += `// Dashed overlay, J2000: [ra1, dec1, ra2, dec2] per dash (radians)\n`;
+  out += `export const BOUNDARY_DASHES: number[] = [\n`;
+  for (let i = 0; i < dashes.length; i += 4) {
+    out += `  ${dashes.slice(i, i + 4).map((v) => v.toFixed(6)).join(",")},\n`;
   }
+  out += `];\n`;
+  return out;
+}
 
-  console.log("Downloading Stellarium constellation data...");
-  const constellationJSON = await fetchUrl(CONSTELLATION_URL);
-  console.log(`  Downloaded ${(constellationJSON.length / 1024).toFixed(0)} KB`);
+/**
+ * Read the gazetteer, preferring a GeoNames dump when one is present.
+ * @param verify — checksum callback, (source name, text) => void
+ * @param minPopulation — see selectCities()
+ */
+function readCities(verify = () => {}, minPopulation = CITY_MIN_POPULATION, dataDir = DATA_DIR) {
+  const file = (name) => path.join(dataDir, name);
+  if (fs.existsSync(file(GEONAMES_CITIES_INPUT))) {
+    let countryNames = {};
+    if (fs.existsSync(file(GEONAMES_COUNTRIES_INPUT))) {
+      const countries = fs.readFileSync(file(GEONAMES_COUNTRIES_INPUT), "utf8");
+      verify(GEONAMES_COUNTRIES_INPUT, countries);
+      countryNames = parseGeoNamesCountries(countries);
+    } else if (fs.existsSync(file(COUNTRY_NAMES_INPUT))) {
+      const countries = fs.readFileSync(file(COUNTRY_NAMES_INPUT), "utf8");
+      verify(COUNTRY_NAMES_INPUT, countries);
+      countryNames = parseCountryNamesCSV(countries);
+    }
+    const text = fs.readFileSync(file(GEONAMES_CITIES_INPUT), "utf8");
+    verify(GEONAMES_CITIES_INPUT, text);
+    return {
+      cities: selectCities(parseGeoNamesCities(text, countryNames), minPopulation),
+      source: `GeoNames cities15000 (population >= ${minPopulation}, ` +
+        `or among a country's ${CITIES_PER_COUNTRY} largest)`,
+    };
+  }
+  const text = fs.readFileSync(file(CITIES_INPUT), "utf8");
+  verify(CITIES_INPUT, text);
+  return {
+    cities: parseCitiesCSV(text),
+    source: "tools/data/cities.csv",
+  };
+}
 
-  console.log("Parsing constellations...");
-  const constellations = parseConstellationJSON(constellationJSON, starsByHip);
-  console.log(`  Found ${constellations.length} constellations`);
+/**
+ * Boundary polygons from constbnd.dat, else from constellations.bounds.json.
+ * @param abbrs — catalog abbreviations of the IAU constellations
+ * @returns { polygons, source } — no polygons when neither file is there
+ */
+function readBoundaries(abbrs, verify = () => {}, dataDir = DATA_DIR) {
+  if (fs.existsSync(path.join(dataDir, BOUNDARY_INPUT))) {
+    const text = fs.readFileSync(path.join(dataDir, BOUNDARY_INPUT), "utf8");
+    verify(BOUNDARY_INPUT, text);
+    return { polygons: parseBoundaries(text, abbrs), source: "VizieR VI/49 constbnd.dat" };
+  }
+  if (fs.existsSync(path.join(dataDir, BOUNDARY_GEOJSON_INPUT))) {
+    const text = fs.readFileSync(path.join(dataDir, BOUNDARY_GEOJSON_INPUT), "utf8");
+    verify(BOUNDARY_GEOJSON_INPUT, text);
+    return {
+      polygons: parseBoundaryGeoJSON(text, abbrs),
+      source: "VizieR VI/49 (d3-celestial constellations.bounds.json)",
+    };
+  }
+  return { polygons: [], source: "VizieR VI/49 constbnd.dat" };
+}
 
-  // Count how many constellation line endpoints are in our star catalog
-  let missingHips = 0, totalHips = 0;
-  for (const c of constellations) {
-    for (const [h1, h2] of c.lines) {
-      totalHips += 2;
-      if (!starsByHip.has(h1)) missingHips++;
-      if (!starsByHip.has(h2)) missingHips++;
+/**
+ * XHIP figure stars from figure-stars.json, or [] when the file is missing.
+ */
+function readFigureStars(verify = () => {}, dataDir = DATA_DIR) {
+  if (!fs.existsSync(path.join(dataDir, FIGURE_STARS_INPUT))) return [];
+  const text = fs.readFileSync(path.join(dataDir, FIGURE_STARS_INPUT), "utf8");
+  verify(FIGURE_STARS_INPUT, text);
+  return parseStarGeoJSON(text);
+}
+
+/**
+ * Sky cultures found in dir, as [{ id, name, file }], sorted by id.
+ */
+function listSkyCultures(dir = SKYCULTURE_DIR) {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter((id) => fs.existsSync(path.join(dir, id, "index.json")))
+    .sort()
+    .map((id) => ({
+      id,
+      name: CULTURE_NAMES[id] || id.charAt(0).toUpperCase() + id.slice(1).replace(/_/g, " "),
+      file: path.join(dir, id, "index.json"),
+    }));
+}
+
+/**
+ * Parse every sky culture in dir (western first), downloading western if it
+ * isn't there and downloads are allowed.
+ * @param western — Western figures ({ abbr, name, lines }) to use instead of
+ *   downloading them when dir has none
+ * @returns { cultures: [{ id, name }], constellations }
+ */
+async function readSkyCultures(
+  starsByHip, dir = SKYCULTURE_DIR, offline = false, verify = () => {}, western = null
+) {
+  const local = listSkyCultures(dir);
+  const cultures = [];
+  let constellations = [];
+
+  if (!local.some((c) => c.id === DEFAULT_CULTURE)) {
+    const entry = { id: DEFAULT_CULTURE, name: CULTURE_NAMES[DEFAULT_CULTURE] };
+    if (western) {
+      entry.figures = western;
+    } else {
+      entry.json = await readSource(null, CONSTELLATION_URL, "Stellarium western sky culture", offline);
     }
+    local.unshift(entry);
   }
-  console.log(`  Constellation star coverage: ${totalHips - missingHips}/${totalHips} endpoints found in catalog`);
-  if (missingHips > 0) {
-    console.log(`  (${missingHips} missing stars are dimmer than mag ${MAG_LIMIT} — lines to them will be hidden)`);
+  local.sort((a, b) => (a.id === DEFAULT_CULTURE ? -1 : b.id === DEFAULT_CULTURE ? 1 : 0));
+
+  for (const c of local) {
+    let figures;
+    if (c.figures) {
+      figures = c.figures.map((f) => Object.assign(
+        { culture: c.id, abbr: f.abbr, name: f.name, lines: f.lines },
+        figureGeometry(f.lines, starsByHip)
+      ));
+    } else {
+      const json = c.json || fs.readFileSync(c.file, "utf8");
+      verify(`skycultures/${c.id}/index.json`, json);
+      figures = parseConstellationJSON(json, starsByHip, c.id);
+    }
+    // No limiting magnitude setting would show these
+    const faint = figures.filter((f) => !hasVisibleLine(f.lines, starsByHip));
+    if (faint.length > 0) {
+      console.log(`  ${c.name}: skipped ${faint.map((f) => f.abbr).join(", ")} (no line brighter than mag ${VISIBLE_MAG_LIMIT})`);
+      figures = figures.filter((f) => !faint.includes(f));
+    }
+    console.log(`  ${c.name}: ${figures.length} figures`);
+    if (figures.length === 0) continue;
+    cultures.push({ id: c.id, name: c.name });
+    constellations = constellations.concat(figures);
   }
 
-  console.log("Generating StarData.ts...");
-  const starTS = generateStarDataTS(stars);
-  fs.writeFileSync(path.join(OUTPUT_DIR, "StarData.ts"), starTS);
-  console.log(`  Written ${(starTS.length / 1024).toFixed(0)} KB`);
+  return { cultures, constellations };
+}
 
-  console.log("Generating ConstellationData.ts...");
-  const constTS = generateConstellationDataTS(constellations);
-  fs.writeFileSync(path.join(OUTPUT_DIR, "ConstellationData.ts"), constTS);
-  console.log(`  Written ${(constTS.length / 1024).toFixed(0)} KB`);
+/**
+ * Command-line options (see USAGE).
+ */
+function parseArgs(argv) {
+  const options = {
+    hyg: null,
+    rebuild: false,
+    dataDir: DATA_DIR,
+    skycultures: null,
+    offline: false,
+    magLimit: MAG_LIMIT,
+    outDir: OUTPUT_DIR,
+    fields: STAR_FIELDS,
+    minPopulation: CITY_MIN_POPULATION,
+    checksums: null,
+    updateChecksums: false,
+    check: false,
+    validate: false,
+    help: false,
+  };
 
-  console.log("\nDone! Files generated in Assets/Scripts/SkyGuide/");
+  for (let i = 0; i < argv.length; i++) {
+    let arg = argv[i];
+    let value = null;
+    const eq = arg.indexOf("=");
+    if (arg.startsWith("--") && eq > 0) {
+      value = arg.slice(eq + 1);
+      arg = arg.slice(0, eq);
+    }
+    const next = () => {
+      if (value === null) value = argv[++i];
+      if (value === undefined || value === "") throw new Error(`${arg} needs a value`);
+      return value;
+    };
+
+    switch (arg) {
+      case "--hyg": options.hyg = path.resolve(next()); break;
+      case "--rebuild": options.rebuild = true; break;
+      case "--data-dir": options.dataDir = path.resolve(next()); break;
+      case "--skycultures": options.skycultures = path.resolve(next()); break;
+      case "--offline": options.offline = true; break;
+      case "--mag-limit":
+        options.magLimit = parseFloat(next());
+        if (isNaN(options.magLimit)) throw new Error(`--mag-limit: not a number: ${value}`);
+        break;
+      case "--out-dir": options.outDir = path.resolve(next()); break;
+      case "--fields":
+        options.fields = next().split(",").map((f) => f.trim()).filter((f) => f);
+        for (const f of options.fields) {
+          if (!STAR_FIELDS.includes(f)) throw new Error(`--fields: unknown field ${f}`);
+        }
+        break;
+      case "--min-population":
+        options.minPopulation = parseInt(next(), 10);
+        if (isNaN(options.minPopulation)) throw new Error(`--min-population: not a number: ${value}`);
+        break;
+      case "--checksums": options.checksums = path.resolve(next()); break;
+      case "--update-checksums": options.updateChecksums = true; break;
+      case "--check": options.check = true; break;
+      case "--validate": options.validate = true; break;
+      case "--help":
+      case "-h": options.help = true; break;
+      default: throw new Error(`Unknown option ${arg}`);
+    }
+  }
+  options.skycultures = options.skycultures || path.join(options.dataDir, "skycultures");
+  options.checksums = options.checksums || path.join(options.dataDir, CHECKSUMS_INPUT);
+  return options;
+}
+
+/**
+ * A source's text from a local file, else downloaded (unless offline).
+ * @param label — what the source is, for messages
+ */
+async function readSource(file, url, label, offline) {
+  if (file) {
+    console.log(`Reading ${label} from ${file}...`);
+    return fs.readFileSync(file, "utf8");
+  }
+  if (offline) {
+    throw new Error(`${label} is not available locally and --offline forbids downloading it`);
+  }
+  console.log(`Downloading ${label}...`);
+  const text = await fetchUrl(url);
+  console.log(`  Downloaded ${(text.length / 1024).toFixed(0)} KB`);
+  return text;
+}
+
+/**
+ * Pinned checksums as { source name: sha256 hex }, {} when the file is missing.
+ */
+function readChecksums(file) {
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : {};
+}
+
+function writeChecksums(file, pins) {
+  const sorted = {};
+  for (const name of Object.keys(pins).sort()) sorted[name] = pins[name];
+  fs.writeFileSync(file, JSON.stringify(sorted, null, 2) + "\n");
+  console.log(`Pinned ${Object.keys(sorted).length} source checksums in ${file}`);
+}
+
+/**
+ * Check a source against its pinned SHA-256, or pin it when updating.
+ * @param strict — an unpinned source is an error rather than only reported
+ */
+function verifySource(name, text, pins, update, strict = false) {
+  const hash = crypto.createHash("sha256").update(text, "utf8").digest("hex");
+  if (update) {
+    pins[name] = hash;
+  } else if (!pins[name] && strict) {
+    throw new Error(`${name}: sha256 ${hash} is not pinned (pin it with --update-checksums)`);
+  } else if (!pins[name]) {
+    console.log(`  ${name}: sha256 ${hash} (not pinned)`);
+  } else if (pins[name] !== hash) {
+    throw new Error(`${name}: sha256 ${hash} does not match the pinned ${pins[name]}`);
+  }
+}
+
+async function main(options) {
+  const pins = readChecksums(options.checksums);
+  // Offline and --check runs must see exactly the pinned inputs
+  const strict = options.offline || options.check;
+  const verify = (name, text) => verifySource(name, text, pins, options.updateChecksums, strict);
+
+  let allStars;
+  let western = null;
+  if (options.rebuild) {
+    console.log(`Reading stars and Western figures from ${options.outDir}...`);
+    allStars = readStarDataTS(fs.readFileSync(path.join(options.outDir, "StarData.ts"), "utf8"));
+    western = readConstellationDataTS(
+      fs.readFileSync(path.join(options.outDir, "ConstellationData.ts"), "utf8")
+    ).constellations.filter((c) => c.culture === DEFAULT_CULTURE);
+  } else {
+    const hygCSV = await readSource(options.hyg, HYG_URL, "HYG star catalog", options.offline);
+    verify("hygdata_v41.csv", hygCSV);
+    console.log("Parsing stars...");
+    allStars = parseHYG(hygCSV, Infinity);
+  }
+  const allByHip = new Map();
+  for (const s of allStars) {
+    allByHip.set(s.hip, s);
+  }
+  const brightStars = allStars.filter((s) => s.mag <= options.magLimit);
+  console.log(`  Found ${brightStars.length} stars with mag <= ${options.magLimit}`);
+
+  // XHIP stands in for figure stars the catalog lacks
+  const xhipStars = readFigureStars(verify, options.dataDir).filter((s) => !allByHip.has(s.hip));
+  for (const s of xhipStars) {
+    allByHip.set(s.hip, s);
+  }
+  console.log(`  ${xhipStars.length} figure stars not in the catalog taken from XHIP`);
+
+  console.log("Parsing sky cultures...");
+  const { cultures, constellations } = await readSkyCultures(
+    allByHip, options.skycultures, options.offline, verify, western
+  );
+  console.log(`  Found ${constellations.length} figures in ${cultures.length} sky culture(s)`);
+  matchCatalogAbbrs(constellations, brightStars);
+
+  console.log("Reading constellation boundaries...");
+  const boundaries = readBoundaries(
+    constellations.filter((c) => c.culture === DEFAULT_CULTURE).map((c) => c.abbr),
+    verify,
+    options.dataDir
+  );
+  if (boundaries.polygons.length === 0) {
+    console.log(`  No boundary file in ${options.dataDir} — boundary overlay will be empty`);
+  } else {
+    console.log(`  Found ${boundaries.polygons.length} boundary polygons in ${boundaries.source}`);
+  }
+  for (const s of xhipStars) {
+    s.con = constellationOf(s.ra, s.dec, boundaries.polygons);
+  }
+
+  // Figure lines keep both ends: their fainter stars come along
+  const { stars, added } = backfillFigureStars(brightStars, constellations, allByHip);
+  console.log(`  Added ${added} figure stars fainter than mag ${options.magLimit}`);
+
+  console.log("Validating...");
+  const valid = reportValidation(validateCatalog(stars, constellations));
+
+  // [file name, contents], written (or compared) at the end
+  const outputs = [];
+  outputs.push(["StarData.ts", generateStarDataTS(stars, options.magLimit, options.fields)]);
+  outputs.push(["ConstellationData.ts", generateConstellationDataTS(cultures, constellations)]);
+
+  console.log("Reading deep-sky objects...");
+  const dsoCSV = fs.readFileSync(path.join(options.dataDir, DSO_INPUT), "utf8");
+  verify(DSO_INPUT, dsoCSV);
+  const dsos = parseDeepSkyCSV(dsoCSV);
+  console.log(`  Found ${dsos.length} deep-sky objects`);
+  outputs.push(["DeepSkyData.ts", generateDeepSkyDataTS(dsos)]);
+
+  console.log("Reading cities...");
+  const { cities, source } = readCities(verify, options.minPopulation, options.dataDir);
+  console.log(`  Found ${cities.length} cities in ${source}`);
+  outputs.push(["CityData.ts", generateCityDataTS(cities, source)]);
+
+  outputs.push(["BoundaryData.ts", generateBoundaryDataTS(
+    boundaries.polygons, boundaryDashes(boundaries.polygons), boundaries.source
+  )]);
+
+  if (options.updateChecksums) {
+    writeChecksums(options.checksums, pins);
+  }
+
+  let ok = valid;
+  if (options.check) {
+    console.log(`\nComparing with ${options.outDir}...`);
+    for (const [name, text] of outputs) {
+      const file = path.join(options.outDir, name);
+      const same = fs.existsSync(file) && fs.readFileSync(file, "utf8") === text;
+      console.log(`  ${name}: ${same ? "up to date" : "differs"}`);
+      ok = ok && same;
+    }
+  } else {
+    fs.mkdirSync(options.outDir, { recursive: true });
+    for (const [name, text] of outputs) {
+      fs.writeFileSync(path.join(options.outDir, name), text);
+      console.log(`Written ${name} (${(text.length / 1024).toFixed(0)} KB)`);
+    }
+    console.log(`\nDone! Files generated in ${options.outDir}`);
+  }
+  if (!valid) {
+    console.log("Validation found errors (see above)");
+  }
+  return ok;
+}
+
+if (require.main === module) {
+  let options;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error(`${err.message}\n\n${USAGE}`);
+    process.exit(2);
+  }
+  if (options.help) {
+    console.log(USAGE);
+  } else if (options.validate) {
+    process.exitCode = validateGenerated(options.outDir) ? 0 : 1;
+  } else {
+    main(options).then((ok) => {
+      process.exitCode = ok ? 0 : 1;
+    }).catch((err) => {
+      console.error("Error:", err);
+      process.exit(1);
+    });
+  }
 }
 
-main().catch((err) => {
-  console.error("Error:", err);
-  process.exit(1);
-});
+module.exports = {
+  parseCSVLine,
+  parseHYG,
+  parseStarGeoJSON,
+  constellationOf,
+  matchCatalogAbbrs,
+  backfillFigureStars,
+  validateCatalog,
+  readStarDataTS,
+  readConstellationDataTS,
+  parseConstellationJSON,
+  figureGeometry,
+  listSkyCultures,
+  readSkyCultures,
+  parseArgs,
+  verifySource,
+  parseDeepSkyCSV,
+  parseCitiesCSV,
+  parseGeoNamesCities,
+  parseGeoNamesCountries,
+  parseCountryNamesCSV,
+  selectCities,
+  readCities,
+  parseBoundaries,
+  parseBoundaryGeoJSON,
+  boundaryDashes,
+  readBoundaries,
+  readFigureStars,
+  packStars,
+  unpackStars,
+  generateStarDataTS,
+  generateConstellationDataTS,
+  generateDeepSkyDataTS,
+  generateCityDataTS,
+  generateBoundaryDataTS,
+  main,
+};
@@ -0,0 +1,144 @@
+#!/usr/bin/env node
+/**
+ * import-d3-celestial.js
+ *
+ * Refreshes the generator inputs taken from d3-celestial's data folder
+ * (https://github.com/ofrohn/d3-celestial, BSD-3-Clause; `npm pack d3-celestial`
+ * has it under package/data):
+ *
+ *   tools/data/skycultures/chinese/index.json
+ *                                  the traditional Chinese figures (d3-celestial's
+ *                                  conversion of Stellarium's chinese culture) back
+ *                                  in Stellarium's format: each line vertex is
+ *                                  matched to the XHIP star at that position
+ *   tools/data/figure-stars.json   the XHIP entries of stars.14.json for every
+ *                                  star on a figure line (Western figures from
+ *                                  ConstellationData.ts unless there is a local
+ *                                  western/index.json, plus tools/data/skycultures)
+ *
+ * The generator reads the culture like any other and uses the stars for
+ * figure stars its star catalog lacks. Re-run the generator with
+ * --update-checksums afterwards to pin the new files.
+ *
+ * Usage: node tools/import-d3-celestial.js <d3-celestial data folder>
+ */
+
+const fs = require("fs");
+const path = require("path");
+const generator = require("./generate-star-data.js");
+
+const DATA_DIR = path.join(__dirname, "data");
+const CONSTELLATION_DATA = path.join(
+  __dirname, "..", "Assets", "Scripts", "SkyGuide", "ConstellationData.ts"
+);
+
+/**
+ * HIP numbers on any figure line: the local sky cultures, and the checked-in
+ * Western figures when there is no local western/index.json.
+ */
+function figureHips(skycultureDir) {
+  const hips = new Set();
+  const add = (figures) => {
+    for (const c of figures) {
+      for (const pair of c.lines) {
+        hips.add(pair[0]);
+        hips.add(pair[1]);
+      }
+    }
+  };
+
+  const local = generator.listSkyCultures(skycultureDir);
+  for (const c of local) {
+    add(generator.parseConstellationJSON(fs.readFileSync(c.file, "utf8"), new Map(), c.id));
+  }
+  if (!local.some((c) => c.id === "western")) {
+    const { constellations } = generator.readConstellationDataTS(
+      fs.readFileSync(CONSTELLATION_DATA, "utf8")
+    );
+    add(constellations.filter((c) => c.culture === "western"));
+  }
+  return hips;
+}
+
+/**
+ * d3-celestial's Chinese figures as a Stellarium index.json object. Vertices
+ * are J2000 degrees (longitude 0–360 here, unlike the star files' ±180),
+ * rounded to 0.0001° as in stars.14.json, so they match a star exactly.
+ * @param stars — the stars.14.json features
+ */
+function chineseCulture(d3DataDir, stars) {
+  const key = (lon, lat) => `${(lon > 180 ? lon - 360 : lon).toFixed(4)},${lat.toFixed(4)}`;
+  const hipAt = new Map();
+  for (const f of stars) {
+    hipAt.set(key(f.geometry.coordinates[0], f.geometry.coordinates[1]), f.id);
+  }
+  const names = JSON.parse(fs.readFileSync(path.join(d3DataDir, "constellations.cn.json"), "utf8"));
+  const lines = JSON.parse(fs.readFileSync(path.join(d3DataDir, "constellations.lines.cn.json"), "utf8"));
+  const linesById = new Map(lines.features.map((f) => [f.id, f.geometry.coordinates]));
+
+  const constellations = [];
+  for (const f of names.features) {
+    const chains = (linesById.get(f.id) || []).map((chain) => chain.map(([lon, lat]) => {
+      const hip = hipAt.get(key(lon, lat));
+      if (hip === undefined) throw new Error(`Chinese figure ${f.id}: no XHIP star at ${lon}, ${lat}`);
+      return hip;
+    }));
+    constellations.push({
+      id: `CON chinese ${f.id.padStart(3, "0")}`,
+      lines: chains,
+      common_name: { english: f.properties.en, native: f.properties.name, pronounce: f.properties.pinyin },
+    });
+  }
+  return { id: "chinese", region: "Asia", constellations };
+}
+
+/**
+ * A sky culture index.json with one figure per line.
+ */
+function writeCulture(file, culture) {
+  const body = culture.constellations.map((c) => `    ${JSON.stringify(c)}`).join(",\n");
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, `{\n  "id": ${JSON.stringify(culture.id)},\n  "region": ${JSON.stringify(culture.region)},\n` +
+    `  "constellations": [\n${body}\n  ]\n}\n`);
+  console.log(`Written ${path.relative(process.cwd(), file)} (${culture.constellations.length} figures)`);
+}
+
+/**
+ * GeoJSON with one feature per line, so updates diff line by line.
+ */
+function writeFeatureCollection(file, features) {
+  const body = features.map((f) => JSON.stringify(f)).join(",\n");
+  fs.writeFileSync(file, `{"type":"FeatureCollection","features":[\n${body}\n]}\n`);
+  console.log(`Written ${path.relative(process.cwd(), file)} (${features.length} features)`);
+}
+
+function main(d3DataDir) {
+  console.log("Reading XHIP stars (stars.14.json)...");
+  const stars = JSON.parse(fs.readFileSync(path.join(d3DataDir, "stars.14.json"), "utf8"));
+
+  writeCulture(
+    path.join(DATA_DIR, "skycultures", "chinese", "index.json"),
+    chineseCulture(d3DataDir, stars.features)
+  );
+
+  const hips = figureHips(path.join(DATA_DIR, "skycultures"));
+  console.log(`${hips.size} figure stars`);
+  const features = stars.features
+    .filter((f) => hips.has(f.id))
+    .sort((a, b) => a.id - b.id);
+  const missing = Array.from(hips).filter((hip) => !features.some((f) => f.id === hip));
+  if (missing.length > 0) {
+    console.log(`  Not in XHIP: HIP ${missing.sort((a, b) => a - b).join(", ")}`);
+  }
+  writeFeatureCollection(path.join(DATA_DIR, "figure-stars.json"), features);
+}
+
+if (require.main === module) {
+  const dir = process.argv[2];
+  if (!dir || dir === "--help" || dir === "-h") {
+    console.log("Usage: node tools/import-d3-celestial.js <d3-celestial data folder>");
+    process.exitCode = dir ? 0 : 2;
+  } else {
+    main(path.resolve(dir));
+  }
+}